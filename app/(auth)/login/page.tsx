@@ -5,34 +5,51 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import Link from 'next/link';
+import { startAuthentication } from '@simplewebauthn/browser';
 import { trpc } from '@/lib/trpc/Provider';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Fingerprint } from 'lucide-react';
 import { TwoFactorVerify } from '@/components/auth/TwoFactorVerify';
 import { OAuthButtons } from '@/components/auth/OAuthButtons';
 
 import { loginSchema, type LoginInput } from '@/lib/validations/auth';
 
+// Why a single sign-on attempt sent the user back here
+const SSO_ERROR_MESSAGES: Record<string, string> = {
+  sso_not_configured: 'Single sign-on is not set up for this email domain.',
+  sso_failed: 'Single sign-on failed. Please try again or contact your administrator.',
+  sso_wrong_domain: 'Your identity provider returned an email outside your organization.',
+  sso_no_account: 'No account exists for this email. Ask your administrator for an invitation.',
+  sso_required: 'Your organization requires single sign-on. Sign in with SSO instead.',
+};
+
 function LoginForm() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const from = searchParams.get('from') || '/dashboard';
+  const ssoError = SSO_ERROR_MESSAGES[searchParams.get('error') ?? ''];
   const utils = trpc.useUtils();
 
   const [showPassword, setShowPassword] = useState(false);
+  const [passkeyError, setPasskeyError] = useState('');
+  const [isPasskeyPending, setIsPasskeyPending] = useState(false);
 
   // 2FA state
   const [requiresTwoFactor, setRequiresTwoFactor] = useState(false);
   const [twoFactorEmail, setTwoFactorEmail] = useState('');
   const [twoFactorError, setTwoFactorError] = useState('');
+  const [twoFactorHasPasskey, setTwoFactorHasPasskey] = useState(false);
 
   const {
     register,
     handleSubmit,
     formState: { errors },
     setError,
+    getValues,
+    trigger,
   } = useForm<LoginInput>({
     resolver: zodResolver(loginSchema),
   });
@@ -44,6 +61,7 @@ function LoginForm() {
       if ('requiresTwoFactor' in data && data.requiresTwoFactor) {
         setRequiresTwoFactor(true);
         setTwoFactorEmail(data.email);
+        setTwoFactorHasPasskey('hasPasskey' in data && data.hasPasskey);
         setTwoFactorError('');
         return;
       }
@@ -73,6 +91,10 @@ function LoginForm() {
     },
   });
 
+  const passkeyLoginOptionsMutation = trpc.auth.getPasskeyLoginOptions.useMutation();
+  const loginWithPasskeyMutation = trpc.auth.loginWithPasskey.useMutation();
+  const twoFactorPasskeyOptionsMutation = trpc.auth.getTwoFactorPasskeyOptions.useMutation();
+
   const onSubmit = (data: LoginInput) => {
     loginWithPasswordMutation.mutate({
       email: data.email,
@@ -80,6 +102,44 @@ function LoginForm() {
     });
   };
 
+  const handleSsoLogin = async () => {
+    if (!(await trigger('email'))) return;
+
+    const params = new URLSearchParams({ email: getValues('email'), returnTo: from });
+    window.location.href = `/api/auth/sso?${params.toString()}`;
+  };
+
+  const handlePasskeyLogin = async () => {
+    setPasskeyError('');
+    setIsPasskeyPending(true);
+    try {
+      const optionsJSON = await passkeyLoginOptionsMutation.mutateAsync();
+      const response = await startAuthentication({ optionsJSON });
+      await loginWithPasskeyMutation.mutateAsync({ response });
+
+      await utils.auth.getCurrentUser.invalidate();
+      await utils.auth.getCurrentUser.refetch();
+      router.push(from);
+    } catch (error) {
+      setPasskeyError(error instanceof Error ? error.message : 'Passkey sign-in failed');
+    } finally {
+      setIsPasskeyPending(false);
+    }
+  };
+
+  const handleTwoFactorPasskey = async (trustDevice: boolean) => {
+    setTwoFactorError('');
+    try {
+      const optionsJSON = await twoFactorPasskeyOptionsMutation.mutateAsync({
+        email: twoFactorEmail,
+      });
+      const passkey = await startAuthentication({ optionsJSON });
+      verifyTwoFactorMutation.mutate({ email: twoFactorEmail, passkey, trustDevice });
+    } catch (error) {
+      setTwoFactorError(error instanceof Error ? error.message : 'Passkey verification failed');
+    }
+  };
+
   const handleTwoFactorVerify = (code: string, isBackupCode: boolean, trustDevice: boolean) => {
     setTwoFactorError('');
     verifyTwoFactorMutation.mutate({
@@ -94,6 +154,7 @@ function LoginForm() {
     setRequiresTwoFactor(false);
     setTwoFactorEmail('');
     setTwoFactorError('');
+    setTwoFactorHasPasskey(false);
   };
 
   // For loading states
@@ -105,8 +166,9 @@ function LoginForm() {
       <TwoFactorVerify
         email={twoFactorEmail}
         onVerify={handleTwoFactorVerify}
+        onUsePasskey={twoFactorHasPasskey ? handleTwoFactorPasskey : undefined}
         onCancel={handleTwoFactorCancel}
-        isLoading={verifyTwoFactorMutation.isPending}
+        isLoading={verifyTwoFactorMutation.isPending || twoFactorPasskeyOptionsMutation.isPending}
         error={twoFactorError}
       />
     );
@@ -121,6 +183,11 @@ function LoginForm() {
         </CardDescription>
       </CardHeader>
         <CardContent>
+          {(passkeyError || ssoError) && (
+            <p className="mb-4 rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+              {passkeyError || ssoError}
+            </p>
+          )}
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
             <div className="space-y-2">
               <Label htmlFor="email">Email</Label>
@@ -171,6 +238,21 @@ function LoginForm() {
             >
               {isLoading ? 'Signing in...' : 'Sign In'}
             </Button>
+
+            <Button type="button" variant="outline" className="w-full" onClick={handleSsoLogin}>
+              Sign in with SSO
+            </Button>
+
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              disabled={isPasskeyPending}
+              onClick={handlePasskeyLogin}
+            >
+              <Fingerprint className="h-4 w-4 mr-2" />
+              {isPasskeyPending ? 'Waiting for passkey...' : 'Sign in with a passkey'}
+            </Button>
           </form>
 
           <OAuthButtons />
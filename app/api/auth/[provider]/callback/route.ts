@@ -8,6 +8,7 @@ import {
   OAuthProvider,
   getEncryptionKey,
 } from '@/lib/auth/oauth';
+import { isSsoEnforced } from '@/lib/auth/sso-login';
 import crypto from 'crypto';
 
 /**
@@ -140,6 +141,12 @@ export async function GET(
     });
 
     if (existingUser) {
+      if (await isSsoEnforced(existingUser.organizationId)) {
+        return NextResponse.redirect(
+          `${process.env.NEXT_PUBLIC_APP_URL}/login?error=sso_required`
+        );
+      }
+
       // User exists - check if OAuth account is linked
       if (existingUser.oauthAccounts.length === 0) {
         // Link OAuth account to existing user
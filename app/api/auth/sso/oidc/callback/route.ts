@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import {
+  completeSsoLogin,
+  findSsoConnectionById,
+  SsoSignInError,
+} from '@/lib/auth/sso-login';
+import { completeOidcSignIn, openSsoState, SSO_STATE_COOKIE } from '@/lib/auth/sso';
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const code = searchParams.get('code');
+  const returnedState = searchParams.get('state');
+  const error = searchParams.get('error');
+
+  // Handle identity provider errors
+  if (error) {
+    console.error('SSO error:', error);
+    return NextResponse.redirect(`${process.env.NEXT_PUBLIC_APP_URL}/login?error=sso_failed`);
+  }
+
+  if (!code || !returnedState) {
+    return NextResponse.redirect(
+      `${process.env.NEXT_PUBLIC_APP_URL}/login?error=missing_params`
+    );
+  }
+
+  // Verify state for CSRF protection
+  const cookieStore = await cookies();
+  const state = openSsoState(cookieStore.get(SSO_STATE_COOKIE)?.value);
+  cookieStore.delete({ name: SSO_STATE_COOKIE, path: '/api/auth/sso' });
+
+  if (!state?.state || state.state !== returnedState) {
+    return NextResponse.redirect(
+      `${process.env.NEXT_PUBLIC_APP_URL}/login?error=invalid_state`
+    );
+  }
+
+  try {
+    const connection = await findSsoConnectionById(state.connectionId);
+    if (!connection || connection.protocol !== 'OIDC') {
+      throw new SsoSignInError('sso_not_configured', 'SSO connection is no longer enabled');
+    }
+
+    const identity = await completeOidcSignIn(connection, code, state);
+    await completeSsoLogin(connection, identity);
+
+    return NextResponse.redirect(`${process.env.NEXT_PUBLIC_APP_URL}${state.returnTo}`);
+  } catch (error) {
+    console.error('SSO callback error:', error);
+    const errorCode = error instanceof SsoSignInError ? error.code : 'sso_failed';
+    return NextResponse.redirect(`${process.env.NEXT_PUBLIC_APP_URL}/login?error=${errorCode}`);
+  }
+}
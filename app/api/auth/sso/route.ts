@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findSsoConnectionForEmail } from '@/lib/auth/sso-login';
+import {
+  buildOidcAuthorizationUrl,
+  buildSamlAuthorizationUrl,
+  discoverOidc,
+  safeReturnTo,
+  SAML_REQUEST_COOKIE,
+  SAML_REQUEST_COOKIE_PATH,
+  sealSsoState,
+  SSO_STATE_COOKIE,
+  SSO_STATE_MAX_AGE_SECONDS,
+} from '@/lib/auth/sso';
+
+/**
+ * Start an enterprise SSO sign-in for the organization that owns the email's domain
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const email = searchParams.get('email') ?? '';
+  const returnTo = safeReturnTo(searchParams.get('returnTo'));
+
+  const connection = await findSsoConnectionForEmail(email);
+  if (!connection) {
+    return NextResponse.redirect(
+      `${process.env.NEXT_PUBLIC_APP_URL}/login?error=sso_not_configured`
+    );
+  }
+
+  try {
+    if (connection.protocol === 'SAML') {
+      const { url, requestId } = await buildSamlAuthorizationUrl(
+        connection.id,
+        connection.samlMetadata ?? '',
+        returnTo
+      );
+
+      const response = NextResponse.redirect(url);
+      response.cookies.set(SAML_REQUEST_COOKIE, requestId, {
+        httpOnly: true,
+        secure: true, // Required for SameSite=None
+        sameSite: 'none',
+        maxAge: SSO_STATE_MAX_AGE_SECONDS,
+        path: SAML_REQUEST_COOKIE_PATH,
+      });
+
+      return response;
+    }
+
+    if (!connection.issuerUrl || !connection.clientId) {
+      throw new Error('OpenID Connect is not fully configured');
+    }
+
+    const discovery = await discoverOidc(connection.issuerUrl);
+    const { url, state, nonce, codeVerifier } = buildOidcAuthorizationUrl(
+      discovery,
+      connection.clientId
+    );
+
+    const response = NextResponse.redirect(url);
+    response.cookies.set(
+      SSO_STATE_COOKIE,
+      sealSsoState({ connectionId: connection.id, returnTo, state, nonce, codeVerifier }),
+      {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: SSO_STATE_MAX_AGE_SECONDS,
+        path: '/api/auth/sso',
+      }
+    );
+
+    return response;
+  } catch (error) {
+    console.error('SSO sign-in error:', error);
+    return NextResponse.redirect(`${process.env.NEXT_PUBLIC_APP_URL}/login?error=sso_failed`);
+  }
+}
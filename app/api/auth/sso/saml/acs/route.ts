@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  completeSsoLogin,
+  findSsoConnectionById,
+  SsoSignInError,
+} from '@/lib/auth/sso-login';
+import { completeSamlSignIn, openSsoState, takePendingSamlRequest } from '@/lib/auth/sso';
+
+/**
+ * SAML assertion consumer service - the identity provider posts its response here
+ * Redirects use 303 so the browser follows them with a GET
+ */
+export async function POST(request: NextRequest) {
+  const formData = await request.formData();
+  const samlResponse = formData.get('SAMLResponse');
+  const state = openSsoState(formData.get('RelayState')?.toString());
+  const pendingRequestId = await takePendingSamlRequest();
+
+  if (typeof samlResponse !== 'string' || !samlResponse) {
+    return NextResponse.redirect(
+      `${process.env.NEXT_PUBLIC_APP_URL}/login?error=missing_params`,
+      303
+    );
+  }
+
+  // The response must answer the request this browser is still waiting on
+  if (!state?.requestId || state.requestId !== pendingRequestId) {
+    return NextResponse.redirect(
+      `${process.env.NEXT_PUBLIC_APP_URL}/login?error=invalid_state`,
+      303
+    );
+  }
+
+  try {
+    const connection = await findSsoConnectionById(state.connectionId);
+    if (!connection || connection.protocol !== 'SAML') {
+      throw new SsoSignInError('sso_not_configured', 'SSO connection is no longer enabled');
+    }
+
+    const identity = await completeSamlSignIn(connection, samlResponse, state);
+    await completeSsoLogin(connection, identity);
+
+    return NextResponse.redirect(`${process.env.NEXT_PUBLIC_APP_URL}${state.returnTo}`, 303);
+  } catch (error) {
+    console.error('SAML sign-in error:', error);
+    const errorCode = error instanceof SsoSignInError ? error.code : 'sso_failed';
+    return NextResponse.redirect(
+      `${process.env.NEXT_PUBLIC_APP_URL}/login?error=${errorCode}`,
+      303
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { generateServiceProviderMetadata } from '@node-saml/node-saml';
+import { getServiceProviderUrls } from '@/lib/auth/sso';
+
+/**
+ * SAML service provider metadata, for administrators to upload to their identity provider
+ */
+export async function GET() {
+  const { samlAcsUrl, samlEntityId } = getServiceProviderUrls();
+
+  const metadata = generateServiceProviderMetadata({
+    issuer: samlEntityId,
+    callbackUrl: samlAcsUrl,
+    wantAssertionsSigned: true,
+  });
+
+  return new NextResponse(metadata, {
+    headers: { 'Content-Type': 'application/samlmetadata+xml' },
+  });
+}
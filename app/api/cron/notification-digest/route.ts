@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { container } from '@/src/infrastructure/di/container';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/cron/notification-digest
+ *
+ * Sends the daily digest email to every user with notifications set to the
+ * daily digest channel. Call it once a day from a scheduler.
+ *
+ * Security: Requires the CRON_SECRET environment variable, sent as a bearer token.
+ *
+ * @example
+ * # vercel.json
+ * { "crons": [{ "path": "/api/cron/notification-digest", "schedule": "0 7 * * *" }] }
+ */
+export async function GET(request: Request): Promise<Response> {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    logger.error('CRON_SECRET environment variable is required for scheduled jobs');
+    return NextResponse.json({ error: 'Scheduled jobs not configured' }, { status: 503 });
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await container.sendNotificationDigestsUseCase.execute();
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error({ error }, 'Failed to send notification digests');
+    return NextResponse.json({ error: 'Failed to send notification digests' }, { status: 500 });
+  }
+}
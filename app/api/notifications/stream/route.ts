@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getActiveUser } from '@/lib/session';
+import { validateSessionRecord } from '@/lib/auth/sessions';
+import { withTenantAsync } from '@/lib/tenant-context';
+import { formatServerSentComment, formatServerSentEvent } from '@/lib/sse';
+import { logger } from '@/lib/logger';
+import { container } from '@/src/infrastructure/di/container';
+import { NotificationDTO } from '@/src/application/dtos/NotificationDTO';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000; // Below common proxy idle timeouts
+const RECONNECT_DELAY_MS = 5 * 1000;
+
+/**
+ * GET /api/notifications/stream
+ * Stream the current user's notifications as Server-Sent Events
+ *
+ * Each notification is sent as a "notification" event whose id is the notification id.
+ * Clients resuming a stream pass the last id they saw - the browser sends it as the
+ * Last-Event-ID header, or it can be given as ?lastEventId= - and first receive the
+ * notifications created since, oldest first. A "ready" event follows the backfill;
+ * notifications after it are live.
+ *
+ * The session is checked again on every heartbeat, so the stream ends once the login
+ * is signed out from another device, revoked or expired.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getActiveUser();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const lastEventId =
+    request.headers.get('last-event-id') || request.nextUrl.searchParams.get('lastEventId');
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start: async (controller) => {
+      let closed = false;
+      const sentIds = new Set<string>();
+      const send = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+      const sendNotification = (notification: NotificationDTO) => {
+        if (sentIds.has(notification.id)) {
+          return;
+        }
+        sentIds.add(notification.id);
+        send(
+          formatServerSentEvent({ id: notification.id, event: 'notification', data: notification })
+        );
+      };
+
+      // Subscribe before backfilling so nothing created in between is lost;
+      // live notifications wait until the backfill has been sent
+      let pending: NotificationDTO[] | null = [];
+      const unsubscribe = container.notificationBus.subscribe(session.userId, (notification) => {
+        if (pending) {
+          pending.push(notification);
+        } else {
+          sendNotification(notification);
+        }
+      });
+      const heartbeat = setInterval(async () => {
+        let active = true;
+        try {
+          active = await validateSessionRecord(session.userId, session.sessionToken);
+        } catch (error) {
+          // Keep the stream through a database hiccup; the next heartbeat checks again
+          logger.error({ error, userId: session.userId }, 'Failed to check notification stream session');
+        }
+
+        if (!active) {
+          logger.info({ userId: session.userId }, 'Ending notification stream of revoked session');
+          cleanup();
+          return;
+        }
+
+        send(formatServerSentComment('heartbeat'));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      request.signal.addEventListener('abort', cleanup);
+
+      if (lastEventId) {
+        try {
+          const missed = await withTenantAsync(
+            {
+              organizationId: session.organizationId,
+              organizationSlug: session.organizationSlug,
+              organizationName: '',
+            },
+            () =>
+              container.getNotificationsSinceUseCase.execute({
+                userId: session.userId,
+                lastSeenId: lastEventId,
+              })
+          );
+          missed.forEach(sendNotification);
+        } catch (error) {
+          logger.error({ error, userId: session.userId }, 'Failed to backfill notifications');
+        }
+      }
+
+      // Everything before "ready" was missed while disconnected
+      send(formatServerSentEvent({ event: 'ready', data: null, retry: RECONNECT_DELAY_MS }));
+
+      const live = pending;
+      pending = null;
+      live.forEach(sendNotification);
+    },
+    cancel: () => cleanup(),
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable nginx response buffering
+    },
+  });
+}
@@ -0,0 +1,30 @@
+import { readScimGroup } from '@/lib/scim/resources';
+import { applyScimPatch, readPatchOperations } from '@/lib/scim/patch';
+import {
+  deleteScimGroup,
+  getScimGroup,
+  replaceScimGroup,
+} from '@/lib/scim/provisioning';
+import { readScimBody, scimResponse, withScim } from '@/lib/scim/http';
+
+type Params = { id: string };
+
+export const GET = withScim<Params>(async (_request, context, { id }) => {
+  return scimResponse(await getScimGroup(context, id));
+});
+
+export const PUT = withScim<Params>(async (request, context, { id }) => {
+  const input = readScimGroup(await readScimBody(request));
+  return scimResponse(await replaceScimGroup(context, id, input));
+});
+
+export const PATCH = withScim<Params>(async (request, context, { id }) => {
+  const operations = readPatchOperations(await readScimBody(request));
+  const patched = applyScimPatch(await getScimGroup(context, id), operations);
+  return scimResponse(await replaceScimGroup(context, id, readScimGroup(patched)));
+});
+
+export const DELETE = withScim<Params>(async (_request, context, { id }) => {
+  await deleteScimGroup(context, id);
+  return new Response(null, { status: 204 });
+});
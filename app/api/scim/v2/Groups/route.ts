@@ -0,0 +1,25 @@
+import { isAttributeExcluded, readScimGroup, toListResponse } from '@/lib/scim/resources';
+import { createScimGroup, listScimGroups } from '@/lib/scim/provisioning';
+import { readScimBody, scimResponse, withScim } from '@/lib/scim/http';
+
+/**
+ * List departments as groups, e.g. ?filter=displayName eq "Engineering"&excludedAttributes=members
+ */
+export const GET = withScim(async (request, context) => {
+  const searchParams = request.nextUrl.searchParams;
+  const params = {
+    filter: searchParams.get('filter'),
+    startIndex: searchParams.get('startIndex'),
+    count: searchParams.get('count'),
+    excludedAttributes: searchParams.get('excludedAttributes'),
+  };
+
+  const groups = await listScimGroups(context, !isAttributeExcluded(params, 'members'));
+
+  return scimResponse(toListResponse(groups, params));
+});
+
+export const POST = withScim(async (request, context) => {
+  const input = readScimGroup(await readScimBody(request));
+  return scimResponse(await createScimGroup(context, input), 201);
+});
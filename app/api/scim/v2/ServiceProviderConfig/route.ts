@@ -0,0 +1,4 @@
+import { getServiceProviderConfig } from '@/lib/scim/resources';
+import { scimResponse, withScim } from '@/lib/scim/http';
+
+export const GET = withScim(async () => scimResponse(getServiceProviderConfig()));
@@ -0,0 +1,31 @@
+import { readScimUser } from '@/lib/scim/resources';
+import { applyScimPatch, readPatchOperations } from '@/lib/scim/patch';
+import {
+  deleteScimUser,
+  getScimUser,
+  replaceScimUser,
+} from '@/lib/scim/provisioning';
+import { readScimBody, scimResponse, withScim } from '@/lib/scim/http';
+
+type Params = { id: string };
+
+export const GET = withScim<Params>(async (_request, context, { id }) => {
+  return scimResponse(await getScimUser(context, id));
+});
+
+export const PUT = withScim<Params>(async (request, context, { id }) => {
+  const input = readScimUser(await readScimBody(request));
+  return scimResponse(await replaceScimUser(context, id, input));
+});
+
+export const PATCH = withScim<Params>(async (request, context, { id }) => {
+  const operations = readPatchOperations(await readScimBody(request));
+  const current = await getScimUser(context, id);
+  const patched = applyScimPatch(current, operations);
+  return scimResponse(await replaceScimUser(context, id, readScimUser(patched, current)));
+});
+
+export const DELETE = withScim<Params>(async (_request, context, { id }) => {
+  await deleteScimUser(context, id);
+  return new Response(null, { status: 204 });
+});
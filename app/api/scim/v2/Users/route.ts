@@ -0,0 +1,23 @@
+import { readScimUser } from '@/lib/scim/resources';
+import { createScimUser, listScimUsers } from '@/lib/scim/provisioning';
+import { readScimBody, scimResponse, withScim } from '@/lib/scim/http';
+
+/**
+ * List users, e.g. ?filter=userName eq "jane@example.com"&startIndex=1&count=100
+ */
+export const GET = withScim(async (request, context) => {
+  const searchParams = request.nextUrl.searchParams;
+
+  return scimResponse(
+    await listScimUsers(context, {
+      filter: searchParams.get('filter'),
+      startIndex: searchParams.get('startIndex'),
+      count: searchParams.get('count'),
+    })
+  );
+});
+
+export const POST = withScim(async (request, context) => {
+  const input = readScimUser(await readScimBody(request));
+  return scimResponse(await createScimUser(context, input), 201);
+});
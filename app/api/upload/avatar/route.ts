@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { writeFile, mkdir, unlink } from 'fs/promises';
 import { join } from 'path';
 import { randomUUID } from 'crypto';
-import { getCurrentUser } from '@/lib/session';
+import { getActiveUser } from '@/lib/session';
 import { isFile } from '@/lib/type-guards';
 import { logger } from '@/lib/logger';
 import { prisma } from '@/server/db';
@@ -16,8 +16,8 @@ const ALLOWED_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'im
  */
 export async function POST(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getCurrentUser();
+    // Check authentication (revoked sessions are rejected)
+    const session = await getActiveUser();
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -106,8 +106,8 @@ export async function POST(request: NextRequest) {
  */
 export async function DELETE(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getCurrentUser();
+    // Check authentication (revoked sessions are rejected)
+    const session = await getActiveUser();
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -5,6 +5,8 @@ import { trpc } from '@/lib/trpc/Provider';
 import { AbsenceRequestDialog } from '@/components/AbsenceRequestDialog';
 import { AbsenceCalendar } from '@/components/AbsenceCalendar';
 import { AbsenceTable } from '@/components/AbsenceTable';
+import { AbsenceDecisionDialog, type AbsenceDecision } from '@/components/AbsenceDecisionDialog';
+import { AbsenceCancellationDialog } from '@/components/AbsenceCancellationDialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import {
@@ -18,8 +20,10 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from 'sonner';
+import { formatStaffingWarning } from '@/lib/labels';
 import { Permissions } from '@/lib/permissions';
 
 /**
@@ -34,6 +38,16 @@ export default function AbsencesPage() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [selectedAbsence, setSelectedAbsence] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('my-requests');
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [decision, setDecision] = useState<{ id: string; status: AbsenceDecision } | null>(null);
+  const [cancellationDecision, setCancellationDecision] = useState<{
+    id: string;
+    status: AbsenceDecision;
+  } | null>(null);
+  const [editingAbsence, setEditingAbsence] = useState<
+    React.ComponentProps<typeof AbsenceRequestDialog>['absence'] | null
+  >(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
 
   const utils = trpc.useUtils();
 
@@ -47,7 +61,7 @@ export default function AbsencesPage() {
   // Real-time data for approvals - shorter staleTime for fresh data
   const canViewAllAbsences = user ? Permissions.absence.viewAll(user) : false;
   const { data: allAbsences, isLoading: allAbsencesLoading } = trpc.absence.getAll.useQuery(
-    {},
+    { absenceTypeId: typeFilter === 'all' ? undefined : typeFilter },
     {
       enabled: canViewAllAbsences,
       staleTime: 1 * 60 * 1000, // 1 minute - need fresh data for approval queue
@@ -55,6 +69,22 @@ export default function AbsencesPage() {
     }
   );
 
+  // Requests waiting on the current user's approval step, including steps outside their team
+  const { data: approvalQueue, isLoading: approvalQueueLoading } =
+    trpc.absence.getApprovalQueue.useQuery(
+      { absenceTypeId: typeFilter === 'all' ? undefined : typeFilter },
+      {
+        enabled: canViewAllAbsences,
+        staleTime: 1 * 60 * 1000, // 1 minute - need fresh data for approval queue
+        gcTime: 5 * 60 * 1000, // 5 minutes
+      }
+    );
+
+  const { data: absenceTypes } = trpc.absenceType.list.useQuery(undefined, {
+    enabled: canViewAllAbsences,
+    staleTime: 10 * 60 * 1000, // 10 minutes - types are rarely reconfigured
+  });
+
   // Fetch statistics
   const { data: stats } = trpc.absence.getMyStats.useQuery(undefined, {
     staleTime: 5 * 60 * 1000, // 5 minutes - stats don't change frequently
@@ -68,6 +98,7 @@ export default function AbsencesPage() {
       // Invalidate all absence-related queries
       utils.absence.getMy.invalidate();
       utils.absence.getMyStats.invalidate();
+      utils.absence.getBalance.invalidate();
       utils.absence.getForUser.invalidate();
       utils.absence.getAll.invalidate();
       utils.absence.getUpcoming.invalidate();
@@ -93,12 +124,22 @@ export default function AbsencesPage() {
   // Approve/Reject mutations
   const updateStatusMutation = trpc.absence.updateStatus.useMutation({
     onSuccess: (data) => {
-      toast.success(`Absence request ${data.status.toLowerCase()} successfully`);
+      toast.success(
+        data.status === 'PENDING'
+          ? 'Approval step recorded - the request moves to the next approver'
+          : `Absence request ${data.status.toLowerCase()} successfully`
+      );
+      if (data.staffingWarning) {
+        toast.warning(formatStaffingWarning(data.staffingWarning));
+      }
+      setDecision(null);
       // Invalidate all absence-related queries for immediate UI update
       utils.absence.getMy.invalidate();
       utils.absence.getMyStats.invalidate();
+      utils.absence.getBalance.invalidate();
       utils.absence.getForUser.invalidate();
       utils.absence.getAll.invalidate();
+      utils.absence.getApprovalQueue.invalidate();
       utils.absence.getUpcoming.invalidate();
     },
     onError: (error) => {
@@ -107,13 +148,78 @@ export default function AbsencesPage() {
   });
 
   const handleApprove = (id: string) => {
-    updateStatusMutation.mutate({ id, status: 'APPROVED' });
+    setDecision({ id, status: 'APPROVED' });
   };
 
   const handleReject = (id: string) => {
-    updateStatusMutation.mutate({ id, status: 'REJECTED' });
+    setDecision({ id, status: 'REJECTED' });
+  };
+
+  const confirmDecision = (comment?: string) => {
+    if (decision) {
+      updateStatusMutation.mutate({ id: decision.id, status: decision.status, comment });
+    }
+  };
+
+  // Cancelling approved leave: the employee asks, an approver decides
+  const invalidateAbsences = () => {
+    utils.absence.getMy.invalidate();
+    utils.absence.getMyStats.invalidate();
+    utils.absence.getBalance.invalidate();
+    utils.absence.getForUser.invalidate();
+    utils.absence.getAll.invalidate();
+    utils.absence.getApprovalQueue.invalidate();
+    utils.absence.getUpcoming.invalidate();
   };
 
+  const requestCancellationMutation = trpc.absence.requestCancellation.useMutation({
+    onSuccess: () => {
+      toast.success('Cancellation requested - your approver has been notified');
+      setCancellingId(null);
+      invalidateAbsences();
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to request cancellation');
+    },
+  });
+
+  const reviewCancellationMutation = trpc.absence.reviewCancellation.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.status === 'CANCELLED' ? 'Leave cancelled' : 'Cancellation declined');
+      setCancellationDecision(null);
+      invalidateAbsences();
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to review cancellation');
+    },
+  });
+
+  const confirmCancellationDecision = (comment?: string) => {
+    if (cancellationDecision) {
+      reviewCancellationMutation.mutate({
+        id: cancellationDecision.id,
+        decision: cancellationDecision.status,
+        comment,
+      });
+    }
+  };
+
+  const typeSelect = (
+    <Select value={typeFilter} onValueChange={setTypeFilter}>
+      <SelectTrigger className="w-full sm:w-48">
+        <SelectValue placeholder="Absence type" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All Types</SelectItem>
+        {absenceTypes?.map((type) => (
+          <SelectItem key={type.id} value={type.id}>
+            {type.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
   return (
     <div className="container mx-auto py-8 space-y-8">
       <div className="flex justify-between items-center">
@@ -130,7 +236,17 @@ export default function AbsencesPage() {
 
       {/* Statistics Cards */}
       {stats && (
-        <div className="grid gap-4 md:grid-cols-4">
+        <div className="grid gap-4 md:grid-cols-5">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardDescription>Days Remaining ({stats.balance.year})</CardDescription>
+              <CardTitle
+                className={`text-3xl ${stats.balance.remainingDays < 0 ? 'text-red-600' : 'text-blue-600'}`}
+              >
+                {Math.round(stats.balance.remainingDays * 100) / 100}
+              </CardTitle>
+            </CardHeader>
+          </Card>
           <Card>
             <CardHeader className="pb-3">
               <CardDescription>Total Requests</CardDescription>
@@ -146,7 +262,9 @@ export default function AbsencesPage() {
           <Card>
             <CardHeader className="pb-3">
               <CardDescription>Approved Days</CardDescription>
-              <CardTitle className="text-3xl text-green-600">{stats.approvedDays}</CardTitle>
+              <CardTitle className="text-3xl text-green-600">
+                {Math.round(stats.approvedDays * 100) / 100}
+              </CardTitle>
             </CardHeader>
           </Card>
           <Card>
@@ -164,7 +282,12 @@ export default function AbsencesPage() {
           <TabsTrigger value="my-requests">My Requests</TabsTrigger>
           <TabsTrigger value="calendar">Calendar</TabsTrigger>
           {canViewAllAbsences && (
-            <TabsTrigger value="team-requests">Team Requests</TabsTrigger>
+            <>
+              <TabsTrigger value="approvals">
+                Approvals{approvalQueue && approvalQueue.length > 0 ? ` (${approvalQueue.length})` : ''}
+              </TabsTrigger>
+              <TabsTrigger value="team-requests">Team Requests</TabsTrigger>
+            </>
           )}
         </TabsList>
 
@@ -188,6 +311,8 @@ export default function AbsencesPage() {
                 <AbsenceTable
                   absences={myAbsences}
                   onDelete={handleDelete}
+                  onEdit={setEditingAbsence}
+                  onRequestCancellation={setCancellingId}
                   isUpdating={deleteMutation.isPending}
                 />
               )}
@@ -200,15 +325,58 @@ export default function AbsencesPage() {
           <AbsenceCalendar />
         </TabsContent>
 
+        {/* Approvals Tab (Manager Only) - requests waiting on the current user's step */}
+        {canViewAllAbsences && (
+          <TabsContent value="approvals" className="space-y-4">
+            <Card>
+              <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+                <div className="space-y-1.5">
+                  <CardTitle>Awaiting Your Approval</CardTitle>
+                  <CardDescription>
+                    Requests whose current approval step you can decide, and requests to cancel
+                    approved leave
+                  </CardDescription>
+                </div>
+                {typeSelect}
+              </CardHeader>
+              <CardContent>
+                {approvalQueueLoading ? (
+                  <div className="space-y-2">
+                    <Skeleton className="h-12 w-full" />
+                    <Skeleton className="h-12 w-full" />
+                    <Skeleton className="h-12 w-full" />
+                  </div>
+                ) : (
+                  <AbsenceTable
+                    absences={approvalQueue}
+                    showUser
+                    showApproval
+                    showActions={false}
+                    onApprove={handleApprove}
+                    onReject={handleReject}
+                    onReviewCancellation={(id, status) => setCancellationDecision({ id, status })}
+                    isUpdating={
+                      updateStatusMutation.isPending || reviewCancellationMutation.isPending
+                    }
+                  />
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
+
         {/* Team Requests Tab (Manager Only) - using centralized permissions */}
         {canViewAllAbsences && (
           <TabsContent value="team-requests" className="space-y-4">
             <Card>
-              <CardHeader>
-                <CardTitle>Team Absence Requests</CardTitle>
-                <CardDescription>
-                  Review and approve absence requests from your team members
-                </CardDescription>
+              <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+                <div className="space-y-1.5">
+                  <CardTitle>Team Absence Requests</CardTitle>
+                  <CardDescription>
+                    Absence requests from your team members and where they are in the approval chain
+                  </CardDescription>
+                </div>
+                {typeSelect}
               </CardHeader>
               <CardContent>
                 {allAbsencesLoading ? (
@@ -223,11 +391,7 @@ export default function AbsencesPage() {
                       (absence) => absence.userId !== user?.id
                     )}
                     showUser
-                    showApproval
                     showActions={false}
-                    onApprove={handleApprove}
-                    onReject={handleReject}
-                    isUpdating={updateStatusMutation.isPending}
                   />
                 )}
               </CardContent>
@@ -236,6 +400,46 @@ export default function AbsencesPage() {
         )}
       </Tabs>
 
+      {/* Approve/Reject Dialog */}
+      <AbsenceDecisionDialog
+        key={decision?.id}
+        decision={decision?.status ?? null}
+        onOpenChange={(open) => !open && setDecision(null)}
+        onConfirm={confirmDecision}
+        isPending={updateStatusMutation.isPending}
+      />
+
+      {/* Cancellation Decision Dialog */}
+      <AbsenceDecisionDialog
+        key={`cancellation-${cancellationDecision?.id}`}
+        subject="cancellation"
+        decision={cancellationDecision?.status ?? null}
+        onOpenChange={(open) => !open && setCancellationDecision(null)}
+        onConfirm={confirmCancellationDecision}
+        isPending={reviewCancellationMutation.isPending}
+      />
+
+      {/* Edit Request Dialog */}
+      {editingAbsence && (
+        <AbsenceRequestDialog
+          key={editingAbsence.id}
+          absence={editingAbsence}
+          open
+          onOpenChange={(open) => !open && setEditingAbsence(null)}
+        />
+      )}
+
+      {/* Request Cancellation Dialog */}
+      <AbsenceCancellationDialog
+        key={cancellingId}
+        open={cancellingId !== null}
+        onOpenChange={(open) => !open && setCancellingId(null)}
+        onConfirm={(reason) =>
+          cancellingId && requestCancellationMutation.mutate({ id: cancellingId, reason })
+        }
+        isPending={requestCancellationMutation.isPending}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
@@ -15,8 +15,25 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Sparkles, ChevronDown, ChevronUp, MessageSquare, Send } from 'lucide-react';
+import {
+  Sparkles,
+  ChevronDown,
+  ChevronUp,
+  MessageSquare,
+  Send,
+  EyeOff,
+  Lock,
+  History,
+  Pencil,
+  ShieldAlert,
+} from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
+import { FeedbackTags } from '@/components/FeedbackTags';
+import { FeedbackThread } from '@/components/FeedbackThread';
+import { FeedbackHistoryDialog } from '@/components/FeedbackHistoryDialog';
+import { EditFeedbackDialog } from '@/components/EditFeedbackDialog';
+import { FeedbackModerationQueue } from '@/components/FeedbackModerationQueue';
+import { formatFeedbackVisibility, formatScreeningCategory } from '@/lib/labels';
 
 /**
  * Frontend-only type definitions for feedback data
@@ -41,9 +58,27 @@ interface FeedbackWithUser {
   deletedAt?: string | null;
   isPolished?: boolean;
   polishedContent?: string | null;
+  type?: string;
+  competencies?: { competency: string; rating?: number }[];
+  visibility?: string;
+  screeningFlags?: string[]; // Empty for the receiver
+  moderationStatus?: string | null;
   organizationId?: string;
   giver?: FeedbackUser | null;
   receiver?: FeedbackUser | null;
+  revisions: {
+    id: string;
+    content: string;
+    polishedContent?: string | null;
+    editedAt: string | Date;
+  }[];
+  replies: {
+    id: string;
+    authorId: string;
+    kind: string;
+    content?: string | null;
+    createdAt: string | Date;
+  }[];
 }
 
 /**
@@ -58,6 +93,8 @@ export default function FeedbackPage() {
   });
   const [expandedFeedback, setExpandedFeedback] = useState<string | null>(null);
   const [sortBy, setSortBy] = useState<'recent' | 'oldest'>('recent');
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null);
+  const [history, setHistory] = useState<FeedbackWithUser | null>(null);
 
   // Feedback updates semi-frequently - use 2 minute staleTime
   const { data: receivedFeedback, isLoading: isLoadingReceived } =
@@ -135,6 +172,43 @@ export default function FeedbackPage() {
                       AI Polished
                     </Badge>
                   )}
+                  {item.visibility && item.visibility !== 'RECEIVER' && (
+                    <Badge variant="outline" className="text-xs">
+                      {item.visibility === 'ANONYMOUS' ? (
+                        <EyeOff className="mr-1 h-3 w-3" />
+                      ) : (
+                        <Lock className="mr-1 h-3 w-3" />
+                      )}
+                      {formatFeedbackVisibility(item.visibility)}
+                    </Badge>
+                  )}
+                  {item.revisions.length > 0 && (
+                    <Badge
+                      variant="outline"
+                      className="cursor-pointer text-xs"
+                      title="Show edit history"
+                      onClick={() => setHistory(item)}
+                    >
+                      <History className="mr-1 h-3 w-3" />
+                      Edited
+                    </Badge>
+                  )}
+                  {item.moderationStatus === 'PENDING' && (
+                    <Badge
+                      variant="outline"
+                      className="text-xs"
+                      title={item.screeningFlags?.map(formatScreeningCategory).join(', ')}
+                    >
+                      <ShieldAlert className="mr-1 h-3 w-3" />
+                      Awaiting moderation
+                    </Badge>
+                  )}
+                  {item.moderationStatus === 'REJECTED' && (
+                    <Badge variant="destructive" className="text-xs">
+                      <ShieldAlert className="mr-1 h-3 w-3" />
+                      Not delivered
+                    </Badge>
+                  )}
                 </div>
                 <p className="text-sm text-muted-foreground">
                   {formatDistanceToNow(new Date(item.createdAt), {
@@ -143,10 +217,22 @@ export default function FeedbackPage() {
                 </p>
               </div>
             </div>
+            {item.giverId === currentUser?.id && item.moderationStatus !== 'REJECTED' && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                aria-label="Edit feedback"
+                onClick={() => setEditing({ id: item.id, content: item.content })}
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         </CardHeader>
 
         <CardContent>
+          <FeedbackTags type={item.type} competencies={item.competencies} className="mb-3" />
           <p className="text-sm whitespace-pre-wrap">{displayContent}</p>
 
           {item.isPolished && item.polishedContent && (
@@ -192,6 +278,8 @@ export default function FeedbackPage() {
               )}
             </div>
           )}
+
+          <FeedbackThread feedback={item} currentUserId={currentUser?.id} />
         </CardContent>
       </Card>
     );
@@ -329,6 +417,9 @@ export default function FeedbackPage() {
             Received ({receivedFeedback?.length || 0})
           </TabsTrigger>
           <TabsTrigger value="given">Given ({givenFeedback?.length || 0})</TabsTrigger>
+          {currentUser.role === 'MANAGER' && (
+            <TabsTrigger value="moderation">Moderation</TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="received">
@@ -358,7 +449,16 @@ export default function FeedbackPage() {
             )}
           </div>
         </TabsContent>
+
+        {currentUser.role === 'MANAGER' && (
+          <TabsContent value="moderation">
+            <FeedbackModerationQueue currentUserId={currentUser.id} />
+          </TabsContent>
+        )}
       </Tabs>
+
+      <EditFeedbackDialog feedback={editing} onOpenChange={(open) => !open && setEditing(null)} />
+      <FeedbackHistoryDialog feedback={history} onOpenChange={(open) => !open && setHistory(null)} />
     </div>
   );
 }
@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { trpc } from '@/lib/trpc/Provider';
 import { Sidebar } from '@/components/Sidebar';
 import { MobileNav } from '@/components/MobileNav';
@@ -195,6 +196,15 @@ export default function DashboardLayout({
             className="flex-1 p-4 pb-16 md:p-6 lg:p-8"
             role="main"
           >
+            {currentUser?.mustSignInWithPasskey && (
+              <div className="mb-6 rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900">
+                Your organization requires managers to sign in with a passkey. Until you do, you
+                can only manage your own account.{' '}
+                <Link href="/dashboard/settings/security" className="font-medium underline">
+                  Set up a passkey
+                </Link>
+              </div>
+            )}
             <ErrorBoundary level="page">{children}</ErrorBoundary>
           </main>
 
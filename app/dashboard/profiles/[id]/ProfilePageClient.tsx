@@ -6,7 +6,10 @@ import { ProfileCard } from '@/components/ProfileCard';
 import { ProfileEditForm } from '@/components/ProfileEditForm';
 import { FeedbackForm } from '@/components/FeedbackForm';
 import { FeedbackList } from '@/components/FeedbackList';
+import { FeedbackSummaryCard } from '@/components/FeedbackSummaryCard';
+import { FeedbackChart } from '@/components/dashboard/FeedbackChart';
 import { AbsenceCalendar } from '@/components/AbsenceCalendar';
+import { LeaveBalanceCard } from '@/components/LeaveBalanceCard';
 import {
   Dialog,
   DialogContent,
@@ -17,6 +20,7 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { trpc } from '@/lib/trpc/Provider';
 import { Permissions } from '@/lib/permissions';
+import { getManagerChain } from '@/lib/org-chart';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 
 interface ProfilePageClientProps {
@@ -36,6 +40,12 @@ export function ProfilePageClient({ user }: ProfilePageClientProps) {
     gcTime: 30 * 60 * 1000, // 30 minutes
   });
 
+  // Reporting line of the profile, for what managers may do with their reports' feedback
+  const { data: people } = trpc.user.getOrgChart.useQuery(undefined, {
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    enabled: session?.role === 'MANAGER',
+  });
+
   if (!session || !user) {
     return <div>Loading...</div>;
   }
@@ -79,6 +89,23 @@ export function ProfilePageClient({ user }: ProfilePageClientProps) {
               </ErrorBoundary>
             )}
 
+            {/* Where the person is strong and where they struggle, by competency */}
+            {Permissions.feedback.viewForUser(session, user.id) && (
+              <ErrorBoundary level="component">
+                <FeedbackChart userId={user.id} />
+              </ErrorBoundary>
+            )}
+
+            {/* AI summary for managers preparing a 1:1 */}
+            {Permissions.feedback.summarize(session, {
+              id: user.id,
+              managerChain: people ? getManagerChain(people, user.id) : undefined,
+            }) && (
+              <ErrorBoundary level="component">
+                <FeedbackSummaryCard userId={user.id} userName={user.name} />
+              </ErrorBoundary>
+            )}
+
             {/* Show feedback list if user can view feedback - using centralized permissions */}
             {Permissions.feedback.viewForUser(session, user.id) && (
               <ErrorBoundary level="component">
@@ -104,9 +131,17 @@ export function ProfilePageClient({ user }: ProfilePageClientProps) {
           <div className="space-y-6">
             {/* Show absence calendar if user can view absences (manager or self) - using centralized permissions */}
             {Permissions.absence.viewForUser(session, user.id) ? (
-              <ErrorBoundary level="component">
-                <AbsenceCalendar userId={user.id} />
-              </ErrorBoundary>
+              <>
+                <ErrorBoundary level="component">
+                  <LeaveBalanceCard
+                    userId={user.id}
+                    canEditAllowance={Permissions.absence.manageAllowance(session)}
+                  />
+                </ErrorBoundary>
+                <ErrorBoundary level="component">
+                  <AbsenceCalendar userId={user.id} />
+                </ErrorBoundary>
+              </>
             ) : (
               <div className="text-center py-12 text-muted-foreground">
                 <p>You do not have permission to view absence requests for this user.</p>
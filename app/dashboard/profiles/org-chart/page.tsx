@@ -0,0 +1,61 @@
+'use client';
+
+import Link from 'next/link';
+import { trpc } from '@/lib/trpc/Provider';
+import { OrgChart } from '@/components/OrgChart';
+import { EmptyState } from '@/components/EmptyState';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { List, Network } from 'lucide-react';
+
+/**
+ * Org Chart Page
+ * Shows who reports to whom, built from each user's reporting line
+ */
+export default function OrgChartPage() {
+  const { data: people, isLoading } = trpc.user.getOrgChart.useQuery(undefined, {
+    staleTime: 5 * 60 * 1000, // 5 minutes - reporting lines rarely change
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+
+  return (
+    <div className="container mx-auto py-8">
+      <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Org Chart</h1>
+          <p className="text-muted-foreground mt-2">
+            See who reports to whom across your organization
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/dashboard/profiles">
+            <List className="h-4 w-4 mr-2" />
+            List View
+          </Link>
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-10 w-full max-w-sm" />
+          <div className="flex justify-center">
+            <Skeleton className="h-24 w-56" />
+          </div>
+          <div className="flex justify-center gap-4">
+            <Skeleton className="h-24 w-56" />
+            <Skeleton className="h-24 w-56" />
+            <Skeleton className="h-24 w-56" />
+          </div>
+        </div>
+      ) : people && people.length > 0 ? (
+        <OrgChart people={people} />
+      ) : (
+        <EmptyState
+          icon={Network}
+          title="No one here yet"
+          description="Invite team members and set who they report to from Settings to build your org chart."
+        />
+      )}
+    </div>
+  );
+}
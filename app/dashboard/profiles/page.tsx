@@ -31,7 +31,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Search, Eye, Loader2, Users } from 'lucide-react';
+import { Search, Eye, Loader2, Users, Network } from 'lucide-react';
 import { isValidRole } from '@/lib/type-guards';
 import { EmptyState } from '@/components/EmptyState';
 
@@ -175,11 +175,19 @@ export default function ProfilesPage() {
 
   return (
     <div className="container mx-auto py-8">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-foreground">Employee Profiles</h1>
-        <p className="text-muted-foreground mt-2">
-          View and manage employee profiles across your organization
-        </p>
+      <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Employee Profiles</h1>
+          <p className="text-muted-foreground mt-2">
+            View and manage employee profiles across your organization
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/dashboard/profiles/org-chart">
+            <Network className="h-4 w-4 mr-2" />
+            Org Chart
+          </Link>
+        </Button>
       </div>
 
       {/* Filters */}
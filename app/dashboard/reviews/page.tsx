@@ -0,0 +1,286 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { trpc } from '@/lib/trpc/Provider';
+import { ReviewCycleDialog } from '@/components/ReviewCycleDialog';
+import { ReviewCycleProgress } from '@/components/ReviewCycleProgress';
+import { ReviewFormDialog } from '@/components/ReviewFormDialog';
+import { PeerNominationDialog } from '@/components/PeerNominationDialog';
+import { EmptyState } from '@/components/EmptyState';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ChevronDown, ChevronUp, ClipboardList, Plus, Star, Users } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatReviewKind } from '@/lib/labels';
+import type { AppRouter } from '@/server';
+import type { inferRouterOutputs } from '@trpc/server';
+
+type RouterOutputs = inferRouterOutputs<AppRouter>;
+type ReviewCycle = RouterOutputs['review']['list'][number];
+type Review = ReviewCycle['reviews'][number];
+
+const STATUS_CLASS_NAMES: Record<string, string> = {
+  DRAFT: 'border-gray-300 text-gray-600 dark:text-gray-300',
+  OPEN: 'border-blue-300 text-blue-700 dark:text-blue-300',
+  CALIBRATION: 'border-amber-300 text-amber-700 dark:text-amber-300',
+  CLOSED: 'border-green-300 text-green-700 dark:text-green-300',
+};
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <Badge variant="outline" className={cn('text-xs', STATUS_CLASS_NAMES[status])}>
+      {status.charAt(0) + status.slice(1).toLowerCase()}
+    </Badge>
+  );
+}
+
+/**
+ * Performance reviews page
+ * Everyone writes the reviews assigned to them and reads their results;
+ * managers also run review cycles and follow their progress
+ */
+export default function ReviewsPage() {
+  const { data: user } = trpc.auth.getCurrentUser.useQuery(undefined, {
+    staleTime: 5 * 60 * 1000, // 5 minutes - user data rarely changes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+  const isManager = user?.role === 'MANAGER';
+
+  const [creating, setCreating] = useState(false);
+  const [expandedCycle, setExpandedCycle] = useState<string | null>(null);
+  const [writing, setWriting] = useState<{ cycle: ReviewCycle; review: Review } | null>(null);
+  const [nomination, setNomination] = useState<{
+    cycleId: string;
+    userId: string;
+    peerIds: string[];
+  } | null>(null);
+
+  const { data: cycles, isLoading } = trpc.review.list.useQuery(undefined, {
+    staleTime: 60 * 1000, // 1 minute - reviews come in while cycles are open
+  });
+  const { data: people } = trpc.user.getOrgChart.useQuery(undefined, {
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const nameOf = useMemo(() => {
+    const names = new Map(people?.map((p) => [p.id, p.name]));
+    return (userId: string) => names.get(userId) ?? 'Former employee';
+  }, [people]);
+
+  // Cycles the current user reviews in or is reviewed in (drafts are not handed out yet)
+  const myCycles = (cycles ?? []).filter(
+    (cycle) =>
+      cycle.status !== 'DRAFT' &&
+      (cycle.reviews.some((r) => r.reviewerId === user?.id) ||
+        cycle.participants.some((p) => p.userId === user?.id))
+  );
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-foreground">Performance Reviews</h1>
+          <p className="text-muted-foreground">
+            Self, peer and manager reviews for each review cycle
+          </p>
+        </div>
+        {isManager && (
+          <Button onClick={() => setCreating(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Review Cycle
+          </Button>
+        )}
+      </div>
+
+      <Tabs defaultValue="my-reviews" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="my-reviews">My Reviews</TabsTrigger>
+          {isManager && <TabsTrigger value="cycles">Review Cycles</TabsTrigger>}
+        </TabsList>
+
+        {/* My Reviews Tab */}
+        <TabsContent value="my-reviews" className="space-y-4">
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-32 w-full" />
+              <Skeleton className="h-32 w-full" />
+            </div>
+          ) : myCycles.length === 0 ? (
+            <EmptyState
+              icon={ClipboardList}
+              title="No reviews yet"
+              description="You'll be notified when a review cycle you take part in opens"
+            />
+          ) : (
+            myCycles.map((cycle) => {
+              const toWrite = cycle.reviews.filter((r) => r.reviewerId === user?.id);
+              const participation = cycle.participants.find((p) => p.userId === user?.id);
+              const managerReview = cycle.reviews.find(
+                (r) => r.kind === 'MANAGER' && r.revieweeId === user?.id && r.submittedAt
+              );
+
+              return (
+                <Card key={cycle.id}>
+                  <CardHeader>
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <CardTitle className="flex items-center gap-2">
+                        {cycle.name}
+                        <StatusBadge status={cycle.status} />
+                      </CardTitle>
+                      {participation && cycle.status === 'OPEN' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            setNomination({
+                              cycleId: cycle.id,
+                              userId: participation.userId,
+                              peerIds: participation.peerIds,
+                            })
+                          }
+                        >
+                          <Users className="mr-2 h-4 w-4" />
+                          Nominate Peers ({participation.peerIds.length})
+                        </Button>
+                      )}
+                    </div>
+                    <CardDescription className={cn(cycle.isOverdue && 'text-destructive')}>
+                      Due {format(new Date(cycle.deadline), 'MMM d, yyyy')}
+                      {cycle.isOverdue && ' - overdue'}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {cycle.status === 'CLOSED' && participation?.finalRating !== undefined && (
+                      <div className="flex items-center justify-between rounded-md border bg-muted/30 p-3">
+                        <div className="flex items-center gap-2 text-sm">
+                          <Star className="h-4 w-4 fill-amber-400 text-amber-400" />
+                          Final rating: <span className="font-semibold">{participation.finalRating} / 5</span>
+                        </div>
+                        {managerReview && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setWriting({ cycle, review: managerReview })}
+                          >
+                            Read Manager Review
+                          </Button>
+                        )}
+                      </div>
+                    )}
+
+                    {toWrite.map((review) => (
+                      <div
+                        key={review.id}
+                        className="flex items-center justify-between rounded-md border p-3"
+                      >
+                        <div>
+                          <p className="text-sm font-medium">
+                            {review.kind === 'SELF'
+                              ? formatReviewKind(review.kind)
+                              : `${formatReviewKind(review.kind)} for ${nameOf(review.revieweeId)}`}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {review.submittedAt
+                              ? `Submitted ${format(new Date(review.submittedAt), 'MMM d, yyyy')}`
+                              : 'Not submitted yet'}
+                          </p>
+                        </div>
+                        <Button
+                          variant={review.submittedAt ? 'ghost' : 'default'}
+                          size="sm"
+                          disabled={!review.submittedAt && cycle.status !== 'OPEN'}
+                          onClick={() => setWriting({ cycle, review })}
+                        >
+                          {review.submittedAt ? 'View' : 'Write Review'}
+                        </Button>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+        </TabsContent>
+
+        {/* Review Cycles Tab (Manager Only) - progress dashboard per cycle */}
+        {isManager && (
+          <TabsContent value="cycles" className="space-y-4">
+            {isLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : cycles?.length === 0 ? (
+              <EmptyState
+                icon={ClipboardList}
+                title="No review cycles"
+                description="Create a review cycle to start collecting self, peer and manager reviews"
+              />
+            ) : (
+              cycles?.map((cycle) => {
+                const isExpanded = expandedCycle === cycle.id;
+                const { total, submitted } = cycle.progress.overall;
+                return (
+                  <Card key={cycle.id}>
+                    <CardHeader>
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="space-y-1">
+                          <CardTitle className="flex items-center gap-2">
+                            {cycle.name}
+                            <StatusBadge status={cycle.status} />
+                          </CardTitle>
+                          <CardDescription>
+                            {cycle.participants.length} participant
+                            {cycle.participants.length === 1 ? '' : 's'}
+                            {total > 0 && ` - ${submitted} of ${total} reviews submitted`}
+                          </CardDescription>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setExpandedCycle(isExpanded ? null : cycle.id)}
+                          aria-expanded={isExpanded}
+                        >
+                          {isExpanded ? (
+                            <ChevronUp className="mr-2 h-4 w-4" />
+                          ) : (
+                            <ChevronDown className="mr-2 h-4 w-4" />
+                          )}
+                          Details
+                        </Button>
+                      </div>
+                      {total > 0 && (
+                        <Progress value={Math.round((submitted / total) * 100)} className="h-2" />
+                      )}
+                    </CardHeader>
+                    {isExpanded && (
+                      <CardContent>
+                        <ReviewCycleProgress cycleId={cycle.id} />
+                      </CardContent>
+                    )}
+                  </Card>
+                );
+              })
+            )}
+          </TabsContent>
+        )}
+      </Tabs>
+
+      <ReviewCycleDialog open={creating} onOpenChange={setCreating} />
+
+      <ReviewFormDialog
+        cycle={writing?.cycle ?? null}
+        review={writing?.review ?? null}
+        revieweeName={writing ? nameOf(writing.review.revieweeId) : ''}
+        onOpenChange={(open) => !open && setWriting(null)}
+      />
+
+      <PeerNominationDialog
+        nomination={nomination}
+        onOpenChange={(open) => !open && setNomination(null)}
+      />
+    </div>
+  );
+}
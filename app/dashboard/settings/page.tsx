@@ -8,6 +8,19 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { InviteTeamMember } from '@/components/settings/InviteTeamMember';
 import { TeamMembersList } from '@/components/settings/TeamMembersList';
 import { PendingInvitations } from '@/components/settings/PendingInvitations';
+import { AbsenceTypesSettings } from '@/components/settings/AbsenceTypesSettings';
+import { LeavePolicySettings } from '@/components/settings/LeavePolicySettings';
+import { ApprovalWorkflowSettings } from '@/components/settings/ApprovalWorkflowSettings';
+import { StaffingRulesSettings } from '@/components/settings/StaffingRulesSettings';
+import { CompetencyFrameworkSettings } from '@/components/settings/CompetencyFrameworkSettings';
+import { AIProviderSettings } from '@/components/settings/AIProviderSettings';
+import { FeedbackScreeningSettings } from '@/components/settings/FeedbackScreeningSettings';
+import { NotificationPreferencesSettings } from '@/components/settings/NotificationPreferencesSettings';
+import { RequiredNotificationsSettings } from '@/components/settings/RequiredNotificationsSettings';
+import { SsoSettings } from '@/components/settings/SsoSettings';
+import { ScimSettings } from '@/components/settings/ScimSettings';
+import { PasskeyPolicySettings } from '@/components/settings/PasskeyPolicySettings';
+import { HolidayCalendarsSettings } from '@/components/settings/HolidayCalendarsSettings';
 import { Settings, Users, Mail, Building2, User, Shield, Loader2, Pencil, X, Check, Camera, Globe } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -432,6 +445,8 @@ export default function SettingsPage() {
               </div>
             </CardContent>
           </Card>
+
+          <NotificationPreferencesSettings />
         </TabsContent>
 
         {/* Organization Settings Tab */}
@@ -597,6 +612,19 @@ export default function SettingsPage() {
               )}
             </CardContent>
           </Card>
+
+          {isManager && <AbsenceTypesSettings />}
+          {isManager && <LeavePolicySettings />}
+          {isManager && <ApprovalWorkflowSettings />}
+          {isManager && <StaffingRulesSettings />}
+          {isManager && <HolidayCalendarsSettings />}
+          {isManager && <CompetencyFrameworkSettings />}
+          {isManager && <AIProviderSettings />}
+          {isManager && <FeedbackScreeningSettings />}
+          {isManager && <RequiredNotificationsSettings />}
+          {isManager && <SsoSettings />}
+          {isManager && <ScimSettings />}
+          {isManager && <PasskeyPolicySettings />}
         </TabsContent>
 
         {/* Team Management Tab */}
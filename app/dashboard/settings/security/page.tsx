@@ -8,6 +8,9 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { TwoFactorSetup } from '@/components/auth/TwoFactorSetup';
+import { ActiveSessions } from '@/components/auth/ActiveSessions';
+import { TrustedDevices } from '@/components/auth/TrustedDevices';
+import { Passkeys } from '@/components/auth/Passkeys';
 import {
   Dialog,
   DialogContent,
@@ -114,6 +117,8 @@ export default function SecuritySettingsPage() {
       setDisableCode('');
       setError('');
       utils.twoFactor.status.invalidate();
+      utils.twoFactor.devices.list.invalidate();
+      utils.auth.getSessions.invalidate();
     },
     onError: (error) => {
       setError(error.message);
@@ -253,6 +258,10 @@ export default function SecuritySettingsPage() {
         </CardContent>
       </Card>
 
+      <Passkeys />
+
+      {status?.enabled && <TrustedDevices />}
+
       {/* Connected Accounts */}
       <Card>
         <CardHeader>
@@ -345,6 +354,8 @@ export default function SecuritySettingsPage() {
         </CardContent>
       </Card>
 
+      <ActiveSessions />
+
       {/* Security Best Practices */}
       <Card>
         <CardHeader>
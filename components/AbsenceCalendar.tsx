@@ -1,12 +1,13 @@
 'use client';
 
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { Calendar } from '@/components/ui/calendar';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { trpc } from '@/lib/trpc/Provider';
 import { Skeleton } from '@/components/ui/skeleton';
-import { format } from 'date-fns';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { formatDayPart } from '@/lib/labels';
 
 interface AbsenceCalendarProps {
   userId?: string;
@@ -18,6 +19,9 @@ interface AbsenceCalendarProps {
  * - Pending: Yellow
  * - Approved: Green
  * - Rejected: Red
+ * Public holidays from the user's holiday calendars are shaded grey
+ * On the user's own calendar, days their department falls (or would fall, if
+ * pending requests were approved) below its minimum staffing are outlined
  */
 export function AbsenceCalendar({ userId, showLegend = true }: AbsenceCalendarProps) {
   // Fetch absence data based on whether userId is provided
@@ -37,6 +41,37 @@ export function AbsenceCalendar({ userId, showLegend = true }: AbsenceCalendarPr
   
   const { data: absences, isLoading } = userId ? forUserQuery : myQuery;
 
+  // Department coverage for the visible month - only on the user's own calendar
+  const [month, setMonth] = useState(() => new Date());
+  const { data: coverage } = trpc.absence.getTeamCoverage.useQuery(
+    { startDate: startOfMonth(month), endDate: endOfMonth(month) },
+    { ...cacheOptions, enabled: !userId }
+  );
+
+  const coverageModifiers = useMemo(() => {
+    const understaffed: Date[] = [];
+    const atRisk: Date[] = [];
+    const minPresent = coverage?.minPresent;
+    if (!coverage || minPresent === undefined) return { understaffed, atRisk };
+
+    coverage.days.forEach((day) => {
+      const date = new Date(day.date + 'T00:00:00Z');
+      if (day.belowMinimum) {
+        understaffed.push(date);
+      } else if (day.present - day.pending < minPresent) {
+        atRisk.push(date);
+      }
+    });
+
+    return { understaffed, atRisk };
+  }, [coverage]);
+
+  // Holidays rarely change - cache them longer than absences
+  const { data: holidays } = trpc.holidayCalendar.getForUser.useQuery(
+    userId ? { userId } : undefined,
+    { staleTime: 10 * 60 * 1000, gcTime: 30 * 60 * 1000 }
+  );
+
   // Process absences into date ranges by status
   const absencesByStatus = useMemo(() => {
     if (!absences) return { pending: [], approved: [], rejected: [] };
@@ -51,7 +86,10 @@ export function AbsenceCalendar({ userId, showLegend = true }: AbsenceCalendarPr
   // Custom day content renderer for colored status indicators
   // Priority: APPROVED > PENDING > REJECTED (show most relevant status)
   const modifiers = useMemo(() => {
-    if (!absences) return {};
+    // Holiday dates are date-only keys; keep them at UTC midnight like absence dates
+    const holiday = (holidays ?? []).map((h) => new Date(h.date + 'T00:00:00Z'));
+
+    if (!absences) return { holiday };
 
     const pending: Date[] = [];
     const approved: Date[] = [];
@@ -89,6 +127,9 @@ export function AbsenceCalendar({ userId, showLegend = true }: AbsenceCalendarPr
     };
 
     absences.forEach((absence) => {
+      // Cancelled leave no longer blocks the calendar
+      if (absence.status === 'CANCELLED') return;
+
       // Convert startDate and endDate (could be Date or string from serialization)
       const start = toUtcMidnight(absence.startDate);
       const end = toUtcMidnight(absence.endDate);
@@ -123,13 +164,22 @@ export function AbsenceCalendar({ userId, showLegend = true }: AbsenceCalendarPr
       }
     });
 
-    return { pending, approved, rejected };
-  }, [absences]);
+    // Absence status takes precedence over holiday shading
+    return {
+      pending,
+      approved,
+      rejected,
+      holiday: holiday.filter((date) => !dateStatusMap.has(getUtcDateKey(date))),
+    };
+  }, [absences, holidays]);
 
   const modifiersClassNames = {
     pending: 'bg-yellow-200 text-yellow-900 hover:bg-yellow-300 dark:bg-yellow-900 dark:text-yellow-100',
     approved: 'bg-green-200 text-green-900 hover:bg-green-300 dark:bg-green-900 dark:text-green-100',
     rejected: 'bg-red-200 text-red-900 hover:bg-red-300 dark:bg-red-900 dark:text-red-100',
+    holiday: 'bg-muted text-muted-foreground line-through',
+    understaffed: 'ring-2 ring-inset ring-red-500 font-semibold',
+    atRisk: 'ring-2 ring-inset ring-amber-400',
   };
 
   if (isLoading) {
@@ -159,7 +209,9 @@ export function AbsenceCalendar({ userId, showLegend = true }: AbsenceCalendarPr
           <Calendar
             mode="single"
             className="rounded-md border"
-            modifiers={modifiers}
+            month={month}
+            onMonthChange={setMonth}
+            modifiers={{ ...modifiers, ...coverageModifiers }}
             modifiersClassNames={modifiersClassNames}
           />
         </div>
@@ -184,6 +236,29 @@ export function AbsenceCalendar({ userId, showLegend = true }: AbsenceCalendarPr
                 Rejected ({absencesByStatus.rejected.length})
               </span>
             </div>
+            {holidays && holidays.length > 0 && (
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 rounded bg-muted" />
+                <span className="text-sm text-muted-foreground">Holiday</span>
+              </div>
+            )}
+            {coverage?.minPresent !== undefined && (
+              <>
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-4 rounded ring-2 ring-inset ring-red-500" />
+                  <span className="text-sm text-muted-foreground">
+                    {coverage.department} below {coverage.minPresent} present (
+                    {coverageModifiers.understaffed.length})
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-4 rounded ring-2 ring-inset ring-amber-400" />
+                  <span className="text-sm text-muted-foreground">
+                    Short if pending requests are approved ({coverageModifiers.atRisk.length})
+                  </span>
+                </div>
+              </>
+            )}
           </div>
         )}
 
@@ -202,9 +277,23 @@ export function AbsenceCalendar({ userId, showLegend = true }: AbsenceCalendarPr
                     className="flex items-center justify-between p-2 rounded-lg border text-sm"
                   >
                     <div className="flex-1">
+                      {absence.absenceType && (
+                        <div className="flex items-center gap-1.5 text-xs font-medium">
+                          <span
+                            className="h-2 w-2 rounded-full"
+                            style={{ backgroundColor: absence.absenceType.color }}
+                          />
+                          {absence.absenceType.name}
+                        </div>
+                      )}
                       <div className="font-medium">
                         {format(new Date(absence.startDate), 'MMM d')} -{' '}
                         {format(new Date(absence.endDate), 'MMM d, yyyy')}
+                        {formatDayPart(absence.dayPart, absence.startTime, absence.endTime) && (
+                          <span className="ml-1 text-xs font-normal text-muted-foreground">
+                            · {formatDayPart(absence.dayPart, absence.startTime, absence.endTime)}
+                          </span>
+                        )}
                       </div>
                       <div className="text-xs text-muted-foreground line-clamp-1">
                         {absence.reason}
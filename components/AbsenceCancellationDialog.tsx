@@ -0,0 +1,75 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+interface AbsenceCancellationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (reason: string) => void;
+  isPending?: boolean;
+}
+
+/**
+ * Dialog for asking to cancel approved leave
+ * The leave stays booked until the approver accepts the cancellation
+ */
+export function AbsenceCancellationDialog({
+  open,
+  onOpenChange,
+  onConfirm,
+  isPending = false,
+}: AbsenceCancellationDialogProps) {
+  const [reason, setReason] = useState('');
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setReason('');
+    onOpenChange(open);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request cancellation</DialogTitle>
+          <DialogDescription>
+            Your approver is asked to cancel this leave. It stays booked until they accept.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="cancellation-reason">Reason</Label>
+          <Textarea
+            id="cancellation-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={500}
+            placeholder="Explain why you no longer need this time off"
+            aria-required
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Keep Leave
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={isPending || !reason.trim()}
+            onClick={() => onConfirm(reason.trim())}
+          >
+            {isPending ? 'Sending...' : 'Request Cancellation'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+export type AbsenceDecision = 'APPROVED' | 'REJECTED';
+
+/** What is being decided: the request itself, or a request to cancel approved leave */
+export type AbsenceDecisionSubject = 'request' | 'cancellation';
+
+interface DecisionCopy {
+  title: string;
+  description: string;
+  label: string;
+  placeholder: string;
+  confirm: string;
+}
+
+const COPY: Record<AbsenceDecisionSubject, Record<AbsenceDecision, DecisionCopy>> = {
+  request: {
+    APPROVED: {
+      title: 'Approve request',
+      description:
+        'The request moves on to the next approval step, or is approved if this is the last one.',
+      label: 'Comment (optional)',
+      placeholder: 'Add a note for the requester and the next approvers',
+      confirm: 'Approve',
+    },
+    REJECTED: {
+      title: 'Reject request',
+      description: 'Rejecting ends the approval chain for this request.',
+      label: 'Reason for rejection',
+      placeholder: 'Explain why the request cannot be approved',
+      confirm: 'Reject',
+    },
+  },
+  cancellation: {
+    APPROVED: {
+      title: 'Cancel leave',
+      description: "The leave is withdrawn and its days return to the employee's balance.",
+      label: 'Comment (optional)',
+      placeholder: 'Add a note for the employee',
+      confirm: 'Cancel Leave',
+    },
+    REJECTED: {
+      title: 'Keep leave',
+      description: 'Declining the cancellation keeps the leave approved.',
+      label: 'Reason for declining',
+      placeholder: 'Explain why the leave has to stay booked',
+      confirm: 'Keep Leave',
+    },
+  },
+};
+
+interface AbsenceDecisionDialogProps {
+  decision: AbsenceDecision | null;
+  subject?: AbsenceDecisionSubject;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (comment?: string) => void;
+  isPending?: boolean;
+}
+
+/**
+ * Dialog for approving or rejecting an absence request step, or a cancellation request
+ * Approvals take an optional comment; rejections need a reason the employee will see
+ */
+export function AbsenceDecisionDialog({
+  decision,
+  subject = 'request',
+  onOpenChange,
+  onConfirm,
+  isPending = false,
+}: AbsenceDecisionDialogProps) {
+  const [comment, setComment] = useState('');
+  const isApproval = decision === 'APPROVED';
+  const copy = COPY[subject][decision ?? 'APPROVED'];
+  const needsReason = !isApproval && !comment.trim();
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setComment('');
+    onOpenChange(open);
+  };
+
+  return (
+    <Dialog open={decision !== null} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{copy.title}</DialogTitle>
+          <DialogDescription>{copy.description}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="decision-comment">{copy.label}</Label>
+          <Textarea
+            id="decision-comment"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            maxLength={500}
+            placeholder={copy.placeholder}
+            aria-required={!isApproval}
+          />
+          <p className="text-xs text-muted-foreground">
+            {isApproval
+              ? 'Shared with the employee in their notification and email.'
+              : 'Required. The employee sees this in their notification and email.'}
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant={isApproval ? 'default' : 'destructive'}
+            disabled={isPending || needsReason}
+            onClick={() => onConfirm(comment.trim() || undefined)}
+          >
+            {isPending ? 'Saving...' : copy.confirm}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
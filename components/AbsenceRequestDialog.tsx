@@ -32,24 +32,69 @@ import {
 } from '@/components/ui/popover';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import { formatStaffingWarning } from '@/lib/labels';
 import { Badge } from '@/components/ui/badge';
 
+const DAY_PART_OPTIONS = [
+  { value: 'FULL_DAY', label: 'Full day' },
+  { value: 'MORNING', label: 'Morning (half day)' },
+  { value: 'AFTERNOON', label: 'Afternoon (half day)' },
+  { value: 'HOURS', label: 'Specific hours' },
+] as const;
+
+/**
+ * Pending request being edited
+ */
+interface EditableAbsence {
+  id: string;
+  startDate: string | Date;
+  endDate: string | Date;
+  dayPart?: string;
+  startTime?: string | null;
+  endTime?: string | null;
+  reason: string;
+  absenceType?: { id: string } | null;
+}
+
 interface AbsenceRequestDialogProps {
   children?: React.ReactNode;
   onSuccess?: () => void;
+  /** Edit this pending request instead of creating a new one */
+  absence?: EditableAbsence;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
 }
 
 /**
- * Dialog component for creating absence requests
- * Includes date range picker and reason textarea
+ * Dialog component for creating or editing absence requests
+ * Includes absence type select, date range picker, day part (half days / hours) and reason textarea
  */
-export function AbsenceRequestDialog({ children, onSuccess }: AbsenceRequestDialogProps) {
-  const [open, setOpen] = useState(false);
+export function AbsenceRequestDialog({
+  children,
+  onSuccess,
+  absence,
+  open: controlledOpen,
+  onOpenChange,
+}: AbsenceRequestDialogProps) {
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
+  const open = controlledOpen ?? uncontrolledOpen;
+  const isEditing = !!absence;
   const utils = trpc.useUtils();
 
+  const setOpen = (newOpen: boolean) => {
+    setUncontrolledOpen(newOpen);
+    onOpenChange?.(newOpen);
+  };
+
+  const { data: absenceTypes } = trpc.absenceType.list.useQuery(undefined, {
+    staleTime: 10 * 60 * 1000, // 10 minutes - types are rarely reconfigured
+  });
+
   // Helper to get normalized date (today at midnight)
   const getTodayNormalized = () => {
     const today = new Date();
@@ -57,43 +102,89 @@ export function AbsenceRequestDialog({ children, onSuccess }: AbsenceRequestDial
     return today;
   };
 
+  // Empty form for a new request, or the values of the request being edited
+  const getInitialValues = (): AbsenceRequestFormInput =>
+    absence
+      ? {
+          startDate: new Date(absence.startDate),
+          endDate: new Date(absence.endDate),
+          absenceTypeId: absence.absenceType?.id,
+          dayPart: (absence.dayPart as AbsenceRequestFormInput['dayPart']) ?? 'FULL_DAY',
+          startTime: absence.startTime ?? undefined,
+          endTime: absence.endTime ?? undefined,
+          reason: absence.reason,
+        }
+      : {
+          startDate: getTodayNormalized(),
+          endDate: getTodayNormalized(),
+          dayPart: 'FULL_DAY',
+          reason: '',
+        };
+
   const form = useForm<AbsenceRequestFormInput>({
     resolver: zodResolver(absenceRequestFormSchema),
-    defaultValues: {
-      startDate: getTodayNormalized(),
-      endDate: getTodayNormalized(),
-      reason: '',
-    },
+    defaultValues: getInitialValues(),
   });
 
+  const handleSaved = () => {
+    form.reset(getInitialValues());
+    setOpen(false);
+
+    // Invalidate all absence-related queries to refresh data across the app
+    utils.absence.getMy.invalidate();
+    utils.absence.getMyStats.invalidate();
+    utils.absence.getBalance.invalidate();
+    utils.absence.getForUser.invalidate();
+    utils.absence.getAll.invalidate();
+    utils.absence.getApprovalQueue.invalidate();
+    utils.absence.getUpcoming.invalidate();
+
+    if (onSuccess) {
+      onSuccess();
+    }
+  };
+
   const createMutation = trpc.absence.create.useMutation({
-    onSuccess: () => {
+    onSuccess: (data) => {
       toast.success('Absence request created successfully!');
-      form.reset({
-        startDate: getTodayNormalized(),
-        endDate: getTodayNormalized(),
-        reason: '',
-      });
-      setOpen(false);
-
-      // Invalidate all absence-related queries to refresh data across the app
-      utils.absence.getMy.invalidate();
-      utils.absence.getMyStats.invalidate();
-      utils.absence.getForUser.invalidate();
-      utils.absence.getAll.invalidate();
-      utils.absence.getUpcoming.invalidate();
-
-      if (onSuccess) {
-        onSuccess();
+      if (data.staffingWarning) {
+        toast.warning(formatStaffingWarning(data.staffingWarning));
       }
+      handleSaved();
     },
     onError: (error) => {
       toast.error(error.message || 'Failed to create absence request');
     },
   });
 
+  const updateMutation = trpc.absence.update.useMutation({
+    onSuccess: () => {
+      toast.success('Absence request updated - it goes through approval again');
+      handleSaved();
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to update absence request');
+    },
+  });
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  const selectedTypeId = form.watch('absenceTypeId');
+  const selectedType = absenceTypes?.find((type) => type.id === selectedTypeId);
+  const dayPart = form.watch('dayPart');
+
   const onSubmit = (data: AbsenceRequestFormInput) => {
-    createMutation.mutate(data);
+    // Times only apply to hourly absences
+    const { startTime, endTime, ...rest } = data;
+    const request = data.dayPart === 'HOURS' ? { ...rest, startTime, endTime } : rest;
+
+    if (absence) {
+      // The absence type cannot change on an existing request
+      const { absenceTypeId: _absenceTypeId, ...changes } = request;
+      updateMutation.mutate({ ...changes, id: absence.id });
+    } else {
+      createMutation.mutate(request);
+    }
   };
 
   // Quick date preset functions
@@ -134,29 +225,29 @@ export function AbsenceRequestDialog({ children, onSuccess }: AbsenceRequestDial
   // Reset form when dialog opens to ensure dates are always current
   const handleOpenChange = (newOpen: boolean) => {
     if (newOpen) {
-      form.reset({
-        startDate: getTodayNormalized(),
-        endDate: getTodayNormalized(),
-        reason: '',
-      });
+      form.reset(getInitialValues());
     }
     setOpen(newOpen);
   };
 
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
-      <DialogTrigger asChild>
-        {children || (
-          <Button>
-            Request Time Off
-          </Button>
-        )}
-      </DialogTrigger>
+      {!isEditing && (
+        <DialogTrigger asChild>
+          {children || (
+            <Button>
+              Request Time Off
+            </Button>
+          )}
+        </DialogTrigger>
+      )}
       <DialogContent className="sm:max-w-[525px]">
         <DialogHeader>
-          <DialogTitle>Request Time Off</DialogTitle>
+          <DialogTitle>{isEditing ? 'Edit Time Off Request' : 'Request Time Off'}</DialogTitle>
           <DialogDescription>
-            Submit an absence request for manager approval. Please provide the date range and reason for your absence.
+            {isEditing
+              ? 'Change the dates or reason of your pending request. Approvals already given are reset and the request is reviewed again.'
+              : 'Submit an absence request for manager approval. Please provide the date range and reason for your absence.'}
           </DialogDescription>
         </DialogHeader>
 
@@ -197,6 +288,52 @@ export function AbsenceRequestDialog({ children, onSuccess }: AbsenceRequestDial
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             <div className="grid gap-4">
+              {/* Absence Type */}
+              <FormField
+                control={form.control}
+                name="absenceTypeId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      value={field.value ?? ''}
+                      disabled={isEditing}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select absence type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {absenceTypes?.map((type) => (
+                          <SelectItem key={type.id} value={type.id}>
+                            <span className="flex items-center gap-2">
+                              <span
+                                className="h-2.5 w-2.5 rounded-full"
+                                style={{ backgroundColor: type.color }}
+                              />
+                              {type.name}
+                            </span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selectedType && (
+                      <FormDescription>
+                        {selectedType.requiresApproval
+                          ? 'Requires manager approval'
+                          : 'Approved automatically'}
+                        {selectedType.countsAgainstAllowance
+                          ? ' · Counts against your allowance'
+                          : ''}
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               {/* Start Date */}
               <FormField
                 control={form.control}
@@ -289,6 +426,68 @@ export function AbsenceRequestDialog({ children, onSuccess }: AbsenceRequestDial
                 )}
               />
 
+              {/* Day Part */}
+              <FormField
+                control={form.control}
+                name="dayPart"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Duration</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {DAY_PART_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {dayPart && dayPart !== 'FULL_DAY' && (
+                      <FormDescription>
+                        Half days and hourly absences must start and end on the same day
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {dayPart === 'HOURS' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="startTime"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>From</FormLabel>
+                        <FormControl>
+                          <Input type="time" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="endTime"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>To</FormLabel>
+                        <FormControl>
+                          <Input type="time" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+
               {/* Reason */}
               <FormField
                 control={form.control}
@@ -317,12 +516,12 @@ export function AbsenceRequestDialog({ children, onSuccess }: AbsenceRequestDial
                 type="button"
                 variant="outline"
                 onClick={() => setOpen(false)}
-                disabled={createMutation.isPending}
+                disabled={isSaving}
               >
                 Cancel
               </Button>
-              <Button type="submit" disabled={createMutation.isPending}>
-                {createMutation.isPending ? 'Submitting...' : 'Submit Request'}
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Submitting...' : isEditing ? 'Save Changes' : 'Submit Request'}
               </Button>
             </DialogFooter>
           </form>
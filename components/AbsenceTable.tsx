@@ -16,9 +16,21 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { CalendarDays, MoreHorizontal, Trash2 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Ban,
+  CalendarDays,
+  Check,
+  Circle,
+  ListChecks,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+  X,
+} from 'lucide-react';
 import { format } from 'date-fns';
 import { EmptyState } from '@/components/EmptyState';
+import { formatDayPart } from '@/lib/labels';
 
 const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
@@ -35,18 +47,46 @@ interface AbsenceUser {
   avatar?: string | null;
 }
 
+interface AbsenceTypeInfo {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface ApprovalStepInfo {
+  position: number;
+  label: string;
+  decision: string;
+  decidedByName?: string | null;
+  comment?: string | null;
+  decidedAt?: string | Date | null;
+}
+
+interface CancellationInfo {
+  reason: string;
+  requestedAt: string | Date;
+  decidedAt?: string | Date | null;
+  comment?: string | null;
+}
+
 interface AbsenceWithUser {
   id: string;
   userId: string;
   status: string;
   startDate: string | Date;
   endDate: string | Date;
+  dayPart?: string;
+  startTime?: string | null;
+  endTime?: string | null;
   reason: string;
   createdAt: string | Date;
   updatedAt: string | Date;
   deletedAt?: string | null;
   organizationId?: string;
   user?: AbsenceUser | null;
+  absenceType?: AbsenceTypeInfo | null;
+  approvalSteps?: ApprovalStepInfo[];
+  cancellation?: CancellationInfo | null;
 }
 
 interface AbsenceTableProps {
@@ -57,6 +97,9 @@ interface AbsenceTableProps {
   onApprove?: (id: string) => void;
   onReject?: (id: string) => void;
   onDelete?: (id: string) => void;
+  onEdit?: (absence: AbsenceWithUser) => void;
+  onRequestCancellation?: (id: string) => void;
+  onReviewCancellation?: (id: string, decision: 'APPROVED' | 'REJECTED') => void;
   isUpdating?: boolean;
 }
 
@@ -65,6 +108,7 @@ function getStatusBadge(status: string) {
     PENDING: { label: 'Pending', variant: 'secondary' as const },
     APPROVED: { label: 'Approved', variant: 'default' as const },
     REJECTED: { label: 'Rejected', variant: 'destructive' as const },
+    CANCELLED: { label: 'Cancelled', variant: 'outline' as const },
   };
 
   // Type guard to check if status is a valid key
@@ -82,6 +126,110 @@ function getStatusBadge(status: string) {
   return <Badge variant={config.variant}>{config.label}</Badge>;
 }
 
+/**
+ * Comment of the decision that settled the request - the rejection reason, or
+ * the final approver's note
+ */
+function getDecisionComment(absence: AbsenceWithUser): string | undefined {
+  if (absence.status === 'PENDING' || !absence.approvalSteps) return undefined;
+
+  const decided = absence.approvalSteps.filter((step) => step.decision === absence.status);
+  return decided[decided.length - 1]?.comment ?? undefined;
+}
+
+/**
+ * Approved leave waiting on a decision about its cancellation
+ */
+function isCancellationPending(absence: AbsenceWithUser): boolean {
+  return absence.status === 'APPROVED' && !!absence.cancellation && !absence.cancellation.decidedAt;
+}
+
+/**
+ * Approved leave the owner can still ask to cancel (not started, nothing pending)
+ */
+function canRequestCancellation(absence: AbsenceWithUser): boolean {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return (
+    absence.status === 'APPROVED' &&
+    !isCancellationPending(absence) &&
+    new Date(absence.startDate) >= today
+  );
+}
+
+/**
+ * Line under the status badge about the latest cancellation request
+ */
+function getCancellationNote(absence: AbsenceWithUser): string | undefined {
+  const { cancellation } = absence;
+  if (!cancellation) return undefined;
+
+  if (isCancellationPending(absence)) return `Cancellation requested: ${cancellation.reason}`;
+  if (absence.status === 'CANCELLED') return `Cancelled: ${cancellation.reason}`;
+  if (absence.status === 'APPROVED' && cancellation.comment) {
+    return `Cancellation declined: ${cancellation.comment}`;
+  }
+  return undefined;
+}
+
+const STEP_ICONS: Record<string, React.ReactNode> = {
+  APPROVED: <Check className="h-3.5 w-3.5 text-green-600" />,
+  REJECTED: <X className="h-3.5 w-3.5 text-destructive" />,
+  PENDING: <Circle className="h-3.5 w-3.5 text-yellow-600" />,
+  SKIPPED: <Circle className="h-3.5 w-3.5 text-muted-foreground/50" />,
+};
+
+/**
+ * Approval chain progress with each step's approver, decision and comment
+ */
+function ApprovalSteps({ status, steps }: { status: string; steps: ApprovalStepInfo[] }) {
+  const current = steps.find((step) => step.decision === 'PENDING');
+  const summary =
+    status === 'PENDING' && current
+      ? `Step ${current.position + 1} of ${steps.length}: ${current.label}`
+      : `${steps.length} approval ${steps.length === 1 ? 'step' : 'steps'}`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="mt-1 flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        >
+          <ListChecks className="h-3.5 w-3.5" />
+          {summary}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80">
+        <ol className="space-y-3">
+          {steps.map((step) => (
+            <li key={step.position} className="flex gap-2 text-sm">
+              <span className="mt-0.5">{STEP_ICONS[step.decision]}</span>
+              <div className="min-w-0 flex-1">
+                <p className="font-medium">{step.label}</p>
+                <p className="text-xs text-muted-foreground">
+                  {step.decision === 'PENDING' && 'Waiting for a decision'}
+                  {step.decision === 'SKIPPED' && 'Skipped'}
+                  {(step.decision === 'APPROVED' || step.decision === 'REJECTED') && (
+                    <>
+                      {step.decision === 'APPROVED' ? 'Approved' : 'Rejected'}
+                      {step.decidedByName && ` by ${step.decidedByName}`}
+                      {step.decidedAt && ` on ${format(new Date(step.decidedAt), 'PPp')}`}
+                    </>
+                  )}
+                </p>
+                {step.comment && (
+                  <p className="mt-1 whitespace-pre-wrap break-words text-xs">&ldquo;{step.comment}&rdquo;</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 export function AbsenceTable({
   absences,
   showUser = false,
@@ -90,6 +238,9 @@ export function AbsenceTable({
   onApprove,
   onReject,
   onDelete,
+  onEdit,
+  onRequestCancellation,
+  onReviewCancellation,
   isUpdating = false,
 }: AbsenceTableProps) {
   if (!absences || absences.length === 0) {
@@ -104,10 +255,11 @@ export function AbsenceTable({
 
   return (
     <div className="table-scroll-container">
-      <Table className="min-w-[600px]">
+      <Table className="min-w-[700px]">
         <TableHeader>
           <TableRow>
             {showUser && <TableHead>Employee</TableHead>}
+            <TableHead>Type</TableHead>
             <TableHead>Start Date</TableHead>
             <TableHead>End Date</TableHead>
             <TableHead>Duration</TableHead>
@@ -129,6 +281,12 @@ export function AbsenceTable({
             endMidnight.setHours(0, 0, 0, 0);
             const duration =
               Math.floor((endMidnight.getTime() - startMidnight.getTime()) / MS_PER_DAY) + 1;
+            const decisionComment = getDecisionComment(absence);
+            const cancellationNote = getCancellationNote(absence);
+            const hasMenu =
+              showActions &&
+              (absence.status === 'PENDING' ||
+                (!!onRequestCancellation && canRequestCancellation(absence)));
 
             return (
               <TableRow key={absence.id}>
@@ -142,20 +300,77 @@ export function AbsenceTable({
                     </div>
                   </TableCell>
                 )}
+                <TableCell>
+                  {absence.absenceType ? (
+                    <div className="flex items-center gap-2 whitespace-nowrap">
+                      <span
+                        className="h-2.5 w-2.5 rounded-full"
+                        style={{ backgroundColor: absence.absenceType.color }}
+                      />
+                      {absence.absenceType.name}
+                    </div>
+                  ) : (
+                    <span className="text-muted-foreground">—</span>
+                  )}
+                </TableCell>
                 <TableCell>{format(startDate, 'PPP')}</TableCell>
                 <TableCell>{format(endDate, 'PPP')}</TableCell>
                 <TableCell>
-                  {duration} {duration === 1 ? 'day' : 'days'}
+                  {formatDayPart(absence.dayPart, absence.startTime, absence.endTime) ?? (
+                    <>
+                      {duration} {duration === 1 ? 'day' : 'days'}
+                    </>
+                  )}
                 </TableCell>
                 <TableCell className="max-w-xs">
                   <div className="truncate" title={absence.reason}>
                     {absence.reason}
                   </div>
                 </TableCell>
-                <TableCell>{getStatusBadge(absence.status)}</TableCell>
+                <TableCell>
+                  {getStatusBadge(absence.status)}
+                  {decisionComment && (
+                    <p
+                      className="mt-1 max-w-[12rem] truncate text-xs text-muted-foreground"
+                      title={decisionComment}
+                    >
+                      {absence.status === 'REJECTED' ? 'Reason' : 'Comment'}: {decisionComment}
+                    </p>
+                  )}
+                  {cancellationNote && (
+                    <p
+                      className="mt-1 max-w-[12rem] truncate text-xs text-muted-foreground"
+                      title={cancellationNote}
+                    >
+                      {cancellationNote}
+                    </p>
+                  )}
+                  {absence.approvalSteps && absence.approvalSteps.length > 0 && (
+                    <ApprovalSteps status={absence.status} steps={absence.approvalSteps} />
+                  )}
+                </TableCell>
                 {(showActions || showApproval) && (
                   <TableCell className="text-right">
-                    {showApproval && absence.status === 'PENDING' ? (
+                    {showApproval && isCancellationPending(absence) ? (
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="default"
+                          onClick={() => onReviewCancellation?.(absence.id, 'APPROVED')}
+                          disabled={isUpdating}
+                        >
+                          Cancel Leave
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => onReviewCancellation?.(absence.id, 'REJECTED')}
+                          disabled={isUpdating}
+                        >
+                          Keep Leave
+                        </Button>
+                      </div>
+                    ) : showApproval && absence.status === 'PENDING' ? (
                       <div className="flex justify-end gap-2">
                         <Button
                           size="sm"
@@ -174,7 +389,7 @@ export function AbsenceTable({
                           Reject
                         </Button>
                       </div>
-                    ) : showActions && absence.status === 'PENDING' ? (
+                    ) : hasMenu ? (
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
                           <Button variant="ghost" className="h-8 w-8 p-0">
@@ -185,13 +400,31 @@ export function AbsenceTable({
                         <DropdownMenuContent align="end">
                           <DropdownMenuLabel>Actions</DropdownMenuLabel>
                           <DropdownMenuSeparator />
-                          <DropdownMenuItem
-                            className="text-destructive"
-                            onClick={() => onDelete?.(absence.id)}
-                          >
-                            <Trash2 className="mr-2 h-4 w-4" />
-                            Delete Request
-                          </DropdownMenuItem>
+                          {absence.status === 'PENDING' ? (
+                            <>
+                              {onEdit && (
+                                <DropdownMenuItem onClick={() => onEdit(absence)}>
+                                  <Pencil className="mr-2 h-4 w-4" />
+                                  Edit Request
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuItem
+                                className="text-destructive"
+                                onClick={() => onDelete?.(absence.id)}
+                              >
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                Delete Request
+                              </DropdownMenuItem>
+                            </>
+                          ) : (
+                            <DropdownMenuItem
+                              className="text-destructive"
+                              onClick={() => onRequestCancellation?.(absence.id)}
+                            >
+                              <Ban className="mr-2 h-4 w-4" />
+                              Request Cancellation
+                            </DropdownMenuItem>
+                          )}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     ) : null}
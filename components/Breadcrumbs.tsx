@@ -41,6 +41,9 @@ export function Breadcrumbs() {
       } else if (label === 'Absences' && index === 0) {
         label = 'Absences';
       }
+      else if (path === 'org-chart') {
+        label = 'Org Chart';
+      }
       // For ID paths (profile detail pages), show as "Profile" with ID
       else if (paths[index - 1] === 'profiles' && /^[a-zA-Z0-9-]+$/.test(path)) {
         label = 'Profile Details';
@@ -16,6 +16,7 @@ import {
   Users,
   MessageSquare,
   CalendarDays,
+  ClipboardList,
   Zap,
   Settings,
   Keyboard,
@@ -44,6 +45,7 @@ const NAVIGATION_ITEMS: NavItem[] = [
   { path: '/dashboard/profiles', label: 'Profiles', icon: Users, shortcut: ['G', 'P'], color: 'text-emerald-500' },
   { path: '/dashboard/feedback', label: 'Feedback', icon: MessageSquare, shortcut: ['G', 'F'], color: 'text-amber-500' },
   { path: '/dashboard/absences', label: 'Absences', icon: CalendarDays, shortcut: ['G', 'A'], color: 'text-purple-500' },
+  { path: '/dashboard/reviews', label: 'Reviews', icon: ClipboardList, shortcut: ['G', 'R'], color: 'text-indigo-500' },
   { path: '/dashboard/settings', label: 'Settings', icon: Settings, shortcut: ['G', 'S'], color: 'text-gray-500' },
   { path: '/dashboard/settings/security', label: 'Security', icon: Shield, shortcut: ['G', 'X'], color: 'text-red-500' },
 ];
@@ -0,0 +1,98 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { trpc } from '@/lib/trpc/Provider';
+import { editFeedbackSchema } from '@/lib/validations/feedback';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+
+interface EditFeedbackDialogProps {
+  feedback: { id: string; content: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog for editing feedback
+ * The previous version stays in the feedback's edit history
+ */
+export function EditFeedbackDialog({ feedback, onOpenChange }: EditFeedbackDialogProps) {
+  const utils = trpc.useUtils();
+  const [content, setContent] = useState('');
+
+  useEffect(() => {
+    if (feedback) {
+      setContent(feedback.content);
+    }
+  }, [feedback]);
+
+  const updateMutation = trpc.feedback.update.useMutation({
+    onSuccess: () => {
+      toast.success('Feedback updated');
+      utils.feedback.invalidate();
+      onOpenChange(false);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handleSave = () => {
+    if (!feedback) return;
+
+    const parsed = editFeedbackSchema.safeParse({ id: feedback.id, content });
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message ?? 'Invalid feedback');
+      return;
+    }
+
+    updateMutation.mutate(parsed.data);
+  };
+
+  return (
+    <Dialog open={feedback !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Feedback</DialogTitle>
+          <DialogDescription>
+            The receiver can see that the feedback was edited and what changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          maxLength={2000}
+          rows={6}
+          aria-label="Feedback"
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={updateMutation.isPending || content.trim() === feedback?.content.trim()}
+            onClick={handleSave}
+          >
+            {updateMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Changes'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
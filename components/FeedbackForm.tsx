@@ -3,7 +3,14 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { FeedbackFormData, feedbackSchema } from '@/lib/validations/feedback';
+import {
+  FeedbackFormData,
+  feedbackSchema,
+  type FeedbackCompetencyInput,
+  type FeedbackType,
+  type FeedbackVisibility,
+  type AIProvider,
+} from '@/lib/validations/feedback';
 import { trpc } from '@/lib/trpc/Provider';
 import { Button } from '@/components/ui/button';
 import {
@@ -17,10 +24,30 @@ import {
 } from '@/components/ui/form';
 import { Textarea } from '@/components/ui/textarea';
 import { toast } from 'sonner';
-import { Loader2, Sparkles, RefreshCw, FileText, Save, CheckCircle2, AlertCircle, Info } from 'lucide-react';
+import {
+  Loader2,
+  Sparkles,
+  RefreshCw,
+  FileText,
+  Save,
+  CheckCircle2,
+  AlertCircle,
+  Info,
+  ShieldAlert,
+  Star,
+} from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { countWords } from '@/lib/utils';
+import { cn, countWords } from '@/lib/utils';
+import {
+  formatAIProvider,
+  formatFeedbackType,
+  formatFeedbackVisibility,
+  formatScreeningCategory,
+} from '@/lib/labels';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import type { AppRouter } from '@/server';
+import type { inferRouterOutputs } from '@trpc/server';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -30,13 +57,26 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 
+type FeedbackScreening = inferRouterOutputs<AppRouter>['feedback']['screen'];
+
 interface FeedbackFormProps {
   receiverId: string;
   receiverName: string;
+  /** Feedback request this feedback answers, with the requester's question */
+  request?: { id: string; prompt?: string };
   onSuccess?: () => void;
   onCancel?: () => void;
 }
 
+const FEEDBACK_TYPES: FeedbackType[] = ['PRAISE', 'CONSTRUCTIVE', 'REQUEST'];
+const RATINGS = [1, 2, 3, 4, 5];
+
+const VISIBILITIES: { value: FeedbackVisibility; description: string }[] = [
+  { value: 'RECEIVER', description: 'Your name is shown with the feedback' },
+  { value: 'ANONYMOUS', description: 'The receiver and managers will not see your name' },
+  { value: 'MANAGER_ONLY', description: 'Private note for managers - the receiver will not see it' },
+];
+
 // Feedback templates for common scenarios
 const FEEDBACK_TEMPLATES = [
   {
@@ -67,19 +107,33 @@ const FEEDBACK_TEMPLATES = [
  * - Character count (20-2000) and word count (minimum 5 words)
  * - AI polishing with side-by-side comparison
  * - Toggle between original and polished versions
+ * - Feedback type, and competencies from the organization's framework rated 1-5
+ * - Visibility: shown to the receiver, anonymous, or a manager-only note
  */
 export function FeedbackForm({
   receiverId,
   receiverName,
+  request,
   onSuccess,
   onCancel,
 }: FeedbackFormProps) {
   const utils = trpc.useUtils();
   const [polishedContent, setPolishedContent] = useState<string | null>(null);
+  const [polishedBy, setPolishedBy] = useState<AIProvider | null>(null);
+  const [polishToken, setPolishToken] = useState<string | null>(null);
   const [usePolished, setUsePolished] = useState(false);
   const [showComparison, setShowComparison] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [type, setType] = useState<FeedbackType>('PRAISE');
+  const [visibility, setVisibility] = useState<FeedbackVisibility>('RECEIVER');
+  const [competencies, setCompetencies] = useState<FeedbackCompetencyInput[]>([]);
+  // Screening of the text last submitted; the giver is warned before it is sent as written
+  const [screened, setScreened] = useState<{ text: string; result: FeedbackScreening } | null>(null);
+
+  const { data: framework } = trpc.feedback.getCompetencies.useQuery(undefined, {
+    staleTime: 10 * 60 * 1000, // 10 minutes - the framework is rarely reconfigured
+  });
 
   const form = useForm<FeedbackFormData>({
     resolver: zodResolver(feedbackSchema),
@@ -136,15 +190,27 @@ export function FeedbackForm({
   }, [form]);
 
   const createMutation = trpc.feedback.create.useMutation({
-    onSuccess: () => {
-      toast.success('Feedback submitted successfully');
+    onSuccess: (feedback) => {
+      toast.success(
+        feedback.moderationStatus === 'PENDING'
+          ? 'Feedback submitted - a manager will review it before it is shared'
+          : 'Feedback submitted successfully'
+      );
       // Invalidate queries to refetch updated data
       utils.feedback.getForUser.invalidate({ userId: receiverId });
       utils.feedback.getGiven.invalidate();
+      utils.feedback.getStats.invalidate({ userId: receiverId });
+      if (request) utils.feedback.getRequests.invalidate();
       form.reset();
       setPolishedContent(null);
+      setPolishedBy(null);
+      setPolishToken(null);
       setUsePolished(false);
       setShowComparison(false);
+      setType('PRAISE');
+      setVisibility('RECEIVER');
+      setCompetencies([]);
+      setScreened(null);
       clearDraft(); // Clear draft on successful submission
       onSuccess?.();
     },
@@ -157,6 +223,8 @@ export function FeedbackForm({
     onSuccess: (data) => {
       if ('polishedContent' in data) {
         setPolishedContent(data.polishedContent || null);
+        setPolishedBy('provider' in data ? data.provider ?? null : null);
+        setPolishToken('polishToken' in data ? data.polishToken : null);
         setShowComparison(true);
         toast.success('Feedback polished with AI');
       } else if ('isPolished' in data && data.polishedContent) {
@@ -188,27 +256,82 @@ export function FeedbackForm({
     polishMutation.mutate({ content });
   };
 
+  const toggleCompetency = (key: string) => {
+    setCompetencies((prev) =>
+      prev.some((c) => c.competency === key)
+        ? prev.filter((c) => c.competency !== key)
+        : [...prev, { competency: key }]
+    );
+  };
+
+  // Clicking the current rating again clears it
+  const rateCompetency = (key: string, rating: number) => {
+    setCompetencies((prev) =>
+      prev.map((c) =>
+        c.competency === key ? { ...c, rating: c.rating === rating ? undefined : rating } : c
+      )
+    );
+  };
+
   const handleResetPolish = () => {
     setPolishedContent(null);
+    setPolishedBy(null);
+    setPolishToken(null);
     setUsePolished(false);
     setShowComparison(false);
   };
 
-  const onSubmit = (data: FeedbackFormData) => {
+  const screenMutation = trpc.feedback.screen.useMutation({
+    onError: (error) => {
+      toast.error(error.message || 'Failed to check feedback. Please try again.');
+    },
+  });
+
+  const submit = (data: FeedbackFormData) => {
     createMutation.mutate({
       receiverId: data.receiverId,
       content: data.content, // Always store original
       polishedContent: polishedContent || undefined,
       isPolished: usePolished && !!polishedContent,
+      polishToken: polishedContent ? polishToken ?? undefined : undefined,
+      type,
+      competencies,
+      visibility,
+      requestId: request?.id,
     });
   };
 
+  // Screen the text the receiver will read first; flagged text is only sent
+  // once the giver has seen the warning and submits again
+  const onSubmit = (data: FeedbackFormData) => {
+    const text = usePolished && polishedContent ? polishedContent : data.content;
+    if (screened?.text === text) {
+      submit(data);
+      return;
+    }
+
+    screenMutation.mutate(
+      { content: text },
+      {
+        onSuccess: (result) => {
+          if (result.categories.length === 0) {
+            submit(data);
+          } else {
+            setScreened({ text, result });
+          }
+        },
+      }
+    );
+  };
+
   // eslint-disable-next-line react-hooks/incompatible-library
   const currentContent = form.watch('content');
   const charCount = currentContent?.trim().length || 0;
   const wordCount = currentContent ? countWords(currentContent.trim()) : 0;
   const isValidLength = charCount >= 20 && charCount <= 2000;
   const isValidWordCount = wordCount >= 5;
+  const textToSubmit = usePolished && polishedContent ? polishedContent : currentContent?.trim();
+  const warning = screened && screened.text === textToSubmit ? screened.result : null;
 
   return (
     <Card>
@@ -252,8 +375,59 @@ export function FeedbackForm({
         </div>
       </CardHeader>
       <CardContent>
+        {request?.prompt && (
+          <div className="mb-6 rounded-md border bg-muted/30 p-3 text-sm">
+            <p className="text-xs font-medium text-muted-foreground">{receiverName} asked</p>
+            <p className="mt-1">{request.prompt}</p>
+          </div>
+        )}
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            {/* Feedback type */}
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Type</p>
+              <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Feedback type">
+                {FEEDBACK_TYPES.map((option) => (
+                  <Button
+                    key={option}
+                    type="button"
+                    size="sm"
+                    variant={type === option ? 'default' : 'outline'}
+                    role="radio"
+                    aria-checked={type === option}
+                    onClick={() => setType(option)}
+                  >
+                    {formatFeedbackType(option)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {/* Visibility - answers to a feedback request always go to the requester */}
+            {!request && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Visibility</p>
+                <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Feedback visibility">
+                  {VISIBILITIES.map((option) => (
+                    <Button
+                      key={option.value}
+                      type="button"
+                      size="sm"
+                      variant={visibility === option.value ? 'default' : 'outline'}
+                      role="radio"
+                      aria-checked={visibility === option.value}
+                      onClick={() => setVisibility(option.value)}
+                    >
+                      {formatFeedbackVisibility(option.value)}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {VISIBILITIES.find((option) => option.value === visibility)?.description}
+                </p>
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="content"
@@ -349,6 +523,73 @@ export function FeedbackForm({
               )}
             />
 
+            {/* Competencies */}
+            {framework && framework.length > 0 && (
+              <div className="space-y-2">
+                <div>
+                  <p className="text-sm font-medium">Competencies (optional)</p>
+                  <p className="text-xs text-muted-foreground">
+                    Tag what this feedback is about, and rate it from 1 (struggling) to 5 (excelling)
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {framework.map((competency) => {
+                    const selected = competencies.some((c) => c.competency === competency.key);
+                    return (
+                      <Badge
+                        key={competency.key}
+                        asChild
+                        variant={selected ? 'default' : 'outline'}
+                        className="cursor-pointer"
+                      >
+                        <button
+                          type="button"
+                          aria-pressed={selected}
+                          title={competency.description}
+                          onClick={() => toggleCompetency(competency.key)}
+                        >
+                          {competency.name}
+                        </button>
+                      </Badge>
+                    );
+                  })}
+                </div>
+                {competencies.length > 0 && (
+                  <div className="space-y-1 rounded-md border p-3">
+                    {competencies.map(({ competency, rating }) => (
+                      <div key={competency} className="flex items-center justify-between gap-3">
+                        <span className="text-sm">
+                          {framework.find((c) => c.key === competency)?.name ?? competency}
+                        </span>
+                        <div className="flex" role="radiogroup" aria-label={`Rating for ${competency}`}>
+                          {RATINGS.map((value) => (
+                            <button
+                              key={value}
+                              type="button"
+                              role="radio"
+                              aria-checked={rating === value}
+                              aria-label={`${value} of 5`}
+                              className="p-0.5"
+                              onClick={() => rateCompetency(competency, value)}
+                            >
+                              <Star
+                                className={cn(
+                                  'h-4 w-4',
+                                  rating !== undefined && value <= rating
+                                    ? 'fill-amber-400 text-amber-400'
+                                    : 'text-muted-foreground'
+                                )}
+                              />
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* AI Polish Button */}
             <div className="flex items-center gap-3">
               <Button
@@ -391,6 +632,11 @@ export function FeedbackForm({
                     <CardTitle className="text-base flex items-center gap-2">
                       <Sparkles className="h-4 w-4 text-primary" />
                       AI-Polished Version
+                      {polishedBy && (
+                        <span className="text-xs font-normal text-muted-foreground">
+                          via {formatAIProvider(polishedBy)}
+                        </span>
+                      )}
                     </CardTitle>
                     <Badge variant={usePolished ? 'default' : 'outline'}>
                       {usePolished ? 'Will Use Polished' : 'Will Use Original'}
@@ -431,6 +677,24 @@ export function FeedbackForm({
               </Card>
             )}
 
+            {/* Screening warning for the text about to be submitted */}
+            {warning && (
+              <Alert variant={warning.requiresPolish ? 'destructive' : 'default'}>
+                <ShieldAlert className="h-4 w-4" />
+                <AlertTitle>
+                  This feedback was flagged:{' '}
+                  {warning.categories.map(formatScreeningCategory).join(', ').toLowerCase()}
+                </AlertTitle>
+                <AlertDescription>
+                  {warning.requiresPolish
+                    ? 'Your organization asks for flagged feedback to be polished before it is sent. Polish it with AI or rephrase it.'
+                    : warning.requiresModeration
+                      ? 'If you submit it as written, a manager will review it before it is shared.'
+                      : 'Consider rephrasing it so it focuses on the work. You can still submit it as written.'}
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Submit Buttons */}
             <div className="flex items-center justify-end gap-3">
               {onCancel && (
@@ -440,13 +704,23 @@ export function FeedbackForm({
               )}
               <Button
                 type="submit"
-                disabled={!isValidLength || !isValidWordCount || createMutation.isPending}
+                disabled={
+                  !isValidLength ||
+                  !isValidWordCount ||
+                  createMutation.isPending ||
+                  screenMutation.isPending ||
+                  !!warning?.requiresPolish
+                }
               >
-                {createMutation.isPending ? (
+                {createMutation.isPending || screenMutation.isPending ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Submitting...
+                    {screenMutation.isPending ? 'Checking...' : 'Submitting...'}
                   </>
+                ) : warning?.requiresModeration ? (
+                  'Submit for Review'
+                ) : warning ? (
+                  'Submit Anyway'
                 ) : (
                   'Submit Feedback'
                 )}
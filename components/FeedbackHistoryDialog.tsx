@@ -0,0 +1,94 @@
+'use client';
+
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { diffWords } from '@/lib/text-diff';
+import { cn } from '@/lib/utils';
+
+interface FeedbackRevision {
+  id: string;
+  content: string;
+  polishedContent?: string | null;
+  editedAt: string | Date;
+}
+
+interface FeedbackHistoryDialogProps {
+  feedback: {
+    content: string;
+    createdAt: string | Date;
+    revisions: FeedbackRevision[]; // Oldest first
+  } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog with the edit history of feedback, newest edit first
+ * Each edit shows the words removed from and added to the version before it
+ */
+export function FeedbackHistoryDialog({ feedback, onOpenChange }: FeedbackHistoryDialogProps) {
+  const revisions = feedback?.revisions ?? [];
+
+  // Edit n replaced revision n with the next revision, or with the current content for the last one
+  const edits = revisions
+    .map((revision, index) => ({
+      revision,
+      after: revisions[index + 1]?.content ?? feedback?.content ?? '',
+    }))
+    .reverse();
+
+  return (
+    <Dialog open={feedback !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Edit History</DialogTitle>
+          <DialogDescription>
+            {feedback &&
+              `Given ${format(new Date(feedback.createdAt), 'MMM d, yyyy')} and edited ${revisions.length} time${revisions.length === 1 ? '' : 's'}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-3">
+          <div className="space-y-4">
+            {edits.map(({ revision, after }) => (
+              <div key={revision.id} className="space-y-2 rounded-md border p-3">
+                <p className="text-xs font-semibold text-muted-foreground uppercase">
+                  Edited {format(new Date(revision.editedAt), "MMM d, yyyy 'at' h:mm a")}
+                </p>
+                <p className="text-sm whitespace-pre-wrap">
+                  {diffWords(revision.content, after).map((part, index) => (
+                    <span
+                      key={index}
+                      className={cn(
+                        part.added && 'bg-green-500/15 text-green-700 dark:text-green-300',
+                        part.removed && 'bg-red-500/15 text-red-700 line-through dark:text-red-300',
+                      )}
+                    >
+                      {part.value}
+                    </span>
+                  ))}
+                </p>
+                {revision.polishedContent && (
+                  <div className="border-t pt-2 space-y-1">
+                    <p className="text-xs font-semibold text-muted-foreground uppercase">
+                      Polished version before this edit
+                    </p>
+                    <p className="text-sm whitespace-pre-wrap text-muted-foreground">
+                      {revision.polishedContent}
+                    </p>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -19,9 +19,24 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from 'sonner';
-import { Trash2, Sparkles, ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  Trash2,
+  Sparkles,
+  ChevronDown,
+  ChevronUp,
+  EyeOff,
+  Lock,
+  Pencil,
+  History,
+  ShieldAlert,
+} from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { Permissions } from '@/lib/permissions';
+import { FeedbackTags } from '@/components/FeedbackTags';
+import { FeedbackThread } from '@/components/FeedbackThread';
+import { FeedbackHistoryDialog } from '@/components/FeedbackHistoryDialog';
+import { EditFeedbackDialog } from '@/components/EditFeedbackDialog';
+import { formatFeedbackVisibility } from '@/lib/labels';
 
 interface FeedbackListProps {
   userId: string;
@@ -32,8 +47,13 @@ interface FeedbackListProps {
  * Features:
  * - Shows giver name, timestamp, and content
  * - AI Polished badge for enhanced feedback
+ * - Feedback type and rated competencies
+ * - Anonymous givers and manager-only notes (the server hides what the viewer may not see)
  * - Expandable to view original vs polished versions
- * - Delete button (visible to giver or managers)
+ * - "Edited" indicator opening the edit history with what changed
+ * - Moderation status of flagged feedback held back from its receiver
+ * - Reply thread and acknowledgement between giver and receiver
+ * - Edit and delete buttons (visible to giver or managers)
  * - Empty state
  */
 export function FeedbackList({ userId }: FeedbackListProps) {
@@ -43,6 +63,8 @@ export function FeedbackList({ userId }: FeedbackListProps) {
   });
   const utils = trpc.useUtils();
   const [expandedFeedback, setExpandedFeedback] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null);
+  const [history, setHistory] = useState<NonNullable<typeof feedback>[number] | null>(null);
 
   // Feedback updates semi-frequently - use 2 minute staleTime
   const { data: feedback, isLoading } = trpc.feedback.getForUser.useQuery(
@@ -124,6 +146,10 @@ export function FeedbackList({ userId }: FeedbackListProps) {
         const isExpanded = expandedFeedback === item.id;
         // Use centralized permissions to check if user can delete this feedback
         const canDelete = currentUser ? Permissions.feedback.delete(currentUser, item) : false;
+        const canEdit =
+          currentUser && item.moderationStatus !== 'REJECTED'
+            ? Permissions.feedback.edit(currentUser, item)
+            : false;
         const displayContent =
           isExpanded && item.isPolished && item.polishedContent
             ? item.polishedContent
@@ -136,7 +162,7 @@ export function FeedbackList({ userId }: FeedbackListProps) {
         };
 
         return (
-          <Card key={feedbackItem.id}>
+          <Card key={feedbackItem.id} id={`feedback-${feedbackItem.id}`}>
             <CardHeader className="pb-3">
               <div className="flex items-start justify-between gap-4">
                 <div className="flex items-center gap-3">
@@ -153,6 +179,39 @@ export function FeedbackList({ userId }: FeedbackListProps) {
                           AI Polished
                         </Badge>
                       )}
+                      {item.visibility !== 'RECEIVER' && (
+                        <Badge variant="outline" className="text-xs">
+                          {item.visibility === 'ANONYMOUS' ? (
+                            <EyeOff className="mr-1 h-3 w-3" />
+                          ) : (
+                            <Lock className="mr-1 h-3 w-3" />
+                          )}
+                          {formatFeedbackVisibility(item.visibility)}
+                        </Badge>
+                      )}
+                      {item.revisions.length > 0 && (
+                        <Badge
+                          variant="outline"
+                          className="cursor-pointer text-xs"
+                          title="Show edit history"
+                          onClick={() => setHistory(item)}
+                        >
+                          <History className="mr-1 h-3 w-3" />
+                          Edited
+                        </Badge>
+                      )}
+                      {item.moderationStatus === 'PENDING' && (
+                        <Badge variant="outline" className="text-xs">
+                          <ShieldAlert className="mr-1 h-3 w-3" />
+                          Awaiting moderation
+                        </Badge>
+                      )}
+                      {item.moderationStatus === 'REJECTED' && (
+                        <Badge variant="destructive" className="text-xs">
+                          <ShieldAlert className="mr-1 h-3 w-3" />
+                          Not delivered
+                        </Badge>
+                      )}
                     </div>
                     <p className="text-sm text-muted-foreground">
                       {formatDistanceToNow(new Date(item.createdAt), {
@@ -162,37 +221,51 @@ export function FeedbackList({ userId }: FeedbackListProps) {
                   </div>
                 </div>
 
-                {canDelete && (
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button variant="ghost" size="icon" className="h-8 w-8">
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>Delete Feedback</AlertDialogTitle>
-                        <AlertDialogDescription>
-                          Are you sure you want to delete this feedback? This action cannot be
-                          undone.
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel>Cancel</AlertDialogCancel>
-                        <AlertDialogAction
-                          onClick={() => handleDelete(item.id)}
-                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                        >
-                          Delete
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
-                )}
+                <div className="flex items-center">
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label="Edit feedback"
+                      onClick={() => setEditing({ id: item.id, content: item.content })}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {canDelete && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Feedback</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to delete this feedback? This action cannot be
+                            undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => handleDelete(item.id)}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                </div>
               </div>
             </CardHeader>
 
             <CardContent>
+              <FeedbackTags type={item.type} competencies={item.competencies} className="mb-3" />
               <p className="text-sm whitespace-pre-wrap">{displayContent}</p>
 
               {item.isPolished && item.polishedContent && (
@@ -228,10 +301,15 @@ export function FeedbackList({ userId }: FeedbackListProps) {
                   )}
                 </div>
               )}
+
+              <FeedbackThread feedback={feedbackItem} currentUserId={currentUser?.id} />
             </CardContent>
           </Card>
         );
       })}
+
+      <EditFeedbackDialog feedback={editing} onOpenChange={(open) => !open && setEditing(null)} />
+      <FeedbackHistoryDialog feedback={history} onOpenChange={(open) => !open && setHistory(null)} />
     </div>
   );
 }
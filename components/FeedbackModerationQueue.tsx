@@ -0,0 +1,126 @@
+'use client';
+
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { trpc } from '@/lib/trpc/Provider';
+import { formatScreeningCategory } from '@/lib/labels';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { FeedbackTags } from '@/components/FeedbackTags';
+import { Check, ShieldCheck, X } from 'lucide-react';
+
+interface FeedbackModerationQueueProps {
+  currentUserId: string;
+}
+
+/**
+ * Manager queue of flagged feedback held back from its receiver
+ * Approving delivers the feedback; rejecting tells the giver it was not delivered.
+ * Managers cannot moderate feedback they gave or received themselves.
+ */
+export function FeedbackModerationQueue({ currentUserId }: FeedbackModerationQueueProps) {
+  const utils = trpc.useUtils();
+
+  const { data: queue, isLoading } = trpc.feedback.getModerationQueue.useQuery(undefined, {
+    staleTime: 60 * 1000, // 1 minute - new flagged feedback can arrive at any time
+  });
+
+  const moderateMutation = trpc.feedback.moderate.useMutation({
+    onSuccess: (feedback) => {
+      toast.success(
+        feedback.moderationStatus === 'APPROVED' ? 'Feedback delivered' : 'Feedback rejected'
+      );
+      utils.feedback.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2].map((i) => (
+          <Skeleton key={i} className="h-32 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!queue || queue.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+          <ShieldCheck className="mb-4 h-12 w-12 text-muted-foreground" />
+          <h3 className="mb-2 text-lg font-semibold">Nothing to moderate</h3>
+          <p className="max-w-sm text-sm text-muted-foreground">
+            Feedback flagged by screening waits here until a manager approves or rejects it.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {queue.map((item) => {
+        const isInvolved = item.giverId === currentUserId || item.receiverId === currentUserId;
+        const displayContent =
+          item.isPolished && item.polishedContent ? item.polishedContent : item.content;
+
+        return (
+          <Card key={item.id}>
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="font-semibold">
+                    {item.giver?.name ?? 'Unknown'} → {item.receiver?.name ?? 'Unknown'}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {formatDistanceToNow(new Date(item.updatedAt), { addSuffix: true })}
+                  </p>
+                </div>
+                <div className="flex flex-wrap justify-end gap-1">
+                  {item.screeningFlags.map((flag) => (
+                    <Badge key={flag} variant="destructive" className="text-xs">
+                      {formatScreeningCategory(flag)}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <FeedbackTags type={item.type} competencies={item.competencies} />
+              <p className="whitespace-pre-wrap text-sm">{displayContent}</p>
+              {isInvolved ? (
+                <p className="text-xs text-muted-foreground">
+                  Another manager has to moderate feedback you gave or received.
+                </p>
+              ) : (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    disabled={moderateMutation.isPending}
+                    onClick={() => moderateMutation.mutate({ id: item.id, approve: true })}
+                  >
+                    <Check className="mr-2 h-4 w-4" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={moderateMutation.isPending}
+                    onClick={() => moderateMutation.mutate({ id: item.id, approve: false })}
+                  >
+                    <X className="mr-2 h-4 w-4" />
+                    Reject
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
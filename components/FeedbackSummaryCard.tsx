@@ -0,0 +1,167 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { format, formatDistanceToNow, subDays } from 'date-fns';
+import { trpc } from '@/lib/trpc/Provider';
+import { formatAIProvider } from '@/lib/labels';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2, Sparkles } from 'lucide-react';
+
+const DEFAULT_PERIOD_DAYS = 90;
+
+interface SummaryPoint {
+  text: string;
+  feedbackIds: string[];
+}
+
+interface FeedbackSummaryCardProps {
+  userId: string;
+  userName: string;
+}
+
+/**
+ * AI summary of the feedback a user received in a period, for managers preparing a 1:1
+ * Each point cites the feedback it is drawn from; citations scroll to that feedback
+ * in the FeedbackList below. Summaries are cached until the feedback changes.
+ */
+export function FeedbackSummaryCard({ userId, userName }: FeedbackSummaryCardProps) {
+  const utils = trpc.useUtils();
+  const [from, setFrom] = useState(() =>
+    format(subDays(new Date(), DEFAULT_PERIOD_DAYS), 'yyyy-MM-dd')
+  );
+  const [to, setTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+
+  const isValidPeriod = !!from && !!to && from <= to;
+  const period = { userId, from, to };
+
+  const { data: summary, isLoading } = trpc.feedback.getSummary.useQuery(period, {
+    staleTime: 5 * 60 * 1000, // 5 minutes - only changes when feedback does
+    enabled: isValidPeriod,
+  });
+
+  const summarizeMutation = trpc.feedback.summarize.useMutation({
+    onSuccess: (result) => {
+      utils.feedback.getSummary.setData(period, result);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  // Number cited feedback in order of first citation
+  const citations = new Map<string, number>();
+  for (const point of [
+    ...(summary?.themes ?? []),
+    ...(summary?.strengths ?? []),
+    ...(summary?.growthAreas ?? []),
+  ]) {
+    for (const id of point.feedbackIds) {
+      if (!citations.has(id)) {
+        citations.set(id, citations.size + 1);
+      }
+    }
+  }
+
+  const showFeedback = (feedbackId: string) => {
+    document.getElementById(`feedback-${feedbackId}`)?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  const renderSection = (title: string, points: SummaryPoint[]) => (
+    <div className="space-y-2">
+      <p className="text-xs font-semibold uppercase text-muted-foreground">{title}</p>
+      {points.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nothing stood out</p>
+      ) : (
+        <ul className="list-disc space-y-1 pl-5 text-sm">
+          {points.map((point) => (
+            <li key={point.text}>
+              {point.text}{' '}
+              {point.feedbackIds.map((id) => (
+                <button
+                  key={id}
+                  type="button"
+                  className="text-xs text-primary hover:underline"
+                  title="Show this feedback"
+                  onClick={() => showFeedback(id)}
+                >
+                  [{citations.get(id)}]
+                </button>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5" />
+          Feedback Summary
+        </CardTitle>
+        <CardDescription>
+          Themes, strengths and growth areas across the feedback {userName} received.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="summary-from">From</Label>
+            <Input
+              id="summary-from"
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="summary-to">To</Label>
+            <Input
+              id="summary-to"
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+          <Button
+            disabled={!isValidPeriod || !!summary || summarizeMutation.isPending}
+            onClick={() => summarizeMutation.mutate(period)}
+          >
+            {summarizeMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Summarizing...
+              </>
+            ) : (
+              'Summarize'
+            )}
+          </Button>
+        </div>
+
+        {isLoading && isValidPeriod ? (
+          <Skeleton className="h-32 w-full" />
+        ) : summary ? (
+          <div className="space-y-4 rounded-md bg-muted p-4">
+            {renderSection('Themes', summary.themes)}
+            {renderSection('Strengths', summary.strengths)}
+            {renderSection('Growth areas', summary.growthAreas)}
+            <p className="text-xs text-muted-foreground">
+              Based on {summary.feedbackCount} piece{summary.feedbackCount === 1 ? '' : 's'} of
+              feedback - generated with {formatAIProvider(summary.provider)}{' '}
+              {formatDistanceToNow(new Date(summary.generatedAt), { addSuffix: true })}
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No summary for this period yet, or the feedback has changed since the last one.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/Provider';
+import { Badge } from '@/components/ui/badge';
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatFeedbackType } from '@/lib/labels';
+
+const TYPE_CLASS_NAMES: Record<string, string> = {
+  PRAISE: 'border-green-300 text-green-700 dark:text-green-300',
+  CONSTRUCTIVE: 'border-amber-300 text-amber-700 dark:text-amber-300',
+  REQUEST: 'border-blue-300 text-blue-700 dark:text-blue-300',
+};
+
+interface FeedbackTagsProps {
+  type?: string;
+  competencies?: { competency: string; rating?: number }[];
+  className?: string;
+}
+
+/**
+ * Type badge and competency chips (with their rating) of a feedback entry
+ */
+export function FeedbackTags({ type, competencies = [], className }: FeedbackTagsProps) {
+  const { data: framework } = trpc.feedback.getCompetencies.useQuery(undefined, {
+    staleTime: 10 * 60 * 1000, // 10 minutes - the framework is rarely reconfigured
+    enabled: competencies.length > 0,
+  });
+
+  if (!type && competencies.length === 0) {
+    return null;
+  }
+
+  const nameOf = (key: string) => framework?.find((c) => c.key === key)?.name ?? key;
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-1.5', className)}>
+      {type && (
+        <Badge variant="outline" className={cn('text-xs', TYPE_CLASS_NAMES[type])}>
+          {formatFeedbackType(type)}
+        </Badge>
+      )}
+      {competencies.map(({ competency, rating }) => (
+        <Badge key={competency} variant="secondary" className="text-xs font-normal">
+          {nameOf(competency)}
+          {rating !== undefined && (
+            <span className="ml-1 flex items-center gap-0.5 font-medium" aria-label={`rated ${rating} of 5`}>
+              <Star className="h-3 w-3 fill-current" />
+              {rating}
+            </span>
+          )}
+        </Badge>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { trpc } from '@/lib/trpc/Provider';
+import { feedbackReplySchema } from '@/lib/validations/feedback';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { CheckCircle2, Loader2, Reply } from 'lucide-react';
+
+interface FeedbackReply {
+  id: string;
+  authorId: string;
+  kind: string;
+  content?: string | null;
+  createdAt: string | Date;
+}
+
+interface FeedbackThreadProps {
+  feedback: {
+    id: string;
+    giverId: string; // 'anonymous' when the giver is hidden from the viewer
+    receiverId: string;
+    visibility?: string;
+    replies: FeedbackReply[]; // Oldest first
+    giver?: { name: string } | null;
+    receiver?: { name: string } | null;
+  };
+  currentUserId?: string;
+}
+
+/**
+ * Replies and acknowledgements under feedback
+ * The giver and receiver can write in the thread; only the receiver acknowledges
+ */
+export function FeedbackThread({ feedback, currentUserId }: FeedbackThreadProps) {
+  const utils = trpc.useUtils();
+  const [composing, setComposing] = useState(false);
+  const [content, setContent] = useState('');
+
+  const replyMutation = trpc.feedback.reply.useMutation({
+    onSuccess: (reply) => {
+      toast.success(reply.kind === 'ACKNOWLEDGEMENT' ? 'Feedback acknowledged' : 'Reply sent');
+      setContent('');
+      setComposing(false);
+      utils.feedback.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  // Manager-only notes are never shown to their receiver, so there is nobody to reply to
+  if (feedback.visibility === 'MANAGER_ONLY') {
+    return null;
+  }
+
+  const isReceiver = currentUserId === feedback.receiverId;
+  const canReply = isReceiver || currentUserId === feedback.giverId;
+  const isAcknowledged = feedback.replies.some((r) => r.kind === 'ACKNOWLEDGEMENT');
+
+  const authorName = (authorId: string) =>
+    authorId === feedback.receiverId
+      ? (feedback.receiver?.name ?? 'Receiver')
+      : (feedback.giver?.name ?? 'Giver');
+
+  const handleReply = () => {
+    const parsed = feedbackReplySchema.safeParse({ feedbackId: feedback.id, content });
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message ?? 'Invalid reply');
+      return;
+    }
+
+    replyMutation.mutate(parsed.data);
+  };
+
+  if (feedback.replies.length === 0 && !canReply) {
+    return null;
+  }
+
+  return (
+    <div className="mt-4 space-y-3 border-t pt-3">
+      {feedback.replies.map((reply) =>
+        reply.kind === 'ACKNOWLEDGEMENT' ? (
+          <div key={reply.id} className="space-y-1">
+            <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              <CheckCircle2 className="h-3.5 w-3.5 text-green-600" />
+              {authorName(reply.authorId)} acknowledged this feedback{' '}
+              {formatDistanceToNow(new Date(reply.createdAt), { addSuffix: true })}
+            </p>
+            {reply.content && <p className="pl-5 text-sm whitespace-pre-wrap">{reply.content}</p>}
+          </div>
+        ) : (
+          <div key={reply.id} className="rounded-md bg-muted/50 p-2">
+            <p className="text-xs text-muted-foreground">
+              <span className="font-medium text-foreground">{authorName(reply.authorId)}</span>{' '}
+              {formatDistanceToNow(new Date(reply.createdAt), { addSuffix: true })}
+            </p>
+            <p className="text-sm whitespace-pre-wrap">{reply.content}</p>
+          </div>
+        ),
+      )}
+
+      {canReply &&
+        (composing ? (
+          <div className="space-y-2">
+            <Textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              placeholder="Write a reply..."
+              maxLength={2000}
+              rows={3}
+              aria-label="Reply"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setComposing(false)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                disabled={replyMutation.isPending || content.trim() === ''}
+                onClick={handleReply}
+              >
+                {replyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Send Reply
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" className="h-8" onClick={() => setComposing(true)}>
+              <Reply className="mr-2 h-4 w-4" />
+              Reply
+            </Button>
+            {isReceiver && !isAcknowledged && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8"
+                disabled={replyMutation.isPending}
+                onClick={() =>
+                  replyMutation.mutate({ feedbackId: feedback.id, kind: 'ACKNOWLEDGEMENT' })
+                }
+              >
+                <CheckCircle2 className="mr-2 h-4 w-4" />
+                Acknowledge
+              </Button>
+            )}
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -59,6 +59,7 @@ const shortcuts: Shortcut[] = [
   { keys: ['G', 'P'], description: 'Go to Profiles', category: 'navigation' },
   { keys: ['G', 'F'], description: 'Go to Feedback', category: 'navigation' },
   { keys: ['G', 'A'], description: 'Go to Absences', category: 'navigation' },
+  { keys: ['G', 'R'], description: 'Go to Reviews', category: 'navigation' },
   { keys: ['G', 'S'], description: 'Go to Settings', category: 'navigation' },
   { keys: ['G', 'X'], description: 'Go to Security', category: 'navigation' },
 
@@ -95,6 +96,8 @@ export function KeyboardShortcuts({ onNavigate, onAction, keySequence, setKeySeq
         onNavigate('/dashboard/feedback');
       } else if (keyString === 'GA' && onNavigate) {
         onNavigate('/dashboard/absences');
+      } else if (keyString === 'GR' && onNavigate) {
+        onNavigate('/dashboard/reviews');
       } else if (keyString === 'GS' && onNavigate) {
         onNavigate('/dashboard/settings');
       } else if (keyString === 'GX' && onNavigate) {
@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { trpc } from '@/lib/trpc/Provider';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Pencil, Wallet } from 'lucide-react';
+
+interface LeaveBalanceCardProps {
+  userId: string;
+  canEditAllowance?: boolean;
+}
+
+function formatDays(days: number) {
+  const rounded = Math.round(days * 100) / 100;
+  return `${rounded} ${rounded === 1 ? 'day' : 'days'}`;
+}
+
+/**
+ * Leave balance for the current year
+ * Shows accrued allowance, carryover, used and pending days.
+ * Managers can override the yearly allowance.
+ */
+export function LeaveBalanceCard({ userId, canEditAllowance = false }: LeaveBalanceCardProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [allowance, setAllowance] = useState('');
+  const utils = trpc.useUtils();
+
+  const { data: balance, isLoading } = trpc.absence.getBalance.useQuery(
+    { userId },
+    {
+      staleTime: 2 * 60 * 1000, // 2 minutes - changes when requests are approved
+      gcTime: 10 * 60 * 1000, // 10 minutes
+    }
+  );
+
+  const setAllowanceMutation = trpc.absence.setAllowance.useMutation({
+    onSuccess: () => {
+      toast.success('Leave allowance updated');
+      setIsEditing(false);
+      utils.absence.getBalance.invalidate({ userId });
+      utils.absence.getMyStats.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to update leave allowance');
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-40" />
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="h-16 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!balance) {
+    return null;
+  }
+
+  const available = balance.accruedDays + balance.carriedOverDays;
+  const usedPercent = available > 0 ? Math.min(100, (balance.usedDays / available) * 100) : 0;
+
+  const handleSave = () => {
+    const value = Number(allowance);
+    if (Number.isNaN(value)) {
+      toast.error('Allowance must be a number');
+      return;
+    }
+    setAllowanceMutation.mutate({ userId, year: balance.year, annualAllowance: value });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Leave Balance {balance.year}
+          </CardTitle>
+          <CardDescription>
+            {balance.accrualMethod === 'MONTHLY'
+              ? 'Allowance accrues monthly'
+              : 'Full allowance available from January'}
+          </CardDescription>
+        </div>
+        <div className="text-right">
+          <p
+            className={`text-3xl font-bold ${balance.remainingDays < 0 ? 'text-destructive' : 'text-foreground'}`}
+          >
+            {Math.round(balance.remainingDays * 100) / 100}
+          </p>
+          <p className="text-xs text-muted-foreground">days remaining</p>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Progress value={usedPercent} />
+
+        <div className="grid grid-cols-2 gap-4 text-sm sm:grid-cols-4">
+          <div>
+            <p className="text-muted-foreground">Yearly allowance</p>
+            {isEditing ? (
+              <div className="mt-1 flex gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  max={365}
+                  step={0.5}
+                  value={allowance}
+                  onChange={(e) => setAllowance(e.target.value)}
+                  className="h-8 w-20"
+                />
+                <Button size="sm" onClick={handleSave} disabled={setAllowanceMutation.isPending}>
+                  Save
+                </Button>
+              </div>
+            ) : (
+              <p className="flex items-center gap-1 font-medium">
+                {formatDays(balance.annualAllowance)}
+                {canEditAllowance && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => {
+                      setAllowance(String(balance.annualAllowance));
+                      setIsEditing(true);
+                    }}
+                  >
+                    <span className="sr-only">Edit allowance</span>
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                )}
+              </p>
+            )}
+          </div>
+          <div>
+            <p className="text-muted-foreground">Accrued + carried over</p>
+            <p className="font-medium">
+              {formatDays(balance.accruedDays)} + {formatDays(balance.carriedOverDays)}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Used</p>
+            <p className="font-medium">{formatDays(balance.usedDays)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Pending</p>
+            <p className="font-medium">{formatDays(balance.pendingDays)}</p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { trpc } from '@/lib/trpc/Provider';
+import { useNotificationStream } from '@/lib/use-notification-stream';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -16,19 +17,33 @@ import { Skeleton } from '@/components/ui/skeleton';
 import {
   Bell,
   MessageSquare,
+  MessageSquareMore,
+  MessageSquareReply,
   CalendarCheck,
   CalendarX,
   AlertCircle,
   CheckCheck,
+  ClipboardList,
+  ClipboardCheck,
+  ShieldAlert,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { formatDistanceToNow } from 'date-fns';
 
 type NotificationType =
   | 'FEEDBACK_RECEIVED'
+  | 'FEEDBACK_REQUESTED'
+  | 'FEEDBACK_REPLY'
+  | 'FEEDBACK_MODERATION'
   | 'ABSENCE_APPROVED'
   | 'ABSENCE_REJECTED'
   | 'ABSENCE_PENDING'
+  | 'ABSENCE_CANCELLATION_REQUESTED'
+  | 'ABSENCE_CANCELLED'
+  | 'ABSENCE_CANCELLATION_REJECTED'
+  | 'REVIEW_REQUESTED'
+  | 'REVIEW_REMINDER'
+  | 'REVIEW_COMPLETED'
   | 'SYSTEM';
 
 interface NotificationIconConfig {
@@ -43,6 +58,21 @@ const NOTIFICATION_ICONS: Record<NotificationType, NotificationIconConfig> = {
     color: 'text-blue-500',
     bgColor: 'bg-blue-500/10',
   },
+  FEEDBACK_REQUESTED: {
+    icon: MessageSquareMore,
+    color: 'text-amber-500',
+    bgColor: 'bg-amber-500/10',
+  },
+  FEEDBACK_REPLY: {
+    icon: MessageSquareReply,
+    color: 'text-sky-500',
+    bgColor: 'bg-sky-500/10',
+  },
+  FEEDBACK_MODERATION: {
+    icon: ShieldAlert,
+    color: 'text-orange-500',
+    bgColor: 'bg-orange-500/10',
+  },
   ABSENCE_APPROVED: {
     icon: CalendarCheck,
     color: 'text-emerald-500',
@@ -58,6 +88,36 @@ const NOTIFICATION_ICONS: Record<NotificationType, NotificationIconConfig> = {
     color: 'text-amber-500',
     bgColor: 'bg-amber-500/10',
   },
+  ABSENCE_CANCELLATION_REQUESTED: {
+    icon: AlertCircle,
+    color: 'text-orange-500',
+    bgColor: 'bg-orange-500/10',
+  },
+  ABSENCE_CANCELLED: {
+    icon: CalendarX,
+    color: 'text-slate-500',
+    bgColor: 'bg-slate-500/10',
+  },
+  ABSENCE_CANCELLATION_REJECTED: {
+    icon: CalendarCheck,
+    color: 'text-red-500',
+    bgColor: 'bg-red-500/10',
+  },
+  REVIEW_REQUESTED: {
+    icon: ClipboardList,
+    color: 'text-indigo-500',
+    bgColor: 'bg-indigo-500/10',
+  },
+  REVIEW_REMINDER: {
+    icon: ClipboardList,
+    color: 'text-amber-500',
+    bgColor: 'bg-amber-500/10',
+  },
+  REVIEW_COMPLETED: {
+    icon: ClipboardCheck,
+    color: 'text-green-500',
+    bgColor: 'bg-green-500/10',
+  },
   SYSTEM: {
     icon: Bell,
     color: 'text-purple-500',
@@ -68,13 +128,15 @@ const NOTIFICATION_ICONS: Record<NotificationType, NotificationIconConfig> = {
 export function NotificationDropdown() {
   const [isOpen, setIsOpen] = useState(false);
   const utils = trpc.useUtils();
+  const { connected } = useNotificationStream();
 
   const { data, isLoading } = trpc.notification.getAll.useQuery(
     { limit: 10 },
     {
       enabled: true,
       staleTime: 30 * 1000,
-      refetchInterval: 60 * 1000,
+      // The stream keeps the list current; poll only while it is down
+      refetchInterval: connected ? false : 60 * 1000,
     }
   );
 
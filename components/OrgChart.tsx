@@ -0,0 +1,301 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import {
+  buildOrgChart,
+  getDepartmentColors,
+  getManagerChain,
+  searchOrgChart,
+  DepartmentColor,
+  NO_DEPARTMENT_COLOR,
+  OrgChartNode,
+  OrgChartPerson,
+} from '@/lib/org-chart';
+import {
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+  Minus,
+  Plus,
+  RotateCcw,
+  Search,
+} from 'lucide-react';
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 1.5;
+const ZOOM_STEP = 0.1;
+
+/** Deepest level open on first render (0 = roots open, showing their direct reports) */
+const INITIAL_EXPANDED_DEPTH = 0;
+
+interface OrgChartProps {
+  people: OrgChartPerson[];
+}
+
+const getInitials = (name: string) =>
+  name
+    .split(' ')
+    .map((n) => n[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 2);
+
+const collectIds = (nodes: OrgChartNode[], maxDepth: number, depth = 0): string[] =>
+  nodes.flatMap((node) =>
+    node.children.length > 0 && depth <= maxDepth
+      ? [node.person.id, ...collectIds(node.children, maxDepth, depth + 1)]
+      : []
+  );
+
+interface OrgChartNodeViewProps {
+  node: OrgChartNode;
+  expanded: ReadonlySet<string>;
+  focusedId?: string;
+  colors: Map<string, DepartmentColor>;
+  onToggle: (id: string) => void;
+}
+
+function OrgChartNodeView({ node, expanded, focusedId, colors, onToggle }: OrgChartNodeViewProps) {
+  const { person, children, reportCount } = node;
+  const isExpanded = expanded.has(person.id);
+  const color = (person.department && colors.get(person.department)) || NO_DEPARTMENT_COLOR;
+
+  return (
+    <div className="flex flex-col items-center">
+      <div
+        id={`org-node-${person.id}`}
+        className={cn(
+          'w-56 rounded-lg border border-l-4 bg-card p-3 shadow-sm transition-shadow',
+          color.border,
+          focusedId === person.id && 'ring-2 ring-primary ring-offset-2 ring-offset-background'
+        )}
+      >
+        <Link
+          href={`/dashboard/profiles/${person.id}`}
+          className="flex items-center gap-3 rounded-md hover:opacity-80"
+        >
+          <Avatar className="h-10 w-10">
+            <AvatarImage src={person.avatar || undefined} alt={person.name} />
+            <AvatarFallback>{getInitials(person.name)}</AvatarFallback>
+          </Avatar>
+          <div className="min-w-0 text-left">
+            <p className="truncate text-sm font-medium">{person.name}</p>
+            <p className="truncate text-xs text-muted-foreground">{person.title || person.role}</p>
+          </div>
+        </Link>
+        <div className="mt-2 flex items-center justify-between gap-2">
+          <span className={cn('truncate rounded px-1.5 py-0.5 text-xs', color.badge)}>
+            {person.department || 'No department'}
+          </span>
+          {children.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => onToggle(person.id)}
+              aria-expanded={isExpanded}
+              aria-label={`${isExpanded ? 'Collapse' : 'Expand'} reports of ${person.name}`}
+            >
+              {reportCount}
+              {isExpanded ? <ChevronUp className="ml-1 h-3 w-3" /> : <ChevronDown className="ml-1 h-3 w-3" />}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isExpanded && children.length > 0 && (
+        <>
+          <div className="h-4 w-px bg-border" />
+          <ul className="flex">
+            {children.map((child) => (
+              <li
+                key={child.person.id}
+                className="relative flex flex-col items-center px-2 pt-4 before:absolute before:left-0 before:right-0 before:top-0 before:border-t before:border-border first:before:left-1/2 last:before:right-1/2 only:before:hidden after:absolute after:left-1/2 after:top-0 after:h-4 after:border-l after:border-border"
+              >
+                <OrgChartNodeView
+                  node={child}
+                  expanded={expanded}
+                  focusedId={focusedId}
+                  colors={colors}
+                  onToggle={onToggle}
+                />
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * OrgChart component renders the reporting tree with expand/collapse,
+ * zoom, search-to-focus and department coloring
+ */
+export function OrgChart({ people }: OrgChartProps) {
+  const roots = useMemo(() => buildOrgChart(people), [people]);
+  const colors = useMemo(() => getDepartmentColors(people), [people]);
+
+  const [expanded, setExpanded] = useState<Set<string>>(
+    () => new Set(collectIds(roots, INITIAL_EXPANDED_DEPTH))
+  );
+  const [zoom, setZoom] = useState(1);
+  const [query, setQuery] = useState('');
+  const [matchIndex, setMatchIndex] = useState(0);
+
+  const matches = useMemo(() => searchOrgChart(people, query), [people, query]);
+  const focusedId = matches[matchIndex]?.id;
+
+  // Bring the focused person into view once their branch has rendered
+  useEffect(() => {
+    if (!focusedId) return;
+    document
+      .getElementById(`org-node-${focusedId}`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'center' });
+  }, [focusedId, expanded]);
+
+  // Open every manager above a person so their card is rendered
+  const revealPerson = (personId?: string) => {
+    if (!personId) return;
+    const chain = getManagerChain(people, personId);
+    setExpanded((prev) => new Set([...prev, ...chain]));
+  };
+
+  const handleSearch = (value: string) => {
+    setQuery(value);
+    setMatchIndex(0);
+    revealPerson(searchOrgChart(people, value)[0]?.id);
+  };
+
+  const stepMatch = (direction: 1 | -1) => {
+    if (matches.length === 0) return;
+    const next = (matchIndex + direction + matches.length) % matches.length;
+    setMatchIndex(next);
+    revealPerson(matches[next].id);
+  };
+
+  const toggle = (id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const changeZoom = (delta: number) => {
+    setZoom((z) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round((z + delta) * 10) / 10)));
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-col gap-3 lg:flex-row lg:items-center lg:justify-between">
+        <div className="flex flex-1 items-center gap-2">
+          <div className="relative flex-1 lg:max-w-sm">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Find a person, title or department..."
+              value={query}
+              onChange={(e) => handleSearch(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  stepMatch(e.shiftKey ? -1 : 1);
+                }
+              }}
+              className="pl-10"
+              aria-label="Search org chart"
+            />
+          </div>
+          {query && (
+            <>
+              <span className="whitespace-nowrap text-sm text-muted-foreground">
+                {matches.length === 0 ? 'No matches' : `${matchIndex + 1} of ${matches.length}`}
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => stepMatch(-1)}
+                disabled={matches.length < 2}
+                aria-label="Previous match"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => stepMatch(1)}
+                disabled={matches.length < 2}
+                aria-label="Next match"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setExpanded(new Set(collectIds(roots, Infinity)))}>
+            Expand all
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setExpanded(new Set())}>
+            Collapse all
+          </Button>
+          <div className="flex items-center rounded-md border">
+            <Button variant="ghost" size="icon" onClick={() => changeZoom(-ZOOM_STEP)} disabled={zoom <= MIN_ZOOM} aria-label="Zoom out">
+              <Minus className="h-4 w-4" />
+            </Button>
+            <span className="w-12 text-center text-sm tabular-nums">{Math.round(zoom * 100)}%</span>
+            <Button variant="ghost" size="icon" onClick={() => changeZoom(ZOOM_STEP)} disabled={zoom >= MAX_ZOOM} aria-label="Zoom in">
+              <Plus className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => setZoom(1)} aria-label="Reset zoom">
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Department legend */}
+      {colors.size > 0 && (
+        <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm text-muted-foreground">
+          {Array.from(colors.entries()).map(([department, color]) => (
+            <span key={department} className="flex items-center gap-1.5">
+              <span className={cn('h-3 w-3 rounded-sm', color.swatch)} />
+              {department}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Tree */}
+      <div className="overflow-auto rounded-md border bg-muted/20 p-6">
+        <div
+          className="flex w-max min-w-full justify-center gap-8 transition-transform"
+          style={{ transform: `scale(${zoom})`, transformOrigin: 'top center' }}
+        >
+          {roots.map((root) => (
+            <OrgChartNodeView
+              key={root.person.id}
+              node={root}
+              expanded={expanded}
+              focusedId={focusedId}
+              colors={colors}
+              onToggle={toggle}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
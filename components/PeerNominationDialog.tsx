@@ -0,0 +1,104 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { trpc } from '@/lib/trpc/Provider';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+
+const MAX_PEERS = 5;
+
+interface PeerNominationDialogProps {
+  /** Cycle and participant whose peers are nominated */
+  nomination: { cycleId: string; userId: string; peerIds: string[] } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog for choosing up to five peers to review a participant
+ */
+export function PeerNominationDialog({ nomination, onOpenChange }: PeerNominationDialogProps) {
+  const utils = trpc.useUtils();
+  const [peerIds, setPeerIds] = useState<string[]>([]);
+
+  const { data: people } = trpc.user.getOrgChart.useQuery(undefined, {
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    enabled: !!nomination,
+  });
+
+  useEffect(() => {
+    setPeerIds(nomination?.peerIds ?? []);
+  }, [nomination]);
+
+  const nominateMutation = trpc.review.nominatePeers.useMutation({
+    onSuccess: () => {
+      toast.success('Peers nominated');
+      utils.review.list.invalidate();
+      if (nomination) utils.review.getById.invalidate({ id: nomination.cycleId });
+      onOpenChange(false);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const togglePeer = (peerId: string, checked: boolean) => {
+    setPeerIds((prev) => (checked ? [...prev, peerId] : prev.filter((id) => id !== peerId)));
+  };
+
+  return (
+    <Dialog open={!!nomination} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Nominate Peers</DialogTitle>
+          <DialogDescription>
+            Choose up to {MAX_PEERS} colleagues to write a peer review. They are notified once the
+            cycle is open.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-64 rounded-md border">
+          <div className="space-y-1 p-3">
+            {people
+              ?.filter((person) => person.id !== nomination?.userId)
+              .map((person) => {
+                const checked = peerIds.includes(person.id);
+                return (
+                  <label key={person.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={checked}
+                      disabled={!checked && peerIds.length >= MAX_PEERS}
+                      onCheckedChange={(value) => togglePeer(person.id, value === true)}
+                    />
+                    {person.name}
+                    {person.department && (
+                      <span className="text-xs text-muted-foreground">({person.department})</span>
+                    )}
+                  </label>
+                );
+              })}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={nominateMutation.isPending}
+            onClick={() => nomination && nominateMutation.mutate({ ...nomination, peerIds })}
+          >
+            {nominateMutation.isPending ? 'Saving...' : `Nominate ${peerIds.length} of ${MAX_PEERS}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { trpc } from '@/lib/trpc/Provider';
+import { requestFeedbackSchema } from '@/lib/validations/feedback';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+
+const MAX_RECIPIENTS = 10;
+
+interface RequestFeedbackDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentUserId: string;
+}
+
+/**
+ * Dialog for asking colleagues for feedback, optionally on a specific question
+ * Colleagues are notified in the app and by email
+ */
+export function RequestFeedbackDialog({ open, onOpenChange, currentUserId }: RequestFeedbackDialogProps) {
+  const utils = trpc.useUtils();
+  const [recipientIds, setRecipientIds] = useState<string[]>([]);
+  const [prompt, setPrompt] = useState('');
+  const [dueDate, setDueDate] = useState('');
+
+  const { data: people } = trpc.user.getOrgChart.useQuery(undefined, {
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setRecipientIds([]);
+      setPrompt('');
+      setDueDate('');
+    }
+  }, [open]);
+
+  const requestMutation = trpc.feedback.requestFeedback.useMutation({
+    onSuccess: (requests) => {
+      toast.success(
+        `Feedback requested from ${requests.length} colleague${requests.length === 1 ? '' : 's'}`
+      );
+      utils.feedback.getRequests.invalidate();
+      onOpenChange(false);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const toggleRecipient = (userId: string, checked: boolean) => {
+    setRecipientIds((prev) => (checked ? [...prev, userId] : prev.filter((id) => id !== userId)));
+  };
+
+  const handleSubmit = () => {
+    const parsed = requestFeedbackSchema.safeParse({
+      recipientIds,
+      prompt: prompt.trim() || undefined,
+      dueDate: dueDate || undefined,
+    });
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message ?? 'Invalid feedback request');
+      return;
+    }
+
+    requestMutation.mutate(parsed.data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request Feedback</DialogTitle>
+          <DialogDescription>
+            Ask up to {MAX_RECIPIENTS} colleagues for feedback. Their answers show up with the rest of
+            your feedback.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-56 rounded-md border">
+          <div className="space-y-1 p-3">
+            {people
+              ?.filter((person) => person.id !== currentUserId)
+              .map((person) => {
+                const checked = recipientIds.includes(person.id);
+                return (
+                  <label key={person.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={checked}
+                      disabled={!checked && recipientIds.length >= MAX_RECIPIENTS}
+                      onCheckedChange={(value) => toggleRecipient(person.id, value === true)}
+                    />
+                    {person.name}
+                    {person.department && (
+                      <span className="text-xs text-muted-foreground">({person.department})</span>
+                    )}
+                  </label>
+                );
+              })}
+          </div>
+        </ScrollArea>
+
+        <div className="space-y-2">
+          <Label htmlFor="feedback-request-prompt">Question (optional)</Label>
+          <Textarea
+            id="feedback-request-prompt"
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="e.g. How did my presentation at the all-hands land?"
+            maxLength={500}
+            rows={3}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="feedback-request-due">Due date (optional)</Label>
+          <Input
+            id="feedback-request-due"
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">Defaults to two weeks from today</p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={requestMutation.isPending || recipientIds.length === 0} onClick={handleSubmit}>
+            {requestMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              `Ask ${recipientIds.length} colleague${recipientIds.length === 1 ? '' : 's'}`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,262 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { trpc } from '@/lib/trpc/Provider';
+import { reviewCycleSchema, type ReviewQuestionInput } from '@/lib/validations/review';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+
+const MAX_QUESTIONS = 30;
+
+/**
+ * Questionnaire new cycles start from
+ */
+const DEFAULT_QUESTIONS: ReviewQuestionInput[] = [
+  { id: 'achievements', prompt: 'What were the most important things achieved this period?', type: 'TEXT' },
+  { id: 'growth', prompt: 'What should be done differently or improved next period?', type: 'TEXT' },
+  { id: 'overall', prompt: 'How would you rate overall performance this period?', type: 'RATING' },
+];
+
+interface ReviewCycleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Edit this draft cycle instead of creating a new one */
+  cycle?: {
+    id: string;
+    name: string;
+    deadline: Date | string;
+    questions: ReviewQuestionInput[];
+    participants: { userId: string }[];
+  } | null;
+}
+
+/**
+ * Dialog for setting up a draft review cycle: questionnaire, deadline and participants
+ */
+export function ReviewCycleDialog({ open, onOpenChange, cycle }: ReviewCycleDialogProps) {
+  const utils = trpc.useUtils();
+  const [name, setName] = useState('');
+  const [deadline, setDeadline] = useState('');
+  const [questions, setQuestions] = useState<ReviewQuestionInput[]>(DEFAULT_QUESTIONS);
+  const [participantIds, setParticipantIds] = useState<string[]>([]);
+
+  const { data: people } = trpc.user.getOrgChart.useQuery(undefined, {
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    enabled: open,
+  });
+
+  // Start from the cycle being edited, or a blank cycle
+  useEffect(() => {
+    if (!open) return;
+    setName(cycle?.name ?? '');
+    setDeadline(cycle ? format(new Date(cycle.deadline), 'yyyy-MM-dd') : '');
+    setQuestions(cycle?.questions.map((q) => ({ ...q })) ?? DEFAULT_QUESTIONS);
+    setParticipantIds(cycle?.participants.map((p) => p.userId) ?? []);
+  }, [open, cycle]);
+
+  const onSuccess = (message: string) => {
+    toast.success(message);
+    utils.review.list.invalidate();
+    if (cycle) utils.review.getById.invalidate({ id: cycle.id });
+    onOpenChange(false);
+  };
+
+  const createMutation = trpc.review.create.useMutation({
+    onSuccess: () => onSuccess('Review cycle created'),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const updateMutation = trpc.review.update.useMutation({
+    onSuccess: () => onSuccess('Review cycle updated'),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const updateQuestion = (index: number, changes: Partial<ReviewQuestionInput>) => {
+    setQuestions((prev) => prev.map((q, i) => (i === index ? { ...q, ...changes } : q)));
+  };
+
+  const toggleParticipant = (userId: string, checked: boolean) => {
+    setParticipantIds((prev) =>
+      checked ? [...prev, userId] : prev.filter((id) => id !== userId)
+    );
+  };
+
+  const handleSave = () => {
+    const parsed = reviewCycleSchema.safeParse({
+      name,
+      // End of the chosen day, so reviews are due by then
+      deadline: deadline ? new Date(`${deadline}T23:59:59`) : undefined,
+      questions,
+      participantIds,
+    });
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message ?? 'Invalid review cycle');
+      return;
+    }
+
+    if (cycle) {
+      updateMutation.mutate({ id: cycle.id, ...parsed.data });
+    } else {
+      createMutation.mutate(parsed.data);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{cycle ? 'Edit Review Cycle' : 'New Review Cycle'}</DialogTitle>
+          <DialogDescription>
+            Participants write a self-review, nominated peers a peer review and each
+            participant&apos;s manager a final review with a rating.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-[1fr_12rem]">
+            <div className="space-y-1">
+              <Label htmlFor="review-cycle-name">Name</Label>
+              <Input
+                id="review-cycle-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. H1 2026 Performance Review"
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="review-cycle-deadline">Deadline</Label>
+              <Input
+                id="review-cycle-deadline"
+                type="date"
+                value={deadline}
+                onChange={(e) => setDeadline(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Questionnaire</Label>
+            <ul className="space-y-2">
+              {questions.map((question, index) => (
+                <li key={question.id} className="flex items-center gap-2">
+                  <Input
+                    value={question.prompt}
+                    onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+                    placeholder="Question"
+                    maxLength={500}
+                    aria-label={`Question ${index + 1}`}
+                  />
+                  <Select
+                    value={question.type}
+                    onValueChange={(type) =>
+                      updateQuestion(index, { type: type as ReviewQuestionInput['type'] })
+                    }
+                  >
+                    <SelectTrigger className="w-32" aria-label={`Answer type of question ${index + 1}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="TEXT">Written</SelectItem>
+                      <SelectItem value="RATING">Rating 1-5</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setQuestions((prev) => prev.filter((_, i) => i !== index))}
+                    disabled={questions.length === 1}
+                    aria-label={`Remove question ${index + 1}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setQuestions((prev) => [
+                  ...prev,
+                  { id: crypto.randomUUID().slice(0, 8), prompt: '', type: 'TEXT' },
+                ])
+              }
+              disabled={questions.length >= MAX_QUESTIONS}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Question
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Participants ({participantIds.length})</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setParticipantIds(people?.map((p) => p.id) ?? [])}
+              >
+                Select everyone
+              </Button>
+            </div>
+            <ScrollArea className="h-48 rounded-md border">
+              <div className="space-y-1 p-3">
+                {people?.map((person) => (
+                  <label key={person.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={participantIds.includes(person.id)}
+                      onCheckedChange={(checked) => toggleParticipant(person.id, checked === true)}
+                    />
+                    {person.name}
+                    {person.department && (
+                      <span className="text-xs text-muted-foreground">({person.department})</span>
+                    )}
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isPending}>
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : cycle ? (
+              'Save Changes'
+            ) : (
+              'Create Draft'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,346 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { trpc } from '@/lib/trpc/Provider';
+import { ReviewCycleDialog } from '@/components/ReviewCycleDialog';
+import { ReviewFormDialog } from '@/components/ReviewFormDialog';
+import { PeerNominationDialog } from '@/components/PeerNominationDialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { BellRing, Pencil, Play, Scale, Lock, Trash2, Users } from 'lucide-react';
+import { formatReviewKind } from '@/lib/labels';
+import type { AppRouter } from '@/server';
+import type { inferRouterOutputs } from '@trpc/server';
+
+type RouterOutputs = inferRouterOutputs<AppRouter>;
+type ReviewCycle = RouterOutputs['review']['getById'];
+type Review = ReviewCycle['reviews'][number];
+
+const KINDS = ['SELF', 'PEER', 'MANAGER'] as const;
+
+const percent = ({ total, submitted }: { total: number; submitted: number }) =>
+  total === 0 ? 0 : Math.round((submitted / total) * 100);
+
+interface ReviewCycleProgressProps {
+  cycleId: string;
+}
+
+/**
+ * Manager dashboard for one review cycle: progress per kind of review and per
+ * participant, reading submitted reviews, calibration and moving the cycle on
+ */
+export function ReviewCycleProgress({ cycleId }: ReviewCycleProgressProps) {
+  const utils = trpc.useUtils();
+  const [editing, setEditing] = useState(false);
+  const [confirmClose, setConfirmClose] = useState(false);
+  const [reading, setReading] = useState<Review | null>(null);
+  const [nomination, setNomination] = useState<{
+    cycleId: string;
+    userId: string;
+    peerIds: string[];
+  } | null>(null);
+
+  const { data: cycle, isLoading } = trpc.review.getById.useQuery(
+    { id: cycleId },
+    { staleTime: 60 * 1000 } // 1 minute - reviews come in while the cycle is open
+  );
+  const { data: people } = trpc.user.getOrgChart.useQuery(undefined, {
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const nameOf = useMemo(() => {
+    const names = new Map(people?.map((p) => [p.id, p.name]));
+    return (userId: string) => names.get(userId) ?? 'Former employee';
+  }, [people]);
+
+  const refresh = () => {
+    utils.review.getById.invalidate({ id: cycleId });
+    utils.review.list.invalidate();
+  };
+  const mutationOptions = (message: string) => ({
+    onSuccess: () => {
+      toast.success(message);
+      refresh();
+    },
+    onError: (error: { message: string }) => toast.error(error.message),
+  });
+
+  const openMutation = trpc.review.open.useMutation(
+    mutationOptions('Review cycle opened - reviewers have been notified')
+  );
+  const remindMutation = trpc.review.sendReminders.useMutation({
+    onSuccess: ({ reminded }) =>
+      toast.success(
+        reminded === 0 ? 'Everyone is done' : `Reminded ${reminded} reviewer${reminded === 1 ? '' : 's'}`
+      ),
+    onError: (error) => toast.error(error.message),
+  });
+  const calibrationMutation = trpc.review.startCalibration.useMutation(
+    mutationOptions('Calibration started')
+  );
+  const calibrateMutation = trpc.review.calibrate.useMutation(mutationOptions('Rating calibrated'));
+  const closeMutation = trpc.review.close.useMutation(
+    mutationOptions('Review cycle closed - ratings written to profiles')
+  );
+  const deleteMutation = trpc.review.delete.useMutation(mutationOptions('Review cycle deleted'));
+
+  if (isLoading || !cycle) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-32 w-full" />
+      </div>
+    );
+  }
+
+  const canNominate = cycle.status === 'DRAFT' || cycle.status === 'OPEN';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className={cycle.isOverdue ? 'text-sm text-destructive' : 'text-sm text-muted-foreground'}>
+          Due {format(new Date(cycle.deadline), 'MMM d, yyyy')}
+          {cycle.isOverdue && ' - overdue'}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {cycle.status === 'DRAFT' && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => setEditing(true)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate({ id: cycle.id })}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </Button>
+              <Button
+                size="sm"
+                disabled={openMutation.isPending}
+                onClick={() => openMutation.mutate({ id: cycle.id })}
+              >
+                <Play className="mr-2 h-4 w-4" />
+                Open Cycle
+              </Button>
+            </>
+          )}
+          {cycle.status === 'OPEN' && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={remindMutation.isPending}
+                onClick={() => remindMutation.mutate({ id: cycle.id })}
+              >
+                <BellRing className="mr-2 h-4 w-4" />
+                Send Reminders
+              </Button>
+              <Button
+                size="sm"
+                disabled={calibrationMutation.isPending}
+                onClick={() => calibrationMutation.mutate({ id: cycle.id })}
+              >
+                <Scale className="mr-2 h-4 w-4" />
+                Start Calibration
+              </Button>
+            </>
+          )}
+          {cycle.status === 'CALIBRATION' && (
+            <Button size="sm" onClick={() => setConfirmClose(true)}>
+              <Lock className="mr-2 h-4 w-4" />
+              Close Cycle
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {cycle.status !== 'DRAFT' && (
+        <div className="grid gap-4 sm:grid-cols-4">
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Overall</p>
+            <Progress value={percent(cycle.progress.overall)} className="h-2" />
+            <p className="text-xs text-muted-foreground">
+              {cycle.progress.overall.submitted} of {cycle.progress.overall.total} submitted
+            </p>
+          </div>
+          {KINDS.map((kind) => (
+            <div key={kind} className="space-y-1">
+              <p className="text-sm font-medium">{formatReviewKind(kind)}s</p>
+              <Progress value={percent(cycle.progress.byKind[kind])} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                {cycle.progress.byKind[kind].submitted} of {cycle.progress.byKind[kind].total}{' '}
+                submitted
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Participant</TableHead>
+            <TableHead>Manager</TableHead>
+            <TableHead>Peers</TableHead>
+            {cycle.status !== 'DRAFT' && <TableHead>Reviews</TableHead>}
+            {cycle.status !== 'DRAFT' && <TableHead>Rating</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {cycle.participants.map((participant) => {
+            const reviews = cycle.reviews.filter((r) => r.revieweeId === participant.userId);
+            return (
+              <TableRow key={participant.userId}>
+                <TableCell className="font-medium">{nameOf(participant.userId)}</TableCell>
+                <TableCell>{nameOf(participant.managerId)}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground">
+                      {participant.peerIds.length === 0
+                        ? 'None'
+                        : participant.peerIds.map(nameOf).join(', ')}
+                    </span>
+                    {canNominate && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        aria-label={`Nominate peers for ${nameOf(participant.userId)}`}
+                        onClick={() =>
+                          setNomination({
+                            cycleId: cycle.id,
+                            userId: participant.userId,
+                            peerIds: participant.peerIds,
+                          })
+                        }
+                      >
+                        <Users className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+                {cycle.status !== 'DRAFT' && (
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {reviews.map((review) => (
+                        <Badge
+                          key={review.id}
+                          variant={review.submittedAt ? 'default' : 'outline'}
+                          className={review.submittedAt ? 'cursor-pointer' : undefined}
+                          title={`${formatReviewKind(review.kind)} by ${nameOf(review.reviewerId)}`}
+                          onClick={() => review.submittedAt && setReading(review)}
+                        >
+                          {formatReviewKind(review.kind)}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                )}
+                {cycle.status !== 'DRAFT' && (
+                  <TableCell>
+                    {cycle.status === 'CALIBRATION' ? (
+                      <Select
+                        value={String(participant.finalRating ?? '')}
+                        onValueChange={(value) =>
+                          calibrateMutation.mutate({
+                            cycleId: cycle.id,
+                            userId: participant.userId,
+                            rating: Number(value),
+                          })
+                        }
+                      >
+                        <SelectTrigger
+                          className="w-24"
+                          aria-label={`Calibrated rating for ${nameOf(participant.userId)}`}
+                        >
+                          <SelectValue placeholder="-" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {[1, 2, 3, 4, 5].map((rating) => (
+                            <SelectItem key={rating} value={String(rating)}>
+                              {rating} / 5
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span className="text-sm">
+                        {participant.finalRating !== undefined ? `${participant.finalRating} / 5` : '-'}
+                      </span>
+                    )}
+                    {participant.calibratedRating !== undefined &&
+                      participant.proposedRating !== undefined &&
+                      participant.calibratedRating !== participant.proposedRating && (
+                        <p className="text-xs text-muted-foreground">
+                          Proposed {participant.proposedRating} / 5
+                        </p>
+                      )}
+                  </TableCell>
+                )}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      <ReviewCycleDialog open={editing} onOpenChange={setEditing} cycle={cycle} />
+
+      <ReviewFormDialog
+        cycle={reading ? cycle : null}
+        review={reading}
+        revieweeName={reading ? nameOf(reading.revieweeId) : ''}
+        onOpenChange={(open) => !open && setReading(null)}
+      />
+
+      <PeerNominationDialog
+        nomination={nomination}
+        onOpenChange={(open) => !open && setNomination(null)}
+      />
+
+      <AlertDialog open={confirmClose} onOpenChange={setConfirmClose}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Close {cycle.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Final ratings are written to each participant&apos;s performance rating and
+              participants can read their manager review. Ratings cannot be calibrated afterwards.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => closeMutation.mutate({ id: cycle.id })}>
+              Close Cycle
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { trpc } from '@/lib/trpc/Provider';
+import { submitReviewSchema, type ReviewKind, type ReviewQuestionInput } from '@/lib/validations/review';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+interface ReviewAnswer {
+  questionId: string;
+  text?: string;
+  rating?: number;
+}
+
+interface ReviewFormDialogProps {
+  cycle: { id: string; name: string; questions: ReviewQuestionInput[] } | null;
+  review: {
+    id: string;
+    kind: ReviewKind;
+    answers: ReviewAnswer[];
+    rating?: number;
+    submittedAt?: Date | string;
+  } | null;
+  revieweeName: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+function RatingPicker({
+  value,
+  onChange,
+  label,
+}: {
+  value?: number;
+  onChange?: (rating: number) => void;
+  label: string;
+}) {
+  return (
+    <div className="flex gap-1" role="radiogroup" aria-label={label}>
+      {RATINGS.map((rating) => (
+        <button
+          key={rating}
+          type="button"
+          role="radio"
+          aria-checked={value === rating}
+          aria-label={`${rating} of 5`}
+          disabled={!onChange}
+          onClick={() => onChange?.(rating)}
+          className="disabled:cursor-default"
+        >
+          <Star
+            className={cn(
+              'h-5 w-5',
+              value !== undefined && rating <= value
+                ? 'fill-amber-400 text-amber-400'
+                : 'text-muted-foreground'
+            )}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Dialog for writing one review of a cycle, or reading it back once submitted
+ * Manager reviews also propose the participant's overall rating
+ */
+export function ReviewFormDialog({ cycle, review, revieweeName, onOpenChange }: ReviewFormDialogProps) {
+  const utils = trpc.useUtils();
+  const [answers, setAnswers] = useState<Record<string, ReviewAnswer>>({});
+  const [rating, setRating] = useState<number | undefined>();
+
+  const isReadOnly = !!review?.submittedAt;
+  const isManagerReview = review?.kind === 'MANAGER';
+
+  useEffect(() => {
+    setAnswers(Object.fromEntries((review?.answers ?? []).map((a) => [a.questionId, a])));
+    setRating(review?.rating);
+  }, [review]);
+
+  const submitMutation = trpc.review.submit.useMutation({
+    onSuccess: () => {
+      toast.success('Review submitted');
+      utils.review.list.invalidate();
+      if (cycle) utils.review.getById.invalidate({ id: cycle.id });
+      onOpenChange(false);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const setAnswer = (questionId: string, changes: Partial<ReviewAnswer>) => {
+    setAnswers((prev) => ({ ...prev, [questionId]: { ...prev[questionId], questionId, ...changes } }));
+  };
+
+  const handleSubmit = () => {
+    if (!cycle || !review) return;
+
+    const parsed = submitReviewSchema.safeParse({
+      cycleId: cycle.id,
+      reviewId: review.id,
+      answers: Object.values(answers),
+      rating: isManagerReview ? rating : undefined,
+    });
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message ?? 'Invalid review');
+      return;
+    }
+
+    submitMutation.mutate(parsed.data);
+  };
+
+  const title =
+    review?.kind === 'SELF'
+      ? 'Self-Review'
+      : review?.kind === 'PEER'
+        ? `Peer Review for ${revieweeName}`
+        : `Manager Review for ${revieweeName}`;
+
+  return (
+    <Dialog open={!!cycle && !!review} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {cycle?.name}
+            {isReadOnly ? ' - submitted' : ' - every question needs an answer'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] space-y-5 overflow-y-auto pr-1">
+          {cycle?.questions.map((question, index) => (
+            <div key={question.id} className="space-y-2">
+              <Label htmlFor={`review-answer-${question.id}`}>
+                {index + 1}. {question.prompt}
+              </Label>
+              {question.type === 'RATING' ? (
+                <RatingPicker
+                  label={question.prompt}
+                  value={answers[question.id]?.rating}
+                  onChange={
+                    isReadOnly ? undefined : (value) => setAnswer(question.id, { rating: value })
+                  }
+                />
+              ) : (
+                <Textarea
+                  id={`review-answer-${question.id}`}
+                  value={answers[question.id]?.text ?? ''}
+                  onChange={(e) => setAnswer(question.id, { text: e.target.value })}
+                  readOnly={isReadOnly}
+                  maxLength={5000}
+                  rows={4}
+                />
+              )}
+            </div>
+          ))}
+
+          {isManagerReview && (
+            <div className="space-y-2 rounded-md border p-3">
+              <Label>Overall rating</Label>
+              <RatingPicker
+                label="Overall rating"
+                value={rating}
+                onChange={isReadOnly ? undefined : setRating}
+              />
+              <p className="text-xs text-muted-foreground">
+                Proposed rating - it can still be adjusted during calibration.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {isReadOnly ? 'Close' : 'Cancel'}
+          </Button>
+          {!isReadOnly && (
+            <Button onClick={handleSubmit} disabled={submitMutation.isPending}>
+              {submitMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Submitting...
+                </>
+              ) : (
+                'Submit Review'
+              )}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
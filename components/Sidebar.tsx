@@ -7,6 +7,7 @@ import {
   Users,
   MessageSquare,
   CalendarDays,
+  ClipboardList,
   LayoutDashboard,
   LogOut,
   Keyboard,
@@ -49,6 +50,13 @@ const navigation = [
     shortcut: ['G', 'A'],
     description: 'Time off requests',
   },
+  {
+    name: 'Reviews',
+    href: '/dashboard/reviews',
+    icon: ClipboardList,
+    shortcut: ['G', 'R'],
+    description: 'Performance reviews',
+  },
   {
     name: 'Settings',
     href: '/dashboard/settings',
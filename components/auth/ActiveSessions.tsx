@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { trpc } from '@/lib/trpc/Provider';
+import { formatUserAgent } from '@/lib/labels';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { LogOut, Monitor } from 'lucide-react';
+
+/**
+ * Devices the current user is logged in on, with sign out for any but this one
+ */
+export function ActiveSessions() {
+  const [confirmRevokeAll, setConfirmRevokeAll] = useState(false);
+  const utils = trpc.useUtils();
+
+  const { data: sessions, isLoading } = trpc.auth.getSessions.useQuery(undefined, {
+    staleTime: 1 * 60 * 1000, // 1 minute - security status should be relatively fresh
+  });
+
+  const revokeMutation = trpc.auth.revokeSession.useMutation({
+    onSuccess: () => {
+      toast.success('Session signed out');
+      utils.auth.getSessions.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const revokeOthersMutation = trpc.auth.revokeOtherSessions.useMutation({
+    onSuccess: ({ count }) => {
+      toast.success(`Signed out of ${count} other session${count === 1 ? '' : 's'}`);
+      setConfirmRevokeAll(false);
+      utils.auth.getSessions.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const otherSessions = sessions?.filter((session) => !session.isCurrent) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Monitor className="h-5 w-5" />
+          Active Sessions
+        </CardTitle>
+        <CardDescription>
+          Devices where you are logged in. Sign out of any you do not recognize.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !sessions ? (
+          <Skeleton className="h-32 w-full" />
+        ) : (
+          <>
+            <div className="divide-y rounded-lg border">
+              {sessions.map((session) => (
+                <div key={session.id} className="flex items-center justify-between gap-4 p-4">
+                  <div className="min-w-0">
+                    <p className="flex items-center gap-2 font-medium">
+                      {formatUserAgent(session.userAgent)}
+                      {session.isCurrent && <Badge variant="secondary">This device</Badge>}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {session.ipAddress ?? 'Unknown location'} - active{' '}
+                      {formatDistanceToNow(new Date(session.lastActiveAt), { addSuffix: true })}
+                      , signed in{' '}
+                      {formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {!session.isCurrent && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={revokeMutation.isPending}
+                      onClick={() => revokeMutation.mutate({ id: session.id })}
+                    >
+                      Sign out
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <Button
+              variant="destructive"
+              disabled={otherSessions.length === 0}
+              onClick={() => setConfirmRevokeAll(true)}
+            >
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign out all other sessions
+            </Button>
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmRevokeAll} onOpenChange={setConfirmRevokeAll}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign out all other sessions?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You will stay logged in on this device. Everywhere else you will need to log in again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={revokeOthersMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                revokeOthersMutation.mutate();
+              }}
+            >
+              Sign out
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
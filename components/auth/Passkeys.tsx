@@ -0,0 +1,197 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { browserSupportsWebAuthn, startRegistration } from '@simplewebauthn/browser';
+import { trpc } from '@/lib/trpc/Provider';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { AlertCircle, Fingerprint } from 'lucide-react';
+
+/**
+ * Passkeys the current user registered for passwordless login and in place of an
+ * authenticator code, with adding and revoking
+ */
+export function Passkeys() {
+  const [name, setName] = useState('');
+  const [isSupported, setIsSupported] = useState(true);
+  const [isRegistering, setIsRegistering] = useState(false);
+  const [passkeyToRevoke, setPasskeyToRevoke] = useState<{ id: string; name: string } | null>(
+    null
+  );
+  const utils = trpc.useUtils();
+
+  // WebAuthn is only known in the browser, so check after hydration
+  useEffect(() => {
+    setIsSupported(browserSupportsWebAuthn());
+  }, []);
+
+  const { data: passkeys, isLoading } = trpc.twoFactor.passkeys.list.useQuery(undefined, {
+    staleTime: 1 * 60 * 1000, // 1 minute - security status should be relatively fresh
+  });
+
+  const { data: policy } = trpc.twoFactor.passkeys.getPolicy.useQuery(undefined, {
+    staleTime: 10 * 60 * 1000, // 10 minutes - rarely changed
+  });
+
+  const registrationOptionsMutation = trpc.twoFactor.passkeys.getRegistrationOptions.useMutation();
+  const registerMutation = trpc.twoFactor.passkeys.register.useMutation();
+
+  const revokeMutation = trpc.twoFactor.passkeys.revoke.useMutation({
+    onSuccess: () => {
+      toast.success('Passkey removed');
+      setPasskeyToRevoke(null);
+      utils.twoFactor.passkeys.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const handleAdd = async () => {
+    setIsRegistering(true);
+    try {
+      const optionsJSON = await registrationOptionsMutation.mutateAsync();
+      const response = await startRegistration({ optionsJSON });
+      await registerMutation.mutateAsync({ name, response });
+
+      toast.success('Passkey added');
+      setName('');
+      utils.twoFactor.passkeys.list.invalidate();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not add the passkey');
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Fingerprint className="h-5 w-5" />
+          Passkeys
+        </CardTitle>
+        <CardDescription>
+          Sign in with your fingerprint, face or device PIN instead of a password, or use a
+          passkey in place of your authenticator code. Passkeys cannot be phished.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {policy?.appliesToCurrentUser && !policy.signedInWithPasskey && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Your organization requires managers to sign in with a passkey. Add one below, then
+              sign out and sign in with it to use manager features.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!isSupported && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>This browser does not support passkeys.</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading || !passkeys ? (
+          <Skeleton className="h-24 w-full" />
+        ) : passkeys.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No passkeys yet.</p>
+        ) : (
+          <div className="divide-y rounded-lg border">
+            {passkeys.map((passkey) => (
+              <div key={passkey.id} className="flex items-center justify-between gap-4 p-4">
+                <div className="min-w-0">
+                  <p className="flex items-center gap-2 font-medium">
+                    {passkey.name}
+                    {passkey.backedUp && <Badge variant="secondary">Synced</Badge>}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Added {format(new Date(passkey.createdAt), 'MMM d, yyyy')} -{' '}
+                    {passkey.lastUsedAt
+                      ? `last used ${formatDistanceToNow(new Date(passkey.lastUsedAt), {
+                          addSuffix: true,
+                        })}`
+                      : 'never used'}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPasskeyToRevoke({ id: passkey.id, name: passkey.name })}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="passkey-name">New passkey name</Label>
+          <div className="flex gap-2">
+            <Input
+              id="passkey-name"
+              value={name}
+              maxLength={64}
+              placeholder="e.g. Work laptop"
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Button
+              onClick={handleAdd}
+              disabled={!isSupported || !name.trim() || isRegistering}
+            >
+              {isRegistering ? 'Adding...' : 'Add passkey'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+
+      <AlertDialog
+        open={passkeyToRevoke !== null}
+        onOpenChange={(open) => !open && setPasskeyToRevoke(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove &quot;{passkeyToRevoke?.name}&quot;?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This passkey will no longer sign you in. Remove it from the device as well.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={revokeMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                if (passkeyToRevoke) {
+                  revokeMutation.mutate({ id: passkeyToRevoke.id });
+                }
+              }}
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { trpc } from '@/lib/trpc/Provider';
+import { formatUserAgent } from '@/lib/labels';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Laptop } from 'lucide-react';
+
+/**
+ * Devices the current user trusted to skip two-factor authentication, with revoke
+ * for one device or all of them
+ */
+export function TrustedDevices() {
+  const [confirmRevokeAll, setConfirmRevokeAll] = useState(false);
+  const utils = trpc.useUtils();
+
+  const { data: devices, isLoading } = trpc.twoFactor.devices.list.useQuery(undefined, {
+    staleTime: 1 * 60 * 1000, // 1 minute - security status should be relatively fresh
+  });
+
+  const revokeMutation = trpc.twoFactor.devices.revoke.useMutation({
+    onSuccess: () => {
+      toast.success('Device is no longer trusted');
+      utils.twoFactor.devices.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const revokeAllMutation = trpc.twoFactor.devices.revokeAll.useMutation({
+    onSuccess: ({ count }) => {
+      toast.success(`Stopped trusting ${count} device${count === 1 ? '' : 's'}`);
+      setConfirmRevokeAll(false);
+      utils.twoFactor.devices.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Laptop className="h-5 w-5" />
+          Trusted Devices
+        </CardTitle>
+        <CardDescription>
+          Devices that skip the two-factor code when you log in. Each stays trusted for 30 days.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !devices ? (
+          <Skeleton className="h-24 w-full" />
+        ) : devices.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No trusted devices. Choose &quot;Trust this device for 30 days&quot; when entering a
+            two-factor code to skip it next time.
+          </p>
+        ) : (
+          <>
+            <div className="divide-y rounded-lg border">
+              {devices.map((device) => (
+                <div key={device.id} className="flex items-center justify-between gap-4 p-4">
+                  <div className="min-w-0">
+                    <p className="flex items-center gap-2 font-medium">
+                      {formatUserAgent(device.deviceName)}
+                      {device.isCurrent && <Badge variant="secondary">This device</Badge>}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Trusted {format(new Date(device.createdAt), 'MMM d, yyyy')} - until{' '}
+                      {format(new Date(device.expiresAt), 'MMM d, yyyy')}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={revokeMutation.isPending}
+                    onClick={() => revokeMutation.mutate({ id: device.id })}
+                  >
+                    Revoke
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <Button variant="destructive" onClick={() => setConfirmRevokeAll(true)}>
+              Revoke all devices
+            </Button>
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmRevokeAll} onOpenChange={setConfirmRevokeAll}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke all trusted devices?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every device, including this one, will be asked for a two-factor code at its next
+              login.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={revokeAllMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                revokeAllMutation.mutate();
+              }}
+            >
+              Revoke all
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
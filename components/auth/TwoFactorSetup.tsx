@@ -47,6 +47,7 @@ export function TwoFactorSetup({ onComplete, onCancel }: TwoFactorSetupProps) {
       setStep('backup');
       setError('');
       utils.twoFactor.status.invalidate();
+      utils.auth.getSessions.invalidate();
     },
     onError: (error) => {
       setError(error.message);
@@ -7,11 +7,12 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Checkbox } from '@/components/ui/checkbox';
-import { AlertCircle, Shield } from 'lucide-react';
+import { AlertCircle, Fingerprint, Shield } from 'lucide-react';
 
 interface TwoFactorVerifyProps {
   email: string;
   onVerify: (code: string, isBackupCode: boolean, trustDevice: boolean) => void;
+  onUsePasskey?: (trustDevice: boolean) => void; // Offered when the account has a passkey
   onCancel?: () => void;
   isLoading?: boolean;
   error?: string;
@@ -20,6 +21,7 @@ interface TwoFactorVerifyProps {
 export function TwoFactorVerify({
   email,
   onVerify,
+  onUsePasskey,
   onCancel,
   isLoading = false,
   error,
@@ -152,6 +154,19 @@ export function TwoFactorVerify({
                 : 'Use backup code instead'}
             </Button>
 
+            {onUsePasskey && (
+              <Button
+                type="button"
+                variant="outline"
+                disabled={isLoading}
+                onClick={() => onUsePasskey(trustDevice)}
+                className="w-full"
+              >
+                <Fingerprint className="h-4 w-4 mr-2" />
+                Use a passkey instead
+              </Button>
+            )}
+
             {onCancel && (
               <Button
                 type="button"
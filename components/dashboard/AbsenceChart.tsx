@@ -14,7 +14,8 @@ const STATUS_COLORS = {
 
 /**
  * AbsenceChart component displays absence request breakdown
- * Shows pending, approved, and rejected requests in a bar chart
+ * Shows pending, approved, and rejected requests in a bar chart,
+ * followed by approved days per absence type
  */
 export function AbsenceChart() {
   const { data: stats, isLoading, error } = trpc.dashboard.getAbsenceStats.useQuery(undefined, {
@@ -187,6 +188,31 @@ export function AbsenceChart() {
             </div>
           </div>
         </div>
+
+        {/* Breakdown by absence type */}
+        {stats.byType.length > 0 && (
+          <div className="mt-4 pt-4 border-t space-y-2">
+            <p className="text-xs font-medium text-muted-foreground">By type</p>
+            {stats.byType.map((entry) => (
+              <div
+                key={entry.absenceType?.id ?? 'untyped'}
+                className="flex items-center justify-between text-sm"
+              >
+                <div className="flex items-center gap-2">
+                  <div
+                    className="h-3 w-3 rounded-full"
+                    style={{ backgroundColor: entry.absenceType?.color ?? '#9ca3af' }}
+                  />
+                  <span className="text-foreground">{entry.absenceType?.name ?? 'Unspecified'}</span>
+                </div>
+                <span className="text-muted-foreground">
+                  {entry.requests} {entry.requests === 1 ? 'request' : 'requests'} ·{' '}
+                  {Math.round(entry.approvedDays * 100) / 100} {entry.approvedDays === 1 ? 'day' : 'days'} approved
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
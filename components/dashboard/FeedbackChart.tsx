@@ -4,22 +4,53 @@ import { trpc } from '@/lib/trpc/Provider';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip, PieLabelRenderProps } from 'recharts';
-import { Sparkles } from 'lucide-react';
+import { Sparkles, Star, TrendingDown, TrendingUp } from 'lucide-react';
+import { formatFeedbackType } from '@/lib/labels';
 
 const COLORS = {
   polished: '#3b82f6', // blue
   unpolished: '#94a3b8', // gray
 };
 
+const TYPE_COLORS: Record<string, string> = {
+  PRAISE: 'bg-green-500',
+  CONSTRUCTIVE: 'bg-amber-500',
+  REQUEST: 'bg-blue-500',
+};
+
+interface FeedbackChartProps {
+  /** Whose received feedback to chart; the current user's when omitted */
+  userId?: string;
+}
+
 /**
  * FeedbackChart component displays feedback breakdown
- * Shows polished vs unpolished feedback in a pie chart
+ * Shows polished vs unpolished feedback in a pie chart, the mix of feedback
+ * types, and the average rating per competency with strengths and areas to improve
  */
-export function FeedbackChart() {
-  const { data: stats, isLoading, error } = trpc.dashboard.getFeedbackStats.useQuery(undefined, {
+export function FeedbackChart({ userId }: FeedbackChartProps = {}) {
+  const cacheOptions = {
     staleTime: 5 * 60 * 1000, // 5 minutes - stats change infrequently
     refetchOnWindowFocus: false,
+  };
+  const ownQuery = trpc.dashboard.getFeedbackStats.useQuery(undefined, {
+    ...cacheOptions,
+    enabled: !userId,
   });
+  const userQuery = trpc.feedback.getStats.useQuery(
+    { userId: userId! },
+    { ...cacheOptions, enabled: !!userId }
+  );
+
+  const { isLoading, error } = userId ? userQuery : ownQuery;
+  const stats = userId
+    ? userQuery.data && {
+        ...userQuery.data,
+        polished: userQuery.data.polishedCount,
+        unpolished: userQuery.data.totalReceived - userQuery.data.polishedCount,
+        total: userQuery.data.totalReceived,
+      }
+    : ownQuery.data;
 
   if (isLoading) {
     return (
@@ -189,6 +220,81 @@ export function FeedbackChart() {
             </div>
           </div>
         </div>
+
+        {/* Feedback types */}
+        <div className="mt-4 pt-4 border-t space-y-2">
+          <p className="text-sm font-medium">By type</p>
+          <div className="flex h-2 overflow-hidden rounded-full bg-muted">
+            {Object.entries(stats.byType).map(([type, count]) =>
+              count > 0 ? (
+                <div
+                  key={type}
+                  className={TYPE_COLORS[type]}
+                  style={{ width: `${(count / stats.total) * 100}%` }}
+                />
+              ) : null
+            )}
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {Object.entries(stats.byType).map(([type, count]) => (
+              <div key={type} className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <div className={`h-2 w-2 rounded-full ${TYPE_COLORS[type]}`} />
+                {formatFeedbackType(type)} ({count})
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Competencies */}
+        {stats.competencies.length > 0 && (
+          <div className="mt-4 pt-4 border-t space-y-3">
+            <p className="text-sm font-medium">Competencies</p>
+            <ul className="space-y-2">
+              {stats.competencies.map((competency) => {
+                const isStrength = stats.strengths.includes(competency.competency);
+                const needsWork = stats.areasToImprove.includes(competency.competency);
+                return (
+                  <li key={competency.competency} className="space-y-1">
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="flex items-center gap-1 font-medium">
+                        {competency.name}
+                        {isStrength && (
+                          <TrendingUp className="h-3 w-3 text-green-600" aria-label="Strength" />
+                        )}
+                        {needsWork && (
+                          <TrendingDown className="h-3 w-3 text-amber-600" aria-label="Area to improve" />
+                        )}
+                      </span>
+                      <span className="flex items-center gap-1 text-muted-foreground">
+                        {competency.averageRating !== undefined ? (
+                          <>
+                            <Star className="h-3 w-3 fill-amber-400 text-amber-400" />
+                            {competency.averageRating.toFixed(1)} · {competency.ratings}{' '}
+                            {competency.ratings === 1 ? 'rating' : 'ratings'}
+                          </>
+                        ) : (
+                          <>
+                            {competency.mentions} {competency.mentions === 1 ? 'mention' : 'mentions'}
+                          </>
+                        )}
+                      </span>
+                    </div>
+                    {competency.averageRating !== undefined && (
+                      <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+                        <div
+                          className={`h-full ${
+                            isStrength ? 'bg-green-500' : needsWork ? 'bg-amber-500' : 'bg-primary'
+                          }`}
+                          style={{ width: `${(competency.averageRating / 5) * 100}%` }}
+                        />
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
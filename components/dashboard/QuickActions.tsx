@@ -1,7 +1,9 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import Link from 'next/link';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
 import { trpc } from '@/lib/trpc/Provider';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -15,9 +17,11 @@ import {
 } from '@/components/ui/dialog';
 import { FeedbackForm } from '@/components/FeedbackForm';
 import { AbsenceRequestDialog } from '@/components/AbsenceRequestDialog';
+import { RequestFeedbackDialog } from '@/components/RequestFeedbackDialog';
 import {
   Users,
   MessageSquare,
+  MessageSquareMore,
   CalendarDays,
   User,
   Clock,
@@ -49,26 +53,55 @@ export function QuickActions({ user }: QuickActionsProps) {
     id: string;
     name: string;
   } | null>(null);
+  const [answering, setAnswering] = useState<{ id: string; prompt?: string } | null>(null);
+  const [requestDialogOpen, setRequestDialogOpen] = useState(false);
   const absenceDialogTriggerRef = useRef<HTMLButtonElement>(null);
 
   // Check if user is a manager
   const isManager = Permissions.absence.viewAll({ id: user.id, role: user.role, email: user.email });
 
-  // Fetch pending absences count for managers
-  const { data: pendingCount } = trpc.absence.getAll.useQuery(
-    {},
-    {
-      enabled: isManager,
-      select: (data: RouterOutputs['absence']['getAll']) =>
-        data.absences.filter((absence: any) => absence.status === 'PENDING').length,
-    }
-  );
+  // Fetch the number of requests waiting on the manager's approval step
+  const { data: pendingCount } = trpc.absence.getApprovalQueue.useQuery(undefined, {
+    enabled: isManager,
+    select: (data: RouterOutputs['absence']['getApprovalQueue']) => data.length,
+  });
+
+  // Feedback colleagues have asked the user for, still waiting for an answer
+  const utils = trpc.useUtils();
+  const { data: feedbackRequests } = trpc.feedback.getRequests.useQuery(undefined, {
+    staleTime: 60 * 1000, // 1 minute
+  });
+  const pendingRequests = feedbackRequests?.received.filter((r) => r.status === 'PENDING') ?? [];
+
+  const { data: people } = trpc.user.getOrgChart.useQuery(undefined, {
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    enabled: pendingRequests.length > 0,
+  });
+  const nameOf = useMemo(() => {
+    const names = new Map(people?.map((p) => [p.id, p.name]));
+    return (userId: string) => names.get(userId) ?? 'A colleague';
+  }, [people]);
+
+  const declineMutation = trpc.feedback.declineRequest.useMutation({
+    onSuccess: () => {
+      toast.success('Feedback request declined');
+      utils.feedback.getRequests.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
 
   // Handle feedback button click - open dialog to show user selector
   const handleGiveFeedback = () => {
     setFeedbackDialogOpen(true);
   };
 
+  // Answer a feedback request - the requester receives the feedback
+  const handleAnswerRequest = (request: { id: string; requesterId: string; prompt?: string }) => {
+    setSelectedReceiver({ id: request.requesterId, name: nameOf(request.requesterId) });
+    setAnswering({ id: request.id, prompt: request.prompt });
+    setFeedbackDialogOpen(true);
+  };
+
   // Handle user selection from the list
   const handleUserSelect = (userId: string, userName: string) => {
     setSelectedReceiver({ id: userId, name: userName });
@@ -78,12 +111,26 @@ export function QuickActions({ user }: QuickActionsProps) {
   const handleFeedbackSuccess = () => {
     setFeedbackDialogOpen(false);
     setSelectedReceiver(null);
+    setAnswering(null);
   };
 
   const handleFeedbackCancel = () => {
+    // Cancelling an answer closes the dialog; otherwise go back to the user selector
+    if (answering) {
+      setFeedbackDialogOpen(false);
+      setAnswering(null);
+    }
     setSelectedReceiver(null);
   };
 
+  const handleFeedbackDialogChange = (open: boolean) => {
+    setFeedbackDialogOpen(open);
+    if (!open) {
+      setSelectedReceiver(null);
+      setAnswering(null);
+    }
+  };
+
   // Listen for keyboard shortcuts
   useEffect(() => {
     const handleShortcutAction = (e: Event) => {
@@ -139,6 +186,21 @@ export function QuickActions({ user }: QuickActionsProps) {
             </div>
           </Button>
 
+          {/* Request Feedback */}
+          <Button
+            variant="outline"
+            className="group justify-start h-auto py-3 px-4 transition-all duration-200 hover:shadow-md hover:border-primary/30"
+            onClick={() => setRequestDialogOpen(true)}
+          >
+            <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-orange-500/10 group-hover:bg-orange-500/20 transition-colors mr-3">
+              <MessageSquareMore className="h-4 w-4 text-orange-500" />
+            </div>
+            <div className="text-left">
+              <div className="font-medium">Request Feedback</div>
+              <div className="text-xs text-muted-foreground">Ask colleagues for input</div>
+            </div>
+          </Button>
+
           {/* Request Time Off */}
           <AbsenceRequestDialog
             onSuccess={() => {
@@ -235,8 +297,61 @@ export function QuickActions({ user }: QuickActionsProps) {
           )}
         </div>
 
+        {/* Feedback requests waiting for the user's answer */}
+        {pendingRequests.length > 0 && (
+          <div className="mt-4 space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              Feedback Requests
+              <Badge variant="secondary" className="h-5 px-1.5 text-[10px]">
+                {pendingRequests.length}
+              </Badge>
+              {feedbackRequests && feedbackRequests.overdueCount > 0 && (
+                <Badge variant="destructive" className="h-5 px-1.5 text-[10px]">
+                  {feedbackRequests.overdueCount} overdue
+                </Badge>
+              )}
+            </div>
+            {pendingRequests.map((request) => (
+              <div
+                key={request.id}
+                className="flex items-center justify-between gap-3 rounded-lg border p-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{nameOf(request.requesterId)} asked for feedback</p>
+                  {request.prompt && (
+                    <p className="truncate text-xs text-muted-foreground">{request.prompt}</p>
+                  )}
+                  <p className={cn('text-xs', request.isOverdue ? 'text-destructive' : 'text-muted-foreground')}>
+                    Due {format(new Date(request.dueDate), 'MMM d, yyyy')}
+                    {request.isOverdue && ' - overdue'}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={declineMutation.isPending}
+                    onClick={() => declineMutation.mutate({ id: request.id })}
+                  >
+                    Decline
+                  </Button>
+                  <Button size="sm" onClick={() => handleAnswerRequest(request)}>
+                    Answer
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <RequestFeedbackDialog
+          open={requestDialogOpen}
+          onOpenChange={setRequestDialogOpen}
+          currentUserId={user.id}
+        />
+
         {/* Feedback Dialog with User Selector */}
-        <Dialog open={feedbackDialogOpen} onOpenChange={setFeedbackDialogOpen}>
+        <Dialog open={feedbackDialogOpen} onOpenChange={handleFeedbackDialogChange}>
           <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Give Feedback</DialogTitle>
@@ -253,6 +368,7 @@ export function QuickActions({ user }: QuickActionsProps) {
               <FeedbackForm
                 receiverId={selectedReceiver.id}
                 receiverName={selectedReceiver.name}
+                request={answering ?? undefined}
                 onSuccess={handleFeedbackSuccess}
                 onCancel={handleFeedbackCancel}
               />
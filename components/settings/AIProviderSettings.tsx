@@ -0,0 +1,91 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/Provider';
+import { toast } from 'sonner';
+import { aiProviderSchema } from '@/lib/validations/feedback';
+import { formatAIProvider } from '@/lib/labels';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sparkles } from 'lucide-react';
+
+const DEPLOYMENT_DEFAULT = 'default';
+
+/**
+ * Manager panel for choosing which AI provider polishes the organization's feedback
+ * Providers not configured on this deployment are listed but cannot be chosen
+ */
+export function AIProviderSettings() {
+  const utils = trpc.useUtils();
+
+  const { data, isLoading } = trpc.feedback.getAIProviders.useQuery(undefined, {
+    staleTime: 10 * 60 * 1000, // 10 minutes - rarely changed
+  });
+
+  const updateMutation = trpc.feedback.updateAIProvider.useMutation({
+    onSuccess: () => {
+      toast.success('AI provider updated');
+      utils.feedback.getAIProviders.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const handleChange = (value: string) => {
+    const parsed = aiProviderSchema.safeParse(value);
+    updateMutation.mutate({ provider: parsed.success ? parsed.data : null });
+  };
+
+  const deploymentDefault = data?.providers.find((p) => p.isDefault);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5" />
+          AI Feedback Polishing
+        </CardTitle>
+        <CardDescription>
+          Choose where feedback is sent when someone polishes it with AI. A local model keeps
+          feedback on your own infrastructure; built-in rules work offline.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading || !data ? (
+          <Skeleton className="h-10 w-full max-w-sm" />
+        ) : (
+          <>
+            <Label htmlFor="ai-provider">Provider</Label>
+            <Select
+              value={data.selected ?? DEPLOYMENT_DEFAULT}
+              onValueChange={handleChange}
+              disabled={updateMutation.isPending}
+            >
+              <SelectTrigger id="ai-provider" className="max-w-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEPLOYMENT_DEFAULT}>
+                  Deployment default
+                  {deploymentDefault && ` (${formatAIProvider(deploymentDefault.provider)})`}
+                </SelectItem>
+                {data.providers.map((p) => (
+                  <SelectItem key={p.provider} value={p.provider} disabled={!p.available}>
+                    {formatAIProvider(p.provider)}
+                    {!p.available && ' - not configured'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Currently polishing with {formatAIProvider(data.active)}
+              {data.selected && data.selected !== data.active && ' (the chosen provider is unavailable)'}
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
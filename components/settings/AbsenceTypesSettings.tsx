@@ -0,0 +1,251 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { trpc } from '@/lib/trpc/Provider';
+import { toast } from 'sonner';
+import { absenceTypeSchema, type AbsenceTypeInput } from '@/lib/validations/absence';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { CalendarDays, Loader2, Plus, Trash2 } from 'lucide-react';
+
+const CATEGORY_LABELS: Record<AbsenceTypeInput['category'], string> = {
+  VACATION: 'Vacation',
+  SICK: 'Sick',
+  PARENTAL: 'Parental',
+  UNPAID: 'Unpaid',
+  OTHER: 'Other',
+};
+
+const DEFAULT_VALUES: AbsenceTypeInput = {
+  name: '',
+  category: 'OTHER',
+  color: '#3b82f6',
+  requiresApproval: true,
+  countsAgainstAllowance: true,
+};
+
+/**
+ * Manager panel for configuring the organization's absence types
+ */
+export function AbsenceTypesSettings() {
+  const utils = trpc.useUtils();
+  const form = useForm<AbsenceTypeInput>({
+    resolver: zodResolver(absenceTypeSchema),
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  const { data: absenceTypes, isLoading } = trpc.absenceType.list.useQuery(undefined, {
+    staleTime: 10 * 60 * 1000, // 10 minutes - types are rarely reconfigured
+  });
+
+  const invalidate = () => {
+    utils.absenceType.list.invalidate();
+    utils.absence.getAll.invalidate();
+  };
+
+  const createMutation = trpc.absenceType.create.useMutation({
+    onSuccess: () => {
+      toast.success('Absence type created');
+      form.reset(DEFAULT_VALUES);
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const updateMutation = trpc.absenceType.update.useMutation({
+    onSuccess: () => {
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const deleteMutation = trpc.absenceType.delete.useMutation({
+    onSuccess: () => {
+      toast.success('Absence type removed');
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Absence Types
+        </CardTitle>
+        <CardDescription>
+          Configure the kinds of time off employees can request
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : (
+          <div className="divide-y rounded-lg border">
+            {absenceTypes?.map((type) => (
+              <div
+                key={type.id}
+                className="flex flex-col gap-3 p-3 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="h-4 w-4 rounded-full" style={{ backgroundColor: type.color }} />
+                  <div>
+                    <p className="text-sm font-medium">{type.name}</p>
+                    <p className="text-xs text-muted-foreground">{CATEGORY_LABELS[type.category]}</p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-4">
+                  <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Switch
+                      checked={type.requiresApproval}
+                      disabled={updateMutation.isPending}
+                      onCheckedChange={(checked) =>
+                        updateMutation.mutate({ id: type.id, requiresApproval: checked })
+                      }
+                    />
+                    Approval
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Switch
+                      checked={type.countsAgainstAllowance}
+                      disabled={updateMutation.isPending}
+                      onCheckedChange={(checked) =>
+                        updateMutation.mutate({ id: type.id, countsAgainstAllowance: checked })
+                      }
+                    />
+                    Allowance
+                  </label>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate({ id: type.id })}
+                  >
+                    <span className="sr-only">Remove {type.name}</span>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => createMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <div className="flex flex-col sm:flex-row gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Bereavement" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem className="w-full sm:w-40">
+                    <FormLabel>Category</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="color"
+                render={({ field }) => (
+                  <FormItem className="w-full sm:w-24">
+                    <FormLabel>Color</FormLabel>
+                    <FormControl>
+                      <Input type="color" className="p-1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex flex-col sm:flex-row gap-6">
+              <FormField
+                control={form.control}
+                name="requiresApproval"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel className="font-normal">Requires manager approval</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="countsAgainstAllowance"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel className="font-normal">Counts against allowance</FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+            <Button type="submit" disabled={createMutation.isPending}>
+              {createMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Adding...
+                </>
+              ) : (
+                <>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Type
+                </>
+              )}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,329 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { trpc } from '@/lib/trpc/Provider';
+import { toast } from 'sonner';
+import { approvalWorkflowSchema, type ApprovalStepRuleInput } from '@/lib/validations/absence';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowDown, ArrowUp, GitBranch, Loader2, Plus, Trash2 } from 'lucide-react';
+
+const MAX_STEPS = 5;
+const ORGANIZATION_DEFAULT = 'organization';
+
+const APPROVER_TYPE_LABELS: Record<ApprovalStepRuleInput['approverType'], string> = {
+  REPORTING_MANAGER: 'Reporting manager',
+  SECOND_LEVEL_MANAGER: "Manager's manager",
+  DEPARTMENT_MANAGER: 'Department manager',
+  SPECIFIC_USER: 'Named approver',
+};
+
+const DEFAULT_STEPS: ApprovalStepRuleInput[] = [{ approverType: 'REPORTING_MANAGER' }];
+
+/**
+ * Manager panel for the approval chain absence requests go through,
+ * for the whole organization or overridden per absence type
+ */
+export function ApprovalWorkflowSettings() {
+  const utils = trpc.useUtils();
+  const [target, setTarget] = useState(ORGANIZATION_DEFAULT);
+  const [steps, setSteps] = useState<ApprovalStepRuleInput[]>(DEFAULT_STEPS);
+
+  const { data: organizationSteps, isLoading } = trpc.absence.getApprovalWorkflow.useQuery(
+    undefined,
+    { staleTime: 10 * 60 * 1000 } // 10 minutes - workflows are rarely reconfigured
+  );
+  const { data: absenceTypes } = trpc.absenceType.list.useQuery(undefined, {
+    staleTime: 10 * 60 * 1000, // 10 minutes - types are rarely reconfigured
+  });
+  const { data: people } = trpc.user.getOrgChart.useQuery(undefined, {
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const managers = useMemo(() => people?.filter((p) => p.role === 'MANAGER') ?? [], [people]);
+  const departments = useMemo(
+    () =>
+      Array.from(
+        new Set(people?.map((p) => p.department).filter((d): d is string => !!d) ?? [])
+      ).sort((a, b) => a.localeCompare(b)),
+    [people]
+  );
+
+  const selectedType = absenceTypes?.find((type) => type.id === target);
+  const isOverride = target !== ORGANIZATION_DEFAULT;
+
+  // Load the chain of whatever is being edited
+  useEffect(() => {
+    const current = isOverride ? selectedType?.approvalSteps ?? organizationSteps : organizationSteps;
+    setSteps(current && current.length > 0 ? current.map((step) => ({ ...step })) : DEFAULT_STEPS);
+  }, [isOverride, selectedType, organizationSteps]);
+
+  const updateMutation = trpc.absence.updateApprovalWorkflow.useMutation({
+    onSuccess: () => {
+      toast.success('Approval workflow updated');
+      utils.absence.getApprovalWorkflow.invalidate();
+      utils.absenceType.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const updateStep = (index: number, changes: Partial<ApprovalStepRuleInput>) => {
+    setSteps((prev) => prev.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const moveStep = (index: number, direction: 1 | -1) => {
+    setSteps((prev) => {
+      const next = [...prev];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    const parsed = approvalWorkflowSchema.safeParse(steps);
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message ?? 'Invalid approval workflow');
+      return;
+    }
+
+    updateMutation.mutate({
+      absenceTypeId: isOverride ? target : undefined,
+      steps: parsed.data,
+    });
+  };
+
+  const handleReset = () => {
+    updateMutation.mutate({ absenceTypeId: isOverride ? target : undefined, steps: null });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitBranch className="h-5 w-5" />
+          Approval Workflow
+        </CardTitle>
+        <CardDescription>
+          Choose who approves time off, in order. A request is approved once the last step passes.
+          Changes apply to new requests only.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2 sm:max-w-xs">
+              <Label>Applies to</Label>
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ORGANIZATION_DEFAULT}>Organization default</SelectItem>
+                  {absenceTypes?.map((type) => (
+                    <SelectItem key={type.id} value={type.id}>
+                      {type.name}
+                      {type.approvalSteps ? ' (custom)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {isOverride && selectedType && !selectedType.approvalSteps && (
+                <p className="text-xs text-muted-foreground">
+                  Uses the organization default. Saving creates a custom chain for this type.
+                </p>
+              )}
+              {isOverride && selectedType && !selectedType.requiresApproval && (
+                <p className="text-xs text-muted-foreground">
+                  This type is approved automatically, so its chain is not used.
+                </p>
+              )}
+            </div>
+
+            <ol className="space-y-3">
+              {steps.map((step, index) => (
+                <li key={index} className="rounded-md border p-3">
+                  <div className="mb-3 flex items-center justify-between">
+                    <span className="text-sm font-medium">Step {index + 1}</span>
+                    <div className="flex gap-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => moveStep(index, -1)}
+                        disabled={index === 0}
+                        aria-label={`Move step ${index + 1} up`}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => moveStep(index, 1)}
+                        disabled={index === steps.length - 1}
+                        aria-label={`Move step ${index + 1} down`}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setSteps((prev) => prev.filter((_, i) => i !== index))}
+                        disabled={steps.length === 1}
+                        aria-label={`Remove step ${index + 1}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Approver</Label>
+                      <Select
+                        value={step.approverType}
+                        onValueChange={(value) =>
+                          updateStep(index, {
+                            approverType: value as ApprovalStepRuleInput['approverType'],
+                            department: undefined,
+                            userId: undefined,
+                          })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(APPROVER_TYPE_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {step.approverType === 'DEPARTMENT_MANAGER' && (
+                      <div className="space-y-1">
+                        <Label className="text-xs">Department</Label>
+                        <Select
+                          value={step.department ?? ''}
+                          onValueChange={(value) => updateStep(index, { department: value })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Choose department" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {departments.map((department) => (
+                              <SelectItem key={department} value={department}>
+                                {department}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+
+                    {step.approverType === 'SPECIFIC_USER' && (
+                      <div className="space-y-1">
+                        <Label className="text-xs">Person</Label>
+                        <Select
+                          value={step.userId ?? ''}
+                          onValueChange={(value) => updateStep(index, { userId: value })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Choose approver" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {managers.map((manager) => (
+                              <SelectItem key={manager.id} value={manager.id}>
+                                {manager.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+
+                    <div className="space-y-1">
+                      <Label className="text-xs">Label (optional)</Label>
+                      <Input
+                        value={step.label ?? ''}
+                        onChange={(e) => updateStep(index, { label: e.target.value || undefined })}
+                        placeholder={APPROVER_TYPE_LABELS[step.approverType]}
+                        maxLength={50}
+                      />
+                    </div>
+
+                    {index > 0 && (
+                      <div className="space-y-1">
+                        <Label className="text-xs">Only when longer than (days)</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={step.whenDaysExceed ?? ''}
+                          onChange={(e) =>
+                            updateStep(index, {
+                              whenDaysExceed: Number.isNaN(e.target.valueAsNumber)
+                                ? undefined
+                                : e.target.valueAsNumber,
+                            })
+                          }
+                          placeholder="Always"
+                        />
+                      </div>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ol>
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setSteps((prev) => [...prev, { approverType: 'REPORTING_MANAGER' }])}
+                disabled={steps.length >= MAX_STEPS}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Step
+              </Button>
+              <Button type="button" onClick={handleSave} disabled={updateMutation.isPending}>
+                {updateMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save Workflow'
+                )}
+              </Button>
+              {(isOverride ? !!selectedType?.approvalSteps : !!organizationSteps) && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={handleReset}
+                  disabled={updateMutation.isPending}
+                >
+                  {isOverride ? 'Use Organization Default' : 'Reset to Reporting Manager'}
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { trpc } from '@/lib/trpc/Provider';
+import { toast } from 'sonner';
+import { competencyFrameworkSchema, type CompetencyInput } from '@/lib/validations/feedback';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Award, Loader2, Plus, Trash2 } from 'lucide-react';
+
+const MAX_COMPETENCIES = 20;
+
+/**
+ * Turn a competency name into its key (e.g. "Technical Skills" -> "technical-skills")
+ */
+function keyFor(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Manager panel for the competencies feedback can be tagged and rated against
+ */
+export function CompetencyFrameworkSettings() {
+  const utils = trpc.useUtils();
+  const [competencies, setCompetencies] = useState<CompetencyInput[]>([]);
+
+  const { data: savedCompetencies, isLoading } = trpc.feedback.getCompetencies.useQuery(undefined, {
+    staleTime: 10 * 60 * 1000, // 10 minutes - the framework is rarely reconfigured
+  });
+
+  useEffect(() => {
+    if (savedCompetencies) {
+      setCompetencies(savedCompetencies.map((competency) => ({ ...competency })));
+    }
+  }, [savedCompetencies]);
+
+  const updateMutation = trpc.feedback.updateCompetencies.useMutation({
+    onSuccess: () => {
+      toast.success('Competency framework updated');
+      utils.feedback.getCompetencies.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  // Saved competencies keep their key so tagged feedback still matches when renamed
+  const updateCompetency = (index: number, changes: Partial<CompetencyInput>) => {
+    setCompetencies((prev) =>
+      prev.map((competency, i) => {
+        if (i !== index) return competency;
+        const next = { ...competency, ...changes };
+        const isSaved = savedCompetencies?.some((saved) => saved.key === competency.key);
+        return changes.name !== undefined && !isSaved ? { ...next, key: keyFor(changes.name) } : next;
+      })
+    );
+  };
+
+  const handleSave = () => {
+    const parsed = competencyFrameworkSchema.safeParse(
+      competencies.map((competency) => ({
+        ...competency,
+        description: competency.description || undefined,
+      }))
+    );
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message ?? 'Invalid competency framework');
+      return;
+    }
+
+    updateMutation.mutate(parsed.data);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Award className="h-5 w-5" />
+          Competency Framework
+        </CardTitle>
+        <CardDescription>
+          Choose the competencies feedback can be tagged and rated against. Removing one keeps it on
+          feedback that already mentions it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <>
+            <ul className="space-y-3">
+              {competencies.map((competency, index) => (
+                <li
+                  key={index}
+                  className="grid items-end gap-3 rounded-md border p-3 sm:grid-cols-[14rem_1fr_auto]"
+                >
+                  <div className="space-y-1">
+                    <Label className="text-xs">Name</Label>
+                    <Input
+                      value={competency.name}
+                      onChange={(e) => updateCompetency(index, { name: e.target.value })}
+                      maxLength={50}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Description (optional)</Label>
+                    <Input
+                      value={competency.description ?? ''}
+                      onChange={(e) => updateCompetency(index, { description: e.target.value })}
+                      placeholder="What good looks like"
+                      maxLength={200}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setCompetencies((prev) => prev.filter((_, i) => i !== index))}
+                    aria-label={`Remove ${competency.name || 'competency'}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setCompetencies((prev) => [...prev, { key: '', name: '' }])}
+                disabled={competencies.length >= MAX_COMPETENCIES}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Competency
+              </Button>
+              <Button type="button" onClick={handleSave} disabled={updateMutation.isPending}>
+                {updateMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save Framework'
+                )}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/Provider';
+import { toast } from 'sonner';
+import { feedbackScreeningPolicySchema } from '@/lib/validations/feedback';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ShieldAlert } from 'lucide-react';
+
+const POLICIES = [
+  { value: 'WARN', label: 'Warn the giver', description: 'The giver may still submit as written' },
+  {
+    value: 'REQUIRE_POLISH',
+    label: 'Require polishing',
+    description: 'Flagged feedback must be polished with AI before it can be submitted',
+  },
+  {
+    value: 'MODERATE',
+    label: 'Manager moderation',
+    description: 'A manager approves flagged feedback before its receiver sees it',
+  },
+] as const;
+
+/**
+ * Manager panel for choosing what happens to feedback flagged for personal
+ * attacks, protected characteristics or profanity
+ */
+export function FeedbackScreeningSettings() {
+  const utils = trpc.useUtils();
+
+  const { data, isLoading } = trpc.feedback.getScreeningPolicy.useQuery(undefined, {
+    staleTime: 10 * 60 * 1000, // 10 minutes - rarely changed
+  });
+
+  const updateMutation = trpc.feedback.updateScreeningPolicy.useMutation({
+    onSuccess: () => {
+      toast.success('Screening policy updated');
+      utils.feedback.getScreeningPolicy.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const handleChange = (value: string) => {
+    const parsed = feedbackScreeningPolicySchema.safeParse(value);
+    if (parsed.success) {
+      updateMutation.mutate({ policy: parsed.data });
+    }
+  };
+
+  const selected = POLICIES.find((p) => p.value === data?.policy);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Feedback Screening
+        </CardTitle>
+        <CardDescription>
+          Feedback is checked for personal attacks, references to protected characteristics and
+          profanity before it is submitted. Choose what happens when it is flagged.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading || !data ? (
+          <Skeleton className="h-10 w-full max-w-sm" />
+        ) : (
+          <>
+            <Label htmlFor="feedback-screening-policy">When feedback is flagged</Label>
+            <Select
+              value={data.policy}
+              onValueChange={handleChange}
+              disabled={updateMutation.isPending}
+            >
+              <SelectTrigger id="feedback-screening-policy" className="max-w-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {POLICIES.map((p) => (
+                  <SelectItem key={p.value} value={p.value}>
+                    {p.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selected && <p className="text-xs text-muted-foreground">{selected.description}</p>}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
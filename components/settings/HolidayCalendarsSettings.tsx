@@ -0,0 +1,389 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format } from 'date-fns';
+import { trpc } from '@/lib/trpc/Provider';
+import { toast } from 'sonner';
+import { holidayCalendarSchema, type HolidayCalendarInput } from '@/lib/validations/absence';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { CalendarOff, ChevronDown, ChevronRight, Loader2, Plus, Trash2, Upload, X } from 'lucide-react';
+
+const NEW_CALENDAR = 'new';
+
+/**
+ * Manager panel for the organization's holiday calendars
+ * Calendars can be entered by hand or imported from .ics files, and are
+ * assigned to departments or individual users.
+ */
+export function HolidayCalendarsSettings() {
+  const utils = trpc.useUtils();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [newHoliday, setNewHoliday] = useState({ date: '', name: '' });
+  const [importTarget, setImportTarget] = useState(NEW_CALENDAR);
+  const [importName, setImportName] = useState('');
+
+  const form = useForm<HolidayCalendarInput>({
+    resolver: zodResolver(holidayCalendarSchema),
+    defaultValues: { name: '' },
+  });
+
+  const { data: calendars, isLoading } = trpc.holidayCalendar.list.useQuery(undefined, {
+    staleTime: 10 * 60 * 1000, // 10 minutes - calendars are rarely reconfigured
+  });
+  const { data: departments } = trpc.user.getDepartments.useQuery(undefined, {
+    staleTime: 10 * 60 * 1000,
+  });
+  const { data: members } = trpc.user.getAll.useQuery(
+    { limit: 100 },
+    {
+      staleTime: 2 * 60 * 1000, // 2 minutes - team list can change
+    }
+  );
+
+  // Holidays change working-day counts everywhere absences are shown
+  const invalidate = () => {
+    utils.holidayCalendar.invalidate();
+    utils.absence.invalidate();
+    utils.dashboard.invalidate();
+  };
+
+  const createMutation = trpc.holidayCalendar.create.useMutation({
+    onSuccess: (calendar) => {
+      toast.success('Holiday calendar created');
+      form.reset({ name: '' });
+      setExpandedId(calendar.id);
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const updateMutation = trpc.holidayCalendar.update.useMutation({
+    onSuccess: () => {
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const importMutation = trpc.holidayCalendar.importIcs.useMutation({
+    onSuccess: (calendar) => {
+      toast.success(`Imported holidays into ${calendar.name}`);
+      setImportName('');
+      setExpandedId(calendar.id);
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const deleteMutation = trpc.holidayCalendar.delete.useMutation({
+    onSuccess: () => {
+      toast.success('Holiday calendar removed');
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (importTarget === NEW_CALENDAR && !importName.trim()) {
+      toast.error('Enter a name for the new calendar');
+      return;
+    }
+
+    const content = await file.text();
+    importMutation.mutate({
+      content,
+      ...(importTarget === NEW_CALENDAR
+        ? { name: importName.trim() }
+        : { calendarId: importTarget }),
+    });
+  };
+
+  const toggle = (values: string[], value: string, checked: boolean) =>
+    checked ? [...values, value] : values.filter((v) => v !== value);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarOff className="h-5 w-5" />
+          Holiday Calendars
+        </CardTitle>
+        <CardDescription>
+          Public holidays are not counted as working days for the people who observe them
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : calendars && calendars.length > 0 ? (
+          <div className="divide-y rounded-lg border">
+            {calendars.map((calendar) => {
+              const isExpanded = expandedId === calendar.id;
+              return (
+                <div key={calendar.id} className="p-3 space-y-4">
+                  <div className="flex items-center justify-between gap-3">
+                    <button
+                      type="button"
+                      className="flex flex-1 items-center gap-2 text-left"
+                      onClick={() => setExpandedId(isExpanded ? null : calendar.id)}
+                    >
+                      {isExpanded ? (
+                        <ChevronDown className="h-4 w-4" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4" />
+                      )}
+                      <div>
+                        <p className="text-sm font-medium">{calendar.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {calendar.holidays.length}{' '}
+                          {calendar.holidays.length === 1 ? 'holiday' : 'holidays'} ·{' '}
+                          {calendar.departments.length} departments · {calendar.userIds.length}{' '}
+                          people
+                        </p>
+                      </div>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate({ id: calendar.id })}
+                    >
+                      <span className="sr-only">Remove {calendar.name}</span>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="grid gap-6 md:grid-cols-2">
+                      <div className="space-y-3">
+                        <p className="text-xs font-medium text-muted-foreground">Holidays</p>
+                        <ScrollArea className="h-56 rounded-md border">
+                          {calendar.holidays.length === 0 ? (
+                            <p className="p-3 text-sm text-muted-foreground">No holidays yet</p>
+                          ) : (
+                            <div className="divide-y">
+                              {calendar.holidays.map((holiday) => (
+                                <div
+                                  key={holiday.date}
+                                  className="flex items-center justify-between px-3 py-2 text-sm"
+                                >
+                                  <div>
+                                    <span className="font-medium">
+                                      {format(new Date(`${holiday.date}T00:00:00`), 'EEE, MMM d, yyyy')}
+                                    </span>
+                                    <span className="ml-2 text-muted-foreground">{holiday.name}</span>
+                                  </div>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-6 w-6"
+                                    disabled={updateMutation.isPending}
+                                    onClick={() =>
+                                      updateMutation.mutate({
+                                        id: calendar.id,
+                                        holidays: calendar.holidays.filter(
+                                          (h) => h.date !== holiday.date
+                                        ),
+                                      })
+                                    }
+                                  >
+                                    <span className="sr-only">Remove {holiday.name}</span>
+                                    <X className="h-3 w-3" />
+                                  </Button>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </ScrollArea>
+                        <div className="flex gap-2">
+                          <Input
+                            type="date"
+                            className="w-40"
+                            value={newHoliday.date}
+                            onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+                          />
+                          <Input
+                            placeholder="Holiday name"
+                            value={newHoliday.name}
+                            onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+                          />
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            disabled={
+                              !newHoliday.date || !newHoliday.name.trim() || updateMutation.isPending
+                            }
+                            onClick={() =>
+                              updateMutation.mutate(
+                                {
+                                  id: calendar.id,
+                                  holidays: [...calendar.holidays, newHoliday],
+                                },
+                                { onSuccess: () => setNewHoliday({ date: '', name: '' }) }
+                              )
+                            }
+                          >
+                            <span className="sr-only">Add holiday</span>
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+
+                      <div className="space-y-3">
+                        <p className="text-xs font-medium text-muted-foreground">Observed by</p>
+                        <ScrollArea className="h-56 rounded-md border">
+                          <div className="space-y-1 p-3">
+                            {departments?.map((department) => (
+                              <label
+                                key={`dept-${department}`}
+                                className="flex items-center gap-2 text-sm"
+                              >
+                                <Checkbox
+                                  checked={calendar.departments.includes(department)}
+                                  disabled={updateMutation.isPending}
+                                  onCheckedChange={(checked) =>
+                                    updateMutation.mutate({
+                                      id: calendar.id,
+                                      departments: toggle(
+                                        calendar.departments,
+                                        department,
+                                        checked === true
+                                      ),
+                                    })
+                                  }
+                                />
+                                {department}
+                                <span className="text-xs text-muted-foreground">(department)</span>
+                              </label>
+                            ))}
+                            {members?.users.map((member) => (
+                              <label key={member.id} className="flex items-center gap-2 text-sm">
+                                <Checkbox
+                                  checked={calendar.userIds.includes(member.id)}
+                                  disabled={updateMutation.isPending}
+                                  onCheckedChange={(checked) =>
+                                    updateMutation.mutate({
+                                      id: calendar.id,
+                                      userIds: toggle(calendar.userIds, member.id, checked === true),
+                                    })
+                                  }
+                                />
+                                {member.name}
+                              </label>
+                            ))}
+                          </div>
+                        </ScrollArea>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No holiday calendars configured yet</p>
+        )}
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => createMutation.mutate(data))}
+            className="flex flex-col gap-4 sm:flex-row sm:items-end"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormLabel>New calendar</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. UK Bank Holidays" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={createMutation.isPending}>
+              {createMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Adding...
+                </>
+              ) : (
+                <>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Calendar
+                </>
+              )}
+            </Button>
+          </form>
+        </Form>
+
+        <div className="space-y-2 border-t pt-4">
+          <p className="text-sm font-medium">Import from iCalendar (.ics)</p>
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Select value={importTarget} onValueChange={setImportTarget}>
+              <SelectTrigger className="w-full sm:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_CALENDAR}>New calendar</SelectItem>
+                {calendars?.map((calendar) => (
+                  <SelectItem key={calendar.id} value={calendar.id}>
+                    {calendar.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {importTarget === NEW_CALENDAR && (
+              <Input
+                placeholder="Calendar name"
+                value={importName}
+                onChange={(e) => setImportName(e.target.value)}
+              />
+            )}
+            <Button variant="outline" asChild disabled={importMutation.isPending}>
+              <label className="cursor-pointer">
+                {importMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Upload className="mr-2 h-4 w-4" />
+                )}
+                Choose file
+                <input
+                  type="file"
+                  accept=".ics,text/calendar"
+                  className="sr-only"
+                  onChange={handleImport}
+                />
+              </label>
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { trpc } from '@/lib/trpc/Provider';
+import { toast } from 'sonner';
+import { leavePolicySchema, type LeavePolicyInput } from '@/lib/validations/absence';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Loader2, Wallet } from 'lucide-react';
+
+/**
+ * Manager panel for the organization's leave accrual and carryover policy
+ */
+export function LeavePolicySettings() {
+  const utils = trpc.useUtils();
+  const form = useForm<LeavePolicyInput>({
+    resolver: zodResolver(leavePolicySchema),
+  });
+
+  const { data: policy, isLoading } = trpc.absence.getLeavePolicy.useQuery(undefined, {
+    staleTime: 10 * 60 * 1000, // 10 minutes - policy is rarely reconfigured
+  });
+
+  useEffect(() => {
+    if (policy) {
+      form.reset(policy);
+    }
+  }, [policy, form]);
+
+  const updateMutation = trpc.absence.updateLeavePolicy.useMutation({
+    onSuccess: () => {
+      toast.success('Leave policy updated');
+      utils.absence.getLeavePolicy.invalidate();
+      utils.absence.getBalance.invalidate();
+      utils.absence.getMyStats.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Leave Policy
+        </CardTitle>
+        <CardDescription>
+          Set how annual leave accrues and how much carries over into the next year
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit((data) => updateMutation.mutate(data))}
+              className="space-y-4"
+            >
+              <div className="grid gap-4 sm:grid-cols-3">
+                <FormField
+                  control={form.control}
+                  name="accrualMethod"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Accrual</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="UPFRONT">Upfront</SelectItem>
+                          <SelectItem value="MONTHLY">Monthly</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="defaultAnnualAllowance"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Yearly allowance (days)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step={0.5}
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="maxCarryoverDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Max carryover (days)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step={0.5}
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="allowNegativeBalance"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <div>
+                      <FormLabel className="font-normal">Allow negative balances</FormLabel>
+                      <FormDescription>
+                        Let employees request more days than they have accrued
+                      </FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" disabled={updateMutation.isPending}>
+                {updateMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save Policy'
+                )}
+              </Button>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
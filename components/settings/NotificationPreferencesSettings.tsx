@@ -0,0 +1,115 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/Provider';
+import { toast } from 'sonner';
+import {
+  notificationChannelSchema,
+  type NotificationTypeInput,
+} from '@/lib/validations/notification';
+import { formatNotificationChannel, formatNotificationType } from '@/lib/labels';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Bell } from 'lucide-react';
+
+const CHANNELS = notificationChannelSchema.options;
+
+/**
+ * Matrix of notification types and the channel the current user hears about each on
+ * Types the organization requires cannot be turned off
+ */
+export function NotificationPreferencesSettings() {
+  const utils = trpc.useUtils();
+
+  const { data: preferences, isLoading } = trpc.notification.getPreferences.useQuery(undefined, {
+    staleTime: 10 * 60 * 1000, // 10 minutes - rarely changed
+  });
+
+  const updateMutation = trpc.notification.updatePreferences.useMutation({
+    onSuccess: (result) => {
+      toast.success('Notification preferences updated');
+      utils.notification.getPreferences.setData(undefined, result);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const handleChange = (type: NotificationTypeInput, value: string) => {
+    const parsed = notificationChannelSchema.safeParse(value);
+    if (parsed.success) {
+      updateMutation.mutate({ channels: { [type]: parsed.data } });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Notifications
+        </CardTitle>
+        <CardDescription>
+          Choose how you hear about each kind of notification. Everything except Off also shows
+          in the app; the daily digest collects what you have not read yet into one email.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !preferences ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Notification</TableHead>
+                {CHANNELS.map((channel) => (
+                  <TableHead key={channel} className="text-center">
+                    {formatNotificationChannel(channel)}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preferences.map((preference) => (
+                <TableRow key={preference.type}>
+                  <TableCell>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {formatNotificationType(preference.type)}
+                      {preference.required && (
+                        <Badge variant="secondary">Required by your organization</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  {CHANNELS.map((channel) => (
+                    <TableCell key={channel} className="text-center">
+                      <input
+                        type="radio"
+                        name={`notification-${preference.type}`}
+                        value={channel}
+                        checked={preference.channel === channel}
+                        disabled={
+                          updateMutation.isPending || (preference.required && channel === 'OFF')
+                        }
+                        onChange={(e) => handleChange(preference.type, e.target.value)}
+                        aria-label={`${formatNotificationType(preference.type)}: ${formatNotificationChannel(channel)}`}
+                        className="h-4 w-4 accent-primary disabled:opacity-50"
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/Provider';
+import { toast } from 'sonner';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Fingerprint } from 'lucide-react';
+
+/**
+ * Manager panel for requiring managers to sign in with a phishing-resistant factor
+ */
+export function PasskeyPolicySettings() {
+  const utils = trpc.useUtils();
+
+  const { data, isLoading } = trpc.twoFactor.passkeys.getPolicy.useQuery(undefined, {
+    staleTime: 10 * 60 * 1000, // 10 minutes - rarely changed
+  });
+
+  const updateMutation = trpc.twoFactor.passkeys.updatePolicy.useMutation({
+    onSuccess: ({ requireManagerPasskeys }) => {
+      toast.success(
+        requireManagerPasskeys ? 'Managers now need a passkey' : 'Managers no longer need a passkey'
+      );
+      utils.twoFactor.passkeys.getPolicy.invalidate();
+      utils.auth.getCurrentUser.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Fingerprint className="h-5 w-5" />
+          Manager Sign-In
+        </CardTitle>
+        <CardDescription>
+          Passwords and authenticator codes can be phished. Passkeys are bound to this site, so
+          they cannot.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !data ? (
+          <Skeleton className="h-10 w-full max-w-sm" />
+        ) : (
+          <div className="flex items-center gap-2">
+            <Switch
+              id="require-manager-passkeys"
+              checked={data.requireManagerPasskeys}
+              disabled={updateMutation.isPending}
+              onCheckedChange={(checked) =>
+                updateMutation.mutate({ requireManagerPasskeys: checked })
+              }
+            />
+            <div>
+              <Label htmlFor="require-manager-passkeys" className="font-normal">
+                Require managers to sign in with a passkey
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Until they do, managers can only reach their own account and security settings.
+                Single sign-on also counts. Changing this setting needs a session you signed in
+                to with a passkey.
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
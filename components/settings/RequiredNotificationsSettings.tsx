@@ -0,0 +1,79 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/Provider';
+import { toast } from 'sonner';
+import {
+  notificationTypeSchema,
+  type NotificationTypeInput,
+} from '@/lib/validations/notification';
+import { formatNotificationType } from '@/lib/labels';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { BellRing } from 'lucide-react';
+
+/**
+ * Manager panel for choosing the notification types users cannot turn off,
+ * e.g. absence decisions everyone has to hear about
+ */
+export function RequiredNotificationsSettings() {
+  const utils = trpc.useUtils();
+
+  const { data, isLoading } = trpc.notification.getRequiredTypes.useQuery(undefined, {
+    staleTime: 10 * 60 * 1000, // 10 minutes - rarely changed
+  });
+
+  const updateMutation = trpc.notification.updateRequiredTypes.useMutation({
+    onSuccess: () => {
+      toast.success('Required notifications updated');
+      utils.notification.getRequiredTypes.invalidate();
+      utils.notification.getPreferences.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const handleToggle = (type: NotificationTypeInput, required: boolean) => {
+    const current = data?.types ?? [];
+    updateMutation.mutate({
+      types: required ? [...current, type] : current.filter((t) => t !== type),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Required Notifications
+        </CardTitle>
+        <CardDescription>
+          Members can choose how they hear about these notifications, but cannot turn them off.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !data ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <div className="grid gap-3 sm:grid-cols-2">
+            {notificationTypeSchema.options.map((type) => (
+              <div key={type} className="flex items-center gap-2">
+                <Checkbox
+                  id={`required-notification-${type}`}
+                  checked={data.types.includes(type)}
+                  disabled={updateMutation.isPending}
+                  onCheckedChange={(checked) => handleToggle(type, checked === true)}
+                />
+                <Label htmlFor={`required-notification-${type}`} className="font-normal">
+                  {formatNotificationType(type)}
+                </Label>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
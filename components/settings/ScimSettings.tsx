@@ -0,0 +1,170 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { trpc } from '@/lib/trpc/Provider';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { CheckCircle2, Copy, Loader2, RefreshCw } from 'lucide-react';
+
+/**
+ * Manager panel for the tokens identity providers use to provision users and
+ * departments over SCIM
+ */
+export function ScimSettings() {
+  const utils = trpc.useUtils();
+  const [name, setName] = useState('');
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const { data, isLoading } = trpc.scim.getTokens.useQuery(undefined, {
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const createMutation = trpc.scim.createToken.useMutation({
+    onSuccess: ({ token }) => {
+      setName('');
+      setNewToken(token);
+      utils.scim.getTokens.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const revokeMutation = trpc.scim.revokeToken.useMutation({
+    onSuccess: () => {
+      toast.success('SCIM token revoked');
+      utils.scim.getTokens.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const handleCopy = () => {
+    if (!newToken) return;
+    navigator.clipboard.writeText(newToken);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RefreshCw className="h-5 w-5" />
+          User Provisioning (SCIM)
+        </CardTitle>
+        <CardDescription>
+          Let your identity provider add, update and deactivate users and departments
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !data ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <>
+            <div className="space-y-1 rounded-md border bg-muted/50 p-3 text-sm">
+              <p className="font-medium">SCIM base URL</p>
+              <code className="break-all text-muted-foreground">{data.baseUrl}</code>
+            </div>
+
+            {data.tokens.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No SCIM tokens yet. Create one and paste it into your identity provider.
+              </p>
+            ) : (
+              <div className="divide-y rounded-lg border">
+                {data.tokens.map((token) => (
+                  <div key={token.id} className="flex items-center justify-between gap-4 p-4">
+                    <div className="min-w-0">
+                      <p className="font-medium">{token.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        Created {format(new Date(token.createdAt), 'MMM d, yyyy')} -{' '}
+                        {token.lastUsedAt
+                          ? `last used ${format(new Date(token.lastUsedAt), 'MMM d, yyyy')}`
+                          : 'never used'}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={revokeMutation.isPending}
+                      onClick={() => revokeMutation.mutate({ id: token.id })}
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <form
+              className="flex flex-col gap-2 sm:flex-row sm:items-end"
+              onSubmit={(e) => {
+                e.preventDefault();
+                createMutation.mutate({ name });
+              }}
+            >
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="scim-token-name">Token name</Label>
+                <Input
+                  id="scim-token-name"
+                  placeholder="e.g. Okta"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <Button type="submit" disabled={!name.trim() || createMutation.isPending}>
+                {createMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Creating...
+                  </>
+                ) : (
+                  'Create Token'
+                )}
+              </Button>
+            </form>
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!newToken} onOpenChange={(open) => !open && setNewToken(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Copy your SCIM token</AlertDialogTitle>
+            <AlertDialogDescription>
+              Paste it into your identity provider as the bearer token. It will not be shown again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 break-all rounded-md border bg-muted p-2 text-xs">
+              {newToken}
+            </code>
+            <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy token">
+              {copied ? <CheckCircle2 className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogAction onClick={() => setNewToken(null)}>Done</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,463 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { trpc } from '@/lib/trpc/Provider';
+import { toast } from 'sonner';
+import { ssoConnectionSchema, type SsoGroupRoleMappingInput } from '@/lib/validations/sso';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { KeyRound, Loader2, Plus, Trash2 } from 'lucide-react';
+
+type Role = SsoGroupRoleMappingInput['role'];
+
+const ROLE_LABELS: Record<Role, string> = {
+  EMPLOYEE: 'Employee',
+  MANAGER: 'Manager',
+  COWORKER: 'Coworker',
+};
+
+interface SsoDraft {
+  protocol: 'OIDC' | 'SAML';
+  enabled: boolean;
+  enforced: boolean;
+  issuerUrl: string;
+  clientId: string;
+  clientSecret: string;
+  samlMetadata: string;
+  jitProvisioning: boolean;
+  defaultRole: Role;
+  groupsAttribute: string;
+  groupRoleMappings: SsoGroupRoleMappingInput[];
+}
+
+const EMPTY_DRAFT: SsoDraft = {
+  protocol: 'OIDC',
+  enabled: false,
+  enforced: false,
+  issuerUrl: '',
+  clientId: '',
+  clientSecret: '',
+  samlMetadata: '',
+  jitProvisioning: false,
+  defaultRole: 'EMPLOYEE',
+  groupsAttribute: 'groups',
+  groupRoleMappings: [],
+};
+
+/**
+ * Manager panel for signing in through the organization's own identity provider,
+ * over OpenID Connect or SAML
+ */
+export function SsoSettings() {
+  const utils = trpc.useUtils();
+  const [draft, setDraft] = useState<SsoDraft>(EMPTY_DRAFT);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const { data, isLoading } = trpc.sso.getConnection.useQuery(undefined, {
+    staleTime: 10 * 60 * 1000, // 10 minutes - SSO is rarely reconfigured
+  });
+  const connection = data?.connection;
+
+  useEffect(() => {
+    if (connection) {
+      setDraft({
+        protocol: connection.protocol,
+        enabled: connection.enabled,
+        enforced: connection.enforced,
+        issuerUrl: connection.issuerUrl ?? '',
+        clientId: connection.clientId ?? '',
+        clientSecret: '',
+        samlMetadata: connection.samlMetadata ?? '',
+        jitProvisioning: connection.jitProvisioning,
+        defaultRole: connection.defaultRole,
+        groupsAttribute: connection.groupsAttribute,
+        groupRoleMappings: connection.groupRoleMappings.map((mapping) => ({ ...mapping })),
+      });
+    }
+  }, [connection]);
+
+  const saveMutation = trpc.sso.saveConnection.useMutation({
+    onSuccess: () => {
+      toast.success('Single sign-on settings saved');
+      utils.sso.getConnection.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const deleteMutation = trpc.sso.deleteConnection.useMutation({
+    onSuccess: () => {
+      toast.success('Single sign-on removed');
+      setConfirmDelete(false);
+      setDraft(EMPTY_DRAFT);
+      utils.sso.getConnection.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const update = (changes: Partial<SsoDraft>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+  };
+
+  const updateMapping = (index: number, changes: Partial<SsoGroupRoleMappingInput>) => {
+    update({
+      groupRoleMappings: draft.groupRoleMappings.map((mapping, i) =>
+        i === index ? { ...mapping, ...changes } : mapping
+      ),
+    });
+  };
+
+  const handleSave = () => {
+    const { issuerUrl, clientId, clientSecret, samlMetadata, ...settings } = draft;
+    const parsed = ssoConnectionSchema.safeParse(
+      draft.protocol === 'OIDC'
+        ? { ...settings, issuerUrl, clientId, clientSecret: clientSecret || undefined }
+        : { ...settings, samlMetadata }
+    );
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message ?? 'Invalid single sign-on settings');
+      return;
+    }
+
+    saveMutation.mutate(parsed.data);
+  };
+
+  const serviceProvider = data?.serviceProvider;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Single Sign-On
+        </CardTitle>
+        <CardDescription>
+          Let people with an email on your domain sign in through your identity provider
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !data ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <>
+            {!data.domain && (
+              <Alert>
+                <AlertDescription>
+                  Your organization does not have a verified domain yet. Contact support to verify
+                  one before enabling single sign-on.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label>Protocol</Label>
+                <Select
+                  value={draft.protocol}
+                  onValueChange={(value) => update({ protocol: value as SsoDraft['protocol'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="OIDC">OpenID Connect</SelectItem>
+                    <SelectItem value="SAML">SAML 2.0</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {serviceProvider && (
+              <div className="space-y-1 rounded-md border bg-muted/50 p-3 text-sm">
+                <p className="font-medium">Give your identity provider these values</p>
+                {draft.protocol === 'OIDC' ? (
+                  <p className="break-all text-muted-foreground">
+                    Redirect URI: <code>{serviceProvider.oidcRedirectUri}</code>
+                  </p>
+                ) : (
+                  <>
+                    <p className="break-all text-muted-foreground">
+                      ACS URL: <code>{serviceProvider.samlAcsUrl}</code>
+                    </p>
+                    <p className="break-all text-muted-foreground">
+                      Entity ID and metadata:{' '}
+                      <a
+                        href={serviceProvider.samlEntityId}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="underline"
+                      >
+                        {serviceProvider.samlEntityId}
+                      </a>
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+
+            {draft.protocol === 'OIDC' ? (
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-1 sm:col-span-3">
+                  <Label htmlFor="sso-issuer">Issuer URL</Label>
+                  <Input
+                    id="sso-issuer"
+                    placeholder="https://login.example.com"
+                    value={draft.issuerUrl}
+                    onChange={(e) => update({ issuerUrl: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="sso-client-id">Client ID</Label>
+                  <Input
+                    id="sso-client-id"
+                    value={draft.clientId}
+                    onChange={(e) => update({ clientId: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1 sm:col-span-2">
+                  <Label htmlFor="sso-client-secret">Client secret</Label>
+                  <Input
+                    id="sso-client-secret"
+                    type="password"
+                    autoComplete="off"
+                    placeholder={
+                      connection?.hasClientSecret ? 'Leave blank to keep the saved secret' : ''
+                    }
+                    value={draft.clientSecret}
+                    onChange={(e) => update({ clientSecret: e.target.value })}
+                  />
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <Label htmlFor="sso-metadata">Identity provider metadata XML</Label>
+                <Textarea
+                  id="sso-metadata"
+                  rows={6}
+                  className="font-mono text-xs"
+                  value={draft.samlMetadata}
+                  onChange={(e) => update({ samlMetadata: e.target.value })}
+                />
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="sso-jit"
+                  checked={draft.jitProvisioning}
+                  onCheckedChange={(checked) => update({ jitProvisioning: checked })}
+                />
+                <div>
+                  <Label htmlFor="sso-jit" className="font-normal">
+                    Create accounts on first sign-in
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    People your identity provider lets in get an account without an invitation
+                  </p>
+                </div>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label>Default role</Label>
+                  <Select
+                    value={draft.defaultRole}
+                    onValueChange={(value) => update({ defaultRole: value as Role })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="sso-groups-attribute">Groups claim or attribute</Label>
+                  <Input
+                    id="sso-groups-attribute"
+                    value={draft.groupsAttribute}
+                    onChange={(e) => update({ groupsAttribute: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Group roles</Label>
+                <p className="text-sm text-muted-foreground">
+                  Members of a group get its role each time they sign in. The first matching group
+                  wins; people in no listed group keep their role.
+                </p>
+                {draft.groupRoleMappings.length > 0 && (
+                  <ul className="space-y-2">
+                    {draft.groupRoleMappings.map((mapping, index) => (
+                      <li key={index} className="grid items-center gap-2 sm:grid-cols-[1fr_10rem_auto]">
+                        <Input
+                          placeholder="Group name"
+                          value={mapping.group}
+                          onChange={(e) => updateMapping(index, { group: e.target.value })}
+                        />
+                        <Select
+                          value={mapping.role}
+                          onValueChange={(value) => updateMapping(index, { role: value as Role })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() =>
+                            update({
+                              groupRoleMappings: draft.groupRoleMappings.filter(
+                                (_, i) => i !== index
+                              ),
+                            })
+                          }
+                          aria-label={`Remove group role for ${mapping.group || 'group'}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    update({
+                      groupRoleMappings: [
+                        ...draft.groupRoleMappings,
+                        { group: '', role: 'EMPLOYEE' },
+                      ],
+                    })
+                  }
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Group
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-4 border-t pt-4">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="sso-enabled"
+                  checked={draft.enabled}
+                  disabled={!data.domain}
+                  onCheckedChange={(checked) =>
+                    update({ enabled: checked, enforced: checked && draft.enforced })
+                  }
+                />
+                <Label htmlFor="sso-enabled" className="font-normal">
+                  Enable single sign-on{data.domain ? ` for @${data.domain}` : ''}
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="sso-enforced"
+                  checked={draft.enforced}
+                  disabled={!draft.enabled}
+                  onCheckedChange={(checked) => update({ enforced: checked })}
+                />
+                <div>
+                  <Label htmlFor="sso-enforced" className="font-normal">
+                    Require single sign-on
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    Turns off password, Google and GitHub login for everyone in the organization
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button type="button" onClick={handleSave} disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save SSO Settings'
+                )}
+              </Button>
+              {connection && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setConfirmDelete(true)}
+                >
+                  Remove SSO
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove single sign-on?</AlertDialogTitle>
+            <AlertDialogDescription>
+              People will sign in with their password, Google or GitHub again. Accounts created
+              through single sign-on stay, but have no password until they reset it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={deleteMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                deleteMutation.mutate();
+              }}
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { trpc } from '@/lib/trpc/Provider';
+import { toast } from 'sonner';
+import { staffingRulesSchema, type StaffingRuleInput } from '@/lib/validations/absence';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, Plus, Trash2, UsersRound } from 'lucide-react';
+
+const ENFORCEMENT_LABELS: Record<StaffingRuleInput['enforcement'], string> = {
+  WARN: 'Warn',
+  BLOCK: 'Block',
+};
+
+/**
+ * Manager panel for the fewest people each department needs present on a working day
+ */
+export function StaffingRulesSettings() {
+  const utils = trpc.useUtils();
+  const [rules, setRules] = useState<StaffingRuleInput[]>([]);
+
+  const { data: savedRules, isLoading } = trpc.absence.getStaffingRules.useQuery(undefined, {
+    staleTime: 10 * 60 * 1000, // 10 minutes - rules are rarely reconfigured
+  });
+  const { data: people } = trpc.user.getOrgChart.useQuery(undefined, {
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const departments = useMemo(
+    () =>
+      Array.from(
+        new Set(people?.map((p) => p.department).filter((d): d is string => !!d) ?? [])
+      ).sort((a, b) => a.localeCompare(b)),
+    [people]
+  );
+  const unusedDepartments = departments.filter(
+    (department) => !rules.some((rule) => rule.department === department)
+  );
+
+  useEffect(() => {
+    if (savedRules) {
+      setRules(savedRules.map((rule) => ({ ...rule })));
+    }
+  }, [savedRules]);
+
+  const updateMutation = trpc.absence.updateStaffingRules.useMutation({
+    onSuccess: () => {
+      toast.success('Staffing rules updated');
+      utils.absence.getStaffingRules.invalidate();
+      utils.absence.getTeamCoverage.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const updateRule = (index: number, changes: Partial<StaffingRuleInput>) => {
+    setRules((prev) => prev.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const handleSave = () => {
+    const parsed = staffingRulesSchema.safeParse(rules);
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message ?? 'Invalid staffing rules');
+      return;
+    }
+
+    updateMutation.mutate(parsed.data);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UsersRound className="h-5 w-5" />
+          Minimum Staffing
+        </CardTitle>
+        <CardDescription>
+          Set how many people each department needs present on a working day. Requests that would
+          leave fewer are flagged to approvers, or blocked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <>
+            {rules.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No staffing rules yet. Departments without a rule are not checked.
+              </p>
+            ) : (
+              <ul className="space-y-3">
+                {rules.map((rule, index) => (
+                  <li key={index} className="grid items-end gap-3 rounded-md border p-3 sm:grid-cols-[1fr_10rem_10rem_auto]">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Department</Label>
+                      <Select
+                        value={rule.department}
+                        onValueChange={(value) => updateRule(index, { department: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Choose department" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {[rule.department, ...unusedDepartments]
+                            .filter((department) => !!department)
+                            .map((department) => (
+                              <SelectItem key={department} value={department}>
+                                {department}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">At least present</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={Number.isNaN(rule.minPresent) ? '' : rule.minPresent}
+                        onChange={(e) => updateRule(index, { minPresent: e.target.valueAsNumber })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">When short</Label>
+                      <Select
+                        value={rule.enforcement}
+                        onValueChange={(value) =>
+                          updateRule(index, {
+                            enforcement: value as StaffingRuleInput['enforcement'],
+                          })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(ENFORCEMENT_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setRules((prev) => prev.filter((_, i) => i !== index))}
+                      aria-label={`Remove staffing rule for ${rule.department || 'department'}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() =>
+                  setRules((prev) => [
+                    ...prev,
+                    { department: unusedDepartments[0] ?? '', minPresent: 1, enforcement: 'WARN' },
+                  ])
+                }
+                disabled={unusedDepartments.length === 0}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Rule
+              </Button>
+              <Button type="button" onClick={handleSave} disabled={updateMutation.isPending}>
+                {updateMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save Rules'
+                )}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -42,6 +42,7 @@ export function TeamMembersList() {
   });
   const [memberToDelete, setMemberToDelete] = useState<{ id: string; name: string } | null>(null);
   const [roleChanging, setRoleChanging] = useState<string | null>(null);
+  const [managerChanging, setManagerChanging] = useState<string | null>(null);
 
   const utils = trpc.useUtils();
 
@@ -78,8 +79,30 @@ export function TeamMembersList() {
     },
   });
 
+  // Update reporting line mutation
+  const setManagerMutation = trpc.user.setManager.useMutation({
+    onSuccess: () => {
+      toast.success('Reporting line updated');
+      utils.user.getAll.invalidate();
+      setManagerChanging(null);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+      setManagerChanging(null);
+    },
+  });
+
   const members = data?.users || [];
   const isManager = session?.role === 'MANAGER';
+  const membersById = new Map(members.map((member) => [member.id, member]));
+
+  const handleManagerChange = (userId: string, managerId: string) => {
+    setManagerChanging(userId);
+    setManagerMutation.mutate({
+      id: userId,
+      managerId: managerId === 'none' ? null : managerId,
+    });
+  };
 
   const handleRoleChange = async (userId: string, newRole: string) => {
     if (newRole !== 'EMPLOYEE' && newRole !== 'MANAGER' && newRole !== 'COWORKER') return;
@@ -99,7 +122,7 @@ export function TeamMembersList() {
             Team Members
           </CardTitle>
           <CardDescription>
-            Manage your organization's team members and their roles
+            Manage your organization's team members, their roles and who they report to
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -120,6 +143,7 @@ export function TeamMembersList() {
                     <TableHead>Email</TableHead>
                     <TableHead>Role</TableHead>
                     <TableHead>Department</TableHead>
+                    <TableHead>Reports To</TableHead>
                     <TableHead>Joined</TableHead>
                     <TableHead>Status</TableHead>
                     {isManager && <TableHead className="text-right">Actions</TableHead>}
@@ -171,6 +195,31 @@ export function TeamMembersList() {
                           )}
                         </TableCell>
                         <TableCell>{member.department || '-'}</TableCell>
+                        <TableCell>
+                          {isManager ? (
+                            <Select
+                              value={member.managerId ?? 'none'}
+                              onValueChange={(value) => handleManagerChange(member.id, value)}
+                              disabled={managerChanging === member.id}
+                            >
+                              <SelectTrigger className="w-40">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">No manager</SelectItem>
+                                {members
+                                  .filter((candidate) => candidate.id !== member.id)
+                                  .map((candidate) => (
+                                    <SelectItem key={candidate.id} value={candidate.id}>
+                                      {candidate.name}
+                                    </SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            (member.managerId && membersById.get(member.managerId)?.name) || '-'
+                          )}
+                        </TableCell>
                         <TableCell className="text-muted-foreground">
                           {member.createdAt ? format(new Date(member.createdAt), 'MMM d, yyyy') : '-'}
                         </TableCell>
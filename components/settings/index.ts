@@ -1,3 +1,16 @@
 export { InviteTeamMember } from './InviteTeamMember';
 export { TeamMembersList } from './TeamMembersList';
 export { PendingInvitations } from './PendingInvitations';
+export { AbsenceTypesSettings } from './AbsenceTypesSettings';
+export { LeavePolicySettings } from './LeavePolicySettings';
+export { ApprovalWorkflowSettings } from './ApprovalWorkflowSettings';
+export { StaffingRulesSettings } from './StaffingRulesSettings';
+export { CompetencyFrameworkSettings } from './CompetencyFrameworkSettings';
+export { HolidayCalendarsSettings } from './HolidayCalendarsSettings';
+export { AIProviderSettings } from './AIProviderSettings';
+export { FeedbackScreeningSettings } from './FeedbackScreeningSettings';
+export { NotificationPreferencesSettings } from './NotificationPreferencesSettings';
+export { RequiredNotificationsSettings } from './RequiredNotificationsSettings';
+export { SsoSettings } from './SsoSettings';
+export { ScimSettings } from './ScimSettings';
+export { PasskeyPolicySettings } from './PasskeyPolicySettings';
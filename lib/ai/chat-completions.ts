@@ -0,0 +1,384 @@
+/**
+ * Feedback polishing over OpenAI-compatible chat completions endpoints
+ * Shared by every provider speaking that protocol (HuggingFace router, local
+ * inference servers such as Ollama, vLLM or llama.cpp)
+ *
+ * Specialized for workplace feedback transformation with:
+ * - Role-based system prompts
+ * - Few-shot examples for consistent output
+ * - Output format constraints
+ */
+
+import { logger } from '@/lib/logger';
+import { parseScreeningResponse, type ScreeningCategoryName } from './screening';
+import {
+  formatSummaryEntries,
+  parseSummaryResponse,
+  MAX_SUMMARY_POINTS,
+  type FeedbackSummaryContent,
+  type SummaryFeedbackEntry,
+} from './summary';
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string;
+    };
+  }>;
+  error?: string;
+}
+
+/**
+ * System prompt that defines the AI's role and behavior
+ */
+export const FEEDBACK_POLISH_SYSTEM_PROMPT = `You are an expert workplace feedback coach specializing in transforming raw feedback into constructive, professional, and actionable guidance.
+
+Your role is to:
+1. PRESERVE the original meaning and intent completely - never change what the feedback is about
+2. REFRAME negative or harsh language into growth-oriented suggestions
+3. ADD specific, actionable recommendations where the original is vague
+4. MAINTAIN appropriate length - similar to the original, slightly longer if adding actionable advice
+5. USE a professional but warm and supportive tone
+
+Critical guidelines:
+- Never add information or concerns not implied by the original feedback
+- Never remove important critical points - constructive criticism is valuable
+- Focus on behaviors and outcomes, not personality traits
+- Suggest concrete improvements, don't just point out problems
+- Keep the feedback direct and honest while being respectful
+- Use "Consider..." or "It would help to..." instead of "You should..." or "You need to..."
+
+Output format:
+- Return ONLY the polished feedback text
+- Do NOT include any explanations, notes, or meta-commentary
+- Do NOT start with "Here's the polished version" or similar phrases
+- Do NOT use quotation marks around your response`;
+
+/**
+ * System prompt for screening feedback before it is submitted
+ */
+export const FEEDBACK_SCREENING_SYSTEM_PROMPT = `You review workplace feedback before it is sent to a colleague.
+
+Flag the feedback with every category that applies:
+- PERSONAL_ATTACK: insults or attacks on the person rather than on their work or behavior
+- PROTECTED_CHARACTERISTIC: references to age, gender, race, ethnicity, nationality, religion, disability, pregnancy, sexual orientation or similar characteristics
+- PROFANITY: swearing or obscene language
+
+Direct or critical feedback about work is fine and must not be flagged.
+
+Output format:
+- Return ONLY a JSON array of category names, e.g. ["PROFANITY"]
+- Return [] when no category applies`;
+
+/**
+ * System prompt for summarizing the feedback someone received
+ */
+export const FEEDBACK_SUMMARY_SYSTEM_PROMPT = `You help managers prepare 1:1 meetings by summarizing the workplace feedback an employee received.
+
+Each piece of feedback starts with its id in square brackets, followed by its type (PRAISE, CONSTRUCTIVE or REQUEST), its date and any competency ratings (1 struggling - 5 excelling).
+
+Write:
+- themes: topics that come up across several pieces of feedback
+- strengths: what the employee is recognized for
+- growthAreas: where the employee is asked to improve
+
+Critical guidelines:
+- Only state what the feedback supports; never speculate about the employee
+- Every point must cite the ids of the feedback it is drawn from
+- Keep each point to one short sentence
+- At most ${MAX_SUMMARY_POINTS} points per section; leave a section empty when nothing applies
+
+Output format:
+- Return ONLY a JSON object: {"themes": [{"text": "...", "feedbackIds": ["..."]}], "strengths": [...], "growthAreas": [...]}`;
+
+/**
+ * Few-shot examples to guide the model's output style
+ */
+const FEW_SHOT_EXAMPLES = [
+  {
+    original: "Your code is messy and hard to read.",
+    polished: "I noticed some opportunities to enhance code readability in your recent work. Consider breaking down longer functions into smaller, focused units and adding brief comments to explain complex logic. Consistent formatting and meaningful variable names would also make the codebase more maintainable for the whole team."
+  },
+  {
+    original: "You're always late to meetings and it's annoying.",
+    polished: "I've observed that meeting punctuality has been a challenge recently. When meetings start late, it impacts the team's momentum and scheduling. Setting calendar reminders 5-10 minutes before meetings might help, and if delays are unavoidable, a quick heads-up message would be appreciated by everyone."
+  },
+  {
+    original: "Good job on the project.",
+    polished: "Great work on completing the project! Your dedication to meeting the deadline while maintaining quality was evident. The approach you took to organize the deliverables made the review process smooth. Keep up this level of attention to detail in future projects."
+  },
+  {
+    original: "You don't communicate enough with the team.",
+    polished: "Increasing communication with the team would really benefit our collaboration. Consider sharing brief updates during standups about your current progress and any blockers you're facing. Proactive communication helps everyone stay aligned and creates opportunities for the team to support each other more effectively."
+  }
+];
+
+/**
+ * Delays execution for exponential backoff retry logic
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Builds the messages array for the chat completion API
+ * Includes system prompt, few-shot examples, and the user's feedback
+ */
+export function buildPolishMessages(content: string): Array<{ role: string; content: string }> {
+  const messages: Array<{ role: string; content: string }> = [
+    {
+      role: 'system',
+      content: FEEDBACK_POLISH_SYSTEM_PROMPT
+    }
+  ];
+
+  // Add few-shot examples
+  for (const example of FEW_SHOT_EXAMPLES) {
+    messages.push({
+      role: 'user',
+      content: `Polish this workplace feedback:\n\n${example.original}`
+    });
+    messages.push({
+      role: 'assistant',
+      content: example.polished
+    });
+  }
+
+  // Add the actual feedback to polish
+  messages.push({
+    role: 'user',
+    content: `Polish this workplace feedback:\n\n${content}`
+  });
+
+  return messages;
+}
+
+/**
+ * Cleans the AI response to remove any unwanted prefixes or formatting
+ */
+export function cleanPolishResponse(response: string): string {
+  let cleaned = response.trim();
+
+  // Remove common unwanted prefixes
+  const unwantedPrefixes = [
+    /^here'?s?\s*(the\s*)?(polished|improved|refined)\s*(version|feedback)?:?\s*/i,
+    /^polished\s*(version|feedback)?:?\s*/i,
+    /^improved\s*(version|feedback)?:?\s*/i,
+  ];
+
+  for (const prefix of unwantedPrefixes) {
+    cleaned = cleaned.replace(prefix, '').trim();
+  }
+
+  // Remove surrounding quotes if present
+  if ((cleaned.startsWith('"') && cleaned.endsWith('"')) ||
+      (cleaned.startsWith("'") && cleaned.endsWith("'"))) {
+    cleaned = cleaned.slice(1, -1).trim();
+  }
+
+  return cleaned;
+}
+
+/**
+ * Chat completions endpoint to polish feedback with
+ */
+export interface ChatCompletionsEndpoint {
+  label: string; // Provider name used in logs and errors
+  url: string;
+  apiKey?: string; // Sent as a bearer token when set
+  model: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Polishes feedback text through a chat completions endpoint
+ * Implements graceful degradation with retry logic
+ *
+ * @param endpoint - Endpoint, model and credentials to use
+ * @param content - Original feedback text to polish
+ * @param maxRetries - Maximum number of retry attempts (default: 3)
+ * @returns Polished feedback text, or original content if the endpoint fails
+ */
+export async function polishWithChatCompletions(
+  endpoint: ChatCompletionsEndpoint,
+  content: string,
+  maxRetries: number = 3
+): Promise<string> {
+  const messages = buildPolishMessages(content);
+  let lastError: Error | null = null;
+
+  // Retry loop with exponential backoff
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          ...(endpoint.apiKey && { Authorization: `Bearer ${endpoint.apiKey}` }),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: endpoint.model,
+          messages: messages,
+          max_tokens: 600,
+          temperature: 0.5, // Lower temperature for more consistent output
+          top_p: 0.9,
+          stop: ['\n\nOriginal:', '\n\nPolish this', '---'], // Stop sequences
+        }),
+        ...(endpoint.timeoutMs && { signal: AbortSignal.timeout(endpoint.timeoutMs) }),
+      });
+
+      // Handle non-200 status codes
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${endpoint.label} API error (${response.status}): ${errorText}`);
+      }
+
+      const result = (await response.json()) as ChatCompletionResponse;
+
+      // Handle OpenAI-compatible chat completion response
+      if (result.choices && result.choices.length > 0) {
+        const messageContent = result.choices[0].message?.content;
+        if (messageContent && messageContent.trim().length > 0) {
+          const polished = cleanPolishResponse(messageContent);
+
+          // Sanity check: polished content should be reasonable length
+          if (polished.length >= 10 && polished.length <= content.length * 5) {
+            logger.info(
+              { provider: endpoint.label, originalLength: content.length, polishedLength: polished.length },
+              'Feedback polished successfully'
+            );
+            return polished;
+          }
+
+          logger.warn(
+            { provider: endpoint.label, originalLength: content.length, polishedLength: polished.length },
+            'Polished content length seems unreasonable, using original'
+          );
+          return content;
+        }
+      }
+
+      // If we got a response but no generated text, treat as error
+      throw new Error('No generated text in response');
+    } catch (error) {
+      lastError = error as Error;
+      logger.error(
+        { error, attempt: attempt + 1, maxRetries },
+        `${endpoint.label} API attempt ${attempt + 1}/${maxRetries} failed`
+      );
+
+      // Don't retry on the last attempt
+      if (attempt < maxRetries - 1) {
+        // Exponential backoff: 1s, 2s, 4s, etc.
+        const backoffMs = Math.pow(2, attempt) * 1000;
+        logger.info({ backoffMs }, `Retrying in ${backoffMs}ms...`);
+        await delay(backoffMs);
+      }
+    }
+  }
+
+  // All retries exhausted - log error and return original content
+  logger.error(
+    { error: lastError?.message },
+    `${endpoint.label} AI polishing failed after all retries`
+  );
+  logger.warn('Returning original content as fallback');
+
+  return content;
+}
+
+/**
+ * Screens feedback text through a chat completions endpoint
+ * Makes a single attempt so submitting feedback is not held up by retries
+ *
+ * @param endpoint - Endpoint, model and credentials to use
+ * @param content - Feedback text to screen
+ * @returns Categories the model flagged, or null if the endpoint fails or its answer cannot be read
+ */
+export async function screenWithChatCompletions(
+  endpoint: ChatCompletionsEndpoint,
+  content: string
+): Promise<ScreeningCategoryName[] | null> {
+  try {
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        ...(endpoint.apiKey && { Authorization: `Bearer ${endpoint.apiKey}` }),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: endpoint.model,
+        messages: [
+          { role: 'system', content: FEEDBACK_SCREENING_SYSTEM_PROMPT },
+          { role: 'user', content: `Screen this workplace feedback:\n\n${content}` },
+        ],
+        max_tokens: 50,
+        temperature: 0, // Classification - same answer every time
+      }),
+      ...(endpoint.timeoutMs && { signal: AbortSignal.timeout(endpoint.timeoutMs) }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`${endpoint.label} API error (${response.status}): ${errorText}`);
+    }
+
+    const result = (await response.json()) as ChatCompletionResponse;
+    const categories = parseScreeningResponse(result.choices?.[0]?.message?.content ?? '');
+    if (!categories) {
+      logger.warn({ provider: endpoint.label }, 'Unreadable screening answer from model');
+    }
+    return categories;
+  } catch (error) {
+    logger.error({ error, provider: endpoint.label }, `${endpoint.label} feedback screening failed`);
+    return null;
+  }
+}
+
+/**
+ * Summarizes feedback through a chat completions endpoint
+ * Makes a single attempt; callers fall back to the rule-based summary
+ *
+ * @param endpoint - Endpoint, model and credentials to use
+ * @param entries - Feedback to summarize
+ * @returns The summary, or null if the endpoint fails or its answer cannot be read
+ */
+export async function summarizeWithChatCompletions(
+  endpoint: ChatCompletionsEndpoint,
+  entries: SummaryFeedbackEntry[]
+): Promise<FeedbackSummaryContent | null> {
+  try {
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        ...(endpoint.apiKey && { Authorization: `Bearer ${endpoint.apiKey}` }),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: endpoint.model,
+        messages: [
+          { role: 'system', content: FEEDBACK_SUMMARY_SYSTEM_PROMPT },
+          { role: 'user', content: `Summarize this feedback:\n\n${formatSummaryEntries(entries)}` },
+        ],
+        max_tokens: 1000,
+        temperature: 0.3,
+      }),
+      ...(endpoint.timeoutMs && { signal: AbortSignal.timeout(endpoint.timeoutMs) }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`${endpoint.label} API error (${response.status}): ${errorText}`);
+    }
+
+    const result = (await response.json()) as ChatCompletionResponse;
+    const summary = parseSummaryResponse(result.choices?.[0]?.message?.content ?? '', entries);
+    if (!summary) {
+      logger.warn({ provider: endpoint.label }, 'Unreadable summary answer from model');
+    }
+    return summary;
+  } catch (error) {
+    logger.error({ error, provider: endpoint.label }, `${endpoint.label} feedback summary failed`);
+    return null;
+  }
+}
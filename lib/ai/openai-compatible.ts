@@ -0,0 +1,92 @@
+/**
+ * OpenAI-compatible AI Integration for Feedback Polishing
+ * Works with any server exposing /chat/completions: OpenAI itself, or a local
+ * inference server (Ollama, vLLM, llama.cpp) for deployments without outbound network
+ */
+
+import { aiConfig } from '@/lib/config';
+import {
+  polishWithChatCompletions,
+  screenWithChatCompletions,
+  summarizeWithChatCompletions,
+  type ChatCompletionsEndpoint,
+} from './chat-completions';
+import { screenWithLexicon, type ScreeningCategoryName } from './screening';
+import {
+  summarizeWithRules,
+  type FeedbackSummaryContent,
+  type SummaryFeedbackEntry,
+} from './summary';
+
+function openAICompatibleEndpoint(): ChatCompletionsEndpoint {
+  return {
+    label: 'OpenAI-compatible',
+    url: `${aiConfig.openAICompatibleBaseUrl.replace(/\/+$/, '')}/chat/completions`,
+    apiKey: aiConfig.openAICompatibleApiKey || undefined,
+    model: aiConfig.openAICompatibleModel,
+    timeoutMs: aiConfig.requestTimeout,
+  };
+}
+
+/**
+ * Polishes feedback text using the configured OpenAI-compatible endpoint
+ *
+ * @param content - Original feedback text to polish
+ * @param maxRetries - Maximum number of retry attempts (default: 3)
+ * @returns Polished feedback text, or original content if the endpoint fails
+ */
+export async function polishFeedbackWithOpenAICompatible(
+  content: string,
+  maxRetries: number = 3
+): Promise<string> {
+  if (!isOpenAICompatibleConfigured()) {
+    return content;
+  }
+
+  return polishWithChatCompletions(openAICompatibleEndpoint(), content, maxRetries);
+}
+
+/**
+ * Screens feedback text using the configured OpenAI-compatible endpoint
+ * Falls back to the local lexicon when no endpoint is configured or it fails
+ *
+ * @param content - Feedback text to screen
+ * @returns Categories the text was flagged for
+ */
+export async function screenFeedbackWithOpenAICompatible(
+  content: string
+): Promise<ScreeningCategoryName[]> {
+  if (!isOpenAICompatibleConfigured()) {
+    return screenWithLexicon(content);
+  }
+
+  return (await screenWithChatCompletions(openAICompatibleEndpoint(), content)) ?? screenWithLexicon(content);
+}
+
+/**
+ * Summarizes feedback using the configured OpenAI-compatible endpoint
+ * Falls back to the rule-based summary when no endpoint is configured or it fails
+ *
+ * @param entries - Feedback to summarize
+ * @returns Summary citing the feedback each point is drawn from
+ */
+export async function summarizeFeedbackWithOpenAICompatible(
+  entries: SummaryFeedbackEntry[]
+): Promise<FeedbackSummaryContent> {
+  if (!isOpenAICompatibleConfigured()) {
+    return summarizeWithRules(entries);
+  }
+
+  return (
+    (await summarizeWithChatCompletions(openAICompatibleEndpoint(), entries)) ??
+    summarizeWithRules(entries)
+  );
+}
+
+/**
+ * Check if an OpenAI-compatible endpoint is configured
+ * @returns true if a base URL is set, false otherwise
+ */
+export function isOpenAICompatibleConfigured(): boolean {
+  return !!aiConfig.openAICompatibleBaseUrl;
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { openPolishToken, sealPolishToken } from './polish-token';
+
+const polished = 'Consider walking the team through the release plan earlier.';
+
+describe('polish token', () => {
+  beforeAll(() => {
+    process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+  });
+
+  it('round-trips the provider for the same user and text', () => {
+    const sealed = sealPolishToken('user-1', 'huggingface', polished);
+
+    expect(openPolishToken(sealed, 'user-1', polished)).toBe('huggingface');
+  });
+
+  it('rejects tokens of another user or for other text', () => {
+    const sealed = sealPolishToken('user-1', 'huggingface', polished);
+
+    expect(openPolishToken(sealed, 'user-2', polished)).toBeUndefined();
+    expect(openPolishToken(sealed, 'user-1', `${polished} Edited.`)).toBeUndefined();
+    expect(openPolishToken(sealed, 'user-1', undefined)).toBeUndefined();
+  });
+
+  it('rejects tampered or missing tokens', () => {
+    const sealed = sealPolishToken('user-1', 'huggingface', polished);
+
+    expect(openPolishToken(`${sealed.slice(0, -4)}AAAA`, 'user-1', polished)).toBeUndefined();
+    expect(openPolishToken(undefined, 'user-1', polished)).toBeUndefined();
+  });
+
+  it('rejects tokens older than thirty minutes', () => {
+    vi.useFakeTimers();
+    try {
+      const sealed = sealPolishToken('user-1', 'huggingface', polished);
+      vi.advanceTimersByTime(31 * 60 * 1000);
+      expect(openPolishToken(sealed, 'user-1', polished)).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
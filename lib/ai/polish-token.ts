@@ -0,0 +1,61 @@
+import crypto from 'crypto';
+import { decrypt, encrypt } from '@/lib/encryption';
+import { aiProviderSchema, type AIProvider } from '@/lib/validations/feedback';
+
+export const POLISH_TOKEN_MAX_AGE_SECONDS = 1800; // 30 minutes to review and submit polished text
+
+/**
+ * Proof that the server polished some text for a user, and with which provider
+ */
+interface PolishToken {
+  userId: string;
+  provider: AIProvider;
+  contentHash: string;
+  issuedAt: number;
+}
+
+const hashContent = (content: string) =>
+  crypto.createHash('sha256').update(content).digest('base64url');
+
+/**
+ * Seal the provider that polished a text, so feedback created from it can record the
+ * provider without trusting the client
+ */
+export function sealPolishToken(userId: string, provider: AIProvider, polishedContent: string): string {
+  const token: PolishToken = {
+    userId,
+    provider,
+    contentHash: hashContent(polishedContent),
+    issuedAt: Date.now(),
+  };
+  return encrypt(JSON.stringify(token));
+}
+
+/**
+ * Open a sealed polish token
+ * @returns The provider that polished the text, or undefined if the token was tampered with,
+ * is too old, or was issued to another user or for other text
+ */
+export function openPolishToken(
+  sealed: string | null | undefined,
+  userId: string,
+  polishedContent: string | undefined
+): AIProvider | undefined {
+  if (!sealed || !polishedContent) {
+    return undefined;
+  }
+
+  try {
+    const token = JSON.parse(decrypt(sealed)) as PolishToken;
+    if (
+      Date.now() - token.issuedAt > POLISH_TOKEN_MAX_AGE_SECONDS * 1000 ||
+      token.userId !== userId ||
+      token.contentHash !== hashContent(polishedContent)
+    ) {
+      return undefined;
+    }
+    return aiProviderSchema.parse(token.provider);
+  } catch {
+    return undefined;
+  }
+}
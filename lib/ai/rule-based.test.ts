@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { polishFeedbackWithRules } from './rule-based';
+
+describe('polishFeedbackWithRules', () => {
+  it('softens directive and harsh wording', () => {
+    expect(polishFeedbackWithRules('You should comment your code, it is messy')).toBe(
+      'It would help to comment your code, it is hard to follow.'
+    );
+    expect(polishFeedbackWithRules('you always join late and it is annoying!!!')).toBe(
+      'You often join late and it is frustrating for the team!'
+    );
+  });
+
+  it('tidies spacing, capitalization and punctuation', () => {
+    expect(polishFeedbackWithRules('  great demo .   i liked the   charts  ')).toBe(
+      'Great demo. I liked the charts.'
+    );
+  });
+
+  it('keeps paragraph breaks and is deterministic', () => {
+    const content = 'first point\n\n\nsecond point';
+
+    expect(polishFeedbackWithRules(content)).toBe('First point.\n\nSecond point.');
+    expect(polishFeedbackWithRules(content)).toBe(polishFeedbackWithRules(content));
+  });
+});
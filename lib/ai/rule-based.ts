@@ -0,0 +1,65 @@
+/**
+ * Rule-based Feedback Polishing
+ * Deterministic, offline fallback for deployments without an AI model:
+ * softens directive and harsh wording and tidies up spacing, punctuation and
+ * capitalization. It never adds content, so the meaning stays the giver's.
+ */
+
+/**
+ * Phrase rewrites, applied in order at word boundaries (case-insensitive)
+ */
+const REWRITES: Array<[RegExp, string]> = [
+  [/\byou (should|must|need to|have to)\b/gi, 'it would help to'],
+  [/\byou always\b/gi, 'you often'],
+  [/\byou never\b/gi, 'you rarely'],
+  [/\byou don'?t\b/gi, "you don't always"],
+  [/\b(terrible|awful|horrible)\b/gi, 'disappointing'],
+  [/\b(stupid|dumb)\b/gi, 'unclear'],
+  [/\bmessy\b/gi, 'hard to follow'],
+  [/\blazy\b/gi, 'less thorough than usual'],
+  [/\bannoying\b/gi, 'frustrating for the team'],
+];
+
+const upperFirst = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Keep the capitalization of the phrase being replaced
+ */
+const matchCase = (replacement: string, original: string) =>
+  /^[A-Z]/.test(original) ? upperFirst(replacement) : replacement;
+
+function polishParagraph(paragraph: string): string {
+  let text = paragraph.replace(/\s+/g, ' ').trim();
+
+  for (const [pattern, replacement] of REWRITES) {
+    text = text.replace(pattern, (match) => matchCase(replacement, match));
+  }
+
+  text = text
+    .replace(/([!?])\1+/g, '$1') // "!!!" -> "!"
+    .replace(/\.{4,}/g, '...')
+    .replace(/\s+([,.!?;:])/g, '$1') // No space before punctuation
+    .replace(/\bi\b/g, 'I')
+    .replace(/(^|[.!?]\s+)([a-z])/g, (_, boundary: string, letter: string) => boundary + letter.toUpperCase());
+
+  if (text && !/[.!?]$/.test(text)) {
+    text += '.';
+  }
+
+  return text;
+}
+
+/**
+ * Polishes feedback text with fixed rewrite rules
+ * The same input always gives the same output
+ *
+ * @param content - Original feedback text to polish
+ * @returns Polished feedback text (paragraph breaks are kept)
+ */
+export function polishFeedbackWithRules(content: string): string {
+  return content
+    .split(/\n\s*\n/)
+    .map(polishParagraph)
+    .filter((paragraph) => paragraph.length > 0)
+    .join('\n\n');
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { parseScreeningResponse, screenWithLexicon } from './screening';
+
+describe('screenWithLexicon', () => {
+  it('passes constructive feedback', () => {
+    expect(
+      screenWithLexicon('The release notes were hard to follow - shorter sections would help.')
+    ).toEqual([]);
+  });
+
+  it('flags personal attacks, protected characteristics and profanity', () => {
+    expect(screenWithLexicon("You're completely useless in planning meetings")).toEqual([
+      'PERSONAL_ATTACK',
+    ]);
+    expect(screenWithLexicon('Maybe she is too old to pick up the new stack')).toEqual([
+      'PROTECTED_CHARACTERISTIC',
+    ]);
+    expect(screenWithLexicon('That demo was shitty, you idiot')).toEqual([
+      'PERSONAL_ATTACK',
+      'PROFANITY',
+    ]);
+  });
+
+  it('matches whole words only', () => {
+    expect(screenWithLexicon('We should assess the scrap rate at the Scunthorpe site')).toEqual([]);
+  });
+});
+
+describe('parseScreeningResponse', () => {
+  it('reads the category array out of the model answer', () => {
+    expect(parseScreeningResponse('Categories: ["PROFANITY", "UNKNOWN"]')).toEqual(['PROFANITY']);
+    expect(parseScreeningResponse('[]')).toEqual([]);
+  });
+
+  it('returns null when there is no array to read', () => {
+    expect(parseScreeningResponse('This feedback looks fine.')).toBeNull();
+    expect(parseScreeningResponse('[PROFANITY]')).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Feedback Screening
+ * Flags personal attacks, references to protected characteristics and
+ * profanity before feedback is submitted. The lexicon below is the local
+ * fallback used when no AI model is available or the model fails.
+ */
+
+export const SCREENING_CATEGORIES = [
+  'PERSONAL_ATTACK',
+  'PROTECTED_CHARACTERISTIC',
+  'PROFANITY',
+] as const;
+
+export type ScreeningCategoryName = (typeof SCREENING_CATEGORIES)[number];
+
+/**
+ * Patterns per category, matched case-insensitively at word boundaries
+ */
+const LEXICON: Record<ScreeningCategoryName, RegExp[]> = {
+  PERSONAL_ATTACK: [
+    /\byou(?:'re| are)\s+(?:(?:an?|so|such an?|completely|totally)\s+)?(?:idiot|moron|stupid|useless|incompetent|pathetic|worthless|clueless|hopeless|lazy|a joke|a disgrace)\b/i,
+    /\b(?:idiot|moron|imbecile|dumbass|loser|halfwit)s?\b/i,
+    /\bshut up\b/i,
+    /\bnobody (?:likes|wants|respects) you\b/i,
+    /\bwaste of (?:space|oxygen)\b/i,
+  ],
+  PROTECTED_CHARACTERISTIC: [
+    /\b(?:too|so) (?:old|young)\b/i,
+    /\b(?:your|his|her|their) (?:age|gender|race|religion|ethnicity|nationality|accent|disability|pregnancy|sexuality|skin)\b/i,
+    /\bfor a (?:woman|man|girl|guy|mother|mum|mom|foreigner)\b/i,
+    /\b(?:pregnant|pregnancy|menopaus\w*|disabled|handicapped|wheelchair)\b/i,
+    /\b(?:gay|lesbian|bisexual|transgender|queer)\b/i,
+    /\b(?:muslim|christian|jewish|hindu|sikh|buddhist|atheist)s?\b/i,
+    /\b(?:immigrant|foreigner|boomer|millennial|gen z)s?\b/i,
+  ],
+  PROFANITY: [
+    /\bf+u+c+k\w*/i,
+    /\bs+h+i+t+\w*/i,
+    /\bbullshit\b/i,
+    /\b(?:bitch|bastard|asshole|arsehole|dickhead|prick|twat|wanker)(?:es|s)?\b/i,
+    /\b(?:crap|crappy|damn|goddamn|wtf|stfu)\b/i,
+    /\bpiss(?:ed)? off\b/i,
+  ],
+};
+
+/**
+ * Screens feedback text against the local lexicon
+ * The same input always gives the same output
+ *
+ * @param content - Feedback text to screen
+ * @returns Categories the text was flagged for, in SCREENING_CATEGORIES order
+ */
+export function screenWithLexicon(content: string): ScreeningCategoryName[] {
+  return SCREENING_CATEGORIES.filter((category) =>
+    LEXICON[category].some((pattern) => pattern.test(content))
+  );
+}
+
+/**
+ * Parses a model's screening answer - a JSON array of category names
+ * Tolerates text around the array; unknown categories are dropped
+ *
+ * @param response - Raw model output
+ * @returns Categories the model flagged, or null if the answer cannot be read
+ */
+export function parseScreeningResponse(response: string): ScreeningCategoryName[] | null {
+  const match = response.match(/\[[^\]]*\]/);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(match[0]);
+    if (!Array.isArray(parsed)) {
+      return null;
+    }
+    return SCREENING_CATEGORIES.filter((category) => parsed.includes(category));
+  } catch {
+    return null;
+  }
+}
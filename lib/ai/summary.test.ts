@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { parseSummaryResponse, summarizeWithRules, type SummaryFeedbackEntry } from './summary';
+
+const entry = (
+  id: string,
+  type: string,
+  competencies: SummaryFeedbackEntry['competencies'] = []
+): SummaryFeedbackEntry => ({
+  id,
+  content: `Feedback ${id}`,
+  type,
+  competencies,
+  createdAt: new Date('2026-03-01'),
+});
+
+describe('summarizeWithRules', () => {
+  it('groups feedback by competency, citing where each point comes from', () => {
+    const summary = summarizeWithRules([
+      entry('a', 'PRAISE', [{ name: 'Communication' }]),
+      entry('b', 'CONSTRUCTIVE', [{ name: 'Communication', rating: 5 }, { name: 'Ownership' }]),
+      entry('c', 'CONSTRUCTIVE', [{ name: 'Ownership', rating: 2 }]),
+    ]);
+
+    expect(summary.themes).toEqual([
+      { text: 'Communication came up in 2 pieces of feedback', feedbackIds: ['a', 'b'] },
+      { text: 'Ownership came up in 2 pieces of feedback', feedbackIds: ['b', 'c'] },
+    ]);
+    // Ratings win over the feedback type
+    expect(summary.strengths).toEqual([
+      { text: 'Communication (2 positive mentions)', feedbackIds: ['a', 'b'] },
+    ]);
+    expect(summary.growthAreas).toEqual([
+      { text: 'Ownership (2 suggestions for growth)', feedbackIds: ['b', 'c'] },
+    ]);
+  });
+
+  it('summarizes feedback without competencies under general points', () => {
+    const summary = summarizeWithRules([entry('a', 'PRAISE'), entry('b', 'REQUEST')]);
+
+    expect(summary.themes).toEqual([]);
+    expect(summary.strengths).toEqual([{ text: 'General praise (1 mention)', feedbackIds: ['a'] }]);
+    expect(summary.growthAreas).toEqual([{ text: 'General suggestions (1 mention)', feedbackIds: ['b'] }]);
+  });
+});
+
+describe('parseSummaryResponse', () => {
+  const entries = [entry('a', 'PRAISE'), entry('b', 'CONSTRUCTIVE')];
+
+  it('reads the summary out of the model answer, keeping only known citations', () => {
+    const response = `Here is the summary:
+      {"themes": [{"text": "Planning", "feedbackIds": ["a", "b"]}],
+       "strengths": [{"text": "Clear demos", "feedbackIds": ["a", "zzz"]}],
+       "growthAreas": [{"text": "Made up", "feedbackIds": ["zzz"]}]}`;
+
+    expect(parseSummaryResponse(response, entries)).toEqual({
+      themes: [{ text: 'Planning', feedbackIds: ['a', 'b'] }],
+      strengths: [{ text: 'Clear demos', feedbackIds: ['a'] }],
+      growthAreas: [],
+    });
+  });
+
+  it('returns null when there is no summary to read', () => {
+    expect(parseSummaryResponse('No feedback to summarize.', entries)).toBeNull();
+    expect(parseSummaryResponse('{"themes": []}', entries)).toBeNull();
+  });
+});
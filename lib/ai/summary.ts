@@ -0,0 +1,201 @@
+/**
+ * Feedback Summaries
+ * Themes, strengths and growth areas across the feedback someone received,
+ * each citing the feedback it is drawn from. The rule-based summary below is
+ * the offline fallback used when no AI model is available or the model fails.
+ */
+
+/**
+ * Feedback handed to a summarizer
+ */
+export interface SummaryFeedbackEntry {
+  id: string;
+  content: string;
+  type: string; // PRAISE, CONSTRUCTIVE or REQUEST
+  competencies: Array<{ name: string; rating?: number }>;
+  createdAt: Date;
+}
+
+export interface SummaryPoint {
+  text: string;
+  feedbackIds: string[];
+}
+
+export interface FeedbackSummaryContent {
+  themes: SummaryPoint[];
+  strengths: SummaryPoint[];
+  growthAreas: SummaryPoint[];
+}
+
+export const MAX_SUMMARY_POINTS = 5;
+
+/**
+ * Longest feedback text sent to a model; longer feedback is cut short
+ */
+export const MAX_SUMMARY_ENTRY_LENGTH = 1000;
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/**
+ * Group feedback ids under each competency they are tagged with, most cited first
+ */
+function groupByCompetency(
+  entries: SummaryFeedbackEntry[],
+  include: (entry: SummaryFeedbackEntry, rating?: number) => boolean
+): Array<[string, string[]]> {
+  const groups = new Map<string, string[]>();
+
+  for (const entry of entries) {
+    for (const competency of entry.competencies) {
+      if (include(entry, competency.rating)) {
+        groups.set(competency.name, [...(groups.get(competency.name) ?? []), entry.id]);
+      }
+    }
+  }
+
+  return [...groups.entries()].sort(
+    ([a, idsA], [b, idsB]) => idsB.length - idsA.length || a.localeCompare(b)
+  );
+}
+
+const isPositive = (entry: SummaryFeedbackEntry, rating?: number) =>
+  rating !== undefined ? rating >= 4 : entry.type === 'PRAISE';
+
+const isDevelopmental = (entry: SummaryFeedbackEntry, rating?: number) =>
+  rating !== undefined ? rating <= 2 : entry.type !== 'PRAISE';
+
+/**
+ * Summarizes feedback from its types, competency tags and ratings
+ * The same input always gives the same output
+ *
+ * @param entries - Feedback to summarize
+ * @returns Themes, strengths and growth areas citing the feedback they come from
+ */
+export function summarizeWithRules(entries: SummaryFeedbackEntry[]): FeedbackSummaryContent {
+  const themes = groupByCompetency(entries, () => true)
+    .filter(([, ids]) => ids.length > 1)
+    .map(([name, ids]) => ({
+      text: `${name} came up in ${plural(ids.length, 'piece')} of feedback`,
+      feedbackIds: ids,
+    }));
+
+  const strengths = groupByCompetency(entries, isPositive).map(([name, ids]) => ({
+    text: `${name} (${plural(ids.length, 'positive mention')})`,
+    feedbackIds: ids,
+  }));
+
+  const growthAreas = groupByCompetency(entries, isDevelopmental).map(([name, ids]) => ({
+    text: `${name} (${plural(ids.length, 'suggestion')} for growth)`,
+    feedbackIds: ids,
+  }));
+
+  // Feedback without competency tags still counts, under a general point
+  const untagged = entries.filter((entry) => entry.competencies.length === 0);
+  const untaggedPraise = untagged.filter((e) => e.type === 'PRAISE').map((e) => e.id);
+  const untaggedGrowth = untagged.filter((e) => e.type !== 'PRAISE').map((e) => e.id);
+  if (untaggedPraise.length > 0) {
+    strengths.push({
+      text: `General praise (${plural(untaggedPraise.length, 'mention')})`,
+      feedbackIds: untaggedPraise,
+    });
+  }
+  if (untaggedGrowth.length > 0) {
+    growthAreas.push({
+      text: `General suggestions (${plural(untaggedGrowth.length, 'mention')})`,
+      feedbackIds: untaggedGrowth,
+    });
+  }
+
+  return {
+    themes: themes.slice(0, MAX_SUMMARY_POINTS),
+    strengths: strengths.slice(0, MAX_SUMMARY_POINTS),
+    growthAreas: growthAreas.slice(0, MAX_SUMMARY_POINTS),
+  };
+}
+
+/**
+ * Formats feedback for a model, one entry per block, each tagged with its id
+ */
+export function formatSummaryEntries(entries: SummaryFeedbackEntry[]): string {
+  return entries
+    .map((entry) => {
+      const competencies = entry.competencies
+        .map((c) => (c.rating !== undefined ? `${c.name} ${c.rating}/5` : c.name))
+        .join(', ');
+      const content =
+        entry.content.length > MAX_SUMMARY_ENTRY_LENGTH
+          ? `${entry.content.slice(0, MAX_SUMMARY_ENTRY_LENGTH)}...`
+          : entry.content;
+
+      return [
+        `[${entry.id}] ${entry.type}, ${entry.createdAt.toISOString().slice(0, 10)}`,
+        ...(competencies ? [`Competencies: ${competencies}`] : []),
+        content,
+      ].join('\n');
+    })
+    .join('\n\n');
+}
+
+function parseSection(value: unknown, knownIds: Set<string>): SummaryPoint[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  return value
+    .flatMap((point: unknown) => {
+      if (typeof point !== 'object' || point === null) {
+        return [];
+      }
+
+      const { text, feedbackIds } = point as { text?: unknown; feedbackIds?: unknown };
+      const cited = Array.isArray(feedbackIds)
+        ? [
+            ...new Set(
+              feedbackIds.filter((id): id is string => typeof id === 'string' && knownIds.has(id))
+            ),
+          ]
+        : [];
+
+      // A point without a valid citation cannot be traced back, so it is dropped
+      return typeof text === 'string' && text.trim() && cited.length > 0
+        ? [{ text: text.trim(), feedbackIds: cited }]
+        : [];
+    })
+    .slice(0, MAX_SUMMARY_POINTS);
+}
+
+/**
+ * Parses a model's summary answer - a JSON object with themes, strengths and growthAreas
+ * Tolerates text around the object; points citing unknown feedback ids lose those
+ * citations, and points left without any are dropped
+ *
+ * @param response - Raw model output
+ * @param entries - Feedback the model was asked to summarize
+ * @returns The summary, or null if the answer cannot be read
+ */
+export function parseSummaryResponse(
+  response: string,
+  entries: SummaryFeedbackEntry[]
+): FeedbackSummaryContent | null {
+  const start = response.indexOf('{');
+  const end = response.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(response.slice(start, end + 1)) as Record<string, unknown>;
+    const knownIds = new Set(entries.map((entry) => entry.id));
+
+    const themes = parseSection(parsed.themes, knownIds);
+    const strengths = parseSection(parsed.strengths, knownIds);
+    const growthAreas = parseSection(parsed.growthAreas, knownIds);
+    if (!themes || !strengths || !growthAreas) {
+      return null;
+    }
+
+    return { themes, strengths, growthAreas };
+  } catch {
+    return null;
+  }
+}
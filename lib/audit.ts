@@ -248,7 +248,14 @@ export async function auditFeedbackOperation(
  */
 export async function auditAbsenceOperation(
   context: AuditContext,
-  action: 'CREATE_ABSENCE' | 'VIEW_ABSENCE' | 'DELETE_ABSENCE' | 'UPDATE_ABSENCE_STATUS',
+  action:
+    | 'CREATE_ABSENCE'
+    | 'VIEW_ABSENCE'
+    | 'UPDATE_ABSENCE'
+    | 'DELETE_ABSENCE'
+    | 'UPDATE_ABSENCE_STATUS'
+    | 'REQUEST_ABSENCE_CANCELLATION'
+    | 'CANCEL_ABSENCE',
   absenceId: string,
   metadata?: Record<string, unknown>
 ): Promise<void> {
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import {
+  getRelyingParty,
+  isPhishingResistantSession,
+  openPasskeyChallenge,
+  sealPasskeyChallenge,
+} from './passkeys';
+
+// Only the functions that need no database are tested here
+vi.mock('@/server/db', () => ({ prisma: {} }));
+
+describe('passkey challenges', () => {
+  beforeAll(() => {
+    process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+  });
+
+  it('round-trips a sealed challenge', () => {
+    const sealed = sealPasskeyChallenge({
+      ceremony: 'two_factor',
+      challenge: 'abc123',
+      userId: 'user-1',
+    });
+
+    expect(openPasskeyChallenge(sealed, 'two_factor')).toMatchObject({
+      ceremony: 'two_factor',
+      challenge: 'abc123',
+      userId: 'user-1',
+    });
+  });
+
+  it('rejects a challenge issued for another ceremony', () => {
+    const sealed = sealPasskeyChallenge({ ceremony: 'login', challenge: 'abc123' });
+
+    expect(openPasskeyChallenge(sealed, 'two_factor')).toBeNull();
+    expect(openPasskeyChallenge(sealed, 'registration')).toBeNull();
+  });
+
+  it('rejects tampered or missing challenges', () => {
+    const sealed = sealPasskeyChallenge({ ceremony: 'login', challenge: 'abc123' });
+
+    expect(openPasskeyChallenge(`${sealed.slice(0, -4)}AAAA`, 'login')).toBeNull();
+    expect(openPasskeyChallenge(undefined, 'login')).toBeNull();
+  });
+
+  it('rejects challenges older than five minutes', () => {
+    vi.useFakeTimers();
+    try {
+      const sealed = sealPasskeyChallenge({ ceremony: 'login', challenge: 'abc123' });
+      vi.advanceTimersByTime(6 * 60 * 1000);
+      expect(openPasskeyChallenge(sealed, 'login')).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('getRelyingParty', () => {
+  it('binds passkeys to the application host', () => {
+    const { rpID, origin } = getRelyingParty();
+    const appUrl = new URL(process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000');
+
+    expect(rpID).toBe(appUrl.hostname);
+    expect(origin).toBe(appUrl.origin);
+  });
+});
+
+describe('isPhishingResistantSession', () => {
+  it('accepts passkey and SSO sign-ins', () => {
+    expect(isPhishingResistantSession({ authMethod: 'passkey' })).toBe(true);
+    expect(isPhishingResistantSession({ authMethod: 'sso' })).toBe(true);
+  });
+
+  it('rejects password and social sign-ins', () => {
+    expect(isPhishingResistantSession({})).toBe(false);
+  });
+});
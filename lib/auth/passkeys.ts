@@ -0,0 +1,358 @@
+import { cookies } from 'next/headers';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { prisma } from '@/server/db';
+import { decrypt, encrypt } from '@/lib/encryption';
+import { logger } from '@/lib/logger';
+import type { SessionData } from '@/lib/session';
+import type { OrganizationSettings } from '@/src/domain/entities/Organization';
+
+/**
+ * Options for the browser's WebAuthn API - no extensions are asked for, and leaving them out
+ * keeps the binary-valued ones out of the JSON API types
+ */
+export type PasskeyCreationOptions = Omit<PublicKeyCredentialCreationOptionsJSON, 'extensions'>;
+export type PasskeyRequestOptions = Omit<PublicKeyCredentialRequestOptionsJSON, 'extensions'>;
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+const APP_NAME = process.env.NEXT_PUBLIC_APP_NAME || 'Employee Hub';
+
+export const PASSKEY_CHALLENGE_COOKIE = 'passkey_challenge';
+export const PASSKEY_CHALLENGE_MAX_AGE_SECONDS = 300; // 5 minutes
+export const MAX_PASSKEYS_PER_USER = 10;
+
+/**
+ * What a challenge was issued for - a challenge only verifies the ceremony it was made for
+ */
+export type PasskeyCeremony = 'registration' | 'login' | 'two_factor';
+
+export interface PasskeyChallenge {
+  ceremony: PasskeyCeremony;
+  challenge: string;
+  userId?: string; // The user the ceremony is limited to, unless any passkey may answer
+  issuedAt: number;
+}
+
+/**
+ * The relying party passkeys are bound to - derived from the application URL
+ */
+export function getRelyingParty() {
+  const url = new URL(APP_URL);
+  return { rpID: url.hostname, rpName: APP_NAME, origin: url.origin };
+}
+
+/**
+ * Seal a challenge so it can wait in a cookie until the browser answers it
+ */
+export function sealPasskeyChallenge(challenge: Omit<PasskeyChallenge, 'issuedAt'>): string {
+  return encrypt(JSON.stringify({ ...challenge, issuedAt: Date.now() }));
+}
+
+/**
+ * Open a sealed challenge
+ * @param ceremony - The ceremony being verified
+ * @returns The challenge, or null if it was tampered with, is too old or was for another ceremony
+ */
+export function openPasskeyChallenge(
+  sealed: string | null | undefined,
+  ceremony: PasskeyCeremony
+): PasskeyChallenge | null {
+  if (!sealed) {
+    return null;
+  }
+
+  try {
+    const challenge = JSON.parse(decrypt(sealed)) as PasskeyChallenge;
+    if (
+      challenge.ceremony !== ceremony ||
+      Date.now() - challenge.issuedAt > PASSKEY_CHALLENGE_MAX_AGE_SECONDS * 1000
+    ) {
+      return null;
+    }
+    return challenge;
+  } catch {
+    return null;
+  }
+}
+
+async function storeChallenge(challenge: Omit<PasskeyChallenge, 'issuedAt'>): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(PASSKEY_CHALLENGE_COOKIE, sealPasskeyChallenge(challenge), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: PASSKEY_CHALLENGE_MAX_AGE_SECONDS,
+    path: '/',
+  });
+}
+
+/**
+ * Read and clear the pending challenge, so each one can be answered only once
+ */
+async function takeChallenge(ceremony: PasskeyCeremony): Promise<PasskeyChallenge | null> {
+  const cookieStore = await cookies();
+  const sealed = cookieStore.get(PASSKEY_CHALLENGE_COOKIE)?.value;
+  cookieStore.delete(PASSKEY_CHALLENGE_COOKIE);
+
+  return openPasskeyChallenge(sealed, ceremony);
+}
+
+/**
+ * Start registering a new passkey for a user
+ * @param user - The signed-in user
+ * @returns Options to pass to the browser's WebAuthn API
+ */
+export async function createPasskeyRegistrationOptions(user: {
+  id: string;
+  email: string;
+  name: string;
+}): Promise<PasskeyCreationOptions> {
+  const { rpID, rpName } = getRelyingParty();
+  const existing = await prisma.passkeyCredential.findMany({
+    where: { userId: user.id },
+    select: { credentialId: true, transports: true },
+  });
+
+  const options = await generateRegistrationOptions({
+    rpName,
+    rpID,
+    userName: user.email,
+    userDisplayName: user.name,
+    userID: new TextEncoder().encode(user.id),
+    attestationType: 'none',
+    // An authenticator already registered would only end up listed twice
+    excludeCredentials: existing.map((credential) => ({
+      id: credential.credentialId,
+      transports: credential.transports,
+    })),
+    authenticatorSelection: {
+      residentKey: 'required', // Discoverable, so it can sign in without an email
+      userVerification: 'required',
+    },
+  });
+
+  await storeChallenge({ ceremony: 'registration', challenge: options.challenge, userId: user.id });
+
+  return options;
+}
+
+/**
+ * Finish registering a passkey
+ * @param userId - The signed-in user, who must have started the registration
+ * @param name - What the user calls the passkey
+ * @param response - The browser's answer to the registration options
+ * @returns The new passkey, or null if the response did not verify
+ */
+export async function verifyPasskeyRegistration(
+  userId: string,
+  name: string,
+  response: RegistrationResponseJSON
+) {
+  const challenge = await takeChallenge('registration');
+  if (!challenge || challenge.userId !== userId) {
+    return null;
+  }
+
+  const { rpID, origin } = getRelyingParty();
+
+  try {
+    const { verified, registrationInfo } = await verifyRegistrationResponse({
+      response,
+      expectedChallenge: challenge.challenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      requireUserVerification: true,
+    });
+
+    if (!verified) {
+      return null;
+    }
+
+    return await prisma.passkeyCredential.create({
+      data: {
+        userId,
+        name,
+        credentialId: registrationInfo.credential.id,
+        publicKey: Buffer.from(registrationInfo.credential.publicKey),
+        counter: registrationInfo.credential.counter,
+        transports: registrationInfo.credential.transports ?? [],
+        backedUp: registrationInfo.credentialBackedUp,
+      },
+      select: { id: true, name: true, createdAt: true },
+    });
+  } catch (error) {
+    logger.warn({ userId, error }, 'Passkey registration failed verification');
+    return null;
+  }
+}
+
+/**
+ * Start signing in with a passkey
+ * @param ceremony - 'login' lets any discoverable passkey answer; 'two_factor' only the user's
+ * @param userId - The user who passed the password step, for 'two_factor'
+ * @returns Options to pass to the browser's WebAuthn API
+ */
+export async function createPasskeyAuthenticationOptions(
+  ceremony: Exclude<PasskeyCeremony, 'registration'>,
+  userId?: string
+): Promise<PasskeyRequestOptions> {
+  const { rpID } = getRelyingParty();
+  const allowCredentials = userId
+    ? await prisma.passkeyCredential.findMany({
+        where: { userId },
+        select: { credentialId: true, transports: true },
+      })
+    : [];
+
+  const options = await generateAuthenticationOptions({
+    rpID,
+    userVerification: 'required',
+    allowCredentials: allowCredentials.map((credential) => ({
+      id: credential.credentialId,
+      transports: credential.transports,
+    })),
+  });
+
+  await storeChallenge({ ceremony, challenge: options.challenge, userId });
+
+  return options;
+}
+
+/**
+ * Finish signing in with a passkey, recording its use
+ *
+ * Business Rules:
+ * - The challenge must have been issued for this ceremony, and for this user if it was limited
+ * - The authenticator must have verified the user, e.g. with a fingerprint or PIN
+ * - A signature counter that stops increasing suggests a cloned authenticator, and fails
+ *
+ * @returns The ID of the user the passkey belongs to, or null if it did not verify
+ */
+export async function verifyPasskeyAuthentication(
+  ceremony: Exclude<PasskeyCeremony, 'registration'>,
+  response: AuthenticationResponseJSON
+): Promise<string | null> {
+  const challenge = await takeChallenge(ceremony);
+  if (!challenge) {
+    return null;
+  }
+
+  const credential = await prisma.passkeyCredential.findUnique({
+    where: { credentialId: response.id },
+  });
+  if (!credential || (challenge.userId && credential.userId !== challenge.userId)) {
+    logger.warn({ credentialId: response.id, ceremony }, 'Unknown passkey used to sign in');
+    return null;
+  }
+
+  const { rpID, origin } = getRelyingParty();
+
+  try {
+    const { verified, authenticationInfo } = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge: challenge.challenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      credential: {
+        id: credential.credentialId,
+        publicKey: new Uint8Array(credential.publicKey),
+        counter: credential.counter,
+        transports: credential.transports,
+      },
+      requireUserVerification: true,
+    });
+
+    if (!verified) {
+      return null;
+    }
+
+    await prisma.passkeyCredential.update({
+      where: { id: credential.id },
+      data: {
+        counter: authenticationInfo.newCounter,
+        backedUp: authenticationInfo.credentialBackedUp,
+        lastUsedAt: new Date(),
+      },
+    });
+
+    return credential.userId;
+  } catch (error) {
+    logger.warn(
+      { userId: credential.userId, credentialId: credential.id, error },
+      'Passkey sign-in failed verification'
+    );
+    return null;
+  }
+}
+
+/**
+ * Get a user's passkeys, most recently added first
+ * @param userId - The user ID to get passkeys for
+ * @returns Array of passkeys, without their keys
+ */
+export async function getUserPasskeys(userId: string) {
+  return prisma.passkeyCredential.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      name: true,
+      backedUp: true,
+      lastUsedAt: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Count a user's passkeys
+ */
+export async function countUserPasskeys(userId: string): Promise<number> {
+  return prisma.passkeyCredential.count({ where: { userId } });
+}
+
+/**
+ * Revoke a passkey, so it can no longer sign in
+ * @param passkeyId - The passkey ID to revoke
+ * @param userId - The user ID (for authorization)
+ * @returns The number of passkeys revoked
+ */
+export async function revokePasskey(passkeyId: string, userId: string): Promise<number> {
+  const result = await prisma.passkeyCredential.deleteMany({
+    where: {
+      id: passkeyId,
+      userId,
+    },
+  });
+
+  return result.count;
+}
+
+/**
+ * Check if an organization requires managers to sign in with a phishing-resistant factor
+ */
+export async function isPasskeyRequiredForManagers(organizationId: string): Promise<boolean> {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { settings: true },
+  });
+
+  const settings = (organization?.settings ?? {}) as OrganizationSettings;
+  return settings.requireManagerPasskeys === true;
+}
+
+/**
+ * Check if a session was signed in with a phishing-resistant factor. SSO counts, since the
+ * identity provider is trusted with second factors.
+ */
+export function isPhishingResistantSession(session: Pick<SessionData, 'authMethod'>): boolean {
+  return session.authMethod === 'passkey' || session.authMethod === 'sso';
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { openPasswordStep, sealPasswordStep } from './password-step';
+
+describe('password step', () => {
+  beforeAll(() => {
+    process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+  });
+
+  it('round-trips a sealed password step', () => {
+    expect(openPasswordStep(sealPasswordStep('user-1'))).toMatchObject({ userId: 'user-1' });
+  });
+
+  it('rejects tampered or missing steps', () => {
+    const sealed = sealPasswordStep('user-1');
+
+    expect(openPasswordStep(`${sealed.slice(0, -4)}AAAA`)).toBeNull();
+    expect(openPasswordStep(undefined)).toBeNull();
+  });
+
+  it('rejects steps older than ten minutes', () => {
+    vi.useFakeTimers();
+    try {
+      const sealed = sealPasswordStep('user-1');
+      vi.advanceTimersByTime(11 * 60 * 1000);
+      expect(openPasswordStep(sealed)).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
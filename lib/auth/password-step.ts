@@ -0,0 +1,73 @@
+import { cookies } from 'next/headers';
+import { decrypt, encrypt } from '@/lib/encryption';
+
+export const PASSWORD_STEP_COOKIE = 'password_verified';
+export const PASSWORD_STEP_MAX_AGE_SECONDS = 600; // 10 minutes to enter the second factor
+
+/**
+ * Proof that this browser passed the password step for a user who still owes a second factor
+ */
+export interface PasswordStep {
+  userId: string;
+  issuedAt: number;
+}
+
+/**
+ * Seal a password step so it can wait in a cookie until the second factor is given
+ */
+export function sealPasswordStep(userId: string): string {
+  return encrypt(JSON.stringify({ userId, issuedAt: Date.now() }));
+}
+
+/**
+ * Open a sealed password step
+ * @returns The step, or null if it was tampered with or is too old
+ */
+export function openPasswordStep(sealed: string | null | undefined): PasswordStep | null {
+  if (!sealed) {
+    return null;
+  }
+
+  try {
+    const step = JSON.parse(decrypt(sealed)) as PasswordStep;
+    if (Date.now() - step.issuedAt > PASSWORD_STEP_MAX_AGE_SECONDS * 1000) {
+      return null;
+    }
+    return step;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remember that the password of a 2FA user was verified from this browser
+ * @param userId - The user who passed the password step
+ */
+export async function markPasswordVerified(userId: string): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(PASSWORD_STEP_COOKIE, sealPasswordStep(userId), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: PASSWORD_STEP_MAX_AGE_SECONDS,
+    path: '/',
+  });
+}
+
+/**
+ * Get the user whose password was verified from this browser, so a second factor
+ * can never stand in for the password
+ * @returns The user ID, or null if no recent password step was passed
+ */
+export async function getPasswordVerifiedUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  return openPasswordStep(cookieStore.get(PASSWORD_STEP_COOKIE)?.value)?.userId ?? null;
+}
+
+/**
+ * Forget the password step, once the login is completed
+ */
+export async function clearPasswordVerified(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(PASSWORD_STEP_COOKIE);
+}
@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import { headers } from 'next/headers';
+import { prisma } from '@/server/db';
+
+/**
+ * How often a session's last activity is written back - at most once per interval
+ * so that every request does not cost a database write
+ */
+const ACTIVITY_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Record a server-side session for a login from the current request
+ * @param userId - The user who logged in
+ * @param expiresAt - When the session cookie expires
+ * @returns The session token to keep in the session cookie
+ */
+export async function createSessionRecord(userId: string, expiresAt: Date): Promise<string> {
+  const token = crypto.randomBytes(32).toString('hex');
+  const requestHeaders = await headers();
+  const forwardedFor = requestHeaders.get('x-forwarded-for');
+
+  await prisma.session.create({
+    data: {
+      userId,
+      token,
+      expiresAt,
+      ipAddress: forwardedFor?.split(',')[0]?.trim() || requestHeaders.get('x-real-ip'),
+      userAgent: requestHeaders.get('user-agent')?.substring(0, 512),
+    },
+  });
+
+  return token;
+}
+
+/**
+ * Check that a session has not been revoked or expired, and note its activity
+ * @param userId - The user the session cookie belongs to
+ * @param token - The session token from the cookie
+ * @returns True if the session is still valid, false otherwise
+ */
+export async function validateSessionRecord(userId: string, token?: string): Promise<boolean> {
+  if (!token) return false;
+
+  const session = await prisma.session.findFirst({
+    where: {
+      userId,
+      token,
+      expiresAt: { gt: new Date() },
+      user: { deletedAt: null },
+    },
+    select: { id: true, lastActiveAt: true },
+  });
+
+  if (!session) return false;
+
+  if (Date.now() - session.lastActiveAt.getTime() > ACTIVITY_UPDATE_INTERVAL_MS) {
+    await prisma.session.updateMany({
+      where: { id: session.id },
+      data: { lastActiveAt: new Date() },
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Get all active sessions for a user, most recently active first
+ * @param userId - The user ID to get sessions for
+ * @param currentToken - The session token of the request, to mark the current session
+ * @returns Array of sessions, without their tokens
+ */
+export async function getUserSessions(userId: string, currentToken?: string) {
+  const sessions = await prisma.session.findMany({
+    where: {
+      userId,
+      expiresAt: { gt: new Date() },
+    },
+    select: {
+      id: true,
+      token: true,
+      ipAddress: true,
+      userAgent: true,
+      lastActiveAt: true,
+      createdAt: true,
+    },
+    orderBy: {
+      lastActiveAt: 'desc',
+    },
+  });
+
+  return sessions.map(({ token, ...session }) => ({
+    ...session,
+    isCurrent: token === currentToken,
+  }));
+}
+
+/**
+ * Revoke the session with the given token, e.g. on logout
+ * @param token - The session token from the cookie
+ */
+export async function revokeSessionByToken(token: string): Promise<void> {
+  await prisma.session.deleteMany({ where: { token } });
+}
+
+/**
+ * Revoke a specific session
+ * @param sessionId - The session ID to revoke
+ * @param userId - The user ID (for authorization)
+ * @returns The number of sessions revoked
+ */
+export async function revokeSession(sessionId: string, userId: string): Promise<number> {
+  const result = await prisma.session.deleteMany({
+    where: {
+      id: sessionId,
+      userId,
+    },
+  });
+
+  return result.count;
+}
+
+/**
+ * Revoke every session of a user except the one making the request
+ * @param userId - The user ID to revoke sessions for
+ * @param currentToken - The session token to keep
+ * @returns The number of sessions revoked
+ */
+export async function revokeOtherSessions(userId: string, currentToken?: string): Promise<number> {
+  const result = await prisma.session.deleteMany({
+    where: {
+      userId,
+      ...(currentToken && { token: { not: currentToken } }),
+    },
+  });
+
+  return result.count;
+}
+
+/**
+ * Revoke all sessions for a user, signing them out everywhere
+ * @param userId - The user ID to revoke all sessions for
+ * @returns The number of sessions revoked
+ */
+export async function revokeAllSessions(userId: string): Promise<number> {
+  const result = await prisma.session.deleteMany({
+    where: { userId },
+  });
+
+  return result.count;
+}
+
+/**
+ * Clean up expired sessions
+ * @param userId - Optional user ID to clean up sessions for. If not provided, cleans all expired sessions.
+ */
+export async function cleanupExpiredSessions(userId?: string): Promise<number> {
+  const result = await prisma.session.deleteMany({
+    where: {
+      ...(userId && { userId }),
+      expiresAt: { lt: new Date() },
+    },
+  });
+
+  return result.count;
+}
@@ -0,0 +1,174 @@
+import { headers } from 'next/headers';
+import { prisma } from '@/server/db';
+import { createSession } from '@/lib/session';
+import { auditAuthEvent } from '@/lib/audit';
+import { logAuthEvent, logger } from '@/lib/logger';
+import {
+  getEmailDomain,
+  parseGroupRoleMappings,
+  resolveSsoRole,
+  type SsoIdentity,
+} from './sso';
+
+/**
+ * Why an SSO sign-in was turned away - sent to the login page as ?error=
+ */
+export type SsoSignInErrorCode =
+  | 'sso_not_configured'
+  | 'sso_failed'
+  | 'sso_wrong_domain'
+  | 'sso_no_account';
+
+export class SsoSignInError extends Error {
+  constructor(
+    readonly code: SsoSignInErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SsoSignInError';
+  }
+}
+
+const connectionWithOrganization = {
+  organization: { select: { id: true, slug: true, domain: true, deletedAt: true } },
+} as const;
+
+/**
+ * Find the enabled SSO connection of the organization that verified an email's domain
+ * @param email - Email address someone wants to sign in with
+ * @returns The connection, or null if the domain has no SSO
+ */
+export async function findSsoConnectionForEmail(email: string) {
+  const domain = getEmailDomain(email);
+  if (!domain) return null;
+
+  return prisma.ssoConnection.findFirst({
+    where: {
+      enabled: true,
+      organization: { domain, deletedAt: null },
+    },
+    include: connectionWithOrganization,
+  });
+}
+
+/**
+ * Find an enabled SSO connection by ID, e.g. from a sign-in coming back
+ */
+export async function findSsoConnectionById(connectionId: string) {
+  return prisma.ssoConnection.findFirst({
+    where: {
+      id: connectionId,
+      enabled: true,
+      organization: { deletedAt: null },
+    },
+    include: connectionWithOrganization,
+  });
+}
+
+/**
+ * Check if an organization only lets its members sign in through SSO
+ */
+export async function isSsoEnforced(organizationId: string): Promise<boolean> {
+  const count = await prisma.ssoConnection.count({
+    where: { organizationId, enabled: true, enforced: true },
+  });
+
+  return count > 0;
+}
+
+type SsoConnectionWithOrganization = NonNullable<
+  Awaited<ReturnType<typeof findSsoConnectionById>>
+>;
+
+/**
+ * Sign in a user the identity provider vouched for, creating their account first
+ * if just-in-time provisioning is on
+ *
+ * Business Rules:
+ * - The email must be on the domain the organization verified
+ * - Group role mappings set the role of new users, and update the role of existing
+ *   users when one matches; without a match existing users keep their role
+ * - The identity provider is trusted with second factors, so app 2FA is not asked for
+ *
+ * @throws SsoSignInError if the user cannot be signed in
+ */
+export async function completeSsoLogin(
+  connection: SsoConnectionWithOrganization,
+  identity: SsoIdentity
+): Promise<void> {
+  const requestHeaders = await headers();
+  const ipAddress = requestHeaders.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  const userAgent = requestHeaders.get('user-agent') || undefined;
+  const { organization } = connection;
+
+  if (!organization.domain || getEmailDomain(identity.email) !== organization.domain) {
+    logger.warn(
+      { connectionId: connection.id, email: identity.email },
+      'SSO sign-in for an email outside the organization domain'
+    );
+    throw new SsoSignInError('sso_wrong_domain', 'Email is not on the organization domain');
+  }
+
+  const mappedRole = resolveSsoRole(
+    identity.groups,
+    parseGroupRoleMappings(connection.groupRoleMappings)
+  );
+
+  let user = await prisma.user.findFirst({
+    where: {
+      email: identity.email,
+      organizationId: organization.id,
+      deletedAt: null,
+    },
+    select: { id: true, email: true, role: true },
+  });
+
+  if (!user) {
+    if (!connection.jitProvisioning) {
+      throw new SsoSignInError('sso_no_account', 'No account exists for this email');
+    }
+
+    user = await prisma.user.create({
+      data: {
+        organizationId: organization.id,
+        email: identity.email,
+        name: identity.name || identity.email.split('@')[0],
+        role: mappedRole ?? connection.defaultRole,
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+        status: 'ACTIVE',
+        lastLoginAt: new Date(),
+      },
+      select: { id: true, email: true, role: true },
+    });
+
+    logger.info(
+      { userId: user.id, organizationId: organization.id, role: user.role },
+      'User provisioned through SSO'
+    );
+  } else {
+    user = await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        lastLoginAt: new Date(),
+        ...(mappedRole && { role: mappedRole }),
+      },
+      select: { id: true, email: true, role: true },
+    });
+  }
+
+  await createSession(
+    user.id,
+    user.email,
+    user.role,
+    organization.id,
+    organization.slug,
+    'sso'
+  );
+
+  logAuthEvent('login_success', user.id, { email: user.email, role: user.role, sso: true });
+  await auditAuthEvent('LOGIN_SUCCESS', user.id, user.email, ipAddress, userAgent, {
+    organizationId: organization.id,
+    sso: connection.protocol,
+  });
+}
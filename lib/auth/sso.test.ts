@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import {
+  getEmailDomain,
+  openSsoState,
+  parseGroupRoleMappings,
+  parseSamlMetadata,
+  readGroups,
+  resolveSsoRole,
+  safeReturnTo,
+  SAML_REQUEST_COOKIE,
+  sealSsoState,
+  takePendingSamlRequest,
+  validateIdTokenClaims,
+} from './sso';
+
+const cookieJar = new Map<string, string>();
+
+vi.mock('next/headers', () => ({
+  cookies: async () => ({
+    get: (name: string) => (cookieJar.has(name) ? { value: cookieJar.get(name) } : undefined),
+    delete: ({ name }: { name: string }) => cookieJar.delete(name),
+  }),
+}));
+
+const IDP_METADATA = `<?xml version="1.0"?>
+<md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata"
+  xmlns:ds="http://www.w3.org/2000/09/xmldsig#" entityID="https://idp.example.com/saml">
+  <md:IDPSSODescriptor protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol">
+    <md:KeyDescriptor use="encryption">
+      <ds:KeyInfo><ds:X509Data><ds:X509Certificate>ENCRYPTION</ds:X509Certificate></ds:X509Data></ds:KeyInfo>
+    </md:KeyDescriptor>
+    <md:KeyDescriptor use="signing">
+      <ds:KeyInfo><ds:X509Data><ds:X509Certificate>
+        MIIC SIGNING
+      </ds:X509Certificate></ds:X509Data></ds:KeyInfo>
+    </md:KeyDescriptor>
+    <md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST"
+      Location="https://idp.example.com/sso/post"/>
+    <md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect"
+      Location="https://idp.example.com/sso/redirect"/>
+  </md:IDPSSODescriptor>
+</md:EntityDescriptor>`;
+
+describe('getEmailDomain', () => {
+  it('returns the lowercased domain', () => {
+    expect(getEmailDomain('Jane@Example.COM')).toBe('example.com');
+  });
+
+  it('returns an empty string without an @', () => {
+    expect(getEmailDomain('example.com')).toBe('');
+  });
+});
+
+describe('group role mappings', () => {
+  const mappings = [
+    { group: 'Managers', role: 'MANAGER' as const },
+    { group: 'Contractors', role: 'COWORKER' as const },
+  ];
+
+  it('drops malformed stored mappings', () => {
+    expect(
+      parseGroupRoleMappings([
+        { group: 'Managers', role: 'MANAGER' },
+        { group: 'Admins', role: 'ADMIN' },
+        { role: 'EMPLOYEE' },
+        null,
+      ])
+    ).toEqual([{ group: 'Managers', role: 'MANAGER' }]);
+    expect(parseGroupRoleMappings('not an array')).toEqual([]);
+  });
+
+  it('uses the first mapping the user is in, ignoring case', () => {
+    expect(resolveSsoRole(['contractors', 'managers'], mappings)).toBe('MANAGER');
+    expect(resolveSsoRole(['CONTRACTORS'], mappings)).toBe('COWORKER');
+  });
+
+  it('returns null when no group matches', () => {
+    expect(resolveSsoRole(['Engineering'], mappings)).toBeNull();
+    expect(resolveSsoRole([], mappings)).toBeNull();
+  });
+
+  it('reads groups given as a list or a single value', () => {
+    expect(readGroups(['a', 2, 'b'])).toEqual(['a', 'b']);
+    expect(readGroups('a')).toEqual(['a']);
+    expect(readGroups(undefined)).toEqual([]);
+  });
+});
+
+describe('sign-in state', () => {
+  beforeAll(() => {
+    process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+  });
+
+  it('round-trips sealed state', () => {
+    const sealed = sealSsoState({ connectionId: 'conn-1', returnTo: '/dashboard', nonce: 'n' });
+    expect(openSsoState(sealed)).toMatchObject({
+      connectionId: 'conn-1',
+      returnTo: '/dashboard',
+      nonce: 'n',
+    });
+  });
+
+  it('rejects tampered or missing state', () => {
+    const sealed = sealSsoState({ connectionId: 'conn-1', returnTo: '/dashboard' });
+    expect(openSsoState(`${sealed.slice(0, -4)}AAAA`)).toBeNull();
+    expect(openSsoState(undefined)).toBeNull();
+  });
+
+  it('rejects state older than ten minutes', () => {
+    vi.useFakeTimers();
+    try {
+      const sealed = sealSsoState({ connectionId: 'conn-1', returnTo: '/dashboard' });
+      vi.advanceTimersByTime(11 * 60 * 1000);
+      expect(openSsoState(sealed)).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('only returns to pages inside the application', () => {
+    expect(safeReturnTo('/dashboard/feedback')).toBe('/dashboard/feedback');
+    expect(safeReturnTo('//evil.example.com')).toBe('/dashboard');
+    expect(safeReturnTo('https://evil.example.com')).toBe('/dashboard');
+    expect(safeReturnTo(null)).toBe('/dashboard');
+  });
+});
+
+describe('validateIdTokenClaims', () => {
+  const now = Date.UTC(2026, 0, 1);
+  const expected = { issuer: 'https://idp.example.com', clientId: 'client', nonce: 'nonce' };
+  const claims = {
+    iss: 'https://idp.example.com',
+    aud: ['client', 'other'],
+    exp: now / 1000 + 60,
+    nonce: 'nonce',
+  };
+
+  it('accepts a token for this client and sign-in', () => {
+    expect(() => validateIdTokenClaims(claims, expected, now)).not.toThrow();
+  });
+
+  it('rejects a token from another issuer, client or sign-in', () => {
+    expect(() => validateIdTokenClaims({ ...claims, iss: 'https://evil' }, expected, now)).toThrow(
+      'different provider'
+    );
+    expect(() => validateIdTokenClaims({ ...claims, aud: 'other' }, expected, now)).toThrow(
+      'different client'
+    );
+    expect(() => validateIdTokenClaims({ ...claims, nonce: 'replayed' }, expected, now)).toThrow(
+      'this sign-in'
+    );
+  });
+
+  it('rejects an expired token', () => {
+    expect(() =>
+      validateIdTokenClaims({ ...claims, exp: now / 1000 - 1 }, expected, now)
+    ).toThrow('expired');
+  });
+});
+
+describe('parseSamlMetadata', () => {
+  it('reads the entity ID, redirect sign-in URL and signing certificates', () => {
+    expect(parseSamlMetadata(IDP_METADATA)).toEqual({
+      entityId: 'https://idp.example.com/saml',
+      ssoUrl: 'https://idp.example.com/sso/redirect',
+      certificates: ['MIICSIGNING'],
+    });
+  });
+
+  it('rejects metadata that does not describe an identity provider', () => {
+    expect(() =>
+      parseSamlMetadata(
+        '<md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata" entityID="sp"/>'
+      )
+    ).toThrow('does not describe an identity provider');
+    expect(() => parseSamlMetadata('not xml')).toThrow();
+  });
+
+  it('rejects metadata without a redirect sign-in URL', () => {
+    expect(() =>
+      parseSamlMetadata(IDP_METADATA.replace(/bindings:HTTP-Redirect/, 'bindings:HTTP-Artifact'))
+    ).toThrow('HTTP-Redirect');
+  });
+});
+
+describe('takePendingSamlRequest', () => {
+  it('hands out the pending request only once', async () => {
+    cookieJar.set(SAML_REQUEST_COOKIE, '_request-1');
+
+    await expect(takePendingSamlRequest()).resolves.toBe('_request-1');
+    await expect(takePendingSamlRequest()).resolves.toBeUndefined();
+  });
+});
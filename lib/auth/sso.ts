@@ -0,0 +1,557 @@
+import crypto from 'crypto';
+import { cookies } from 'next/headers';
+import { DOMParser, onErrorStopParsing, type Document, type Element } from '@xmldom/xmldom';
+import { SAML, ValidateInResponseTo, type CacheProvider, type Profile } from '@node-saml/node-saml';
+import type { Role } from '@prisma/client';
+import { encrypt, decrypt } from '@/lib/encryption';
+
+/**
+ * Enterprise Single Sign-On
+ * Protocol handling for organizations that bring their own identity provider,
+ * over OpenID Connect (authorization code flow with PKCE) or SAML 2.0 (SP-initiated,
+ * signed assertions). Matching users to organizations and signing them in lives in
+ * lib/auth/sso-login.ts.
+ */
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+/**
+ * How long a sign-in started at the identity provider may take to come back
+ */
+export const SSO_STATE_MAX_AGE_SECONDS = 600; // 10 minutes
+
+export const SSO_STATE_COOKIE = 'sso_state';
+
+/**
+ * SAML request the browser is waiting on - the identity provider posts back
+ * cross-site, so this cookie is SameSite=None and scoped to the ACS endpoint
+ */
+export const SAML_REQUEST_COOKIE = 'sso_saml_request';
+export const SAML_REQUEST_COOKIE_PATH = '/api/auth/sso/saml/acs';
+
+const SAML_METADATA_NS = 'urn:oasis:names:tc:SAML:2.0:metadata';
+const XML_SIGNATURE_NS = 'http://www.w3.org/2000/09/xmldsig#';
+const SAML_REDIRECT_BINDING = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect';
+
+// Where common identity providers put the email address in a SAML assertion
+const SAML_EMAIL_ATTRIBUTES = [
+  'email',
+  'mail',
+  'urn:oid:0.9.2342.19200300.100.1.3',
+  'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+];
+
+const SAML_NAME_ATTRIBUTES = [
+  'displayName',
+  'name',
+  'urn:oid:2.16.840.1.113730.3.1.241',
+  'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name',
+];
+
+/**
+ * Maps an identity provider group to the role its members get
+ */
+export interface SsoGroupRoleMapping {
+  group: string;
+  role: Role;
+}
+
+/**
+ * A user as asserted by the identity provider
+ */
+export interface SsoIdentity {
+  subject: string; // OIDC sub or SAML NameID
+  email: string;
+  name?: string;
+  groups: string[];
+}
+
+/**
+ * Connection settings the protocols need, with the client secret still encrypted
+ */
+export interface SsoConnectionConfig {
+  id: string;
+  protocol: 'OIDC' | 'SAML';
+  issuerUrl: string | null;
+  clientId: string | null;
+  clientSecret: string | null;
+  samlMetadata: string | null;
+  groupsAttribute: string;
+}
+
+/**
+ * Sign-in in progress, kept sealed in a cookie (OIDC) or the RelayState (SAML)
+ */
+export interface SsoState {
+  connectionId: string;
+  returnTo: string;
+  issuedAt: number;
+  state?: string; // OIDC
+  nonce?: string; // OIDC
+  codeVerifier?: string; // OIDC PKCE
+  requestId?: string; // SAML AuthnRequest ID
+}
+
+/**
+ * URLs the identity provider needs to know about this application
+ */
+export function getServiceProviderUrls() {
+  return {
+    oidcRedirectUri: `${APP_URL}/api/auth/sso/oidc/callback`,
+    samlAcsUrl: `${APP_URL}/api/auth/sso/saml/acs`,
+    samlEntityId: `${APP_URL}/api/auth/sso/saml/metadata`,
+  };
+}
+
+/**
+ * Get the domain of an email address, lowercased
+ */
+export function getEmailDomain(email: string): string {
+  const at = email.lastIndexOf('@');
+  return at === -1 ? '' : email.slice(at + 1).trim().toLowerCase();
+}
+
+/**
+ * Read group role mappings stored as JSON, ignoring malformed entries
+ */
+export function parseGroupRoleMappings(value: unknown): SsoGroupRoleMapping[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.filter(
+    (entry): entry is SsoGroupRoleMapping =>
+      typeof entry === 'object' &&
+      entry !== null &&
+      typeof entry.group === 'string' &&
+      ['EMPLOYEE', 'MANAGER', 'COWORKER'].includes(entry.role)
+  );
+}
+
+/**
+ * Pick the role for a user's identity provider groups
+ * @param groups - Groups the identity provider says the user is in
+ * @param mappings - Group role mappings, in order of precedence
+ * @returns The role of the first mapping whose group the user is in, or null if none match
+ */
+export function resolveSsoRole(groups: string[], mappings: SsoGroupRoleMapping[]): Role | null {
+  const memberOf = new Set(groups.map((group) => group.toLowerCase()));
+  return mappings.find((mapping) => memberOf.has(mapping.group.toLowerCase()))?.role ?? null;
+}
+
+/**
+ * Read a groups claim or attribute, which may be a list or a single value
+ */
+export function readGroups(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value ? [value] : [];
+  }
+
+  return Array.isArray(value)
+    ? value.filter((group): group is string => typeof group === 'string')
+    : [];
+}
+
+/**
+ * Seal sign-in state so it can travel through the browser without being read or altered
+ */
+export function sealSsoState(state: Omit<SsoState, 'issuedAt'>): string {
+  return encrypt(JSON.stringify({ ...state, issuedAt: Date.now() }));
+}
+
+/**
+ * Open sealed sign-in state
+ * @returns The state, or null if it was tampered with or is too old
+ */
+export function openSsoState(sealed: string | null | undefined): SsoState | null {
+  if (!sealed) {
+    return null;
+  }
+
+  try {
+    const state = JSON.parse(decrypt(sealed)) as SsoState;
+    if (Date.now() - state.issuedAt > SSO_STATE_MAX_AGE_SECONDS * 1000) {
+      return null;
+    }
+    return state;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keep redirects after sign-in inside the application
+ */
+export function safeReturnTo(returnTo: string | null | undefined): string {
+  return returnTo?.startsWith('/') && !returnTo.startsWith('//') ? returnTo : '/dashboard';
+}
+
+// ---------------------------------------------------------------------------
+// OpenID Connect
+// ---------------------------------------------------------------------------
+
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+/**
+ * Fetch an identity provider's OpenID configuration
+ * @param issuerUrl - Issuer URL, e.g. https://login.example.com/tenant
+ * @throws Error if the configuration cannot be fetched or is for another issuer
+ */
+export async function discoverOidc(issuerUrl: string): Promise<OidcDiscovery> {
+  const issuer = issuerUrl.replace(/\/+$/, '');
+  const response = await fetch(`${issuer}/.well-known/openid-configuration`, {
+    headers: { Accept: 'application/json' },
+    signal: AbortSignal.timeout(10_000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`OpenID discovery failed with status ${response.status}`);
+  }
+
+  const discovery = (await response.json()) as OidcDiscovery;
+  if (!discovery.authorization_endpoint || !discovery.token_endpoint) {
+    throw new Error('OpenID configuration is missing its authorization or token endpoint');
+  }
+
+  if (discovery.issuer?.replace(/\/+$/, '') !== issuer) {
+    throw new Error('OpenID configuration belongs to a different issuer');
+  }
+
+  return discovery;
+}
+
+const base64Url = (buffer: Buffer) => buffer.toString('base64url');
+
+/**
+ * Build the URL that sends the user to the identity provider, with fresh state,
+ * nonce and PKCE verifier to keep in the sealed state cookie
+ */
+export function buildOidcAuthorizationUrl(
+  discovery: OidcDiscovery,
+  clientId: string
+): { url: string; state: string; nonce: string; codeVerifier: string } {
+  const state = base64Url(crypto.randomBytes(32));
+  const nonce = base64Url(crypto.randomBytes(32));
+  const codeVerifier = base64Url(crypto.randomBytes(32));
+  const codeChallenge = base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: getServiceProviderUrls().oidcRedirectUri,
+    response_type: 'code',
+    scope: 'openid email profile',
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  });
+
+  return {
+    url: `${discovery.authorization_endpoint}?${params.toString()}`,
+    state,
+    nonce,
+    codeVerifier,
+  };
+}
+
+/**
+ * Read the claims of an ID token
+ * The token comes straight from the token endpoint over TLS, which authenticates it
+ * (OpenID Connect Core 3.1.3.7), so its signature is not checked here
+ */
+export function decodeIdTokenClaims(idToken: string): Record<string, unknown> {
+  const [, payload] = idToken.split('.');
+  if (!payload) {
+    throw new Error('Malformed ID token');
+  }
+
+  return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+}
+
+/**
+ * Check an ID token was issued by the expected provider, for this client and this sign-in
+ * @throws Error describing the first check that failed
+ */
+export function validateIdTokenClaims(
+  claims: Record<string, unknown>,
+  expected: { issuer: string; clientId: string; nonce: string },
+  now = Date.now()
+): void {
+  if (claims.iss !== expected.issuer) {
+    throw new Error('ID token was issued by a different provider');
+  }
+
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audience.includes(expected.clientId)) {
+    throw new Error('ID token was issued for a different client');
+  }
+
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 < now) {
+    throw new Error('ID token has expired');
+  }
+
+  if (claims.nonce !== expected.nonce) {
+    throw new Error('ID token does not belong to this sign-in');
+  }
+}
+
+/**
+ * Finish an OpenID Connect sign-in: exchange the code and read who signed in
+ * @throws Error if the exchange fails or the ID token does not check out
+ */
+export async function completeOidcSignIn(
+  connection: SsoConnectionConfig,
+  code: string,
+  state: SsoState
+): Promise<SsoIdentity> {
+  if (!connection.issuerUrl || !connection.clientId || !connection.clientSecret) {
+    throw new Error('OpenID Connect is not fully configured');
+  }
+
+  const discovery = await discoverOidc(connection.issuerUrl);
+  const clientSecret = decrypt(connection.clientSecret);
+
+  // client_secret_basic is the default; use client_secret_post only if it is all the provider takes
+  const usePost =
+    discovery.token_endpoint_auth_methods_supported?.includes('client_secret_post') &&
+    !discovery.token_endpoint_auth_methods_supported.includes('client_secret_basic');
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: getServiceProviderUrls().oidcRedirectUri,
+    code_verifier: state.codeVerifier ?? '',
+    ...(usePost && { client_id: connection.clientId, client_secret: clientSecret }),
+  });
+
+  const response = await fetch(discovery.token_endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+      ...(!usePost && {
+        Authorization: `Basic ${Buffer.from(
+          `${encodeURIComponent(connection.clientId)}:${encodeURIComponent(clientSecret)}`
+        ).toString('base64')}`,
+      }),
+    },
+    body,
+    signal: AbortSignal.timeout(10_000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Token exchange failed with status ${response.status}`);
+  }
+
+  const tokens = (await response.json()) as { id_token?: string; access_token?: string };
+  if (!tokens.id_token) {
+    throw new Error('Identity provider did not return an ID token');
+  }
+
+  const claims = decodeIdTokenClaims(tokens.id_token);
+  validateIdTokenClaims(claims, {
+    issuer: discovery.issuer,
+    clientId: connection.clientId,
+    nonce: state.nonce ?? '',
+  });
+
+  // Some providers only put email and groups in the userinfo response
+  const missingClaims = !claims.email || claims[connection.groupsAttribute] === undefined;
+  if (missingClaims && discovery.userinfo_endpoint && tokens.access_token) {
+    const userInfoResponse = await fetch(discovery.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+      signal: AbortSignal.timeout(10_000),
+    });
+    if (userInfoResponse.ok) {
+      const userInfo = (await userInfoResponse.json()) as Record<string, unknown>;
+      // The userinfo subject must match the ID token (OpenID Connect Core 5.3.2)
+      if (userInfo.sub === claims.sub) {
+        Object.assign(claims, { ...userInfo, ...claims });
+      }
+    }
+  }
+
+  if (typeof claims.sub !== 'string' || typeof claims.email !== 'string') {
+    throw new Error('Identity provider did not share an email address');
+  }
+
+  if (claims.email_verified === false) {
+    throw new Error('Identity provider has not verified this email address');
+  }
+
+  return {
+    subject: claims.sub,
+    email: claims.email.toLowerCase(),
+    name: typeof claims.name === 'string' ? claims.name : undefined,
+    groups: readGroups(claims[connection.groupsAttribute]),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// SAML 2.0
+// ---------------------------------------------------------------------------
+
+export interface SamlIdentityProvider {
+  entityId: string;
+  ssoUrl: string; // HTTP-Redirect SingleSignOnService location
+  certificates: string[]; // Base64 signing certificates
+}
+
+const childElements = (parent: Element | Document, namespace: string, name: string) =>
+  Array.from(parent.getElementsByTagNameNS(namespace, name));
+
+/**
+ * Read the entity ID, sign-in URL and signing certificates from identity provider metadata
+ * @throws Error if the metadata is not valid XML or lacks what sign-in needs
+ */
+export function parseSamlMetadata(xml: string): SamlIdentityProvider {
+  let document: Document;
+  try {
+    document = new DOMParser({ onError: onErrorStopParsing }).parseFromString(xml, 'text/xml');
+  } catch {
+    throw new Error('SAML metadata is not valid XML');
+  }
+
+  const entity = childElements(document, SAML_METADATA_NS, 'EntityDescriptor').find(
+    (element) => childElements(element, SAML_METADATA_NS, 'IDPSSODescriptor').length > 0
+  );
+  if (!entity) {
+    throw new Error('SAML metadata does not describe an identity provider');
+  }
+
+  const descriptor = childElements(entity, SAML_METADATA_NS, 'IDPSSODescriptor')[0];
+
+  const ssoUrl = childElements(descriptor, SAML_METADATA_NS, 'SingleSignOnService')
+    .find((service) => service.getAttribute('Binding') === SAML_REDIRECT_BINDING)
+    ?.getAttribute('Location');
+  if (!ssoUrl) {
+    throw new Error('SAML metadata has no HTTP-Redirect sign-in URL');
+  }
+
+  const certificates = childElements(descriptor, SAML_METADATA_NS, 'KeyDescriptor')
+    .filter((key) => !key.getAttribute('use') || key.getAttribute('use') === 'signing')
+    .flatMap((key) => childElements(key, XML_SIGNATURE_NS, 'X509Certificate'))
+    .map((certificate) => (certificate.textContent ?? '').replace(/\s+/g, ''))
+    .filter(Boolean);
+  if (certificates.length === 0) {
+    throw new Error('SAML metadata has no signing certificate');
+  }
+
+  return {
+    entityId: entity.getAttribute('entityID') ?? '',
+    ssoUrl,
+    certificates,
+  };
+}
+
+/**
+ * Only accept a response to the request this sign-in sent - the request ID travels
+ * sealed in the RelayState, and the pending-request cookie makes it single use
+ */
+function expectedRequestCache(requestId: string): CacheProvider {
+  return {
+    saveAsync: async (_key, value) => ({ value, createdAt: Date.now() }),
+    getAsync: async (key) => (key === requestId ? requestId : null),
+    removeAsync: async (key) => key,
+  };
+}
+
+function createSaml(metadata: string, requestId: string): SAML {
+  const idp = parseSamlMetadata(metadata);
+  const { samlAcsUrl, samlEntityId } = getServiceProviderUrls();
+
+  return new SAML({
+    issuer: samlEntityId,
+    callbackUrl: samlAcsUrl,
+    audience: samlEntityId,
+    entryPoint: idp.ssoUrl,
+    idpCert: idp.certificates,
+    idpIssuer: idp.entityId || undefined,
+    wantAssertionsSigned: true,
+    wantAuthnResponseSigned: false,
+    disableRequestedAuthnContext: true,
+    validateInResponseTo: ValidateInResponseTo.always,
+    requestIdExpirationPeriodMs: SSO_STATE_MAX_AGE_SECONDS * 1000,
+    cacheProvider: expectedRequestCache(requestId),
+    generateUniqueId: () => requestId,
+  });
+}
+
+/**
+ * Build the URL that sends the user to a SAML identity provider
+ * @param metadata - Identity provider metadata XML
+ * @param returnTo - Page to land on after sign-in
+ */
+export async function buildSamlAuthorizationUrl(
+  connectionId: string,
+  metadata: string,
+  returnTo: string
+): Promise<{ url: string; requestId: string }> {
+  const requestId = `_${crypto.randomBytes(20).toString('hex')}`;
+  const relayState = sealSsoState({ connectionId, returnTo, requestId });
+
+  const url = await createSaml(metadata, requestId).getAuthorizeUrlAsync(relayState, undefined, {});
+  return { url, requestId };
+}
+
+/**
+ * Read and clear the pending SAML request, so each response can be used only once
+ */
+export async function takePendingSamlRequest(): Promise<string | undefined> {
+  const cookieStore = await cookies();
+  const requestId = cookieStore.get(SAML_REQUEST_COOKIE)?.value;
+  cookieStore.delete({ name: SAML_REQUEST_COOKIE, path: SAML_REQUEST_COOKIE_PATH });
+
+  return requestId;
+}
+
+function firstAttribute(profile: Profile, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = profile[name];
+    const first = Array.isArray(value) ? value[0] : value;
+    if (typeof first === 'string' && first) {
+      return first;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finish a SAML sign-in: check the signed response and read who signed in
+ * @throws Error if the response is unsigned, for another request or lacks an email
+ */
+export async function completeSamlSignIn(
+  connection: SsoConnectionConfig,
+  samlResponse: string,
+  state: SsoState
+): Promise<SsoIdentity> {
+  if (!connection.samlMetadata || !state.requestId) {
+    throw new Error('SAML is not fully configured');
+  }
+
+  const saml = createSaml(connection.samlMetadata, state.requestId);
+  const { profile } = await saml.validatePostResponseAsync({ SAMLResponse: samlResponse });
+  if (!profile) {
+    throw new Error('SAML response did not sign anyone in');
+  }
+
+  const email =
+    firstAttribute(profile, SAML_EMAIL_ATTRIBUTES) ??
+    (profile.nameID?.includes('@') ? profile.nameID : undefined);
+  if (!email) {
+    throw new Error('Identity provider did not share an email address');
+  }
+
+  return {
+    subject: profile.nameID,
+    email: email.toLowerCase(),
+    name: firstAttribute(profile, SAML_NAME_ATTRIBUTES),
+    groups: readGroups(profile[connection.groupsAttribute]),
+  };
+}
@@ -9,9 +9,12 @@ const TRUST_DURATION_DAYS = 30;
  * Create a trusted device token and store it in the database and cookies
  * @param userId - The user ID to associate with the trusted device
  * @param userAgent - Optional user agent string for device identification
- * @returns The generated device token
+ * @returns The generated device token and when the device stops being trusted
  */
-export async function createTrustedDevice(userId: string, userAgent?: string): Promise<string> {
+export async function createTrustedDevice(
+  userId: string,
+  userAgent?: string
+): Promise<{ deviceToken: string; expiresAt: Date }> {
   const deviceToken = crypto.randomBytes(32).toString('hex');
   const expiresAt = new Date(Date.now() + TRUST_DURATION_DAYS * 24 * 60 * 60 * 1000);
 
@@ -34,7 +37,7 @@ export async function createTrustedDevice(userId: string, userAgent?: string): P
     path: '/',
   });
 
-  return deviceToken;
+  return { deviceToken, expiresAt };
 }
 
 /**
@@ -88,12 +91,15 @@ export async function cleanupExpiredDevices(userId?: string): Promise<number> {
 }
 
 /**
- * Get all trusted devices for a user
+ * Get all trusted devices for a user, marking the device making the request
  * @param userId - The user ID to get trusted devices for
- * @returns Array of trusted devices
+ * @returns Array of trusted devices, without their tokens
  */
 export async function getUserTrustedDevices(userId: string) {
-  return prisma.trustedDevice.findMany({
+  const cookieStore = await cookies();
+  const currentToken = cookieStore.get(TRUSTED_DEVICE_COOKIE)?.value;
+
+  const devices = await prisma.trustedDevice.findMany({
     where: {
       userId,
       expiresAt: { gt: new Date() },
@@ -102,20 +108,39 @@ export async function getUserTrustedDevices(userId: string) {
       createdAt: 'desc',
     },
   });
+
+  return devices.map(({ deviceToken, ...device }) => ({
+    ...device,
+    isCurrent: deviceToken === currentToken,
+  }));
 }
 
 /**
  * Revoke a specific trusted device
  * @param deviceId - The device ID to revoke
  * @param userId - The user ID (for authorization)
+ * @returns The number of devices revoked
  */
-export async function revokeTrustedDevice(deviceId: string, userId: string): Promise<void> {
-  await prisma.trustedDevice.deleteMany({
+export async function revokeTrustedDevice(deviceId: string, userId: string): Promise<number> {
+  const device = await prisma.trustedDevice.findFirst({
     where: {
       id: deviceId,
       userId,
     },
+    select: { deviceToken: true },
   });
+
+  if (!device) return 0;
+
+  await prisma.trustedDevice.deleteMany({ where: { id: deviceId } });
+
+  // Forget the cookie too if this was the device making the request
+  const cookieStore = await cookies();
+  if (cookieStore.get(TRUSTED_DEVICE_COOKIE)?.value === device.deviceToken) {
+    cookieStore.delete(TRUSTED_DEVICE_COOKIE);
+  }
+
+  return 1;
 }
 
 /**
@@ -127,5 +152,8 @@ export async function revokeAllTrustedDevices(userId: string): Promise<number> {
     where: { userId },
   });
 
+  const cookieStore = await cookies();
+  cookieStore.delete(TRUSTED_DEVICE_COOKIE);
+
   return result.count;
 }
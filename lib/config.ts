@@ -119,3 +119,24 @@ export const features = {
   /** Enable push notifications */
   enableNotifications: getEnvBool('FEATURE_NOTIFICATIONS', true),
 } as const;
+
+/**
+ * AI provider configuration
+ * Organizations can choose their provider in settings; deployments set the default
+ */
+export const aiConfig = {
+  /** Default provider - 'huggingface' | 'openai-compatible' | 'rule-based' */
+  defaultProvider: process.env.AI_PROVIDER || 'huggingface',
+
+  /** Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 for a local server */
+  openAICompatibleBaseUrl: process.env.AI_OPENAI_BASE_URL || '',
+
+  /** API key for the OpenAI-compatible API - local servers usually need none */
+  openAICompatibleApiKey: process.env.AI_OPENAI_API_KEY || '',
+
+  /** Model served by the OpenAI-compatible API */
+  openAICompatibleModel: process.env.AI_OPENAI_MODEL || 'llama3.1',
+
+  /** Timeout per polishing request in milliseconds - default 30 seconds */
+  requestTimeout: getEnvInt('AI_REQUEST_TIMEOUT', 30000),
+} as const;
@@ -1,5 +1,6 @@
 import { sendEmail, SendEmailResult } from './index';
 import { emailTemplates, getEmailConfig } from './templates';
+import type { EmailTemplate } from './types';
 import { prisma } from '@/server/db';
 import crypto from 'crypto';
 import { addHours, addDays, format } from 'date-fns';
@@ -185,6 +186,36 @@ export async function sendWelcomeEmail(
   }
 }
 
+/**
+ * Render the absence status email for an employee
+ *
+ * @param userName - Employee's display name
+ * @param status - Approval status (approved or rejected)
+ * @param startDate - Absence start date
+ * @param endDate - Absence end date
+ * @param managerName - Name of manager who approved/rejected
+ * @param comment - Approver's comment; the reason when rejected
+ * @returns Subject and bodies of the email
+ */
+export function renderAbsenceStatusEmail(
+  userName: string,
+  status: 'approved' | 'rejected',
+  startDate: Date,
+  endDate: Date,
+  managerName: string,
+  comment?: string
+): EmailTemplate {
+  return emailTemplates.absenceStatus({
+    ...config,
+    userName,
+    status,
+    startDate: format(startDate, 'MMMM d, yyyy'),
+    endDate: format(endDate, 'MMMM d, yyyy'),
+    comment,
+    managerName,
+  });
+}
+
 /**
  * Send absence status notification to employee
  *
@@ -194,7 +225,7 @@ export async function sendWelcomeEmail(
  * @param startDate - Absence start date
  * @param endDate - Absence end date
  * @param managerName - Name of manager who approved/rejected
- * @param reason - Optional reason or note from manager
+ * @param comment - Approver's comment; the reason when rejected
  * @returns Result with success status and optional error message
  */
 export async function sendAbsenceStatusEmail(
@@ -204,18 +235,17 @@ export async function sendAbsenceStatusEmail(
   startDate: Date,
   endDate: Date,
   managerName: string,
-  reason?: string
+  comment?: string
 ): Promise<SendEmailResult> {
   try {
-    const template = emailTemplates.absenceStatus({
-      ...config,
+    const template = renderAbsenceStatusEmail(
       userName,
       status,
-      startDate: format(startDate, 'MMMM d, yyyy'),
-      endDate: format(endDate, 'MMMM d, yyyy'),
-      reason,
+      startDate,
+      endDate,
       managerName,
-    });
+      comment
+    );
 
     return await sendEmail({
       to: email,
@@ -230,6 +260,36 @@ export async function sendAbsenceStatusEmail(
   }
 }
 
+/**
+ * Render the new absence request email for a manager
+ *
+ * @param managerName - Manager's display name
+ * @param employeeName - Name of employee requesting time off
+ * @param startDate - Absence start date
+ * @param endDate - Absence end date
+ * @param reason - Reason for absence
+ * @param requestId - ID of the absence request for review link
+ * @returns Subject and bodies of the email
+ */
+export function renderAbsenceRequestEmail(
+  managerName: string,
+  employeeName: string,
+  startDate: Date,
+  endDate: Date,
+  reason: string,
+  requestId: string
+): EmailTemplate {
+  return emailTemplates.absenceRequest({
+    ...config,
+    managerName,
+    employeeName,
+    startDate: format(startDate, 'MMMM d, yyyy'),
+    endDate: format(endDate, 'MMMM d, yyyy'),
+    reason,
+    reviewUrl: `${config.appUrl}/dashboard/absences?review=${requestId}`,
+  });
+}
+
 /**
  * Send new absence request notification to manager
  *
@@ -252,17 +312,14 @@ export async function sendAbsenceRequestEmail(
   requestId: string
 ): Promise<SendEmailResult> {
   try {
-    const reviewUrl = `${config.appUrl}/dashboard/absences?review=${requestId}`;
-
-    const template = emailTemplates.absenceRequest({
-      ...config,
+    const template = renderAbsenceRequestEmail(
       managerName,
       employeeName,
-      startDate: format(startDate, 'MMMM d, yyyy'),
-      endDate: format(endDate, 'MMMM d, yyyy'),
+      startDate,
+      endDate,
       reason,
-      reviewUrl,
-    });
+      requestId
+    );
 
     return await sendEmail({
       to: email,
@@ -277,6 +334,33 @@ export async function sendAbsenceRequestEmail(
   }
 }
 
+/**
+ * Render the feedback received email
+ *
+ * @param userName - Recipient's display name
+ * @param fromName - Name of feedback giver
+ * @param feedbackContent - Full feedback content
+ * @returns Subject and bodies of the email
+ */
+export function renderFeedbackReceivedEmail(
+  userName: string,
+  fromName: string,
+  feedbackContent: string
+): EmailTemplate {
+  // Create preview (first 150 characters)
+  const feedbackPreview = feedbackContent.length > 150
+    ? feedbackContent.substring(0, 150)
+    : feedbackContent;
+
+  return emailTemplates.feedbackReceived({
+    ...config,
+    userName,
+    fromName,
+    feedbackPreview,
+    viewUrl: `${config.appUrl}/dashboard/feedback`,
+  });
+}
+
 /**
  * Send feedback received notification
  *
@@ -293,19 +377,104 @@ export async function sendFeedbackReceivedEmail(
   feedbackContent: string
 ): Promise<SendEmailResult> {
   try {
-    // Create preview (first 150 characters)
-    const feedbackPreview = feedbackContent.length > 150
-      ? feedbackContent.substring(0, 150)
-      : feedbackContent;
+    const template = renderFeedbackReceivedEmail(userName, fromName, feedbackContent);
+
+    return await sendEmail({
+      to: email,
+      ...template,
+    });
+  } catch (error) {
+    console.error('Failed to send feedback received email:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send feedback received email'
+    };
+  }
+}
+
+/**
+ * Render the feedback request email
+ *
+ * @param userName - Recipient's display name
+ * @param requesterName - Name of the colleague asking for feedback
+ * @param dueDate - Date the feedback is due by
+ * @param prompt - Optional question the requester would like answered
+ * @returns Subject and bodies of the email
+ */
+export function renderFeedbackRequestEmail(
+  userName: string,
+  requesterName: string,
+  dueDate: Date,
+  prompt?: string
+): EmailTemplate {
+  return emailTemplates.feedbackRequest({
+    ...config,
+    userName,
+    requesterName,
+    prompt,
+    dueDate: format(dueDate, 'MMMM d, yyyy'),
+    respondUrl: `${config.appUrl}/dashboard`,
+  });
+}
+
+/**
+ * Send feedback request to a colleague
+ *
+ * @param email - Recipient's email address
+ * @param userName - Recipient's display name
+ * @param requesterName - Name of the colleague asking for feedback
+ * @param dueDate - Date the feedback is due by
+ * @param prompt - Optional question the requester would like answered
+ * @returns Result with success status and optional error message
+ */
+export async function sendFeedbackRequestEmail(
+  email: string,
+  userName: string,
+  requesterName: string,
+  dueDate: Date,
+  prompt?: string
+): Promise<SendEmailResult> {
+  try {
+    const template = renderFeedbackRequestEmail(userName, requesterName, dueDate, prompt);
 
-    const viewUrl = `${config.appUrl}/dashboard/feedback`;
+    return await sendEmail({
+      to: email,
+      ...template,
+    });
+  } catch (error) {
+    console.error('Failed to send feedback request email:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send feedback request email'
+    };
+  }
+}
 
-    const template = emailTemplates.feedbackReceived({
+/**
+ * Send an in-app notification by email
+ *
+ * @param email - Recipient's email address
+ * @param userName - Recipient's display name
+ * @param title - Notification title
+ * @param message - Notification message
+ * @param path - Page the notification is about, e.g. /dashboard/absences
+ * @returns Result with success status and optional error message
+ */
+export async function sendNotificationEmail(
+  email: string,
+  userName: string,
+  title: string,
+  message: string,
+  path: string
+): Promise<SendEmailResult> {
+  try {
+    const template = emailTemplates.notification({
       ...config,
       userName,
-      fromName,
-      feedbackPreview,
-      viewUrl,
+      title,
+      message,
+      viewUrl: `${config.appUrl}${path}`,
+      preferencesUrl: `${config.appUrl}/dashboard/settings`,
     });
 
     return await sendEmail({
@@ -313,10 +482,93 @@ export async function sendFeedbackReceivedEmail(
       ...template,
     });
   } catch (error) {
-    console.error('Failed to send feedback received email:', error);
+    console.error('Failed to send notification email:', error);
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to send feedback received email'
+      error: error instanceof Error ? error.message : 'Failed to send notification email'
+    };
+  }
+}
+
+/**
+ * Send the daily digest of notifications
+ *
+ * @param email - Recipient's email address
+ * @param userName - Recipient's display name
+ * @param notifications - Notifications to list, oldest first
+ * @param moreCount - Notifications left out of the email
+ * @returns Result with success status and optional error message
+ */
+export async function sendNotificationDigestEmail(
+  email: string,
+  userName: string,
+  notifications: Array<{ title: string; message: string; createdAt: Date }>,
+  moreCount = 0
+): Promise<SendEmailResult> {
+  try {
+    const template = emailTemplates.notificationDigest({
+      ...config,
+      userName,
+      items: notifications.map((notification) => ({
+        title: notification.title,
+        message: notification.message,
+        time: format(notification.createdAt, 'MMM d, h:mm a'),
+      })),
+      moreCount,
+      viewUrl: `${config.appUrl}/dashboard`,
+      preferencesUrl: `${config.appUrl}/dashboard/settings`,
+    });
+
+    return await sendEmail({
+      to: email,
+      ...template,
+    });
+  } catch (error) {
+    console.error('Failed to send notification digest email:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send notification digest email'
+    };
+  }
+}
+
+/**
+ * Tell a user a device was trusted to skip two-factor authentication
+ *
+ * @param email - User's email address
+ * @param userName - User's display name
+ * @param deviceName - Browser and operating system, e.g. "Chrome on Windows"
+ * @param ipAddress - IP address the device was trusted from
+ * @param expiresAt - When the device stops being trusted
+ * @returns Result with success status and optional error message
+ */
+export async function sendTrustedDeviceEmail(
+  email: string,
+  userName: string,
+  deviceName: string,
+  ipAddress: string | undefined,
+  expiresAt: Date
+): Promise<SendEmailResult> {
+  try {
+    const template = emailTemplates.trustedDevice({
+      ...config,
+      userName,
+      deviceName,
+      ipAddress,
+      trustedAt: format(new Date(), 'MMM d, yyyy h:mm a'),
+      expiresAt: format(expiresAt, 'MMM d, yyyy'),
+      securityUrl: `${config.appUrl}/dashboard/settings/security`,
+    });
+
+    return await sendEmail({
+      to: email,
+      ...template,
+    });
+  } catch (error) {
+    console.error('Failed to send trusted device email:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send trusted device email'
     };
   }
 }
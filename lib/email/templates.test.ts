@@ -0,0 +1,38 @@
+import { emailTemplates } from './templates';
+
+describe('emailTemplates.trustedDevice', () => {
+  const data = {
+    appName: 'Acme HR',
+    appUrl: 'https://hr.example.com',
+    userName: 'Ada',
+    deviceName: 'Chrome on Windows',
+    ipAddress: '203.0.113.7',
+    trustedAt: 'Oct 19, 2026 9:00 AM',
+    expiresAt: 'Nov 18, 2026',
+    securityUrl: 'https://hr.example.com/dashboard/settings/security',
+  };
+
+  it('should describe the device and link to the security settings', () => {
+    const email = emailTemplates.trustedDevice(data);
+
+    expect(email.subject).toBe('New trusted device on your Acme HR account');
+    expect(email.text).toContain('Device: Chrome on Windows');
+    expect(email.text).toContain('IP address: 203.0.113.7');
+    expect(email.text).toContain('Trusted until: Nov 18, 2026');
+    expect(email.html).toContain('href="https://hr.example.com/dashboard/settings/security"');
+  });
+
+  it('should leave out an unknown IP address', () => {
+    const email = emailTemplates.trustedDevice({ ...data, ipAddress: undefined });
+
+    expect(email.text).not.toContain('IP address');
+    expect(email.html).not.toContain('IP address');
+  });
+
+  it('should escape the device name', () => {
+    const email = emailTemplates.trustedDevice({ ...data, deviceName: '<script>x</script>' });
+
+    expect(email.html).not.toContain('<script>');
+    expect(email.html).toContain('&lt;script&gt;');
+  });
+});
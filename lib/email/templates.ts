@@ -33,7 +33,7 @@ interface AbsenceStatusEmailData extends BaseEmailData {
   status: 'approved' | 'rejected';
   startDate: string;
   endDate: string;
-  reason?: string;
+  comment?: string; // Approver's comment; the reason when rejected
   managerName: string;
 }
 
@@ -44,6 +44,39 @@ interface FeedbackReceivedEmailData extends BaseEmailData {
   viewUrl: string;
 }
 
+interface FeedbackRequestEmailData extends BaseEmailData {
+  userName: string;
+  requesterName: string;
+  prompt?: string; // Question the requester would like answered
+  dueDate: string;
+  respondUrl: string;
+}
+
+interface NotificationEmailData extends BaseEmailData {
+  userName: string;
+  title: string;
+  message: string;
+  viewUrl: string;
+  preferencesUrl: string;
+}
+
+interface NotificationDigestEmailData extends BaseEmailData {
+  userName: string;
+  items: Array<{ title: string; message: string; time: string }>;
+  moreCount: number; // Notifications left out of the email
+  viewUrl: string;
+  preferencesUrl: string;
+}
+
+interface TrustedDeviceEmailData extends BaseEmailData {
+  userName: string;
+  deviceName: string; // e.g. "Chrome on Windows"
+  ipAddress?: string;
+  trustedAt: string;
+  expiresAt: string;
+  securityUrl: string;
+}
+
 interface AbsenceRequestEmailData extends BaseEmailData {
   managerName: string;
   employeeName: string;
@@ -56,6 +89,15 @@ interface AbsenceRequestEmailData extends BaseEmailData {
 const APP_NAME = process.env.NEXT_PUBLIC_APP_NAME || 'Employee Hub';
 const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
 
+// Free text typed by users must not be able to inject markup into emails
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
 // Base styles for all emails
 const baseStyles = `
   body {
@@ -172,6 +214,13 @@ const baseStyles = `
     color: #dc3545;
     font-weight: 600;
   }
+  .digest-item {
+    padding: 12px 0;
+    border-bottom: 1px solid #e9ecef;
+  }
+  .digest-item p {
+    margin: 0;
+  }
 `;
 
 export const emailTemplates = {
@@ -420,7 +469,7 @@ ${data.appName} - ${new Date().getFullYear()}
             <div class="info-box">
               <p><strong>Start Date:</strong> ${data.startDate}</p>
               <p><strong>End Date:</strong> ${data.endDate}</p>
-              ${data.reason ? `<p><strong>Manager's Note:</strong> ${data.reason}</p>` : ''}
+              ${data.comment ? `<p><strong>${data.status === 'rejected' ? 'Reason' : 'Comment'}:</strong> ${escapeHtml(data.comment)}</p>` : ''}
             </div>
             <div class="button-container">
               <a href="${data.appUrl}/dashboard/absences" class="button">View Details</a>
@@ -442,7 +491,7 @@ Your time-off request has been ${data.status} by ${data.managerName}.
 
 Start Date: ${data.startDate}
 End Date: ${data.endDate}
-${data.reason ? `Manager's Note: ${data.reason}` : ''}
+${data.comment ? `${data.status === 'rejected' ? 'Reason' : 'Comment'}: ${data.comment}` : ''}
 
 View details: ${data.appUrl}/dashboard/absences
 
@@ -554,6 +603,233 @@ ${data.fromName} has given you feedback:
 
 View full feedback: ${data.viewUrl}
 
+---
+${data.appName} - ${new Date().getFullYear()}
+    `.trim(),
+  }),
+
+  /**
+   * Feedback request to a colleague
+   */
+  feedbackRequest: (data: FeedbackRequestEmailData): { subject: string; html: string; text: string } => ({
+    subject: `${data.requesterName} would like your feedback`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <style>${baseStyles}</style>
+      </head>
+      <body>
+        <div class="email-container">
+          <div class="header">
+            <div class="logo">${data.appName}</div>
+          </div>
+          <div class="content">
+            <h2>Feedback Requested</h2>
+            <p>Hi ${data.userName},</p>
+            <p><strong>${data.requesterName}</strong> has asked you for feedback by ${data.dueDate}.</p>
+            ${data.prompt ? `<blockquote>${escapeHtml(data.prompt)}</blockquote>` : ''}
+            <div class="button-container">
+              <a href="${data.respondUrl}" class="button">Give Feedback</a>
+            </div>
+          </div>
+          <div class="footer">
+            <p>&copy; ${new Date().getFullYear()} ${data.appName}. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `,
+    text: `
+${data.requesterName} would like your feedback
+
+Hi ${data.userName},
+
+${data.requesterName} has asked you for feedback by ${data.dueDate}.
+${data.prompt ? `\n"${data.prompt}"\n` : ''}
+Give feedback: ${data.respondUrl}
+
+---
+${data.appName} - ${new Date().getFullYear()}
+    `.trim(),
+  }),
+
+  /**
+   * Any in-app notification, for types without an email of their own
+   */
+  notification: (data: NotificationEmailData): { subject: string; html: string; text: string } => ({
+    subject: data.title,
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <style>${baseStyles}</style>
+      </head>
+      <body>
+        <div class="email-container">
+          <div class="header">
+            <div class="logo">${data.appName}</div>
+          </div>
+          <div class="content">
+            <h2>${escapeHtml(data.title)}</h2>
+            <p>Hi ${escapeHtml(data.userName)},</p>
+            <p>${escapeHtml(data.message)}</p>
+            <div class="button-container">
+              <a href="${data.viewUrl}" class="button">View in ${data.appName}</a>
+            </div>
+            <p class="muted">
+              You can choose how you hear about this in your
+              <a href="${data.preferencesUrl}">notification preferences</a>.
+            </p>
+          </div>
+          <div class="footer">
+            <p>&copy; ${new Date().getFullYear()} ${data.appName}. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `,
+    text: `
+${data.title}
+
+Hi ${data.userName},
+
+${data.message}
+
+View in ${data.appName}: ${data.viewUrl}
+
+Notification preferences: ${data.preferencesUrl}
+
+---
+${data.appName} - ${new Date().getFullYear()}
+    `.trim(),
+  }),
+
+  /**
+   * Daily digest of the notifications a user chose not to be emailed about right away
+   */
+  notificationDigest: (data: NotificationDigestEmailData): { subject: string; html: string; text: string } => {
+    const total = data.items.length + data.moreCount;
+    const heading = `${total} notification${total === 1 ? '' : 's'} from ${data.appName}`;
+
+    return {
+      subject: `Your daily digest: ${heading}`,
+      html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <style>${baseStyles}</style>
+      </head>
+      <body>
+        <div class="email-container">
+          <div class="header">
+            <div class="logo">${data.appName}</div>
+          </div>
+          <div class="content">
+            <h2>Your Daily Digest</h2>
+            <p>Hi ${escapeHtml(data.userName)}, here is what happened since your last digest:</p>
+            ${data.items
+              .map(
+                (item) => `
+            <div class="digest-item">
+              <p><strong>${escapeHtml(item.title)}</strong> <span class="muted">${item.time}</span></p>
+              <p>${escapeHtml(item.message)}</p>
+            </div>`
+              )
+              .join('')}
+            ${data.moreCount > 0 ? `<p class="muted">And ${data.moreCount} more in the app.</p>` : ''}
+            <div class="button-container">
+              <a href="${data.viewUrl}" class="button">Open ${data.appName}</a>
+            </div>
+            <p class="muted">
+              You can choose what goes into your digest in your
+              <a href="${data.preferencesUrl}">notification preferences</a>.
+            </p>
+          </div>
+          <div class="footer">
+            <p>&copy; ${new Date().getFullYear()} ${data.appName}. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `,
+      text: `
+Your daily digest: ${heading}
+
+Hi ${data.userName}, here is what happened since your last digest:
+
+${data.items.map((item) => `- ${item.title} (${item.time})\n  ${item.message}`).join('\n')}
+${data.moreCount > 0 ? `\nAnd ${data.moreCount} more in the app.\n` : ''}
+Open ${data.appName}: ${data.viewUrl}
+
+Notification preferences: ${data.preferencesUrl}
+
+---
+${data.appName} - ${new Date().getFullYear()}
+    `.trim(),
+    };
+  },
+
+  /**
+   * A device was trusted to skip two-factor authentication
+   */
+  trustedDevice: (data: TrustedDeviceEmailData): { subject: string; html: string; text: string } => ({
+    subject: `New trusted device on your ${data.appName} account`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <style>${baseStyles}</style>
+      </head>
+      <body>
+        <div class="email-container">
+          <div class="header">
+            <div class="logo">${data.appName}</div>
+          </div>
+          <div class="content">
+            <h2>New trusted device</h2>
+            <p>Hi ${escapeHtml(data.userName)},</p>
+            <p>A device was just trusted to sign in to your account without a two-factor code:</p>
+            <div class="info-box">
+              <p><strong>Device:</strong> ${escapeHtml(data.deviceName)}</p>
+              ${data.ipAddress ? `<p><strong>IP address:</strong> ${escapeHtml(data.ipAddress)}</p>` : ''}
+              <p><strong>Trusted on:</strong> ${data.trustedAt}</p>
+              <p><strong>Trusted until:</strong> ${data.expiresAt}</p>
+            </div>
+            <p>If this wasn't you, revoke the device and change your password right away.</p>
+            <div class="button-container">
+              <a href="${data.securityUrl}" class="button">Review Trusted Devices</a>
+            </div>
+          </div>
+          <div class="footer">
+            <p>&copy; ${new Date().getFullYear()} ${data.appName}. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `,
+    text: `
+New trusted device on your ${data.appName} account
+
+Hi ${data.userName},
+
+A device was just trusted to sign in to your account without a two-factor code:
+
+Device: ${data.deviceName}
+${data.ipAddress ? `IP address: ${data.ipAddress}\n` : ''}Trusted on: ${data.trustedAt}
+Trusted until: ${data.expiresAt}
+
+If this wasn't you, revoke the device and change your password right away:
+${data.securityUrl}
+
 ---
 ${data.appName} - ${new Date().getFullYear()}
     `.trim(),
@@ -577,4 +853,8 @@ export type {
   AbsenceStatusEmailData,
   AbsenceRequestEmailData,
   FeedbackReceivedEmailData,
+  FeedbackRequestEmailData,
+  NotificationEmailData,
+  NotificationDigestEmailData,
+  TrustedDeviceEmailData,
 };
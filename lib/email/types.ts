@@ -16,6 +16,10 @@ export type {
   AbsenceStatusEmailData,
   AbsenceRequestEmailData,
   FeedbackReceivedEmailData,
+  FeedbackRequestEmailData,
+  NotificationEmailData,
+  NotificationDigestEmailData,
+  TrustedDeviceEmailData,
 } from './templates';
 
 /**
@@ -28,7 +32,11 @@ export type EmailTemplateName =
   | 'welcome'
   | 'absenceStatus'
   | 'absenceRequest'
-  | 'feedbackReceived';
+  | 'feedbackReceived'
+  | 'feedbackRequest'
+  | 'notification'
+  | 'notificationDigest'
+  | 'trustedDevice';
 
 /**
  * Email template result
@@ -0,0 +1,112 @@
+import { parseIcsHolidays } from './ics';
+import { DateRange } from '@/src/domain/value-objects/DateRange';
+
+const wrap = (events: string) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Test//EN', events, 'END:VCALENDAR'].join('\r\n');
+
+describe('parseIcsHolidays', () => {
+  it('should read all-day events', () => {
+    const holidays = parseIcsHolidays(
+      wrap(
+        [
+          'BEGIN:VEVENT',
+          'DTSTART;VALUE=DATE:20250101',
+          'DTEND;VALUE=DATE:20250102',
+          "SUMMARY:New Year's Day",
+          'END:VEVENT',
+          'BEGIN:VEVENT',
+          'DTSTART;VALUE=DATE:20251225',
+          'SUMMARY:Christmas Day',
+          'END:VEVENT',
+        ].join('\r\n')
+      )
+    );
+
+    expect(holidays).toEqual([
+      { date: '2025-01-01', name: "New Year's Day" },
+      { date: '2025-12-25', name: 'Christmas Day' },
+    ]);
+  });
+
+  it('should expand multi-day events with an exclusive end date', () => {
+    const holidays = parseIcsHolidays(
+      wrap(
+        [
+          'BEGIN:VEVENT',
+          'DTSTART;VALUE=DATE:20251225',
+          'DTEND;VALUE=DATE:20251227',
+          'SUMMARY:Christmas',
+          'END:VEVENT',
+        ].join('\r\n')
+      )
+    );
+
+    expect(holidays.map((h) => h.date)).toEqual(['2025-12-25', '2025-12-26']);
+  });
+
+  it('should drop the time part of timed events', () => {
+    const holidays = parseIcsHolidays(
+      wrap(
+        [
+          'BEGIN:VEVENT',
+          'DTSTART:20250501T000000Z',
+          'DTEND:20250501T235959Z',
+          'SUMMARY:Labour Day',
+          'END:VEVENT',
+        ].join('\r\n')
+      )
+    );
+
+    expect(holidays).toEqual([{ date: '2025-05-01', name: 'Labour Day' }]);
+  });
+
+  it('should unfold long lines and unescape text', () => {
+    const holidays = parseIcsHolidays(
+      wrap(
+        [
+          'BEGIN:VEVENT',
+          'DTSTART;VALUE=DATE:20250704',
+          'SUMMARY:Independence Day\\, United',
+          '  States',
+          'END:VEVENT',
+        ].join('\r\n')
+      )
+    );
+
+    expect(holidays[0].name).toBe('Independence Day, United States');
+  });
+
+  it('should produce keys that match local working-day counts west of UTC', () => {
+    const originalTz = process.env.TZ;
+    process.env.TZ = 'America/Los_Angeles';
+    try {
+      const holidays = parseIcsHolidays(
+        wrap(
+          [
+            'BEGIN:VEVENT',
+            'DTSTART;VALUE=DATE:20251225',
+            'DTEND;VALUE=DATE:20251226',
+            'SUMMARY:Christmas Day',
+            'END:VEVENT',
+          ].join('\r\n')
+        )
+      );
+      const week = DateRange.create(new Date(2025, 11, 22), new Date(2025, 11, 26));
+
+      expect(holidays.map((h) => h.date)).toEqual(['2025-12-25']);
+      expect(week.workingDays(new Set(holidays.map((h) => h.date)))).toBe(4);
+    } finally {
+      if (originalTz === undefined) {
+        delete process.env.TZ;
+      } else {
+        process.env.TZ = originalTz;
+      }
+    }
+  });
+
+  it('should reject content that is not an iCalendar file', () => {
+    expect(() => parseIcsHolidays('date,name\n2025-01-01,New Year')).toThrow(
+      'File is not a valid iCalendar (.ics) file'
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import { DateRange } from '@/src/domain/value-objects/DateRange';
+
+/**
+ * Minimal iCalendar (RFC 5545) reader for importing public holiday feeds
+ *
+ * Only VEVENT start/end dates and summaries are read; times are dropped because
+ * holidays are whole days. Multi-day events are expanded into one entry per day.
+ */
+
+export interface IcsHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+/** Guard against absurd events (e.g. a multi-year DTEND) blowing up an import */
+const MAX_EVENT_DAYS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Join folded lines: a line starting with a space or tab continues the previous one
+ */
+function unfoldLines(content: string): string[] {
+  return content.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\[nN]/g, ' ')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
+
+/**
+ * Parse the date part of a DTSTART/DTEND value (20250101 or 20250101T090000Z)
+ * as local midnight, so its key matches DateRange.dateKey in working-day counts
+ */
+function parseIcsDate(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  if (!match) return null;
+  const [, y, m, d] = match;
+  const date = new Date(Number(y), Number(m) - 1, Number(d));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Extract holidays from an .ics file
+ * @throws Error if the content is not an iCalendar file
+ */
+export function parseIcsHolidays(content: string): IcsHoliday[] {
+  const lines = unfoldLines(content);
+
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('File is not a valid iCalendar (.ics) file');
+  }
+
+  const holidays: IcsHoliday[] = [];
+  let event: { start?: Date; end?: Date; endIsDate?: boolean; name?: string } | null = null;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    const upper = line.toUpperCase();
+
+    if (upper === 'BEGIN:VEVENT') {
+      event = {};
+      continue;
+    }
+
+    if (upper === 'END:VEVENT') {
+      if (event?.start) {
+        const name = event.name || 'Holiday';
+        // All-day DTEND is exclusive; a timed DTEND falls on the last day
+        let lastDay = event.start;
+        if (event.end) {
+          lastDay = event.endIsDate ? addDays(event.end, -1) : event.end;
+        }
+        const days = Math.min(
+          MAX_EVENT_DAYS,
+          Math.max(1, Math.round((lastDay.getTime() - event.start.getTime()) / DAY_MS) + 1)
+        );
+        for (let i = 0; i < days; i++) {
+          holidays.push({ date: DateRange.dateKey(addDays(event.start, i)), name });
+        }
+      }
+      event = null;
+      continue;
+    }
+
+    if (!event) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const [property, ...params] = line.slice(0, separator).toUpperCase().split(';');
+    const value = line.slice(separator + 1);
+
+    if (property === 'DTSTART') {
+      event.start = parseIcsDate(value) ?? undefined;
+    } else if (property === 'DTEND') {
+      event.end = parseIcsDate(value) ?? undefined;
+      event.endIsDate = params.includes('VALUE=DATE') || /^\d{8}$/.test(value.trim());
+    } else if (property === 'SUMMARY') {
+      event.name = unescapeText(value);
+    }
+  }
+
+  return holidays;
+}
@@ -0,0 +1,129 @@
+import {
+  formatAIProvider,
+  formatDayPart,
+  formatFeedbackType,
+  formatFeedbackVisibility,
+  formatNotificationChannel,
+  formatNotificationType,
+  formatReviewKind,
+  formatScreeningCategory,
+  formatStaffingWarning,
+  formatUserAgent,
+} from './labels';
+
+describe('formatDayPart', () => {
+  it('returns null for full-day absences', () => {
+    expect(formatDayPart('FULL_DAY')).toBeNull();
+    expect(formatDayPart(undefined)).toBeNull();
+  });
+
+  it('labels half days', () => {
+    expect(formatDayPart('MORNING')).toBe('Morning (half day)');
+    expect(formatDayPart('AFTERNOON')).toBe('Afternoon (half day)');
+  });
+
+  it('shows the hours of hourly absences', () => {
+    expect(formatDayPart('HOURS', '09:00', '11:30')).toBe('09:00 – 11:30');
+  });
+});
+
+describe('formatFeedbackType', () => {
+  it('labels each kind of feedback', () => {
+    expect(formatFeedbackType('PRAISE')).toBe('Praise');
+    expect(formatFeedbackType('CONSTRUCTIVE')).toBe('Constructive');
+    expect(formatFeedbackType('REQUEST')).toBe('Request');
+  });
+});
+
+describe('formatFeedbackVisibility', () => {
+  it('labels each visibility', () => {
+    expect(formatFeedbackVisibility('RECEIVER')).toBe('Visible to receiver');
+    expect(formatFeedbackVisibility('MANAGER_ONLY')).toBe('Managers only');
+    expect(formatFeedbackVisibility('ANONYMOUS')).toBe('Anonymous');
+  });
+});
+
+describe('formatReviewKind', () => {
+  it('labels each kind of review', () => {
+    expect(formatReviewKind('SELF')).toBe('Self-review');
+    expect(formatReviewKind('PEER')).toBe('Peer review');
+    expect(formatReviewKind('MANAGER')).toBe('Manager review');
+  });
+});
+
+describe('formatAIProvider', () => {
+  it('labels each AI provider', () => {
+    expect(formatAIProvider('huggingface')).toBe('Hugging Face');
+    expect(formatAIProvider('openai-compatible')).toBe('Local model');
+    expect(formatAIProvider('rule-based')).toBe('Built-in rules');
+  });
+});
+
+describe('formatScreeningCategory', () => {
+  it('labels each screening category', () => {
+    expect(formatScreeningCategory('PERSONAL_ATTACK')).toBe('Personal attack');
+    expect(formatScreeningCategory('PROTECTED_CHARACTERISTIC')).toBe('Protected characteristic');
+    expect(formatScreeningCategory('PROFANITY')).toBe('Profanity');
+  });
+});
+
+describe('formatNotificationType', () => {
+  it('labels notification types', () => {
+    expect(formatNotificationType('ABSENCE_APPROVED')).toBe('Time off approved');
+    expect(formatNotificationType('ABSENCE_CANCELLED')).toBe('Time off cancelled');
+    expect(formatNotificationType('SYSTEM')).toBe('Announcements');
+  });
+
+  it('falls back to the raw type', () => {
+    expect(formatNotificationType('BIRTHDAY')).toBe('BIRTHDAY');
+  });
+});
+
+describe('formatUserAgent', () => {
+  it('names the browser and operating system', () => {
+    expect(
+      formatUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+      )
+    ).toBe('Chrome on Windows');
+    expect(
+      formatUserAgent(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+      )
+    ).toBe('Safari on iOS');
+  });
+
+  it('tells Edge apart from Chrome', () => {
+    expect(
+      formatUserAgent(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0'
+      )
+    ).toBe('Edge on macOS');
+  });
+
+  it('falls back when the user agent is missing or unknown', () => {
+    expect(formatUserAgent(null)).toBe('Unknown device');
+    expect(formatUserAgent('curl/8.0')).toBe('Unknown device');
+  });
+});
+
+describe('formatNotificationChannel', () => {
+  it('labels each channel', () => {
+    expect(formatNotificationChannel('IN_APP')).toBe('In-app');
+    expect(formatNotificationChannel('EMAIL')).toBe('Instant email');
+    expect(formatNotificationChannel('DIGEST')).toBe('Daily digest');
+    expect(formatNotificationChannel('OFF')).toBe('Off');
+  });
+});
+
+describe('formatStaffingWarning', () => {
+  it('names the department, minimum and understaffed days', () => {
+    expect(
+      formatStaffingWarning({
+        department: 'Support',
+        minPresent: 2,
+        days: [{ date: '2025-03-03' }, { date: '2025-03-04' }],
+      })
+    ).toBe('Support will have fewer than 2 people present on 2 days (2025-03-03, 2025-03-04)');
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Display labels for domain values shown in the UI, notifications and emails
+ * Unknown values fall back to the raw value so new enum members still render.
+ */
+
+const FEEDBACK_TYPE_LABELS: Record<string, string> = {
+  PRAISE: 'Praise',
+  CONSTRUCTIVE: 'Constructive',
+  REQUEST: 'Request',
+};
+
+const FEEDBACK_VISIBILITY_LABELS: Record<string, string> = {
+  RECEIVER: 'Visible to receiver',
+  MANAGER_ONLY: 'Managers only',
+  ANONYMOUS: 'Anonymous',
+};
+
+const SCREENING_CATEGORY_LABELS: Record<string, string> = {
+  PERSONAL_ATTACK: 'Personal attack',
+  PROTECTED_CHARACTERISTIC: 'Protected characteristic',
+  PROFANITY: 'Profanity',
+};
+
+const REVIEW_KIND_LABELS: Record<string, string> = {
+  SELF: 'Self-review',
+  PEER: 'Peer review',
+  MANAGER: 'Manager review',
+};
+
+const AI_PROVIDER_LABELS: Record<string, string> = {
+  huggingface: 'Hugging Face',
+  'openai-compatible': 'Local model',
+  'rule-based': 'Built-in rules',
+};
+
+const NOTIFICATION_TYPE_LABELS: Record<string, string> = {
+  FEEDBACK_RECEIVED: 'Feedback received',
+  FEEDBACK_REQUESTED: 'Feedback requested from you',
+  FEEDBACK_REPLY: 'Feedback replies',
+  FEEDBACK_MODERATION: 'Feedback moderation',
+  ABSENCE_APPROVED: 'Time off approved',
+  ABSENCE_REJECTED: 'Time off rejected',
+  ABSENCE_PENDING: 'Time off requests and progress',
+  ABSENCE_CANCELLATION_REQUESTED: 'Time off cancellation requests',
+  ABSENCE_CANCELLED: 'Time off cancelled',
+  ABSENCE_CANCELLATION_REJECTED: 'Time off cancellation declined',
+  REVIEW_REQUESTED: 'Reviews to write',
+  REVIEW_REMINDER: 'Review reminders',
+  REVIEW_COMPLETED: 'Reviews completed',
+  SYSTEM: 'Announcements',
+};
+
+const NOTIFICATION_CHANNEL_LABELS: Record<string, string> = {
+  IN_APP: 'In-app',
+  EMAIL: 'Instant email',
+  DIGEST: 'Daily digest',
+  OFF: 'Off',
+};
+
+function labelOf(labels: Record<string, string>, value: string): string {
+  return Object.hasOwn(labels, value) ? labels[value] : value;
+}
+
+/**
+ * Describe the part of the day a half-day or hourly absence covers
+ * @param dayPart - FULL_DAY, MORNING, AFTERNOON or HOURS
+ * @param startTime - HH:mm, for hourly absences
+ * @param endTime - HH:mm, for hourly absences
+ * @returns A short label, or null for full-day absences
+ */
+export function formatDayPart(
+  dayPart?: string | null,
+  startTime?: string | null,
+  endTime?: string | null
+): string | null {
+  switch (dayPart) {
+    case 'MORNING':
+      return 'Morning (half day)';
+    case 'AFTERNOON':
+      return 'Afternoon (half day)';
+    case 'HOURS':
+      return `${startTime} – ${endTime}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Describe the days a request leaves a department below its minimum staffing
+ * @param warning - The staffing warning returned when creating or approving leave
+ * @returns A sentence for toasts and notifications
+ */
+export function formatStaffingWarning(warning: {
+  department: string;
+  minPresent: number;
+  days: { date: string }[];
+}): string {
+  const count = warning.days.length;
+  return `${warning.department} will have fewer than ${warning.minPresent} ${
+    warning.minPresent === 1 ? 'person' : 'people'
+  } present on ${count} ${count === 1 ? 'day' : 'days'} (${warning.days
+    .map((day) => day.date)
+    .join(', ')})`;
+}
+
+/**
+ * Describe a kind of feedback (PRAISE, CONSTRUCTIVE or REQUEST)
+ */
+export function formatFeedbackType(type: string): string {
+  return labelOf(FEEDBACK_TYPE_LABELS, type);
+}
+
+/**
+ * Describe who can read a piece of feedback (RECEIVER, MANAGER_ONLY or ANONYMOUS)
+ */
+export function formatFeedbackVisibility(visibility: string): string {
+  return labelOf(FEEDBACK_VISIBILITY_LABELS, visibility);
+}
+
+/**
+ * Describe what screening flagged a piece of feedback for
+ */
+export function formatScreeningCategory(category: string): string {
+  return labelOf(SCREENING_CATEGORY_LABELS, category);
+}
+
+/**
+ * Describe a kind of performance review (SELF, PEER or MANAGER)
+ */
+export function formatReviewKind(kind: string): string {
+  return labelOf(REVIEW_KIND_LABELS, kind);
+}
+
+/**
+ * Name the AI provider that polished or summarized a piece of feedback
+ */
+export function formatAIProvider(provider: string): string {
+  return labelOf(AI_PROVIDER_LABELS, provider);
+}
+
+/**
+ * Describe a kind of notification (NotificationType, e.g. FEEDBACK_RECEIVED)
+ */
+export function formatNotificationType(type: string): string {
+  return labelOf(NOTIFICATION_TYPE_LABELS, type);
+}
+
+/**
+ * Describe how a user hears about a kind of notification (IN_APP, EMAIL, DIGEST or OFF)
+ */
+export function formatNotificationChannel(channel: string): string {
+  return labelOf(NOTIFICATION_CHANNEL_LABELS, channel);
+}
+
+// Checked in order: Edge and Opera also claim to be Chrome, Chrome claims to be Safari
+const USER_AGENT_BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+// Checked in order: iOS user agents also mention Mac OS X, Android ones mention Linux
+const USER_AGENT_SYSTEMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Describe the browser and operating system behind a user agent
+ * @param userAgent - User-Agent header a session was created with
+ * @returns A short label, e.g. "Chrome on Windows"
+ */
+export function formatUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = USER_AGENT_BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = USER_AGENT_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) {
+    return `${browser} on ${system}`;
+  }
+
+  return browser ?? system ?? 'Unknown device';
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildOrgChart,
+  getDepartmentColors,
+  getManagerChain,
+  searchOrgChart,
+  DEPARTMENT_COLORS,
+  OrgChartPerson,
+} from './org-chart';
+
+const person = (
+  id: string,
+  managerId: string | null,
+  overrides: Partial<OrgChartPerson> = {}
+): OrgChartPerson => ({
+  id,
+  name: `Person ${id}`,
+  avatar: null,
+  title: null,
+  department: 'Engineering',
+  role: 'EMPLOYEE',
+  managerId,
+  ...overrides,
+});
+
+describe('buildOrgChart', () => {
+  it('nests reports under their manager and counts indirect reports', () => {
+    const people = [person('ceo', null), person('vp', 'ceo'), person('dev1', 'vp'), person('dev2', 'vp')];
+
+    const roots = buildOrgChart(people);
+
+    expect(roots).toHaveLength(1);
+    expect(roots[0].person.id).toBe('ceo');
+    expect(roots[0].reportCount).toBe(3);
+    expect(roots[0].children[0].person.id).toBe('vp');
+    expect(roots[0].children[0].children.map((c) => c.person.id)).toEqual(['dev1', 'dev2']);
+    expect(roots[0].children[0].children[0].reportCount).toBe(0);
+  });
+
+  it('treats people whose manager is not in the list as roots', () => {
+    const roots = buildOrgChart([person('a', 'deleted-manager'), person('b', 'a')]);
+
+    expect(roots.map((r) => r.person.id)).toEqual(['a']);
+    expect(roots[0].children.map((c) => c.person.id)).toEqual(['b']);
+  });
+
+  it('breaks reporting cycles instead of looping', () => {
+    const people = [person('a', 'b'), person('b', 'a'), person('c', 'a')];
+
+    const roots = buildOrgChart(people);
+
+    expect(roots.map((r) => r.person.id)).toEqual(['a', 'b']);
+    expect(roots[0].children.map((c) => c.person.id)).toEqual(['c']);
+  });
+
+  it('returns an empty chart for no people', () => {
+    expect(buildOrgChart([])).toEqual([]);
+  });
+});
+
+describe('getManagerChain', () => {
+  it('returns managers nearest first', () => {
+    const people = [person('ceo', null), person('vp', 'ceo'), person('dev', 'vp')];
+    expect(getManagerChain(people, 'dev')).toEqual(['vp', 'ceo']);
+  });
+
+  it('stops at cycles', () => {
+    const people = [person('a', 'b'), person('b', 'a')];
+    expect(getManagerChain(people, 'a')).toEqual(['b']);
+  });
+});
+
+describe('searchOrgChart', () => {
+  const people = [
+    person('1', null, { name: 'Emily Chen', title: 'CTO' }),
+    person('2', '1', { name: 'David Park', department: 'Design' }),
+  ];
+
+  it('matches name, title and department case-insensitively', () => {
+    expect(searchOrgChart(people, 'emily').map((p) => p.id)).toEqual(['1']);
+    expect(searchOrgChart(people, 'cto').map((p) => p.id)).toEqual(['1']);
+    expect(searchOrgChart(people, 'DESIGN').map((p) => p.id)).toEqual(['2']);
+  });
+
+  it('returns nothing for a blank query', () => {
+    expect(searchOrgChart(people, '   ')).toEqual([]);
+  });
+});
+
+describe('getDepartmentColors', () => {
+  it('assigns colors in alphabetical department order', () => {
+    const colors = getDepartmentColors([
+      person('1', null, { department: 'Sales' }),
+      person('2', null, { department: 'Engineering' }),
+      person('3', null, { department: null }),
+    ]);
+
+    expect(Array.from(colors.keys())).toEqual(['Engineering', 'Sales']);
+    expect(colors.get('Engineering')).toBe(DEPARTMENT_COLORS[0]);
+    expect(colors.get('Sales')).toBe(DEPARTMENT_COLORS[1]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Org chart helpers: turn the flat reporting-line list (managerId per user)
+ * into a tree, and answer the questions the org chart UI asks of it.
+ *
+ * People whose manager is missing from the list (deleted, other org) or who sit
+ * in a reporting cycle become roots, so nobody silently disappears from the chart.
+ */
+
+export interface OrgChartPerson {
+  id: string;
+  name: string;
+  avatar: string | null;
+  title: string | null;
+  department: string | null;
+  role: string;
+  managerId: string | null;
+}
+
+export interface OrgChartNode {
+  person: OrgChartPerson;
+  children: OrgChartNode[];
+  /** Direct and indirect reports below this node */
+  reportCount: number;
+}
+
+export interface DepartmentColor {
+  /** Left accent border of a node card */
+  border: string;
+  /** Department badge background and text */
+  badge: string;
+  /** Legend swatch */
+  swatch: string;
+}
+
+/**
+ * Static class names so Tailwind picks them up; cycled when there are more
+ * departments than colors
+ */
+export const DEPARTMENT_COLORS: readonly DepartmentColor[] = [
+  { border: 'border-l-blue-500', badge: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200', swatch: 'bg-blue-500' },
+  { border: 'border-l-emerald-500', badge: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-200', swatch: 'bg-emerald-500' },
+  { border: 'border-l-amber-500', badge: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200', swatch: 'bg-amber-500' },
+  { border: 'border-l-purple-500', badge: 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-200', swatch: 'bg-purple-500' },
+  { border: 'border-l-rose-500', badge: 'bg-rose-100 text-rose-800 dark:bg-rose-900/40 dark:text-rose-200', swatch: 'bg-rose-500' },
+  { border: 'border-l-cyan-500', badge: 'bg-cyan-100 text-cyan-800 dark:bg-cyan-900/40 dark:text-cyan-200', swatch: 'bg-cyan-500' },
+  { border: 'border-l-orange-500', badge: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-200', swatch: 'bg-orange-500' },
+  { border: 'border-l-indigo-500', badge: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/40 dark:text-indigo-200', swatch: 'bg-indigo-500' },
+];
+
+/** Used for people without a department */
+export const NO_DEPARTMENT_COLOR: DepartmentColor = {
+  border: 'border-l-muted-foreground/40',
+  badge: 'bg-muted text-muted-foreground',
+  swatch: 'bg-muted-foreground/40',
+};
+
+/**
+ * Walk up the reporting line, nearest manager first. Stops at people outside
+ * the list and at cycles.
+ */
+export function getManagerChain(people: OrgChartPerson[], personId: string): string[] {
+  const byId = new Map(people.map((p) => [p.id, p]));
+  const chain: string[] = [];
+  const visited = new Set([personId]);
+
+  let managerId = byId.get(personId)?.managerId ?? null;
+  while (managerId && byId.has(managerId) && !visited.has(managerId)) {
+    chain.push(managerId);
+    visited.add(managerId);
+    managerId = byId.get(managerId)!.managerId;
+  }
+
+  return chain;
+}
+
+/**
+ * Build the reporting tree. Roots and siblings keep the order of the input list.
+ */
+export function buildOrgChart(people: OrgChartPerson[]): OrgChartNode[] {
+  const byId = new Map(people.map((p) => [p.id, p]));
+  const childrenOf = new Map<string, OrgChartPerson[]>();
+  const roots: OrgChartPerson[] = [];
+
+  for (const person of people) {
+    const managerId = person.managerId;
+
+    if (!managerId || !byId.has(managerId) || isCycleMember(byId, person.id)) {
+      roots.push(person);
+      continue;
+    }
+
+    const siblings = childrenOf.get(managerId) ?? [];
+    siblings.push(person);
+    childrenOf.set(managerId, siblings);
+  }
+
+  const toNode = (person: OrgChartPerson): OrgChartNode => {
+    const children = (childrenOf.get(person.id) ?? []).map(toNode);
+    const reportCount = children.reduce((sum, child) => sum + 1 + child.reportCount, 0);
+    return { person, children, reportCount };
+  };
+
+  return roots.map(toNode);
+}
+
+/**
+ * A person is in a cycle when following managerId leads back to them
+ */
+function isCycleMember(byId: Map<string, OrgChartPerson>, personId: string): boolean {
+  const visited = new Set<string>();
+
+  let current = byId.get(personId)?.managerId ?? null;
+  while (current && byId.has(current) && !visited.has(current)) {
+    if (current === personId) return true;
+    visited.add(current);
+    current = byId.get(current)!.managerId;
+  }
+
+  return false;
+}
+
+/**
+ * People whose name, title or department contains the query (case-insensitive)
+ */
+export function searchOrgChart(people: OrgChartPerson[], query: string): OrgChartPerson[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  return people.filter((p) =>
+    [p.name, p.title, p.department].some((field) => field?.toLowerCase().includes(needle))
+  );
+}
+
+/**
+ * Give every department a distinct color, in alphabetical order so the
+ * assignment is stable between renders
+ */
+export function getDepartmentColors(people: OrgChartPerson[]): Map<string, DepartmentColor> {
+  const departments = Array.from(
+    new Set(people.map((p) => p.department).filter((d): d is string => !!d))
+  ).sort((a, b) => a.localeCompare(b));
+
+  return new Map(
+    departments.map((department, index) => [
+      department,
+      DEPARTMENT_COLORS[index % DEPARTMENT_COLORS.length],
+    ])
+  );
+}
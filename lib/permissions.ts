@@ -9,11 +9,22 @@ export type Role = 'EMPLOYEE' | 'MANAGER' | 'COWORKER';
  */
 interface UserTarget {
   id: string;
+  /**
+   * IDs up the target's reporting line: their manager, that manager's manager, etc.
+   * Only resolved server-side; when omitted, reporting-line rules grant nothing.
+   */
+  managerChain?: readonly string[];
 }
 
 interface FeedbackTarget {
   giverId: string;
   receiverId?: string;
+  /** RECEIVER (default), MANAGER_ONLY or ANONYMOUS */
+  visibility?: string;
+  /** Set when flagged feedback is held for moderation: PENDING, APPROVED or REJECTED */
+  moderationStatus?: string | null;
+  /** Reporting line of the receiver, as in UserTarget.managerChain */
+  receiverManagerChain?: readonly string[];
 }
 
 interface AbsenceTarget {
@@ -34,6 +45,18 @@ export interface PermissionUser {
   email: string;
 }
 
+/**
+ * Check if the viewer is a manager above the target in the reporting line
+ * (i.e. the target is one of their direct or indirect reports)
+ */
+const managesTarget = (viewer: PermissionUser, target: UserTarget): boolean => {
+  return (
+    viewer.role === 'MANAGER' &&
+    viewer.id !== target.id &&
+    !!target.managerChain?.includes(viewer.id)
+  );
+};
+
 /**
  * Centralized permission checking system.
  * All authorization logic lives here for consistency and auditability.
@@ -51,14 +74,13 @@ export const Permissions = {
      * Can view sensitive fields (salary, SSN, address, performanceRating)
      * Rules:
      * - Users can view their own sensitive data
-     * - Manager viewing of others' sensitive data is validated server-side (department check)
+     * - Managers can view sensitive data of their direct and indirect reports
      *
-     * Note: Server validates manager department membership. Frontend only shows
-     * sensitive section for self to avoid showing empty sections.
+     * Note: The reporting line (managerChain) is resolved server-side. Frontend
+     * callers pass no chain, so the sensitive section is only shown for self.
      */
     viewSensitive: (viewer: PermissionUser, target: UserTarget): boolean => {
-      // Only show sensitive section for self; server handles manager permissions
-      return viewer.id === target.id;
+      return viewer.id === target.id || managesTarget(viewer, target);
     },
 
     /**
@@ -100,8 +122,12 @@ export const Permissions = {
      * Can update sensitive fields (salary, SSN, performanceRating)
      * Rules:
      * - Only managers can update sensitive fields
+     * - Given a target, only of their direct and indirect reports
      */
-    updateSensitive: (viewer: PermissionUser): boolean => {
+    updateSensitive: (viewer: PermissionUser, target?: UserTarget): boolean => {
+      if (target) {
+        return managesTarget(viewer, target);
+      }
       return viewer.role === 'MANAGER';
     },
   },
@@ -120,16 +146,45 @@ export const Permissions = {
     /**
      * Can view specific feedback
      * Rules:
-     * - Managers can view all feedback
-     * - Feedback receivers can view feedback they received
      * - Feedback givers can view feedback they gave
+     * - Feedback receivers can view feedback they received, except manager-only notes
+     *   and feedback held back by moderation
+     * - Managers can view feedback about other people; manager-only notes only when
+     *   they are about one of their direct or indirect reports
      */
     view: (viewer: PermissionUser, feedback: FeedbackTarget): boolean => {
-      return (
-        viewer.id === feedback.giverId ||
-        viewer.id === feedback.receiverId ||
-        viewer.role === 'MANAGER'
-      );
+      if (viewer.id === feedback.giverId) {
+        return true;
+      }
+      if (viewer.id === feedback.receiverId) {
+        return (
+          feedback.visibility !== 'MANAGER_ONLY' &&
+          feedback.moderationStatus !== 'PENDING' &&
+          feedback.moderationStatus !== 'REJECTED'
+        );
+      }
+      if (feedback.visibility === 'MANAGER_ONLY') {
+        return (
+          !!feedback.receiverId &&
+          managesTarget(viewer, { id: feedback.receiverId, managerChain: feedback.receiverManagerChain })
+        );
+      }
+      return viewer.role === 'MANAGER';
+    },
+
+    /**
+     * Can see who gave specific feedback
+     * Rules:
+     * - Only the giver knows who wrote anonymous feedback
+     * - Everyone who can view other feedback sees its giver
+     *
+     * Note: Disclosing an anonymous giver is a super admin action recorded in the audit log
+     */
+    viewGiver: (viewer: PermissionUser, feedback: FeedbackTarget): boolean => {
+      if (feedback.visibility === 'ANONYMOUS') {
+        return viewer.id === feedback.giverId;
+      }
+      return Permissions.feedback.view(viewer, feedback);
     },
 
     /**
@@ -143,6 +198,16 @@ export const Permissions = {
       return viewer.role === 'MANAGER' || viewer.id === targetUserId;
     },
 
+    /**
+     * Can summarize the feedback a user received with AI
+     * Rules:
+     * - Managers can summarize the feedback of their direct and indirect reports,
+     *   e.g. to prepare a 1:1
+     */
+    summarize: (viewer: PermissionUser, target: UserTarget): boolean => {
+      return managesTarget(viewer, target);
+    },
+
     /**
      * Can edit/delete feedback
      * Rules:
@@ -204,8 +269,21 @@ export const Permissions = {
      * Can approve/reject absence requests
      * Rules:
      * - Only managers can approve/reject absence requests
+     * - Given the requester, only for their direct and indirect reports
      */
-    approve: (viewer: PermissionUser): boolean => {
+    approve: (viewer: PermissionUser, owner?: UserTarget): boolean => {
+      if (owner) {
+        return managesTarget(viewer, owner);
+      }
+      return viewer.role === 'MANAGER';
+    },
+
+    /**
+     * Can change yearly leave allowances
+     * Rules:
+     * - Only managers can override a user's allowance
+     */
+    manageAllowance: (viewer: PermissionUser): boolean => {
       return viewer.role === 'MANAGER';
     },
 
@@ -222,6 +300,16 @@ export const Permissions = {
       return viewer.id === absence.userId && absence.status === 'PENDING';
     },
 
+    /**
+     * Can ask to cancel approved leave
+     * Rules:
+     * - Only the owner can request cancellation, and only of approved leave
+     * - The cancellation itself is decided by an approver
+     */
+    requestCancellation: (viewer: PermissionUser, absence: AbsenceTarget): boolean => {
+      return viewer.id === absence.userId && absence.status === 'APPROVED';
+    },
+
     /**
      * Can delete absence request
      * Rules:
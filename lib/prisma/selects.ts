@@ -51,6 +51,16 @@ export const USER_CARD_SELECT = {
   department: true,
 } as const satisfies Prisma.UserSelect;
 
+/**
+ * Card fields plus the reporting line, for building the org chart tree
+ * Used in: org chart page
+ */
+export const USER_ORG_CHART_SELECT = {
+  ...USER_CARD_SELECT,
+  role: true,
+  managerId: true,
+} as const satisfies Prisma.UserSelect;
+
 /**
  * User fields for feedback-related queries
  * Includes only fields needed for feedback giver/receiver display
@@ -100,6 +110,13 @@ export type UserCard = Prisma.UserGetPayload<{
   select: typeof USER_CARD_SELECT;
 }>;
 
+/**
+ * Type for user data in the org chart (card data plus reporting line)
+ */
+export type UserOrgChart = Prisma.UserGetPayload<{
+  select: typeof USER_ORG_CHART_SELECT;
+}>;
+
 /**
  * Type for user data in feedback context
  */
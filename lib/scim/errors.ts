@@ -0,0 +1,26 @@
+/**
+ * SCIM error detail types (RFC 7644 3.12)
+ */
+export type ScimErrorType =
+  | 'invalidFilter'
+  | 'invalidPath'
+  | 'invalidSyntax'
+  | 'invalidValue'
+  | 'mutability'
+  | 'noTarget'
+  | 'uniqueness'
+  | 'tooMany';
+
+/**
+ * An error to send back to the SCIM client with its HTTP status
+ */
+export class ScimError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly scimType?: ScimErrorType
+  ) {
+    super(message);
+    this.name = 'ScimError';
+  }
+}
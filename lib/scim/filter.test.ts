@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { getEqualityValue, getPathValues, matchesScimFilter, parseScimFilter } from './filter';
+import { ScimError } from './errors';
+
+const user = {
+  id: 'u1',
+  userName: 'Jane.Doe@example.com',
+  name: { givenName: 'Jane', familyName: 'Doe' },
+  active: true,
+  emails: [
+    { value: 'jane.doe@example.com', type: 'work', primary: true },
+    { value: 'jane@home.example', type: 'home' },
+  ],
+  'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User': { department: 'Engineering' },
+  meta: { lastModified: '2026-03-01T10:00:00.000Z' },
+};
+
+const matches = (filter: string) => matchesScimFilter(user, parseScimFilter(filter));
+
+describe('parseScimFilter', () => {
+  it('parses comparisons, logic and grouping', () => {
+    expect(parseScimFilter('userName eq "a" and not (active eq false) or title pr')).toEqual({
+      op: 'or',
+      left: {
+        op: 'and',
+        left: { op: 'eq', path: 'userName', value: 'a' },
+        right: { op: 'not', filter: { op: 'eq', path: 'active', value: false } },
+      },
+      right: { op: 'pr', path: 'title' },
+    });
+  });
+
+  it('parses value path filters', () => {
+    expect(parseScimFilter('emails[type eq "work"]')).toEqual({
+      op: 'valuePath',
+      path: 'emails',
+      filter: { op: 'eq', path: 'type', value: 'work' },
+    });
+  });
+
+  it('rejects malformed filters', () => {
+    const malformed = ['userName', 'userName eq', 'userName is "a"', '(active eq true', 'a eq "b" c'];
+    for (const filter of malformed) {
+      expect(() => parseScimFilter(filter)).toThrow(ScimError);
+    }
+  });
+});
+
+describe('matchesScimFilter', () => {
+  it('compares strings without regard to case', () => {
+    expect(matches('userName eq "jane.doe@EXAMPLE.com"')).toBe(true);
+    expect(matches('userName sw "jane"')).toBe(true);
+    expect(matches('userName ew "@example.com"')).toBe(true);
+    expect(matches('userName co "doe"')).toBe(true);
+    expect(matches('userName eq "john@example.com"')).toBe(false);
+  });
+
+  it('matches attribute names without regard to case', () => {
+    expect(matches('USERNAME eq "jane.doe@example.com"')).toBe(true);
+    expect(matches('name.GivenName eq "Jane"')).toBe(true);
+  });
+
+  it('reads the core schema URN prefix and extension attributes', () => {
+    expect(matches('urn:ietf:params:scim:schemas:core:2.0:User:userName sw "jane"')).toBe(true);
+    const enterprise = 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User';
+    expect(matches(`${enterprise}:department eq "engineering"`)).toBe(true);
+  });
+
+  it('matches multi-valued attributes and value paths', () => {
+    expect(matches('emails.value eq "jane@home.example"')).toBe(true);
+    expect(matches('emails[type eq "work" and value co "example.com"]')).toBe(true);
+    expect(matches('emails[type eq "other"]')).toBe(false);
+  });
+
+  it('handles booleans, presence, not equal and ordering', () => {
+    expect(matches('active eq true')).toBe(true);
+    expect(matches('title pr')).toBe(false);
+    expect(matches('title ne "CEO"')).toBe(true);
+    expect(matches('meta.lastModified gt "2026-01-01T00:00:00Z"')).toBe(true);
+    expect(matches('not (active eq true) or userName eq "x"')).toBe(false);
+  });
+});
+
+describe('getPathValues', () => {
+  it('flattens multi-valued attributes', () => {
+    expect(getPathValues(user, 'emails.type')).toEqual(['work', 'home']);
+    expect(getPathValues(user, 'missing.path')).toEqual([]);
+  });
+});
+
+describe('getEqualityValue', () => {
+  const valueOf = (filter: string) => getEqualityValue(parseScimFilter(filter), 'userName');
+
+  it('reads the value of a single equality comparison', () => {
+    expect(valueOf('userName eq "jane@example.com"')).toBe('jane@example.com');
+    expect(valueOf('USERNAME eq "jane@example.com"')).toBe('jane@example.com');
+    expect(valueOf('urn:ietf:params:scim:schemas:core:2.0:User:userName eq "jane@example.com"'))
+      .toBe('jane@example.com');
+  });
+
+  it('ignores any other filter', () => {
+    expect(valueOf('userName co "jane"')).toBeNull();
+    expect(valueOf('userName eq "a" and active eq true')).toBeNull();
+    expect(valueOf('emails.value eq "jane@example.com"')).toBeNull();
+    expect(valueOf('userName eq null')).toBeNull();
+  });
+});
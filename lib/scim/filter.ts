@@ -0,0 +1,282 @@
+import { ScimError } from './errors';
+
+/**
+ * SCIM filter expressions (RFC 7644 3.4.2.2), e.g.
+ *   userName eq "jane@example.com"
+ *   emails[type eq "work" and value co "@example.com"] or not (active eq false)
+ * Filters are evaluated against SCIM resources as they are sent to clients.
+ */
+
+type CompareOperator = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le';
+
+const COMPARE_OPERATORS: CompareOperator[] = ['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le'];
+
+export type ScimFilter =
+  | { op: 'and' | 'or'; left: ScimFilter; right: ScimFilter }
+  | { op: 'not'; filter: ScimFilter }
+  | { op: 'pr'; path: string }
+  | { op: CompareOperator; path: string; value: string | number | boolean | null }
+  | { op: 'valuePath'; path: string; filter: ScimFilter };
+
+const CORE_SCHEMA_PREFIX = /^urn:ietf:params:scim:schemas:core:2\.0:(User|Group):/i;
+
+// Extension schemas whose attributes sit in an object under the schema URN
+const EXTENSION_SCHEMAS = ['urn:ietf:params:scim:schemas:extension:enterprise:2.0:User'];
+
+// Strings (with JSON escapes), brackets and parentheses, or anything up to whitespace
+const TOKEN_PATTERN = /\s*("(?:[^"\\]|\\.)*"|[()[\]]|[^\s()[\]"]+)/y;
+
+function tokenize(filter: string): string[] {
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < filter.length) {
+    const match = TOKEN_PATTERN.exec(filter);
+    if (!match) {
+      if (filter.slice(TOKEN_PATTERN.lastIndex).trim() === '') break;
+      throw new ScimError(400, 'Filter could not be read', 'invalidFilter');
+    }
+    tokens.push(match[1]);
+  }
+
+  return tokens;
+}
+
+function parseValue(token: string | undefined): string | number | boolean | null {
+  if (token === undefined) {
+    throw new ScimError(400, 'Filter is missing a value to compare with', 'invalidFilter');
+  }
+  if (token.startsWith('"')) {
+    try {
+      return JSON.parse(token) as string;
+    } catch {
+      throw new ScimError(400, `Filter has a malformed string: ${token}`, 'invalidFilter');
+    }
+  }
+
+  const lower = token.toLowerCase();
+  if (lower === 'true') return true;
+  if (lower === 'false') return false;
+  if (lower === 'null') return null;
+
+  const number = Number(token);
+  if (token !== '' && !Number.isNaN(number)) return number;
+
+  throw new ScimError(400, `Filter has an unexpected value: ${token}`, 'invalidFilter');
+}
+
+/**
+ * Parse a SCIM filter expression
+ * @throws ScimError (400 invalidFilter) if the filter is malformed
+ */
+export function parseScimFilter(filter: string): ScimFilter {
+  const tokens = tokenize(filter);
+  let position = 0;
+
+  const peek = () => tokens[position]?.toLowerCase();
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (peek() !== token) {
+      throw new ScimError(400, `Filter is missing "${token}"`, 'invalidFilter');
+    }
+    position++;
+  };
+
+  const parseOr = (): ScimFilter => {
+    let left = parseAnd();
+    while (peek() === 'or') {
+      position++;
+      left = { op: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): ScimFilter => {
+    let left = parseUnary();
+    while (peek() === 'and') {
+      position++;
+      left = { op: 'and', left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ScimFilter => {
+    if (peek() === 'not') {
+      position++;
+      expect('(');
+      const filter = parseOr();
+      expect(')');
+      return { op: 'not', filter };
+    }
+
+    if (peek() === '(') {
+      position++;
+      const filter = parseOr();
+      expect(')');
+      return filter;
+    }
+
+    const path = next();
+    if (!path || path.startsWith('"') || /^[()[\]]$/.test(path)) {
+      throw new ScimError(400, 'Filter is missing an attribute', 'invalidFilter');
+    }
+
+    if (peek() === '[') {
+      position++;
+      const filter = parseOr();
+      expect(']');
+      return { op: 'valuePath', path, filter };
+    }
+
+    const operator = next()?.toLowerCase();
+    if (operator === 'pr') {
+      return { op: 'pr', path };
+    }
+    if (!COMPARE_OPERATORS.includes(operator as CompareOperator)) {
+      throw new ScimError(400, `Filter has an unknown operator: ${operator}`, 'invalidFilter');
+    }
+
+    return { op: operator as CompareOperator, path, value: parseValue(next()) };
+  };
+
+  const result = parseOr();
+  if (position < tokens.length) {
+    throw new ScimError(400, `Filter has unexpected "${tokens[position]}"`, 'invalidFilter');
+  }
+
+  return result;
+}
+
+/**
+ * Find an attribute of an object, ignoring case as SCIM attribute names do
+ */
+function getAttribute(source: unknown, name: string): unknown {
+  if (typeof source !== 'object' || source === null) {
+    return undefined;
+  }
+
+  const key = Object.keys(source).find((k) => k.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : (source as Record<string, unknown>)[key];
+}
+
+/**
+ * Split an attribute path into the attribute names to walk, keeping a schema URN
+ * (e.g. the enterprise user extension) as a single step
+ */
+export function splitAttributePath(path: string): string[] {
+  const withoutCore = path.replace(CORE_SCHEMA_PREFIX, '');
+
+  const extension = EXTENSION_SCHEMAS.find((schema) =>
+    withoutCore.toLowerCase().startsWith(schema.toLowerCase())
+  );
+  if (extension) {
+    const rest = withoutCore.slice(extension.length + 1);
+    return [extension, ...(rest ? rest.split('.') : [])];
+  }
+
+  if (withoutCore.toLowerCase().startsWith('urn:')) {
+    const lastColon = withoutCore.lastIndexOf(':');
+    return [withoutCore.slice(0, lastColon), ...withoutCore.slice(lastColon + 1).split('.')];
+  }
+
+  return withoutCore.split('.');
+}
+
+/**
+ * Read every value at an attribute path, flattening multi-valued attributes
+ */
+export function getPathValues(resource: unknown, path: string): unknown[] {
+  let values: unknown[] = [resource];
+
+  for (const name of splitAttributePath(path)) {
+    values = values
+      .flatMap((value) => (Array.isArray(value) ? value : [value]))
+      .map((value) => getAttribute(value, name))
+      .filter((value) => value !== undefined && value !== null);
+  }
+
+  return values.flatMap((value) => (Array.isArray(value) ? value : [value]));
+}
+
+function compare(
+  actual: unknown,
+  operator: CompareOperator,
+  expected: string | number | boolean | null
+): boolean {
+  if (typeof actual === 'string' && typeof expected === 'string') {
+    const a = actual.toLowerCase();
+    const b = expected.toLowerCase();
+    switch (operator) {
+      case 'eq': return a === b;
+      case 'ne': return a !== b;
+      case 'co': return a.includes(b);
+      case 'sw': return a.startsWith(b);
+      case 'ew': return a.endsWith(b);
+      case 'gt': return a > b;
+      case 'ge': return a >= b;
+      case 'lt': return a < b;
+      case 'le': return a <= b;
+    }
+  }
+
+  if (typeof actual === 'number' && typeof expected === 'number') {
+    switch (operator) {
+      case 'gt': return actual > expected;
+      case 'ge': return actual >= expected;
+      case 'lt': return actual < expected;
+      case 'le': return actual <= expected;
+    }
+  }
+
+  if (operator === 'eq') return actual === expected;
+  if (operator === 'ne') return actual !== expected;
+  return false;
+}
+
+/**
+ * Check if a SCIM resource matches a filter
+ */
+export function matchesScimFilter(resource: unknown, filter: ScimFilter): boolean {
+  switch (filter.op) {
+    case 'and':
+      return matchesScimFilter(resource, filter.left) && matchesScimFilter(resource, filter.right);
+    case 'or':
+      return matchesScimFilter(resource, filter.left) || matchesScimFilter(resource, filter.right);
+    case 'not':
+      return !matchesScimFilter(resource, filter.filter);
+    case 'pr':
+      return getPathValues(resource, filter.path).some((value) => value !== '');
+    case 'valuePath':
+      return getPathValues(resource, filter.path).some((value) =>
+        matchesScimFilter(value, filter.filter)
+      );
+    case 'ne':
+      // Not equal means no value is equal, and holds for attributes without a value
+      return !getPathValues(resource, filter.path).some((value) =>
+        compare(value, 'eq', filter.value)
+      );
+    default: {
+      const values = getPathValues(resource, filter.path);
+      if (filter.value === null && filter.op === 'eq') {
+        return values.length === 0;
+      }
+      return values.some((value) => compare(value, filter.op as CompareOperator, filter.value));
+    }
+  }
+}
+
+/**
+ * Get the string a filter looks an attribute up by, if the filter is nothing more than
+ * `attribute eq "value"` - how clients check whether a resource already exists
+ * @returns The value, or null for any other filter
+ */
+export function getEqualityValue(filter: ScimFilter, attribute: string): string | null {
+  if (filter.op !== 'eq' || typeof filter.value !== 'string') {
+    return null;
+  }
+
+  const path = splitAttributePath(filter.path);
+  return path.length === 1 && path[0].toLowerCase() === attribute.toLowerCase()
+    ? filter.value
+    : null;
+}
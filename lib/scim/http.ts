@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { logger } from '@/lib/logger';
+import { ScimError } from './errors';
+import { SCIM_SCHEMAS } from './resources';
+import { authenticateScimToken } from './tokens';
+import type { ScimRequestContext } from './provisioning';
+
+const SCIM_CONTENT_TYPE = 'application/scim+json';
+
+export function scimResponse(body: unknown, status = 200): NextResponse {
+  return NextResponse.json(body, {
+    status,
+    headers: { 'Content-Type': SCIM_CONTENT_TYPE },
+  });
+}
+
+export function scimErrorResponse(error: ScimError): NextResponse {
+  return scimResponse(
+    {
+      schemas: [SCIM_SCHEMAS.error],
+      status: String(error.status),
+      ...(error.scimType && { scimType: error.scimType }),
+      detail: error.message,
+    },
+    error.status
+  );
+}
+
+/**
+ * Read the JSON body of a SCIM request
+ * @throws ScimError (400 invalidSyntax) if the body is not JSON
+ */
+export async function readScimBody(request: NextRequest): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ScimError(400, 'Request body is not valid JSON', 'invalidSyntax');
+  }
+}
+
+type ScimHandler<P> = (
+  request: NextRequest,
+  context: ScimRequestContext,
+  params: P
+) => Promise<Response>;
+
+/**
+ * Wrap a SCIM route handler with bearer token authentication, rate limiting per token
+ * and SCIM error responses
+ */
+export function withScim<P = Record<string, never>>(handler: ScimHandler<P>) {
+  return async (request: NextRequest, { params }: { params: Promise<P> }) => {
+    const token = await authenticateScimToken(request.headers.get('authorization'));
+    if (!token) {
+      return scimErrorResponse(new ScimError(401, 'Bearer token is missing or invalid'));
+    }
+
+    const rateLimit = await checkRateLimit(`scim:${token.id}`, 'api');
+    if (!rateLimit.success) {
+      return scimErrorResponse(new ScimError(429, 'Too many requests. Please retry later.'));
+    }
+
+    const context: ScimRequestContext = {
+      organizationId: token.organizationId,
+      tokenId: token.id,
+      tokenName: token.name,
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+    };
+
+    try {
+      return await handler(request, context, await params);
+    } catch (error) {
+      if (error instanceof ScimError) {
+        return scimErrorResponse(error);
+      }
+
+      logger.error(
+        { error, tokenId: token.id, method: request.method, path: request.nextUrl.pathname },
+        'SCIM request failed'
+      );
+      return scimErrorResponse(new ScimError(500, 'Internal server error'));
+    }
+  };
+}
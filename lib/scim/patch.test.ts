@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { applyScimPatch, readPatchOperations } from './patch';
+import { ScimError } from './errors';
+
+const ENTERPRISE = 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User';
+
+const user = {
+  userName: 'jane@example.com',
+  name: { givenName: 'Jane', familyName: 'Doe' },
+  active: true,
+  emails: [{ value: 'jane@example.com', type: 'work', primary: true }],
+  [ENTERPRISE]: { department: 'Engineering' },
+};
+
+const group = {
+  displayName: 'Engineering',
+  members: [{ value: 'u1' }, { value: 'u2' }],
+};
+
+describe('applyScimPatch', () => {
+  it('replaces attributes by path without changing the original', () => {
+    const patched = applyScimPatch(user, [
+      { op: 'replace', path: 'active', value: false },
+      { op: 'Replace', path: 'name.familyName', value: 'Smith' },
+    ]);
+
+    expect(patched).toMatchObject({
+      active: false,
+      name: { givenName: 'Jane', familyName: 'Smith' },
+    });
+    expect(user.active).toBe(true);
+  });
+
+  it('applies operations without a path as attribute paths', () => {
+    const patched = applyScimPatch(user, [
+      {
+        op: 'replace',
+        value: { active: false, 'name.givenName': 'Janet', [`${ENTERPRISE}:department`]: 'Sales' },
+      },
+    ]);
+
+    expect(patched).toMatchObject({
+      active: false,
+      name: { givenName: 'Janet' },
+      [ENTERPRISE]: { department: 'Sales' },
+    });
+  });
+
+  it('merges an extension object added without a path', () => {
+    const patched = applyScimPatch(user, [
+      { op: 'add', value: { [ENTERPRISE]: { employeeNumber: '42' } } },
+    ]);
+
+    expect(patched[ENTERPRISE]).toEqual({ department: 'Engineering', employeeNumber: '42' });
+  });
+
+  it('updates items selected by a filter, creating a missing one', () => {
+    const patched = applyScimPatch(user, [
+      { op: 'replace', path: 'emails[type eq "work"].value', value: 'janet@example.com' },
+      { op: 'add', path: 'emails[type eq "home"].value', value: 'janet@home.example' },
+    ]);
+
+    expect(patched.emails).toEqual([
+      { value: 'janet@example.com', type: 'work', primary: true },
+      { type: 'home', value: 'janet@home.example' },
+    ]);
+  });
+
+  it('adds members without duplicates and removes them by filter or value', () => {
+    const added = applyScimPatch(group, [
+      { op: 'add', path: 'members', value: [{ value: 'u2' }, { value: 'u3' }] },
+    ]);
+    expect(added.members).toEqual([{ value: 'u1' }, { value: 'u2' }, { value: 'u3' }]);
+
+    const removed = applyScimPatch(group, [
+      { op: 'remove', path: 'members[value eq "u1"]' },
+      { op: 'remove', path: 'members', value: [{ value: 'u2' }] },
+    ]);
+    expect(removed.members).toEqual([]);
+  });
+
+  it('removes an attribute', () => {
+    const patched = applyScimPatch(user, [{ op: 'remove', path: `${ENTERPRISE}:department` }]);
+    expect(patched[ENTERPRISE]).toEqual({});
+  });
+
+  it('rejects unknown operations and targets', () => {
+    expect(() => applyScimPatch(user, [{ op: 'move', path: 'active' }])).toThrow(ScimError);
+    expect(() => applyScimPatch(user, [{ op: 'remove' }])).toThrow(ScimError);
+    expect(() =>
+      applyScimPatch(user, [{ op: 'replace', path: 'emails[type eq "other"]', value: {} }])
+    ).toThrow('No values match');
+  });
+});
+
+describe('readPatchOperations', () => {
+  it('reads the operations of a PatchOp message', () => {
+    expect(
+      readPatchOperations({
+        schemas: ['urn:ietf:params:scim:api:messages:2.0:PatchOp'],
+        Operations: [{ op: 'replace', path: 'active', value: false }],
+      })
+    ).toEqual([{ op: 'replace', path: 'active', value: false }]);
+  });
+
+  it('rejects bodies without operations', () => {
+    expect(() => readPatchOperations({ op: 'replace' })).toThrow(ScimError);
+  });
+});
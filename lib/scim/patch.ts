@@ -0,0 +1,198 @@
+import { ScimError } from './errors';
+import { matchesScimFilter, parseScimFilter, splitAttributePath } from './filter';
+
+/**
+ * SCIM PATCH (RFC 7644 3.5.2)
+ * Operations are applied to the resource as the client sees it; the result is then
+ * read back like a PUT, so PATCH and PUT share one way of mapping onto the database.
+ */
+
+export interface ScimPatchOperation {
+  op: string;
+  path?: string;
+  value?: unknown;
+}
+
+type ScimObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is ScimObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Find the key of an attribute, ignoring case as SCIM attribute names do
+ */
+function findKey(target: ScimObject, name: string): string {
+  return Object.keys(target).find((key) => key.toLowerCase() === name.toLowerCase()) ?? name;
+}
+
+/**
+ * Walk to the object holding the last attribute of a path
+ * @param create - Create missing objects on the way (for add and replace)
+ */
+function getParent(resource: ScimObject, names: string[], create: boolean): ScimObject | null {
+  let current = resource;
+
+  for (const name of names.slice(0, -1)) {
+    const key = findKey(current, name);
+    if (!isObject(current[key])) {
+      if (!create) return null;
+      current[key] = {};
+    }
+    current = current[key] as ScimObject;
+  }
+
+  return current;
+}
+
+// Multi-valued attributes hold objects told apart by their value, e.g. members
+const sameItem = (a: unknown, b: unknown) =>
+  isObject(a) && isObject(b) && a.value !== undefined ? a.value === b.value : a === b;
+
+function setAttribute(resource: ScimObject, path: string, value: unknown, append: boolean) {
+  const names = splitAttributePath(path);
+  const parent = getParent(resource, names, true) as ScimObject;
+  const key = findKey(parent, names[names.length - 1]);
+  const existing = parent[key];
+
+  if (append && Array.isArray(existing)) {
+    const additions = (Array.isArray(value) ? value : [value]).filter(
+      (item) => !existing.some((current) => sameItem(current, item))
+    );
+    parent[key] = [...existing, ...additions];
+  } else if (append && isObject(existing) && isObject(value)) {
+    parent[key] = { ...existing, ...value };
+  } else {
+    parent[key] = value;
+  }
+}
+
+function removeAttribute(resource: ScimObject, path: string, value: unknown) {
+  const names = splitAttributePath(path);
+  const parent = getParent(resource, names, false);
+  if (!parent) return;
+
+  const key = findKey(parent, names[names.length - 1]);
+  const existing = parent[key];
+
+  // Some clients remove members by value instead of with a filter
+  if (Array.isArray(existing) && value !== undefined) {
+    const removals = Array.isArray(value) ? value : [value];
+    parent[key] = existing.filter((item) => !removals.some((removal) => sameItem(item, removal)));
+  } else {
+    delete parent[key];
+  }
+}
+
+/**
+ * Apply an operation whose path selects items of a multi-valued attribute,
+ * e.g. emails[type eq "work"].value or members[value eq "abc"]
+ */
+function applyToFilteredItems(
+  resource: ScimObject,
+  op: string,
+  match: RegExpMatchArray,
+  value: unknown
+) {
+  const [, attributePath, filterText, subAttribute] = match;
+  const filter = parseScimFilter(filterText);
+  const names = splitAttributePath(attributePath);
+  const parent = getParent(resource, names, op !== 'remove');
+  if (!parent) return;
+
+  const key = findKey(parent, names[names.length - 1]);
+  const items = Array.isArray(parent[key]) ? (parent[key] as unknown[]) : [];
+  const matches = (item: unknown) => matchesScimFilter(item, filter);
+
+  if (op === 'remove') {
+    parent[key] = subAttribute
+      ? items.map((item) => {
+          if (!matches(item) || !isObject(item)) return item;
+          const rest = { ...item };
+          delete rest[findKey(rest, subAttribute)];
+          return rest;
+        })
+      : items.filter((item) => !matches(item));
+    return;
+  }
+
+  if (!items.some(matches)) {
+    // Adding to an item that is not there yet, e.g. a first work email, creates it
+    if (subAttribute && filter.op === 'eq') {
+      parent[key] = [...items, { [filter.path]: filter.value, [subAttribute]: value }];
+      return;
+    }
+    throw new ScimError(400, `No values match the path ${match[0]}`, 'noTarget');
+  }
+
+  parent[key] = items.map((item) => {
+    if (!matches(item)) return item;
+    if (subAttribute) {
+      return { ...(item as ScimObject), [findKey(item as ScimObject, subAttribute)]: value };
+    }
+    return isObject(value) && isObject(item) ? { ...item, ...value } : value;
+  });
+}
+
+const FILTERED_PATH = /^([^[]+)\[(.+)\](?:\.(.+))?$/;
+
+/**
+ * Apply SCIM PATCH operations to a resource
+ * @returns The patched copy of the resource
+ * @throws ScimError (400) if an operation is malformed or its path selects nothing
+ */
+export function applyScimPatch<T extends object>(
+  resource: T,
+  operations: ScimPatchOperation[]
+): ScimObject {
+  const patched = structuredClone(resource) as ScimObject;
+
+  for (const operation of operations) {
+    const op = String(operation.op ?? '').toLowerCase();
+    if (op !== 'add' && op !== 'replace' && op !== 'remove') {
+      throw new ScimError(400, `Unknown PATCH operation: ${operation.op}`, 'invalidSyntax');
+    }
+
+    const path = operation.path?.trim();
+
+    if (!path) {
+      if (op === 'remove') {
+        throw new ScimError(400, 'Remove operations need a path', 'noTarget');
+      }
+      if (!isObject(operation.value)) {
+        throw new ScimError(400, 'Operations without a path need an object value', 'invalidValue');
+      }
+      // Each key is a path, e.g. "active" or "name.givenName"
+      for (const [key, value] of Object.entries(operation.value)) {
+        setAttribute(patched, key, value, op === 'add');
+      }
+      continue;
+    }
+
+    const filtered = path.match(FILTERED_PATH);
+    if (filtered) {
+      applyToFilteredItems(patched, op, filtered, operation.value);
+    } else if (op === 'remove') {
+      removeAttribute(patched, path, operation.value);
+    } else {
+      setAttribute(patched, path, operation.value, op === 'add');
+    }
+  }
+
+  return patched;
+}
+
+/**
+ * Read the operations out of a PATCH request body
+ * @throws ScimError (400 invalidSyntax) if the body is not a PatchOp message
+ */
+export function readPatchOperations(body: unknown): ScimPatchOperation[] {
+  const operations = isObject(body)
+    ? body[findKey(body, 'Operations')]
+    : undefined;
+
+  if (!Array.isArray(operations) || !operations.every(isObject)) {
+    throw new ScimError(400, 'PATCH body needs an Operations list', 'invalidSyntax');
+  }
+
+  return operations as unknown as ScimPatchOperation[];
+}
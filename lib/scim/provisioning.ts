@@ -0,0 +1,474 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/server/db';
+import { createAuditLog, auditUserDeletion, type AuditContext } from '@/lib/audit';
+import { revokeAllSessions } from '@/lib/auth/sessions';
+import { logger } from '@/lib/logger';
+import { ScimError } from './errors';
+import { getEqualityValue, parseScimFilter } from './filter';
+import {
+  departmentFromGroupId,
+  readScimPage,
+  SCIM_USER_SELECT,
+  toListPage,
+  toListResponse,
+  toScimGroup,
+  toScimUser,
+  type ScimGroupInput,
+  type ScimListParams,
+  type ScimUserInput,
+  type ScimUserRecord,
+} from './resources';
+
+/**
+ * The organization and token a SCIM request was made with
+ */
+export interface ScimRequestContext {
+  organizationId: string;
+  tokenId: string;
+  tokenName: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Audit logs name the token that made a change, since no user is signed in
+ */
+function toAuditContext(context: ScimRequestContext): AuditContext {
+  return {
+    userId: `scim:${context.tokenId}`,
+    userEmail: `SCIM token "${context.tokenName}"`,
+    userRole: 'SCIM',
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+  };
+}
+
+/**
+ * Users a SCIM client has not deleted - deleted users are gone for SCIM (RFC 7644 3.6),
+ * until a manager restores them in the app. Users a client only set inactive stay
+ * visible, so they can be reactivated.
+ */
+function scimVisibleUsers(organizationId: string): Prisma.UserWhereInput {
+  return {
+    organizationId,
+    OR: [
+      { scimDeletedAt: null },
+      { deletedAt: null },
+      // Restored and deleted again in the app since the client deleted them
+      { deletedAt: { gt: prisma.user.fields.scimDeletedAt } },
+    ],
+  };
+}
+
+async function findUserOrThrow(context: ScimRequestContext, id: string) {
+  const user = await prisma.user.findFirst({
+    where: { id, ...scimVisibleUsers(context.organizationId) },
+    select: SCIM_USER_SELECT,
+  });
+
+  if (!user) {
+    throw new ScimError(404, `User ${id} not found`);
+  }
+
+  return user;
+}
+
+async function assertEmailAvailable(context: ScimRequestContext, email: string, exceptId?: string) {
+  const existing = await prisma.user.findFirst({
+    where: {
+      email,
+      organizationId: context.organizationId,
+      ...(exceptId && { id: { not: exceptId } }),
+    },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new ScimError(409, `A user with userName ${email} already exists`, 'uniqueness');
+  }
+}
+
+/**
+ * Soft-delete a user and sign them out everywhere
+ * @param deleted - The client deleted the user rather than setting them inactive
+ */
+async function deprovisionUser(
+  context: ScimRequestContext,
+  user: ScimUserRecord,
+  deleted = false
+) {
+  const deletedAt = new Date();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { deletedAt, scimDeletedAt: deleted ? deletedAt : null },
+  });
+  await revokeAllSessions(user.id);
+  await auditUserDeletion(toAuditContext(context), user.id, user.email);
+
+  logger.info({ userId: user.id, tokenId: context.tokenId }, 'User deprovisioned through SCIM');
+}
+
+async function reactivateUser(context: ScimRequestContext, user: ScimUserRecord) {
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { deletedAt: null, scimDeletedAt: null, status: 'ACTIVE' },
+  });
+  await auditUserDeletion(toAuditContext(context), user.id, user.email, true);
+
+  logger.info({ userId: user.id, tokenId: context.tokenId }, 'User reactivated through SCIM');
+}
+
+// ---------------------------------------------------------------------------
+// Users
+// ---------------------------------------------------------------------------
+
+/**
+ * List the organization's users as a SCIM list response, including deactivated ones
+ * so that clients can reactivate them
+ *
+ * Paging, and `userName eq` lookups, happen in the database; other filters are
+ * matched against every user.
+ *
+ * @throws ScimError (400 invalidFilter) if the filter is malformed
+ */
+export async function listScimUsers(context: ScimRequestContext, params: ScimListParams) {
+  const filter = params.filter ? parseScimFilter(params.filter) : null;
+  const userName = filter && getEqualityValue(filter, 'userName');
+
+  if (filter && userName === null) {
+    const users = await prisma.user.findMany({
+      where: scimVisibleUsers(context.organizationId),
+      select: SCIM_USER_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return toListResponse(users.map(toScimUser), params);
+  }
+
+  const where: Prisma.UserWhereInput = {
+    ...scimVisibleUsers(context.organizationId),
+    ...(userName && { email: { equals: userName, mode: 'insensitive' } }),
+  };
+  const { startIndex, count } = readScimPage(params);
+
+  const [totalResults, users] = await Promise.all([
+    prisma.user.count({ where }),
+    prisma.user.findMany({
+      where,
+      select: SCIM_USER_SELECT,
+      orderBy: { createdAt: 'asc' },
+      skip: startIndex - 1,
+      take: count,
+    }),
+  ]);
+
+  return toListPage(users.map(toScimUser), totalResults, startIndex);
+}
+
+export async function getScimUser(context: ScimRequestContext, id: string) {
+  return toScimUser(await findUserOrThrow(context, id));
+}
+
+/**
+ * Provision a user
+ *
+ * Business Rules:
+ * - Email addresses are unique within the organization, including deactivated users
+ * - The identity provider vouches for the email, so it counts as verified
+ * - Provisioned users are employees; managers change roles in the app
+ *
+ * @throws ScimError (409) if a user with the email already exists
+ */
+export async function createScimUser(context: ScimRequestContext, input: ScimUserInput) {
+  await assertEmailAvailable(context, input.email);
+
+  const user = await prisma.user.create({
+    data: {
+      organizationId: context.organizationId,
+      email: input.email,
+      name: input.name,
+      title: input.title,
+      department: input.department,
+      externalId: input.externalId,
+      role: 'EMPLOYEE',
+      status: 'ACTIVE',
+      emailVerified: true,
+      emailVerifiedAt: new Date(),
+      deletedAt: input.active ? null : new Date(),
+    },
+    select: SCIM_USER_SELECT,
+  });
+
+  await createAuditLog({
+    action: 'CREATE_USER',
+    entityType: 'USER',
+    entityId: user.id,
+    ...toAuditContext(context),
+    metadata: { affectedUserEmail: user.email, source: 'scim' },
+  });
+
+  logger.info({ userId: user.id, tokenId: context.tokenId }, 'User provisioned through SCIM');
+
+  return toScimUser(user);
+}
+
+/**
+ * Replace a user's SCIM attributes, deprovisioning or reactivating them as `active` says
+ * @throws ScimError (404) if the user is not in the organization, (409) if the new
+ * email is taken
+ */
+export async function replaceScimUser(
+  context: ScimRequestContext,
+  id: string,
+  input: ScimUserInput
+) {
+  const user = await findUserOrThrow(context, id);
+
+  if (input.email !== user.email) {
+    await assertEmailAvailable(context, input.email, user.id);
+  }
+
+  const changedFields = (['email', 'name', 'title', 'department', 'externalId'] as const).filter(
+    (field) => input[field] !== user[field]
+  );
+
+  if (changedFields.length > 0) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        email: input.email,
+        name: input.name,
+        title: input.title,
+        department: input.department,
+        externalId: input.externalId,
+      },
+    });
+
+    await createAuditLog({
+      action: 'UPDATE_PROFILE',
+      entityType: 'USER',
+      entityId: user.id,
+      ...toAuditContext(context),
+      metadata: { fields: changedFields, source: 'scim' },
+    });
+  }
+
+  const isActive = user.deletedAt === null && user.status !== 'INACTIVE';
+  if (isActive && !input.active) {
+    await deprovisionUser(context, user);
+  } else if (!isActive && input.active) {
+    await reactivateUser(context, user);
+  }
+
+  return getScimUser(context, id);
+}
+
+/**
+ * Delete a user - they are soft-deleted, so a manager can still restore them, but are
+ * gone for SCIM
+ * @throws ScimError (404) if the user is not in the organization or was already deleted
+ */
+export async function deleteScimUser(context: ScimRequestContext, id: string) {
+  const user = await findUserOrThrow(context, id);
+
+  if (user.deletedAt === null) {
+    await deprovisionUser(context, user, true);
+  } else {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { scimDeletedAt: new Date() },
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Groups (departments)
+// ---------------------------------------------------------------------------
+
+async function getOrganizationSettings(organizationId: string) {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { settings: true },
+  });
+
+  return (organization?.settings as Record<string, unknown> | null) ?? {};
+}
+
+async function saveDepartmentList(organizationId: string, departments: string[]) {
+  const settings = await getOrganizationSettings(organizationId);
+
+  await prisma.organization.update({
+    where: { id: organizationId },
+    data: {
+      settings: { ...settings, departments } as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * Departments set up for the organization, plus any its active users are in
+ */
+async function listDepartments(organizationId: string): Promise<string[]> {
+  const [settings, users] = await Promise.all([
+    getOrganizationSettings(organizationId),
+    prisma.user.findMany({
+      where: { organizationId, deletedAt: null, department: { not: null } },
+      select: { department: true },
+      distinct: ['department'],
+    }),
+  ]);
+
+  const configured = Array.isArray(settings.departments)
+    ? settings.departments.filter((d): d is string => typeof d === 'string')
+    : [];
+
+  return [...new Set([...configured, ...users.map((user) => user.department as string)])].sort(
+    (a, b) => a.localeCompare(b)
+  );
+}
+
+async function getMembers(organizationId: string, department: string) {
+  return prisma.user.findMany({
+    where: { organizationId, department, deletedAt: null },
+    select: { id: true, name: true },
+    orderBy: { name: 'asc' },
+  });
+}
+
+async function findDepartmentOrThrow(context: ScimRequestContext, id: string) {
+  const department = departmentFromGroupId(id);
+  const departments = await listDepartments(context.organizationId);
+
+  if (!department || !departments.includes(department)) {
+    throw new ScimError(404, `Group ${id} not found`);
+  }
+
+  return { department, departments };
+}
+
+/**
+ * Make exactly these users the members of a department, moving them out of any other
+ */
+async function setMembers(
+  context: ScimRequestContext,
+  department: string,
+  memberIds: string[]
+) {
+  await prisma.$transaction([
+    prisma.user.updateMany({
+      where: {
+        organizationId: context.organizationId,
+        department,
+        id: { notIn: memberIds },
+      },
+      data: { department: null },
+    }),
+    prisma.user.updateMany({
+      where: {
+        organizationId: context.organizationId,
+        id: { in: memberIds },
+      },
+      data: { department },
+    }),
+  ]);
+}
+
+/**
+ * Get the organization's departments as SCIM groups
+ * @param includeMembers - Leave members out when the client excluded them
+ */
+export async function listScimGroups(context: ScimRequestContext, includeMembers: boolean) {
+  const departments = await listDepartments(context.organizationId);
+
+  return Promise.all(
+    departments.map(async (department) =>
+      toScimGroup(
+        department,
+        includeMembers ? await getMembers(context.organizationId, department) : []
+      )
+    )
+  );
+}
+
+export async function getScimGroup(context: ScimRequestContext, id: string) {
+  const { department } = await findDepartmentOrThrow(context, id);
+  return toScimGroup(department, await getMembers(context.organizationId, department));
+}
+
+/**
+ * Create a department with its members
+ * @throws ScimError (409) if the department already exists
+ */
+export async function createScimGroup(context: ScimRequestContext, input: ScimGroupInput) {
+  const departments = await listDepartments(context.organizationId);
+  if (departments.includes(input.displayName)) {
+    throw new ScimError(409, `A group named ${input.displayName} already exists`, 'uniqueness');
+  }
+
+  await saveDepartmentList(context.organizationId, [...departments, input.displayName]);
+  await setMembers(context, input.displayName, input.memberIds);
+
+  logger.info(
+    { department: input.displayName, tokenId: context.tokenId },
+    'Department provisioned through SCIM'
+  );
+
+  return toScimGroup(
+    input.displayName,
+    await getMembers(context.organizationId, input.displayName)
+  );
+}
+
+/**
+ * Rename a department and replace its members
+ * Renaming changes the group ID, since the ID is the encoded name
+ * @throws ScimError (404) if the department does not exist, (409) if the new name is taken
+ */
+export async function replaceScimGroup(
+  context: ScimRequestContext,
+  id: string,
+  input: ScimGroupInput
+) {
+  const { department, departments } = await findDepartmentOrThrow(context, id);
+
+  if (input.displayName !== department) {
+    if (departments.includes(input.displayName)) {
+      throw new ScimError(409, `A group named ${input.displayName} already exists`, 'uniqueness');
+    }
+
+    await prisma.user.updateMany({
+      where: { organizationId: context.organizationId, department },
+      data: { department: input.displayName },
+    });
+    await saveDepartmentList(
+      context.organizationId,
+      departments.map((name) => (name === department ? input.displayName : name))
+    );
+  }
+
+  await setMembers(context, input.displayName, input.memberIds);
+
+  return toScimGroup(
+    input.displayName,
+    await getMembers(context.organizationId, input.displayName)
+  );
+}
+
+/**
+ * Remove a department - its members are left without one
+ * @throws ScimError (404) if the department does not exist
+ */
+export async function deleteScimGroup(context: ScimRequestContext, id: string) {
+  const { department, departments } = await findDepartmentOrThrow(context, id);
+
+  await prisma.user.updateMany({
+    where: { organizationId: context.organizationId, department },
+    data: { department: null },
+  });
+  await saveDepartmentList(
+    context.organizationId,
+    departments.filter((name) => name !== department)
+  );
+
+  logger.info({ department, tokenId: context.tokenId }, 'Department removed through SCIM');
+}
@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+import {
+  departmentFromGroupId,
+  departmentGroupId,
+  isAttributeExcluded,
+  readScimGroup,
+  readScimPage,
+  readScimUser,
+  SCIM_SCHEMAS,
+  toListResponse,
+  toScimUser,
+} from './resources';
+import { applyScimPatch } from './patch';
+import { ScimError } from './errors';
+
+const record = {
+  id: 'u1',
+  email: 'jane@example.com',
+  name: 'Jane van Doe',
+  title: 'Engineer',
+  department: 'R&D / Platform',
+  status: 'ACTIVE' as const,
+  externalId: 'okta-1',
+  deletedAt: null,
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2026-02-01T00:00:00.000Z'),
+};
+
+describe('group IDs', () => {
+  it('round-trip department names that are not URL safe', () => {
+    const id = departmentGroupId('R&D / Platform');
+    expect(id).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(departmentFromGroupId(id)).toBe('R&D / Platform');
+  });
+
+  it('reject IDs that were not made from a department', () => {
+    expect(departmentFromGroupId('')).toBeNull();
+    expect(departmentFromGroupId('not base64!')).toBeNull();
+  });
+});
+
+describe('toScimUser', () => {
+  it('maps a user to a SCIM user with its department as group', () => {
+    const scimUser = toScimUser(record);
+
+    expect(scimUser).toMatchObject({
+      id: 'u1',
+      externalId: 'okta-1',
+      userName: 'jane@example.com',
+      name: { formatted: 'Jane van Doe', givenName: 'Jane', familyName: 'van Doe' },
+      title: 'Engineer',
+      active: true,
+      groups: [{ value: departmentGroupId('R&D / Platform'), display: 'R&D / Platform' }],
+      [SCIM_SCHEMAS.enterpriseUser]: { department: 'R&D / Platform' },
+      meta: { resourceType: 'User', lastModified: '2026-02-01T00:00:00.000Z' },
+    });
+  });
+
+  it('shows soft-deleted and inactive users as inactive', () => {
+    expect(toScimUser({ ...record, deletedAt: new Date() }).active).toBe(false);
+    expect(toScimUser({ ...record, status: 'INACTIVE' }).active).toBe(false);
+  });
+
+  it('reads back into the same fields', () => {
+    expect(readScimUser(toScimUser(record))).toEqual({
+      email: 'jane@example.com',
+      name: 'Jane van Doe',
+      title: 'Engineer',
+      department: 'R&D / Platform',
+      externalId: 'okta-1',
+      active: true,
+    });
+  });
+});
+
+describe('readScimUser', () => {
+  it('builds the name from its parts and defaults to active', () => {
+    expect(
+      readScimUser({
+        userName: 'JOHN@example.com',
+        name: { givenName: 'John', familyName: 'Smith' },
+      })
+    ).toEqual({
+      email: 'john@example.com',
+      name: 'John Smith',
+      title: null,
+      department: null,
+      externalId: null,
+      active: true,
+    });
+  });
+
+  it('uses the primary email when userName is not an email', () => {
+    const input = readScimUser({
+      userName: 'jsmith',
+      emails: [
+        { value: 'other@example.com' },
+        { value: 'john@example.com', primary: true },
+      ],
+      active: 'False',
+    });
+
+    expect(input).toMatchObject({ email: 'john@example.com', name: 'john', active: false });
+  });
+
+  it('rejects users without an email address', () => {
+    expect(() => readScimUser({ userName: 'jsmith' })).toThrow(ScimError);
+  });
+});
+
+describe('readScimUser after a PATCH', () => {
+  const patch = (operations: { op: string; path?: string; value?: unknown }[]) => {
+    const current = toScimUser(record);
+    return readScimUser(applyScimPatch(current, operations), current);
+  };
+
+  it('uses a patched family name', () => {
+    expect(patch([{ op: 'replace', path: 'name.familyName', value: 'Smith' }]).name).toBe(
+      'Jane Smith'
+    );
+  });
+
+  it('uses a patched given name', () => {
+    expect(patch([{ op: 'replace', path: 'name.givenName', value: 'Janet' }]).name).toBe(
+      'Janet van Doe'
+    );
+  });
+
+  it('uses patched name parts sent without a path', () => {
+    const input = patch([
+      { op: 'replace', value: { 'name.givenName': 'John', 'name.familyName': 'Smith' } },
+    ]);
+
+    expect(input.name).toBe('John Smith');
+  });
+
+  it('uses a patched display name', () => {
+    expect(patch([{ op: 'replace', path: 'displayName', value: 'JD' }]).name).toBe('JD');
+  });
+
+  it('uses a patched work email', () => {
+    const input = patch([
+      { op: 'replace', path: 'emails[type eq "work"].value', value: 'Jane.Doe@example.com' },
+    ]);
+
+    expect(input.email).toBe('jane.doe@example.com');
+  });
+
+  it('uses a patched userName', () => {
+    expect(patch([{ op: 'replace', path: 'userName', value: 'jd@example.com' }]).email).toBe(
+      'jd@example.com'
+    );
+  });
+
+  it('keeps the name and email when neither was patched', () => {
+    expect(patch([{ op: 'replace', path: 'title', value: 'Lead' }])).toMatchObject({
+      email: 'jane@example.com',
+      name: 'Jane van Doe',
+      title: 'Lead',
+    });
+  });
+
+  it('ignores a patched email that is not an address', () => {
+    expect(patch([{ op: 'replace', path: 'userName', value: 'jdoe' }]).email).toBe(
+      'jane@example.com'
+    );
+  });
+});
+
+describe('readScimGroup', () => {
+  it('reads the name and distinct member IDs', () => {
+    expect(
+      readScimGroup({ displayName: ' Sales ', members: [{ value: 'u1' }, { value: 'u1' }] })
+    ).toEqual({ displayName: 'Sales', memberIds: ['u1'] });
+  });
+
+  it('requires a display name', () => {
+    expect(() => readScimGroup({ members: [] })).toThrow('displayName is required');
+  });
+});
+
+describe('toListResponse', () => {
+  const resources = Array.from({ length: 5 }, (_, i) => ({
+    id: String(i + 1),
+    userName: `u${i + 1}`,
+  }));
+
+  it('pages with a 1-based start index', () => {
+    const response = toListResponse(resources, { startIndex: '2', count: '2' });
+
+    expect(response).toMatchObject({
+      schemas: [SCIM_SCHEMAS.listResponse],
+      totalResults: 5,
+      startIndex: 2,
+      itemsPerPage: 2,
+    });
+    expect(response.Resources.map((r) => r.id)).toEqual(['2', '3']);
+  });
+
+  it('filters before paging', () => {
+    const response = toListResponse(resources, { filter: 'userName eq "u4"' });
+    expect(response.totalResults).toBe(1);
+    expect(response.Resources[0].id).toBe('4');
+  });
+
+  it('returns only the count for count=0', () => {
+    const response = toListResponse(resources, { count: '0' });
+    expect(response).toMatchObject({ totalResults: 5, itemsPerPage: 0, Resources: [] });
+  });
+
+  it('clamps the start index and count', () => {
+    expect(readScimPage({})).toEqual({ startIndex: 1, count: 100 });
+    expect(readScimPage({ startIndex: '0', count: '-5' })).toEqual({ startIndex: 1, count: 0 });
+    expect(readScimPage({ startIndex: 'x', count: '1000' })).toEqual({ startIndex: 1, count: 200 });
+  });
+
+  it('reads excluded attributes', () => {
+    expect(isAttributeExcluded({ excludedAttributes: 'Members, meta' }, 'members')).toBe(true);
+    expect(isAttributeExcluded({}, 'members')).toBe(false);
+  });
+});
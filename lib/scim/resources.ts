@@ -0,0 +1,344 @@
+import { z } from 'zod';
+import { ScimError } from './errors';
+import { getPathValues, matchesScimFilter, parseScimFilter } from './filter';
+
+/**
+ * SCIM 2.0 resources (RFC 7643)
+ * Users map onto User; Groups map onto departments, which are names rather than rows,
+ * so a group's ID is its department name encoded for use in URLs. A user is in at most
+ * one group - adding them to another moves them.
+ */
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+export const SCIM_SCHEMAS = {
+  user: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  enterpriseUser: 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User',
+  group: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  serviceProviderConfig: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+  listResponse: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  patchOp: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  error: 'urn:ietf:params:scim:api:messages:2.0:Error',
+} as const;
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 200;
+
+export function getScimBaseUrl(): string {
+  return `${APP_URL}/api/scim/v2`;
+}
+
+/**
+ * The User fields SCIM reads and writes
+ */
+export const SCIM_USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  title: true,
+  department: true,
+  status: true,
+  externalId: true,
+  deletedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+export interface ScimUserRecord {
+  id: string;
+  email: string;
+  name: string;
+  title: string | null;
+  department: string | null;
+  status: 'ACTIVE' | 'INACTIVE' | 'PENDING_VERIFICATION';
+  externalId: string | null;
+  deletedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * User fields as a SCIM client asks for them
+ */
+export interface ScimUserInput {
+  email: string;
+  name: string;
+  title: string | null;
+  department: string | null;
+  externalId: string | null;
+  active: boolean;
+}
+
+/**
+ * A department as a SCIM group
+ */
+export interface ScimGroupInput {
+  displayName: string;
+  memberIds: string[];
+}
+
+/**
+ * Encode a department name as a group ID
+ */
+export function departmentGroupId(department: string): string {
+  return Buffer.from(department, 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a group ID back to its department name
+ * @returns The department, or null if the ID was not made by departmentGroupId
+ */
+export function departmentFromGroupId(id: string): string | null {
+  const department = Buffer.from(id, 'base64url').toString('utf8');
+  return department && departmentGroupId(department) === id ? department : null;
+}
+
+export function toScimUser(user: ScimUserRecord) {
+  const [givenName, ...familyName] = user.name.trim().split(/\s+/);
+  const location = `${getScimBaseUrl()}/Users/${user.id}`;
+
+  return {
+    schemas: [SCIM_SCHEMAS.user, SCIM_SCHEMAS.enterpriseUser],
+    id: user.id,
+    ...(user.externalId && { externalId: user.externalId }),
+    userName: user.email,
+    name: {
+      formatted: user.name,
+      givenName,
+      ...(familyName.length > 0 && { familyName: familyName.join(' ') }),
+    },
+    displayName: user.name,
+    ...(user.title && { title: user.title }),
+    emails: [{ value: user.email, type: 'work', primary: true }],
+    active: user.deletedAt === null && user.status !== 'INACTIVE',
+    groups: user.department
+      ? [
+          {
+            value: departmentGroupId(user.department),
+            display: user.department,
+            $ref: `${getScimBaseUrl()}/Groups/${departmentGroupId(user.department)}`,
+          },
+        ]
+      : [],
+    [SCIM_SCHEMAS.enterpriseUser]: user.department ? { department: user.department } : {},
+    meta: {
+      resourceType: 'User',
+      created: user.createdAt.toISOString(),
+      lastModified: user.updatedAt.toISOString(),
+      location,
+    },
+  };
+}
+
+export function toScimGroup(department: string, members: { id: string; name: string }[]) {
+  const id = departmentGroupId(department);
+
+  return {
+    schemas: [SCIM_SCHEMAS.group],
+    id,
+    displayName: department,
+    members: members.map((member) => ({
+      value: member.id,
+      display: member.name,
+      $ref: `${getScimBaseUrl()}/Users/${member.id}`,
+    })),
+    meta: {
+      resourceType: 'Group',
+      location: `${getScimBaseUrl()}/Groups/${id}`,
+    },
+  };
+}
+
+const firstString = (resource: unknown, path: string): string | undefined => {
+  const value = getPathValues(resource, path).find((v) => typeof v === 'string');
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const emailSchema = z.string().email();
+
+/**
+ * Email addresses a SCIM user holds, in order of preference
+ */
+function readEmailCandidates(resource: unknown): (string | undefined)[] {
+  const emails = getPathValues(resource, 'emails') as Record<string, unknown>[];
+  const primaryEmail =
+    emails.find((email) => email?.primary === true && typeof email.value === 'string') ??
+    emails.find((email) => typeof email?.value === 'string');
+
+  return [firstString(resource, 'userName'), primaryEmail?.value as string | undefined];
+}
+
+/**
+ * Names a SCIM user holds, in order of preference
+ */
+function readNameCandidates(resource: unknown): (string | undefined)[] {
+  const nameParts = [
+    firstString(resource, 'name.givenName'),
+    firstString(resource, 'name.familyName'),
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  return [firstString(resource, 'name.formatted'), nameParts, firstString(resource, 'displayName')];
+}
+
+/**
+ * Pick the first usable candidate, preferring those that changed since the previous version
+ */
+function pickCandidate(
+  candidates: (string | undefined)[],
+  previous: (string | undefined)[],
+  isUsable: (candidate: string | undefined) => candidate is string
+): string | undefined {
+  const changed = candidates.filter((candidate, i) => candidate !== previous[i]);
+  return changed.find(isUsable) ?? candidates.find(isUsable);
+}
+
+const isEmail = (candidate: string | undefined): candidate is string =>
+  emailSchema.safeParse(candidate).success;
+
+const isName = (candidate: string | undefined): candidate is string => Boolean(candidate);
+
+/**
+ * Read the User fields out of a SCIM user a client sent
+ * @param previous - The user a PATCH was applied to. The name and email each appear under
+ * several attributes; the ones the PATCH changed win over the copies it left alone.
+ * @throws ScimError (400 invalidValue) if it has no usable email address
+ */
+export function readScimUser(resource: unknown, previous?: unknown): ScimUserInput {
+  const email = pickCandidate(
+    readEmailCandidates(resource),
+    previous ? readEmailCandidates(previous) : [],
+    isEmail
+  );
+  if (!email) {
+    throw new ScimError(400, 'userName or emails must be an email address', 'invalidValue');
+  }
+
+  const name =
+    pickCandidate(
+      readNameCandidates(resource),
+      previous ? readNameCandidates(previous) : [],
+      isName
+    ) ?? email.split('@')[0];
+
+  // Some clients send booleans as strings
+  const active = getPathValues(resource, 'active')[0];
+
+  return {
+    email: email.toLowerCase(),
+    name: name.slice(0, 255),
+    title: firstString(resource, 'title') ?? null,
+    department: firstString(resource, `${SCIM_SCHEMAS.enterpriseUser}:department`) ?? null,
+    externalId: firstString(resource, 'externalId') ?? null,
+    active: active === undefined || String(active).toLowerCase() === 'true',
+  };
+}
+
+/**
+ * Read a department and its members out of a SCIM group a client sent
+ * @throws ScimError (400 invalidValue) if it has no display name
+ */
+export function readScimGroup(resource: unknown): ScimGroupInput {
+  const displayName = firstString(resource, 'displayName');
+  if (!displayName) {
+    throw new ScimError(400, 'displayName is required', 'invalidValue');
+  }
+
+  const memberIds = getPathValues(resource, 'members.value').filter(
+    (value): value is string => typeof value === 'string'
+  );
+
+  return { displayName: displayName.slice(0, 255), memberIds: [...new Set(memberIds)] };
+}
+
+/**
+ * Query parameters of a SCIM list request
+ */
+export interface ScimListParams {
+  filter?: string | null;
+  startIndex?: string | null;
+  count?: string | null;
+  excludedAttributes?: string | null;
+}
+
+/**
+ * Check if a list request asked to leave an attribute out, e.g. members of groups
+ */
+export function isAttributeExcluded(params: ScimListParams, attribute: string): boolean {
+  return (params.excludedAttributes ?? '')
+    .split(',')
+    .some((excluded) => excluded.trim().toLowerCase() === attribute.toLowerCase());
+}
+
+/**
+ * Read the page a list request asks for
+ * startIndex is 1-based; out-of-range values are clamped (RFC 7644 3.4.2.4)
+ */
+export function readScimPage(params: ScimListParams): { startIndex: number; count: number } {
+  const startIndex = Math.max(1, Number.parseInt(params.startIndex ?? '', 10) || 1);
+  const requestedCount = Number.parseInt(params.count ?? '', 10);
+  const count = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(0, Number.isNaN(requestedCount) ? DEFAULT_PAGE_SIZE : requestedCount)
+  );
+
+  return { startIndex, count };
+}
+
+/**
+ * Wrap a page of resources that was already filtered and paged into a SCIM list response
+ * @param totalResults - How many resources matched, across all pages
+ */
+export function toListPage<T>(page: T[], totalResults: number, startIndex: number) {
+  return {
+    schemas: [SCIM_SCHEMAS.listResponse],
+    totalResults,
+    startIndex,
+    itemsPerPage: page.length,
+    Resources: page,
+  };
+}
+
+/**
+ * Filter and page resources into a SCIM list response
+ * @throws ScimError (400 invalidFilter) if the filter is malformed
+ */
+export function toListResponse<T>(resources: T[], params: ScimListParams) {
+  const filter = params.filter ? parseScimFilter(params.filter) : null;
+  const matching = filter
+    ? resources.filter((resource) => matchesScimFilter(resource, filter))
+    : resources;
+
+  const { startIndex, count } = readScimPage(params);
+  const page = matching.slice(startIndex - 1, startIndex - 1 + count);
+
+  return toListPage(page, matching.length, startIndex);
+}
+
+/**
+ * What this SCIM service provider supports (RFC 7643 5)
+ */
+export function getServiceProviderConfig() {
+  return {
+    schemas: [SCIM_SCHEMAS.serviceProviderConfig],
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: MAX_PAGE_SIZE },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [
+      {
+        type: 'oauthbearertoken',
+        name: 'Bearer token',
+        description: 'A SCIM token created by a manager under Settings > Organization',
+        primary: true,
+      },
+    ],
+    meta: {
+      resourceType: 'ServiceProviderConfig',
+      location: `${getScimBaseUrl()}/ServiceProviderConfig`,
+    },
+  };
+}
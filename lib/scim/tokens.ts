@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import { prisma } from '@/server/db';
+
+/**
+ * How often a token's last use is written back - at most once per interval
+ * so that every request does not cost a database write
+ */
+const LAST_USED_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+const TOKEN_PREFIX = 'scim_';
+
+export function hashScimToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Create a SCIM bearer token for an organization
+ * @param organizationId - Organization the token provisions users for
+ * @param name - Label for the token, e.g. the identity provider using it
+ * @param createdById - Manager creating the token
+ * @returns The token - only its hash is stored, so it cannot be shown again
+ */
+export async function createScimToken(
+  organizationId: string,
+  name: string,
+  createdById: string
+): Promise<{ id: string; token: string }> {
+  const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+  const created = await prisma.scimToken.create({
+    data: {
+      organizationId,
+      name,
+      tokenHash: hashScimToken(token),
+      createdById,
+    },
+    select: { id: true },
+  });
+
+  return { id: created.id, token };
+}
+
+/**
+ * Get an organization's SCIM tokens, newest first, without their hashes
+ */
+export async function listScimTokens(organizationId: string) {
+  return prisma.scimToken.findMany({
+    where: { organizationId },
+    select: {
+      id: true,
+      name: true,
+      lastUsedAt: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Revoke a SCIM token
+ * @param id - The token ID to revoke
+ * @param organizationId - The organization ID (for authorization)
+ * @returns The number of tokens revoked
+ */
+export async function revokeScimToken(id: string, organizationId: string): Promise<number> {
+  const result = await prisma.scimToken.deleteMany({
+    where: { id, organizationId },
+  });
+
+  return result.count;
+}
+
+/**
+ * Find the token a SCIM request authenticates with, and note its use
+ * @param authorization - The Authorization header of the request
+ * @returns The token, or null if it is missing, unknown or its organization was deleted
+ */
+export async function authenticateScimToken(authorization: string | null) {
+  const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token?.startsWith(TOKEN_PREFIX)) return null;
+
+  const scimToken = await prisma.scimToken.findFirst({
+    where: {
+      tokenHash: hashScimToken(token),
+      organization: { deletedAt: null },
+    },
+    select: { id: true, name: true, organizationId: true, lastUsedAt: true },
+  });
+
+  if (!scimToken) return null;
+
+  const lastUsed = scimToken.lastUsedAt?.getTime() ?? 0;
+  if (Date.now() - lastUsed > LAST_USED_UPDATE_INTERVAL_MS) {
+    await prisma.scimToken.updateMany({
+      where: { id: scimToken.id },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  return { id: scimToken.id, name: scimToken.name, organizationId: scimToken.organizationId };
+}
@@ -335,12 +335,14 @@ export class AbsenceService {
    * @param session - Current user session
    * @param absenceId - Absence request ID
    * @param status - New status
+   * @param comment - Approver's comment, required when rejecting
    * @returns Updated absence request
    */
   async updateAbsenceStatus(
     session: PermissionUser,
     absenceId: string,
-    status: AbsenceStatus
+    status: AbsenceStatus,
+    comment?: string
   ) {
     this.logger?.info({
       absenceId,
@@ -352,6 +354,10 @@ export class AbsenceService {
       throw AppErrors.forbidden('Only managers can approve or reject absence requests');
     }
 
+    if (status === 'REJECTED' && !comment?.trim()) {
+      throw AppErrors.badRequest('Please give a reason for rejecting this request');
+    }
+
     // Find the absence request
     const absenceRequest = await findOrThrow(
       this.prisma.absenceRequest.findUnique({
@@ -364,16 +370,38 @@ export class AbsenceService {
               email: true,
             },
           },
+          approvalSteps: {
+            select: { id: true },
+          },
         },
       }),
       'Absence request',
       absenceId
     );
 
-    // Update status
+    // Requests with an approval chain are decided step by step through the absence use cases
+    if (absenceRequest.approvalSteps.length > 0) {
+      throw AppErrors.badRequest('This request has an approval chain and must be decided step by step');
+    }
+
+    // Update status, recording the decision and comment as the request's only approval step
     const updated = await this.prisma.absenceRequest.update({
       where: { id: absenceId },
-      data: { status },
+      data: {
+        status,
+        ...((status === 'APPROVED' || status === 'REJECTED') && {
+          approvalSteps: {
+            create: {
+              position: 0,
+              approverType: 'REPORTING_MANAGER',
+              decision: status,
+              decidedById: session.id,
+              comment: comment?.trim() || null,
+              decidedAt: new Date(),
+            },
+          },
+        }),
+      },
       include: {
         user: {
           select: USER_ABSENCE_SELECT,
@@ -413,6 +441,7 @@ export class AbsenceService {
       where: {
         id: { in: absenceIds },
         status: 'PENDING', // Only approve pending requests
+        approvalSteps: { none: {} }, // Chained requests are decided step by step
       },
       data: {
         status: 'APPROVED',
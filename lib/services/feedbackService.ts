@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, FeedbackType, Prisma } from '@prisma/client';
 import type { Logger } from 'pino';
 import { USER_FEEDBACK_SELECT } from '@/lib/prisma/selects';
 import { polishFeedback } from '@/lib/ai/huggingface';
@@ -14,6 +14,8 @@ export interface CreateFeedbackInput {
   content: string;
   polishedContent?: string;
   isPolished?: boolean;
+  type?: FeedbackType;
+  competencies?: { competency: string; rating?: number }[];
 }
 
 export interface PolishFeedbackInput {
@@ -47,7 +49,7 @@ export class FeedbackService {
    * @returns Created feedback entry
    */
   async submitFeedback(session: PermissionUser, input: CreateFeedbackInput) {
-    const { receiverId, content, polishedContent, isPolished } = input;
+    const { receiverId, content, polishedContent, isPolished, type, competencies } = input;
 
     this.logger?.info({
       receiverId,
@@ -81,6 +83,8 @@ export class FeedbackService {
         content,
         polishedContent: polishedContent || null,
         isPolished: isPolished || false,
+        type: type ?? 'PRAISE',
+        competencies: (competencies ?? []) as Prisma.InputJsonValue,
         giverId: session.id,
         receiverId,
         organizationId: tenant.organizationId,
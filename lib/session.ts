@@ -1,6 +1,12 @@
 import { getIronSession, IronSession, SessionOptions } from 'iron-session';
 import { cookies } from 'next/headers';
 import { sessionConfig } from './config';
+import { createSessionRecord, revokeSessionByToken, validateSessionRecord } from './auth/sessions';
+
+/**
+ * Ways of signing in that do not rest on a password or a social account
+ */
+export type StrongAuthMethod = 'passkey' | 'sso';
 
 export interface SessionData {
   userId: string;
@@ -9,6 +15,8 @@ export interface SessionData {
   role: 'EMPLOYEE' | 'MANAGER' | 'COWORKER';
   organizationId: string;
   organizationSlug: string;
+  sessionToken?: string; // Server-side Session row, so the login can be listed and revoked
+  authMethod?: StrongAuthMethod; // Unset for password and social logins
 }
 
 const sessionOptions: SessionOptions = {
@@ -40,20 +48,35 @@ export async function createSession(
   email: string,
   role: 'EMPLOYEE' | 'MANAGER' | 'COWORKER',
   organizationId: string,
-  organizationSlug: string
+  organizationSlug: string,
+  authMethod?: StrongAuthMethod
 ): Promise<void> {
   const session = await getSession();
+
+  // A new login from this browser replaces the session it had before
+  if (session.sessionToken) {
+    await revokeSessionByToken(session.sessionToken);
+  }
+
+  session.sessionToken = await createSessionRecord(
+    userId,
+    new Date(Date.now() + sessionConfig.maxAge * 1000)
+  );
   session.userId = userId;
   session.id = userId; // Alias for compatibility
   session.email = email;
   session.role = role;
   session.organizationId = organizationId;
   session.organizationSlug = organizationSlug;
+  session.authMethod = authMethod;
   await session.save();
 }
 
 export async function deleteSession(): Promise<void> {
   const session = await getSession();
+  if (session.sessionToken) {
+    await revokeSessionByToken(session.sessionToken);
+  }
   // Destroy the session - this clears all data and the cookie
   session.destroy();
 }
@@ -70,9 +93,24 @@ export async function getCurrentUser(): Promise<SessionData | null> {
     role: session.role,
     organizationId: session.organizationId,
     organizationSlug: session.organizationSlug,
+    sessionToken: session.sessionToken,
+    authMethod: session.authMethod,
   };
 }
 
+/**
+ * Get the current user, but only while their session record is active
+ * For route handlers outside tRPC, which do not pass through protectedProcedure's
+ * check that the login has not been revoked or expired
+ */
+export async function getActiveUser(): Promise<SessionData | null> {
+  const user = await getCurrentUser();
+  if (!user || !(await validateSessionRecord(user.userId, user.sessionToken))) {
+    return null;
+  }
+  return user;
+}
+
 /**
  * Clear any existing session cookie (for use in password reset, etc.)
  * This destroys the current session if one exists, regardless of the user
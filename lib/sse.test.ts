@@ -0,0 +1,29 @@
+import { formatServerSentComment, formatServerSentEvent } from './sse';
+
+describe('formatServerSentEvent', () => {
+  it('should frame id, event name and JSON data', () => {
+    expect(formatServerSentEvent({ id: 'n1', event: 'notification', data: { title: 'Hi' } })).toBe(
+      'id: n1\nevent: notification\ndata: {"title":"Hi"}\n\n'
+    );
+  });
+
+  it('should send data only when no id or name is given', () => {
+    expect(formatServerSentEvent({ data: 'ready' })).toBe('data: "ready"\n\n');
+  });
+
+  it('should include the reconnect delay', () => {
+    expect(formatServerSentEvent({ data: null, retry: 5000 })).toBe('retry: 5000\ndata: null\n\n');
+  });
+
+  it('should keep line breaks from ending fields early', () => {
+    const frame = formatServerSentEvent({ id: 'a\nb', event: 'x\r\ny', data: 'line 1\nline 2' });
+
+    expect(frame).toBe('id: ab\nevent: xy\ndata: "line 1\\nline 2"\n\n');
+  });
+});
+
+describe('formatServerSentComment', () => {
+  it('should frame a comment line', () => {
+    expect(formatServerSentComment('heartbeat')).toBe(': heartbeat\n\n');
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Server-Sent Events (text/event-stream) framing
+ * https://html.spec.whatwg.org/multipage/server-sent-events.html
+ */
+
+export interface ServerSentEvent {
+  id?: string; // Sent back by the browser as Last-Event-ID when it reconnects
+  event?: string; // Event name; browsers dispatch unnamed events as "message"
+  data: unknown; // Serialized as JSON
+  retry?: number; // Milliseconds the browser waits before reconnecting
+}
+
+/**
+ * Strip line breaks from a field value - they would end the field early
+ */
+const singleLine = (value: string) => value.replace(/[\r\n]/g, '');
+
+/**
+ * Format an event for the wire
+ */
+export function formatServerSentEvent(event: ServerSentEvent): string {
+  const lines: string[] = [];
+
+  if (event.id !== undefined) {
+    lines.push(`id: ${singleLine(event.id)}`);
+  }
+  if (event.event !== undefined) {
+    lines.push(`event: ${singleLine(event.event)}`);
+  }
+  if (event.retry !== undefined) {
+    lines.push(`retry: ${Math.max(0, Math.floor(event.retry))}`);
+  }
+  // JSON escapes line breaks, so the data always fits on one line
+  lines.push(`data: ${JSON.stringify(event.data)}`);
+
+  return `${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Format a comment line - ignored by browsers, keeps idle connections open through proxies
+ */
+export function formatServerSentComment(comment: string): string {
+  return `: ${singleLine(comment)}\n\n`;
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { diffWords } from './text-diff';
+
+const side = (parts: ReturnType<typeof diffWords>, kind: 'added' | 'removed') =>
+  parts
+    .filter((p) => !p[kind === 'added' ? 'removed' : 'added'])
+    .map((p) => p.value)
+    .join('');
+
+describe('diffWords', () => {
+  it('marks replaced words as removed and added', () => {
+    expect(diffWords('Great demo today', 'Great launch today')).toEqual([
+      { value: 'Great ' },
+      { value: 'demo', removed: true },
+      { value: 'launch', added: true },
+      { value: ' today' },
+    ]);
+  });
+
+  it('gives back both texts from its parts', () => {
+    const before = 'You ran the retro well.\nKeep it up!';
+    const after = 'You ran the retro really well.\n\nKeep it short!';
+    const parts = diffWords(before, after);
+
+    expect(side(parts, 'removed')).toBe(before);
+    expect(side(parts, 'added')).toBe(after);
+  });
+
+  it('returns a single unchanged part for equal texts', () => {
+    expect(diffWords('Same text', 'Same text')).toEqual([{ value: 'Same text' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
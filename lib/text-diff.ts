@@ -0,0 +1,64 @@
+/**
+ * Word-level text diff for showing what changed between two versions of
+ * feedback. Whitespace is kept as its own token so joining the parts of
+ * either side gives back that side's text exactly.
+ */
+
+export interface DiffPart {
+  value: string;
+  /** Only in the newer text */
+  added?: boolean;
+  /** Only in the older text */
+  removed?: boolean;
+}
+
+const tokenize = (text: string) => text.split(/(\s+)/).filter((token) => token !== '');
+
+/**
+ * Diff two texts word by word (longest common subsequence)
+ * Consecutive tokens of the same kind are merged into one part
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lengths[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (value: string, kind: 'added' | 'removed' | 'same') => {
+    const last = parts[parts.length - 1];
+    const lastKind = last ? (last.added ? 'added' : last.removed ? 'removed' : 'same') : undefined;
+    if (last && lastKind === kind) {
+      last.value += value;
+    } else {
+      parts.push(kind === 'same' ? { value } : { value, [kind]: true });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], 'same');
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+
+  return parts;
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { trpc } from '@/lib/trpc/Provider';
+
+const STREAM_URL = '/api/notifications/stream';
+const NOTIFICATION_LIST_INPUT = { limit: 10 };
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+
+interface StreamedNotification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  read: boolean;
+}
+
+/**
+ * Keep notifications live over the /api/notifications/stream Server-Sent Events stream
+ *
+ * New notifications are added to the NotificationDropdown list and unread badge,
+ * shown as a toast, and refresh the feedback, absence or review data they concern.
+ * Reconnects resume from the last notification seen so nothing is missed; missed
+ * notifications are summed up in a single toast.
+ *
+ * @returns Whether the stream is connected - callers fall back to polling when it is not
+ */
+export function useNotificationStream(): { connected: boolean } {
+  const utils = trpc.useUtils();
+  const [connected, setConnected] = useState(false);
+  const utilsRef = useRef(utils);
+  utilsRef.current = utils;
+
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') {
+      return;
+    }
+
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectAttempts = 0;
+    let lastSeenId: string | undefined;
+    let missed = 0;
+    let ready = false;
+
+    const refreshRelated = (type: string) => {
+      const current = utilsRef.current;
+      if (type.startsWith('FEEDBACK_')) {
+        current.feedback.invalidate();
+      } else if (type.startsWith('ABSENCE_')) {
+        current.absence.invalidate();
+      } else if (type.startsWith('REVIEW_')) {
+        current.review.invalidate();
+      }
+    };
+
+    const handleNotification = (event: MessageEvent<string>) => {
+      const notification = JSON.parse(event.data) as StreamedNotification;
+      const current = utilsRef.current;
+      lastSeenId = notification.id;
+
+      current.notification.getAll.setData(NOTIFICATION_LIST_INPUT, (list) => {
+        if (!list || list.notifications.some((n) => n.id === notification.id)) {
+          return list;
+        }
+        // Dates arrive as strings, exactly as they do from the query itself
+        const added = notification as unknown as (typeof list.notifications)[number];
+        return {
+          ...list,
+          notifications: [added, ...list.notifications].slice(0, NOTIFICATION_LIST_INPUT.limit),
+          total: list.total + 1,
+          unreadCount: list.unreadCount + (notification.read ? 0 : 1),
+        };
+      });
+      current.notification.getUnreadCount.invalidate();
+      refreshRelated(notification.type);
+
+      if (ready) {
+        toast(notification.title, { description: notification.message });
+      } else {
+        missed += 1;
+      }
+    };
+
+    const connect = () => {
+      // Start from the newest notification already listed, so nothing created
+      // between loading the list and connecting is lost
+      lastSeenId ??=
+        utilsRef.current.notification.getAll.getData(NOTIFICATION_LIST_INPUT)?.notifications[0]
+          ?.id;
+      const url = lastSeenId
+        ? `${STREAM_URL}?lastEventId=${encodeURIComponent(lastSeenId)}`
+        : STREAM_URL;
+
+      source = new EventSource(url);
+      source.addEventListener('open', () => {
+        ready = false;
+        missed = 0;
+      });
+      source.addEventListener('notification', handleNotification);
+      source.addEventListener('ready', () => {
+        ready = true;
+        reconnectAttempts = 0;
+        setConnected(true);
+        if (missed > 0) {
+          toast(`${missed} new notification${missed === 1 ? '' : 's'}`);
+        }
+      });
+      source.addEventListener('error', () => {
+        setConnected(false);
+        // The browser retries dropped connections by itself (sending Last-Event-ID);
+        // it gives up on errors such as a 401, so retry those with a backoff
+        if (source?.readyState === EventSource.CLOSED) {
+          source.close();
+          const delay = Math.min(1000 * 2 ** reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+          reconnectAttempts += 1;
+          reconnectTimer = setTimeout(connect, delay);
+        }
+      });
+    };
+
+    connect();
+
+    return () => {
+      clearTimeout(reconnectTimer);
+      source?.close();
+    };
+  }, []);
+
+  return { connected };
+}
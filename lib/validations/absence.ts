@@ -1,5 +1,46 @@
 import { z } from "zod";
 
+const timeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:mm format");
+
+/**
+ * Part of the day an absence covers
+ * Half days split at noon; HOURS uses startTime/endTime
+ */
+export const absenceDayPartSchema = z.enum(["FULL_DAY", "MORNING", "AFTERNOON", "HOURS"]);
+
+type DayPartFields = {
+  startDate: Date;
+  endDate: Date;
+  dayPart?: z.infer<typeof absenceDayPartSchema>;
+  startTime?: string;
+  endTime?: string;
+};
+
+const isSameDay = (a: Date, b: Date) => a.toDateString() === b.toDateString();
+
+const partialDayRules = [
+  {
+    check: (data: DayPartFields) =>
+      !data.dayPart || data.dayPart === "FULL_DAY" || isSameDay(data.startDate, data.endDate),
+    message: "Half-day and hourly absences must start and end on the same day",
+    path: ["endDate"],
+  },
+  {
+    check: (data: DayPartFields) =>
+      data.dayPart !== "HOURS" || (!!data.startTime && !!data.endTime),
+    message: "Start and end time are required for hourly absences",
+    path: ["startTime"],
+  },
+  {
+    check: (data: DayPartFields) =>
+      data.dayPart !== "HOURS" || !data.startTime || !data.endTime || data.endTime > data.startTime,
+    message: "End time must be after start time",
+    path: ["endTime"],
+  },
+];
+
 /**
  * Zod schema for creating an absence request
  * Includes comprehensive validation:
@@ -7,6 +48,7 @@ import { z } from "zod";
  * - End date must be on or after start date
  * - Absence period cannot exceed 1 year
  * - Reason must be 10-500 characters
+ * - Half days and hourly absences must fall on a single day
  */
 export const absenceRequestSchema = z
   .object({
@@ -23,6 +65,10 @@ export const absenceRequestSchema = z
       .string()
       .min(10, "Reason must be at least 10 characters")
       .max(500, "Reason must not exceed 500 characters"),
+    absenceTypeId: z.string().min(1).optional(),
+    dayPart: absenceDayPartSchema.default("FULL_DAY"),
+    startTime: timeSchema.optional(),
+    endTime: timeSchema.optional(),
   })
   .refine((data) => data.endDate >= data.startDate, {
     message: "End date must be on or after start date",
@@ -39,7 +85,10 @@ export const absenceRequestSchema = z
       message: "Absence period cannot exceed 1 year",
       path: ["endDate"],
     }
-  );
+  )
+  .refine(partialDayRules[0].check, partialDayRules[0])
+  .refine(partialDayRules[1].check, partialDayRules[1])
+  .refine(partialDayRules[2].check, partialDayRules[2]);
 
 /**
  * Schema for form validation (client-side)
@@ -61,6 +110,10 @@ export const absenceRequestFormSchema = z
       .string()
       .min(10, "Reason must be at least 10 characters")
       .max(500, "Reason must not exceed 500 characters"),
+    absenceTypeId: z.string().min(1).optional(),
+    dayPart: absenceDayPartSchema.optional(),
+    startTime: timeSchema.optional(),
+    endTime: timeSchema.optional(),
   })
   .refine((data) => data.endDate >= data.startDate, {
     message: "End date must be on or after start date",
@@ -77,19 +130,330 @@ export const absenceRequestFormSchema = z
       message: "Absence period cannot exceed 1 year",
       path: ["endDate"],
     }
-  );
+  )
+  .refine(partialDayRules[0].check, partialDayRules[0])
+  .refine(partialDayRules[1].check, partialDayRules[1])
+  .refine(partialDayRules[2].check, partialDayRules[2]);
 
 /**
  * Zod schema for updating absence request status
+ * The comment is optional on approval and required as the reason on rejection
+ */
+export const updateAbsenceStatusSchema = z
+  .object({
+    id: z.string().cuid(),
+    status: z.enum(["APPROVED", "REJECTED"]),
+    comment: z
+      .string()
+      .trim()
+      .max(500, "Comment must not exceed 500 characters")
+      .optional(),
+  })
+  .refine((data) => data.status !== "REJECTED" || !!data.comment, {
+    message: "Please give a reason for rejecting this request",
+    path: ["comment"],
+  });
+
+/**
+ * Zod schema for editing a pending absence request
+ * Same date, part-of-day and reason rules as a new request; the type cannot change
+ */
+export const updateAbsenceSchema = z
+  .object({
+    id: z.string().cuid(),
+    startDate: z.coerce.date().refine(
+      (date) => {
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        return date >= today;
+      },
+      { message: "Start date cannot be in the past" }
+    ),
+    endDate: z.coerce.date(),
+    reason: z
+      .string()
+      .min(10, "Reason must be at least 10 characters")
+      .max(500, "Reason must not exceed 500 characters"),
+    dayPart: absenceDayPartSchema.default("FULL_DAY"),
+    startTime: timeSchema.optional(),
+    endTime: timeSchema.optional(),
+  })
+  .refine((data) => data.endDate >= data.startDate, {
+    message: "End date must be on or after start date",
+    path: ["endDate"],
+  })
+  .refine(
+    (data) => {
+      const daysDiff = Math.ceil(
+        (data.endDate.getTime() - data.startDate.getTime()) / (1000 * 60 * 60 * 24)
+      );
+      return daysDiff <= 365;
+    },
+    {
+      message: "Absence period cannot exceed 1 year",
+      path: ["endDate"],
+    }
+  )
+  .refine(partialDayRules[0].check, partialDayRules[0])
+  .refine(partialDayRules[1].check, partialDayRules[1])
+  .refine(partialDayRules[2].check, partialDayRules[2]);
+
+/**
+ * Zod schema for asking to withdraw approved leave
  */
-export const updateAbsenceStatusSchema = z.object({
+export const requestAbsenceCancellationSchema = z.object({
   id: z.string().cuid(),
-  status: z.enum(["APPROVED", "REJECTED"]),
+  reason: z
+    .string()
+    .trim()
+    .min(1, "Please give a reason for cancelling this leave")
+    .max(500, "Reason must not exceed 500 characters"),
 });
 
+/**
+ * Zod schema for deciding a cancellation request
+ * The comment is optional when accepting and required as the reason when declining
+ */
+export const reviewAbsenceCancellationSchema = z
+  .object({
+    id: z.string().cuid(),
+    decision: z.enum(["APPROVED", "REJECTED"]),
+    comment: z
+      .string()
+      .trim()
+      .max(500, "Comment must not exceed 500 characters")
+      .optional(),
+  })
+  .refine((data) => data.decision !== "REJECTED" || !!data.comment, {
+    message: "Please give a reason for declining this cancellation",
+    path: ["comment"],
+  });
+
+/**
+ * Zod schema for organization-configured absence types
+ * Color must be a 6-digit hex value used for badges and charts
+ */
+export const absenceTypeSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(50, "Name must not exceed 50 characters"),
+  category: z.enum(["VACATION", "SICK", "PARENTAL", "UNPAID", "OTHER"]),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #3b82f6"),
+  requiresApproval: z.boolean(),
+  countsAgainstAllowance: z.boolean(),
+});
+
+/**
+ * Zod schema for updating an absence type
+ */
+export const updateAbsenceTypeSchema = absenceTypeSchema.partial().extend({
+  id: z.string().min(1),
+});
+
+/**
+ * Zod schema for the organization's leave policy
+ * Stored under `leavePolicy` in organization settings
+ */
+export const leavePolicySchema = z.object({
+  accrualMethod: z.enum(["MONTHLY", "UPFRONT"]),
+  defaultAnnualAllowance: z
+    .number()
+    .min(0, "Allowance cannot be negative")
+    .max(365, "Allowance cannot exceed 365 days"),
+  maxCarryoverDays: z
+    .number()
+    .min(0, "Carryover cannot be negative")
+    .max(365, "Carryover cannot exceed 365 days"),
+  allowNegativeBalance: z.boolean(),
+});
+
+/**
+ * Zod schema for one step of an approval workflow
+ * - DEPARTMENT_MANAGER steps name the department (e.g. HR)
+ * - SPECIFIC_USER steps name the approver
+ * - whenDaysExceed makes the step apply only to longer requests
+ */
+export const approvalStepRuleSchema = z
+  .object({
+    approverType: z.enum([
+      "REPORTING_MANAGER",
+      "SECOND_LEVEL_MANAGER",
+      "DEPARTMENT_MANAGER",
+      "SPECIFIC_USER",
+    ]),
+    label: z.string().trim().max(50, "Label must not exceed 50 characters").optional(),
+    department: z.string().trim().max(100).optional(),
+    userId: z.string().cuid().optional(),
+    whenDaysExceed: z
+      .number()
+      .int("Day threshold must be a whole number")
+      .min(0, "Day threshold cannot be negative")
+      .max(365, "Day threshold cannot exceed 365 days")
+      .optional(),
+  })
+  .refine((step) => step.approverType !== "DEPARTMENT_MANAGER" || !!step.department, {
+    message: "Choose the department that approves this step",
+    path: ["department"],
+  })
+  .refine((step) => step.approverType !== "SPECIFIC_USER" || !!step.userId, {
+    message: "Choose who approves this step",
+    path: ["userId"],
+  });
+
+/**
+ * Zod schema for an approval workflow
+ * Stored under `approvalWorkflow` in organization settings, or per absence type
+ */
+export const approvalWorkflowSchema = z
+  .array(approvalStepRuleSchema)
+  .min(1, "Add at least one approval step")
+  .max(5, "A workflow cannot have more than 5 steps")
+  .refine((steps) => steps[0]?.whenDaysExceed === undefined, {
+    message: "The first approval step cannot be conditional",
+  });
+
+/**
+ * Zod schema for updating an approval workflow
+ * Without absenceTypeId the organization default is updated; steps null resets it
+ */
+export const updateApprovalWorkflowSchema = z.object({
+  absenceTypeId: z.string().min(1).optional(),
+  steps: approvalWorkflowSchema.nullable(),
+});
+
+/**
+ * Zod schema for a department's minimum-staffing rule
+ * - WARN lets short-staffing requests through with a warning
+ * - BLOCK rejects them on creation and approval
+ */
+export const staffingRuleSchema = z.object({
+  department: z
+    .string()
+    .trim()
+    .min(1, "Choose the department this rule applies to")
+    .max(100, "Department must not exceed 100 characters"),
+  minPresent: z
+    .number()
+    .int("Minimum staffing must be a whole number")
+    .min(1, "At least one person must be present")
+    .max(1000, "Minimum staffing cannot exceed 1000 people"),
+  enforcement: z.enum(["WARN", "BLOCK"]),
+});
+
+/**
+ * Zod schema for the organization's staffing rules, one per department
+ * Stored under `staffingRules` in organization settings
+ */
+export const staffingRulesSchema = z
+  .array(staffingRuleSchema)
+  .max(100, "Cannot have more than 100 staffing rules")
+  .refine(
+    (rules) =>
+      new Set(rules.map((rule) => rule.department.toLowerCase())).size === rules.length,
+    { message: "Each department can only have one staffing rule" }
+  );
+
+/**
+ * Zod schema for looking up a department's coverage over a date range
+ * Without department the current user's own department is used
+ */
+export const teamCoverageSchema = z
+  .object({
+    department: z.string().trim().min(1).max(100).optional(),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+  })
+  .refine((data) => data.endDate >= data.startDate, {
+    message: "End date must be on or after start date",
+    path: ["endDate"],
+  })
+  .refine(
+    (data) => data.endDate.getTime() - data.startDate.getTime() <= 62 * 24 * 60 * 60 * 1000,
+    { message: "Coverage can be shown for at most 62 days at a time", path: ["endDate"] }
+  );
+
+/**
+ * Zod schema for overriding a user's yearly allowance
+ */
+export const updateLeaveAllowanceSchema = z.object({
+  userId: z.string().cuid(),
+  year: z.number().int().min(2000).max(2100),
+  annualAllowance: z
+    .number()
+    .min(0, "Allowance cannot be negative")
+    .max(365, "Allowance cannot exceed 365 days"),
+});
+
+/**
+ * Zod schema for a single holiday (date-only, YYYY-MM-DD)
+ */
+export const holidaySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  name: z
+    .string()
+    .trim()
+    .min(1, "Holiday name is required")
+    .max(100, "Holiday name must not exceed 100 characters"),
+});
+
+/**
+ * Zod schema for creating a holiday calendar
+ */
+export const holidayCalendarSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must not exceed 100 characters"),
+  holidays: z.array(holidaySchema).max(1000, "Too many holidays").optional(),
+  departments: z.array(z.string().trim().min(1).max(100)).optional(),
+  userIds: z.array(z.string().cuid()).optional(),
+});
+
+/**
+ * Zod schema for updating a holiday calendar
+ */
+export const updateHolidayCalendarSchema = holidayCalendarSchema.partial().extend({
+  id: z.string().min(1),
+});
+
+/**
+ * Zod schema for importing holidays from an iCalendar (.ics) file
+ * Imports into an existing calendar, or creates one with the given name
+ */
+export const importHolidayCalendarSchema = z
+  .object({
+    calendarId: z.string().min(1).optional(),
+    name: z.string().trim().min(1).max(100).optional(),
+    content: z
+      .string()
+      .min(1, "File is empty")
+      .max(1024 * 1024, "File must not exceed 1 MB"),
+  })
+  .refine((data) => data.calendarId || data.name, {
+    message: "Choose a calendar or enter a name for a new one",
+    path: ["name"],
+  });
+
 /**
  * TypeScript types inferred from Zod schemas
  */
 export type AbsenceRequestInput = z.infer<typeof absenceRequestSchema>;
 export type AbsenceRequestFormInput = z.infer<typeof absenceRequestFormSchema>;
 export type UpdateAbsenceStatusInput = z.infer<typeof updateAbsenceStatusSchema>;
+export type UpdateAbsenceInput = z.infer<typeof updateAbsenceSchema>;
+export type RequestAbsenceCancellationInput = z.infer<typeof requestAbsenceCancellationSchema>;
+export type ReviewAbsenceCancellationInput = z.infer<typeof reviewAbsenceCancellationSchema>;
+export type AbsenceTypeInput = z.infer<typeof absenceTypeSchema>;
+export type UpdateAbsenceTypeInput = z.infer<typeof updateAbsenceTypeSchema>;
+export type LeavePolicyInput = z.infer<typeof leavePolicySchema>;
+export type ApprovalStepRuleInput = z.infer<typeof approvalStepRuleSchema>;
+export type UpdateApprovalWorkflowInput = z.infer<typeof updateApprovalWorkflowSchema>;
+export type StaffingRuleInput = z.infer<typeof staffingRuleSchema>;
+export type TeamCoverageInput = z.infer<typeof teamCoverageSchema>;
+export type UpdateLeaveAllowanceInput = z.infer<typeof updateLeaveAllowanceSchema>;
+export type HolidayInput = z.infer<typeof holidaySchema>;
+export type HolidayCalendarInput = z.infer<typeof holidayCalendarSchema>;
+export type ImportHolidayCalendarInput = z.infer<typeof importHolidayCalendarSchema>;
@@ -32,6 +32,75 @@ export const feedbackSchema = z.object({
  */
 export type FeedbackFormData = z.infer<typeof feedbackSchema>;
 
+/**
+ * Kinds of feedback
+ * - PRAISE: recognizes something done well
+ * - CONSTRUCTIVE: points out something to improve
+ * - REQUEST: asks the receiver to start or change something
+ */
+export const feedbackTypeSchema = z.enum(["PRAISE", "CONSTRUCTIVE", "REQUEST"]);
+
+/**
+ * Competencies the feedback is about, each optionally rated 1-5
+ * Keys come from the organization's competency framework
+ */
+export const feedbackCompetenciesSchema = z
+  .array(
+    z.object({
+      competency: z.string().trim().min(1, "Choose a competency").max(50),
+      rating: z
+        .number()
+        .int("Ratings must be whole numbers")
+        .min(1, "Ratings go from 1 to 5")
+        .max(5, "Ratings go from 1 to 5")
+        .optional(),
+    })
+  )
+  .max(10, "Tag at most 10 competencies")
+  .refine(
+    (competencies) => new Set(competencies.map((c) => c.competency)).size === competencies.length,
+    { message: "Each competency can only be tagged once" }
+  );
+
+/**
+ * Who can read the feedback besides its giver
+ * - RECEIVER: the receiver and managers, with the giver's name
+ * - MANAGER_ONLY: private note for managers, hidden from the receiver
+ * - ANONYMOUS: the receiver and managers, without the giver's name
+ */
+export const feedbackVisibilitySchema = z.enum(["RECEIVER", "MANAGER_ONLY", "ANONYMOUS"]);
+
+export type FeedbackType = z.infer<typeof feedbackTypeSchema>;
+export type FeedbackVisibility = z.infer<typeof feedbackVisibilitySchema>;
+export type FeedbackCompetencyInput = z.infer<typeof feedbackCompetenciesSchema>[number];
+
+/**
+ * Schema for the organization's competency framework
+ * Stored under `competencyFramework` in organization settings
+ */
+export const competencyFrameworkSchema = z
+  .array(
+    z.object({
+      key: z
+        .string()
+        .trim()
+        .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Keys use lowercase letters, numbers and dashes"),
+      name: z
+        .string()
+        .trim()
+        .min(1, "Competencies need a name")
+        .max(50, "Name must not exceed 50 characters"),
+      description: z.string().trim().max(200, "Description must not exceed 200 characters").optional(),
+    })
+  )
+  .max(20, "A framework cannot have more than 20 competencies")
+  .refine(
+    (competencies) => new Set(competencies.map((c) => c.key)).size === competencies.length,
+    { message: "Each competency needs a different name" }
+  );
+
+export type CompetencyInput = z.infer<typeof competencyFrameworkSchema>[number];
+
 /**
  * Schema for polishing feedback with AI
  * Uses the same validation rules as feedback submission
@@ -51,6 +120,72 @@ export const polishFeedbackSchema = z.object({
 
 export type PolishFeedbackData = z.infer<typeof polishFeedbackSchema>;
 
+/**
+ * AI providers that can polish feedback
+ * - huggingface: hosted model on the HuggingFace Inference API
+ * - openai-compatible: OpenAI-compatible endpoint, e.g. a local inference server
+ * - rule-based: deterministic offline polisher
+ */
+export const aiProviderSchema = z.enum(["huggingface", "openai-compatible", "rule-based"]);
+
+export type AIProvider = z.infer<typeof aiProviderSchema>;
+
+/**
+ * What happens to feedback flagged by screening
+ * - WARN: the giver is warned but may submit as written
+ * - REQUIRE_POLISH: the giver must polish the feedback first
+ * - MODERATE: a manager approves the feedback before the receiver sees it
+ */
+export const feedbackScreeningPolicySchema = z.enum(["WARN", "REQUIRE_POLISH", "MODERATE"]);
+
+export type FeedbackScreeningPolicy = z.infer<typeof feedbackScreeningPolicySchema>;
+
+/**
+ * Schema for screening feedback before it is submitted
+ * Polished feedback can run longer than the original, so only the stored maximum applies
+ */
+export const screenFeedbackSchema = z.object({
+  content: z.string().trim().min(1, "Feedback is required").max(5000),
+});
+
+/**
+ * Schema for approving or rejecting feedback held for moderation
+ */
+export const moderateFeedbackSchema = z.object({
+  id: z.string().cuid("Invalid feedback ID format"),
+  approve: z.boolean(),
+});
+
+export type ModerateFeedbackData = z.infer<typeof moderateFeedbackSchema>;
+
+/**
+ * Schema for editing feedback
+ * Uses the same content rules as feedback submission; the previous version is kept
+ */
+export const editFeedbackSchema = feedbackSchema.pick({ content: true }).extend({
+  id: z.string().cuid("Invalid feedback ID format"),
+  polishedContent: z.string().trim().max(5000).optional(),
+});
+
+export type EditFeedbackData = z.infer<typeof editFeedbackSchema>;
+
+/**
+ * Schema for replying to feedback
+ * Acknowledgements may come without text; replies need some
+ */
+export const feedbackReplySchema = z
+  .object({
+    feedbackId: z.string().cuid("Invalid feedback ID format"),
+    kind: z.enum(["REPLY", "ACKNOWLEDGEMENT"]).default("REPLY"),
+    content: z.string().trim().max(2000, "Reply must not exceed 2000 characters").optional(),
+  })
+  .refine((data) => data.kind === "ACKNOWLEDGEMENT" || !!data.content, {
+    message: "Reply cannot be empty",
+    path: ["content"],
+  });
+
+export type FeedbackReplyData = z.infer<typeof feedbackReplySchema>;
+
 /**
  * Schema for deleting feedback
  */
@@ -68,3 +203,54 @@ export const getFeedbackForUserSchema = z.object({
 });
 
 export type GetFeedbackForUserData = z.infer<typeof getFeedbackForUserSchema>;
+
+/**
+ * Schema for summarizing the feedback a user received in a period
+ * Both dates are included; the period spans at most a year
+ */
+export const summarizeFeedbackSchema = z
+  .object({
+    userId: z.string().cuid("Invalid user ID format"),
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+  })
+  .refine((data) => data.to >= data.from, {
+    message: "End date must be on or after start date",
+    path: ["to"],
+  })
+  .refine((data) => data.to.getTime() - data.from.getTime() <= 366 * 24 * 60 * 60 * 1000, {
+    message: "Summaries can cover at most a year of feedback",
+    path: ["to"],
+  });
+
+export type SummarizeFeedbackData = z.infer<typeof summarizeFeedbackSchema>;
+
+/**
+ * Schema for asking colleagues for feedback
+ * The due date defaults to two weeks from now
+ */
+export const requestFeedbackSchema = z.object({
+  recipientIds: z
+    .array(z.string().cuid("Invalid colleague ID format"))
+    .min(1, "Choose at least one colleague")
+    .max(10, "Ask at most 10 colleagues at once")
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: "Each colleague can only be asked once",
+    }),
+  prompt: z.string().trim().max(500, "Question must not exceed 500 characters").optional(),
+  dueDate: z.coerce
+    .date()
+    .refine((date) => date > new Date(), { message: "Due date must be in the future" })
+    .optional(),
+});
+
+export type RequestFeedbackData = z.infer<typeof requestFeedbackSchema>;
+
+/**
+ * Schema for declining a feedback request
+ */
+export const declineFeedbackRequestSchema = z.object({
+  id: z.string().cuid("Invalid feedback request ID format"),
+});
+
+export type DeclineFeedbackRequestData = z.infer<typeof declineFeedbackRequestSchema>;
@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+export const notificationTypeSchema = z.enum([
+  "FEEDBACK_RECEIVED",
+  "FEEDBACK_REQUESTED",
+  "FEEDBACK_REPLY",
+  "FEEDBACK_MODERATION",
+  "ABSENCE_APPROVED",
+  "ABSENCE_REJECTED",
+  "ABSENCE_PENDING",
+  "ABSENCE_CANCELLATION_REQUESTED",
+  "ABSENCE_CANCELLED",
+  "ABSENCE_CANCELLATION_REJECTED",
+  "REVIEW_REQUESTED",
+  "REVIEW_REMINDER",
+  "REVIEW_COMPLETED",
+  "SYSTEM",
+]);
+
+export type NotificationTypeInput = z.infer<typeof notificationTypeSchema>;
+
+/**
+ * How a user hears about a type of notification
+ * - IN_APP: in the app only
+ * - EMAIL: in the app and by email right away
+ * - DIGEST: in the app and in the daily digest email
+ * - OFF: not at all
+ */
+export const notificationChannelSchema = z.enum(["IN_APP", "EMAIL", "DIGEST", "OFF"]);
+
+export type NotificationChannelInput = z.infer<typeof notificationChannelSchema>;
+
+/**
+ * Schema for changing the channel of some notification types
+ */
+export const updateNotificationPreferencesSchema = z.object({
+  channels: z
+    .partialRecord(notificationTypeSchema, notificationChannelSchema)
+    .refine((channels) => Object.keys(channels).length > 0, "Choose at least one channel"),
+});
+
+/**
+ * Schema for the notification types an organization does not let users turn off
+ */
+export const requiredNotificationTypesSchema = z.object({
+  types: z
+    .array(notificationTypeSchema)
+    .transform((types) => [...new Set(types)]),
+});
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import type { AuthenticationExtensionsClientOutputs } from "@simplewebauthn/server";
+
+const base64UrlSchema = z.string().regex(/^[A-Za-z0-9_-]+$/, "Invalid base64url value");
+
+/**
+ * Schema for what a user calls a passkey
+ */
+export const passkeyNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Name is required")
+  .max(64, "Name must be 64 characters or less");
+
+const credentialSchema = z.object({
+  id: base64UrlSchema,
+  rawId: base64UrlSchema,
+  type: z.literal("public-key"),
+  authenticatorAttachment: z.enum(["platform", "cross-platform"]).optional(),
+  clientExtensionResults: z.custom<AuthenticationExtensionsClientOutputs>(
+    (value) => typeof value === "object" && value !== null && !Array.isArray(value)
+  ),
+});
+
+/**
+ * Schema for the browser's answer to passkey registration options
+ */
+export const passkeyRegistrationResponseSchema = credentialSchema.extend({
+  response: z.object({
+    clientDataJSON: base64UrlSchema,
+    attestationObject: base64UrlSchema,
+    authenticatorData: base64UrlSchema.optional(),
+    transports: z.array(z.string()).max(10).optional(),
+    publicKeyAlgorithm: z.number().int().optional(),
+    publicKey: base64UrlSchema.optional(),
+  }),
+});
+
+/**
+ * Schema for the browser's answer to passkey sign-in options
+ */
+export const passkeyAuthenticationResponseSchema = credentialSchema.extend({
+  response: z.object({
+    clientDataJSON: base64UrlSchema,
+    authenticatorData: base64UrlSchema,
+    signature: base64UrlSchema,
+    userHandle: base64UrlSchema.optional(),
+  }),
+});
+
+/**
+ * Schema for registering a passkey
+ */
+export const registerPasskeySchema = z.object({
+  name: passkeyNameSchema,
+  response: passkeyRegistrationResponseSchema,
+});
+
+export type RegisterPasskeyInput = z.infer<typeof registerPasskeySchema>;
+export type PasskeyAuthenticationResponse = z.infer<typeof passkeyAuthenticationResponseSchema>;
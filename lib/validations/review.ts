@@ -0,0 +1,103 @@
+import { z } from "zod";
+
+/**
+ * Review cycle states
+ * - DRAFT: being set up
+ * - OPEN: reviews are being written
+ * - CALIBRATION: managers adjust final ratings
+ * - CLOSED: final ratings written back to profiles
+ */
+export const reviewCycleStatusSchema = z.enum(["DRAFT", "OPEN", "CALIBRATION", "CLOSED"]);
+
+export const reviewKindSchema = z.enum(["SELF", "PEER", "MANAGER"]);
+
+/**
+ * Overall and per-question review rating (1-5)
+ */
+export const reviewRatingSchema = z
+  .number()
+  .int("Ratings must be whole numbers")
+  .min(1, "Ratings go from 1 to 5")
+  .max(5, "Ratings go from 1 to 5");
+
+/**
+ * Schema for a review questionnaire template
+ */
+export const reviewQuestionsSchema = z
+  .array(
+    z.object({
+      id: z.string().trim().min(1).max(50),
+      prompt: z
+        .string()
+        .trim()
+        .min(1, "Questions cannot be empty")
+        .max(500, "Questions must not exceed 500 characters"),
+      type: z.enum(["TEXT", "RATING"]),
+    })
+  )
+  .min(1, "Add at least one question")
+  .max(30, "A questionnaire cannot have more than 30 questions")
+  .refine((questions) => new Set(questions.map((q) => q.id)).size === questions.length, {
+    message: "Each question needs a different ID",
+  });
+
+/**
+ * Schema for creating a review cycle
+ */
+export const reviewCycleSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must not exceed 100 characters"),
+  questions: reviewQuestionsSchema,
+  deadline: z.coerce.date(),
+  participantIds: z.array(z.string().cuid()).max(500, "Too many participants").default([]),
+});
+
+/**
+ * Schema for updating a review cycle
+ */
+export const updateReviewCycleSchema = reviewCycleSchema.partial().extend({
+  id: z.string().min(1),
+});
+
+/**
+ * Schema for nominating the peers who review a participant
+ */
+export const nominateReviewPeersSchema = z.object({
+  cycleId: z.string().min(1),
+  userId: z.string().cuid(),
+  peerIds: z.array(z.string().cuid()).max(5, "Nominate at most 5 peers"),
+});
+
+/**
+ * Schema for submitting a review
+ */
+export const submitReviewSchema = z.object({
+  cycleId: z.string().min(1),
+  reviewId: z.string().min(1),
+  answers: z.array(
+    z.object({
+      questionId: z.string().min(1),
+      text: z.string().trim().max(5000, "Answers must not exceed 5000 characters").optional(),
+      rating: reviewRatingSchema.optional(),
+    })
+  ),
+  rating: reviewRatingSchema.optional(),
+});
+
+/**
+ * Schema for calibrating a participant's final rating
+ */
+export const calibrateReviewRatingSchema = z.object({
+  cycleId: z.string().min(1),
+  userId: z.string().cuid(),
+  rating: reviewRatingSchema,
+});
+
+export type ReviewCycleStatus = z.infer<typeof reviewCycleStatusSchema>;
+export type ReviewKind = z.infer<typeof reviewKindSchema>;
+export type ReviewQuestionInput = z.infer<typeof reviewQuestionsSchema>[number];
+export type ReviewCycleInput = z.input<typeof reviewCycleSchema>;
+export type SubmitReviewInput = z.infer<typeof submitReviewSchema>;
@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+const roleSchema = z.enum(["EMPLOYEE", "MANAGER", "COWORKER"]);
+
+/**
+ * Schema for mapping an identity provider group to a role
+ */
+export const ssoGroupRoleMappingSchema = z.object({
+  group: z.string().trim().min(1, "Group is required").max(255, "Group is too long"),
+  role: roleSchema,
+});
+
+const ssoSettingsSchema = z.object({
+  enabled: z.boolean(),
+  enforced: z.boolean(),
+  jitProvisioning: z.boolean(),
+  defaultRole: roleSchema,
+  groupsAttribute: z.string().trim().min(1, "Groups attribute is required").max(255),
+  groupRoleMappings: z.array(ssoGroupRoleMappingSchema).max(50, "Too many group mappings"),
+});
+
+/**
+ * Schema for an organization's SSO connection
+ * A blank client secret keeps the one already saved
+ */
+export const ssoConnectionSchema = z
+  .discriminatedUnion("protocol", [
+    ssoSettingsSchema.extend({
+      protocol: z.literal("OIDC"),
+      issuerUrl: z.string().trim().url("Invalid issuer URL"),
+      clientId: z.string().trim().min(1, "Client ID is required").max(255),
+      clientSecret: z.string().trim().max(1024).optional(),
+    }),
+    ssoSettingsSchema.extend({
+      protocol: z.literal("SAML"),
+      samlMetadata: z
+        .string()
+        .trim()
+        .min(1, "Identity provider metadata is required")
+        .max(200_000, "Metadata is too large"),
+    }),
+  ])
+  .refine((connection) => connection.enabled || !connection.enforced, {
+    message: "Enable SSO before enforcing it",
+    path: ["enforced"],
+  });
+
+export type SsoConnectionInput = z.infer<typeof ssoConnectionSchema>;
+export type SsoGroupRoleMappingInput = z.infer<typeof ssoGroupRoleMappingSchema>;
@@ -62,3 +62,14 @@ export const profileListSchema = paginationSchema.extend({
 });
 
 export type ProfileListInput = z.infer<typeof profileListSchema>;
+
+/**
+ * Schema for changing who a user reports to
+ * A null managerId removes the user from the reporting line
+ */
+export const assignManagerSchema = z.object({
+  id: z.string().cuid('Invalid user ID format'),
+  managerId: z.string().cuid('Invalid manager ID format').nullable(),
+});
+
+export type AssignManagerInput = z.infer<typeof assignManagerSchema>;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "AbsenceCategory" AS ENUM ('VACATION', 'SICK', 'PARENTAL', 'UNPAID', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "AbsenceRequest" ADD COLUMN     "absenceTypeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "AbsenceType" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" "AbsenceCategory" NOT NULL DEFAULT 'OTHER',
+    "color" TEXT NOT NULL DEFAULT '#3b82f6',
+    "requiresApproval" BOOLEAN NOT NULL DEFAULT true,
+    "countsAgainstAllowance" BOOLEAN NOT NULL DEFAULT true,
+    "deletedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AbsenceType_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AbsenceType_organizationId_idx" ON "AbsenceType"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "AbsenceType_organizationId_deletedAt_idx" ON "AbsenceType"("organizationId", "deletedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AbsenceType_organizationId_name_key" ON "AbsenceType"("organizationId", "name");
+
+-- CreateIndex
+CREATE INDEX "AbsenceRequest_absenceTypeId_idx" ON "AbsenceRequest"("absenceTypeId");
+
+-- AddForeignKey
+ALTER TABLE "AbsenceRequest" ADD CONSTRAINT "AbsenceRequest_absenceTypeId_fkey" FOREIGN KEY ("absenceTypeId") REFERENCES "AbsenceType"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AbsenceType" ADD CONSTRAINT "AbsenceType_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "AbsenceDayPart" AS ENUM ('FULL_DAY', 'MORNING', 'AFTERNOON', 'HOURS');
+
+-- AlterTable
+ALTER TABLE "AbsenceRequest" ADD COLUMN     "dayPart" "AbsenceDayPart" NOT NULL DEFAULT 'FULL_DAY',
+ADD COLUMN     "endTime" TEXT,
+ADD COLUMN     "startTime" TEXT;
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "ApproverType" AS ENUM ('REPORTING_MANAGER', 'SECOND_LEVEL_MANAGER', 'DEPARTMENT_MANAGER', 'SPECIFIC_USER');
+
+-- CreateEnum
+CREATE TYPE "ApprovalDecision" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'SKIPPED');
+
+-- AlterTable
+ALTER TABLE "AbsenceType" ADD COLUMN     "approvalSteps" JSONB;
+
+-- CreateTable
+CREATE TABLE "AbsenceApprovalStep" (
+    "id" TEXT NOT NULL,
+    "absenceRequestId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "label" TEXT,
+    "approverType" "ApproverType" NOT NULL,
+    "department" TEXT,
+    "approverUserId" TEXT,
+    "decision" "ApprovalDecision" NOT NULL DEFAULT 'PENDING',
+    "decidedById" TEXT,
+    "comment" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AbsenceApprovalStep_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AbsenceApprovalStep_decidedById_idx" ON "AbsenceApprovalStep"("decidedById");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AbsenceApprovalStep_absenceRequestId_position_key" ON "AbsenceApprovalStep"("absenceRequestId", "position");
+
+-- AddForeignKey
+ALTER TABLE "AbsenceApprovalStep" ADD CONSTRAINT "AbsenceApprovalStep_absenceRequestId_fkey" FOREIGN KEY ("absenceRequestId") REFERENCES "AbsenceRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AbsenceApprovalStep" ADD CONSTRAINT "AbsenceApprovalStep_decidedById_fkey" FOREIGN KEY ("decidedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
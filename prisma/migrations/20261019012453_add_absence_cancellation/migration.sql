@@ -0,0 +1,21 @@
+-- AlterEnum
+ALTER TYPE "AbsenceStatus" ADD VALUE 'CANCELLED';
+
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "AuditAction" ADD VALUE 'UPDATE_ABSENCE';
+ALTER TYPE "AuditAction" ADD VALUE 'REQUEST_ABSENCE_CANCELLATION';
+ALTER TYPE "AuditAction" ADD VALUE 'CANCEL_ABSENCE';
+
+-- AlterTable
+ALTER TABLE "AbsenceRequest" ADD COLUMN     "cancellationComment" TEXT,
+ADD COLUMN     "cancellationDecidedAt" TIMESTAMP(3),
+ADD COLUMN     "cancellationDecidedById" TEXT,
+ADD COLUMN     "cancellationReason" TEXT,
+ADD COLUMN     "cancellationRequestedAt" TIMESTAMP(3);
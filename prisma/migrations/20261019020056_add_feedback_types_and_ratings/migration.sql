@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "FeedbackType" AS ENUM ('PRAISE', 'CONSTRUCTIVE', 'REQUEST');
+
+-- AlterTable
+ALTER TABLE "Feedback" ADD COLUMN     "competencies" JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN     "type" "FeedbackType" NOT NULL DEFAULT 'PRAISE';
+
+-- CreateIndex
+CREATE INDEX "Feedback_receiverId_type_idx" ON "Feedback"("receiverId", "type");
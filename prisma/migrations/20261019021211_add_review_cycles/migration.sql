@@ -0,0 +1,89 @@
+-- CreateEnum
+CREATE TYPE "ReviewCycleStatus" AS ENUM ('DRAFT', 'OPEN', 'CALIBRATION', 'CLOSED');
+
+-- CreateEnum
+CREATE TYPE "ReviewKind" AS ENUM ('SELF', 'PEER', 'MANAGER');
+
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "NotificationType" ADD VALUE 'REVIEW_REQUESTED';
+ALTER TYPE "NotificationType" ADD VALUE 'REVIEW_REMINDER';
+ALTER TYPE "NotificationType" ADD VALUE 'REVIEW_COMPLETED';
+
+-- CreateTable
+CREATE TABLE "ReviewCycle" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" "ReviewCycleStatus" NOT NULL DEFAULT 'DRAFT',
+    "questions" JSONB NOT NULL DEFAULT '[]',
+    "deadline" TIMESTAMP(3) NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "openedAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReviewCycle_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReviewParticipant" (
+    "cycleId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "managerId" TEXT NOT NULL,
+    "peerIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "calibratedRating" INTEGER,
+
+    CONSTRAINT "ReviewParticipant_pkey" PRIMARY KEY ("cycleId","userId")
+);
+
+-- CreateTable
+CREATE TABLE "Review" (
+    "id" TEXT NOT NULL,
+    "cycleId" TEXT NOT NULL,
+    "revieweeId" TEXT NOT NULL,
+    "reviewerId" TEXT NOT NULL,
+    "kind" "ReviewKind" NOT NULL,
+    "answers" JSONB NOT NULL DEFAULT '[]',
+    "rating" INTEGER,
+    "submittedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Review_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReviewCycle_organizationId_status_idx" ON "ReviewCycle"("organizationId", "status");
+
+-- CreateIndex
+CREATE INDEX "Review_reviewerId_submittedAt_idx" ON "Review"("reviewerId", "submittedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Review_cycleId_revieweeId_reviewerId_kind_key" ON "Review"("cycleId", "revieweeId", "reviewerId", "kind");
+
+-- AddForeignKey
+ALTER TABLE "ReviewCycle" ADD CONSTRAINT "ReviewCycle_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewCycle" ADD CONSTRAINT "ReviewCycle_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewParticipant" ADD CONSTRAINT "ReviewParticipant_cycleId_fkey" FOREIGN KEY ("cycleId") REFERENCES "ReviewCycle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewParticipant" ADD CONSTRAINT "ReviewParticipant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_cycleId_fkey" FOREIGN KEY ("cycleId") REFERENCES "ReviewCycle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_revieweeId_fkey" FOREIGN KEY ("revieweeId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "FeedbackRequestStatus" AS ENUM ('PENDING', 'COMPLETED', 'DECLINED');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'FEEDBACK_REQUESTED';
+
+-- CreateTable
+CREATE TABLE "FeedbackRequest" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "requesterId" TEXT NOT NULL,
+    "recipientId" TEXT NOT NULL,
+    "prompt" TEXT,
+    "status" "FeedbackRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "feedbackId" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FeedbackRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FeedbackRequest_feedbackId_key" ON "FeedbackRequest"("feedbackId");
+
+-- CreateIndex
+CREATE INDEX "FeedbackRequest_organizationId_idx" ON "FeedbackRequest"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "FeedbackRequest_recipientId_status_idx" ON "FeedbackRequest"("recipientId", "status");
+
+-- CreateIndex
+CREATE INDEX "FeedbackRequest_requesterId_createdAt_idx" ON "FeedbackRequest"("requesterId", "createdAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "FeedbackRequest" ADD CONSTRAINT "FeedbackRequest_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeedbackRequest" ADD CONSTRAINT "FeedbackRequest_requesterId_fkey" FOREIGN KEY ("requesterId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeedbackRequest" ADD CONSTRAINT "FeedbackRequest_recipientId_fkey" FOREIGN KEY ("recipientId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeedbackRequest" ADD CONSTRAINT "FeedbackRequest_feedbackId_fkey" FOREIGN KEY ("feedbackId") REFERENCES "Feedback"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "FeedbackVisibility" AS ENUM ('RECEIVER', 'MANAGER_ONLY', 'ANONYMOUS');
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'REVEAL_FEEDBACK_GIVER';
+
+-- AlterTable
+ALTER TABLE "Feedback" ADD COLUMN     "visibility" "FeedbackVisibility" NOT NULL DEFAULT 'RECEIVER';
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "FeedbackReplyKind" AS ENUM ('REPLY', 'ACKNOWLEDGEMENT');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'FEEDBACK_REPLY';
+
+-- CreateTable
+CREATE TABLE "FeedbackRevision" (
+    "id" TEXT NOT NULL,
+    "feedbackId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "polishedContent" TEXT,
+    "editedById" TEXT NOT NULL,
+    "editedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FeedbackRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FeedbackReply" (
+    "id" TEXT NOT NULL,
+    "feedbackId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "kind" "FeedbackReplyKind" NOT NULL DEFAULT 'REPLY',
+    "content" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FeedbackReply_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FeedbackRevision_feedbackId_editedAt_idx" ON "FeedbackRevision"("feedbackId", "editedAt");
+
+-- CreateIndex
+CREATE INDEX "FeedbackReply_feedbackId_createdAt_idx" ON "FeedbackReply"("feedbackId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "FeedbackRevision" ADD CONSTRAINT "FeedbackRevision_feedbackId_fkey" FOREIGN KEY ("feedbackId") REFERENCES "Feedback"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeedbackRevision" ADD CONSTRAINT "FeedbackRevision_editedById_fkey" FOREIGN KEY ("editedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeedbackReply" ADD CONSTRAINT "FeedbackReply_feedbackId_fkey" FOREIGN KEY ("feedbackId") REFERENCES "Feedback"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeedbackReply" ADD CONSTRAINT "FeedbackReply_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "FeedbackModerationStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'FEEDBACK_MODERATION';
+
+-- AlterTable
+ALTER TABLE "Feedback" ADD COLUMN     "moderatedAt" TIMESTAMP(3),
+ADD COLUMN     "moderatedById" TEXT,
+ADD COLUMN     "moderationStatus" "FeedbackModerationStatus",
+ADD COLUMN     "screeningFlags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "Feedback_organizationId_moderationStatus_idx" ON "Feedback"("organizationId", "moderationStatus");
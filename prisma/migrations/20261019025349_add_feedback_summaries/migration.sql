@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "FeedbackSummary" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "subjectId" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "themes" JSONB NOT NULL,
+    "strengths" JSONB NOT NULL,
+    "growthAreas" JSONB NOT NULL,
+    "feedbackIds" TEXT[],
+    "sourceUpdatedAt" TIMESTAMP(3) NOT NULL,
+    "provider" TEXT NOT NULL,
+    "generatedById" TEXT NOT NULL,
+    "generatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FeedbackSummary_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FeedbackSummary_organizationId_idx" ON "FeedbackSummary"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FeedbackSummary_subjectId_periodStart_periodEnd_key" ON "FeedbackSummary"("subjectId", "periodStart", "periodEnd");
+
+-- AddForeignKey
+ALTER TABLE "FeedbackSummary" ADD CONSTRAINT "FeedbackSummary_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeedbackSummary" ADD CONSTRAINT "FeedbackSummary_subjectId_fkey" FOREIGN KEY ("subjectId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "SsoProtocol" AS ENUM ('OIDC', 'SAML');
+
+-- CreateTable
+CREATE TABLE "SsoConnection" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "protocol" "SsoProtocol" NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT false,
+    "enforced" BOOLEAN NOT NULL DEFAULT false,
+    "issuerUrl" TEXT,
+    "clientId" TEXT,
+    "clientSecret" TEXT,
+    "samlMetadata" TEXT,
+    "jitProvisioning" BOOLEAN NOT NULL DEFAULT false,
+    "defaultRole" "Role" NOT NULL DEFAULT 'EMPLOYEE',
+    "groupsAttribute" TEXT NOT NULL DEFAULT 'groups',
+    "groupRoleMappings" JSONB NOT NULL DEFAULT '[]',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SsoConnection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SsoConnection_organizationId_key" ON "SsoConnection"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "SsoConnection" ADD CONSTRAINT "SsoConnection_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -170,6 +170,17 @@ async function main() {
   });
 
   if (emily && david && sarah && john && alice) {
+    // Reporting lines: everyone reports to Emily, Alice reports via David
+    await prisma.user.updateMany({
+      where: { id: { in: [david.id, sarah.id, john.id] } },
+      data: { managerId: emily.id },
+    });
+    await prisma.user.update({
+      where: { id: alice.id },
+      data: { managerId: david.id },
+    });
+    console.log('✓ Set up reporting lines');
+
     // Create sample feedback with organizationId
     const feedbackData = [
       {
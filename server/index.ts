@@ -3,24 +3,34 @@ import { authRouter } from './routers/auth';
 import { userRouter } from './routers/user';
 import { feedbackRouter } from './routers/feedback';
 import { absenceRouter } from './routers/absence';
+import { absenceTypeRouter } from './routers/absence-type';
+import { holidayCalendarRouter } from './routers/holiday-calendar';
+import { reviewRouter } from './routers/review';
 import { dashboardRouter } from './routers/dashboard';
 import { notificationRouter } from './routers/notification';
 import { adminRouter } from './routers/admin';
 import { organizationRouter } from './routers/organization';
 import { invitationRouter } from './routers/invitation';
 import { twoFactorRouter } from './routers/two-factor';
+import { ssoRouter } from './routers/sso';
+import { scimRouter } from './routers/scim';
 
 export const appRouter = router({
   auth: authRouter,
   user: userRouter,
   feedback: feedbackRouter,
   absence: absenceRouter,
+  absenceType: absenceTypeRouter,
+  holidayCalendar: holidayCalendarRouter,
+  review: reviewRouter,
   dashboard: dashboardRouter,
   notification: notificationRouter,
   admin: adminRouter,
   organization: organizationRouter,
   invitation: invitationRouter,
   twoFactor: twoFactorRouter,
+  sso: ssoRouter,
+  scim: scimRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { router, protectedProcedure, managerProcedure } from '../trpc';
+import { absenceTypeSchema, updateAbsenceTypeSchema } from '@/lib/validations/absence';
+import { container } from '@/src/infrastructure/di/container';
+import { AbsenceCategory } from '@/src/domain/entities/AbsenceType';
+
+/**
+ * Absence type router for organization-configured absence categories
+ * Listing is available to everyone (needed to request time off),
+ * configuration is restricted to managers.
+ */
+export const absenceTypeRouter = router({
+  /**
+   * List absence types for the current organization
+   */
+  list: protectedProcedure
+    .input(z.object({ includeDeleted: z.boolean().optional() }).optional())
+    .query(async ({ input }) => {
+      return container.getAbsenceTypesUseCase.execute({
+        includeDeleted: input?.includeDeleted,
+      });
+    }),
+
+  /**
+   * Create a new absence type (manager-only)
+   */
+  create: managerProcedure
+    .input(absenceTypeSchema)
+    .mutation(async ({ ctx, input }) => {
+      return container.createAbsenceTypeUseCase.execute({
+        requesterId: ctx.session.userId,
+        name: input.name,
+        category: AbsenceCategory[input.category],
+        color: input.color,
+        requiresApproval: input.requiresApproval,
+        countsAgainstAllowance: input.countsAgainstAllowance,
+      });
+    }),
+
+  /**
+   * Update an absence type (manager-only)
+   */
+  update: managerProcedure
+    .input(updateAbsenceTypeSchema)
+    .mutation(async ({ ctx, input }) => {
+      return container.updateAbsenceTypeUseCase.execute({
+        absenceTypeId: input.id,
+        requesterId: ctx.session.userId,
+        name: input.name,
+        category: input.category ? AbsenceCategory[input.category] : undefined,
+        color: input.color,
+        requiresApproval: input.requiresApproval,
+        countsAgainstAllowance: input.countsAgainstAllowance,
+      });
+    }),
+
+  /**
+   * Soft delete an absence type (manager-only)
+   * Existing requests keep their type for historical reporting
+   */
+  delete: managerProcedure
+    .input(z.object({ id: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      await container.deleteAbsenceTypeUseCase.execute({
+        absenceTypeId: input.id,
+        requesterId: ctx.session.userId,
+      });
+      return { success: true };
+    }),
+});
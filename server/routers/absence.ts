@@ -3,14 +3,106 @@ import { router, protectedProcedure, managerProcedure } from '../trpc';
 import {
   absenceRequestSchema,
   updateAbsenceStatusSchema,
+  leavePolicySchema,
+  updateLeaveAllowanceSchema,
+  updateApprovalWorkflowSchema,
+  updateAbsenceSchema,
+  requestAbsenceCancellationSchema,
+  reviewAbsenceCancellationSchema,
+  staffingRulesSchema,
+  teamCoverageSchema,
 } from '@/lib/validations/absence';
+import { TRPCError } from '@trpc/server';
 import { paginationSchema } from '@/lib/pagination';
 import { container } from '@/src/infrastructure/di/container';
 import { AbsenceStatus } from '@/src/domain/entities/Absence';
+import { AbsenceDayPart } from '@/src/domain/value-objects/DayPart';
+import { toAbsenceTypeSummaryDTO } from '@/src/application/dtos/AbsenceTypeDTO';
+import { LeavePolicy } from '@/src/domain/value-objects/LeavePolicy';
+import { ApprovalWorkflow, ApproverType } from '@/src/domain/value-objects/ApprovalWorkflow';
+import { StaffingPolicy } from '@/src/domain/value-objects/StaffingPolicy';
 import {
-  sendAbsenceStatusEmail,
-  sendAbsenceRequestEmail,
+  renderAbsenceStatusEmail,
+  renderAbsenceRequestEmail,
 } from '@/lib/email/send-emails';
+import { auditAbsenceOperation, type AuditContext } from '@/lib/audit';
+import { formatStaffingWarning } from '@/lib/labels';
+import type { StaffingWarningDTO } from '@/src/application/dtos/TeamCoverageDTO';
+import type { Logger } from 'pino';
+
+/**
+ * Who is acting, for the audit trail
+ */
+function getAuditContext(
+  session: { userId: string; email: string; role: string },
+  req: Request
+): AuditContext {
+  const forwardedFor = req.headers.get('x-forwarded-for');
+  return {
+    userId: session.userId,
+    userEmail: session.email,
+    userRole: session.role,
+    ipAddress: forwardedFor?.split(',')[0]?.trim() || 'unknown',
+    userAgent: req.headers.get('user-agent') || undefined,
+  };
+}
+
+/**
+ * Ask whoever decides the current approval step of a pending request to review it
+ */
+async function notifyCurrentApprovers(
+  logger: Logger,
+  absence: {
+    id: string;
+    userId: string;
+    startDate: Date;
+    endDate: Date;
+    reason: string;
+    staffingWarning?: StaffingWarningDTO;
+  },
+  employeeName: string
+) {
+  const staffingNote = absence.staffingWarning
+    ? `. ${formatStaffingWarning(absence.staffingWarning)}`
+    : '';
+
+  const { step, approvers } = await container.getCurrentApproversUseCase.execute({
+    absenceId: absence.id,
+  });
+
+  // Notify approvers in parallel; each gets the channels they chose
+  const notificationPromises = approvers.map((approver) =>
+    container.dispatchNotificationUseCase.execute({
+      userId: approver.id,
+      type: 'ABSENCE_PENDING',
+      title: 'New Time Off Request',
+      message: step
+        ? `${employeeName} has requested time off (${step} approval)${staffingNote}`
+        : `${employeeName} has requested time off${staffingNote}`,
+      data: {
+        absenceId: absence.id,
+        employeeId: absence.userId,
+        staffingWarning: absence.staffingWarning,
+      },
+      email: renderAbsenceRequestEmail(
+        approver.name,
+        employeeName,
+        absence.startDate,
+        absence.endDate,
+        absence.reason,
+        absence.id
+      ),
+    })
+  );
+
+  // Wait for all parallel operations (use allSettled to not fail on individual errors)
+  const results = await Promise.allSettled(notificationPromises);
+
+  const failed = results.filter((result) => result.status === 'rejected').length;
+  if (failed > 0) {
+    logger.warn({ absenceId: absence.id, failed }, 'Failed to notify some approvers');
+  }
+}
 
 /**
  * Absence router for time-off request management
@@ -30,56 +122,22 @@ export const absenceRouter = router({
         userId: ctx.session.userId,
         startDate: input.startDate,
         endDate: input.endDate,
+        dayPart: AbsenceDayPart[input.dayPart],
+        startTime: input.startTime,
+        endTime: input.endTime,
         reason: input.reason,
+        absenceTypeId: input.absenceTypeId,
       });
 
-      // Get employee info for email
-      const employee = await container.userRepository.findById(ctx.session.userId);
+      // Types that skip approval are approved on creation - nothing for managers to review
+      if (absence.status !== AbsenceStatus.PENDING) {
+        return absence;
+      }
 
-      // Notify managers via email about new absence request
+      // Notify whoever decides the first approval step
+      const employee = await container.userRepository.findById(ctx.session.userId);
       if (employee) {
-        // Find managers in the same department or all managers if no department
-        const { users: managers } = await container.userRepository.findAll({
-          department: employee.department || undefined,
-        });
-
-        // Filter to only managers
-        const departmentManagers = managers.filter((u) => u.isManager());
-
-        // Send emails and notifications in parallel for better performance
-        const notificationPromises = departmentManagers.map(async (manager) => {
-          // Send email (non-blocking, log failures)
-          const emailPromise = sendAbsenceRequestEmail(
-            manager.email.value,
-            manager.name,
-            employee.name,
-            input.startDate,
-            input.endDate,
-            input.reason,
-            absence.id
-          ).then((emailResult) => {
-            if (!emailResult.success) {
-              ctx.logger.warn(
-                { managerId: manager.id, error: emailResult.error },
-                'Failed to send absence request email to manager'
-              );
-            }
-          });
-
-          // Create notification
-          const notificationPromise = container.createNotificationUseCase.execute({
-            userId: manager.id,
-            type: 'ABSENCE_PENDING',
-            title: 'New Time Off Request',
-            message: `${employee.name} has requested time off`,
-            data: { absenceId: absence.id, employeeId: ctx.session.userId },
-          });
-
-          return Promise.all([emailPromise, notificationPromise]);
-        });
-
-        // Wait for all parallel operations (use allSettled to not fail on individual errors)
-        await Promise.allSettled(notificationPromises);
+        await notifyCurrentApprovers(ctx.logger, absence, employee.name);
       }
 
       return absence;
@@ -115,25 +173,21 @@ export const absenceRouter = router({
   getAll: managerProcedure
     .input(
       paginationSchema.extend({
-        status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional(),
+        status: z.enum(['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED']).optional(),
+        absenceTypeId: z.string().min(1).optional(),
       })
     )
     .query(async ({ ctx, input }) => {
-      // Get current user to check department
-      const currentUser = await container.userRepository.findById(ctx.session.userId);
-
-      // Determine if we need to filter by department
-      // Only managers (not admins) should be filtered by their department
-      const shouldFilterByDepartment =
-        ctx.session.role === 'MANAGER' &&
-        currentUser?.department;
+      // Managers see the requests of their direct and indirect reports
+      const reportIds = await container.userRepository.findReportIds(ctx.session.userId);
 
       return container.getAbsencesUseCase.execute({
         status: input.status ? AbsenceStatus[input.status] : undefined,
         skip: input.skip,
         take: input.limit,
         includeUser: true,
-        department: shouldFilterByDepartment ? currentUser.department : undefined,
+        userIds: Array.from(reportIds),
+        absenceTypeId: input.absenceTypeId,
       });
     }),
 
@@ -145,60 +199,191 @@ export const absenceRouter = router({
     .input(updateAbsenceStatusSchema)
     .mutation(async ({ ctx, input }) => {
       let result;
-      let notificationType: 'ABSENCE_APPROVED' | 'ABSENCE_REJECTED';
-      let notificationTitle: string;
-      let notificationMessage: string;
 
       if (input.status === 'APPROVED') {
         result = await container.approveAbsenceUseCase.execute({
           absenceId: input.id,
           approverId: ctx.session.userId,
+          comment: input.comment,
         });
-        notificationType = 'ABSENCE_APPROVED';
-        notificationTitle = 'Time Off Approved';
-        notificationMessage = `Your time off request has been approved`;
       } else if (input.status === 'REJECTED') {
         result = await container.rejectAbsenceUseCase.execute({
           absenceId: input.id,
           rejectorId: ctx.session.userId,
+          comment: input.comment ?? '',
         });
-        notificationType = 'ABSENCE_REJECTED';
-        notificationTitle = 'Time Off Rejected';
-        notificationMessage = `Your time off request has been rejected`;
       } else {
         throw new Error('Invalid status');
       }
 
-      // Create notification for the absence request owner
-      await container.createNotificationUseCase.execute({
+      const employee = await container.userRepository.findById(result.userId);
+      const manager = await container.userRepository.findById(ctx.session.userId);
+
+      // An intermediate step passed - tell the owner and hand over to the next step
+      if (result.status === AbsenceStatus.PENDING) {
+        const decided = result.approvalSteps.filter((step) => step.decision === 'APPROVED');
+        await container.dispatchNotificationUseCase.execute({
+          userId: result.userId,
+          type: 'ABSENCE_PENDING',
+          title: 'Time Off Approval Progress',
+          message: `${manager?.name ?? 'An approver'} approved step ${decided.length} of ${result.approvalSteps.length} of your time off request`,
+          data: { absenceId: input.id, comment: input.comment },
+        });
+
+        if (employee) {
+          await notifyCurrentApprovers(ctx.logger, result, employee.name);
+        }
+
+        return result;
+      }
+
+      const approved = result.status === AbsenceStatus.APPROVED;
+
+      // Notify the absence request owner, with the approver's comment
+      await container.dispatchNotificationUseCase.execute({
         userId: result.userId,
-        type: notificationType,
-        title: notificationTitle,
-        message: notificationMessage,
-        data: { absenceId: input.id },
+        type: approved ? 'ABSENCE_APPROVED' : 'ABSENCE_REJECTED',
+        title: approved ? 'Time Off Approved' : 'Time Off Rejected',
+        message: approved
+          ? `Your time off request has been approved${input.comment ? `: "${input.comment}"` : ''}`
+          : `Your time off request has been rejected. Reason: ${input.comment}`,
+        data: { absenceId: input.id, comment: input.comment },
+        email:
+          employee && manager
+            ? renderAbsenceStatusEmail(
+                employee.name,
+                approved ? 'approved' : 'rejected',
+                result.startDate,
+                result.endDate,
+                manager.name,
+                input.comment
+              )
+            : undefined,
       });
 
-      // Send email notification to the employee about status change
-      const employee = await container.userRepository.findById(result.userId);
-      const manager = await container.userRepository.findById(ctx.session.userId);
+      return result;
+    }),
+
+  /**
+   * Pending requests the current user can decide now, including approval steps
+   * outside their own reporting line (e.g. HR)
+   */
+  getApprovalQueue: managerProcedure
+    .input(z.object({ absenceTypeId: z.string().min(1).optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      return container.getApprovalQueueUseCase.execute({
+        approverId: ctx.session.userId,
+        absenceTypeId: input?.absenceTypeId,
+      });
+    }),
 
-      if (employee && manager) {
-        const emailResult = await sendAbsenceStatusEmail(
-          employee.email.value,
-          employee.name,
-          input.status === 'APPROVED' ? 'approved' : 'rejected',
-          result.startDate,
-          result.endDate,
-          manager.name
-        );
-        if (!emailResult.success) {
-          ctx.logger.warn(
-            { employeeId: result.userId, error: emailResult.error },
-            'Failed to send absence status email'
-          );
+  /**
+   * Edit the dates, part of day or reason of a pending request
+   * The approval chain restarts, so its first approvers are asked again
+   */
+  update: protectedProcedure
+    .input(updateAbsenceSchema)
+    .mutation(async ({ ctx, input }) => {
+      const absence = await container.updateAbsenceUseCase.execute({
+        absenceId: input.id,
+        editorId: ctx.session.userId,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        dayPart: AbsenceDayPart[input.dayPart],
+        startTime: input.startTime,
+        endTime: input.endTime,
+        reason: input.reason,
+      });
+
+      await auditAbsenceOperation(getAuditContext(ctx.session, ctx.req), 'UPDATE_ABSENCE', absence.id, {
+        ownerId: absence.userId,
+        startDate: absence.startDate,
+        endDate: absence.endDate,
+        dayPart: absence.dayPart,
+      });
+
+      if (absence.status === AbsenceStatus.PENDING) {
+        const employee = await container.userRepository.findById(absence.userId);
+        if (employee) {
+          await notifyCurrentApprovers(ctx.logger, absence, employee.name);
         }
       }
 
+      return absence;
+    }),
+
+  /**
+   * Ask to withdraw approved leave; goes back to whoever approved it
+   */
+  requestCancellation: protectedProcedure
+    .input(requestAbsenceCancellationSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { absence, approvers } = await container.requestAbsenceCancellationUseCase.execute({
+        absenceId: input.id,
+        userId: ctx.session.userId,
+        reason: input.reason,
+      });
+
+      await auditAbsenceOperation(
+        getAuditContext(ctx.session, ctx.req),
+        'REQUEST_ABSENCE_CANCELLATION',
+        absence.id,
+        { reason: input.reason }
+      );
+
+      const employee = await container.userRepository.findById(ctx.session.userId);
+      await Promise.allSettled(
+        approvers.map((approver) =>
+          container.dispatchNotificationUseCase.execute({
+            userId: approver.id,
+            type: 'ABSENCE_CANCELLATION_REQUESTED',
+            title: 'Time Off Cancellation Request',
+            message: `${employee?.name ?? 'An employee'} wants to cancel approved time off. Reason: ${input.reason}`,
+            data: { absenceId: absence.id, employeeId: absence.userId },
+          })
+        )
+      );
+
+      if (approvers.length === 0) {
+        ctx.logger.warn({ absenceId: absence.id }, 'No approver found for absence cancellation');
+      }
+
+      return absence;
+    }),
+
+  /**
+   * Accept or decline a cancellation request (manager-only)
+   */
+  reviewCancellation: managerProcedure
+    .input(reviewAbsenceCancellationSchema)
+    .mutation(async ({ ctx, input }) => {
+      const result = await container.reviewAbsenceCancellationUseCase.execute({
+        absenceId: input.id,
+        approverId: ctx.session.userId,
+        decision: input.decision,
+        comment: input.comment,
+      });
+
+      const cancelled = result.status === AbsenceStatus.CANCELLED;
+
+      // A declined cancellation leaves the leave approved, so it is recorded as a decision only
+      await auditAbsenceOperation(
+        getAuditContext(ctx.session, ctx.req),
+        cancelled ? 'CANCEL_ABSENCE' : 'UPDATE_ABSENCE_STATUS',
+        result.id,
+        { ownerId: result.userId, cancellation: input.decision, comment: input.comment }
+      );
+
+      await container.dispatchNotificationUseCase.execute({
+        userId: result.userId,
+        type: cancelled ? 'ABSENCE_CANCELLED' : 'ABSENCE_CANCELLATION_REJECTED',
+        title: cancelled ? 'Time Off Cancelled' : 'Time Off Cancellation Declined',
+        message: cancelled
+          ? `Your time off has been cancelled${input.comment ? `: "${input.comment}"` : ''}`
+          : `Your request to cancel time off was declined. Reason: ${input.comment}`,
+        data: { absenceId: result.id, comment: input.comment },
+      });
+
       return result;
     }),
 
@@ -216,28 +401,180 @@ export const absenceRouter = router({
     }),
 
   /**
-   * Get absence statistics for current user
+   * Get absence statistics for current user, including this year's leave balance
    */
   getMyStats: protectedProcedure.query(async ({ ctx }) => {
-    return container.getAbsenceStatisticsUseCase.execute({
-      userId: ctx.session.userId,
+    const [stats, balance] = await Promise.all([
+      container.getAbsenceStatisticsUseCase.execute({
+        userId: ctx.session.userId,
+      }),
+      container.getLeaveBalanceUseCase.execute({
+        userId: ctx.session.userId,
+      }),
+    ]);
+
+    return { ...stats, balance };
+  }),
+
+  /**
+   * Get a user's leave balance for a year
+   * Users can see their own balance, managers can see everyone's
+   */
+  getBalance: protectedProcedure
+    .input(
+      z.object({
+        userId: z.string().cuid(),
+        year: z.number().int().min(2000).max(2100).optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      if (input.userId !== ctx.session.userId && ctx.session.role !== 'MANAGER') {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to view this leave balance',
+        });
+      }
+
+      return container.getLeaveBalanceUseCase.execute({
+        userId: input.userId,
+        year: input.year,
+      });
+    }),
+
+  /**
+   * Override a user's yearly allowance (manager-only)
+   */
+  setAllowance: managerProcedure
+    .input(updateLeaveAllowanceSchema)
+    .mutation(async ({ ctx, input }) => {
+      return container.updateLeaveAllowanceUseCase.execute({
+        userId: input.userId,
+        requesterId: ctx.session.userId,
+        year: input.year,
+        annualAllowance: input.annualAllowance,
+      });
+    }),
+
+  /**
+   * Get the organization's leave policy (defaults applied)
+   */
+  getLeavePolicy: protectedProcedure.query(async ({ ctx }) => {
+    const result = await container.getOrganizationSettingsUseCase.execute({
+      organizationId: ctx.session.organizationId,
+    });
+    return LeavePolicy.fromSettings(result?.settings.leavePolicy).toObject();
+  }),
+
+  /**
+   * Update the organization's leave policy (manager-only)
+   */
+  updateLeavePolicy: managerProcedure
+    .input(leavePolicySchema)
+    .mutation(async ({ ctx, input }) => {
+      await container.updateOrganizationSettingsUseCase.execute({
+        organizationId: ctx.session.organizationId,
+        settings: { leavePolicy: input },
+      });
+      return input;
+    }),
+
+  /**
+   * Get the organization's default approval workflow (defaults applied)
+   */
+  getApprovalWorkflow: protectedProcedure.query(async ({ ctx }) => {
+    const result = await container.getOrganizationSettingsUseCase.execute({
+      organizationId: ctx.session.organizationId,
+    });
+    return ApprovalWorkflow.fromSettings(result?.settings.approvalWorkflow).toObject();
+  }),
+
+  /**
+   * Update the approval workflow of the organization or one absence type (manager-only)
+   */
+  updateApprovalWorkflow: managerProcedure
+    .input(updateApprovalWorkflowSchema)
+    .mutation(async ({ ctx, input }) => {
+      return container.updateApprovalWorkflowUseCase.execute({
+        requesterId: ctx.session.userId,
+        absenceTypeId: input.absenceTypeId,
+        steps: input.steps?.map((step) => ({
+          ...step,
+          approverType: ApproverType[step.approverType],
+        })) ?? null,
+      });
+    }),
+
+  /**
+   * Get the organization's minimum-staffing rules per department
+   */
+  getStaffingRules: protectedProcedure.query(async ({ ctx }) => {
+    const result = await container.getOrganizationSettingsUseCase.execute({
+      organizationId: ctx.session.organizationId,
     });
+    return StaffingPolicy.fromSettings(result?.settings.staffingRules).toObject();
   }),
 
+  /**
+   * Replace the organization's minimum-staffing rules (manager-only)
+   */
+  updateStaffingRules: managerProcedure
+    .input(staffingRulesSchema)
+    .mutation(async ({ ctx, input }) => {
+      const policy = StaffingPolicy.create(input);
+      await container.updateOrganizationSettingsUseCase.execute({
+        organizationId: ctx.session.organizationId,
+        settings: { staffingRules: policy.toObject() },
+      });
+      return policy.toObject();
+    }),
+
+  /**
+   * How many people of a department are present on each working day
+   * Employees can only look at their own department
+   */
+  getTeamCoverage: protectedProcedure
+    .input(teamCoverageSchema)
+    .query(async ({ ctx, input }) => {
+      if (input.department && ctx.session.role !== 'MANAGER') {
+        const user = await container.userRepository.findById(ctx.session.userId);
+        if (user?.department?.toLowerCase() !== input.department.toLowerCase()) {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: "Only managers can view other departments' coverage",
+          });
+        }
+      }
+
+      return container.getTeamCoverageUseCase.execute({
+        userId: ctx.session.userId,
+        department: input.department,
+        startDate: input.startDate,
+        endDate: input.endDate,
+      });
+    }),
+
   /**
    * Get all upcoming absences (for calendar view)
    * Uses optimized repository query that filters by date at database level
    */
   getUpcoming: protectedProcedure.query(async () => {
     // Use repository's optimized findUpcoming() instead of fetching all and filtering in-memory
-    const absences = await container.absenceRepository.findUpcoming(10);
+    const [absences, types] = await Promise.all([
+      container.absenceRepository.findUpcoming(10),
+      container.absenceTypeRepository.findAll({ includeDeleted: true }),
+    ]);
+    const typesById = new Map(types.map((t) => [t.id, toAbsenceTypeSummaryDTO(t)]));
 
     return absences.map((absence) => ({
       id: absence.id,
       userId: absence.userId,
       startDate: absence.dateRange.start,
       endDate: absence.dateRange.end,
+      dayPart: absence.dayPart.type,
+      startTime: absence.dayPart.startTime,
+      endTime: absence.dayPart.endTime,
       reason: absence.reason,
+      absenceType: absence.absenceTypeId ? typesById.get(absence.absenceTypeId) : undefined,
       status: absence.status,
       workingDays: absence.getWorkingDays(),
       totalDays: absence.getTotalDays(),
@@ -262,6 +262,63 @@ export const adminRouter = router({
       return organization;
     }),
 
+  /**
+   * Disclose who gave anonymous feedback, e.g. for a harassment investigation
+   * The disclosure is written to the audit log before the giver is returned
+   */
+  revealFeedbackGiver: superAdminProcedure
+    .input(
+      z.object({
+        feedbackId: z.string().cuid(),
+        reason: z.string().trim().min(10, 'Explain why the giver must be disclosed').max(500),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const feedback = await ctx.prisma.feedback.findUnique({
+        where: { id: input.feedbackId },
+        select: {
+          id: true,
+          organizationId: true,
+          visibility: true,
+          giver: { select: { id: true, name: true, email: true } },
+        },
+      });
+
+      if (!feedback) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Feedback not found' });
+      }
+
+      if (feedback.visibility !== 'ANONYMOUS') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Only anonymous feedback has a hidden giver',
+        });
+      }
+
+      // Unlike createAuditLog, a failed write here must stop the disclosure
+      await ctx.prisma.auditLog.create({
+        data: {
+          organizationId: feedback.organizationId,
+          action: 'REVEAL_FEEDBACK_GIVER',
+          entityType: 'FEEDBACK',
+          entityId: feedback.id,
+          userId: ctx.session.userId,
+          userEmail: ctx.session.email,
+          userRole: ctx.session.role,
+          ipAddress: ctx.req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown',
+          userAgent: ctx.req.headers.get('user-agent') || undefined,
+          metadata: { reason: input.reason, giverId: feedback.giver.id },
+        },
+      });
+
+      ctx.logger.warn(
+        { feedbackId: feedback.id, performedBy: ctx.session.email },
+        'Anonymous feedback giver revealed'
+      );
+
+      return feedback.giver;
+    }),
+
   // Get recent activity across platform
   getRecentActivity: superAdminProcedure
     .input(
@@ -18,14 +18,33 @@ import {
   sendPasswordResetEmail as sendPasswordResetEmailService,
   sendWelcomeEmail as sendWelcomeEmailService,
   sendInvitationEmail as sendInvitationEmailService,
+  sendTrustedDeviceEmail as sendTrustedDeviceEmailService,
 } from '@/lib/email/send-emails';
+import { formatUserAgent } from '@/lib/labels';
 import { checkTrustedDevice, createTrustedDevice } from '@/lib/auth/trusted-devices';
+import { getUserSessions, revokeOtherSessions, revokeSession } from '@/lib/auth/sessions';
+import { isSsoEnforced } from '@/lib/auth/sso-login';
+import {
+  clearPasswordVerified,
+  getPasswordVerifiedUserId,
+  markPasswordVerified,
+} from '@/lib/auth/password-step';
+import {
+  createPasskeyAuthenticationOptions,
+  isPasskeyRequiredForManagers,
+  isPhishingResistantSession,
+  verifyPasskeyAuthentication,
+} from '@/lib/auth/passkeys';
+import { passkeyAuthenticationResponseSchema } from '@/lib/validations/passkey';
 
 // Token expiration times
 const EMAIL_VERIFICATION_EXPIRY = 24 * 60 * 60 * 1000; // 24 hours
 const PASSWORD_RESET_EXPIRY = 1 * 60 * 60 * 1000; // 1 hour
 const INVITATION_EXPIRY = 7 * 24 * 60 * 60 * 1000; // 7 days
 
+// Recorded in place of an email for failed passkey logins with an unknown passkey
+const UNKNOWN_PASSKEY_ATTEMPT = 'unknown-passkey';
+
 /**
  * Get client IP and user agent from request
  */
@@ -212,6 +231,7 @@ export const authRouter = router({
           emailVerified: true,
           status: true,
           twoFactorEnabled: true,
+          _count: { select: { passkeyCredentials: true } },
           organizationId: true,
           organization: {
             select: {
@@ -256,6 +276,16 @@ export const authRouter = router({
         });
       }
 
+      // Organizations that enforce SSO only let members in through their identity provider
+      if (await isSsoEnforced(user.organizationId)) {
+        ctx.logger.warn({ email: input.email }, 'Login failed: organization requires SSO');
+        logAuthEvent('login_failed', user.id, { email: input.email, reason: 'sso_required' });
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Your organization requires single sign-on. Sign in with SSO instead.',
+        });
+      }
+
       // Check if email is verified
       if (!user.emailVerified) {
         ctx.logger.warn({ email: input.email }, 'Login failed: email not verified');
@@ -278,10 +308,13 @@ export const authRouter = router({
           // Skip 2FA and proceed to create session
         } else {
           ctx.logger.info({ userId: user.id }, 'Password verified, 2FA required');
+          // The second factor is only accepted from the browser that gave the password
+          await markPasswordVerified(user.id);
           return {
             requiresTwoFactor: true,
             email: user.email,
             userId: user.id,
+            hasPasskey: user._count.passkeyCredentials > 0,
           };
         }
       }
@@ -322,20 +355,83 @@ export const authRouter = router({
     }),
 
   /**
-   * Verify two-factor authentication code
+   * Start using a passkey in place of the authenticator code
+   * Returns options for the browser's WebAuthn API, limited to the user's passkeys
+   *
+   * Business Rules:
+   * - Only issued to the browser that passed the password step for this email, so
+   *   nobody can list an account's passkeys or learn whether it has any
+   * - The response looks the same whether or not the user has passkeys
+   */
+  getTwoFactorPasskeyOptions: publicProcedure
+    .input(z.object({ email: z.string().email() }))
+    .mutation(async ({ ctx, input }) => {
+      const { ipAddress } = getClientInfo(ctx.req);
+
+      const rateLimitResult = await checkRateLimit(ipAddress, 'auth');
+      if (!rateLimitResult.success) {
+        throw new TRPCError({
+          code: 'TOO_MANY_REQUESTS',
+          message: 'Too many login attempts. Please try again later.',
+        });
+      }
+
+      const verifiedUserId = await getPasswordVerifiedUserId();
+      const user = verifiedUserId
+        ? await ctx.prisma.user.findFirst({
+            where: {
+              id: verifiedUserId,
+              email: input.email,
+              deletedAt: null,
+              twoFactorEnabled: true,
+            },
+            select: { id: true, organizationId: true },
+          })
+        : null;
+
+      if (!user) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Your sign-in has expired. Please enter your password again.',
+        });
+      }
+
+      if (await isSsoEnforced(user.organizationId)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Your organization requires single sign-on. Sign in with SSO instead.',
+        });
+      }
+
+      return createPasskeyAuthenticationOptions('two_factor', user.id);
+    }),
+
+  /**
+   * Verify two-factor authentication code, or a passkey in its place
    * Completes the login process after password verification
+   *
+   * Business Rules:
+   * - Only accepted from the browser that passed the password step for this user, shortly before
+   * - Organizations that enforce SSO only let members in through their identity provider
    */
   verifyTwoFactor: publicProcedure
     .input(
-      z.object({
-        email: z.string().email(),
-        code: z.string().min(1),
-        isBackupCode: z.boolean().default(false),
-        trustDevice: z.boolean().default(false),
-      })
+      z
+        .object({
+          email: z.string().email(),
+          code: z.string().min(1).optional(),
+          isBackupCode: z.boolean().default(false),
+          trustDevice: z.boolean().default(false),
+          passkey: passkeyAuthenticationResponseSchema.optional(),
+        })
+        .refine((input) => input.code || input.passkey, {
+          message: 'Enter a verification code or use a passkey',
+          path: ['code'],
+        })
     )
     .mutation(async ({ ctx, input }) => {
       const { ipAddress, userAgent } = getClientInfo(ctx.req);
+      const code = input.code ?? '';
 
       ctx.logger.info({ email: input.email }, '2FA verification attempt');
 
@@ -375,9 +471,41 @@ export const authRouter = router({
         });
       }
 
+      // A second factor is never enough on its own - the password must have come first
+      if ((await getPasswordVerifiedUserId()) !== user.id) {
+        ctx.logger.warn({ userId: user.id }, '2FA verification failed: password step missing or expired');
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Your sign-in has expired. Please enter your password again.',
+        });
+      }
+
+      if (await isSsoEnforced(user.organizationId)) {
+        ctx.logger.warn({ userId: user.id }, '2FA verification failed: organization requires SSO');
+        logAuthEvent('login_failed', user.id, { email: user.email, reason: 'sso_required' });
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Your organization requires single sign-on. Sign in with SSO instead.',
+        });
+      }
+
+      // Failed codes and passkeys count towards the same lockout as failed passwords
+      const lockoutStatus = await checkAccountLockout(user.email);
+      if (lockoutStatus.isLocked) {
+        ctx.logger.warn({ userId: user.id }, '2FA verification blocked: account locked');
+        throw new TRPCError({
+          code: 'TOO_MANY_REQUESTS',
+          message: 'Account temporarily locked due to too many failed login attempts. Please try again later.',
+        });
+      }
+
       let verified = false;
 
-      if (input.isBackupCode) {
+      if (input.passkey) {
+        // The passkey must be one of this user's, answering the challenge issued for them
+        const passkeyUserId = await verifyPasskeyAuthentication('two_factor', input.passkey);
+        verified = passkeyUserId === user.id;
+      } else if (input.isBackupCode) {
         // Verify backup code
         if (!user.backupCodes || user.backupCodes.length === 0) {
           throw new TRPCError({
@@ -387,7 +515,7 @@ export const authRouter = router({
         }
 
         const { verifyBackupCode } = await import('@/lib/auth/two-factor');
-        const { valid, index } = await verifyBackupCode(input.code, user.backupCodes);
+        const { valid, index } = await verifyBackupCode(code, user.backupCodes);
 
         if (valid) {
           verified = true;
@@ -413,17 +541,25 @@ export const authRouter = router({
         const { verifyTOTP } = await import('@/lib/auth/two-factor');
 
         const secret = decrypt(user.twoFactorSecret);
-        verified = verifyTOTP(input.code, secret);
+        verified = verifyTOTP(code, secret);
       }
 
       if (!verified) {
+        await recordLoginAttempt(user.email, false, ipAddress, userAgent);
+
         ctx.logger.warn({ userId: user.id }, '2FA verification failed: invalid code');
+        logAuthEvent('login_failed', user.id, {
+          email: user.email,
+          reason: input.passkey ? 'invalid_passkey' : 'invalid_two_factor_code',
+        });
         throw new TRPCError({
           code: 'UNAUTHORIZED',
-          message: 'Invalid verification code',
+          message: input.passkey ? 'Passkey verification failed' : 'Invalid verification code',
         });
       }
 
+      await clearPasswordVerified();
+
       // Update last login time
       await ctx.prisma.user.update({
         where: { id: user.id },
@@ -432,8 +568,20 @@ export const authRouter = router({
 
       // Create trusted device if requested
       if (input.trustDevice) {
-        await createTrustedDevice(user.id, userAgent);
+        const { expiresAt } = await createTrustedDevice(user.id, userAgent);
         ctx.logger.info({ userId: user.id }, 'Device marked as trusted');
+
+        // Let the user know, in case it was not them
+        const emailResult = await sendTrustedDeviceEmailService(
+          user.email,
+          user.name,
+          formatUserAgent(userAgent),
+          ipAddress === 'unknown' ? undefined : ipAddress,
+          expiresAt
+        );
+        if (!emailResult.success) {
+          ctx.logger.warn({ userId: user.id, error: emailResult.error }, 'Failed to send trusted device email');
+        }
       }
 
       // Create session
@@ -442,7 +590,8 @@ export const authRouter = router({
         user.email,
         user.role,
         user.organizationId,
-        user.organization.slug
+        user.organization.slug,
+        input.passkey ? 'passkey' : undefined
       );
 
       // Log successful login
@@ -451,6 +600,7 @@ export const authRouter = router({
       await auditAuthEvent('LOGIN_SUCCESS', user.id, user.email, ipAddress, userAgent, {
         organizationId: user.organizationId,
         twoFactorUsed: true,
+        passkeyUsed: !!input.passkey,
         deviceTrusted: input.trustDevice,
       });
 
@@ -466,6 +616,154 @@ export const authRouter = router({
       };
     }),
 
+  /**
+   * Start a passwordless login with a passkey
+   * Returns options for the browser's WebAuthn API - any passkey saved for this site may answer
+   */
+  getPasskeyLoginOptions: publicProcedure.mutation(async ({ ctx }) => {
+    const { ipAddress } = getClientInfo(ctx.req);
+
+    const rateLimitResult = await checkRateLimit(ipAddress, 'auth');
+    if (!rateLimitResult.success) {
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: 'Too many login attempts. Please try again later.',
+      });
+    }
+
+    return createPasskeyAuthenticationOptions('login');
+  }),
+
+  /**
+   * Login with a passkey, without a password
+   *
+   * Business Rules:
+   * - The passkey verifies the user itself (fingerprint, face or PIN), so 2FA is not asked for
+   * - Organizations that enforce SSO only let members in through their identity provider
+   */
+  loginWithPasskey: publicProcedure
+    .input(z.object({ response: passkeyAuthenticationResponseSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const { ipAddress, userAgent } = getClientInfo(ctx.req);
+
+      const rateLimitResult = await checkRateLimit(ipAddress, 'auth');
+      if (!rateLimitResult.success) {
+        throw new TRPCError({
+          code: 'TOO_MANY_REQUESTS',
+          message: 'Too many login attempts. Please try again later.',
+        });
+      }
+
+      const ipLocked = await checkIpLockout(ipAddress);
+      if (ipLocked) {
+        ctx.logger.warn({ ipAddress }, 'IP address temporarily blocked');
+        throw new TRPCError({
+          code: 'TOO_MANY_REQUESTS',
+          message: 'Too many login attempts from this IP. Please try again later.',
+        });
+      }
+
+      const userId = await verifyPasskeyAuthentication('login', input.response);
+
+      const user = userId
+        ? await ctx.prisma.user.findFirst({
+            where: {
+              id: userId,
+              deletedAt: null,
+            },
+            select: {
+              id: true,
+              email: true,
+              name: true,
+              role: true,
+              organizationId: true,
+              organization: {
+                select: {
+                  id: true,
+                  name: true,
+                  slug: true,
+                },
+              },
+              department: true,
+              title: true,
+              avatar: true,
+            },
+          })
+        : null;
+
+      if (!user) {
+        // Count the failure against the passkey's account when it is known, and always
+        // against the IP address, like a failed password
+        const credential = await ctx.prisma.passkeyCredential.findUnique({
+          where: { credentialId: input.response.id },
+          select: { user: { select: { email: true } } },
+        });
+        await recordLoginAttempt(
+          credential?.user.email ?? UNKNOWN_PASSKEY_ATTEMPT,
+          false,
+          ipAddress,
+          userAgent
+        );
+
+        ctx.logger.warn('Passkey login failed: passkey did not verify');
+        logAuthEvent('login_failed', userId ?? undefined, { reason: 'invalid_passkey' });
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Passkey sign-in failed. Please try again.',
+        });
+      }
+
+      const lockoutStatus = await checkAccountLockout(user.email);
+      if (lockoutStatus.isLocked) {
+        ctx.logger.warn({ userId: user.id }, 'Passkey login blocked: account locked');
+        throw new TRPCError({
+          code: 'TOO_MANY_REQUESTS',
+          message: 'Account temporarily locked due to too many failed login attempts. Please try again later.',
+        });
+      }
+
+      if (await isSsoEnforced(user.organizationId)) {
+        ctx.logger.warn({ userId: user.id }, 'Passkey login failed: organization requires SSO');
+        logAuthEvent('login_failed', user.id, { email: user.email, reason: 'sso_required' });
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Your organization requires single sign-on. Sign in with SSO instead.',
+        });
+      }
+
+      await ctx.prisma.user.update({
+        where: { id: user.id },
+        data: { lastLoginAt: new Date() },
+      });
+
+      await createSession(
+        user.id,
+        user.email,
+        user.role,
+        user.organizationId,
+        user.organization.slug,
+        'passkey'
+      );
+
+      ctx.logger.info({ userId: user.id, role: user.role, organizationId: user.organizationId }, 'Passkey login successful');
+      logAuthEvent('login_success', user.id, { email: user.email, role: user.role, passkey: true });
+      await auditAuthEvent('LOGIN_SUCCESS', user.id, user.email, ipAddress, userAgent, {
+        organizationId: user.organizationId,
+        passkeyUsed: true,
+      });
+
+      return {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        department: user.department,
+        title: user.title,
+        avatar: user.avatar,
+        organization: user.organization,
+      };
+    }),
+
   /**
    * Verify email with token
    */
@@ -1080,10 +1378,18 @@ export const authRouter = router({
         ctx.session.userId
       );
 
+      // Managers whose organization requires a passkey sign-in they have not made are
+      // limited to their own account until they make one
+      const mustSignInWithPasskey =
+        ctx.session.role === 'MANAGER' &&
+        !isPhishingResistantSession(ctx.session) &&
+        (await isPasskeyRequiredForManagers(ctx.session.organizationId));
+
       // Return user with current session role (may differ from DB role for demo)
       return {
         ...user,
         role: ctx.session.role,
+        mustSignInWithPasskey,
       };
     }),
 
@@ -1256,4 +1562,60 @@ export const authRouter = router({
 
       return { success: true };
     }),
+
+  /**
+   * List the current user's active sessions, marking the one making the request
+   */
+  getSessions: protectedProcedure.query(async ({ ctx }) => {
+    return getUserSessions(ctx.session.userId, ctx.session.sessionToken);
+  }),
+
+  /**
+   * Sign out one of the current user's other sessions
+   */
+  revokeSession: protectedProcedure
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { ipAddress, userAgent } = getClientInfo(ctx.req);
+      const sessions = await getUserSessions(ctx.session.userId, ctx.session.sessionToken);
+
+      if (sessions.find((session) => session.id === input.id)?.isCurrent) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Use log out to end your current session',
+        });
+      }
+
+      const count = await revokeSession(input.id, ctx.session.userId);
+      if (count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Session not found',
+        });
+      }
+
+      ctx.logger.info({ sessionId: input.id }, 'Session revoked');
+      await auditAuthEvent('LOGOUT', ctx.session.userId, ctx.session.email, ipAddress, userAgent, {
+        action: 'session_revoked',
+        sessionId: input.id,
+      });
+
+      return { success: true };
+    }),
+
+  /**
+   * Sign out every session of the current user except this one
+   */
+  revokeOtherSessions: protectedProcedure.mutation(async ({ ctx }) => {
+    const { ipAddress, userAgent } = getClientInfo(ctx.req);
+    const count = await revokeOtherSessions(ctx.session.userId, ctx.session.sessionToken);
+
+    ctx.logger.info({ count }, 'Other sessions revoked');
+    await auditAuthEvent('LOGOUT', ctx.session.userId, ctx.session.email, ipAddress, userAgent, {
+      action: 'other_sessions_revoked',
+      count,
+    });
+
+    return { count };
+  }),
 });
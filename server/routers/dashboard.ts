@@ -105,12 +105,16 @@ export const dashboardRouter = router({
 
   /**
    * Get feedback statistics for charts
-   * Returns polished vs unpolished feedback counts
+   * Returns polished vs unpolished counts, and the breakdown by type and competency
    */
   getFeedbackStats: protectedProcedure.query(async ({ ctx }) => {
-    const metrics = await container.getDashboardMetricsUseCase.execute({
-      userId: ctx.session.userId,
-    });
+    const [metrics, breakdown] = await Promise.all([
+      container.getDashboardMetricsUseCase.execute({ userId: ctx.session.userId }),
+      container.getFeedbackBreakdownUseCase.execute({
+        userId: ctx.session.userId,
+        targetUserId: ctx.session.userId,
+      }),
+    ]);
 
     const polished = metrics.feedback.polishedCount;
     const total = metrics.feedback.totalReceived;
@@ -120,12 +124,13 @@ export const dashboardRouter = router({
       polished,
       unpolished,
       total,
+      ...breakdown,
     };
   }),
 
   /**
    * Get absence statistics for charts
-   * Returns breakdown by status
+   * Returns breakdown by status and by absence type
    */
   getAbsenceStats: protectedProcedure.query(async ({ ctx }) => {
     const stats = await container.getAbsenceStatisticsUseCase.execute({
@@ -137,6 +142,7 @@ export const dashboardRouter = router({
       approved: stats.approvedDays,
       rejected: stats.rejectedRequests,
       total: stats.totalRequests,
+      byType: stats.byType,
     };
   }),
 
@@ -1,13 +1,95 @@
 import { z } from 'zod';
-import { router, protectedProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import { router, protectedProcedure, managerProcedure } from '../trpc';
 import {
   feedbackSchema,
+  feedbackTypeSchema,
+  feedbackVisibilitySchema,
+  feedbackCompetenciesSchema,
+  competencyFrameworkSchema,
   polishFeedbackSchema,
+  aiProviderSchema,
+  feedbackScreeningPolicySchema,
+  screenFeedbackSchema,
+  moderateFeedbackSchema,
+  editFeedbackSchema,
+  feedbackReplySchema,
   deleteFeedbackSchema,
   getFeedbackForUserSchema,
+  summarizeFeedbackSchema,
+  requestFeedbackSchema,
+  declineFeedbackRequestSchema,
 } from '@/lib/validations/feedback';
 import { container } from '@/src/infrastructure/di/container';
-import { sendFeedbackReceivedEmail } from '@/lib/email/send-emails';
+import {
+  FeedbackModerationStatus,
+  FeedbackReplyKind,
+  FeedbackType,
+  FeedbackVisibility,
+} from '@/src/domain/entities/Feedback';
+import { CompetencyFramework } from '@/src/domain/value-objects/CompetencyFramework';
+import type { FeedbackDTO } from '@/src/application/dtos/FeedbackDTO';
+import { renderFeedbackReceivedEmail, renderFeedbackRequestEmail } from '@/lib/email/send-emails';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { openPolishToken, sealPolishToken } from '@/lib/ai/polish-token';
+import type { Logger } from 'pino';
+
+/**
+ * Tell the receiver about feedback on the channels they chose
+ * Manager-only notes are not announced; anonymous feedback is announced without
+ * the giver's name
+ */
+async function notifyFeedbackReceived(feedback: FeedbackDTO, requestId?: string) {
+  if (feedback.visibility === FeedbackVisibility.MANAGER_ONLY) {
+    return;
+  }
+
+  const isAnonymous = feedback.visibility === FeedbackVisibility.ANONYMOUS;
+  const [giver, receiver] = await Promise.all([
+    isAnonymous ? null : container.userRepository.findById(feedback.giverId),
+    container.userRepository.findById(feedback.receiverId),
+  ]);
+  const giverName = isAnonymous ? 'An anonymous colleague' : giver?.name ?? 'A colleague';
+
+  await container.dispatchNotificationUseCase.execute({
+    userId: feedback.receiverId,
+    type: 'FEEDBACK_RECEIVED',
+    title: 'New Feedback',
+    message: requestId
+      ? `${giverName} answered your feedback request`
+      : `${giverName} has given you feedback`,
+    data: {
+      feedbackId: feedback.id,
+      ...(!isAnonymous && { giverId: feedback.giverId }),
+      requestId,
+    },
+    email: receiver
+      ? renderFeedbackReceivedEmail(receiver.name, giverName, feedback.content)
+      : undefined,
+  });
+}
+
+/**
+ * Ask the receiver's nearest manager, other than the giver, to moderate flagged feedback
+ * Any manager can still find it in the moderation queue
+ */
+async function notifyModerator(logger: Logger, feedback: FeedbackDTO, giverId: string) {
+  const managers = await container.userRepository.findManagerChain(feedback.receiverId);
+  const moderator = managers.find((manager) => manager.id !== giverId);
+  if (!moderator) {
+    logger.info({ feedbackId: feedback.id }, 'No manager to ask to moderate feedback');
+    return;
+  }
+
+  const receiver = await container.userRepository.findById(feedback.receiverId);
+  await container.dispatchNotificationUseCase.execute({
+    userId: moderator.id,
+    type: 'FEEDBACK_MODERATION',
+    title: 'Feedback Needs Moderation',
+    message: `Feedback for ${receiver?.name ?? 'a colleague'} was flagged and is waiting for your review`,
+    data: { feedbackId: feedback.id, receiverId: feedback.receiverId },
+  });
+}
 
 /**
  * Feedback router for peer feedback management
@@ -19,12 +101,21 @@ import { sendFeedbackReceivedEmail } from '@/lib/email/send-emails';
 export const feedbackRouter = router({
   /**
    * Create new feedback entry
+   * Pass requestId when the feedback answers a feedback request
+   * Manager-only notes are not announced to the receiver; anonymous feedback is
+   * announced without the giver's name; flagged feedback held for moderation is
+   * announced to a manager instead
    */
   create: protectedProcedure
     .input(
       feedbackSchema.extend({
         polishedContent: z.string().optional(),
         isPolished: z.boolean().default(false),
+        polishToken: z.string().optional(), // From polishWithAI, names the provider that polished
+        type: feedbackTypeSchema.default('PRAISE'),
+        competencies: feedbackCompetenciesSchema.default([]),
+        visibility: feedbackVisibilitySchema.default('RECEIVER'),
+        requestId: z.string().cuid('Invalid feedback request ID format').optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -34,39 +125,88 @@ export const feedbackRouter = router({
         content: input.content,
         polishedContent: input.polishedContent,
         isPolished: input.isPolished,
+        polishedBy: openPolishToken(input.polishToken, ctx.session.userId, input.polishedContent),
+        type: FeedbackType[input.type],
+        competencies: input.competencies,
+        visibility: FeedbackVisibility[input.visibility],
+        requestId: input.requestId,
       });
 
-      // Create notification for the receiver
-      const giver = await container.userRepository.findById(ctx.session.userId);
-      const receiver = await container.userRepository.findById(input.receiverId);
+      if (feedback.moderationStatus === FeedbackModerationStatus.PENDING) {
+        await notifyModerator(ctx.logger, feedback, ctx.session.userId);
+      } else {
+        await notifyFeedbackReceived(feedback, input.requestId);
+      }
 
-      if (giver) {
-        await container.createNotificationUseCase.execute({
-          userId: input.receiverId,
-          type: 'FEEDBACK_RECEIVED',
-          title: 'New Feedback',
-          message: `${giver.name} has given you feedback`,
-          data: { feedbackId: feedback.id, giverId: ctx.session.userId },
-        });
+      return feedback;
+    }),
+
+  /**
+   * Ask colleagues for feedback, optionally on a specific question
+   * Each colleague is notified on the channels they chose
+   */
+  requestFeedback: protectedProcedure
+    .input(requestFeedbackSchema)
+    .mutation(async ({ ctx, input }) => {
+      const requests = await container.requestFeedbackUseCase.execute({
+        requesterId: ctx.session.userId,
+        recipientIds: input.recipientIds,
+        prompt: input.prompt,
+        dueDate: input.dueDate,
+      });
+
+      const requester = await container.userRepository.findById(ctx.session.userId);
+      if (requester) {
+        // One colleague's notification or email failing must not fail the others
+        const results = await Promise.allSettled(
+          requests.map(async (request) => {
+            const recipient = await container.userRepository.findById(request.recipientId);
+            await container.dispatchNotificationUseCase.execute({
+              userId: request.recipientId,
+              type: 'FEEDBACK_REQUESTED',
+              title: 'Feedback Requested',
+              message: request.prompt
+                ? `${requester.name} asked for your feedback: "${request.prompt}"`
+                : `${requester.name} asked for your feedback`,
+              data: { requestId: request.id, requesterId: ctx.session.userId },
+              email: recipient
+                ? renderFeedbackRequestEmail(
+                    recipient.name,
+                    requester.name,
+                    request.dueDate,
+                    request.prompt
+                  )
+                : undefined,
+            });
+          })
+        );
 
-        // Send email notification to receiver
-        if (receiver) {
-          const emailResult = await sendFeedbackReceivedEmail(
-            receiver.email.value,
-            receiver.name,
-            giver.name,
-            input.content
-          );
-          if (!emailResult.success) {
-            ctx.logger.warn(
-              { receiverId: input.receiverId, error: emailResult.error },
-              'Failed to send feedback notification email'
-            );
-          }
+        const failed = results.filter((result) => result.status === 'rejected').length;
+        if (failed > 0) {
+          ctx.logger.warn({ failed }, 'Failed to send some feedback request notifications');
         }
       }
 
-      return feedback;
+      return requests;
+    }),
+
+  /**
+   * Get feedback requests the current user has received and sent
+   */
+  getRequests: protectedProcedure.query(async ({ ctx }) => {
+    return container.getFeedbackRequestsUseCase.execute({ userId: ctx.session.userId });
+  }),
+
+  /**
+   * Decline a feedback request sent to the current user
+   */
+  declineRequest: protectedProcedure
+    .input(declineFeedbackRequestSchema)
+    .mutation(async ({ ctx, input }) => {
+      return container.declineFeedbackRequestUseCase.execute({
+        requestId: input.id,
+        userId: ctx.session.userId,
+      });
     }),
 
   /**
@@ -90,7 +230,7 @@ export const feedbackRouter = router({
     const result = await container.getFeedbackUseCase.execute({
       userId: ctx.session.userId,
       targetUserId: ctx.session.userId,
-      asReceiver: false,
+      asGiver: true,
     });
     return result.feedback;
   }),
@@ -108,18 +248,203 @@ export const feedbackRouter = router({
   }),
 
   /**
-   * Polish feedback content using AI
+   * Polish feedback content using the organization's AI provider
    */
   polishWithAI: protectedProcedure
     .input(polishFeedbackSchema)
     .mutation(async ({ ctx, input }) => {
-      return container.polishFeedbackUseCase.execute({
+      const result = await container.polishFeedbackUseCase.execute({
         feedbackId: input.feedbackId,
         content: input.content,
         userId: ctx.session.userId,
+        organizationId: ctx.session.organizationId,
+      });
+
+      // Text polished before the feedback exists carries its provider to create
+      if ('provider' in result && result.provider) {
+        return {
+          ...result,
+          polishToken: sealPolishToken(ctx.session.userId, result.provider, result.polishedContent),
+        };
+      }
+      return result;
+    }),
+
+  /**
+   * Screen feedback for personal attacks, protected characteristics and profanity
+   * before it is submitted, with what the organization's policy asks of the giver
+   */
+  screen: protectedProcedure
+    .input(screenFeedbackSchema)
+    .mutation(async ({ ctx, input }) => {
+      return container.screenFeedbackUseCase.execute({
+        content: input.content,
+        organizationId: ctx.session.organizationId,
+      });
+    }),
+
+  /**
+   * Get flagged feedback waiting for a manager's decision (manager-only)
+   */
+  getModerationQueue: managerProcedure.query(async ({ ctx }) => {
+    const result = await container.getFeedbackUseCase.execute({
+      userId: ctx.session.userId,
+      awaitingModeration: true,
+    });
+    return result.feedback;
+  }),
+
+  /**
+   * Approve or reject flagged feedback (manager-only)
+   * Approved feedback is announced to its receiver; the giver hears about a rejection
+   */
+  moderate: managerProcedure
+    .input(moderateFeedbackSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { feedback, notifyUserId } = await container.moderateFeedbackUseCase.execute({
+        feedbackId: input.id,
+        userId: ctx.session.userId,
+        approve: input.approve,
+      });
+
+      if (input.approve) {
+        await notifyFeedbackReceived(feedback);
+      } else {
+        const receiver = await container.userRepository.findById(feedback.receiverId);
+        await container.dispatchNotificationUseCase.execute({
+          userId: notifyUserId,
+          type: 'FEEDBACK_MODERATION',
+          title: 'Feedback Not Delivered',
+          message: `A manager did not approve the feedback you gave ${receiver?.name ?? 'a colleague'}`,
+          data: { feedbackId: feedback.id },
+        });
+      }
+
+      return feedback;
+    }),
+
+  /**
+   * Edit feedback, keeping the previous version in its revision history
+   * The receiver is told about the edit unless the feedback is a manager-only
+   * note; a manager is asked to moderate it instead when the new text is held back
+   */
+  update: protectedProcedure
+    .input(editFeedbackSchema)
+    .mutation(async ({ ctx, input }) => {
+      const feedback = await container.editFeedbackUseCase.execute({
+        feedbackId: input.id,
+        userId: ctx.session.userId,
+        content: input.content,
+        polishedContent: input.polishedContent,
+      });
+
+      if (feedback.moderationStatus === FeedbackModerationStatus.PENDING) {
+        await notifyModerator(ctx.logger, feedback, ctx.session.userId);
+      } else if (
+        feedback.visibility !== FeedbackVisibility.MANAGER_ONLY &&
+        feedback.receiverId !== ctx.session.userId
+      ) {
+        const editor = await container.userRepository.findById(ctx.session.userId);
+        const isAnonymous =
+          feedback.visibility === FeedbackVisibility.ANONYMOUS &&
+          feedback.giverId === ctx.session.userId;
+
+        await container.dispatchNotificationUseCase.execute({
+          userId: feedback.receiverId,
+          type: 'FEEDBACK_RECEIVED',
+          title: 'Feedback Updated',
+          message: `${isAnonymous ? 'An anonymous colleague' : editor?.name ?? 'Someone'} edited feedback you received`,
+          data: { feedbackId: feedback.id },
+        });
+      }
+
+      return feedback;
+    }),
+
+  /**
+   * Reply to feedback or acknowledge it
+   * The other side of the thread is notified
+   */
+  reply: protectedProcedure
+    .input(feedbackReplySchema)
+    .mutation(async ({ ctx, input }) => {
+      const { reply, notifyUserId, isAuthorAnonymous } =
+        await container.replyToFeedbackUseCase.execute({
+          feedbackId: input.feedbackId,
+          userId: ctx.session.userId,
+          kind: FeedbackReplyKind[input.kind],
+          content: input.content,
+        });
+
+      const author = await container.userRepository.findById(ctx.session.userId);
+      const authorName = isAuthorAnonymous ? 'An anonymous colleague' : author?.name ?? 'Someone';
+      const isAcknowledgement = reply.kind === FeedbackReplyKind.ACKNOWLEDGEMENT;
+
+      await container.dispatchNotificationUseCase.execute({
+        userId: notifyUserId,
+        type: 'FEEDBACK_REPLY',
+        title: isAcknowledgement ? 'Feedback Acknowledged' : 'Feedback Reply',
+        message: isAcknowledgement
+          ? `${authorName} acknowledged your feedback`
+          : `${authorName} replied in your feedback thread`,
+        data: { feedbackId: input.feedbackId, replyId: reply.id },
+      });
+
+      return reply;
+    }),
+
+  /**
+   * Get the cached summary of a user's feedback for a period (manager-only)
+   * Returns null when there is none or the feedback has changed since
+   */
+  getSummary: managerProcedure
+    .input(summarizeFeedbackSchema)
+    .query(async ({ ctx, input }) => {
+      return container.summarizeFeedbackUseCase.execute({
+        userId: ctx.session.userId,
+        targetUserId: input.userId,
+        from: input.from,
+        to: input.to,
+        cachedOnly: true,
       });
     }),
 
+  /**
+   * Summarize a user's feedback for a period with AI (manager-only)
+   * A current cached summary is returned as is; generating a new one counts
+   * against the AI rate limit
+   */
+  summarize: managerProcedure
+    .input(summarizeFeedbackSchema)
+    .mutation(async ({ ctx, input }) => {
+      const request = {
+        userId: ctx.session.userId,
+        targetUserId: input.userId,
+        from: input.from,
+        to: input.to,
+      };
+
+      const cached = await container.summarizeFeedbackUseCase.execute({
+        ...request,
+        cachedOnly: true,
+      });
+      if (cached) {
+        return cached;
+      }
+
+      const rateLimitResult = await checkRateLimit(`user:${ctx.session.userId}`, 'ai');
+      if (!rateLimitResult.success) {
+        ctx.logger.warn({ userId: ctx.session.userId }, 'AI rate limit exceeded');
+        throw new TRPCError({
+          code: 'TOO_MANY_REQUESTS',
+          message: `Too many AI requests. Try again in ${Math.ceil((rateLimitResult.reset - Date.now()) / 60000)} minutes.`,
+        });
+      }
+
+      // Always generates: the cache was just found stale
+      return container.summarizeFeedbackUseCase.execute(request);
+    }),
+
   /**
    * Delete feedback entry
    */
@@ -134,21 +459,118 @@ export const feedbackRouter = router({
     }),
 
   /**
-   * Get feedback statistics for a user
-   * Note: This is available through GetDashboardMetricsUseCase
+   * Get feedback statistics for a user, broken down by type and competency
+   * Note: Counts are available through GetDashboardMetricsUseCase
    */
   getStats: protectedProcedure
     .input(z.object({ userId: z.string().cuid() }))
     .query(async ({ ctx, input }) => {
-      // Get dashboard metrics which includes feedback stats
-      const metrics = await container.getDashboardMetricsUseCase.execute({
-        userId: input.userId,
-      });
+      // Dashboard metrics include the counts; the breakdown checks who may see it
+      const [metrics, breakdown] = await Promise.all([
+        container.getDashboardMetricsUseCase.execute({ userId: input.userId }),
+        container.getFeedbackBreakdownUseCase.execute({
+          userId: ctx.session.userId,
+          targetUserId: input.userId,
+        }),
+      ]);
 
       return {
         totalReceived: metrics.feedback.totalReceived,
         totalGiven: metrics.feedback.totalGiven,
         polishedCount: metrics.feedback.polishedCount,
+        ...breakdown,
       };
     }),
+
+  /**
+   * Get the competencies feedback can be tagged with (defaults applied)
+   */
+  getCompetencies: protectedProcedure.query(async ({ ctx }) => {
+    const result = await container.getOrganizationSettingsUseCase.execute({
+      organizationId: ctx.session.organizationId,
+    });
+    return CompetencyFramework.fromSettings(result?.settings.competencyFramework).toObject();
+  }),
+
+  /**
+   * Get the AI providers of this deployment and the one the organization uses
+   * `selected` is unset when the organization follows the deployment default
+   */
+  getAIProviders: protectedProcedure.query(async ({ ctx }) => {
+    const result = await container.getOrganizationSettingsUseCase.execute({
+      organizationId: ctx.session.organizationId,
+    });
+    const selected = aiProviderSchema.safeParse(result?.settings.aiProvider);
+
+    return {
+      providers: container.aiProviderRegistry.list(),
+      selected: selected.success ? selected.data : undefined,
+      active: container.aiProviderRegistry.resolve(result?.settings.aiProvider).provider,
+    };
+  }),
+
+  /**
+   * Choose the organization's AI provider (manager-only)
+   * Pass null to follow the deployment default again
+   */
+  updateAIProvider: managerProcedure
+    .input(z.object({ provider: aiProviderSchema.nullable() }))
+    .mutation(async ({ ctx, input }) => {
+      const provider = input.provider ?? undefined;
+      const isConfigured = container.aiProviderRegistry
+        .list()
+        .some((p) => p.provider === provider && p.available);
+      if (provider && !isConfigured) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'This AI provider is not configured on this deployment',
+        });
+      }
+
+      await container.updateOrganizationSettingsUseCase.execute({
+        organizationId: ctx.session.organizationId,
+        settings: { aiProvider: provider },
+      });
+      return { selected: provider };
+    }),
+
+  /**
+   * Get what happens to feedback flagged by screening in this organization
+   */
+  getScreeningPolicy: protectedProcedure.query(async ({ ctx }) => {
+    const result = await container.getOrganizationSettingsUseCase.execute({
+      organizationId: ctx.session.organizationId,
+    });
+    const policy = feedbackScreeningPolicySchema.safeParse(result?.settings.feedbackScreeningPolicy);
+
+    return { policy: policy.success ? policy.data : 'WARN' };
+  }),
+
+  /**
+   * Choose what happens to feedback flagged by screening (manager-only)
+   */
+  updateScreeningPolicy: managerProcedure
+    .input(z.object({ policy: feedbackScreeningPolicySchema }))
+    .mutation(async ({ ctx, input }) => {
+      await container.updateOrganizationSettingsUseCase.execute({
+        organizationId: ctx.session.organizationId,
+        settings: { feedbackScreeningPolicy: input.policy },
+      });
+      return { policy: input.policy };
+    }),
+
+  /**
+   * Replace the organization's competency framework (manager-only)
+   * Feedback already tagged with a removed competency keeps it
+   */
+  updateCompetencies: managerProcedure
+    .input(competencyFrameworkSchema)
+    .mutation(async ({ ctx, input }) => {
+      const framework = CompetencyFramework.create(input);
+      await container.updateOrganizationSettingsUseCase.execute({
+        organizationId: ctx.session.organizationId,
+        settings: { competencyFramework: framework.toObject() },
+      });
+      return framework.toObject();
+    }),
 });
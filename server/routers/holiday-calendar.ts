@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, protectedProcedure, managerProcedure } from '../trpc';
+import {
+  holidayCalendarSchema,
+  updateHolidayCalendarSchema,
+  importHolidayCalendarSchema,
+} from '@/lib/validations/absence';
+import { parseIcsHolidays } from '@/lib/ics';
+import { container } from '@/src/infrastructure/di/container';
+
+/**
+ * Holiday calendar router
+ * Managers maintain the organization's holiday calendars and assign them to
+ * users or departments; everyone can see the holidays that apply to them.
+ */
+export const holidayCalendarRouter = router({
+  /**
+   * List holiday calendars for the current organization (manager-only)
+   */
+  list: managerProcedure.query(async () => {
+    return container.getHolidayCalendarsUseCase.execute();
+  }),
+
+  /**
+   * Get the holidays observed by a user (defaults to the current user)
+   * Managers can look up the holidays of their direct and indirect reports
+   */
+  getForUser: protectedProcedure
+    .input(z.object({ userId: z.string().cuid().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      return container.getUserHolidaysUseCase.execute({
+        userId: input?.userId ?? ctx.session.userId,
+        requesterId: ctx.session.userId,
+      });
+    }),
+
+  /**
+   * Create a holiday calendar (manager-only)
+   */
+  create: managerProcedure
+    .input(holidayCalendarSchema)
+    .mutation(async ({ ctx, input }) => {
+      return container.createHolidayCalendarUseCase.execute({
+        requesterId: ctx.session.userId,
+        ...input,
+      });
+    }),
+
+  /**
+   * Update a calendar's name, holidays or assignments (manager-only)
+   */
+  update: managerProcedure
+    .input(updateHolidayCalendarSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...updates } = input;
+      return container.updateHolidayCalendarUseCase.execute({
+        calendarId: id,
+        requesterId: ctx.session.userId,
+        ...updates,
+      });
+    }),
+
+  /**
+   * Import holidays from an iCalendar (.ics) file (manager-only)
+   * Merges into an existing calendar or creates a new one
+   */
+  importIcs: managerProcedure
+    .input(importHolidayCalendarSchema)
+    .mutation(async ({ ctx, input }) => {
+      let holidays;
+      try {
+        holidays = parseIcsHolidays(input.content);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: error instanceof Error ? error.message : 'Could not read calendar file',
+        });
+      }
+
+      if (holidays.length === 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'No holidays found in calendar file',
+        });
+      }
+
+      if (input.calendarId) {
+        return container.updateHolidayCalendarUseCase.execute({
+          calendarId: input.calendarId,
+          requesterId: ctx.session.userId,
+          addHolidays: holidays,
+        });
+      }
+
+      return container.createHolidayCalendarUseCase.execute({
+        requesterId: ctx.session.userId,
+        name: input.name!,
+        holidays,
+      });
+    }),
+
+  /**
+   * Delete a holiday calendar and its holidays (manager-only)
+   */
+  delete: managerProcedure
+    .input(z.object({ id: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      await container.deleteHolidayCalendarUseCase.execute({
+        calendarId: input.id,
+        requesterId: ctx.session.userId,
+      });
+      return { success: true };
+    }),
+});
@@ -1,6 +1,14 @@
 import { z } from 'zod';
-import { router, protectedProcedure } from '../trpc';
+import { router, protectedProcedure, managerProcedure } from '../trpc';
+import {
+  requiredNotificationTypesSchema,
+  updateNotificationPreferencesSchema,
+} from '@/lib/validations/notification';
 import { container } from '@/src/infrastructure/di/container';
+import {
+  NotificationChannel,
+  NotificationPreferences,
+} from '@/src/domain/value-objects/NotificationPreferences';
 
 /**
  * Notification router for managing user notifications
@@ -70,4 +78,57 @@ export const notificationRouter = router({
       userId: ctx.session.userId,
     });
   }),
+
+  /**
+   * Get the channel the current user hears about each notification type on
+   */
+  getPreferences: protectedProcedure.query(async ({ ctx }) => {
+    return container.getNotificationPreferencesUseCase.execute({ userId: ctx.session.userId });
+  }),
+
+  /**
+   * Change the channel of some notification types for the current user
+   * Types the organization requires cannot be turned off
+   */
+  updatePreferences: protectedProcedure
+    .input(updateNotificationPreferencesSchema)
+    .mutation(async ({ ctx, input }) => {
+      return container.updateNotificationPreferencesUseCase.execute({
+        userId: ctx.session.userId,
+        channels: Object.fromEntries(
+          Object.entries(input.channels).map(([type, channel]) => [
+            type,
+            NotificationChannel[channel],
+          ])
+        ),
+      });
+    }),
+
+  /**
+   * Get the notification types users in this organization cannot turn off
+   */
+  getRequiredTypes: protectedProcedure.query(async ({ ctx }) => {
+    const result = await container.getOrganizationSettingsUseCase.execute({
+      organizationId: ctx.session.organizationId,
+    });
+
+    return {
+      types: NotificationPreferences.requiredTypesFromSettings(
+        result?.settings.requiredNotificationTypes
+      ),
+    };
+  }),
+
+  /**
+   * Choose the notification types users cannot turn off (manager-only)
+   */
+  updateRequiredTypes: managerProcedure
+    .input(requiredNotificationTypesSchema)
+    .mutation(async ({ ctx, input }) => {
+      await container.updateOrganizationSettingsUseCase.execute({
+        organizationId: ctx.session.organizationId,
+        settings: { requiredNotificationTypes: input.types },
+      });
+      return { types: input.types };
+    }),
 });
@@ -0,0 +1,249 @@
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { router, protectedProcedure, managerProcedure } from '../trpc';
+import {
+  reviewCycleSchema,
+  updateReviewCycleSchema,
+  nominateReviewPeersSchema,
+  submitReviewSchema,
+  calibrateReviewRatingSchema,
+} from '@/lib/validations/review';
+import { container } from '@/src/infrastructure/di/container';
+import { ReviewQuestionType } from '@/src/domain/entities/ReviewCycle';
+import type { DispatchNotificationInput } from '@/src/application/use-cases/notification/DispatchNotificationUseCase';
+import type { Logger } from 'pino';
+
+/**
+ * Send review notifications without failing the request on individual errors
+ */
+async function notifyReviewers(logger: Logger, notifications: DispatchNotificationInput[]) {
+  const results = await Promise.allSettled(
+    notifications.map((notification) => container.dispatchNotificationUseCase.execute(notification))
+  );
+
+  const failed = results.filter((result) => result.status === 'rejected').length;
+  if (failed > 0) {
+    logger.warn({ failed }, 'Failed to send some review notifications');
+  }
+}
+
+/**
+ * Number of reviews each reviewer has to write
+ */
+function countByReviewer(reviewerIds: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const reviewerId of reviewerIds) {
+    counts.set(reviewerId, (counts.get(reviewerId) ?? 0) + 1);
+  }
+  return counts;
+}
+
+const reviewsToWrite = (count: number) => `${count} review${count === 1 ? '' : 's'}`;
+
+/**
+ * Review router for performance review cycles
+ * Managers run cycles (draft -> open -> calibration -> closed); participants and
+ * their peers write reviews, and closing a cycle writes the calibrated ratings
+ * back to each participant's performance rating.
+ */
+export const reviewRouter = router({
+  /**
+   * Review cycles visible to the current user, with their progress
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return container.getReviewCyclesUseCase.execute({ userId: ctx.session.userId });
+  }),
+
+  /**
+   * Get a review cycle with its progress dashboard
+   */
+  getById: protectedProcedure
+    .input(z.object({ id: z.string().min(1) }))
+    .query(async ({ ctx, input }) => {
+      return container.getReviewCycleUseCase.execute({
+        cycleId: input.id,
+        userId: ctx.session.userId,
+      });
+    }),
+
+  /**
+   * Create a draft review cycle (manager-only)
+   */
+  create: managerProcedure.input(reviewCycleSchema).mutation(async ({ ctx, input }) => {
+    return container.createReviewCycleUseCase.execute({
+      requesterId: ctx.session.userId,
+      ...input,
+      questions: input.questions.map((q) => ({ ...q, type: ReviewQuestionType[q.type] })),
+    });
+  }),
+
+  /**
+   * Edit a draft cycle or move the deadline of an open one (manager-only)
+   */
+  update: managerProcedure.input(updateReviewCycleSchema).mutation(async ({ ctx, input }) => {
+    const { id, questions, ...updates } = input;
+    return container.updateReviewCycleUseCase.execute({
+      cycleId: id,
+      requesterId: ctx.session.userId,
+      ...updates,
+      questions: questions?.map((q) => ({ ...q, type: ReviewQuestionType[q.type] })),
+    });
+  }),
+
+  /**
+   * Delete a draft review cycle (manager-only)
+   */
+  delete: managerProcedure
+    .input(z.object({ id: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      await container.deleteReviewCycleUseCase.execute({
+        cycleId: input.id,
+        requesterId: ctx.session.userId,
+      });
+      return { success: true };
+    }),
+
+  /**
+   * Open a cycle and ask everyone for their reviews (manager-only)
+   */
+  open: managerProcedure
+    .input(z.object({ id: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const cycle = await container.openReviewCycleUseCase.execute({
+        cycleId: input.id,
+        requesterId: ctx.session.userId,
+      });
+
+      const deadline = format(cycle.deadline, 'MMM d, yyyy');
+      const counts = countByReviewer(cycle.reviews.map((review) => review.reviewerId));
+      await notifyReviewers(
+        ctx.logger,
+        Array.from(counts, ([reviewerId, count]) => ({
+          userId: reviewerId,
+          type: 'REVIEW_REQUESTED' as const,
+          title: 'Performance Review Started',
+          message: `${cycle.name} is open: you have ${reviewsToWrite(count)} to write by ${deadline}`,
+          data: { cycleId: cycle.id },
+        }))
+      );
+
+      return cycle;
+    }),
+
+  /**
+   * Nominate the peers who review a participant
+   * Participants choose their own peers; managers can nominate for anyone
+   */
+  nominatePeers: protectedProcedure
+    .input(nominateReviewPeersSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { cycle, requestedPeerIds } = await container.nominateReviewPeersUseCase.execute({
+        ...input,
+        requesterId: ctx.session.userId,
+      });
+
+      if (requestedPeerIds.length > 0) {
+        const participant = await container.userRepository.findById(input.userId);
+        const deadline = format(cycle.deadline, 'MMM d, yyyy');
+        await notifyReviewers(
+          ctx.logger,
+          requestedPeerIds.map((peerId) => ({
+            userId: peerId,
+            type: 'REVIEW_REQUESTED' as const,
+            title: 'Peer Review Requested',
+            message: `${participant?.name ?? 'A colleague'} would like your peer review in ${cycle.name} by ${deadline}`,
+            data: { cycleId: cycle.id, revieweeId: input.userId },
+          }))
+        );
+      }
+
+      return cycle;
+    }),
+
+  /**
+   * Submit one of the current user's reviews
+   */
+  submit: protectedProcedure.input(submitReviewSchema).mutation(async ({ ctx, input }) => {
+    return container.submitReviewUseCase.execute({
+      ...input,
+      reviewerId: ctx.session.userId,
+    });
+  }),
+
+  /**
+   * Remind everyone with outstanding reviews (manager-only)
+   */
+  sendReminders: managerProcedure
+    .input(z.object({ id: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const outstanding = await container.getOutstandingReviewsUseCase.execute({
+        cycleId: input.id,
+        requesterId: ctx.session.userId,
+      });
+
+      const deadline = format(outstanding.deadline, 'MMM d, yyyy');
+      await notifyReviewers(
+        ctx.logger,
+        outstanding.reviewers.map(({ reviewerId, pending }) => ({
+          userId: reviewerId,
+          type: 'REVIEW_REMINDER' as const,
+          title: outstanding.isOverdue ? 'Reviews Overdue' : 'Review Reminder',
+          message: outstanding.isOverdue
+            ? `You still have ${reviewsToWrite(pending)} to write in ${outstanding.cycleName} (due ${deadline})`
+            : `You have ${reviewsToWrite(pending)} to write in ${outstanding.cycleName} by ${deadline}`,
+          data: { cycleId: outstanding.cycleId },
+        }))
+      );
+
+      return { reminded: outstanding.reviewers.length };
+    }),
+
+  /**
+   * Stop collecting reviews and start calibrating ratings (manager-only)
+   */
+  startCalibration: managerProcedure
+    .input(z.object({ id: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      return container.startReviewCalibrationUseCase.execute({
+        cycleId: input.id,
+        requesterId: ctx.session.userId,
+      });
+    }),
+
+  /**
+   * Set a participant's calibrated rating (manager-only)
+   */
+  calibrate: managerProcedure
+    .input(calibrateReviewRatingSchema)
+    .mutation(async ({ ctx, input }) => {
+      return container.calibrateReviewRatingUseCase.execute({
+        ...input,
+        requesterId: ctx.session.userId,
+      });
+    }),
+
+  /**
+   * Close a cycle and write final ratings back to profiles (manager-only)
+   */
+  close: managerProcedure
+    .input(z.object({ id: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const cycle = await container.closeReviewCycleUseCase.execute({
+        cycleId: input.id,
+        requesterId: ctx.session.userId,
+      });
+
+      await notifyReviewers(
+        ctx.logger,
+        cycle.participants.map((participant) => ({
+          userId: participant.userId,
+          type: 'REVIEW_COMPLETED' as const,
+          title: 'Performance Review Completed',
+          message: `${cycle.name} has closed and your manager review is available`,
+          data: { cycleId: cycle.id },
+        }))
+      );
+
+      return cycle;
+    }),
+});
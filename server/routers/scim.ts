@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, managerProcedure } from '../trpc';
+import { createScimToken, listScimTokens, revokeScimToken } from '@/lib/scim/tokens';
+import { getScimBaseUrl } from '@/lib/scim/resources';
+
+export const scimRouter = router({
+  /**
+   * Get the SCIM base URL and the organization's tokens (manager-only)
+   */
+  getTokens: managerProcedure.query(async ({ ctx }) => {
+    return {
+      baseUrl: getScimBaseUrl(),
+      tokens: await listScimTokens(ctx.session.organizationId),
+    };
+  }),
+
+  /**
+   * Create a token for an identity provider to provision users with (manager-only)
+   * The token is only returned here - it cannot be shown again
+   */
+  createToken: managerProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1, 'Name is required').max(100, 'Name is too long'),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, token } = await createScimToken(
+        ctx.session.organizationId,
+        input.name,
+        ctx.session.userId
+      );
+
+      ctx.logger.info({ tokenId: id }, 'SCIM token created');
+
+      return { id, token };
+    }),
+
+  /**
+   * Revoke a token, cutting off the identity provider using it (manager-only)
+   */
+  revokeToken: managerProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const count = await revokeScimToken(input.id, ctx.session.organizationId);
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'SCIM token not found.',
+        });
+      }
+
+      ctx.logger.info({ tokenId: input.id }, 'SCIM token revoked');
+
+      return { success: true };
+    }),
+});
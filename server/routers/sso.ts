@@ -0,0 +1,181 @@
+import { TRPCError } from '@trpc/server';
+import { router, managerProcedure } from '../trpc';
+import { encrypt } from '@/lib/encryption';
+import {
+  discoverOidc,
+  getEmailDomain,
+  getServiceProviderUrls,
+  parseGroupRoleMappings,
+  parseSamlMetadata,
+} from '@/lib/auth/sso';
+import { ssoConnectionSchema } from '@/lib/validations/sso';
+
+export const ssoRouter = router({
+  /**
+   * Get the organization's SSO connection and the URLs to give the identity provider
+   * (manager-only)
+   */
+  getConnection: managerProcedure.query(async ({ ctx }) => {
+    const organization = await ctx.prisma.organization.findUnique({
+      where: { id: ctx.session.organizationId },
+      select: {
+        domain: true,
+        ssoConnection: true,
+      },
+    });
+
+    const connection = organization?.ssoConnection;
+
+    return {
+      domain: organization?.domain ?? null,
+      serviceProvider: getServiceProviderUrls(),
+      connection: connection
+        ? {
+            protocol: connection.protocol,
+            enabled: connection.enabled,
+            enforced: connection.enforced,
+            issuerUrl: connection.issuerUrl,
+            clientId: connection.clientId,
+            hasClientSecret: !!connection.clientSecret,
+            samlMetadata: connection.samlMetadata,
+            jitProvisioning: connection.jitProvisioning,
+            defaultRole: connection.defaultRole,
+            groupsAttribute: connection.groupsAttribute,
+            groupRoleMappings: parseGroupRoleMappings(connection.groupRoleMappings),
+            updatedAt: connection.updatedAt,
+          }
+        : null,
+    };
+  }),
+
+  /**
+   * Create or update the organization's SSO connection (manager-only)
+   *
+   * Business Rules:
+   * - SSO can only be enabled once the organization has a verified domain
+   * - Enforcing SSO requires the manager to be on that domain, so they are not locked out
+   * - OIDC issuers must answer discovery and SAML metadata must describe an identity provider
+   */
+  saveConnection: managerProcedure
+    .input(ssoConnectionSchema)
+    .mutation(async ({ ctx, input }) => {
+      const organizationId = ctx.session.organizationId;
+
+      const organization = await ctx.prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: {
+          domain: true,
+          ssoConnection: { select: { protocol: true, clientSecret: true } },
+        },
+      });
+
+      if (input.enabled && !organization?.domain) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Your organization needs a verified domain before SSO can be enabled.',
+        });
+      }
+
+      if (input.enforced && getEmailDomain(ctx.session.email) !== organization?.domain) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Only managers with an @${organization?.domain} email can enforce SSO.`,
+        });
+      }
+
+      const settings = {
+        enabled: input.enabled,
+        enforced: input.enforced,
+        jitProvisioning: input.jitProvisioning,
+        defaultRole: input.defaultRole,
+        groupsAttribute: input.groupsAttribute,
+        groupRoleMappings: input.groupRoleMappings,
+      };
+
+      let protocolSettings;
+      if (input.protocol === 'OIDC') {
+        try {
+          await discoverOidc(input.issuerUrl);
+        } catch (error) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Could not reach the identity provider: ${
+              error instanceof Error ? error.message : 'Unknown error'
+            }`,
+          });
+        }
+
+        // A blank secret keeps the saved one, as long as it belongs to an OIDC connection
+        const existing = organization?.ssoConnection;
+        const clientSecret = input.clientSecret
+          ? encrypt(input.clientSecret)
+          : existing?.protocol === 'OIDC'
+            ? existing.clientSecret
+            : null;
+
+        if (!clientSecret) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Client secret is required.',
+          });
+        }
+
+        protocolSettings = {
+          protocol: input.protocol,
+          issuerUrl: input.issuerUrl.replace(/\/+$/, ''),
+          clientId: input.clientId,
+          clientSecret,
+          samlMetadata: null,
+        };
+      } else {
+        try {
+          parseSamlMetadata(input.samlMetadata);
+        } catch (error) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error instanceof Error ? error.message : 'Invalid SAML metadata',
+          });
+        }
+
+        protocolSettings = {
+          protocol: input.protocol,
+          issuerUrl: null,
+          clientId: null,
+          clientSecret: null,
+          samlMetadata: input.samlMetadata,
+        };
+      }
+
+      await ctx.prisma.ssoConnection.upsert({
+        where: { organizationId },
+        create: { organizationId, ...settings, ...protocolSettings },
+        update: { ...settings, ...protocolSettings },
+      });
+
+      ctx.logger.info(
+        {
+          organizationId,
+          protocol: input.protocol,
+          enabled: input.enabled,
+          enforced: input.enforced,
+        },
+        'SSO connection saved'
+      );
+
+      return { success: true };
+    }),
+
+  /**
+   * Remove the organization's SSO connection, going back to password and social login
+   * (manager-only)
+   */
+  deleteConnection: managerProcedure.mutation(async ({ ctx }) => {
+    await ctx.prisma.ssoConnection.deleteMany({
+      where: { organizationId: ctx.session.organizationId },
+    });
+
+    ctx.logger.info({ organizationId: ctx.session.organizationId }, 'SSO connection removed');
+
+    return { success: true };
+  }),
+});
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { router, protectedProcedure } from '../trpc';
+import { router, protectedProcedure, managerProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
 import {
   generateTwoFactorSecret,
@@ -9,7 +9,23 @@ import {
   hashBackupCodes,
   verifyBackupCode,
 } from '@/lib/auth/two-factor';
+import { revokeOtherSessions } from '@/lib/auth/sessions';
+import {
+  getUserTrustedDevices,
+  revokeAllTrustedDevices,
+  revokeTrustedDevice,
+} from '@/lib/auth/trusted-devices';
+import {
+  createPasskeyRegistrationOptions,
+  getUserPasskeys,
+  isPhishingResistantSession,
+  MAX_PASSKEYS_PER_USER,
+  revokePasskey,
+  verifyPasskeyRegistration,
+} from '@/lib/auth/passkeys';
 import { encrypt, decrypt } from '@/lib/encryption';
+import { registerPasskeySchema } from '@/lib/validations/passkey';
+import { container } from '@/src/infrastructure/di/container';
 
 /**
  * Two-Factor Authentication Router
@@ -20,6 +36,8 @@ import { encrypt, decrypt } from '@/lib/encryption';
  * - Disable: Turn off 2FA with verification
  * - Status: Check if 2FA is enabled
  * - Regenerate backup codes: Generate new backup codes
+ * - Devices: List and revoke devices trusted to skip 2FA
+ * - Passkeys: Register, list and revoke WebAuthn passkeys, and the policy requiring them
  */
 export const twoFactorRouter = router({
   /**
@@ -126,7 +144,10 @@ export const twoFactorRouter = router({
         },
       });
 
-      ctx.logger.info({ userId: ctx.session.userId }, '2FA enabled successfully');
+      // Sign out other sessions so they log in again with the second factor
+      const revokedSessions = await revokeOtherSessions(ctx.session.userId, ctx.session.sessionToken);
+
+      ctx.logger.info({ userId: ctx.session.userId, revokedSessions }, '2FA enabled successfully');
 
       // Return plain backup codes (shown only once)
       return { backupCodes };
@@ -189,7 +210,13 @@ export const twoFactorRouter = router({
         },
       });
 
-      ctx.logger.info({ userId: ctx.session.userId }, '2FA disabled successfully');
+      // Sign out other sessions in case the change was not made by the account owner
+      const revokedSessions = await revokeOtherSessions(ctx.session.userId, ctx.session.sessionToken);
+
+      // Trust would otherwise carry over if 2FA is turned on again
+      await revokeAllTrustedDevices(ctx.session.userId);
+
+      ctx.logger.info({ userId: ctx.session.userId, revokedSessions }, '2FA disabled successfully');
 
       return { success: true };
     }),
@@ -267,4 +294,182 @@ export const twoFactorRouter = router({
 
       return { backupCodes };
     }),
+
+  /**
+   * Devices trusted to skip 2FA at login
+   */
+  devices: router({
+    /**
+     * List the current user's trusted devices, marking the one making the request
+     */
+    list: protectedProcedure.query(async ({ ctx }) => {
+      return getUserTrustedDevices(ctx.session.userId);
+    }),
+
+    /**
+     * Stop trusting one device - it will be asked for a code at its next login
+     */
+    revoke: protectedProcedure
+      .input(z.object({ id: z.string().cuid() }))
+      .mutation(async ({ ctx, input }) => {
+        const count = await revokeTrustedDevice(input.id, ctx.session.userId);
+
+        if (count === 0) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Trusted device not found.',
+          });
+        }
+
+        ctx.logger.info({ userId: ctx.session.userId, deviceId: input.id }, 'Trusted device revoked');
+
+        return { success: true };
+      }),
+
+    /**
+     * Stop trusting every device, including this one
+     */
+    revokeAll: protectedProcedure.mutation(async ({ ctx }) => {
+      const count = await revokeAllTrustedDevices(ctx.session.userId);
+
+      ctx.logger.info({ userId: ctx.session.userId, count }, 'All trusted devices revoked');
+
+      return { count };
+    }),
+  }),
+
+  /**
+   * WebAuthn passkeys, for passwordless login and in place of an authenticator code
+   */
+  passkeys: router({
+    /**
+     * List the current user's passkeys
+     */
+    list: protectedProcedure.query(async ({ ctx }) => {
+      return getUserPasskeys(ctx.session.userId);
+    }),
+
+    /**
+     * Start registering a passkey
+     * Returns options for the browser's WebAuthn API
+     */
+    getRegistrationOptions: protectedProcedure.mutation(async ({ ctx }) => {
+      const user = await ctx.prisma.user.findFirst({
+        where: {
+          id: ctx.session.userId,
+          organizationId: ctx.session.organizationId,
+        },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          _count: { select: { passkeyCredentials: true } },
+        },
+      });
+
+      if (!user) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'User not found' });
+      }
+
+      if (user._count.passkeyCredentials >= MAX_PASSKEYS_PER_USER) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `You can register up to ${MAX_PASSKEYS_PER_USER} passkeys. Remove one first.`,
+        });
+      }
+
+      return createPasskeyRegistrationOptions(user);
+    }),
+
+    /**
+     * Finish registering a passkey with the browser's response
+     */
+    register: protectedProcedure
+      .input(registerPasskeySchema)
+      .mutation(async ({ ctx, input }) => {
+        const passkey = await verifyPasskeyRegistration(
+          ctx.session.userId,
+          input.name,
+          input.response
+        );
+
+        if (!passkey) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'The passkey could not be verified. Please try again.',
+          });
+        }
+
+        ctx.logger.info(
+          { userId: ctx.session.userId, passkeyId: passkey.id },
+          'Passkey registered'
+        );
+
+        return passkey;
+      }),
+
+    /**
+     * Revoke a passkey - it can no longer sign in
+     */
+    revoke: protectedProcedure
+      .input(z.object({ id: z.string().cuid() }))
+      .mutation(async ({ ctx, input }) => {
+        const count = await revokePasskey(input.id, ctx.session.userId);
+
+        if (count === 0) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Passkey not found.',
+          });
+        }
+
+        ctx.logger.info({ userId: ctx.session.userId, passkeyId: input.id }, 'Passkey revoked');
+
+        return { success: true };
+      }),
+
+    /**
+     * Get whether managers must sign in with a passkey, and whether this session did
+     */
+    getPolicy: protectedProcedure.query(async ({ ctx }) => {
+      const result = await container.getOrganizationSettingsUseCase.execute({
+        organizationId: ctx.session.organizationId,
+      });
+      const requireManagerPasskeys = result?.settings.requireManagerPasskeys === true;
+
+      return {
+        requireManagerPasskeys,
+        appliesToCurrentUser: requireManagerPasskeys && ctx.session.role === 'MANAGER',
+        signedInWithPasskey: isPhishingResistantSession(ctx.session),
+      };
+    }),
+
+    /**
+     * Require managers to sign in with a passkey, or stop requiring it (manager-only)
+     */
+    updatePolicy: managerProcedure
+      .input(z.object({ requireManagerPasskeys: z.boolean() }))
+      .mutation(async ({ ctx, input }) => {
+        // Turning it on from any other session would lock its manager out of manager actions,
+        // and turning it off must not be a way around it
+        if (!isPhishingResistantSession(ctx.session)) {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'Sign in with a passkey to change whether managers need one.',
+          });
+        }
+
+        await container.updateOrganizationSettingsUseCase.execute({
+          organizationId: ctx.session.organizationId,
+          settings: { requireManagerPasskeys: input.requireManagerPasskeys },
+        });
+
+        ctx.logger.info(
+          { organizationId: ctx.session.organizationId, ...input },
+          'Manager passkey policy updated'
+        );
+
+        return { requireManagerPasskeys: input.requireManagerPasskeys };
+      }),
+  }),
 });
@@ -4,9 +4,12 @@ import {
   profileSchema,
   sensitiveProfileSchema,
   profileIdSchema,
-  profileListSchema
+  profileListSchema,
+  assignManagerSchema,
 } from '@/lib/validations/user';
 import { container } from '@/src/infrastructure/di/container';
+import { USER_ORG_CHART_SELECT } from '@/lib/prisma/selects';
+import { revokeAllSessions } from '@/lib/auth/sessions';
 
 /**
  * User router for profile management
@@ -102,6 +105,21 @@ export const userRouter = router({
     return container.userRepository.getDepartments();
   }),
 
+  /**
+   * Get every active member of the organization with their reporting line
+   * Public card fields only - the client builds the org chart tree from managerId
+   */
+  getOrgChart: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.prisma.user.findMany({
+      where: {
+        organizationId: ctx.session.organizationId,
+        deletedAt: null,
+      },
+      select: USER_ORG_CHART_SELECT,
+      orderBy: { name: 'asc' },
+    });
+  }),
+
   /**
    * Soft delete user account
    */
@@ -112,6 +130,10 @@ export const userRouter = router({
         userId: input.id,
         requesterId: ctx.session.userId,
       });
+
+      // A deactivated user is signed out everywhere
+      await revokeAllSessions(input.id);
+
       return { success: true };
     }),
 
@@ -127,6 +149,19 @@ export const userRouter = router({
       });
     }),
 
+  /**
+   * Set who a user reports to (managers only, within their own reporting line)
+   */
+  setManager: managerProcedure
+    .input(assignManagerSchema)
+    .mutation(async ({ ctx, input }) => {
+      return container.assignManagerUseCase.execute({
+        userId: input.id,
+        managerId: input.managerId,
+        requesterId: ctx.session.userId,
+      });
+    }),
+
   /**
    * Update user role (managers only)
    */
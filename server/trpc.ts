@@ -1,12 +1,15 @@
 import { initTRPC, TRPCError } from '@trpc/server';
 import { FetchCreateContextFnOptions } from '@trpc/server/adapters/fetch';
 import { PrismaClient } from '@prisma/client';
-import { getCurrentUser, SessionData } from '@/lib/session';
+import { clearSessionCookie, getCurrentUser, SessionData } from '@/lib/session';
+import { validateSessionRecord } from '@/lib/auth/sessions';
+import { isPasskeyRequiredForManagers, isPhishingResistantSession } from '@/lib/auth/passkeys';
 import { prisma } from './db';
 import { validateCsrfFromRequest } from '@/lib/csrf';
 import { createLogger, logger } from '@/lib/logger';
 import { checkRateLimit, RATE_LIMITS } from '@/lib/rate-limit';
 import { tenantStorage, TenantContext } from '@/lib/tenant-context';
+import { DomainError } from '@/src/domain/errors';
 import * as Sentry from '@sentry/nextjs';
 import { ZodError } from 'zod';
 import type { Logger } from 'pino';
@@ -105,9 +108,42 @@ const t = initTRPC.context<Context>().create({
   },
 });
 
+/**
+ * tRPC codes for the HTTP statuses domain errors carry
+ */
+const DOMAIN_ERROR_CODES: Record<number, TRPCError['code']> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  429: 'TOO_MANY_REQUESTS',
+};
+
+/**
+ * Answer domain errors thrown by use cases with their own status, rather than
+ * as internal server errors
+ */
+const domainErrorMiddleware = t.middleware(async ({ next }) => {
+  const result = await next();
+
+  const cause = result.ok ? undefined : result.error.cause;
+  if (cause instanceof DomainError && DOMAIN_ERROR_CODES[cause.httpStatus]) {
+    throw new TRPCError({
+      code: DOMAIN_ERROR_CODES[cause.httpStatus],
+      message: cause.message,
+      cause,
+    });
+  }
+
+  return result;
+});
+
+const baseProcedure = t.procedure.use(domainErrorMiddleware);
+
 // Export reusable router and procedure helpers
 export const router = t.router;
-export const publicProcedure = t.procedure;
+export const publicProcedure = baseProcedure;
 
 /**
  * Get client IP address from request
@@ -150,8 +186,14 @@ const rateLimitMiddleware = t.middleware(async ({ ctx, next, path }) => {
   return next({ ctx });
 });
 
-// Protected procedure middleware - requires authentication, CSRF validation, and sets tenant context
-export const protectedProcedure = t.procedure.use(rateLimitMiddleware).use(async ({ ctx, next, type, path }) => {
+/**
+ * Procedures a manager can still reach while their organization requires a passkey sign-in
+ * they have not made - enough to register a passkey and sign in again
+ */
+const PASSKEY_POLICY_EXEMPT_PATHS = ['auth.', 'twoFactor.', 'organization.getSettings'];
+
+// Protected procedure middleware - requires an active session, CSRF validation, and sets tenant context
+export const protectedProcedure = baseProcedure.use(rateLimitMiddleware).use(async ({ ctx, next, type, path }) => {
   if (!ctx.session?.userId) {
     ctx.logger.warn({ path, type }, 'Unauthorized access attempt');
 
@@ -177,6 +219,20 @@ export const protectedProcedure = t.procedure.use(rateLimitMiddleware).use(async
     });
   }
 
+  // Validate the login has not been revoked, expired or outlived its user
+  const isActiveSession = await validateSessionRecord(ctx.session.userId, ctx.session.sessionToken);
+
+  if (!isActiveSession) {
+    ctx.logger.warn({ path, type, userId: ctx.session.userId }, 'Revoked or expired session used');
+
+    await clearSessionCookie();
+
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Your session has ended. Please log in again.'
+    });
+  }
+
   // Validate CSRF token for mutations (state-changing operations)
   // Queries (read operations) don't need CSRF protection
   if (type === 'mutation') {
@@ -195,6 +251,23 @@ export const protectedProcedure = t.procedure.use(rateLimitMiddleware).use(async
     }
   }
 
+  // Managers may be required to sign in with a phishing-resistant factor
+  if (
+    ctx.session.role === 'MANAGER' &&
+    !isPhishingResistantSession(ctx.session) &&
+    !PASSKEY_POLICY_EXEMPT_PATHS.some((exempt) => path.startsWith(exempt)) &&
+    (await isPasskeyRequiredForManagers(ctx.session.organizationId))
+  ) {
+    ctx.logger.warn({ path, userId: ctx.session.userId }, 'Manager passkey sign-in required');
+
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message:
+        'Your organization requires managers to sign in with a passkey. ' +
+        'Add one in Security settings, then sign in with it.',
+    });
+  }
+
   // Log successful authentication
   ctx.logger.debug({ path, type }, 'Authenticated request');
 
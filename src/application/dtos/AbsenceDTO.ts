@@ -1,4 +1,9 @@
-import { AbsenceStatus } from '../../domain/entities/Absence';
+import { Absence, AbsenceStatus } from '../../domain/entities/Absence';
+import { AbsenceDayPart } from '../../domain/value-objects/DayPart';
+import { ApprovalDecision } from '../../domain/value-objects/ApprovalStep';
+import { ApproverType } from '../../domain/value-objects/ApprovalWorkflow';
+import { AbsenceTypeSummaryDTO } from './AbsenceTypeDTO';
+import { StaffingWarningDTO } from './TeamCoverageDTO';
 
 /**
  * Input DTO for creating absence
@@ -7,7 +12,11 @@ export interface CreateAbsenceDTO {
   userId: string;
   startDate: Date;
   endDate: Date;
+  dayPart?: AbsenceDayPart;
+  startTime?: string; // HH:mm, HOURS only
+  endTime?: string; // HH:mm, HOURS only
   reason: string;
+  absenceTypeId?: string;
 }
 
 /**
@@ -19,6 +28,34 @@ export interface UpdateAbsenceStatusDTO {
   approverId: string;
 }
 
+/**
+ * Output DTO for one step of an absence request's approval chain
+ */
+export interface ApprovalStepDTO {
+  position: number;
+  label: string;
+  approverType: ApproverType;
+  department?: string;
+  approverUserId?: string;
+  decision: ApprovalDecision;
+  decidedById?: string;
+  decidedByName?: string;
+  comment?: string;
+  decidedAt?: Date;
+}
+
+/**
+ * Output DTO for a request to cancel approved leave
+ * Pending while decidedAt is unset and the absence is still APPROVED
+ */
+export interface AbsenceCancellationDTO {
+  reason: string;
+  requestedAt: Date;
+  decidedById?: string;
+  decidedAt?: Date;
+  comment?: string;
+}
+
 /**
  * Output DTO for absence data
  */
@@ -27,8 +64,16 @@ export interface AbsenceDTO {
   userId: string;
   startDate: Date;
   endDate: Date;
+  dayPart: AbsenceDayPart;
+  startTime?: string;
+  endTime?: string;
   reason: string;
+  absenceTypeId?: string;
+  absenceType?: AbsenceTypeSummaryDTO;
   status: AbsenceStatus;
+  approvalSteps: ApprovalStepDTO[];
+  cancellation?: AbsenceCancellationDTO;
+  staffingWarning?: StaffingWarningDTO; // Set when creating or approving leaves the department short
   workingDays: number;
   totalDays: number;
   deletedAt?: Date;
@@ -65,4 +110,33 @@ export interface AbsenceStatisticsDTO {
   pendingRequests: number;
   rejectedRequests: number;
   totalRequests: number;
+  byType: AbsenceTypeBreakdownDTO[];
+}
+
+/**
+ * Output DTO for per-type absence breakdown
+ * absenceType is undefined for requests created before types existed
+ */
+export interface AbsenceTypeBreakdownDTO {
+  absenceType?: AbsenceTypeSummaryDTO;
+  requests: number;
+  approvedDays: number;
+}
+
+/**
+ * Convert an absence's approval chain to DTOs
+ */
+export function toApprovalStepDTOs(absence: Absence): ApprovalStepDTO[] {
+  return absence.approvalSteps.map((step) => ({
+    position: step.position,
+    label: step.describe(),
+    approverType: step.rule.approverType,
+    department: step.rule.department,
+    approverUserId: step.rule.userId,
+    decision: step.decision,
+    decidedById: step.decidedById,
+    decidedByName: step.decidedByName,
+    comment: step.comment,
+    decidedAt: step.decidedAt,
+  }));
 }
@@ -0,0 +1,67 @@
+import { AbsenceType, AbsenceCategory } from '../../domain/entities/AbsenceType';
+import { ApprovalStepRule } from '../../domain/value-objects/ApprovalWorkflow';
+
+/**
+ * Output DTO for absence type data
+ */
+export interface AbsenceTypeDTO {
+  id: string;
+  name: string;
+  category: AbsenceCategory;
+  color: string;
+  requiresApproval: boolean;
+  countsAgainstAllowance: boolean;
+  approvalSteps?: ApprovalStepRule[]; // Undefined when the organization default applies
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Compact absence type info embedded in absence DTOs
+ */
+export interface AbsenceTypeSummaryDTO {
+  id: string;
+  name: string;
+  category: AbsenceCategory;
+  color: string;
+}
+
+/**
+ * Input DTO for creating an absence type
+ */
+export interface CreateAbsenceTypeDTO {
+  name: string;
+  category: AbsenceCategory;
+  color: string;
+  requiresApproval: boolean;
+  countsAgainstAllowance: boolean;
+}
+
+/**
+ * Convert AbsenceType entity to DTO
+ */
+export function toAbsenceTypeDTO(absenceType: AbsenceType): AbsenceTypeDTO {
+  return {
+    id: absenceType.id,
+    name: absenceType.name,
+    category: absenceType.category,
+    color: absenceType.color,
+    requiresApproval: absenceType.requiresApproval,
+    countsAgainstAllowance: absenceType.countsAgainstAllowance,
+    approvalSteps: absenceType.approvalSteps,
+    createdAt: absenceType.createdAt,
+    updatedAt: absenceType.updatedAt,
+  };
+}
+
+/**
+ * Convert AbsenceType entity to summary DTO
+ */
+export function toAbsenceTypeSummaryDTO(absenceType: AbsenceType): AbsenceTypeSummaryDTO {
+  return {
+    id: absenceType.id,
+    name: absenceType.name,
+    category: absenceType.category,
+    color: absenceType.color,
+  };
+}
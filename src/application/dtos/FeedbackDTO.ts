@@ -1,3 +1,18 @@
+import {
+  Feedback,
+  FeedbackCompetency,
+  FeedbackModerationStatus,
+  FeedbackReplyKind,
+  FeedbackType,
+  FeedbackVisibility,
+} from '../../domain/entities/Feedback';
+import { CompetencyScore } from '../../domain/value-objects/FeedbackBreakdown';
+import {
+  FeedbackScreening,
+  FeedbackScreeningPolicy,
+  ScreeningCategory,
+} from '../../domain/value-objects/FeedbackScreening';
+
 /**
  * Input DTO for creating feedback
  */
@@ -25,13 +40,91 @@ export interface FeedbackDTO {
   content: string;
   polishedContent?: string;
   isPolished: boolean;
+  polishedBy?: string; // AI provider that produced polishedContent
+  type: FeedbackType;
+  competencies: FeedbackCompetency[];
+  visibility: FeedbackVisibility;
+  screeningFlags: ScreeningCategory[]; // Empty for the receiver
+  moderationStatus?: FeedbackModerationStatus;
   deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
 /**
- * Output DTO for feedback with user information
+ * Output DTO for screening feedback before it is submitted
+ */
+export interface FeedbackScreeningDTO {
+  categories: ScreeningCategory[];
+  policy: FeedbackScreeningPolicy;
+  requiresPolish: boolean;
+  requiresModeration: boolean;
+}
+
+/**
+ * Convert a screening to its output DTO
+ */
+export function toFeedbackScreeningDTO(screening: FeedbackScreening): FeedbackScreeningDTO {
+  return {
+    categories: screening.categories,
+    policy: screening.policy,
+    requiresPolish: screening.requiresPolish(),
+    requiresModeration: screening.requiresModeration(),
+  };
+}
+
+/**
+ * Stands in for the giver of anonymous feedback shown to anyone but the giver
+ */
+export const ANONYMOUS_GIVER = { id: 'anonymous', name: 'Anonymous', email: '' };
+
+/**
+ * Output DTO for an earlier version of feedback
+ */
+export interface FeedbackRevisionDTO {
+  id: string;
+  content: string;
+  polishedContent?: string;
+  editedById: string;
+  editedAt: Date;
+}
+
+/**
+ * Output DTO for a reply or acknowledgement in a feedback thread
+ */
+export interface FeedbackReplyDTO {
+  id: string;
+  feedbackId: string;
+  authorId: string;
+  kind: FeedbackReplyKind;
+  content?: string;
+  createdAt: Date;
+}
+
+/**
+ * Convert a feedback's revisions and replies to output DTOs for a viewer
+ * The giver of anonymous feedback stays anonymous in its history and thread
+ */
+export function toFeedbackThreadDTO(
+  feedback: Feedback,
+  viewerId: string
+): { revisions: FeedbackRevisionDTO[]; replies: FeedbackReplyDTO[] } {
+  const hideGiver = feedback.isGiverHiddenFrom(viewerId);
+  const displayId = (userId: string) =>
+    hideGiver && userId === feedback.giverId ? ANONYMOUS_GIVER.id : userId;
+
+  return {
+    revisions: feedback.revisions.map((r) => ({ ...r, editedById: displayId(r.editedById) })),
+    replies: feedback.replies.map((r) => ({
+      ...r,
+      feedbackId: feedback.id,
+      authorId: displayId(r.authorId),
+    })),
+  };
+}
+
+/**
+ * Output DTO for feedback with user information, revision history and thread
  */
 export interface FeedbackWithUsersDTO extends FeedbackDTO {
   giver: {
@@ -46,6 +139,8 @@ export interface FeedbackWithUsersDTO extends FeedbackDTO {
     email: string;
     avatar?: string;
   };
+  revisions: FeedbackRevisionDTO[]; // Oldest first
+  replies: FeedbackReplyDTO[]; // Oldest first
 }
 
 /**
@@ -56,3 +151,13 @@ export interface FeedbackStatisticsDTO {
   totalReceived: number;
   polishedCount: number;
 }
+
+/**
+ * Output DTO for what someone's feedback says, by type and competency
+ */
+export interface FeedbackBreakdownDTO {
+  byType: Record<FeedbackType, number>;
+  competencies: CompetencyScore[]; // Highest rated first
+  strengths: string[]; // Competency keys rated 4 or more on average
+  areasToImprove: string[]; // Competency keys rated 2.5 or less on average
+}
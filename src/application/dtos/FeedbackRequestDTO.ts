@@ -0,0 +1,45 @@
+import { FeedbackRequest, FeedbackRequestStatus } from '../../domain/entities/FeedbackRequest';
+
+/**
+ * Output DTO for feedback request data
+ */
+export interface FeedbackRequestDTO {
+  id: string;
+  requesterId: string;
+  recipientId: string;
+  prompt?: string;
+  status: FeedbackRequestStatus;
+  dueDate: Date;
+  isOverdue: boolean;
+  feedbackId?: string;
+  respondedAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * Output DTO for the feedback requests a user has received and sent
+ */
+export interface FeedbackRequestsDTO {
+  received: FeedbackRequestDTO[];
+  sent: FeedbackRequestDTO[];
+  pendingCount: number; // Received requests still waiting for the user's feedback
+  overdueCount: number; // Pending received requests past their due date
+}
+
+/**
+ * Convert a feedback request to its output DTO
+ */
+export function toFeedbackRequestDTO(request: FeedbackRequest, now: Date = new Date()): FeedbackRequestDTO {
+  return {
+    id: request.id,
+    requesterId: request.requesterId,
+    recipientId: request.recipientId,
+    prompt: request.prompt,
+    status: request.status,
+    dueDate: request.dueDate,
+    isOverdue: request.isOverdue(now),
+    feedbackId: request.feedbackId,
+    respondedAt: request.respondedAt,
+    createdAt: request.createdAt,
+  };
+}
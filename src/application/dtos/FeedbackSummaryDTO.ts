@@ -0,0 +1,37 @@
+import { FeedbackSummary, FeedbackSummaryPoint } from '../../domain/entities/FeedbackSummary';
+
+/**
+ * Output DTO for a summary of the feedback a user received in a period
+ */
+export interface FeedbackSummaryDTO {
+  id: string;
+  subjectId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  themes: FeedbackSummaryPoint[];
+  strengths: FeedbackSummaryPoint[];
+  growthAreas: FeedbackSummaryPoint[];
+  feedbackCount: number; // How much feedback the summary was generated from
+  provider: string;
+  generatedAt: Date;
+  cached: boolean; // Served from the cache rather than generated for this request
+}
+
+/**
+ * Convert a feedback summary to its output DTO
+ */
+export function toFeedbackSummaryDTO(summary: FeedbackSummary, cached: boolean): FeedbackSummaryDTO {
+  return {
+    id: summary.id,
+    subjectId: summary.subjectId,
+    periodStart: summary.periodStart,
+    periodEnd: summary.periodEnd,
+    themes: summary.themes,
+    strengths: summary.strengths,
+    growthAreas: summary.growthAreas,
+    feedbackCount: summary.feedbackIds.length,
+    provider: summary.provider,
+    generatedAt: summary.generatedAt,
+    cached,
+  };
+}
@@ -0,0 +1,47 @@
+import { HolidayCalendar, Holiday } from '../../domain/entities/HolidayCalendar';
+
+/**
+ * Output DTO for holiday calendar data
+ */
+export interface HolidayCalendarDTO {
+  id: string;
+  name: string;
+  holidays: Holiday[];
+  departments: string[];
+  userIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Holiday observed by a specific user, labelled with its calendar
+ */
+export interface UserHolidayDTO extends Holiday {
+  calendarId: string;
+  calendarName: string;
+}
+
+/**
+ * Input DTO for creating a holiday calendar
+ */
+export interface CreateHolidayCalendarDTO {
+  name: string;
+  holidays?: Holiday[];
+  departments?: string[];
+  userIds?: string[];
+}
+
+/**
+ * Convert HolidayCalendar entity to DTO
+ */
+export function toHolidayCalendarDTO(calendar: HolidayCalendar): HolidayCalendarDTO {
+  return {
+    id: calendar.id,
+    name: calendar.name,
+    holidays: calendar.holidays,
+    departments: calendar.departments,
+    userIds: calendar.userIds,
+    createdAt: calendar.createdAt,
+    updatedAt: calendar.updatedAt,
+  };
+}
@@ -0,0 +1,18 @@
+import { AccrualMethod } from '../../domain/value-objects/LeavePolicy';
+
+/**
+ * Output DTO for a user's yearly leave balance
+ * All values are in working days
+ */
+export interface LeaveBalanceDTO {
+  userId: string;
+  year: number;
+  accrualMethod: AccrualMethod;
+  annualAllowance: number;
+  carriedOverDays: number;
+  accruedDays: number;
+  usedDays: number;
+  pendingDays: number;
+  remainingDays: number;
+  allowNegativeBalance: boolean;
+}
@@ -1,4 +1,9 @@
-import { NotificationType } from '../../domain/entities/Notification';
+import { NOTIFICATION_TYPES, NotificationType } from '../../domain/entities/Notification';
+import {
+  DEFAULT_NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  NotificationPreferences,
+} from '../../domain/value-objects/NotificationPreferences';
 
 /**
  * Input DTO for creating notification
@@ -33,3 +38,28 @@ export interface NotificationListDTO {
   total: number;
   unreadCount: number;
 }
+
+/**
+ * Output DTO for the channel a user hears about one notification type on
+ */
+export interface NotificationPreferenceDTO {
+  type: NotificationType;
+  channel: NotificationChannel;
+  defaultChannel: NotificationChannel;
+  required: boolean; // The organization does not let users turn it off
+}
+
+/**
+ * Convert a user's notification preferences to one output DTO per notification type
+ */
+export function toNotificationPreferenceDTOs(
+  preferences: NotificationPreferences,
+  requiredTypes: NotificationType[]
+): NotificationPreferenceDTO[] {
+  return NOTIFICATION_TYPES.map((type) => ({
+    type,
+    channel: preferences.channelFor(type, requiredTypes),
+    defaultChannel: DEFAULT_NOTIFICATION_CHANNELS[type],
+    required: requiredTypes.includes(type),
+  }));
+}
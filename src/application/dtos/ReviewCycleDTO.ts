@@ -0,0 +1,140 @@
+import {
+  ReviewCycle,
+  ReviewCycleStatus,
+  ReviewKind,
+  ReviewQuestion,
+  ReviewAnswer,
+  ReviewProgress,
+} from '../../domain/entities/ReviewCycle';
+
+/**
+ * Output DTO for a single review
+ */
+export interface ReviewDTO {
+  id: string;
+  revieweeId: string;
+  reviewerId: string;
+  kind: ReviewKind;
+  answers: ReviewAnswer[];
+  rating?: number;
+  submittedAt?: Date;
+}
+
+/**
+ * Output DTO for someone being reviewed in a cycle
+ */
+export interface ReviewParticipantDTO {
+  userId: string;
+  managerId: string;
+  peerIds: string[];
+  proposedRating?: number; // From the manager review
+  calibratedRating?: number;
+  finalRating?: number;
+  progress: ReviewProgress; // Reviews about this participant
+}
+
+/**
+ * Output DTO for review cycle data, including its progress dashboard
+ */
+export interface ReviewCycleDTO {
+  id: string;
+  name: string;
+  status: ReviewCycleStatus;
+  questions: ReviewQuestion[];
+  deadline: Date;
+  isOverdue: boolean;
+  createdById: string;
+  openedAt?: Date;
+  closedAt?: Date;
+  participants: ReviewParticipantDTO[];
+  reviews: ReviewDTO[];
+  progress: {
+    overall: ReviewProgress;
+    byKind: Record<ReviewKind, ReviewProgress>;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Output DTO for the reviews still to be written in an open cycle, per reviewer
+ */
+export interface OutstandingReviewsDTO {
+  cycleId: string;
+  cycleName: string;
+  deadline: Date;
+  isOverdue: boolean;
+  reviewers: { reviewerId: string; pending: number }[];
+}
+
+/**
+ * Input DTO for creating a review cycle
+ */
+export interface CreateReviewCycleDTO {
+  name: string;
+  questions: ReviewQuestion[];
+  deadline: Date;
+  participantIds: string[];
+}
+
+/**
+ * Convert ReviewCycle entity to DTO
+ * Pass a viewerId to limit it to what a participant may see: the reviews they
+ * write and, once the cycle is closed, their own manager review and final rating.
+ */
+export function toReviewCycleDTO(cycle: ReviewCycle, viewerId?: string): ReviewCycleDTO {
+  const isClosed = cycle.status === ReviewCycleStatus.CLOSED;
+  const canSee = (revieweeId: string) => !viewerId || (isClosed && revieweeId === viewerId);
+
+  const participants = cycle.participants
+    .filter((p) => !viewerId || p.userId === viewerId)
+    .map((p): ReviewParticipantDTO => {
+      const reviews = cycle.reviews.filter((r) => r.revieweeId === p.userId);
+      const managerReview = reviews.find((r) => r.kind === ReviewKind.MANAGER);
+      return {
+        userId: p.userId,
+        managerId: p.managerId,
+        peerIds: p.peerIds,
+        ...(!viewerId && {
+          proposedRating: managerReview?.rating,
+          calibratedRating: p.calibratedRating,
+        }),
+        ...(canSee(p.userId) && { finalRating: cycle.finalRatingFor(p.userId) }),
+        progress: {
+          total: reviews.length,
+          submitted: reviews.filter((r) => r.submittedAt).length,
+        },
+      };
+    });
+
+  const reviews = cycle.reviews.filter(
+    (r) =>
+      !viewerId ||
+      r.reviewerId === viewerId ||
+      (canSee(r.revieweeId) && r.kind === ReviewKind.MANAGER)
+  );
+
+  return {
+    id: cycle.id,
+    name: cycle.name,
+    status: cycle.status,
+    questions: cycle.questions,
+    deadline: cycle.deadline,
+    isOverdue: cycle.isOverdue(),
+    createdById: cycle.createdById,
+    openedAt: cycle.openedAt,
+    closedAt: cycle.closedAt,
+    participants,
+    reviews,
+    progress: {
+      overall: cycle.progress(),
+      byKind: {
+        [ReviewKind.SELF]: cycle.progress(ReviewKind.SELF),
+        [ReviewKind.PEER]: cycle.progress(ReviewKind.PEER),
+        [ReviewKind.MANAGER]: cycle.progress(ReviewKind.MANAGER),
+      },
+    },
+    createdAt: cycle.createdAt,
+    updatedAt: cycle.updatedAt,
+  };
+}
@@ -0,0 +1,23 @@
+import { StaffingEnforcement } from '../../domain/value-objects/StaffingPolicy';
+import { CoverageDay } from '../../domain/value-objects/TeamCoverage';
+
+/**
+ * Output DTO for a department's presence per working day
+ * Without a staffing rule, minPresent and enforcement are unset and no day is below minimum
+ */
+export interface TeamCoverageDTO {
+  department: string;
+  headcount: number;
+  minPresent?: number;
+  enforcement?: StaffingEnforcement;
+  days: CoverageDay[];
+}
+
+/**
+ * Output DTO for a request that leaves its department short-staffed (WARN rules)
+ */
+export interface StaffingWarningDTO {
+  department: string;
+  minPresent: number;
+  days: Array<{ date: string; present: number }>;
+}
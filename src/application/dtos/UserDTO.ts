@@ -42,6 +42,14 @@ export interface UpdateSensitiveFieldsDTO {
   performanceRating?: number;
 }
 
+/**
+ * Input DTO for changing who a user reports to
+ */
+export interface AssignManagerDTO {
+  userId: string;
+  managerId: string | null; // null removes the user from the reporting line
+}
+
 /**
  * Output DTO for user (public fields)
  */
@@ -61,6 +69,7 @@ export interface UserDTO {
   state?: string;
   zipCode?: string;
   country?: string;
+  managerId?: string;
   deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
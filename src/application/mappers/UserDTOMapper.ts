@@ -29,6 +29,7 @@ export class UserDTOMapper {
       state: user.state,
       zipCode: user.zipCode,
       country: user.country,
+      managerId: user.managerId,
       deletedAt: user.deletedAt,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
@@ -1,8 +1,46 @@
+import { ScreeningCategory } from '../../domain/value-objects/FeedbackScreening';
+import { FeedbackSummaryPoint } from '../../domain/entities/FeedbackSummary';
+
+/**
+ * AI providers that can polish, screen and summarize feedback
+ * - huggingface: hosted model on the HuggingFace Inference API
+ * - openai-compatible: any OpenAI-compatible endpoint, including local inference servers
+ * - rule-based: deterministic offline polisher, always available
+ */
+export const AI_PROVIDERS = ['huggingface', 'openai-compatible', 'rule-based'] as const;
+
+export type AIProviderName = (typeof AI_PROVIDERS)[number];
+
+/**
+ * Feedback handed to the AI to summarize
+ */
+export interface FeedbackForSummary {
+  id: string;
+  content: string;
+  type: string;
+  competencies: Array<{ name: string; rating?: number }>; // Named after the organization's framework
+  createdAt: Date;
+}
+
+/**
+ * Summary of feedback, every point citing the feedback it is drawn from
+ */
+export interface FeedbackSummaryContent {
+  themes: FeedbackSummaryPoint[];
+  strengths: FeedbackSummaryPoint[];
+  growthAreas: FeedbackSummaryPoint[];
+}
+
 /**
  * AI Service Port Interface
  * Defines contract for AI-powered features
  */
 export interface IAIService {
+  /**
+   * Provider behind this service
+   */
+  readonly provider: AIProviderName;
+
   /**
    * Check if AI service is available
    */
@@ -12,6 +50,37 @@ export interface IAIService {
    * Polish feedback content using AI
    */
   polishFeedback(content: string): Promise<string>;
+
+  /**
+   * Screen feedback for personal attacks, references to protected
+   * characteristics and profanity
+   * Falls back to a local lexicon, so screening always gives an answer
+   */
+  screenFeedback(content: string): Promise<ScreeningCategory[]>;
+
+  /**
+   * Summarize feedback into themes, strengths and growth areas
+   * Falls back to a rule-based summary, so summarizing always gives an answer
+   */
+  summarizeFeedback(feedback: FeedbackForSummary[]): Promise<FeedbackSummaryContent>;
+}
+
+/**
+ * AI Provider Registry Port Interface
+ * Picks the AI service to use among the registered providers
+ */
+export interface IAIProviderRegistry {
+  /**
+   * Get the service for a provider, e.g. the one an organization chose
+   * Falls back to the deployment default, then to the first available provider,
+   * when the provider is unknown or not configured
+   */
+  resolve(preferred?: string): IAIService;
+
+  /**
+   * List registered providers and whether each is configured
+   */
+  list(): Array<{ provider: AIProviderName; available: boolean; isDefault: boolean }>;
 }
 
 /**
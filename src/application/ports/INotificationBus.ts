@@ -0,0 +1,22 @@
+import { NotificationDTO } from '../dtos/NotificationDTO';
+
+/**
+ * Notification Bus Port Interface
+ * Delivers notifications to users' open connections as they are created
+ *
+ * The default implementation only reaches connections served by the same
+ * process; deployments running several instances can swap in a shared broker
+ * such as Redis pub/sub.
+ */
+export interface INotificationBus {
+  /**
+   * Deliver a notification to everyone subscribed to its user
+   */
+  publish(notification: NotificationDTO): Promise<void>;
+
+  /**
+   * Listen for a user's notifications
+   * @returns Function that stops listening
+   */
+  subscribe(userId: string, listener: (notification: NotificationDTO) => void): () => void;
+}
@@ -0,0 +1,42 @@
+import { NotificationDTO } from '../dtos/NotificationDTO';
+
+/**
+ * Email written for a specific notification, e.g. the absence status email
+ */
+export interface NotificationEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface NotificationRecipient {
+  email: string;
+  name: string;
+}
+
+/**
+ * Notification Mailer Port Interface
+ * Sends notifications by email, one at a time or as a digest
+ */
+export interface INotificationMailer {
+  /**
+   * Email a notification, using its own email when given one
+   * @throws Error if the email could not be sent
+   */
+  sendNotification(
+    recipient: NotificationRecipient,
+    notification: NotificationDTO,
+    email?: NotificationEmail
+  ): Promise<void>;
+
+  /**
+   * Email a digest of notifications, oldest first
+   * @param moreCount - Notifications left out of the digest
+   * @throws Error if the email could not be sent
+   */
+  sendDigest(
+    recipient: NotificationRecipient,
+    notifications: NotificationDTO[],
+    moreCount: number
+  ): Promise<void>;
+}
@@ -1,11 +1,15 @@
 import { IAbsenceRepository } from '../../../domain/repositories/IAbsenceRepository';
 import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { IHolidayCalendarRepository } from '../../../domain/repositories/IHolidayCalendarRepository';
 import { ILogger } from '../../ports/ILogger';
-import { AbsenceDTO } from '../../dtos/AbsenceDTO';
+import { AbsenceDTO, toApprovalStepDTOs } from '../../dtos/AbsenceDTO';
+import { HolidayCalendar } from '../../../domain/entities/HolidayCalendar';
+import { GetTeamCoverageUseCase } from './GetTeamCoverageUseCase';
 
 export interface ApproveAbsenceInput {
   absenceId: string;
   approverId: string;
+  comment?: string;
 }
 
 /**
@@ -15,14 +19,22 @@ export interface ApproveAbsenceInput {
  *
  * Business Rules:
  * - Only users with approval permissions can approve absences
- * - Managers can only approve absences in their department
+ * - Requests with an approval chain are approved one step at a time; only someone
+ *   eligible for the current step may decide it, and the request becomes APPROVED
+ *   once the last step passes
+ * - Requests without a chain can be approved by managers above the requester
+ * - The same person cannot approve two steps of one request
  * - Only pending absences can be approved
  * - Approver cannot be the absence requester
+ * - Approvals that would leave the department below its minimum staffing are
+ *   blocked or returned with a warning, depending on the rule
  */
 export class ApproveAbsenceUseCase {
   constructor(
     private readonly absenceRepository: IAbsenceRepository,
     private readonly userRepository: IUserRepository,
+    private readonly holidayCalendarRepository: IHolidayCalendarRepository,
+    private readonly getTeamCoverageUseCase: GetTeamCoverageUseCase,
     private readonly logger: ILogger
   ) {}
 
@@ -75,40 +87,60 @@ export class ApproveAbsenceUseCase {
       throw new Error('Cannot approve absences from different organizations');
     }
 
-    // 5. Check if approver can approve this specific absence
-    // Managers can only approve absences in their department
-    if (approver.isManager()) {
-      if (approver.department !== owner.department) {
-        throw new Error('Managers can only approve absences in their department');
-      }
-    }
-
-    // 6. Prevent self-approval
+    // 5. Prevent self-approval
     if (approver.id === owner.id) {
       throw new Error('Cannot approve your own absence request');
     }
 
-    // 6. Approve absence (this validates it's in pending status)
-    absence.approve();
+    // 6. Check the approver may decide: someone eligible for the current step of the
+    // approval chain, or (for requests without a chain) a manager above the requester
+    const managerChain = (await this.userRepository.findManagerChain(owner.id)).map((m) => m.id);
+    if (!absence.canBeDecidedBy(approver.asStepApprover(), managerChain)) {
+      const step = absence.currentApprovalStep();
+      throw new Error(
+        step
+          ? `This request is waiting on ${step.describe()} approval`
+          : 'Managers can only approve absences of people who report to them'
+      );
+    }
 
-    // 7. Save
+    // 7. Check the department would still be staffed (throws under a BLOCK rule)
+    const staffingWarning = absence.isPending()
+      ? await this.getTeamCoverageUseCase.checkRequest(absence)
+      : undefined;
+
+    // Approve the current step (this validates it's in pending status);
+    // the absence only becomes APPROVED once the last step passes
+    absence.approve(approver.id, input.comment);
+
+    // 8. Save
     const saved = await this.absenceRepository.save(absence);
 
     this.logger.info(
       { absenceId: saved.id, status: saved.status },
-      'Absence request approved successfully'
+      saved.isApproved()
+        ? 'Absence request approved successfully'
+        : 'Absence approval step recorded'
     );
 
-    // 8. Return DTO
+    // 9. Return DTO, counting working days against the owner's holidays
+    const calendars = await this.holidayCalendarRepository.findForUser(owner.id, owner.department);
+
     return {
       id: saved.id,
       userId: saved.userId,
       startDate: saved.dateRange.start,
       endDate: saved.dateRange.end,
+      dayPart: saved.dayPart.type,
+      startTime: saved.dayPart.startTime,
+      endTime: saved.dayPart.endTime,
       reason: saved.reason,
+      absenceTypeId: saved.absenceTypeId,
       status: saved.status,
-      workingDays: saved.getWorkingDays(),
+      approvalSteps: toApprovalStepDTOs(saved),
+      workingDays: saved.getWorkingDays(HolidayCalendar.dateKeysOf(calendars)),
       totalDays: saved.getTotalDays(),
+      staffingWarning,
       createdAt: saved.createdAt,
       updatedAt: saved.updatedAt,
       deletedAt: saved.deletedAt,
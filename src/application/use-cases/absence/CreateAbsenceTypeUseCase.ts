@@ -0,0 +1,67 @@
+import { IAbsenceTypeRepository } from '../../../domain/repositories/IAbsenceTypeRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { AbsenceType } from '../../../domain/entities/AbsenceType';
+import { AbsenceTypeDTO, CreateAbsenceTypeDTO, toAbsenceTypeDTO } from '../../dtos/AbsenceTypeDTO';
+import { getCurrentTenant } from '@/lib/tenant-context';
+
+export interface CreateAbsenceTypeInput extends CreateAbsenceTypeDTO {
+  requesterId: string;
+}
+
+/**
+ * Create Absence Type Use Case
+ *
+ * Adds a new absence type to the organization's configuration.
+ *
+ * Business Rules:
+ * - Only managers can configure absence types
+ * - Type names must be unique within the organization
+ */
+export class CreateAbsenceTypeUseCase {
+  constructor(
+    private readonly absenceTypeRepository: IAbsenceTypeRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: CreateAbsenceTypeInput): Promise<AbsenceTypeDTO> {
+    this.logger.info(
+      { requesterId: input.requesterId, name: input.name },
+      'Creating absence type'
+    );
+
+    // 1. Verify requester can configure absence types
+    const requester = await this.userRepository.findById(input.requesterId);
+    if (!requester || requester.isDeleted()) {
+      throw new Error('Requester not found');
+    }
+
+    if (!requester.isManager()) {
+      throw new Error('Only managers can configure absence types');
+    }
+
+    // 2. Enforce unique names
+    const name = input.name.trim();
+    if (await this.absenceTypeRepository.nameExists(name)) {
+      throw new Error(`An absence type named "${name}" already exists`);
+    }
+
+    // 3. Create and persist
+    const tenant = getCurrentTenant();
+    const absenceType = AbsenceType.create({
+      organizationId: tenant.organizationId,
+      name,
+      category: input.category,
+      color: input.color,
+      requiresApproval: input.requiresApproval,
+      countsAgainstAllowance: input.countsAgainstAllowance,
+    });
+
+    const saved = await this.absenceTypeRepository.save(absenceType);
+
+    this.logger.info({ absenceTypeId: saved.id }, 'Absence type created successfully');
+
+    return toAbsenceTypeDTO(saved);
+  }
+}
@@ -1,9 +1,19 @@
 import { IAbsenceRepository } from '../../../domain/repositories/IAbsenceRepository';
 import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { IAbsenceTypeRepository } from '../../../domain/repositories/IAbsenceTypeRepository';
+import { IHolidayCalendarRepository } from '../../../domain/repositories/IHolidayCalendarRepository';
+import { IOrganizationRepository } from '../../../domain/repositories/IOrganizationRepository';
 import { ILogger } from '../../ports/ILogger';
 import { Absence } from '../../../domain/entities/Absence';
+import { AbsenceType } from '../../../domain/entities/AbsenceType';
+import { HolidayCalendar } from '../../../domain/entities/HolidayCalendar';
 import { DateRange } from '../../../domain/value-objects/DateRange';
-import { CreateAbsenceDTO, AbsenceDTO } from '../../dtos/AbsenceDTO';
+import { DayPart, AbsenceDayPart } from '../../../domain/value-objects/DayPart';
+import { ApprovalWorkflow } from '../../../domain/value-objects/ApprovalWorkflow';
+import { CreateAbsenceDTO, AbsenceDTO, toApprovalStepDTOs } from '../../dtos/AbsenceDTO';
+import { toAbsenceTypeSummaryDTO } from '../../dtos/AbsenceTypeDTO';
+import { GetLeaveBalanceUseCase } from './GetLeaveBalanceUseCase';
+import { GetTeamCoverageUseCase } from './GetTeamCoverageUseCase';
 import { getCurrentTenant } from '@/lib/tenant-context';
 
 /**
@@ -12,14 +22,24 @@ import { getCurrentTenant } from '@/lib/tenant-context';
  *
  * Responsibilities:
  * - Validate user exists and is active
+ * - Validate the selected absence type
  * - Create absence with business rules validation
  * - Check for overlapping absences
+ * - Check the remaining leave balance (unless the policy allows going negative)
+ * - Check the department's minimum staffing (block, or warn in the result)
+ * - Auto-approve types that do not require approval
+ * - Start the approval chain configured for the type (or the organization default)
  * - Persist the absence request
  */
 export class CreateAbsenceUseCase {
   constructor(
     private readonly absenceRepository: IAbsenceRepository,
     private readonly userRepository: IUserRepository,
+    private readonly absenceTypeRepository: IAbsenceTypeRepository,
+    private readonly holidayCalendarRepository: IHolidayCalendarRepository,
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly getLeaveBalanceUseCase: GetLeaveBalanceUseCase,
+    private readonly getTeamCoverageUseCase: GetTeamCoverageUseCase,
     private readonly logger: ILogger
   ) {}
 
@@ -45,14 +65,36 @@ export class CreateAbsenceUseCase {
       // 2. Get organization context
       const tenant = getCurrentTenant();
 
-      // 3. Create date range - this validates date business rules
+      // 3. Resolve the absence type (optional for backwards compatibility)
+      let absenceType: AbsenceType | null = null;
+      if (input.absenceTypeId) {
+        absenceType = await this.absenceTypeRepository.findById(input.absenceTypeId);
+        if (!absenceType || absenceType.isDeleted()) {
+          throw new Error('Absence type not found');
+        }
+      }
+
+      // 4. Create date range - this validates date business rules
       // (end >= start, max duration, etc.)
       const dateRange = DateRange.create(input.startDate, input.endDate);
 
-      // 4. Create absence entity - this validates reason length, etc.
-      const absence = Absence.create(tenant.organizationId, input.userId, dateRange, input.reason);
+      // 5. Create absence entity - this validates reason length, that
+      // half-day and hourly requests fall on a single day, etc.
+      const dayPart = DayPart.create(
+        input.dayPart ?? AbsenceDayPart.FULL_DAY,
+        input.startTime,
+        input.endTime
+      );
+      const absence = Absence.create(
+        tenant.organizationId,
+        input.userId,
+        dateRange,
+        input.reason,
+        absenceType?.id,
+        dayPart
+      );
 
-      // 5. Check for overlapping absences
+      // 6. Check for overlapping absences
       this.logger.debug({ userId: input.userId }, 'Checking for overlapping absences');
 
       const overlapping = await this.absenceRepository.findOverlapping(
@@ -60,7 +102,7 @@ export class CreateAbsenceUseCase {
         dateRange
       );
 
-      // Use domain logic to check overlaps
+      // Use domain logic to check overlaps (partial days only clash if their times do)
       for (const existing of overlapping) {
         if (absence.overlapsWith(existing)) {
           const errorMsg = `Absence request overlaps with existing ${existing.status} request from ${existing.dateRange.start.toISOString().split('T')[0]} to ${existing.dateRange.end.toISOString().split('T')[0]}`;
@@ -75,20 +117,41 @@ export class CreateAbsenceUseCase {
         }
       }
 
-      // 6. Save the absence
+      // 7. Check leave balance for types that count against the allowance
+      // Working days skip the holidays the user observes
+      const calendars = await this.holidayCalendarRepository.findForUser(user.id, user.department);
+      const holidays = HolidayCalendar.dateKeysOf(calendars);
+
+      if (!absenceType || absenceType.countsAgainstAllowance) {
+        await this.ensureSufficientBalance(absence, holidays);
+      }
+
+      // Check the department would still be staffed (throws under a BLOCK rule)
+      const staffingWarning = await this.getTeamCoverageUseCase.checkRequest(absence);
+
+      // 8. Types that do not require approval (e.g. sick leave) are approved immediately;
+      // everything else goes through the type's (or organization's) approval chain
+      if (absenceType && !absenceType.requiresApproval) {
+        absence.approve();
+      } else {
+        const workflow = await this.resolveWorkflow(tenant.organizationId, absenceType);
+        absence.startApprovalChain(workflow.stepsFor(absence.getWorkingDays(holidays)));
+      }
+
+      // 9. Save the absence
       const saved = await this.absenceRepository.save(absence);
 
       this.logger.info(
         {
           absenceId: saved.id,
           userId: saved.userId,
-          workingDays: saved.getWorkingDays(),
+          workingDays: saved.getWorkingDays(holidays),
         },
         'Absence request created successfully'
       );
 
-      // 7. Return DTO (not domain entity)
-      return this.toDTO(saved);
+      // 10. Return DTO (not domain entity)
+      return { ...this.toDTO(saved, absenceType, holidays), staffingWarning };
     } catch (error) {
       this.logger.error(
         { error, userId: input.userId },
@@ -98,18 +161,80 @@ export class CreateAbsenceUseCase {
     }
   }
 
+  /**
+   * The absence type's approval workflow, falling back to the organization default
+   */
+  private async resolveWorkflow(
+    organizationId: string,
+    absenceType: AbsenceType | null
+  ): Promise<ApprovalWorkflow> {
+    const organization = await this.organizationRepository.findById(organizationId);
+    const organizationDefault = organization?.settings.approvalWorkflow;
+
+    return absenceType
+      ? absenceType.approvalWorkflow(organizationDefault)
+      : ApprovalWorkflow.fromSettings(organizationDefault);
+  }
+
+  /**
+   * Reject the request if it exceeds the remaining balance of any year it spans.
+   * Pending requests are reserved so they cannot be double-booked.
+   */
+  private async ensureSufficientBalance(
+    absence: Absence,
+    holidays: ReadonlySet<string>
+  ): Promise<void> {
+    const { start, end } = absence.dateRange;
+
+    for (let year = start.getFullYear(); year <= end.getFullYear(); year++) {
+      const requestedDays = absence.getWorkingDaysInYear(year, holidays);
+      if (requestedDays === 0) continue;
+
+      // Monthly accrual is evaluated at the (last) day of leave within the year
+      const yearEnd = new Date(year, 11, 31);
+      const balance = await this.getLeaveBalanceUseCase.execute({
+        userId: absence.userId,
+        year,
+        asOf: end < yearEnd ? end : yearEnd,
+      });
+
+      if (balance.allowNegativeBalance) continue;
+
+      const availableDays = balance.remainingDays - balance.pendingDays;
+      if (requestedDays > availableDays) {
+        this.logger.warn(
+          { userId: absence.userId, year, requestedDays, availableDays },
+          'Insufficient leave balance'
+        );
+        throw new Error(
+          `Insufficient leave balance: ${requestedDays} working days requested, ${Math.max(availableDays, 0)} available for ${year}`
+        );
+      }
+    }
+  }
+
   /**
    * Convert domain entity to DTO
    */
-  private toDTO(absence: Absence): AbsenceDTO {
+  private toDTO(
+    absence: Absence,
+    absenceType: AbsenceType | null,
+    holidays: ReadonlySet<string>
+  ): AbsenceDTO {
     return {
       id: absence.id,
       userId: absence.userId,
       startDate: absence.dateRange.start,
       endDate: absence.dateRange.end,
+      dayPart: absence.dayPart.type,
+      startTime: absence.dayPart.startTime,
+      endTime: absence.dayPart.endTime,
       reason: absence.reason,
+      absenceTypeId: absence.absenceTypeId,
+      absenceType: absenceType ? toAbsenceTypeSummaryDTO(absenceType) : undefined,
       status: absence.status,
-      workingDays: absence.getWorkingDays(),
+      approvalSteps: toApprovalStepDTOs(absence),
+      workingDays: absence.getWorkingDays(holidays),
       totalDays: absence.getTotalDays(),
       createdAt: absence.createdAt,
       updatedAt: absence.updatedAt,
@@ -0,0 +1,73 @@
+import { IHolidayCalendarRepository } from '../../../domain/repositories/IHolidayCalendarRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { HolidayCalendar } from '../../../domain/entities/HolidayCalendar';
+import {
+  CreateHolidayCalendarDTO,
+  HolidayCalendarDTO,
+  toHolidayCalendarDTO,
+} from '../../dtos/HolidayCalendarDTO';
+import { getCurrentTenant } from '@/lib/tenant-context';
+
+export interface CreateHolidayCalendarInput extends CreateHolidayCalendarDTO {
+  requesterId: string;
+}
+
+/**
+ * Create Holiday Calendar Use Case
+ *
+ * Adds a holiday calendar, optionally pre-filled (e.g. from an .ics import).
+ *
+ * Business Rules:
+ * - Only managers can configure holiday calendars
+ * - Calendar names must be unique within the organization
+ */
+export class CreateHolidayCalendarUseCase {
+  constructor(
+    private readonly holidayCalendarRepository: IHolidayCalendarRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: CreateHolidayCalendarInput): Promise<HolidayCalendarDTO> {
+    this.logger.info(
+      { requesterId: input.requesterId, name: input.name },
+      'Creating holiday calendar'
+    );
+
+    // 1. Verify requester can configure holiday calendars
+    const requester = await this.userRepository.findById(input.requesterId);
+    if (!requester || requester.isDeleted()) {
+      throw new Error('Requester not found');
+    }
+
+    if (!requester.isManager()) {
+      throw new Error('Only managers can configure holiday calendars');
+    }
+
+    // 2. Enforce unique names
+    const name = input.name.trim();
+    if (await this.holidayCalendarRepository.nameExists(name)) {
+      throw new Error(`A holiday calendar named "${name}" already exists`);
+    }
+
+    // 3. Create and persist
+    const tenant = getCurrentTenant();
+    const calendar = HolidayCalendar.create({
+      organizationId: tenant.organizationId,
+      name,
+      holidays: input.holidays,
+      departments: input.departments,
+      userIds: input.userIds,
+    });
+
+    const saved = await this.holidayCalendarRepository.save(calendar);
+
+    this.logger.info(
+      { calendarId: saved.id, holidays: saved.holidays.length },
+      'Holiday calendar created successfully'
+    );
+
+    return toHolidayCalendarDTO(saved);
+  }
+}
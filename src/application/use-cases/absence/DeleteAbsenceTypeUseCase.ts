@@ -0,0 +1,54 @@
+import { IAbsenceTypeRepository } from '../../../domain/repositories/IAbsenceTypeRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+
+export interface DeleteAbsenceTypeInput {
+  absenceTypeId: string;
+  requesterId: string;
+}
+
+/**
+ * Delete Absence Type Use Case
+ *
+ * Soft deletes an absence type so it can no longer be chosen.
+ *
+ * Business Rules:
+ * - Only managers can configure absence types
+ * - Existing requests keep their type for historical reporting
+ */
+export class DeleteAbsenceTypeUseCase {
+  constructor(
+    private readonly absenceTypeRepository: IAbsenceTypeRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: DeleteAbsenceTypeInput): Promise<void> {
+    this.logger.info(
+      { absenceTypeId: input.absenceTypeId, requesterId: input.requesterId },
+      'Deleting absence type'
+    );
+
+    // 1. Verify requester can configure absence types
+    const requester = await this.userRepository.findById(input.requesterId);
+    if (!requester || requester.isDeleted()) {
+      throw new Error('Requester not found');
+    }
+
+    if (!requester.isManager()) {
+      throw new Error('Only managers can configure absence types');
+    }
+
+    // 2. Get absence type
+    const absenceType = await this.absenceTypeRepository.findById(input.absenceTypeId);
+    if (!absenceType) {
+      throw new Error('Absence type not found');
+    }
+
+    // 3. Soft delete and persist
+    absenceType.softDelete();
+    await this.absenceTypeRepository.save(absenceType);
+
+    this.logger.info({ absenceTypeId: absenceType.id }, 'Absence type deleted successfully');
+  }
+}
@@ -0,0 +1,53 @@
+import { IHolidayCalendarRepository } from '../../../domain/repositories/IHolidayCalendarRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+
+export interface DeleteHolidayCalendarInput {
+  calendarId: string;
+  requesterId: string;
+}
+
+/**
+ * Delete Holiday Calendar Use Case
+ *
+ * Removes a holiday calendar together with its holidays.
+ *
+ * Business Rules:
+ * - Only managers can configure holiday calendars
+ * - Working days of existing requests are recalculated without the calendar
+ */
+export class DeleteHolidayCalendarUseCase {
+  constructor(
+    private readonly holidayCalendarRepository: IHolidayCalendarRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: DeleteHolidayCalendarInput): Promise<void> {
+    this.logger.info(
+      { calendarId: input.calendarId, requesterId: input.requesterId },
+      'Deleting holiday calendar'
+    );
+
+    // 1. Verify requester can configure holiday calendars
+    const requester = await this.userRepository.findById(input.requesterId);
+    if (!requester || requester.isDeleted()) {
+      throw new Error('Requester not found');
+    }
+
+    if (!requester.isManager()) {
+      throw new Error('Only managers can configure holiday calendars');
+    }
+
+    // 2. Get calendar
+    const calendar = await this.holidayCalendarRepository.findById(input.calendarId);
+    if (!calendar) {
+      throw new Error('Holiday calendar not found');
+    }
+
+    // 3. Delete
+    await this.holidayCalendarRepository.delete(calendar.id);
+
+    this.logger.info({ calendarId: calendar.id }, 'Holiday calendar deleted successfully');
+  }
+}
@@ -1,6 +1,11 @@
 import { IAbsenceRepository } from '../../../domain/repositories/IAbsenceRepository';
 import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { IAbsenceTypeRepository } from '../../../domain/repositories/IAbsenceTypeRepository';
+import { IHolidayCalendarRepository } from '../../../domain/repositories/IHolidayCalendarRepository';
+import { HolidayCalendar } from '../../../domain/entities/HolidayCalendar';
 import { ILogger } from '../../ports/ILogger';
+import { AbsenceTypeBreakdownDTO } from '../../dtos/AbsenceDTO';
+import { toAbsenceTypeSummaryDTO } from '../../dtos/AbsenceTypeDTO';
 
 export interface GetAbsenceStatisticsInput {
   userId: string;
@@ -12,6 +17,7 @@ export interface GetAbsenceStatisticsOutput {
   pendingRequests: number;
   rejectedRequests: number;
   totalRequests: number;
+  byType: AbsenceTypeBreakdownDTO[];
 }
 
 /**
@@ -21,13 +27,17 @@ export interface GetAbsenceStatisticsOutput {
  *
  * Business Rules:
  * - Statistics include all non-deleted absences
- * - Days are calculated based on working days (excluding weekends)
+ * - Days are calculated based on working days (excluding weekends and the
+ *   user's holidays)
  * - Approved days count only approved absences
+ * - Breakdown by absence type includes requests without a type
  */
 export class GetAbsenceStatisticsUseCase {
   constructor(
     private readonly absenceRepository: IAbsenceRepository,
     private readonly userRepository: IUserRepository,
+    private readonly absenceTypeRepository: IAbsenceTypeRepository,
+    private readonly holidayCalendarRepository: IHolidayCalendarRepository,
     private readonly logger: ILogger
   ) {}
 
@@ -40,8 +50,23 @@ export class GetAbsenceStatisticsUseCase {
       throw new Error('User not found');
     }
 
-    // 2. Get statistics from repository
-    const stats = await this.absenceRepository.getStatistics(input.userId);
+    // 2. Get statistics from repository, skipping the user's holidays
+    const calendars = await this.holidayCalendarRepository.findForUser(user.id, user.department);
+    const [stats, types] = await Promise.all([
+      this.absenceRepository.getStatistics(input.userId, HolidayCalendar.dateKeysOf(calendars)),
+      this.absenceTypeRepository.findAll({ includeDeleted: true }),
+    ]);
+
+    // 3. Resolve type details for the per-type breakdown
+    const typesById = new Map(types.map((t) => [t.id, t]));
+    const byType: AbsenceTypeBreakdownDTO[] = stats.byType.map((entry) => {
+      const absenceType = entry.absenceTypeId ? typesById.get(entry.absenceTypeId) : undefined;
+      return {
+        absenceType: absenceType ? toAbsenceTypeSummaryDTO(absenceType) : undefined,
+        requests: entry.requests,
+        approvedDays: entry.approvedDays,
+      };
+    });
 
     this.logger.info(
       { userId: input.userId, stats },
@@ -51,6 +76,7 @@ export class GetAbsenceStatisticsUseCase {
     return {
       ...stats,
       totalRequests: stats.pendingRequests + stats.rejectedRequests,
+      byType,
     };
   }
 }
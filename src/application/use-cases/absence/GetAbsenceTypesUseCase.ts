@@ -0,0 +1,55 @@
+import { IAbsenceTypeRepository } from '../../../domain/repositories/IAbsenceTypeRepository';
+import { ILogger } from '../../ports/ILogger';
+import { AbsenceType, DEFAULT_ABSENCE_TYPES } from '../../../domain/entities/AbsenceType';
+import { AbsenceTypeDTO, toAbsenceTypeDTO } from '../../dtos/AbsenceTypeDTO';
+import { getCurrentTenant } from '@/lib/tenant-context';
+
+export interface GetAbsenceTypesInput {
+  includeDeleted?: boolean;
+}
+
+/**
+ * Get Absence Types Use Case
+ *
+ * Lists the absence types configured for the current organization.
+ *
+ * Business Rules:
+ * - Organizations without any configured types get the default set
+ *   (vacation, sick, parental, unpaid) provisioned on first access
+ * - Deleted types are excluded by default
+ */
+export class GetAbsenceTypesUseCase {
+  constructor(
+    private readonly absenceTypeRepository: IAbsenceTypeRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: GetAbsenceTypesInput = {}): Promise<AbsenceTypeDTO[]> {
+    let types = await this.absenceTypeRepository.findAll({ includeDeleted: true });
+
+    // 1. Provision defaults for organizations that never configured types
+    if (types.length === 0) {
+      const tenant = getCurrentTenant();
+
+      this.logger.info(
+        { organizationId: tenant.organizationId },
+        'Provisioning default absence types'
+      );
+
+      types = await Promise.all(
+        DEFAULT_ABSENCE_TYPES.map((defaults) =>
+          this.absenceTypeRepository.save(
+            AbsenceType.create({ ...defaults, organizationId: tenant.organizationId })
+          )
+        )
+      );
+    }
+
+    // 2. Filter out deleted types unless requested
+    const visible = input.includeDeleted ? types : types.filter((t) => !t.isDeleted());
+
+    return visible
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(toAbsenceTypeDTO);
+  }
+}
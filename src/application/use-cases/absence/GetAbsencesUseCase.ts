@@ -1,8 +1,12 @@
 import { IAbsenceRepository } from '../../../domain/repositories/IAbsenceRepository';
 import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { IAbsenceTypeRepository } from '../../../domain/repositories/IAbsenceTypeRepository';
+import { IHolidayCalendarRepository } from '../../../domain/repositories/IHolidayCalendarRepository';
 import { ILogger } from '../../ports/ILogger';
-import { AbsenceDTO } from '../../dtos/AbsenceDTO';
+import { AbsenceDTO, toApprovalStepDTOs } from '../../dtos/AbsenceDTO';
+import { AbsenceTypeSummaryDTO, toAbsenceTypeSummaryDTO } from '../../dtos/AbsenceTypeDTO';
 import { AbsenceStatus } from '../../../domain/entities/Absence';
+import { HolidayCalendar } from '../../../domain/entities/HolidayCalendar';
 
 export interface GetAbsencesInput {
   userId?: string; // If provided, get absences for specific user
@@ -12,6 +16,8 @@ export interface GetAbsencesInput {
   take?: number;
   includeUser?: boolean;
   department?: string;
+  userIds?: string[]; // Restrict to these users (e.g. a manager's reports)
+  absenceTypeId?: string;
 }
 
 export interface GetAbsencesOutput {
@@ -29,11 +35,15 @@ export interface GetAbsencesOutput {
  * - Only active users' absences are returned by default
  * - Deleted absences are excluded by default
  * - Results are ordered by start date (most recent first)
+ * - Absence types are resolved including deleted ones, so history stays labelled
+ * - Working days exclude the holidays each absent user observes
  */
 export class GetAbsencesUseCase {
   constructor(
     private readonly absenceRepository: IAbsenceRepository,
     private readonly userRepository: IUserRepository,
+    private readonly absenceTypeRepository: IAbsenceTypeRepository,
+    private readonly holidayCalendarRepository: IHolidayCalendarRepository,
     private readonly logger: ILogger
   ) {}
 
@@ -43,6 +53,11 @@ export class GetAbsencesUseCase {
     let absences: AbsenceDTO[];
     let total: number;
 
+    const types = await this.absenceTypeRepository.findAll({ includeDeleted: true });
+    const typesById = new Map<string, AbsenceTypeSummaryDTO>(
+      types.map((t) => [t.id, toAbsenceTypeSummaryDTO(t)])
+    );
+
     if (input.userId) {
       // Get absences for specific user
       const user = await this.userRepository.findById(input.userId);
@@ -50,10 +65,15 @@ export class GetAbsencesUseCase {
         throw new Error('User not found');
       }
 
-      const result = await this.absenceRepository.findByUserId(input.userId, {
-        status: input.status,
-        includeDeleted: input.includeDeleted,
-      });
+      const result = (
+        await this.absenceRepository.findByUserId(input.userId, {
+          status: input.status,
+          includeDeleted: input.includeDeleted,
+        })
+      ).filter((absence) => !input.absenceTypeId || absence.absenceTypeId === input.absenceTypeId);
+
+      const calendars = await this.holidayCalendarRepository.findForUser(user.id, user.department);
+      const holidays = HolidayCalendar.dateKeysOf(calendars);
 
       // Apply pagination manually since findByUserId doesn't support it directly
       const start = input.skip || 0;
@@ -63,9 +83,16 @@ export class GetAbsencesUseCase {
         userId: absence.userId,
         startDate: absence.dateRange.start,
         endDate: absence.dateRange.end,
+        dayPart: absence.dayPart.type,
+        startTime: absence.dayPart.startTime,
+        endTime: absence.dayPart.endTime,
         reason: absence.reason,
+        absenceTypeId: absence.absenceTypeId,
+        absenceType: absence.absenceTypeId ? typesById.get(absence.absenceTypeId) : undefined,
         status: absence.status,
-        workingDays: absence.getWorkingDays(),
+        approvalSteps: toApprovalStepDTOs(absence),
+        cancellation: absence.cancellation,
+        workingDays: absence.getWorkingDays(holidays),
         totalDays: absence.getTotalDays(),
         createdAt: absence.createdAt,
         updatedAt: absence.updatedAt,
@@ -81,16 +108,41 @@ export class GetAbsencesUseCase {
         take: input.take,
         includeUser: input.includeUser,
         department: input.department,
+        userIds: input.userIds,
+        absenceTypeId: input.absenceTypeId,
       });
 
+      // Resolve each user's holidays once from the organization's calendars
+      const calendars = await this.holidayCalendarRepository.findAll();
+      const holidaysByUser = new Map<string, Set<string>>();
+      const holidaysFor = (userId: string, department?: string | null) => {
+        let holidays = holidaysByUser.get(userId);
+        if (!holidays) {
+          holidays = HolidayCalendar.dateKeysOf(
+            calendars.filter((c) => c.appliesTo(userId, department))
+          );
+          holidaysByUser.set(userId, holidays);
+        }
+        return holidays;
+      };
+
       absences = result.absences.map((absence, index) => ({
         id: absence.id,
         userId: absence.userId,
         startDate: absence.dateRange.start,
         endDate: absence.dateRange.end,
+        dayPart: absence.dayPart.type,
+        startTime: absence.dayPart.startTime,
+        endTime: absence.dayPart.endTime,
         reason: absence.reason,
+        absenceTypeId: absence.absenceTypeId,
+        absenceType: absence.absenceTypeId ? typesById.get(absence.absenceTypeId) : undefined,
         status: absence.status,
-        workingDays: absence.getWorkingDays(),
+        approvalSteps: toApprovalStepDTOs(absence),
+        cancellation: absence.cancellation,
+        workingDays: absence.getWorkingDays(
+          holidaysFor(absence.userId, result.users?.[index]?.department)
+        ),
         totalDays: absence.getTotalDays(),
         createdAt: absence.createdAt,
         updatedAt: absence.updatedAt,
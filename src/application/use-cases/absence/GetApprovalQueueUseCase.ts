@@ -0,0 +1,98 @@
+import { IAbsenceRepository } from '../../../domain/repositories/IAbsenceRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { AbsenceDTO } from '../../dtos/AbsenceDTO';
+import { Absence, AbsenceStatus } from '../../../domain/entities/Absence';
+import { GetAbsencesUseCase } from './GetAbsencesUseCase';
+
+export interface GetApprovalQueueInput {
+  approverId: string;
+  absenceTypeId?: string;
+}
+
+/**
+ * Get Approval Queue Use Case
+ *
+ * Lists the pending absence requests, and requests to cancel approved leave,
+ * a user can decide right now.
+ *
+ * Business Rules:
+ * - A request is listed when the user is eligible for its current approval step
+ *   (which may be outside their own reporting line, e.g. HR steps)
+ * - Requests without an approval chain are listed for managers above the requester
+ * - Cancellations are listed for the final approver and managers above the requester
+ * - A user never sees their own requests
+ */
+export class GetApprovalQueueUseCase {
+  constructor(
+    private readonly absenceRepository: IAbsenceRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly getAbsencesUseCase: GetAbsencesUseCase,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: GetApprovalQueueInput): Promise<AbsenceDTO[]> {
+    this.logger.debug({ approverId: input.approverId }, 'Getting approval queue');
+
+    // 1. Verify approver
+    const approver = await this.userRepository.findById(input.approverId);
+    if (!approver || approver.isDeleted()) {
+      throw new Error('Approver not found');
+    }
+
+    // 2. Find the pending requests and cancellations the approver can decide,
+    // resolving each requester's reporting line once
+    const [{ absences: pending }, { absences: approved }] = await Promise.all([
+      this.absenceRepository.findAll({
+        status: AbsenceStatus.PENDING,
+        absenceTypeId: input.absenceTypeId,
+      }),
+      this.absenceRepository.findAll({
+        status: AbsenceStatus.APPROVED,
+        absenceTypeId: input.absenceTypeId,
+      }),
+    ]);
+    const cancellations = approved.filter((absence) => absence.isCancellationPending());
+
+    const chains = new Map<string, string[]>();
+    const managerChainOf = async (userId: string): Promise<string[]> => {
+      let managerChain = chains.get(userId);
+      if (!managerChain) {
+        managerChain = (await this.userRepository.findManagerChain(userId)).map((m) => m.id);
+        chains.set(userId, managerChain);
+      }
+      return managerChain;
+    };
+
+    const decidable: Absence[] = [];
+    for (const absence of pending) {
+      if (absence.canBeDecidedBy(approver.asStepApprover(), await managerChainOf(absence.userId))) {
+        decidable.push(absence);
+      }
+    }
+    for (const absence of cancellations) {
+      const managerChain = await managerChainOf(absence.userId);
+      if (absence.canDecideCancellationBy(approver.asStepApprover(), managerChain)) {
+        decidable.push(absence);
+      }
+    }
+
+    if (decidable.length === 0) {
+      return [];
+    }
+
+    // 3. Return full DTOs (types, working days, requester info)
+    const decidableIds = new Set(decidable.map((absence) => absence.id));
+    const { absences } = await this.getAbsencesUseCase.execute({
+      includeUser: true,
+      userIds: Array.from(new Set(decidable.map((absence) => absence.userId))),
+      absenceTypeId: input.absenceTypeId,
+    });
+
+    const queue = absences.filter((absence) => decidableIds.has(absence.id));
+
+    this.logger.info({ approverId: approver.id, count: queue.length }, 'Approval queue retrieved');
+
+    return queue;
+  }
+}
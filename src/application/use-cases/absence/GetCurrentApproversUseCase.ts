@@ -0,0 +1,96 @@
+import { IAbsenceRepository } from '../../../domain/repositories/IAbsenceRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { User } from '../../../domain/entities/User';
+import { ApproverType } from '../../../domain/value-objects/ApprovalWorkflow';
+
+export interface GetCurrentApproversInput {
+  absenceId: string;
+}
+
+export interface CurrentApproversOutput {
+  step?: string; // Label of the current approval step, if the request has a chain
+  approvers: Array<{ id: string; name: string; email: string }>;
+}
+
+/**
+ * Get Current Approvers Use Case
+ *
+ * Resolves who should be asked to decide a pending absence request next,
+ * so they can be notified.
+ *
+ * Business Rules:
+ * - Reporting-line steps (and requests without a chain) go to the nearest eligible
+ *   manager rather than everyone up the line
+ * - Department steps go to every manager of that department
+ * - Named steps go to the named approver
+ * - Deleted users, the requester and anyone who already approved an earlier step are left out
+ */
+export class GetCurrentApproversUseCase {
+  constructor(
+    private readonly absenceRepository: IAbsenceRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: GetCurrentApproversInput): Promise<CurrentApproversOutput> {
+    // 1. Get the absence - only pending requests need approvers
+    const absence = await this.absenceRepository.findById(input.absenceId);
+    if (!absence || !absence.isPending() || absence.isDeleted()) {
+      return { approvers: [] };
+    }
+
+    // 2. Resolve the requester's reporting line
+    const managerChain = await this.userRepository.findManagerChain(absence.userId);
+    const managerChainIds = managerChain.map((m) => m.id);
+
+    // 3. Collect candidates for the current step
+    const step = absence.currentApprovalStep();
+    const approverType = step?.rule.approverType ?? ApproverType.REPORTING_MANAGER;
+
+    let candidates: User[];
+    switch (approverType) {
+      case ApproverType.REPORTING_MANAGER:
+        candidates = managerChain;
+        break;
+      case ApproverType.SECOND_LEVEL_MANAGER:
+        candidates = managerChain.slice(1);
+        break;
+      case ApproverType.DEPARTMENT_MANAGER:
+        candidates = (await this.userRepository.findAll({ department: step!.rule.department })).users;
+        break;
+      case ApproverType.SPECIFIC_USER: {
+        const named = await this.userRepository.findById(step!.rule.userId!);
+        candidates = named ? [named] : [];
+        break;
+      }
+    }
+
+    const eligible = candidates.filter(
+      (user) => !user.isDeleted() && absence.canBeDecidedBy(user.asStepApprover(), managerChainIds)
+    );
+
+    // Reporting-line steps only need the nearest eligible manager
+    const approvers =
+      approverType === ApproverType.REPORTING_MANAGER ||
+      approverType === ApproverType.SECOND_LEVEL_MANAGER
+        ? eligible.slice(0, 1)
+        : eligible;
+
+    if (approvers.length === 0) {
+      this.logger.warn(
+        { absenceId: absence.id, step: step?.describe() },
+        'No eligible approver found for absence request'
+      );
+    }
+
+    return {
+      step: step?.describe(),
+      approvers: approvers.map((user) => ({
+        id: user.id,
+        name: user.name,
+        email: user.email.value,
+      })),
+    };
+  }
+}
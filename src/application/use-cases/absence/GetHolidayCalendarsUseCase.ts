@@ -0,0 +1,23 @@
+import { IHolidayCalendarRepository } from '../../../domain/repositories/IHolidayCalendarRepository';
+import { ILogger } from '../../ports/ILogger';
+import { HolidayCalendarDTO, toHolidayCalendarDTO } from '../../dtos/HolidayCalendarDTO';
+
+/**
+ * Get Holiday Calendars Use Case
+ *
+ * Lists the organization's holiday calendars with their holidays and assignments.
+ */
+export class GetHolidayCalendarsUseCase {
+  constructor(
+    private readonly holidayCalendarRepository: IHolidayCalendarRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(): Promise<HolidayCalendarDTO[]> {
+    this.logger.debug('Getting holiday calendars');
+
+    const calendars = await this.holidayCalendarRepository.findAll();
+
+    return calendars.map(toHolidayCalendarDTO);
+  }
+}
@@ -0,0 +1,165 @@
+import { IAbsenceRepository } from '../../../domain/repositories/IAbsenceRepository';
+import { IAbsenceTypeRepository } from '../../../domain/repositories/IAbsenceTypeRepository';
+import { ILeaveBalanceRepository } from '../../../domain/repositories/ILeaveBalanceRepository';
+import { IOrganizationRepository } from '../../../domain/repositories/IOrganizationRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { IHolidayCalendarRepository } from '../../../domain/repositories/IHolidayCalendarRepository';
+import { ILogger } from '../../ports/ILogger';
+import { Absence, AbsenceStatus } from '../../../domain/entities/Absence';
+import { LeaveBalance } from '../../../domain/entities/LeaveBalance';
+import { HolidayCalendar } from '../../../domain/entities/HolidayCalendar';
+import { LeavePolicy } from '../../../domain/value-objects/LeavePolicy';
+import { LeaveBalanceDTO } from '../../dtos/LeaveBalanceDTO';
+import { getCurrentTenant } from '@/lib/tenant-context';
+
+export interface GetLeaveBalanceInput {
+  userId: string;
+  year?: number;
+  /**
+   * Date accrual is evaluated at (defaults to now)
+   */
+  asOf?: Date;
+}
+
+/**
+ * Get Leave Balance Use Case
+ *
+ * Computes a user's leave balance for a calendar year.
+ *
+ * Business Rules:
+ * - Accrual (monthly or up front) follows the organization's leave policy
+ * - A year's balance is opened on first access with the previous year's
+ *   allowance (or the policy default) and a capped carryover of unused days
+ * - Approved requests deduct their working days (excluding the user's holidays);
+ *   pending ones are reported separately
+ * - Only requests without a type or with a type that counts against the allowance are deducted
+ */
+export class GetLeaveBalanceUseCase {
+  constructor(
+    private readonly leaveBalanceRepository: ILeaveBalanceRepository,
+    private readonly absenceRepository: IAbsenceRepository,
+    private readonly absenceTypeRepository: IAbsenceTypeRepository,
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly holidayCalendarRepository: IHolidayCalendarRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: GetLeaveBalanceInput): Promise<LeaveBalanceDTO> {
+    const asOf = input.asOf ?? new Date();
+    const year = input.year ?? asOf.getFullYear();
+
+    this.logger.debug({ userId: input.userId, year }, 'Getting leave balance');
+
+    // 1. Verify user exists
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    // 2. Load the organization's leave policy
+    const policy = await this.getPolicy();
+
+    // 3. Collect absences that count against the allowance, and the user's holidays
+    const absences = await this.getCountableAbsences(input.userId);
+    const calendars = await this.holidayCalendarRepository.findForUser(user.id, user.department);
+    const holidays = HolidayCalendar.dateKeysOf(calendars);
+
+    // 4. Find or open the balance for the year
+    const balance = await this.findOrOpenBalance(
+      user.organizationId,
+      input.userId,
+      year,
+      policy,
+      absences,
+      holidays
+    );
+
+    // 5. Compute used and pending working days
+    const usedDays = this.sumWorkingDays(absences, AbsenceStatus.APPROVED, year, holidays);
+    const pendingDays = this.sumWorkingDays(absences, AbsenceStatus.PENDING, year, holidays);
+
+    return {
+      userId: input.userId,
+      year,
+      accrualMethod: policy.accrualMethod,
+      annualAllowance: balance.annualAllowance,
+      carriedOverDays: balance.carriedOverDays,
+      accruedDays: policy.accruedDays(balance.annualAllowance, year, asOf),
+      usedDays,
+      pendingDays,
+      remainingDays: balance.remainingDays(policy, usedDays, asOf),
+      allowNegativeBalance: policy.allowNegativeBalance,
+    };
+  }
+
+  private async getPolicy(): Promise<LeavePolicy> {
+    const tenant = getCurrentTenant();
+    const organization = await this.organizationRepository.findById(tenant.organizationId);
+    return LeavePolicy.fromSettings(organization?.settings.leavePolicy);
+  }
+
+  private async getCountableAbsences(userId: string): Promise<Absence[]> {
+    const [absences, types] = await Promise.all([
+      this.absenceRepository.findByUserId(userId),
+      this.absenceTypeRepository.findAll({ includeDeleted: true }),
+    ]);
+
+    const exemptTypeIds = new Set(types.filter((t) => !t.countsAgainstAllowance).map((t) => t.id));
+    return absences.filter((a) => !a.absenceTypeId || !exemptTypeIds.has(a.absenceTypeId));
+  }
+
+  private sumWorkingDays(
+    absences: Absence[],
+    status: AbsenceStatus,
+    year: number,
+    holidays: ReadonlySet<string>
+  ): number {
+    return absences
+      .filter((a) => a.status === status)
+      .reduce((total, a) => total + a.getWorkingDaysInYear(year, holidays), 0);
+  }
+
+  private async findOrOpenBalance(
+    organizationId: string,
+    userId: string,
+    year: number,
+    policy: LeavePolicy,
+    absences: Absence[],
+    holidays: ReadonlySet<string>
+  ): Promise<LeaveBalance> {
+    const existing = await this.leaveBalanceRepository.findByUserAndYear(userId, year);
+    if (existing) {
+      return existing;
+    }
+
+    // Carry over unused days from the previous year, if it was tracked
+    const previous = await this.leaveBalanceRepository.findByUserAndYear(userId, year - 1);
+    let carriedOverDays = 0;
+    if (previous) {
+      const previousUsed = this.sumWorkingDays(
+        absences,
+        AbsenceStatus.APPROVED,
+        year - 1,
+        holidays
+      );
+      const yearEnd = new Date(year - 1, 11, 31);
+      carriedOverDays = policy.carryoverFrom(previous.remainingDays(policy, previousUsed, yearEnd));
+    }
+
+    const balance = LeaveBalance.create(
+      organizationId,
+      userId,
+      year,
+      previous?.annualAllowance ?? policy.defaultAnnualAllowance,
+      carriedOverDays
+    );
+
+    this.logger.info(
+      { userId, year, annualAllowance: balance.annualAllowance, carriedOverDays },
+      'Opened leave balance'
+    );
+
+    return this.leaveBalanceRepository.save(balance);
+  }
+}
@@ -0,0 +1,140 @@
+import { IAbsenceRepository } from '../../../domain/repositories/IAbsenceRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { IOrganizationRepository } from '../../../domain/repositories/IOrganizationRepository';
+import { IHolidayCalendarRepository } from '../../../domain/repositories/IHolidayCalendarRepository';
+import { ILogger } from '../../ports/ILogger';
+import { Absence } from '../../../domain/entities/Absence';
+import { HolidayCalendar } from '../../../domain/entities/HolidayCalendar';
+import { DateRange } from '../../../domain/value-objects/DateRange';
+import { StaffingPolicy, StaffingRule } from '../../../domain/value-objects/StaffingPolicy';
+import { TeamCoverage } from '../../../domain/value-objects/TeamCoverage';
+import { TeamCoverageDTO, StaffingWarningDTO } from '../../dtos/TeamCoverageDTO';
+
+export interface GetTeamCoverageInput {
+  userId: string; // Whose department (and holidays) to look at
+  department?: string; // Look at another department instead (managers)
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Get Team Coverage Use Case
+ *
+ * Computes how many people of a department are present on each working day,
+ * from existing absence requests, against the department's minimum-staffing rule.
+ *
+ * Business Rules:
+ * - Approved leave counts as absent; pending requests are reported separately
+ * - Half days and hours count as a fraction of a person
+ * - Weekends and the user's holidays are skipped
+ * - Requests being created or approved are checked as if they were already approved;
+ *   BLOCK rules reject them, WARN rules return a warning
+ */
+export class GetTeamCoverageUseCase {
+  constructor(
+    private readonly absenceRepository: IAbsenceRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly holidayCalendarRepository: IHolidayCalendarRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: GetTeamCoverageInput): Promise<TeamCoverageDTO> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const department = input.department ?? user.department;
+    if (!department) {
+      return { department: '', headcount: 0, days: [] };
+    }
+
+    const organization = await this.organizationRepository.findById(user.organizationId);
+    const coverage = await this.calculate(
+      department,
+      DateRange.create(input.startDate, input.endDate),
+      await this.holidaysOf(user.id, department),
+      StaffingPolicy.fromSettings(organization?.settings.staffingRules).ruleFor(department)
+    );
+
+    return {
+      department,
+      headcount: coverage.days[0]?.headcount ?? 0,
+      minPresent: coverage.rule?.minPresent,
+      enforcement: coverage.rule?.enforcement,
+      days: coverage.days,
+    };
+  }
+
+  /**
+   * Check the coverage of the requester's department if this request were approved
+   * @throws when a BLOCK rule would be breached
+   * @returns the shortfall under a WARN rule, if any
+   */
+  async checkRequest(absence: Absence): Promise<StaffingWarningDTO | undefined> {
+    const owner = await this.userRepository.findById(absence.userId);
+    if (!owner?.department) {
+      return undefined;
+    }
+
+    const organization = await this.organizationRepository.findById(owner.organizationId);
+    const rule = StaffingPolicy.fromSettings(organization?.settings.staffingRules).ruleFor(
+      owner.department
+    );
+    if (!rule) {
+      return undefined;
+    }
+
+    const coverage = await this.calculate(
+      owner.department,
+      absence.dateRange,
+      await this.holidaysOf(owner.id, owner.department),
+      rule,
+      absence
+    );
+
+    const shortfalls = coverage.shortfalls();
+    if (shortfalls.length === 0) {
+      return undefined;
+    }
+
+    const dates = shortfalls.map((day) => day.date);
+    this.logger.warn(
+      { absenceId: absence.id, department: rule.department, dates, enforcement: rule.enforcement },
+      'Absence request breaches minimum staffing'
+    );
+
+    if (coverage.isBlocking()) {
+      throw new Error(
+        `${rule.department} needs at least ${rule.minPresent} ${rule.minPresent === 1 ? 'person' : 'people'} present; this request would leave fewer on ${dates.join(', ')}`
+      );
+    }
+
+    return {
+      department: rule.department,
+      minPresent: rule.minPresent,
+      days: shortfalls.map((day) => ({ date: day.date, present: day.present })),
+    };
+  }
+
+  private async calculate(
+    department: string,
+    range: DateRange,
+    holidays: ReadonlySet<string>,
+    rule?: StaffingRule,
+    assumeAbsent?: Absence
+  ): Promise<TeamCoverage> {
+    const [{ total: headcount }, { absences }] = await Promise.all([
+      this.userRepository.findAll({ department, take: 0 }),
+      this.absenceRepository.findAll({ department, overlapping: range }),
+    ]);
+
+    return TeamCoverage.calculate({ range, headcount, absences, rule, holidays, assumeAbsent });
+  }
+
+  private async holidaysOf(userId: string, department: string): Promise<Set<string>> {
+    const calendars = await this.holidayCalendarRepository.findForUser(userId, department);
+    return HolidayCalendar.dateKeysOf(calendars);
+  }
+}
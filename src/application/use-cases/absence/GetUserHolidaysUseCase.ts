@@ -0,0 +1,72 @@
+import { IHolidayCalendarRepository } from '../../../domain/repositories/IHolidayCalendarRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { DateRange } from '../../../domain/value-objects/DateRange';
+import { UserHolidayDTO } from '../../dtos/HolidayCalendarDTO';
+
+export interface GetUserHolidaysInput {
+  userId: string;
+  requesterId: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Get User Holidays Use Case
+ *
+ * Lists the holidays a user observes through calendars assigned to them
+ * or to their department.
+ *
+ * Business Rules:
+ * - Users see their own holidays; managers also see those of their reporting line
+ * - A date appearing in several calendars is listed once
+ * - Without a range, all holidays of the assigned calendars are returned
+ */
+export class GetUserHolidaysUseCase {
+  constructor(
+    private readonly holidayCalendarRepository: IHolidayCalendarRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: GetUserHolidaysInput): Promise<UserHolidayDTO[]> {
+    this.logger.debug({ userId: input.userId }, 'Getting user holidays');
+
+    // 1. Verify user exists
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    // 2. Check permissions: the user themselves, or a manager above them
+    if (input.requesterId !== user.id) {
+      const requester = await this.userRepository.findById(input.requesterId);
+      const reportIds = await this.userRepository.findReportIds(input.requesterId);
+      if (!requester || !requester.canApproveAbsencesOf(user, reportIds)) {
+        throw new Error("You do not have permission to view this user's holidays");
+      }
+    }
+
+    // 3. Resolve calendars assigned to the user or their department
+    const calendars = await this.holidayCalendarRepository.findForUser(user.id, user.department);
+    const range =
+      input.from && input.to ? DateRange.create(input.from, input.to) : undefined;
+
+    // 4. Flatten, keeping the first calendar's label for shared dates
+    const byDate = new Map<string, UserHolidayDTO>();
+    for (const calendar of calendars) {
+      const holidays = range ? calendar.holidaysIn(range) : calendar.holidays;
+      for (const holiday of holidays) {
+        if (!byDate.has(holiday.date)) {
+          byDate.set(holiday.date, {
+            ...holiday,
+            calendarId: calendar.id,
+            calendarName: calendar.name,
+          });
+        }
+      }
+    }
+
+    return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+}
@@ -1,11 +1,14 @@
 import { IAbsenceRepository } from '../../../domain/repositories/IAbsenceRepository';
 import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { IHolidayCalendarRepository } from '../../../domain/repositories/IHolidayCalendarRepository';
 import { ILogger } from '../../ports/ILogger';
-import { AbsenceDTO } from '../../dtos/AbsenceDTO';
+import { AbsenceDTO, toApprovalStepDTOs } from '../../dtos/AbsenceDTO';
+import { HolidayCalendar } from '../../../domain/entities/HolidayCalendar';
 
 export interface RejectAbsenceInput {
   absenceId: string;
   rejectorId: string;
+  comment: string; // Reason shown to the employee
 }
 
 /**
@@ -15,14 +18,18 @@ export interface RejectAbsenceInput {
  *
  * Business Rules:
  * - Only users with approval permissions can reject absences
- * - Managers can only reject absences in their department
+ * - Requests with an approval chain can be rejected by anyone eligible for the
+ *   current step; later steps are skipped
+ * - Requests without a chain can be rejected by managers above the requester
  * - Only pending absences can be rejected
  * - Rejector cannot be the absence requester
+ * - A rejection needs a reason, stored with the decision
  */
 export class RejectAbsenceUseCase {
   constructor(
     private readonly absenceRepository: IAbsenceRepository,
     private readonly userRepository: IUserRepository,
+    private readonly holidayCalendarRepository: IHolidayCalendarRepository,
     private readonly logger: ILogger
   ) {}
 
@@ -75,23 +82,27 @@ export class RejectAbsenceUseCase {
       throw new Error('Cannot reject absences from different organizations');
     }
 
-    // 5. Check if rejector can reject this specific absence
-    // Managers can only reject absences in their department
-    if (rejector.isManager()) {
-      if (rejector.department !== owner.department) {
-        throw new Error('Managers can only reject absences in their department');
-      }
-    }
-
-    // 6. Prevent self-rejection
+    // 5. Prevent self-rejection
     if (rejector.id === owner.id) {
       throw new Error('Cannot reject your own absence request');
     }
 
-    // 6. Reject absence (this validates it's in pending status)
-    absence.reject();
+    // 6. Check the rejector may decide: someone eligible for the current step of the
+    // approval chain, or (for requests without a chain) a manager above the requester
+    const managerChain = (await this.userRepository.findManagerChain(owner.id)).map((m) => m.id);
+    if (!absence.canBeDecidedBy(rejector.asStepApprover(), managerChain)) {
+      const step = absence.currentApprovalStep();
+      throw new Error(
+        step
+          ? `This request is waiting on ${step.describe()} approval`
+          : 'Managers can only reject absences of people who report to them'
+      );
+    }
+
+    // 7. Reject absence (this validates it's in pending status and has a reason)
+    absence.reject(rejector.id, input.comment);
 
-    // 7. Save
+    // 8. Save
     const saved = await this.absenceRepository.save(absence);
 
     this.logger.info(
@@ -99,15 +110,22 @@ export class RejectAbsenceUseCase {
       'Absence request rejected successfully'
     );
 
-    // 8. Return DTO
+    // 9. Return DTO, counting working days against the owner's holidays
+    const calendars = await this.holidayCalendarRepository.findForUser(owner.id, owner.department);
+
     return {
       id: saved.id,
       userId: saved.userId,
       startDate: saved.dateRange.start,
       endDate: saved.dateRange.end,
+      dayPart: saved.dayPart.type,
+      startTime: saved.dayPart.startTime,
+      endTime: saved.dayPart.endTime,
       reason: saved.reason,
+      absenceTypeId: saved.absenceTypeId,
       status: saved.status,
-      workingDays: saved.getWorkingDays(),
+      approvalSteps: toApprovalStepDTOs(saved),
+      workingDays: saved.getWorkingDays(HolidayCalendar.dateKeysOf(calendars)),
       totalDays: saved.getTotalDays(),
       createdAt: saved.createdAt,
       updatedAt: saved.updatedAt,
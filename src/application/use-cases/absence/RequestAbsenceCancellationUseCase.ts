@@ -0,0 +1,116 @@
+import { IAbsenceRepository } from '../../../domain/repositories/IAbsenceRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { IHolidayCalendarRepository } from '../../../domain/repositories/IHolidayCalendarRepository';
+import { ILogger } from '../../ports/ILogger';
+import { AbsenceDTO, toApprovalStepDTOs } from '../../dtos/AbsenceDTO';
+import { HolidayCalendar } from '../../../domain/entities/HolidayCalendar';
+import { User } from '../../../domain/entities/User';
+
+export interface RequestAbsenceCancellationInput {
+  absenceId: string;
+  userId: string; // Owner of the absence
+  reason: string;
+}
+
+export interface RequestAbsenceCancellationOutput {
+  absence: AbsenceDTO;
+  /** Who should be asked to decide the cancellation */
+  approvers: Array<{ id: string; name: string; email: string }>;
+}
+
+/**
+ * Request Absence Cancellation Use Case
+ *
+ * Asks to withdraw approved leave. The leave stays approved until an
+ * approver accepts the cancellation.
+ *
+ * Business Rules:
+ * - Only the owner can request cancellation of their leave
+ * - Only approved leave that has not started yet can be cancelled
+ * - A reason is required
+ * - The request goes back to whoever gave the final approval, or to the
+ *   requester's nearest manager if that person is no longer available
+ */
+export class RequestAbsenceCancellationUseCase {
+  constructor(
+    private readonly absenceRepository: IAbsenceRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly holidayCalendarRepository: IHolidayCalendarRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: RequestAbsenceCancellationInput): Promise<RequestAbsenceCancellationOutput> {
+    this.logger.info(
+      { absenceId: input.absenceId, userId: input.userId },
+      'Requesting absence cancellation'
+    );
+
+    // 1. Verify user exists
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.isDeleted()) {
+      throw new Error('User account is deleted');
+    }
+
+    // 2. Get absence and verify ownership
+    const absence = await this.absenceRepository.findById(input.absenceId);
+    if (!absence) {
+      throw new Error('Absence not found');
+    }
+
+    if (absence.userId !== user.id) {
+      throw new Error('You can only cancel your own leave');
+    }
+
+    // 3. Request cancellation (this validates it's approved, upcoming and has a reason)
+    absence.requestCancellation(input.reason);
+
+    // 4. Save
+    const saved = await this.absenceRepository.save(absence);
+
+    this.logger.info({ absenceId: saved.id }, 'Absence cancellation requested successfully');
+
+    // 5. Resolve who decides: the final approver, else the nearest manager
+    const managerChain = await this.userRepository.findManagerChain(user.id);
+    const finalApproverId = saved.approvalSteps.filter((step) => step.isApproved()).pop()?.decidedById;
+
+    let approver: User | undefined;
+    if (finalApproverId) {
+      const finalApprover = await this.userRepository.findById(finalApproverId);
+      if (finalApprover && !finalApprover.isDeleted()) {
+        approver = finalApprover;
+      }
+    }
+    approver ??= managerChain.find((manager) => !manager.isDeleted() && manager.isManager());
+
+    // 6. Return DTO, counting working days against the owner's holidays
+    const calendars = await this.holidayCalendarRepository.findForUser(user.id, user.department);
+
+    return {
+      absence: {
+        id: saved.id,
+        userId: saved.userId,
+        startDate: saved.dateRange.start,
+        endDate: saved.dateRange.end,
+        dayPart: saved.dayPart.type,
+        startTime: saved.dayPart.startTime,
+        endTime: saved.dayPart.endTime,
+        reason: saved.reason,
+        absenceTypeId: saved.absenceTypeId,
+        status: saved.status,
+        approvalSteps: toApprovalStepDTOs(saved),
+        cancellation: saved.cancellation,
+        workingDays: saved.getWorkingDays(HolidayCalendar.dateKeysOf(calendars)),
+        totalDays: saved.getTotalDays(),
+        createdAt: saved.createdAt,
+        updatedAt: saved.updatedAt,
+      },
+      approvers: approver
+        ? [{ id: approver.id, name: approver.name, email: approver.email.value }]
+        : [],
+    };
+  }
+}
@@ -0,0 +1,120 @@
+import { IAbsenceRepository } from '../../../domain/repositories/IAbsenceRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { IHolidayCalendarRepository } from '../../../domain/repositories/IHolidayCalendarRepository';
+import { ILogger } from '../../ports/ILogger';
+import { AbsenceDTO, toApprovalStepDTOs } from '../../dtos/AbsenceDTO';
+import { HolidayCalendar } from '../../../domain/entities/HolidayCalendar';
+
+export interface ReviewAbsenceCancellationInput {
+  absenceId: string;
+  approverId: string;
+  decision: 'APPROVED' | 'REJECTED';
+  comment?: string; // Required when declining, shown to the employee
+}
+
+/**
+ * Review Absence Cancellation Use Case
+ *
+ * Accepts or declines a request to withdraw approved leave.
+ *
+ * Business Rules:
+ * - Whoever gave the final approval, or any manager above the requester, can decide
+ * - Accepting marks the leave CANCELLED, releasing its days
+ * - Declining keeps the leave approved and needs a reason
+ * - Nobody can decide the cancellation of their own leave
+ */
+export class ReviewAbsenceCancellationUseCase {
+  constructor(
+    private readonly absenceRepository: IAbsenceRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly holidayCalendarRepository: IHolidayCalendarRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: ReviewAbsenceCancellationInput): Promise<AbsenceDTO> {
+    this.logger.info(
+      { absenceId: input.absenceId, approverId: input.approverId, decision: input.decision },
+      'Reviewing absence cancellation'
+    );
+
+    // 1. Verify approver exists
+    const approver = await this.userRepository.findById(input.approverId);
+    if (!approver) {
+      throw new Error('Approver not found');
+    }
+
+    if (approver.isDeleted()) {
+      throw new Error('Approver account is deleted');
+    }
+
+    // 2. Get absence
+    const absence = await this.absenceRepository.findById(input.absenceId);
+    if (!absence) {
+      throw new Error('Absence not found');
+    }
+
+    // 3. Get absence owner
+    const owner = await this.userRepository.findById(absence.userId);
+    if (!owner) {
+      throw new Error('Absence owner not found');
+    }
+
+    // 4. SECURITY: Verify organization boundary - approver and owner must be in the same organization
+    if (approver.organizationId !== owner.organizationId) {
+      this.logger.warn(
+        {
+          approverId: approver.id,
+          approverOrg: approver.organizationId,
+          ownerOrg: owner.organizationId,
+        },
+        'Cross-organization cancellation review attempt blocked'
+      );
+      throw new Error('Cannot review absences from different organizations');
+    }
+
+    // 5. Check the approver may decide
+    if (absence.isCancellationPending()) {
+      const managerChain = (await this.userRepository.findManagerChain(owner.id)).map((m) => m.id);
+      if (!absence.canDecideCancellationBy(approver.asStepApprover(), managerChain)) {
+        throw new Error('You do not have permission to decide this cancellation');
+      }
+    }
+
+    // 6. Decide (this validates a cancellation is pending and a decline has a reason)
+    if (input.decision === 'APPROVED') {
+      absence.approveCancellation(approver.id, input.comment);
+    } else {
+      absence.rejectCancellation(approver.id, input.comment ?? '');
+    }
+
+    // 7. Save
+    const saved = await this.absenceRepository.save(absence);
+
+    this.logger.info(
+      { absenceId: saved.id, status: saved.status },
+      'Absence cancellation reviewed successfully'
+    );
+
+    // 8. Return DTO, counting working days against the owner's holidays
+    const calendars = await this.holidayCalendarRepository.findForUser(owner.id, owner.department);
+
+    return {
+      id: saved.id,
+      userId: saved.userId,
+      startDate: saved.dateRange.start,
+      endDate: saved.dateRange.end,
+      dayPart: saved.dayPart.type,
+      startTime: saved.dayPart.startTime,
+      endTime: saved.dayPart.endTime,
+      reason: saved.reason,
+      absenceTypeId: saved.absenceTypeId,
+      status: saved.status,
+      approvalSteps: toApprovalStepDTOs(saved),
+      cancellation: saved.cancellation,
+      workingDays: saved.getWorkingDays(HolidayCalendar.dateKeysOf(calendars)),
+      totalDays: saved.getTotalDays(),
+      createdAt: saved.createdAt,
+      updatedAt: saved.updatedAt,
+    };
+  }
+}
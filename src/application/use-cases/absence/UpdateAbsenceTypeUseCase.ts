@@ -0,0 +1,71 @@
+import { IAbsenceTypeRepository } from '../../../domain/repositories/IAbsenceTypeRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { AbsenceTypeDTO, CreateAbsenceTypeDTO, toAbsenceTypeDTO } from '../../dtos/AbsenceTypeDTO';
+
+export interface UpdateAbsenceTypeInput extends Partial<CreateAbsenceTypeDTO> {
+  absenceTypeId: string;
+  requesterId: string;
+}
+
+/**
+ * Update Absence Type Use Case
+ *
+ * Changes the configuration of an existing absence type.
+ *
+ * Business Rules:
+ * - Only managers can configure absence types
+ * - Type names must stay unique within the organization
+ * - Deleted types cannot be updated
+ */
+export class UpdateAbsenceTypeUseCase {
+  constructor(
+    private readonly absenceTypeRepository: IAbsenceTypeRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: UpdateAbsenceTypeInput): Promise<AbsenceTypeDTO> {
+    this.logger.info(
+      { absenceTypeId: input.absenceTypeId, requesterId: input.requesterId },
+      'Updating absence type'
+    );
+
+    // 1. Verify requester can configure absence types
+    const requester = await this.userRepository.findById(input.requesterId);
+    if (!requester || requester.isDeleted()) {
+      throw new Error('Requester not found');
+    }
+
+    if (!requester.isManager()) {
+      throw new Error('Only managers can configure absence types');
+    }
+
+    // 2. Get absence type
+    const absenceType = await this.absenceTypeRepository.findById(input.absenceTypeId);
+    if (!absenceType) {
+      throw new Error('Absence type not found');
+    }
+
+    // 3. Enforce unique names
+    const name = input.name?.trim();
+    if (name && (await this.absenceTypeRepository.nameExists(name, absenceType.id))) {
+      throw new Error(`An absence type named "${name}" already exists`);
+    }
+
+    // 4. Apply updates via domain logic and persist
+    absenceType.update({
+      name,
+      category: input.category,
+      color: input.color,
+      requiresApproval: input.requiresApproval,
+      countsAgainstAllowance: input.countsAgainstAllowance,
+    });
+
+    const saved = await this.absenceTypeRepository.save(absenceType);
+
+    this.logger.info({ absenceTypeId: saved.id }, 'Absence type updated successfully');
+
+    return toAbsenceTypeDTO(saved);
+  }
+}
@@ -0,0 +1,241 @@
+import { IAbsenceRepository } from '../../../domain/repositories/IAbsenceRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { IAbsenceTypeRepository } from '../../../domain/repositories/IAbsenceTypeRepository';
+import { IHolidayCalendarRepository } from '../../../domain/repositories/IHolidayCalendarRepository';
+import { IOrganizationRepository } from '../../../domain/repositories/IOrganizationRepository';
+import { ILogger } from '../../ports/ILogger';
+import { Absence } from '../../../domain/entities/Absence';
+import { AbsenceType } from '../../../domain/entities/AbsenceType';
+import { HolidayCalendar } from '../../../domain/entities/HolidayCalendar';
+import { DateRange } from '../../../domain/value-objects/DateRange';
+import { DayPart, AbsenceDayPart } from '../../../domain/value-objects/DayPart';
+import { ApprovalWorkflow } from '../../../domain/value-objects/ApprovalWorkflow';
+import { AbsenceDTO, toApprovalStepDTOs } from '../../dtos/AbsenceDTO';
+import { toAbsenceTypeSummaryDTO } from '../../dtos/AbsenceTypeDTO';
+import { GetLeaveBalanceUseCase } from './GetLeaveBalanceUseCase';
+
+export interface UpdateAbsenceInput {
+  absenceId: string;
+  editorId: string; // User making the change
+  startDate: Date;
+  endDate: Date;
+  dayPart?: AbsenceDayPart;
+  startTime?: string;
+  endTime?: string;
+  reason: string;
+}
+
+/**
+ * Update Absence Use Case
+ *
+ * Changes the dates, part of day or reason of a pending absence request.
+ *
+ * Business Rules:
+ * - Users can edit their own pending requests
+ * - Managers can edit pending requests of people who report to them
+ * - The edited request must not overlap the user's other requests
+ * - The edited request must fit the remaining leave balance, counting the
+ *   days this request already reserved as available
+ * - Approvals already given are discarded and the approval chain restarts
+ */
+export class UpdateAbsenceUseCase {
+  constructor(
+    private readonly absenceRepository: IAbsenceRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly absenceTypeRepository: IAbsenceTypeRepository,
+    private readonly holidayCalendarRepository: IHolidayCalendarRepository,
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly getLeaveBalanceUseCase: GetLeaveBalanceUseCase,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: UpdateAbsenceInput): Promise<AbsenceDTO> {
+    this.logger.info(
+      { absenceId: input.absenceId, editorId: input.editorId },
+      'Updating absence request'
+    );
+
+    // 1. Verify editor exists
+    const editor = await this.userRepository.findById(input.editorId);
+    if (!editor) {
+      throw new Error('User not found');
+    }
+
+    if (editor.isDeleted()) {
+      throw new Error('User account is deleted');
+    }
+
+    // 2. Get absence
+    const absence = await this.absenceRepository.findById(input.absenceId);
+    if (!absence) {
+      throw new Error('Absence not found');
+    }
+
+    // 3. Get absence owner
+    const owner = await this.userRepository.findById(absence.userId);
+    if (!owner) {
+      throw new Error('Absence owner not found');
+    }
+
+    // 4. SECURITY: Verify organization boundary - editor and owner must be in the same organization
+    if (editor.organizationId !== owner.organizationId) {
+      this.logger.warn(
+        {
+          editorId: editor.id,
+          editorOrg: editor.organizationId,
+          ownerOrg: owner.organizationId,
+        },
+        'Cross-organization absence update attempt blocked'
+      );
+      throw new Error('Cannot edit absences from different organizations');
+    }
+
+    // 5. Check permissions: the owner, or a manager above them
+    if (editor.id !== owner.id) {
+      const reportIds = await this.userRepository.findReportIds(editor.id);
+      if (!editor.canApproveAbsencesOf(owner, reportIds)) {
+        throw new Error('You do not have permission to edit this absence');
+      }
+    }
+
+    // 6. Working days skip the holidays the owner observes
+    const calendars = await this.holidayCalendarRepository.findForUser(owner.id, owner.department);
+    const holidays = HolidayCalendar.dateKeysOf(calendars);
+
+    // Days this request reserves now, per year, before it changes
+    const dateRange = DateRange.create(input.startDate, input.endDate);
+    const reservedDays = new Map<number, number>();
+    for (let year = dateRange.start.getFullYear(); year <= dateRange.end.getFullYear(); year++) {
+      reservedDays.set(year, absence.getWorkingDaysInYear(year, holidays));
+    }
+
+    // 7. Apply the change (this validates it's pending, not moved into the past,
+    // and that half-day and hourly requests fall on a single day)
+    absence.update({
+      dateRange,
+      dayPart: DayPart.create(
+        input.dayPart ?? AbsenceDayPart.FULL_DAY,
+        input.startTime,
+        input.endTime
+      ),
+      reason: input.reason,
+    });
+
+    // 8. Check for overlapping absences, ignoring this request
+    const overlapping = await this.absenceRepository.findOverlapping(
+      absence.userId,
+      absence.dateRange,
+      absence.id
+    );
+
+    for (const existing of overlapping) {
+      if (absence.overlapsWith(existing)) {
+        this.logger.warn(
+          { absenceId: absence.id, conflictingAbsenceId: existing.id },
+          'Absence overlap detected'
+        );
+        throw new Error(
+          `Absence request overlaps with existing ${existing.status} request from ${existing.dateRange.start.toISOString().split('T')[0]} to ${existing.dateRange.end.toISOString().split('T')[0]}`
+        );
+      }
+    }
+
+    // 9. Check leave balance for types that count against the allowance
+    let absenceType: AbsenceType | null = null;
+    if (absence.absenceTypeId) {
+      absenceType = await this.absenceTypeRepository.findById(absence.absenceTypeId);
+    }
+
+    if (!absenceType || absenceType.countsAgainstAllowance) {
+      await this.ensureSufficientBalance(absence, holidays, reservedDays);
+    }
+
+    // 10. Restart the approval chain for the changed request
+    if (!absenceType || absenceType.requiresApproval) {
+      const workflow = await this.resolveWorkflow(owner.organizationId, absenceType);
+      absence.startApprovalChain(workflow.stepsFor(absence.getWorkingDays(holidays)));
+    }
+
+    // 11. Save
+    const saved = await this.absenceRepository.save(absence);
+
+    this.logger.info(
+      { absenceId: saved.id, workingDays: saved.getWorkingDays(holidays) },
+      'Absence request updated successfully'
+    );
+
+    // 12. Return DTO
+    return {
+      id: saved.id,
+      userId: saved.userId,
+      startDate: saved.dateRange.start,
+      endDate: saved.dateRange.end,
+      dayPart: saved.dayPart.type,
+      startTime: saved.dayPart.startTime,
+      endTime: saved.dayPart.endTime,
+      reason: saved.reason,
+      absenceTypeId: saved.absenceTypeId,
+      absenceType: absenceType ? toAbsenceTypeSummaryDTO(absenceType) : undefined,
+      status: saved.status,
+      approvalSteps: toApprovalStepDTOs(saved),
+      workingDays: saved.getWorkingDays(holidays),
+      totalDays: saved.getTotalDays(),
+      createdAt: saved.createdAt,
+      updatedAt: saved.updatedAt,
+    };
+  }
+
+  /**
+   * The absence type's approval workflow, falling back to the organization default
+   */
+  private async resolveWorkflow(
+    organizationId: string,
+    absenceType: AbsenceType | null
+  ): Promise<ApprovalWorkflow> {
+    const organization = await this.organizationRepository.findById(organizationId);
+    const organizationDefault = organization?.settings.approvalWorkflow;
+
+    return absenceType
+      ? absenceType.approvalWorkflow(organizationDefault)
+      : ApprovalWorkflow.fromSettings(organizationDefault);
+  }
+
+  /**
+   * Reject the change if it exceeds the remaining balance of any year it spans.
+   * The days this pending request already reserved are given back first.
+   */
+  private async ensureSufficientBalance(
+    absence: Absence,
+    holidays: ReadonlySet<string>,
+    reservedDays: ReadonlyMap<number, number>
+  ): Promise<void> {
+    const { start, end } = absence.dateRange;
+
+    for (let year = start.getFullYear(); year <= end.getFullYear(); year++) {
+      const requestedDays = absence.getWorkingDaysInYear(year, holidays);
+      if (requestedDays === 0) continue;
+
+      // Monthly accrual is evaluated at the (last) day of leave within the year
+      const yearEnd = new Date(year, 11, 31);
+      const balance = await this.getLeaveBalanceUseCase.execute({
+        userId: absence.userId,
+        year,
+        asOf: end < yearEnd ? end : yearEnd,
+      });
+
+      if (balance.allowNegativeBalance) continue;
+
+      const availableDays =
+        balance.remainingDays - balance.pendingDays + (reservedDays.get(year) ?? 0);
+      if (requestedDays > availableDays) {
+        this.logger.warn(
+          { absenceId: absence.id, year, requestedDays, availableDays },
+          'Insufficient leave balance'
+        );
+        throw new Error(
+          `Insufficient leave balance: ${requestedDays} working days requested, ${Math.max(availableDays, 0)} available for ${year}`
+        );
+      }
+    }
+  }
+}
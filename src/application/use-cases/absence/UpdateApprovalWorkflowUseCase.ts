@@ -0,0 +1,92 @@
+import { IAbsenceTypeRepository } from '../../../domain/repositories/IAbsenceTypeRepository';
+import { IOrganizationRepository } from '../../../domain/repositories/IOrganizationRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import {
+  ApprovalStepRule,
+  ApprovalWorkflow,
+  ApproverType,
+} from '../../../domain/value-objects/ApprovalWorkflow';
+import { ILogger } from '../../ports/ILogger';
+
+export interface UpdateApprovalWorkflowInput {
+  requesterId: string;
+  /** Override the workflow of one absence type instead of the organization default */
+  absenceTypeId?: string;
+  /** null resets to the default (organization workflow, or a single manager step) */
+  steps: ApprovalStepRule[] | null;
+}
+
+/**
+ * Update Approval Workflow Use Case
+ *
+ * Configures the approval chain absence requests go through, either for the
+ * whole organization or for a single absence type.
+ *
+ * Business Rules:
+ * - Only managers can configure approval workflows
+ * - Named approvers must be active managers of the organization
+ * - Requests already in flight keep the steps they were created with
+ */
+export class UpdateApprovalWorkflowUseCase {
+  constructor(
+    private readonly absenceTypeRepository: IAbsenceTypeRepository,
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: UpdateApprovalWorkflowInput): Promise<ApprovalStepRule[] | null> {
+    this.logger.info(
+      { requesterId: input.requesterId, absenceTypeId: input.absenceTypeId },
+      'Updating approval workflow'
+    );
+
+    // 1. Verify requester can configure workflows
+    const requester = await this.userRepository.findById(input.requesterId);
+    if (!requester || requester.isDeleted()) {
+      throw new Error('Requester not found');
+    }
+
+    if (!requester.isManager()) {
+      throw new Error('Only managers can configure approval workflows');
+    }
+
+    // 2. Validate the chain and its named approvers
+    const steps = input.steps ? ApprovalWorkflow.create(input.steps).toObject() : null;
+
+    for (const step of steps ?? []) {
+      if (step.approverType !== ApproverType.SPECIFIC_USER || !step.userId) continue;
+
+      const approver = await this.userRepository.findById(step.userId);
+      if (!approver || approver.isDeleted() || !approver.isManager()) {
+        throw new Error('Named approvers must be active managers');
+      }
+    }
+
+    // 3. Apply to the absence type or the organization and persist
+    if (input.absenceTypeId) {
+      const absenceType = await this.absenceTypeRepository.findById(input.absenceTypeId);
+      if (!absenceType) {
+        throw new Error('Absence type not found');
+      }
+
+      absenceType.setApprovalSteps(steps);
+      await this.absenceTypeRepository.save(absenceType);
+    } else {
+      const organization = await this.organizationRepository.findById(requester.organizationId);
+      if (!organization) {
+        throw new Error('Organization not found');
+      }
+
+      organization.updateSettings({ approvalWorkflow: steps ?? undefined });
+      await this.organizationRepository.save(organization);
+    }
+
+    this.logger.info(
+      { absenceTypeId: input.absenceTypeId, steps: steps?.length ?? 0 },
+      'Approval workflow updated successfully'
+    );
+
+    return steps;
+  }
+}
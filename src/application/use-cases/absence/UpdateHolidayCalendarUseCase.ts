@@ -0,0 +1,83 @@
+import { IHolidayCalendarRepository } from '../../../domain/repositories/IHolidayCalendarRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { Holiday } from '../../../domain/entities/HolidayCalendar';
+import { HolidayCalendarDTO, toHolidayCalendarDTO } from '../../dtos/HolidayCalendarDTO';
+
+export interface UpdateHolidayCalendarInput {
+  calendarId: string;
+  requesterId: string;
+  name?: string;
+  holidays?: Holiday[]; // Replaces the full list
+  addHolidays?: Holiday[]; // Merged into the existing list (e.g. .ics import)
+  departments?: string[];
+  userIds?: string[];
+}
+
+/**
+ * Update Holiday Calendar Use Case
+ *
+ * Renames a calendar, edits its holidays or changes who observes it.
+ *
+ * Business Rules:
+ * - Only managers can configure holiday calendars
+ * - Calendar names must stay unique within the organization
+ * - Imported holidays replace existing entries on the same date
+ */
+export class UpdateHolidayCalendarUseCase {
+  constructor(
+    private readonly holidayCalendarRepository: IHolidayCalendarRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: UpdateHolidayCalendarInput): Promise<HolidayCalendarDTO> {
+    this.logger.info(
+      { calendarId: input.calendarId, requesterId: input.requesterId },
+      'Updating holiday calendar'
+    );
+
+    // 1. Verify requester can configure holiday calendars
+    const requester = await this.userRepository.findById(input.requesterId);
+    if (!requester || requester.isDeleted()) {
+      throw new Error('Requester not found');
+    }
+
+    if (!requester.isManager()) {
+      throw new Error('Only managers can configure holiday calendars');
+    }
+
+    // 2. Get calendar
+    const calendar = await this.holidayCalendarRepository.findById(input.calendarId);
+    if (!calendar) {
+      throw new Error('Holiday calendar not found');
+    }
+
+    // 3. Enforce unique names on rename
+    if (input.name !== undefined) {
+      const name = input.name.trim();
+      if (await this.holidayCalendarRepository.nameExists(name, calendar.id)) {
+        throw new Error(`A holiday calendar named "${name}" already exists`);
+      }
+      calendar.rename(name);
+    }
+
+    // 4. Apply holiday and assignment changes
+    if (input.holidays !== undefined) {
+      calendar.replaceHolidays(input.holidays);
+    }
+    if (input.addHolidays !== undefined) {
+      calendar.addHolidays(input.addHolidays);
+    }
+    if (input.departments !== undefined || input.userIds !== undefined) {
+      calendar.assign({ departments: input.departments, userIds: input.userIds });
+    }
+
+    // 5. Persist
+    const saved = await this.holidayCalendarRepository.save(calendar);
+
+    this.logger.info({ calendarId: saved.id }, 'Holiday calendar updated successfully');
+
+    return toHolidayCalendarDTO(saved);
+  }
+}
@@ -0,0 +1,65 @@
+import { ILeaveBalanceRepository } from '../../../domain/repositories/ILeaveBalanceRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { LeaveBalanceDTO } from '../../dtos/LeaveBalanceDTO';
+import { GetLeaveBalanceUseCase } from './GetLeaveBalanceUseCase';
+
+export interface UpdateLeaveAllowanceInput {
+  userId: string;
+  requesterId: string;
+  year: number;
+  annualAllowance: number;
+}
+
+/**
+ * Update Leave Allowance Use Case
+ *
+ * Sets a user's yearly allowance (e.g. for part-time staff or seniority).
+ *
+ * Business Rules:
+ * - Only managers can change allowances
+ * - The new allowance is inherited by following years when they are opened
+ */
+export class UpdateLeaveAllowanceUseCase {
+  constructor(
+    private readonly leaveBalanceRepository: ILeaveBalanceRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly getLeaveBalanceUseCase: GetLeaveBalanceUseCase,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: UpdateLeaveAllowanceInput): Promise<LeaveBalanceDTO> {
+    this.logger.info(
+      { userId: input.userId, requesterId: input.requesterId, year: input.year },
+      'Updating leave allowance'
+    );
+
+    // 1. Verify requester is a manager
+    const requester = await this.userRepository.findById(input.requesterId);
+    if (!requester) {
+      throw new Error('Requester not found');
+    }
+    if (!requester.isManager()) {
+      throw new Error('Only managers can change leave allowances');
+    }
+
+    // 2. Make sure the year's balance exists (opens it with carryover if needed)
+    await this.getLeaveBalanceUseCase.execute({ userId: input.userId, year: input.year });
+
+    const balance = await this.leaveBalanceRepository.findByUserAndYear(input.userId, input.year);
+    if (!balance) {
+      throw new Error('Leave balance not found');
+    }
+
+    // 3. Apply and persist
+    balance.updateAllowance(input.annualAllowance);
+    await this.leaveBalanceRepository.save(balance);
+
+    this.logger.info(
+      { userId: input.userId, year: input.year, annualAllowance: input.annualAllowance },
+      'Leave allowance updated successfully'
+    );
+
+    return this.getLeaveBalanceUseCase.execute({ userId: input.userId, year: input.year });
+  }
+}
@@ -1,9 +1,12 @@
 import { IAbsenceRepository } from '../../../domain/repositories/IAbsenceRepository';
 import { IFeedbackRepository } from '../../../domain/repositories/IFeedbackRepository';
 import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { IHolidayCalendarRepository } from '../../../domain/repositories/IHolidayCalendarRepository';
 import { ILogger } from '../../ports/ILogger';
 import { AbsenceStatus } from '../../../domain/entities/Absence';
 import { Feedback } from '../../../domain/entities/Feedback';
+import { HolidayCalendar } from '../../../domain/entities/HolidayCalendar';
+import { ANONYMOUS_GIVER } from '../../dtos/FeedbackDTO';
 
 export interface GetDashboardMetricsInput {
   userId: string;
@@ -56,6 +59,7 @@ export class GetDashboardMetricsUseCase {
     private readonly absenceRepository: IAbsenceRepository,
     private readonly feedbackRepository: IFeedbackRepository,
     private readonly userRepository: IUserRepository,
+    private readonly holidayCalendarRepository: IHolidayCalendarRepository,
     private readonly logger: ILogger
   ) {}
 
@@ -67,12 +71,18 @@ export class GetDashboardMetricsUseCase {
       throw new Error('User not found');
     }
 
+    // Absence day counts skip the user's holidays
+    const calendars = await this.holidayCalendarRepository.findForUser(user.id, user.department);
+    const holidays = HolidayCalendar.dateKeysOf(calendars);
+
     // Execute all queries in parallel for performance
     const [absenceStats, feedbackStats, recentAbsences, recentFeedback] = await Promise.all([
-      this.absenceRepository.getStatistics(input.userId),
+      this.absenceRepository.getStatistics(input.userId, holidays),
       this.feedbackRepository.getStatistics(input.userId),
       this.absenceRepository.findByUserId(input.userId),
-      this.feedbackRepository.findByReceiverId(input.userId),
+      this.feedbackRepository.findByReceiverId(input.userId, {
+        visibleTo: { userId: user.id, isManager: user.isManager() },
+      }),
     ]);
 
     // Get the 5 most recent absences and feedback
@@ -105,7 +115,7 @@ export class GetDashboardMetricsUseCase {
       })),
       recentFeedback: recentFeedbackList.map((f: Feedback) => ({
         id: f.id,
-        giverId: f.giverId,
+        giverId: f.isGiverHiddenFrom(user.id) ? ANONYMOUS_GIVER.id : f.giverId,
         receiverId: f.receiverId,
         content: f.content.substring(0, 100), // Preview only
         createdAt: f.createdAt,
@@ -113,18 +123,22 @@ export class GetDashboardMetricsUseCase {
     };
 
     // Add manager-specific metrics if user is a manager
-    if (user.role === 'MANAGER' && user.department) {
-      const teamMembers = await this.userRepository.findAll({
-        department: user.department,
-        includeDeleted: false,
-      });
+    // The team is everyone in the manager's reporting line (direct and indirect reports)
+    if (user.isManager()) {
+      const reportIds = await this.userRepository.findReportIds(user.id);
+      const reportIdList = Array.from(reportIds);
 
-      const pendingAbsences = await this.absenceRepository.findAll({
-        status: AbsenceStatus.PENDING,
-      });
+      const [allMembers, pendingAbsences] = await Promise.all([
+        this.userRepository.findAll({ includeDeleted: false }),
+        this.absenceRepository.findAll({
+          status: AbsenceStatus.PENDING,
+          userIds: reportIdList,
+        }),
+      ]);
+      const teamMembers = allMembers.users.filter((u) => reportIds.has(u.id));
 
       // Calculate average performance rating for team
-      const performanceRatings = teamMembers.users
+      const performanceRatings = teamMembers
         .map(u => u.performanceRating)
         .filter((rating): rating is number => rating !== null && rating !== undefined);
 
@@ -133,7 +147,7 @@ export class GetDashboardMetricsUseCase {
         : null;
 
       output.managerMetrics = {
-        teamSize: teamMembers.users.length,
+        teamSize: teamMembers.length,
         pendingApprovals: pendingAbsences.absences.length,
         avgPerformance,
       };
@@ -1,7 +1,17 @@
 import { IFeedbackRepository } from '../../../domain/repositories/IFeedbackRepository';
 import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { IOrganizationRepository } from '../../../domain/repositories/IOrganizationRepository';
+import { IFeedbackRequestRepository } from '../../../domain/repositories/IFeedbackRequestRepository';
+import { IAIProviderRegistry } from '../../ports/IAIService';
 import { ILogger } from '../../ports/ILogger';
-import { Feedback } from '../../../domain/entities/Feedback';
+import {
+  Feedback,
+  FeedbackCompetency,
+  FeedbackType,
+  FeedbackVisibility,
+} from '../../../domain/entities/Feedback';
+import { CompetencyFramework } from '../../../domain/value-objects/CompetencyFramework';
+import { FeedbackScreening } from '../../../domain/value-objects/FeedbackScreening';
 import { FeedbackDTO } from '../../dtos/FeedbackDTO';
 import { getCurrentTenant } from '@/lib/tenant-context';
 
@@ -11,16 +21,32 @@ export interface CreateFeedbackInput {
   content: string;
   polishedContent?: string;
   isPolished?: boolean;
+  polishedBy?: string; // AI provider that produced polishedContent
+  type?: FeedbackType; // Defaults to praise
+  competencies?: FeedbackCompetency[];
+  visibility?: FeedbackVisibility; // Defaults to visible to the receiver
+  requestId?: string; // Feedback request this feedback answers
 }
 
 /**
  * Create Feedback Use Case
  * Creates new feedback from one user to another
+ *
+ * Business Rules:
+ * - Feedback can only be tagged with competencies from the organization's framework
+ * - Each competency can be rated once, from 1 to 5
+ * - Feedback answering a request must come from the colleague asked and go to the requester
+ * - Answers to a request are visible to the requester, who already knows who was asked
+ * - The text the receiver will read is screened under the organization's policy:
+ *   flagged feedback may have to be polished first, or is held for moderation
  */
 export class CreateFeedbackUseCase {
   constructor(
     private readonly feedbackRepository: IFeedbackRepository,
     private readonly userRepository: IUserRepository,
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly feedbackRequestRepository: IFeedbackRequestRepository,
+    private readonly aiProviderRegistry: IAIProviderRegistry,
     private readonly logger: ILogger
   ) {}
 
@@ -55,18 +81,88 @@ export class CreateFeedbackUseCase {
       throw new Error('Organization mismatch');
     }
 
+    const organization = await this.organizationRepository.findById(tenant.organizationId);
+
+    // Only competencies from the organization's framework can be tagged
+    const competencies = input.competencies ?? [];
+    if (competencies.length > 0) {
+      const framework = CompetencyFramework.fromSettings(organization?.settings.competencyFramework);
+      const unknown = competencies.find((c) => !framework.has(c.competency));
+      if (unknown) {
+        throw new Error(`Unknown competency: ${unknown.competency}`);
+      }
+    }
+
+    // Feedback answering a request is linked to it once saved
+    const request = input.requestId
+      ? await this.feedbackRequestRepository.findById(input.requestId)
+      : null;
+    if (input.requestId) {
+      if (!request) {
+        throw new Error('Feedback request not found');
+      }
+      if (request.recipientId !== input.giverId || request.requesterId !== input.receiverId) {
+        throw new Error('You can only answer feedback requests sent to you');
+      }
+      if (!request.isPending()) {
+        throw new Error(`This feedback request is already ${request.status.toLowerCase()}`);
+      }
+      if (input.visibility && input.visibility !== FeedbackVisibility.RECEIVER) {
+        throw new Error('Answers to a feedback request are visible to the colleague who asked');
+      }
+    }
+
     // Create feedback entity (validates business rules)
-    const feedback = Feedback.create(tenant.organizationId, input.giverId, input.receiverId, input.content);
+    const feedback = Feedback.create(
+      tenant.organizationId,
+      input.giverId,
+      input.receiverId,
+      input.content,
+      input.type,
+      competencies
+    );
+
+    if (input.visibility) {
+      feedback.changeVisibility(input.visibility);
+    }
 
     // Apply polished content if provided
     if (input.polishedContent && input.isPolished) {
-      feedback.polishContent(input.polishedContent);
+      feedback.polishContent(input.polishedContent, input.polishedBy);
+    }
+
+    // Screen what the receiver will read
+    const aiService = this.aiProviderRegistry.resolve(organization?.settings.aiProvider);
+    const screening = FeedbackScreening.create(
+      await aiService.screenFeedback(feedback.getDisplayContent()),
+      organization?.settings.feedbackScreeningPolicy
+    );
+    if (screening.requiresPolish()) {
+      throw new Error(
+        feedback.isPolished
+          ? 'The polished feedback is still flagged - please revise it before submitting'
+          : 'This feedback was flagged - please polish it before submitting'
+      );
     }
+    feedback.recordScreening(screening);
 
     // Save
     const saved = await this.feedbackRepository.save(feedback);
 
-    this.logger.info({ feedbackId: saved.id }, 'Feedback created successfully');
+    if (request) {
+      request.complete(saved.id);
+      await this.feedbackRequestRepository.save(request);
+    }
+
+    this.logger.info(
+      {
+        feedbackId: saved.id,
+        requestId: request?.id,
+        screeningFlags: saved.screeningFlags,
+        moderationStatus: saved.moderationStatus,
+      },
+      'Feedback created successfully'
+    );
 
     return {
       id: saved.id,
@@ -75,6 +171,12 @@ export class CreateFeedbackUseCase {
       content: saved.content,
       polishedContent: saved.polishedContent,
       isPolished: saved.isPolished,
+      polishedBy: saved.polishedBy,
+      type: saved.type,
+      competencies: saved.competencies,
+      visibility: saved.visibility,
+      screeningFlags: saved.screeningFlags,
+      moderationStatus: saved.moderationStatus,
       deletedAt: saved.deletedAt,
       createdAt: saved.createdAt,
       updatedAt: saved.updatedAt,
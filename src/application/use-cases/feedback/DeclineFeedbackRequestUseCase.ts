@@ -0,0 +1,43 @@
+import { IFeedbackRequestRepository } from '../../../domain/repositories/IFeedbackRequestRepository';
+import { ILogger } from '../../ports/ILogger';
+import { FeedbackRequestDTO, toFeedbackRequestDTO } from '../../dtos/FeedbackRequestDTO';
+
+export interface DeclineFeedbackRequestInput {
+  requestId: string;
+  userId: string;
+}
+
+/**
+ * Decline Feedback Request Use Case
+ * Lets a colleague turn down a request for feedback
+ *
+ * Business Rules:
+ * - Only the colleague asked for feedback can decline
+ * - Only pending requests can be declined
+ */
+export class DeclineFeedbackRequestUseCase {
+  constructor(
+    private readonly feedbackRequestRepository: IFeedbackRequestRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: DeclineFeedbackRequestInput): Promise<FeedbackRequestDTO> {
+    this.logger.info({ requestId: input.requestId, userId: input.userId }, 'Declining feedback request');
+
+    const request = await this.feedbackRequestRepository.findById(input.requestId);
+    if (!request) {
+      throw new Error('Feedback request not found');
+    }
+
+    if (!request.isForRecipient(input.userId)) {
+      throw new Error('You can only decline feedback requests sent to you');
+    }
+
+    request.decline();
+    const saved = await this.feedbackRequestRepository.save(request);
+
+    this.logger.info({ requestId: saved.id }, 'Feedback request declined');
+
+    return toFeedbackRequestDTO(saved);
+  }
+}
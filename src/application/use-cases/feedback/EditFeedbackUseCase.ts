@@ -0,0 +1,97 @@
+import { IFeedbackRepository } from '../../../domain/repositories/IFeedbackRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { IOrganizationRepository } from '../../../domain/repositories/IOrganizationRepository';
+import { IAIProviderRegistry } from '../../ports/IAIService';
+import { ILogger } from '../../ports/ILogger';
+import { FeedbackScreening } from '../../../domain/value-objects/FeedbackScreening';
+import { ANONYMOUS_GIVER, FeedbackDTO } from '../../dtos/FeedbackDTO';
+
+export interface EditFeedbackInput {
+  feedbackId: string;
+  userId: string; // User editing the feedback
+  content: string;
+  polishedContent?: string; // Set when the new content was polished before saving
+}
+
+/**
+ * Edit Feedback Use Case
+ * Changes the content of feedback, keeping earlier versions
+ *
+ * Business Rules:
+ * - Givers can edit their own feedback; managers can edit any feedback
+ * - The version being replaced (original and polished) is stored as a revision
+ * - Editing drops the old polished version unless a new one is given
+ * - The new text is screened like new feedback: it may have to be polished, or is
+ *   held for moderation again; rejected feedback cannot be edited
+ */
+export class EditFeedbackUseCase {
+  constructor(
+    private readonly feedbackRepository: IFeedbackRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly aiProviderRegistry: IAIProviderRegistry,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: EditFeedbackInput): Promise<FeedbackDTO> {
+    this.logger.info({ feedbackId: input.feedbackId, userId: input.userId }, 'Editing feedback');
+
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const feedback = await this.feedbackRepository.findById(input.feedbackId);
+    if (!feedback || feedback.isDeleted()) {
+      throw new Error('Feedback not found');
+    }
+
+    // Check permissions
+    if (!feedback.isFromUser(user.id) && !user.isManager()) {
+      throw new Error('You can only edit feedback you gave');
+    }
+
+    feedback.edit(user.id, input.content, input.polishedContent);
+
+    // Screen what the receiver will read
+    const organization = await this.organizationRepository.findById(feedback.organizationId);
+    const aiService = this.aiProviderRegistry.resolve(organization?.settings.aiProvider);
+    const screening = FeedbackScreening.create(
+      await aiService.screenFeedback(feedback.getDisplayContent()),
+      organization?.settings.feedbackScreeningPolicy
+    );
+    if (screening.requiresPolish()) {
+      throw new Error(
+        feedback.isPolished
+          ? 'The polished feedback is still flagged - please revise it before saving'
+          : 'This feedback was flagged - please polish it before saving'
+      );
+    }
+    feedback.recordScreening(screening);
+
+    const saved = await this.feedbackRepository.save(feedback);
+
+    this.logger.info(
+      { feedbackId: saved.id, revisions: saved.revisions.length },
+      'Feedback edited successfully'
+    );
+
+    return {
+      id: saved.id,
+      giverId: saved.isGiverHiddenFrom(user.id) ? ANONYMOUS_GIVER.id : saved.giverId,
+      receiverId: saved.receiverId,
+      content: saved.content,
+      polishedContent: saved.polishedContent,
+      isPolished: saved.isPolished,
+      polishedBy: saved.polishedBy,
+      type: saved.type,
+      competencies: saved.competencies,
+      visibility: saved.visibility,
+      screeningFlags: saved.screeningFlags,
+      moderationStatus: saved.moderationStatus,
+      deletedAt: saved.deletedAt,
+      createdAt: saved.createdAt,
+      updatedAt: saved.updatedAt,
+    };
+  }
+}
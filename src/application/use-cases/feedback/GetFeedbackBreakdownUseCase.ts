@@ -0,0 +1,81 @@
+import { IFeedbackRepository } from '../../../domain/repositories/IFeedbackRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { IOrganizationRepository } from '../../../domain/repositories/IOrganizationRepository';
+import { ILogger } from '../../ports/ILogger';
+import { FeedbackBreakdownDTO } from '../../dtos/FeedbackDTO';
+import { CompetencyFramework } from '../../../domain/value-objects/CompetencyFramework';
+import { FeedbackBreakdown } from '../../../domain/value-objects/FeedbackBreakdown';
+
+export interface GetFeedbackBreakdownInput {
+  userId: string; // User requesting the breakdown
+  targetUserId: string; // Whose received feedback to break down
+}
+
+/**
+ * Get Feedback Breakdown Use Case
+ * Summarizes the feedback a user received by type and by competency
+ *
+ * Business Rules:
+ * - Users can see their own breakdown; managers can see anyone's in their organization
+ * - Competencies are named after the organization's current framework
+ * - Manager-only notes are left out of a user's own breakdown
+ */
+export class GetFeedbackBreakdownUseCase {
+  constructor(
+    private readonly feedbackRepository: IFeedbackRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: GetFeedbackBreakdownInput): Promise<FeedbackBreakdownDTO> {
+    this.logger.debug(
+      { userId: input.userId, targetUserId: input.targetUserId },
+      'Getting feedback breakdown'
+    );
+
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const target =
+      input.targetUserId === user.id ? user : await this.userRepository.findById(input.targetUserId);
+    if (!target) {
+      throw new Error('User not found');
+    }
+
+    if (target.id !== user.id) {
+      if (!user.isManager()) {
+        throw new Error("Only managers can view other people's feedback breakdown");
+      }
+
+      if (target.organizationId !== user.organizationId) {
+        throw new Error('Cannot view feedback from different organizations');
+      }
+    }
+
+    const [{ feedbacks }, organization] = await Promise.all([
+      this.feedbackRepository.findByReceiverId(target.id, {
+        visibleTo: {
+          userId: user.id,
+          isManager: user.isManager(),
+          reportIds: user.isManager() ? await this.userRepository.findReportIds(user.id) : undefined,
+        },
+      }),
+      this.organizationRepository.findById(target.organizationId),
+    ]);
+
+    const breakdown = FeedbackBreakdown.calculate(
+      feedbacks,
+      CompetencyFramework.fromSettings(organization?.settings.competencyFramework)
+    );
+
+    return {
+      byType: breakdown.byType,
+      competencies: breakdown.competencies,
+      strengths: breakdown.strengths().map((c) => c.competency),
+      areasToImprove: breakdown.areasToImprove().map((c) => c.competency),
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { IFeedbackRequestRepository } from '../../../domain/repositories/IFeedbackRequestRepository';
+import { ILogger } from '../../ports/ILogger';
+import { FeedbackRequestsDTO, toFeedbackRequestDTO } from '../../dtos/FeedbackRequestDTO';
+
+export interface GetFeedbackRequestsInput {
+  userId: string;
+}
+
+/**
+ * Get Feedback Requests Use Case
+ * Lists the feedback requests a user has received and sent
+ *
+ * Business Rules:
+ * - Users only see requests they sent or were asked to answer
+ * - Pending received requests come first, soonest due date first
+ */
+export class GetFeedbackRequestsUseCase {
+  constructor(
+    private readonly feedbackRequestRepository: IFeedbackRequestRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: GetFeedbackRequestsInput): Promise<FeedbackRequestsDTO> {
+    this.logger.debug({ userId: input.userId }, 'Getting feedback requests');
+
+    const [received, sent] = await Promise.all([
+      this.feedbackRequestRepository.findByRecipientId(input.userId),
+      this.feedbackRequestRepository.findByRequesterId(input.userId),
+    ]);
+
+    const now = new Date();
+    const pending = received
+      .filter((r) => r.isPending())
+      .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+    const answered = received.filter((r) => !r.isPending());
+
+    return {
+      received: [...pending, ...answered].map((r) => toFeedbackRequestDTO(r, now)),
+      sent: sent.map((r) => toFeedbackRequestDTO(r, now)),
+      pendingCount: pending.length,
+      overdueCount: pending.filter((r) => r.isOverdue(now)).length,
+    };
+  }
+}
@@ -1,7 +1,7 @@
 import { IFeedbackRepository } from '../../../domain/repositories/IFeedbackRepository';
 import { IUserRepository } from '../../../domain/repositories/IUserRepository';
 import { ILogger } from '../../ports/ILogger';
-import { FeedbackWithUsersDTO } from '../../dtos/FeedbackDTO';
+import { ANONYMOUS_GIVER, FeedbackWithUsersDTO, toFeedbackThreadDTO } from '../../dtos/FeedbackDTO';
 import { Feedback } from '../../../domain/entities/Feedback';
 
 export interface GetFeedbackInput {
@@ -9,6 +9,7 @@ export interface GetFeedbackInput {
   targetUserId?: string; // Optional: get feedback for specific user
   asGiver?: boolean; // Get feedback given by targetUserId
   asReceiver?: boolean; // Get feedback received by targetUserId
+  awaitingModeration?: boolean; // Without targetUserId: only feedback held for moderation
   skip?: number;
   take?: number;
 }
@@ -21,6 +22,13 @@ export interface GetFeedbackOutput {
 /**
  * Get Feedback Use Case
  * Retrieves feedback with appropriate filtering and user enrichment
+ *
+ * Business Rules:
+ * - Only feedback the user may read is returned (manager-only notes and feedback
+ *   held back by moderation are hidden from their receiver)
+ * - Screening flags are not shown to the receiver
+ * - Givers of anonymous feedback are only shown to the giver themselves
+ * - Feedback comes with its revision history and reply thread
  */
 export class GetFeedbackUseCase {
   constructor(
@@ -38,16 +46,23 @@ export class GetFeedbackUseCase {
     }
 
     let result: { feedbacks: Feedback[]; total: number };
+    const visibleTo = {
+      userId: user.id,
+      isManager: user.isManager(),
+      reportIds: user.isManager() ? await this.userRepository.findReportIds(user.id) : undefined,
+    };
 
     if (input.targetUserId) {
       // Get feedback for specific user
       if (input.asGiver) {
         result = await this.feedbackRepository.findByGiverId(input.targetUserId, {
+          visibleTo,
           skip: input.skip,
           take: input.take,
         });
       } else {
         result = await this.feedbackRepository.findByReceiverId(input.targetUserId, {
+          visibleTo,
           skip: input.skip,
           take: input.take,
         });
@@ -58,6 +73,8 @@ export class GetFeedbackUseCase {
         throw new Error('Only managers can view all feedback');
       }
       result = await this.feedbackRepository.findAll({
+        visibleTo,
+        awaitingModeration: input.awaitingModeration,
         skip: input.skip,
         take: input.take,
       });
@@ -66,7 +83,9 @@ export class GetFeedbackUseCase {
     // Collect unique user IDs to fetch
     const userIds = new Set<string>();
     result.feedbacks.forEach((f) => {
-      userIds.add(f.giverId);
+      if (!f.isGiverHiddenFrom(user.id)) {
+        userIds.add(f.giverId);
+      }
       userIds.add(f.receiverId);
     });
 
@@ -88,21 +107,29 @@ export class GetFeedbackUseCase {
 
     // Enrich feedback with user data
     const feedback: FeedbackWithUsersDTO[] = result.feedbacks.map((f) => {
-      const giver = usersMap.get(f.giverId);
+      const isAnonymous = f.isGiverHiddenFrom(user.id);
+      const giver = isAnonymous ? ANONYMOUS_GIVER : usersMap.get(f.giverId);
       const receiver = usersMap.get(f.receiverId);
 
       return {
         id: f.id,
-        giverId: f.giverId,
+        giverId: isAnonymous ? ANONYMOUS_GIVER.id : f.giverId,
         receiverId: f.receiverId,
         content: f.content,
         polishedContent: f.polishedContent,
         isPolished: f.isPolished,
+        polishedBy: f.polishedBy,
+        type: f.type,
+        competencies: f.competencies,
+        visibility: f.visibility,
+        screeningFlags: f.isForUser(user.id) ? [] : f.screeningFlags,
+        moderationStatus: f.moderationStatus,
         deletedAt: f.deletedAt,
         createdAt: f.createdAt,
         updatedAt: f.updatedAt,
         giver: giver || { id: f.giverId, name: 'Unknown User', email: '' },
         receiver: receiver || { id: f.receiverId, name: 'Unknown User', email: '' },
+        ...toFeedbackThreadDTO(f, user.id),
       };
     });
 
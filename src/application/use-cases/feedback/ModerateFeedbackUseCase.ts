@@ -0,0 +1,84 @@
+import { IFeedbackRepository } from '../../../domain/repositories/IFeedbackRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { ANONYMOUS_GIVER, FeedbackDTO } from '../../dtos/FeedbackDTO';
+
+export interface ModerateFeedbackInput {
+  feedbackId: string;
+  userId: string; // Manager deciding
+  approve: boolean;
+}
+
+export interface ModerateFeedbackOutput {
+  feedback: FeedbackDTO;
+  notifyUserId: string; // Receiver when approved, giver when rejected
+}
+
+/**
+ * Moderate Feedback Use Case
+ * Approves or rejects feedback held back from its receiver after screening
+ *
+ * Business Rules:
+ * - Only managers moderate, and never feedback they gave or received
+ * - Approved feedback is released to the receiver; rejected feedback never reaches them
+ * - Feedback is moderated once
+ */
+export class ModerateFeedbackUseCase {
+  constructor(
+    private readonly feedbackRepository: IFeedbackRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: ModerateFeedbackInput): Promise<ModerateFeedbackOutput> {
+    this.logger.info(
+      { feedbackId: input.feedbackId, userId: input.userId, approve: input.approve },
+      'Moderating feedback'
+    );
+
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (!user.isManager()) {
+      throw new Error('Only managers can moderate feedback');
+    }
+
+    const feedback = await this.feedbackRepository.findById(input.feedbackId);
+    if (!feedback || feedback.isDeleted()) {
+      throw new Error('Feedback not found');
+    }
+
+    feedback.moderate(user.id, input.approve);
+    const saved = await this.feedbackRepository.save(feedback);
+
+    this.logger.info(
+      { feedbackId: saved.id, moderationStatus: saved.moderationStatus },
+      'Feedback moderated successfully'
+    );
+
+    const feedbackDTO: FeedbackDTO = {
+      id: saved.id,
+      giverId: saved.isGiverHiddenFrom(user.id) ? ANONYMOUS_GIVER.id : saved.giverId,
+      receiverId: saved.receiverId,
+      content: saved.content,
+      polishedContent: saved.polishedContent,
+      isPolished: saved.isPolished,
+      polishedBy: saved.polishedBy,
+      type: saved.type,
+      competencies: saved.competencies,
+      visibility: saved.visibility,
+      screeningFlags: saved.screeningFlags,
+      moderationStatus: saved.moderationStatus,
+      deletedAt: saved.deletedAt,
+      createdAt: saved.createdAt,
+      updatedAt: saved.updatedAt,
+    };
+
+    return {
+      feedback: feedbackDTO,
+      notifyUserId: input.approve ? saved.receiverId : saved.giverId,
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { IFeedbackRepository } from '../../../domain/repositories/IFeedbackRepository';
-import { IAIService } from '../../ports/IAIService';
+import { IOrganizationRepository } from '../../../domain/repositories/IOrganizationRepository';
+import { AIProviderName, IAIProviderRegistry } from '../../ports/IAIService';
 import { ILogger } from '../../ports/ILogger';
 import { FeedbackDTO } from '../../dtos/FeedbackDTO';
 
@@ -7,23 +8,36 @@ export interface PolishFeedbackInput {
   feedbackId?: string;
   content?: string;
   userId: string;
+  organizationId: string; // Organization whose AI provider setting applies
 }
 
 /**
  * Polish Feedback Use Case
  * Polishes feedback content using AI to make it more professional
+ *
+ * Business Rules:
+ * - The organization's chosen AI provider is used when it is configured,
+ *   otherwise the deployment default or the rule-based fallback
+ * - Polished feedback records which provider produced it, unless the provider
+ *   failed and handed back the original text
  */
 export class PolishFeedbackUseCase {
   constructor(
     private readonly feedbackRepository: IFeedbackRepository,
-    private readonly aiService: IAIService,
+    private readonly aiProviderRegistry: IAIProviderRegistry,
+    private readonly organizationRepository: IOrganizationRepository,
     private readonly logger: ILogger
   ) {}
 
-  async execute(input: PolishFeedbackInput): Promise<FeedbackDTO | { polishedContent: string }> {
+  async execute(
+    input: PolishFeedbackInput
+  ): Promise<FeedbackDTO | { polishedContent: string; provider?: AIProviderName }> {
     this.logger.info({ feedbackId: input.feedbackId, userId: input.userId }, 'Polishing feedback');
 
-    if (!this.aiService.isAvailable()) {
+    const organization = await this.organizationRepository.findById(input.organizationId);
+    const aiService = this.aiProviderRegistry.resolve(organization?.settings.aiProvider);
+
+    if (!aiService.isAvailable()) {
       this.logger.warn('AI service not available for polishing');
       throw new Error('AI service is not configured');
     }
@@ -41,15 +55,21 @@ export class PolishFeedbackUseCase {
       }
 
       // Polish using AI service
-      const polishedContent = await this.aiService.polishFeedback(feedback.content);
+      const polishedContent = await aiService.polishFeedback(feedback.content);
 
       // Update feedback with polished content
-      feedback.polishContent(polishedContent);
+      feedback.polishContent(
+        polishedContent,
+        polishedContent !== feedback.content ? aiService.provider : undefined
+      );
 
       // Save
       const saved = await this.feedbackRepository.save(feedback);
 
-      this.logger.info({ feedbackId: saved.id }, 'Feedback polished successfully');
+      this.logger.info(
+        { feedbackId: saved.id, provider: aiService.provider },
+        'Feedback polished successfully'
+      );
 
       return {
         id: saved.id,
@@ -58,6 +78,12 @@ export class PolishFeedbackUseCase {
         content: saved.content,
         polishedContent: saved.polishedContent,
         isPolished: saved.isPolished,
+        polishedBy: saved.polishedBy,
+        type: saved.type,
+        competencies: saved.competencies,
+        visibility: saved.visibility,
+        screeningFlags: saved.screeningFlags,
+        moderationStatus: saved.moderationStatus,
         deletedAt: saved.deletedAt,
         createdAt: saved.createdAt,
         updatedAt: saved.updatedAt,
@@ -69,10 +95,16 @@ export class PolishFeedbackUseCase {
       throw new Error('Either feedbackId or content must be provided');
     }
 
-    const polishedContent = await this.aiService.polishFeedback(input.content);
+    const polishedContent = await aiService.polishFeedback(input.content);
 
-    this.logger.info({ userId: input.userId }, 'Content polished successfully');
+    this.logger.info(
+      { userId: input.userId, provider: aiService.provider },
+      'Content polished successfully'
+    );
 
-    return { polishedContent };
+    return {
+      polishedContent,
+      provider: polishedContent !== input.content ? aiService.provider : undefined,
+    };
   }
 }
@@ -0,0 +1,60 @@
+import { IFeedbackRepository } from '../../../domain/repositories/IFeedbackRepository';
+import { ILogger } from '../../ports/ILogger';
+import { FeedbackReplyKind } from '../../../domain/entities/Feedback';
+import { FeedbackReplyDTO, toFeedbackThreadDTO } from '../../dtos/FeedbackDTO';
+
+export interface ReplyToFeedbackInput {
+  feedbackId: string;
+  userId: string; // Author of the reply
+  kind: FeedbackReplyKind;
+  content?: string; // Optional for acknowledgements
+}
+
+export interface ReplyToFeedbackOutput {
+  reply: FeedbackReplyDTO;
+  notifyUserId: string; // The other side of the thread
+  isAuthorAnonymous: boolean; // The giver of anonymous feedback replied
+}
+
+/**
+ * Reply To Feedback Use Case
+ * Adds a reply or acknowledgement to the thread under feedback
+ *
+ * Business Rules:
+ * - Only the giver and receiver take part in the thread
+ * - Only the receiver acknowledges feedback, once
+ * - Manager-only notes have no thread, since their receiver cannot see them
+ * - The giver of anonymous feedback stays anonymous in the thread
+ */
+export class ReplyToFeedbackUseCase {
+  constructor(
+    private readonly feedbackRepository: IFeedbackRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: ReplyToFeedbackInput): Promise<ReplyToFeedbackOutput> {
+    this.logger.info(
+      { feedbackId: input.feedbackId, userId: input.userId, kind: input.kind },
+      'Replying to feedback'
+    );
+
+    const feedback = await this.feedbackRepository.findById(input.feedbackId);
+    if (!feedback || feedback.isDeleted() || !feedback.isVisibleTo(input.userId, false)) {
+      throw new Error('Feedback not found');
+    }
+
+    const reply = feedback.reply(input.userId, input.kind, input.content);
+    const saved = await this.feedbackRepository.save(feedback);
+
+    this.logger.info({ feedbackId: saved.id, replyId: reply.id }, 'Feedback reply added');
+
+    const { replies } = toFeedbackThreadDTO(saved, input.userId);
+    const isGiver = saved.isFromUser(input.userId);
+
+    return {
+      reply: replies.find((r) => r.id === reply.id)!,
+      notifyUserId: isGiver ? saved.receiverId : saved.giverId,
+      isAuthorAnonymous: isGiver && saved.isGiverHiddenFrom(saved.receiverId),
+    };
+  }
+}
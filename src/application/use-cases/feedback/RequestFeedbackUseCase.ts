@@ -0,0 +1,97 @@
+import { IFeedbackRequestRepository } from '../../../domain/repositories/IFeedbackRequestRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import {
+  FeedbackRequest,
+  FEEDBACK_REQUEST_DEFAULT_DUE_DAYS,
+} from '../../../domain/entities/FeedbackRequest';
+import { FeedbackRequestDTO, toFeedbackRequestDTO } from '../../dtos/FeedbackRequestDTO';
+import { getCurrentTenant } from '@/lib/tenant-context';
+
+const MAX_RECIPIENTS = 10;
+
+export interface RequestFeedbackInput {
+  requesterId: string;
+  recipientIds: string[];
+  prompt?: string;
+  dueDate?: Date; // Defaults to two weeks from now
+}
+
+/**
+ * Request Feedback Use Case
+ * Asks one or more colleagues for feedback, optionally on a specific question
+ *
+ * Business Rules:
+ * - Recipients must be active members of the requester's organization
+ * - At most 10 colleagues can be asked at once
+ * - A colleague can only have one pending request from the same requester
+ * - The due date must be in the future
+ */
+export class RequestFeedbackUseCase {
+  constructor(
+    private readonly feedbackRequestRepository: IFeedbackRequestRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: RequestFeedbackInput): Promise<FeedbackRequestDTO[]> {
+    const recipientIds = [...new Set(input.recipientIds)];
+    this.logger.info(
+      { requesterId: input.requesterId, recipients: recipientIds.length },
+      'Requesting feedback'
+    );
+
+    // 1. Validate the request
+    if (recipientIds.length === 0) {
+      throw new Error('Choose at least one colleague to ask for feedback');
+    }
+    if (recipientIds.length > MAX_RECIPIENTS) {
+      throw new Error(`You can ask at most ${MAX_RECIPIENTS} colleagues at once`);
+    }
+
+    const dueDate =
+      input.dueDate ?? new Date(Date.now() + FEEDBACK_REQUEST_DEFAULT_DUE_DAYS * 24 * 60 * 60 * 1000);
+    if (dueDate <= new Date()) {
+      throw new Error('The due date must be in the future');
+    }
+
+    const tenant = getCurrentTenant();
+
+    // 2. Verify recipients and look for pending duplicates
+    for (const recipientId of recipientIds) {
+      const recipient = await this.userRepository.findById(recipientId);
+      if (!recipient || recipient.isDeleted() || recipient.organizationId !== tenant.organizationId) {
+        throw new Error('Colleague not found');
+      }
+
+      const pending = await this.feedbackRequestRepository.findPending(input.requesterId, recipientId);
+      if (pending) {
+        throw new Error(`You already asked ${recipient.name} for feedback`);
+      }
+    }
+
+    // 3. Create one request per recipient (validates business rules)
+    const requests = recipientIds.map((recipientId) =>
+      FeedbackRequest.create({
+        organizationId: tenant.organizationId,
+        requesterId: input.requesterId,
+        recipientId,
+        prompt: input.prompt,
+        dueDate,
+      })
+    );
+
+    // 4. Persist
+    const saved: FeedbackRequest[] = [];
+    for (const request of requests) {
+      saved.push(await this.feedbackRequestRepository.save(request));
+    }
+
+    this.logger.info(
+      { requesterId: input.requesterId, requestIds: saved.map((r) => r.id) },
+      'Feedback requested successfully'
+    );
+
+    return saved.map((request) => toFeedbackRequestDTO(request));
+  }
+}
@@ -0,0 +1,46 @@
+import { IOrganizationRepository } from '../../../domain/repositories/IOrganizationRepository';
+import { IAIProviderRegistry } from '../../ports/IAIService';
+import { ILogger } from '../../ports/ILogger';
+import { FeedbackScreening } from '../../../domain/value-objects/FeedbackScreening';
+import { FeedbackScreeningDTO, toFeedbackScreeningDTO } from '../../dtos/FeedbackDTO';
+
+export interface ScreenFeedbackInput {
+  content: string;
+  organizationId: string; // Organization whose AI provider and screening policy apply
+}
+
+/**
+ * Screen Feedback Use Case
+ * Checks feedback for personal attacks, references to protected characteristics
+ * and profanity before it is submitted, so the giver can be warned
+ *
+ * Business Rules:
+ * - Screening goes through the organization's AI provider, which falls back to a local lexicon
+ * - The organization's screening policy decides whether flagged feedback only
+ *   warns the giver, must be polished first, or goes to a manager for moderation
+ * - Creating and editing feedback screens it again, so skipping this check changes nothing
+ */
+export class ScreenFeedbackUseCase {
+  constructor(
+    private readonly aiProviderRegistry: IAIProviderRegistry,
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: ScreenFeedbackInput): Promise<FeedbackScreeningDTO> {
+    const organization = await this.organizationRepository.findById(input.organizationId);
+    const aiService = this.aiProviderRegistry.resolve(organization?.settings.aiProvider);
+
+    const screening = FeedbackScreening.create(
+      await aiService.screenFeedback(input.content),
+      organization?.settings.feedbackScreeningPolicy
+    );
+
+    this.logger.info(
+      { provider: aiService.provider, categories: screening.categories, policy: screening.policy },
+      'Feedback screened'
+    );
+
+    return toFeedbackScreeningDTO(screening);
+  }
+}
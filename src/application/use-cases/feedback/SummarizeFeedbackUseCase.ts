@@ -0,0 +1,160 @@
+import { IFeedbackRepository } from '../../../domain/repositories/IFeedbackRepository';
+import { IFeedbackSummaryRepository } from '../../../domain/repositories/IFeedbackSummaryRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { IOrganizationRepository } from '../../../domain/repositories/IOrganizationRepository';
+import { IAIProviderRegistry } from '../../ports/IAIService';
+import { ILogger } from '../../ports/ILogger';
+import { FeedbackSummaryDTO, toFeedbackSummaryDTO } from '../../dtos/FeedbackSummaryDTO';
+import { FeedbackSummary } from '../../../domain/entities/FeedbackSummary';
+import { CompetencyFramework } from '../../../domain/value-objects/CompetencyFramework';
+import { PermissionDeniedError } from '../../../domain/errors';
+
+export interface SummarizeFeedbackInput {
+  userId: string; // Manager asking for the summary
+  targetUserId: string; // Whose received feedback to summarize
+  from: Date; // First day of the period
+  to: Date; // Last day of the period
+  cachedOnly?: boolean; // Return the cached summary if it is current, never call the AI
+}
+
+/**
+ * Most recent feedback in a period that goes into a summary
+ */
+export const MAX_SUMMARY_FEEDBACK = 100;
+
+const MAX_PERIOD_DAYS = 366;
+
+/**
+ * Summarize Feedback Use Case
+ * Summarizes the feedback a user received in a period into themes, strengths and
+ * growth areas, each citing the feedback it is drawn from
+ *
+ * Business Rules:
+ * - Only managers can summarize feedback, and only of their direct and indirect reports
+ * - Periods cover whole days (UTC) and span at most a year
+ * - Feedback held back by moderation is left out; at most the
+ *   MAX_SUMMARY_FEEDBACK most recent pieces are summarized
+ * - Summaries are cached per user and period until feedback in the period is
+ *   added, edited or removed; a current cached summary is returned as is
+ * - The organization's AI provider writes the summary, falling back to rules
+ */
+export class SummarizeFeedbackUseCase {
+  constructor(
+    private readonly feedbackRepository: IFeedbackRepository,
+    private readonly feedbackSummaryRepository: IFeedbackSummaryRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly aiProviderRegistry: IAIProviderRegistry,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: SummarizeFeedbackInput): Promise<FeedbackSummaryDTO | null> {
+    this.logger.debug(
+      { userId: input.userId, targetUserId: input.targetUserId, cachedOnly: input.cachedOnly },
+      'Summarizing feedback'
+    );
+
+    const [user, target] = await Promise.all([
+      this.userRepository.findById(input.userId),
+      this.userRepository.findById(input.targetUserId),
+    ]);
+    if (!user || !target) {
+      throw new Error('User not found');
+    }
+
+    if (!user.isManager()) {
+      throw new Error('Only managers can summarize feedback');
+    }
+
+    if (target.id === user.id) {
+      throw new Error('You cannot summarize your own feedback');
+    }
+
+    if (target.organizationId !== user.organizationId) {
+      throw new Error('Cannot summarize feedback from different organizations');
+    }
+
+    const managerChain = await this.userRepository.findManagerChain(target.id);
+    if (!managerChain.some((manager) => manager.id === user.id)) {
+      throw new PermissionDeniedError('summarize feedback of people outside your reporting line');
+    }
+
+    const periodStart = new Date(input.from);
+    periodStart.setUTCHours(0, 0, 0, 0);
+    const periodEnd = new Date(input.to);
+    periodEnd.setUTCHours(23, 59, 59, 999);
+
+    if (periodEnd < periodStart) {
+      throw new Error('Summary period cannot end before it starts');
+    }
+
+    if (periodEnd.getTime() - periodStart.getTime() > MAX_PERIOD_DAYS * 24 * 60 * 60 * 1000) {
+      throw new Error('Summaries can cover at most a year of feedback');
+    }
+
+    const [{ feedbacks }, cached] = await Promise.all([
+      this.feedbackRepository.findByReceiverId(target.id, {
+        // The target is one of the user's reports (checked above)
+        visibleTo: { userId: user.id, isManager: true, reportIds: new Set([target.id]) },
+        createdBetween: { from: periodStart, to: periodEnd },
+        take: MAX_SUMMARY_FEEDBACK,
+      }),
+      this.feedbackSummaryRepository.findForPeriod(target.id, periodStart, periodEnd),
+    ]);
+    const sources = feedbacks.filter((feedback) => !feedback.isHeldBack());
+
+    if (cached?.isCurrentFor(sources)) {
+      return toFeedbackSummaryDTO(cached, true);
+    }
+
+    if (input.cachedOnly) {
+      return null;
+    }
+
+    if (sources.length === 0) {
+      throw new Error('No feedback was received in this period');
+    }
+
+    const organization = await this.organizationRepository.findById(target.organizationId);
+    const framework = CompetencyFramework.fromSettings(organization?.settings.competencyFramework);
+    const aiService = this.aiProviderRegistry.resolve(organization?.settings.aiProvider);
+
+    const content = await aiService.summarizeFeedback(
+      sources.map((feedback) => ({
+        id: feedback.id,
+        content: feedback.getDisplayContent(),
+        type: feedback.type,
+        competencies: feedback.competencies.map((c) => ({
+          name: framework.find(c.competency)?.name ?? c.competency,
+          rating: c.rating,
+        })),
+        createdAt: feedback.createdAt,
+      }))
+    );
+
+    const summary = await this.feedbackSummaryRepository.save(
+      FeedbackSummary.create({
+        organizationId: target.organizationId,
+        subjectId: target.id,
+        periodStart,
+        periodEnd,
+        ...content,
+        provider: aiService.provider,
+        generatedById: user.id,
+        sources,
+      })
+    );
+
+    this.logger.info(
+      {
+        summaryId: summary.id,
+        targetUserId: target.id,
+        feedbackCount: sources.length,
+        provider: aiService.provider,
+      },
+      'Feedback summarized'
+    );
+
+    return toFeedbackSummaryDTO(summary, false);
+  }
+}
@@ -1,4 +1,5 @@
 import { INotificationRepository } from '../../../domain/repositories/INotificationRepository';
+import { INotificationBus } from '../../ports/INotificationBus';
 import { ILogger } from '../../ports/ILogger';
 import { Notification, NotificationType } from '../../../domain/entities/Notification';
 import { NotificationDTO } from '../../dtos/NotificationDTO';
@@ -10,15 +11,22 @@ export interface CreateNotificationInput {
   title: string;
   message: string;
   data?: Record<string, unknown>;
+  queueForDigest?: boolean; // Also include it in the user's next daily digest email
 }
 
 /**
  * Create Notification Use Case
  * Creates a new notification for a user
+ *
+ * Business Rules:
+ * - Notifications belong to the current organization
+ * - Saved notifications are published to the user's open connections; a failed
+ *   publish is logged but never fails creation, as clients backfill on reconnect
  */
 export class CreateNotificationUseCase {
   constructor(
     private readonly notificationRepository: INotificationRepository,
+    private readonly notificationBus: INotificationBus,
     private readonly logger: ILogger
   ) {}
 
@@ -36,12 +44,15 @@ export class CreateNotificationUseCase {
       input.message,
       input.data
     );
+    if (input.queueForDigest) {
+      notification.queueForDigest();
+    }
 
     const saved = await this.notificationRepository.save(notification);
 
     this.logger.info({ notificationId: saved.id }, 'Notification created successfully');
 
-    return {
+    const dto: NotificationDTO = {
       id: saved.id,
       type: saved.type,
       title: saved.title,
@@ -51,5 +62,13 @@ export class CreateNotificationUseCase {
       userId: saved.userId,
       createdAt: saved.createdAt,
     };
+
+    try {
+      await this.notificationBus.publish(dto);
+    } catch (error) {
+      this.logger.warn({ error, notificationId: saved.id }, 'Failed to publish notification');
+    }
+
+    return dto;
   }
 }
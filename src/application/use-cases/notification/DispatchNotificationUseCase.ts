@@ -0,0 +1,91 @@
+import { INotificationPreferenceRepository } from '../../../domain/repositories/INotificationPreferenceRepository';
+import { IOrganizationRepository } from '../../../domain/repositories/IOrganizationRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { INotificationMailer, NotificationEmail } from '../../ports/INotificationMailer';
+import { ILogger } from '../../ports/ILogger';
+import { NotificationDTO } from '../../dtos/NotificationDTO';
+import {
+  NotificationChannel,
+  NotificationPreferences,
+} from '../../../domain/value-objects/NotificationPreferences';
+import { CreateNotificationInput, CreateNotificationUseCase } from './CreateNotificationUseCase';
+import { getCurrentTenant } from '@/lib/tenant-context';
+
+export interface DispatchNotificationInput extends Omit<CreateNotificationInput, 'queueForDigest'> {
+  email?: NotificationEmail; // Email written for this notification; a generic one is sent otherwise
+}
+
+/**
+ * Dispatch Notification Use Case
+ * Tells a user about something on the channel they chose for its type
+ *
+ * Business Rules:
+ * - OFF: nothing is sent
+ * - IN_APP: the notification is shown in the app only
+ * - EMAIL: it is shown in the app and emailed right away
+ * - DIGEST: it is shown in the app and included in the next daily digest email
+ * - Types the organization requires cannot be turned off
+ * - A failed email is logged but never fails the notification
+ */
+export class DispatchNotificationUseCase {
+  constructor(
+    private readonly createNotificationUseCase: CreateNotificationUseCase,
+    private readonly notificationPreferenceRepository: INotificationPreferenceRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly notificationMailer: INotificationMailer,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: DispatchNotificationInput): Promise<NotificationDTO | null> {
+    const tenant = getCurrentTenant();
+
+    const [preferences, organization] = await Promise.all([
+      this.notificationPreferenceRepository.findByUserId(input.userId),
+      this.organizationRepository.findById(tenant.organizationId),
+    ]);
+    const channel = preferences.channelFor(
+      input.type,
+      NotificationPreferences.requiredTypesFromSettings(
+        organization?.settings.requiredNotificationTypes
+      )
+    );
+
+    if (channel === NotificationChannel.OFF) {
+      this.logger.debug(
+        { userId: input.userId, type: input.type },
+        'Notification turned off by user'
+      );
+      return null;
+    }
+
+    const notification = await this.createNotificationUseCase.execute({
+      userId: input.userId,
+      type: input.type,
+      title: input.title,
+      message: input.message,
+      data: input.data,
+      queueForDigest: channel === NotificationChannel.DIGEST,
+    });
+
+    if (channel === NotificationChannel.EMAIL) {
+      try {
+        const user = await this.userRepository.findById(input.userId);
+        if (user) {
+          await this.notificationMailer.sendNotification(
+            { email: user.email.value, name: user.name },
+            notification,
+            input.email
+          );
+        }
+      } catch (error) {
+        this.logger.warn(
+          { error, userId: input.userId, notificationId: notification.id },
+          'Failed to send notification email'
+        );
+      }
+    }
+
+    return notification;
+  }
+}
@@ -0,0 +1,43 @@
+import { INotificationPreferenceRepository } from '../../../domain/repositories/INotificationPreferenceRepository';
+import { IOrganizationRepository } from '../../../domain/repositories/IOrganizationRepository';
+import { ILogger } from '../../ports/ILogger';
+import { NotificationPreferenceDTO, toNotificationPreferenceDTOs } from '../../dtos/NotificationDTO';
+import { NotificationPreferences } from '../../../domain/value-objects/NotificationPreferences';
+import { getCurrentTenant } from '@/lib/tenant-context';
+
+export interface GetNotificationPreferencesInput {
+  userId: string;
+}
+
+/**
+ * Get Notification Preferences Use Case
+ * Lists the channel a user hears about each notification type on
+ *
+ * Business Rules:
+ * - Types the user never changed use their default channel
+ * - Types the organization requires are marked, and never shown as off
+ */
+export class GetNotificationPreferencesUseCase {
+  constructor(
+    private readonly notificationPreferenceRepository: INotificationPreferenceRepository,
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: GetNotificationPreferencesInput): Promise<NotificationPreferenceDTO[]> {
+    this.logger.debug({ userId: input.userId }, 'Fetching notification preferences');
+
+    const tenant = getCurrentTenant();
+    const [preferences, organization] = await Promise.all([
+      this.notificationPreferenceRepository.findByUserId(input.userId),
+      this.organizationRepository.findById(tenant.organizationId),
+    ]);
+
+    return toNotificationPreferenceDTOs(
+      preferences,
+      NotificationPreferences.requiredTypesFromSettings(
+        organization?.settings.requiredNotificationTypes
+      )
+    );
+  }
+}
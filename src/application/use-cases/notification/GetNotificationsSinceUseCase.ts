@@ -0,0 +1,53 @@
+import { INotificationRepository } from '../../../domain/repositories/INotificationRepository';
+import { ILogger } from '../../ports/ILogger';
+import { NotificationDTO } from '../../dtos/NotificationDTO';
+
+export interface GetNotificationsSinceInput {
+  userId: string;
+  lastSeenId: string; // Latest notification the client has already received
+}
+
+/**
+ * Most notifications sent to a reconnecting client
+ */
+export const MAX_BACKFILL_NOTIFICATIONS = 50;
+
+/**
+ * Get Notifications Since Use Case
+ * Backfills the notifications a client missed while disconnected
+ *
+ * Business Rules:
+ * - Only notifications created after the last-seen one are returned, oldest first
+ * - An unknown last-seen id returns nothing; the client refetches its list instead
+ * - At most MAX_BACKFILL_NOTIFICATIONS are returned
+ */
+export class GetNotificationsSinceUseCase {
+  constructor(
+    private readonly notificationRepository: INotificationRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: GetNotificationsSinceInput): Promise<NotificationDTO[]> {
+    this.logger.debug(
+      { userId: input.userId, lastSeenId: input.lastSeenId },
+      'Fetching missed notifications'
+    );
+
+    const notifications = await this.notificationRepository.findCreatedAfter(
+      input.userId,
+      input.lastSeenId,
+      MAX_BACKFILL_NOTIFICATIONS
+    );
+
+    return notifications.map((n) => ({
+      id: n.id,
+      type: n.type,
+      title: n.title,
+      message: n.message,
+      read: n.read,
+      data: n.data,
+      userId: n.userId,
+      createdAt: n.createdAt,
+    }));
+  }
+}
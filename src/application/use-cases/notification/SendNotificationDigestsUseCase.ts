@@ -0,0 +1,90 @@
+import { INotificationRepository } from '../../../domain/repositories/INotificationRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { INotificationMailer } from '../../ports/INotificationMailer';
+import { ILogger } from '../../ports/ILogger';
+import { Notification } from '../../../domain/entities/Notification';
+
+export interface SendNotificationDigestsResult {
+  sent: number; // Digest emails sent
+  failed: number; // Digest emails that could not be sent; retried on the next run
+  skipped: number; // Users with nothing left to tell - everything already read
+}
+
+/**
+ * Most notifications picked up by one run
+ */
+export const MAX_DIGEST_BATCH = 5000;
+
+/**
+ * Most notifications listed in one digest email; the rest are counted
+ */
+export const MAX_DIGEST_ITEMS = 20;
+
+/**
+ * Send Notification Digests Use Case
+ * Emails every user a digest of the notifications they chose to get daily
+ *
+ * Business Rules:
+ * - Runs for all organizations, once a day from a scheduled job
+ * - Notifications already read in the app are left out; a user with nothing
+ *   unread gets no email
+ * - Each notification goes out in one digest only; a failed email leaves the
+ *   user's notifications queued for the next run
+ * - Deleted users get no digest
+ */
+export class SendNotificationDigestsUseCase {
+  constructor(
+    private readonly notificationRepository: INotificationRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly notificationMailer: INotificationMailer,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(): Promise<SendNotificationDigestsResult> {
+    const pending = await this.notificationRepository.findDigestPending(MAX_DIGEST_BATCH);
+
+    const byUser = new Map<string, Notification[]>();
+    for (const notification of pending) {
+      byUser.set(notification.userId, [...(byUser.get(notification.userId) ?? []), notification]);
+    }
+
+    const result: SendNotificationDigestsResult = { sent: 0, failed: 0, skipped: 0 };
+
+    for (const [userId, notifications] of byUser) {
+      const unread = notifications.filter((notification) => !notification.read);
+      const user = await this.userRepository.findById(userId);
+
+      if (unread.length === 0 || !user || user.isDeleted()) {
+        result.skipped += 1;
+      } else {
+        try {
+          await this.notificationMailer.sendDigest(
+            { email: user.email.value, name: user.name },
+            unread.slice(0, MAX_DIGEST_ITEMS).map((n) => ({
+              id: n.id,
+              type: n.type,
+              title: n.title,
+              message: n.message,
+              read: n.read,
+              data: n.data,
+              userId: n.userId,
+              createdAt: n.createdAt,
+            })),
+            Math.max(0, unread.length - MAX_DIGEST_ITEMS)
+          );
+          result.sent += 1;
+        } catch (error) {
+          this.logger.warn({ error, userId }, 'Failed to send notification digest');
+          result.failed += 1;
+          continue;
+        }
+      }
+
+      await this.notificationRepository.clearDigestPending(notifications.map((n) => n.id));
+    }
+
+    this.logger.info(result, 'Notification digests sent');
+
+    return result;
+  }
+}
@@ -0,0 +1,60 @@
+import { INotificationPreferenceRepository } from '../../../domain/repositories/INotificationPreferenceRepository';
+import { IOrganizationRepository } from '../../../domain/repositories/IOrganizationRepository';
+import { ILogger } from '../../ports/ILogger';
+import { NotificationPreferenceDTO, toNotificationPreferenceDTOs } from '../../dtos/NotificationDTO';
+import { NotificationType } from '../../../domain/entities/Notification';
+import {
+  NotificationChannel,
+  NotificationPreferences,
+} from '../../../domain/value-objects/NotificationPreferences';
+import { getCurrentTenant } from '@/lib/tenant-context';
+
+export interface UpdateNotificationPreferencesInput {
+  userId: string;
+  channels: Partial<Record<NotificationType, NotificationChannel>>; // Only the types to change
+}
+
+/**
+ * Update Notification Preferences Use Case
+ * Changes the channel a user hears about some notification types on
+ *
+ * Business Rules:
+ * - Users can only change their own preferences
+ * - Types the organization requires cannot be turned off
+ */
+export class UpdateNotificationPreferencesUseCase {
+  constructor(
+    private readonly notificationPreferenceRepository: INotificationPreferenceRepository,
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: UpdateNotificationPreferencesInput): Promise<NotificationPreferenceDTO[]> {
+    this.logger.info(
+      { userId: input.userId, types: Object.keys(input.channels) },
+      'Updating notification preferences'
+    );
+
+    const tenant = getCurrentTenant();
+    const [preferences, organization] = await Promise.all([
+      this.notificationPreferenceRepository.findByUserId(input.userId),
+      this.organizationRepository.findById(tenant.organizationId),
+    ]);
+    const requiredTypes = NotificationPreferences.requiredTypesFromSettings(
+      organization?.settings.requiredNotificationTypes
+    );
+
+    for (const [type, channel] of Object.entries(input.channels)) {
+      if (channel === NotificationChannel.OFF && requiredTypes.includes(type as NotificationType)) {
+        throw new Error('Your organization does not allow turning off this notification');
+      }
+    }
+
+    const saved = await this.notificationPreferenceRepository.save(
+      input.userId,
+      preferences.with(input.channels)
+    );
+
+    return toNotificationPreferenceDTOs(saved, requiredTypes);
+  }
+}
@@ -0,0 +1,71 @@
+import { IReviewCycleRepository } from '../../../domain/repositories/IReviewCycleRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { ReviewCycleDTO, toReviewCycleDTO } from '../../dtos/ReviewCycleDTO';
+import { PermissionDeniedError } from '../../../domain/errors';
+import { findManagerInReportingLine } from './reviewCycleAccess';
+
+export interface CalibrateReviewRatingInput {
+  cycleId: string;
+  userId: string; // Participant whose rating is calibrated
+  requesterId: string;
+  rating: number;
+}
+
+/**
+ * Calibrate Review Rating Use Case
+ *
+ * Adjusts a participant's final rating after comparing it across the cycle.
+ *
+ * Business Rules:
+ * - Only managers can calibrate ratings, and never their own
+ * - Managers only calibrate the ratings of people who report to them
+ * - Ratings can only be calibrated while the cycle is in calibration
+ */
+export class CalibrateReviewRatingUseCase {
+  constructor(
+    private readonly reviewCycleRepository: IReviewCycleRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: CalibrateReviewRatingInput): Promise<ReviewCycleDTO> {
+    this.logger.info(
+      { cycleId: input.cycleId, userId: input.userId, requesterId: input.requesterId },
+      'Calibrating review rating'
+    );
+
+    const requester = await this.userRepository.findById(input.requesterId);
+    if (!requester || requester.isDeleted()) {
+      throw new Error('Requester not found');
+    }
+
+    if (!requester.isManager()) {
+      throw new Error('Only managers can calibrate ratings');
+    }
+
+    if (requester.id === input.userId) {
+      throw new Error('You cannot calibrate your own rating');
+    }
+
+    if (!(await findManagerInReportingLine(this.userRepository, requester, input.userId))) {
+      throw new PermissionDeniedError('calibrate ratings of people outside your reporting line');
+    }
+
+    const cycle = await this.reviewCycleRepository.findById(input.cycleId);
+    if (!cycle) {
+      throw new Error('Review cycle not found');
+    }
+
+    cycle.calibrate(input.userId, input.rating);
+
+    const saved = await this.reviewCycleRepository.save(cycle);
+
+    this.logger.info(
+      { cycleId: saved.id, userId: input.userId, rating: input.rating },
+      'Review rating calibrated successfully'
+    );
+
+    return toReviewCycleDTO(saved);
+  }
+}
@@ -0,0 +1,81 @@
+import { IReviewCycleRepository } from '../../../domain/repositories/IReviewCycleRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { ReviewCycleDTO, toReviewCycleDTO } from '../../dtos/ReviewCycleDTO';
+import { assertManagesReviewCycle } from './reviewCycleAccess';
+
+export interface CloseReviewCycleInput {
+  cycleId: string;
+  requesterId: string;
+}
+
+/**
+ * Close Review Cycle Use Case
+ *
+ * Fixes the final ratings and writes them back to each participant's
+ * performance rating.
+ *
+ * Business Rules:
+ * - Only managers can run review cycles, for people who report to them - so
+ *   closing never writes a rating the requester could not set by hand
+ * - Only cycles in calibration can be closed
+ * - The final rating is the calibrated one, else the manager's proposal
+ * - Participants who have since left keep their old rating
+ */
+export class CloseReviewCycleUseCase {
+  constructor(
+    private readonly reviewCycleRepository: IReviewCycleRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: CloseReviewCycleInput): Promise<ReviewCycleDTO> {
+    this.logger.info(
+      { cycleId: input.cycleId, requesterId: input.requesterId },
+      'Closing review cycle'
+    );
+
+    // 1. Verify requester can run review cycles
+    const requester = await this.userRepository.findById(input.requesterId);
+    if (!requester || requester.isDeleted()) {
+      throw new Error('Requester not found');
+    }
+
+    if (!requester.isManager()) {
+      throw new Error('Only managers can run review cycles');
+    }
+
+    // 2. Get cycle and close it
+    const cycle = await this.reviewCycleRepository.findById(input.cycleId);
+    if (!cycle) {
+      throw new Error('Review cycle not found');
+    }
+
+    await assertManagesReviewCycle(this.userRepository, requester, cycle);
+
+    cycle.close();
+
+    const saved = await this.reviewCycleRepository.save(cycle);
+
+    // 3. Write final ratings back to profiles
+    let updated = 0;
+    for (const participant of saved.participants) {
+      const rating = saved.finalRatingFor(participant.userId);
+      const user = await this.userRepository.findById(participant.userId);
+      if (rating === undefined || !user || user.isDeleted()) {
+        continue;
+      }
+
+      user.updateSensitiveFields({ performanceRating: rating });
+      await this.userRepository.save(user);
+      updated++;
+    }
+
+    this.logger.info(
+      { cycleId: saved.id, ratingsUpdated: updated },
+      'Review cycle closed successfully'
+    );
+
+    return toReviewCycleDTO(saved);
+  }
+}
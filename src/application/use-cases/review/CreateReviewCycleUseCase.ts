@@ -0,0 +1,96 @@
+import { IReviewCycleRepository } from '../../../domain/repositories/IReviewCycleRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { User } from '../../../domain/entities/User';
+import { ReviewCycle, ReviewParticipant } from '../../../domain/entities/ReviewCycle';
+import {
+  CreateReviewCycleDTO,
+  ReviewCycleDTO,
+  toReviewCycleDTO,
+} from '../../dtos/ReviewCycleDTO';
+import { getCurrentTenant } from '@/lib/tenant-context';
+import { PermissionDeniedError } from '../../../domain/errors';
+import { findManagerInReportingLine } from './reviewCycleAccess';
+
+export interface CreateReviewCycleInput extends CreateReviewCycleDTO {
+  requesterId: string;
+}
+
+/**
+ * Create Review Cycle Use Case
+ *
+ * Sets up a draft review cycle with its questionnaire, deadline and participants.
+ *
+ * Business Rules:
+ * - Only managers can run review cycles
+ * - Participants must report to the requester, directly or indirectly
+ * - Each participant's manager writes their manager review
+ */
+export class CreateReviewCycleUseCase {
+  constructor(
+    private readonly reviewCycleRepository: IReviewCycleRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: CreateReviewCycleInput): Promise<ReviewCycleDTO> {
+    this.logger.info(
+      { requesterId: input.requesterId, name: input.name },
+      'Creating review cycle'
+    );
+
+    // 1. Verify requester can run review cycles
+    const requester = await this.userRepository.findById(input.requesterId);
+    if (!requester || requester.isDeleted()) {
+      throw new Error('Requester not found');
+    }
+
+    if (!requester.isManager()) {
+      throw new Error('Only managers can run review cycles');
+    }
+
+    // 2. Resolve who reviews each participant
+    const participants = await this.resolveParticipants(requester, input.participantIds);
+
+    // 3. Create and persist
+    const tenant = getCurrentTenant();
+    const cycle = ReviewCycle.create({
+      organizationId: tenant.organizationId,
+      name: input.name,
+      questions: input.questions,
+      deadline: input.deadline,
+      participants,
+      createdById: requester.id,
+    });
+
+    const saved = await this.reviewCycleRepository.save(cycle);
+
+    this.logger.info(
+      { cycleId: saved.id, participants: saved.participants.length },
+      'Review cycle created successfully'
+    );
+
+    return toReviewCycleDTO(saved);
+  }
+
+  private async resolveParticipants(
+    requester: User,
+    participantIds: string[]
+  ): Promise<ReviewParticipant[]> {
+    const participants: ReviewParticipant[] = [];
+    for (const userId of new Set(participantIds)) {
+      const user = await this.userRepository.findById(userId);
+      if (!user || user.isDeleted()) {
+        throw new Error('Participant not found');
+      }
+
+      const manager = await findManagerInReportingLine(this.userRepository, requester, user.id);
+      if (!manager) {
+        throw new PermissionDeniedError('add people outside your reporting line to a review cycle');
+      }
+
+      participants.push({ userId: user.id, managerId: manager.id, peerIds: [] });
+    }
+    return participants;
+  }
+}
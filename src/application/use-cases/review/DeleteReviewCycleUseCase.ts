@@ -0,0 +1,56 @@
+import { IReviewCycleRepository } from '../../../domain/repositories/IReviewCycleRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { ReviewCycleStatus } from '../../../domain/entities/ReviewCycle';
+import { assertManagesReviewCycle } from './reviewCycleAccess';
+
+export interface DeleteReviewCycleInput {
+  cycleId: string;
+  requesterId: string;
+}
+
+/**
+ * Delete Review Cycle Use Case
+ *
+ * Business Rules:
+ * - Only managers can run review cycles, for people who report to them
+ * - Only drafts can be deleted; once opened, reviews are kept
+ */
+export class DeleteReviewCycleUseCase {
+  constructor(
+    private readonly reviewCycleRepository: IReviewCycleRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: DeleteReviewCycleInput): Promise<void> {
+    this.logger.info(
+      { cycleId: input.cycleId, requesterId: input.requesterId },
+      'Deleting review cycle'
+    );
+
+    const requester = await this.userRepository.findById(input.requesterId);
+    if (!requester || requester.isDeleted()) {
+      throw new Error('Requester not found');
+    }
+
+    if (!requester.isManager()) {
+      throw new Error('Only managers can run review cycles');
+    }
+
+    const cycle = await this.reviewCycleRepository.findById(input.cycleId);
+    if (!cycle) {
+      throw new Error('Review cycle not found');
+    }
+
+    await assertManagesReviewCycle(this.userRepository, requester, cycle);
+
+    if (cycle.status !== ReviewCycleStatus.DRAFT) {
+      throw new Error('Only draft review cycles can be deleted');
+    }
+
+    await this.reviewCycleRepository.delete(cycle.id);
+
+    this.logger.info({ cycleId: cycle.id }, 'Review cycle deleted successfully');
+  }
+}
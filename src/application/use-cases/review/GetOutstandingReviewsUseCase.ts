@@ -0,0 +1,72 @@
+import { IReviewCycleRepository } from '../../../domain/repositories/IReviewCycleRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { ReviewCycleStatus } from '../../../domain/entities/ReviewCycle';
+import { OutstandingReviewsDTO } from '../../dtos/ReviewCycleDTO';
+import { assertManagesReviewCycle } from './reviewCycleAccess';
+
+export interface GetOutstandingReviewsInput {
+  cycleId: string;
+  requesterId: string;
+}
+
+/**
+ * Get Outstanding Reviews Use Case
+ *
+ * Finds who still has reviews to write in an open cycle, so they can be reminded.
+ *
+ * Business Rules:
+ * - Only managers can run review cycles, for people who report to them
+ * - Only open cycles have outstanding reviews
+ * - Reviewers who have since left are skipped
+ */
+export class GetOutstandingReviewsUseCase {
+  constructor(
+    private readonly reviewCycleRepository: IReviewCycleRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: GetOutstandingReviewsInput): Promise<OutstandingReviewsDTO> {
+    this.logger.debug(
+      { cycleId: input.cycleId, requesterId: input.requesterId },
+      'Getting outstanding reviews'
+    );
+
+    const requester = await this.userRepository.findById(input.requesterId);
+    if (!requester || requester.isDeleted()) {
+      throw new Error('Requester not found');
+    }
+
+    if (!requester.isManager()) {
+      throw new Error('Only managers can run review cycles');
+    }
+
+    const cycle = await this.reviewCycleRepository.findById(input.cycleId);
+    if (!cycle) {
+      throw new Error('Review cycle not found');
+    }
+
+    await assertManagesReviewCycle(this.userRepository, requester, cycle);
+
+    if (cycle.status !== ReviewCycleStatus.OPEN) {
+      throw new Error('Reminders can only be sent while the review cycle is open');
+    }
+
+    const reviewers: OutstandingReviewsDTO['reviewers'] = [];
+    for (const [reviewerId, pending] of cycle.pendingReviewsByReviewer()) {
+      const reviewer = await this.userRepository.findById(reviewerId);
+      if (reviewer && !reviewer.isDeleted()) {
+        reviewers.push({ reviewerId, pending: pending.length });
+      }
+    }
+
+    return {
+      cycleId: cycle.id,
+      cycleName: cycle.name,
+      deadline: cycle.deadline,
+      isOverdue: cycle.isOverdue(),
+      reviewers,
+    };
+  }
+}
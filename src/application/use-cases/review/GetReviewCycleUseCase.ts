@@ -0,0 +1,51 @@
+import { IReviewCycleRepository } from '../../../domain/repositories/IReviewCycleRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { ReviewCycleDTO, toReviewCycleDTO } from '../../dtos/ReviewCycleDTO';
+import { managesReviewCycle } from './reviewCycleAccess';
+
+export interface GetReviewCycleInput {
+  cycleId: string;
+  userId: string; // User requesting the cycle
+}
+
+/**
+ * Get Review Cycle Use Case
+ *
+ * Business Rules:
+ * - Managers see the full cycle, including every review, when every
+ *   participant reports to them
+ * - Participants and reviewers see an opened cycle limited to their own
+ *   reviews and results
+ */
+export class GetReviewCycleUseCase {
+  constructor(
+    private readonly reviewCycleRepository: IReviewCycleRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: GetReviewCycleInput): Promise<ReviewCycleDTO> {
+    this.logger.debug({ cycleId: input.cycleId, userId: input.userId }, 'Getting review cycle');
+
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const cycle = await this.reviewCycleRepository.findById(input.cycleId);
+    if (!cycle) {
+      throw new Error('Review cycle not found');
+    }
+
+    if (await managesReviewCycle(this.userRepository, user, cycle)) {
+      return toReviewCycleDTO(cycle);
+    }
+
+    if (!cycle.openedAt || !cycle.involves(user.id)) {
+      throw new Error('Review cycle not found');
+    }
+
+    return toReviewCycleDTO(cycle, user.id);
+  }
+}
@@ -0,0 +1,53 @@
+import { IReviewCycleRepository } from '../../../domain/repositories/IReviewCycleRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { ReviewCycleDTO, toReviewCycleDTO } from '../../dtos/ReviewCycleDTO';
+import { managesReviewCycle } from './reviewCycleAccess';
+
+export interface GetReviewCyclesInput {
+  userId: string;
+}
+
+/**
+ * Get Review Cycles Use Case
+ *
+ * Lists review cycles with their progress, newest first.
+ *
+ * Business Rules:
+ * - Managers see the cycles they run in full - every participant reports to them
+ * - Otherwise users see the opened cycles they take part in, limited to their own
+ *   reviews and results
+ */
+export class GetReviewCyclesUseCase {
+  constructor(
+    private readonly reviewCycleRepository: IReviewCycleRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: GetReviewCyclesInput): Promise<ReviewCycleDTO[]> {
+    this.logger.debug({ userId: input.userId }, 'Getting review cycles');
+
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    // Managers look through every cycle for the ones they run
+    const cycles = user.isManager()
+      ? await this.reviewCycleRepository.findAll()
+      : await this.reviewCycleRepository.findInvolving(user.id);
+
+    const visible: ReviewCycleDTO[] = [];
+    for (const cycle of cycles) {
+      if (await managesReviewCycle(this.userRepository, user, cycle)) {
+        visible.push(toReviewCycleDTO(cycle));
+      } else if (cycle.openedAt && cycle.involves(user.id)) {
+        // Drafts are not visible until they open
+        visible.push(toReviewCycleDTO(cycle, user.id));
+      }
+    }
+
+    return visible;
+  }
+}
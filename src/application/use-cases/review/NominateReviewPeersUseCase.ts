@@ -0,0 +1,91 @@
+import { IReviewCycleRepository } from '../../../domain/repositories/IReviewCycleRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { ReviewCycleStatus } from '../../../domain/entities/ReviewCycle';
+import { ReviewCycleDTO, toReviewCycleDTO } from '../../dtos/ReviewCycleDTO';
+import { findManagerInReportingLine, managesReviewCycle } from './reviewCycleAccess';
+
+export interface NominateReviewPeersInput {
+  cycleId: string;
+  userId: string; // Participant the peers will review
+  requesterId: string;
+  peerIds: string[]; // Replaces the current nominations
+}
+
+export interface NominateReviewPeersResult {
+  cycle: ReviewCycleDTO;
+  requestedPeerIds: string[]; // Peers who now have a review to write
+}
+
+/**
+ * Nominate Review Peers Use Case
+ *
+ * Chooses who writes peer reviews for a participant.
+ *
+ * Business Rules:
+ * - Participants nominate their own peers; their manager and the managers above
+ *   them can too
+ * - Peers must be active members of the organization
+ * - Nominations close when calibration starts
+ */
+export class NominateReviewPeersUseCase {
+  constructor(
+    private readonly reviewCycleRepository: IReviewCycleRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: NominateReviewPeersInput): Promise<NominateReviewPeersResult> {
+    this.logger.info(
+      { cycleId: input.cycleId, userId: input.userId, requesterId: input.requesterId },
+      'Nominating review peers'
+    );
+
+    // 1. Get requester and cycle
+    const requester = await this.userRepository.findById(input.requesterId);
+    if (!requester || requester.isDeleted()) {
+      throw new Error('Requester not found');
+    }
+
+    const cycle = await this.reviewCycleRepository.findById(input.cycleId);
+    if (!cycle) {
+      throw new Error('Review cycle not found');
+    }
+
+    // 2. Check permissions
+    const participant = cycle.participants.find((p) => p.userId === input.userId);
+    const canNominate =
+      requester.id === input.userId ||
+      requester.id === participant?.managerId ||
+      (requester.isManager() &&
+        (await findManagerInReportingLine(this.userRepository, requester, input.userId)) !== null);
+    if (!canNominate) {
+      throw new Error('You can only nominate peers for yourself or the people you review');
+    }
+
+    // 3. Verify peers
+    for (const peerId of new Set(input.peerIds)) {
+      const peer = await this.userRepository.findById(peerId);
+      if (!peer || peer.isDeleted()) {
+        throw new Error('Peer not found');
+      }
+    }
+
+    // 4. Nominate and persist
+    const added = cycle.nominatePeers(input.userId, input.peerIds);
+    const saved = await this.reviewCycleRepository.save(cycle);
+
+    this.logger.info(
+      { cycleId: saved.id, userId: input.userId, added: added.length },
+      'Review peers nominated successfully'
+    );
+
+    return {
+      cycle: toReviewCycleDTO(
+        saved,
+        (await managesReviewCycle(this.userRepository, requester, saved)) ? undefined : requester.id
+      ),
+      requestedPeerIds: saved.status === ReviewCycleStatus.OPEN ? added : [],
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import { IReviewCycleRepository } from '../../../domain/repositories/IReviewCycleRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { ReviewCycleDTO, toReviewCycleDTO } from '../../dtos/ReviewCycleDTO';
+import { assertManagesReviewCycle } from './reviewCycleAccess';
+
+export interface OpenReviewCycleInput {
+  cycleId: string;
+  requesterId: string;
+}
+
+/**
+ * Open Review Cycle Use Case
+ *
+ * Starts collecting reviews: every participant gets a self-review, their
+ * manager a manager review and each nominated peer a peer review to write.
+ *
+ * Business Rules:
+ * - Only managers can run review cycles, for people who report to them
+ * - Only drafts with participants and a future deadline can be opened
+ */
+export class OpenReviewCycleUseCase {
+  constructor(
+    private readonly reviewCycleRepository: IReviewCycleRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: OpenReviewCycleInput): Promise<ReviewCycleDTO> {
+    this.logger.info(
+      { cycleId: input.cycleId, requesterId: input.requesterId },
+      'Opening review cycle'
+    );
+
+    const requester = await this.userRepository.findById(input.requesterId);
+    if (!requester || requester.isDeleted()) {
+      throw new Error('Requester not found');
+    }
+
+    if (!requester.isManager()) {
+      throw new Error('Only managers can run review cycles');
+    }
+
+    const cycle = await this.reviewCycleRepository.findById(input.cycleId);
+    if (!cycle) {
+      throw new Error('Review cycle not found');
+    }
+
+    await assertManagesReviewCycle(this.userRepository, requester, cycle);
+
+    cycle.open();
+
+    const saved = await this.reviewCycleRepository.save(cycle);
+
+    this.logger.info(
+      { cycleId: saved.id, reviews: saved.reviews.length },
+      'Review cycle opened successfully'
+    );
+
+    return toReviewCycleDTO(saved);
+  }
+}
@@ -0,0 +1,59 @@
+import { IReviewCycleRepository } from '../../../domain/repositories/IReviewCycleRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { ReviewCycleDTO, toReviewCycleDTO } from '../../dtos/ReviewCycleDTO';
+import { assertManagesReviewCycle } from './reviewCycleAccess';
+
+export interface StartReviewCalibrationInput {
+  cycleId: string;
+  requesterId: string;
+}
+
+/**
+ * Start Review Calibration Use Case
+ *
+ * Stops collecting reviews so managers can compare and adjust ratings.
+ *
+ * Business Rules:
+ * - Only managers can run review cycles, for people who report to them
+ * - Every manager review must be submitted; outstanding self and peer
+ *   reviews are left unsubmitted
+ */
+export class StartReviewCalibrationUseCase {
+  constructor(
+    private readonly reviewCycleRepository: IReviewCycleRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: StartReviewCalibrationInput): Promise<ReviewCycleDTO> {
+    this.logger.info(
+      { cycleId: input.cycleId, requesterId: input.requesterId },
+      'Starting review calibration'
+    );
+
+    const requester = await this.userRepository.findById(input.requesterId);
+    if (!requester || requester.isDeleted()) {
+      throw new Error('Requester not found');
+    }
+
+    if (!requester.isManager()) {
+      throw new Error('Only managers can run review cycles');
+    }
+
+    const cycle = await this.reviewCycleRepository.findById(input.cycleId);
+    if (!cycle) {
+      throw new Error('Review cycle not found');
+    }
+
+    await assertManagesReviewCycle(this.userRepository, requester, cycle);
+
+    cycle.startCalibration();
+
+    const saved = await this.reviewCycleRepository.save(cycle);
+
+    this.logger.info({ cycleId: saved.id }, 'Review calibration started successfully');
+
+    return toReviewCycleDTO(saved);
+  }
+}
@@ -0,0 +1,51 @@
+import { IReviewCycleRepository } from '../../../domain/repositories/IReviewCycleRepository';
+import { ILogger } from '../../ports/ILogger';
+import { ReviewAnswer } from '../../../domain/entities/ReviewCycle';
+import { ReviewDTO } from '../../dtos/ReviewCycleDTO';
+
+export interface SubmitReviewInput {
+  cycleId: string;
+  reviewId: string;
+  reviewerId: string;
+  answers: ReviewAnswer[];
+  rating?: number; // Manager reviews only
+}
+
+/**
+ * Submit Review Use Case
+ *
+ * Business Rules:
+ * - Reviewers can only submit the reviews assigned to them, once
+ * - Every question must be answered; manager reviews also propose a rating
+ * - Reviews can only be submitted while the cycle is open (late is fine)
+ */
+export class SubmitReviewUseCase {
+  constructor(
+    private readonly reviewCycleRepository: IReviewCycleRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: SubmitReviewInput): Promise<ReviewDTO> {
+    this.logger.info(
+      { cycleId: input.cycleId, reviewId: input.reviewId, reviewerId: input.reviewerId },
+      'Submitting review'
+    );
+
+    const cycle = await this.reviewCycleRepository.findById(input.cycleId);
+    if (!cycle) {
+      throw new Error('Review cycle not found');
+    }
+
+    cycle.submitReview(input.reviewId, input.reviewerId, input.answers, input.rating);
+
+    const saved = await this.reviewCycleRepository.save(cycle);
+    const review = saved.reviews.find((r) => r.id === input.reviewId)!;
+
+    this.logger.info(
+      { cycleId: saved.id, reviewId: review.id, kind: review.kind },
+      'Review submitted successfully'
+    );
+
+    return review;
+  }
+}
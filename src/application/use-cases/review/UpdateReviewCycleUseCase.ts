@@ -0,0 +1,97 @@
+import { IReviewCycleRepository } from '../../../domain/repositories/IReviewCycleRepository';
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { ReviewParticipant, ReviewQuestion } from '../../../domain/entities/ReviewCycle';
+import { ReviewCycleDTO, toReviewCycleDTO } from '../../dtos/ReviewCycleDTO';
+import { PermissionDeniedError } from '../../../domain/errors';
+import { assertManagesReviewCycle, findManagerInReportingLine } from './reviewCycleAccess';
+
+export interface UpdateReviewCycleInput {
+  cycleId: string;
+  requesterId: string;
+  name?: string;
+  questions?: ReviewQuestion[];
+  deadline?: Date;
+  participantIds?: string[];
+}
+
+/**
+ * Update Review Cycle Use Case
+ *
+ * Edits a draft cycle, or moves the deadline of an open one.
+ *
+ * Business Rules:
+ * - Only managers can run review cycles, for people who report to them
+ * - Name, questionnaire and participants are fixed once the cycle opens
+ * - Participants kept in the cycle keep their nominated peers
+ */
+export class UpdateReviewCycleUseCase {
+  constructor(
+    private readonly reviewCycleRepository: IReviewCycleRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: UpdateReviewCycleInput): Promise<ReviewCycleDTO> {
+    this.logger.info(
+      { cycleId: input.cycleId, requesterId: input.requesterId },
+      'Updating review cycle'
+    );
+
+    // 1. Verify requester can run review cycles
+    const requester = await this.userRepository.findById(input.requesterId);
+    if (!requester || requester.isDeleted()) {
+      throw new Error('Requester not found');
+    }
+
+    if (!requester.isManager()) {
+      throw new Error('Only managers can run review cycles');
+    }
+
+    // 2. Get cycle
+    const cycle = await this.reviewCycleRepository.findById(input.cycleId);
+    if (!cycle) {
+      throw new Error('Review cycle not found');
+    }
+
+    await assertManagesReviewCycle(this.userRepository, requester, cycle);
+
+    // 3. Apply changes (domain enforces which are allowed in the current state)
+    if (input.name !== undefined || input.questions !== undefined) {
+      cycle.update({ name: input.name, questions: input.questions });
+    }
+
+    if (input.participantIds !== undefined) {
+      const existing = new Map(cycle.participants.map((p) => [p.userId, p]));
+      const participants: ReviewParticipant[] = [];
+      for (const userId of new Set(input.participantIds)) {
+        const user = await this.userRepository.findById(userId);
+        if (!user || user.isDeleted()) {
+          throw new Error('Participant not found');
+        }
+
+        const manager = await findManagerInReportingLine(this.userRepository, requester, user.id);
+        if (!manager) {
+          throw new PermissionDeniedError('add people outside your reporting line to a review cycle');
+        }
+
+        participants.push({
+          userId: user.id,
+          managerId: manager.id,
+          peerIds: existing.get(user.id)?.peerIds ?? [],
+        });
+      }
+      cycle.setParticipants(participants);
+    }
+
+    if (input.deadline !== undefined) {
+      cycle.reschedule(input.deadline);
+    }
+
+    const saved = await this.reviewCycleRepository.save(cycle);
+
+    this.logger.info({ cycleId: saved.id }, 'Review cycle updated successfully');
+
+    return toReviewCycleDTO(saved);
+  }
+}
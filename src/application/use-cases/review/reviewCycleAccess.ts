@@ -0,0 +1,62 @@
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { User } from '../../../domain/entities/User';
+import { ReviewCycle } from '../../../domain/entities/ReviewCycle';
+import { PermissionDeniedError } from '../../../domain/errors';
+
+/**
+ * Reporting-line checks shared by the review cycle use cases
+ * Managers only review, calibrate and rate the people who report to them,
+ * directly or indirectly - the same scope as updating their sensitive fields.
+ */
+
+/**
+ * Find the nearest manager of a user, if the requester is above them
+ * @returns The manager who writes the user's manager review, or null if the user
+ * is outside the requester's reporting line
+ */
+export async function findManagerInReportingLine(
+  userRepository: IUserRepository,
+  requester: User,
+  userId: string
+): Promise<User | null> {
+  const chain = await userRepository.findManagerChain(userId);
+  return chain.some((manager) => manager.id === requester.id) ? chain[0] : null;
+}
+
+/**
+ * Check if a manager runs a review cycle: every participant reports to them.
+ * Cycles without participants belong to whoever created them.
+ */
+export async function managesReviewCycle(
+  userRepository: IUserRepository,
+  requester: User,
+  cycle: ReviewCycle
+): Promise<boolean> {
+  if (!requester.isManager()) {
+    return false;
+  }
+
+  if (cycle.participants.length === 0) {
+    return cycle.createdById === requester.id;
+  }
+
+  for (const participant of cycle.participants) {
+    if (!(await findManagerInReportingLine(userRepository, requester, participant.userId))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * @throws PermissionDeniedError if the cycle includes people outside the requester's reporting line
+ */
+export async function assertManagesReviewCycle(
+  userRepository: IUserRepository,
+  requester: User,
+  cycle: ReviewCycle
+): Promise<void> {
+  if (!(await managesReviewCycle(userRepository, requester, cycle))) {
+    throw new PermissionDeniedError('run review cycles for people outside your reporting line');
+  }
+}
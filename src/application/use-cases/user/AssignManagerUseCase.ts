@@ -0,0 +1,99 @@
+import { IUserRepository } from '../../../domain/repositories/IUserRepository';
+import { ILogger } from '../../ports/ILogger';
+import { AssignManagerDTO, UserDTO } from '../../dtos/UserDTO';
+import { UserDTOMapper } from '../../mappers/UserDTOMapper';
+
+export interface AssignManagerInput extends AssignManagerDTO {
+  requesterId: string; // User making the request
+}
+
+/**
+ * Assign Manager Use Case
+ * Sets (or clears) who a user reports to
+ *
+ * Business Rules:
+ * - Only managers can change reporting lines
+ * - Managers can only move their own direct and indirect reports, or unassigned
+ *   users without reports of their own (taking one on would bring their whole line)
+ * - The new manager must be the requester or one of their reports
+ * - The manager must be an active user in the same organization
+ * - A user cannot report to themselves or to one of their own reports (no cycles)
+ */
+export class AssignManagerUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(input: AssignManagerInput): Promise<UserDTO> {
+    this.logger.info(
+      { userId: input.userId, managerId: input.managerId, requesterId: input.requesterId },
+      'Assigning manager'
+    );
+
+    // 1. Verify requester can change reporting lines
+    const requester = await this.userRepository.findById(input.requesterId);
+    if (!requester) {
+      throw new Error('Requester not found');
+    }
+
+    if (!requester.isManager()) {
+      throw new Error('Only managers can change reporting lines');
+    }
+
+    // 2. Get target user
+    const user = await this.userRepository.findById(input.userId);
+    if (!user || user.isDeleted() || user.organizationId !== requester.organizationId) {
+      throw new Error('User not found');
+    }
+
+    // 3. The requester can only re-parent people outside any reporting line or within their own
+    const requesterReportIds = await this.userRepository.findReportIds(requester.id);
+    const userReportIds = await this.userRepository.findReportIds(user.id);
+    const isUnassigned = !user.managerId && userReportIds.size === 0;
+    if (!isUnassigned && !requesterReportIds.has(user.id)) {
+      this.logger.warn(
+        { userId: user.id, requesterId: requester.id },
+        'Reporting line change outside own reporting line rejected'
+      );
+      throw new Error('You can only change the reporting line of people who report to you');
+    }
+
+    // 4. Validate the new manager
+    if (input.managerId) {
+      if (input.managerId !== requester.id && !requesterReportIds.has(input.managerId)) {
+        throw new Error('The new manager must be you or someone who reports to you');
+      }
+
+      const manager = await this.userRepository.findById(input.managerId);
+      if (!manager || manager.isDeleted()) {
+        throw new Error('Manager not found');
+      }
+
+      if (manager.organizationId !== user.organizationId) {
+        throw new Error('Manager must belong to the same organization');
+      }
+
+      // 5. Prevent cycles - the new manager cannot already report to this user
+      if (userReportIds.has(manager.id)) {
+        this.logger.warn(
+          { userId: user.id, managerId: manager.id },
+          'Reporting line cycle rejected'
+        );
+        throw new Error(`${manager.name} already reports to ${user.name}`);
+      }
+    }
+
+    // 6. Assign (domain rejects self-assignment)
+    user.assignManager(input.managerId ?? undefined);
+
+    const saved = await this.userRepository.save(user);
+
+    this.logger.info(
+      { userId: saved.id, managerId: saved.managerId },
+      'Manager assigned successfully'
+    );
+
+    return UserDTOMapper.toDTO(saved);
+  }
+}
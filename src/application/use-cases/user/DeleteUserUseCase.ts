@@ -75,6 +75,7 @@ export class DeleteUserUseCase {
       state: saved.state,
       zipCode: saved.zipCode,
       country: saved.country,
+      managerId: saved.managerId,
       deletedAt: saved.deletedAt,
       createdAt: saved.createdAt,
       updatedAt: saved.updatedAt,
@@ -32,8 +32,11 @@ export class GetUserUseCase {
       throw new Error('Requester not found');
     }
 
-    // Check permissions for sensitive data
-    const canViewSensitive = input.includeSensitive && requester.canViewSensitiveDataOf(user);
+    // Check permissions for sensitive data (managers: direct and indirect reports only)
+    const reportIds = input.includeSensitive && requester.isManager()
+      ? await this.userRepository.findReportIds(requester.id)
+      : undefined;
+    const canViewSensitive = input.includeSensitive && requester.canViewSensitiveDataOf(user, reportIds);
 
     // Use mapper to convert to DTO with proper typing
     return UserDTOMapper.toDTO(user, canViewSensitive);
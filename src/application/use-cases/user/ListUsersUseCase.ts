@@ -44,8 +44,13 @@ export class ListUsersUseCase {
       take: input.take,
     });
 
+    // Managers see sensitive fields of their direct and indirect reports only
+    const reportIds = input.includeSensitive && requester.isManager()
+      ? await this.userRepository.findReportIds(requester.id)
+      : undefined;
+
     const users = result.users.map(user => {
-      const canViewSensitive = input.includeSensitive && requester.canViewSensitiveDataOf(user);
+      const canViewSensitive = input.includeSensitive && requester.canViewSensitiveDataOf(user, reportIds);
       return UserDTOMapper.toDTO(user, canViewSensitive);
     });
 
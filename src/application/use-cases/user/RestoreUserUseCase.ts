@@ -79,6 +79,7 @@ export class RestoreUserUseCase {
       state: saved.state,
       zipCode: saved.zipCode,
       country: saved.country,
+      managerId: saved.managerId,
       deletedAt: saved.deletedAt,
       createdAt: saved.createdAt,
       updatedAt: saved.updatedAt,
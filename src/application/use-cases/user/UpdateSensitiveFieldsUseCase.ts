@@ -15,10 +15,10 @@ export interface UpdateSensitiveFieldsInput {
 
 /**
  * Update Sensitive Fields Use Case
- * Updates sensitive user fields (only by authorized managers in same department)
+ * Updates sensitive user fields (only by managers in the user's reporting line)
  *
  * Business Rules:
- * - Managers can only update sensitive fields for users in their department
+ * - Managers can only update sensitive fields for their direct and indirect reports
  * - Users cannot update their own sensitive fields
  * - SSN is encrypted before storage
  */
@@ -52,16 +52,17 @@ export class UpdateSensitiveFieldsUseCase {
       throw new Error('You do not have permission to update sensitive fields');
     }
 
-    // Managers can only update their department
-    if (requester.department !== targetUser.department) {
-      throw new Error('You can only update sensitive fields for users in your department');
-    }
-
     // Users cannot update their own sensitive fields (requires Manager approval)
     if (requester.id === targetUser.id) {
       throw new Error('You cannot update your own sensitive fields');
     }
 
+    // Managers can only update their direct and indirect reports
+    const reportIds = await this.userRepository.findReportIds(requester.id);
+    if (!reportIds.has(targetUser.id)) {
+      throw new Error('You can only update sensitive fields for people who report to you');
+    }
+
     // Prepare updates
     const updates: {
       salary?: number;
@@ -107,6 +108,7 @@ export class UpdateSensitiveFieldsUseCase {
       state: saved.state,
       zipCode: saved.zipCode,
       country: saved.country,
+      managerId: saved.managerId,
       deletedAt: saved.deletedAt,
       createdAt: saved.createdAt,
       updatedAt: saved.updatedAt,
@@ -83,6 +83,7 @@ export class UpdateUserProfileUseCase {
       state: saved.state,
       zipCode: saved.zipCode,
       country: saved.country,
+      managerId: saved.managerId,
       deletedAt: saved.deletedAt,
       createdAt: saved.createdAt,
       updatedAt: saved.updatedAt,
@@ -1,9 +1,24 @@
 import { DateRange } from '../value-objects/DateRange';
+import { DayPart } from '../value-objects/DayPart';
+import { ApprovalDecision, ApprovalStep, StepApprover } from '../value-objects/ApprovalStep';
+import { ApprovalStepRule, DEFAULT_APPROVAL_STEPS } from '../value-objects/ApprovalWorkflow';
 
 export enum AbsenceStatus {
   PENDING = 'PENDING',
   APPROVED = 'APPROVED',
   REJECTED = 'REJECTED',
+  CANCELLED = 'CANCELLED', // Approved leave withdrawn after its cancellation was approved
+}
+
+/**
+ * An employee's request to withdraw approved leave, and the approver's answer
+ */
+export interface AbsenceCancellation {
+  reason: string;
+  requestedAt: Date;
+  decidedById?: string;
+  decidedAt?: Date;
+  comment?: string;
 }
 
 export interface AbsenceProps {
@@ -11,8 +26,12 @@ export interface AbsenceProps {
   organizationId: string;
   userId: string;
   dateRange: DateRange;
+  dayPart: DayPart;
   reason: string;
+  absenceTypeId?: string;
   status: AbsenceStatus;
+  approvalSteps?: ApprovalStep[]; // Empty for single-decision requests (no chain started)
+  cancellation?: AbsenceCancellation; // Latest cancellation request of approved leave
   deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -38,6 +57,8 @@ export class Absence {
     userId: string,
     dateRange: DateRange,
     reason: string,
+    absenceTypeId?: string,
+    dayPart: DayPart = DayPart.fullDay(),
     id?: string
   ): Absence {
     return new Absence({
@@ -45,8 +66,11 @@ export class Absence {
       organizationId,
       userId,
       dateRange,
+      dayPart,
       reason,
+      absenceTypeId,
       status: AbsenceStatus.PENDING,
+      approvalSteps: [],
       createdAt: new Date(),
       updatedAt: new Date(),
     });
@@ -68,6 +92,10 @@ export class Absence {
       throw new Error('Absence reason cannot exceed 500 characters');
     }
 
+    if (this.props.dayPart.isPartial() && !this.props.dateRange.isSingleDay()) {
+      throw new Error('Half-day and hourly absences must start and end on the same day');
+    }
+
     // Cannot request absence in the past (unless already created)
     if (!this.props.id && this.props.dateRange.isInPast()) {
       throw new Error('Cannot request absence for past dates');
@@ -83,9 +111,10 @@ export class Absence {
       return false;
     }
 
-    // Don't check against rejected or deleted absences
+    // Don't check against rejected, cancelled or deleted absences
     if (
       other.status === AbsenceStatus.REJECTED ||
+      other.status === AbsenceStatus.CANCELLED ||
       other.isDeleted()
     ) {
       return false;
@@ -96,13 +125,74 @@ export class Absence {
       return false;
     }
 
-    return this.props.dateRange.overlaps(other.props.dateRange);
+    if (!this.props.dateRange.overlaps(other.props.dateRange)) {
+      return false;
+    }
+
+    // Two partial absences on the same day only clash if their times overlap
+    // (e.g. a morning and an afternoon request can coexist)
+    if (this.props.dayPart.isPartial() && other.props.dayPart.isPartial()) {
+      return this.props.dayPart.overlaps(other.props.dayPart);
+    }
+
+    return true;
+  }
+
+  /**
+   * Business logic: Change the dates, part of day or reason of a pending request
+   * Approvals already given are cleared, so the changed request must pass its
+   * approval chain again (see startApprovalChain)
+   */
+  update(changes: { dateRange?: DateRange; dayPart?: DayPart; reason?: string }): void {
+    if (!this.isPending()) {
+      throw new Error('Can only edit pending absence requests');
+    }
+
+    if (this.isDeleted()) {
+      throw new Error('Cannot edit deleted absence request');
+    }
+
+    if (changes.dateRange && changes.dateRange.isInPast()) {
+      throw new Error('Cannot move an absence to past dates');
+    }
+
+    // Validate the edited request before applying it
+    const updated = new Absence({
+      ...this.props,
+      dateRange: changes.dateRange ?? this.props.dateRange,
+      dayPart: changes.dayPart ?? this.props.dayPart,
+      reason: changes.reason ?? this.props.reason,
+    });
+
+    this.props = {
+      ...updated.props,
+      approvalSteps: [],
+      updatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Business logic: Attach the approval chain a pending request must pass
+   */
+  startApprovalChain(rules: ApprovalStepRule[]): void {
+    if (!this.isPending()) {
+      throw new Error('Can only start an approval chain on pending absence requests');
+    }
+
+    if (this.approvalSteps.some((step) => !step.isPending())) {
+      throw new Error('Approval chain has already started');
+    }
+
+    this.props.approvalSteps = rules.map((rule, position) => ApprovalStep.pending(position, rule));
+    this.props.updatedAt = new Date();
   }
 
   /**
    * Business logic: Approve absence request
+   * With an approval chain this approves the current step; the request only
+   * becomes APPROVED once the last step passes.
    */
-  approve(): void {
+  approve(approverId?: string, comment?: string): void {
     if (this.status !== AbsenceStatus.PENDING) {
       throw new Error('Can only approve pending absence requests');
     }
@@ -111,14 +201,31 @@ export class Absence {
       throw new Error('Cannot approve deleted absence request');
     }
 
-    this.props.status = AbsenceStatus.APPROVED;
+    const step = this.currentApprovalStep() ?? (approverId ? this.openDecisionStep() : undefined);
+    if (step) {
+      if (!approverId) {
+        throw new Error('An approver is required for requests with an approval chain');
+      }
+
+      if (this.hasApprovedStep(approverId)) {
+        throw new Error('You have already approved an earlier step of this request');
+      }
+
+      this.replaceStep(step.decide(ApprovalDecision.APPROVED, approverId, comment));
+    }
+
+    if (!this.currentApprovalStep()) {
+      this.props.status = AbsenceStatus.APPROVED;
+    }
     this.props.updatedAt = new Date();
   }
 
   /**
    * Business logic: Reject absence request
+   * A rejection at any step rejects the request; later steps are skipped.
+   * The reason is stored with the decision so the employee can see it.
    */
-  reject(): void {
+  reject(rejectorId: string, reason: string): void {
     if (this.status !== AbsenceStatus.PENDING) {
       throw new Error('Can only reject pending absence requests');
     }
@@ -127,10 +234,71 @@ export class Absence {
       throw new Error('Cannot reject deleted absence request');
     }
 
+    if (!reason?.trim()) {
+      throw new Error('A reason is required to reject an absence request');
+    }
+
+    const step = this.currentApprovalStep() ?? this.openDecisionStep();
+    this.replaceStep(step.decide(ApprovalDecision.REJECTED, rejectorId, reason));
+    this.props.approvalSteps = this.approvalSteps.map((s) => s.skip());
+
     this.props.status = AbsenceStatus.REJECTED;
     this.props.updatedAt = new Date();
   }
 
+  /**
+   * Requests created before approval chains have no steps; give the decision one
+   * so the approver and comment are recorded like any other
+   */
+  private openDecisionStep(): ApprovalStep {
+    const step = ApprovalStep.pending(0, DEFAULT_APPROVAL_STEPS[0]);
+    this.props.approvalSteps = [step];
+    return step;
+  }
+
+  private replaceStep(decided: ApprovalStep): void {
+    this.props.approvalSteps = this.approvalSteps.map((s) =>
+      s.position === decided.position ? decided : s
+    );
+  }
+
+  /**
+   * Check if someone may decide the request now: anyone eligible for the current
+   * approval step, or (for requests without a chain) any manager above the requester
+   * @param requesterManagerChain - IDs above the requester, nearest manager first
+   */
+  canBeDecidedBy(approver: StepApprover, requesterManagerChain: readonly string[]): boolean {
+    if (!this.isPending() || this.isDeleted() || approver.id === this.userId) {
+      return false;
+    }
+
+    const step = this.currentApprovalStep();
+    return step
+      ? !this.hasApprovedStep(approver.id) && step.canBeDecidedBy(approver, requesterManagerChain)
+      : approver.isManager && requesterManagerChain.includes(approver.id);
+  }
+
+  /**
+   * Check if someone already approved a step - each step needs a different approver
+   */
+  hasApprovedStep(approverId: string): boolean {
+    return this.approvalSteps.some((step) => step.isApproved() && step.decidedById === approverId);
+  }
+
+  /**
+   * The first undecided step of the approval chain, if any
+   */
+  currentApprovalStep(): ApprovalStep | undefined {
+    return this.approvalSteps.find((step) => step.isPending());
+  }
+
+  /**
+   * Check if the request has passed some, but not all, approval steps
+   */
+  isPartiallyApproved(): boolean {
+    return this.isPending() && this.approvalSteps.some((step) => step.isApproved());
+  }
+
   /**
    * Business logic: Soft delete absence
    */
@@ -153,6 +321,105 @@ export class Absence {
     );
   }
 
+  /**
+   * Business logic: Ask to withdraw approved leave
+   * The leave stays approved until an approver accepts the cancellation.
+   */
+  requestCancellation(reason: string): void {
+    if (!this.isApproved()) {
+      throw new Error('Only approved absences can be cancelled');
+    }
+
+    if (this.isDeleted()) {
+      throw new Error('Cannot cancel deleted absence');
+    }
+
+    if (this.isCancellationPending()) {
+      throw new Error('Cancellation has already been requested');
+    }
+
+    if (this.props.dateRange.isInPast()) {
+      throw new Error('Leave that has already started cannot be cancelled');
+    }
+
+    if (!reason?.trim()) {
+      throw new Error('A reason is required to cancel approved leave');
+    }
+
+    if (reason.length > 500) {
+      throw new Error('Cancellation reason cannot exceed 500 characters');
+    }
+
+    this.props.cancellation = { reason: reason.trim(), requestedAt: new Date() };
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * Business logic: Accept a cancellation request - the leave is released
+   */
+  approveCancellation(approverId: string, comment?: string): void {
+    this.decideCancellation(approverId, comment);
+    this.props.status = AbsenceStatus.CANCELLED;
+  }
+
+  /**
+   * Business logic: Decline a cancellation request - the leave stays approved
+   */
+  rejectCancellation(approverId: string, reason: string): void {
+    if (!reason?.trim()) {
+      throw new Error('A reason is required to decline a cancellation');
+    }
+
+    this.decideCancellation(approverId, reason);
+  }
+
+  private decideCancellation(approverId: string, comment?: string): void {
+    if (!this.isCancellationPending() || !this.props.cancellation) {
+      throw new Error('There is no pending cancellation request');
+    }
+
+    if (approverId === this.userId) {
+      throw new Error('Cannot decide the cancellation of your own absence');
+    }
+
+    this.props.cancellation = {
+      ...this.props.cancellation,
+      decidedById: approverId,
+      decidedAt: new Date(),
+      comment: comment?.trim() || undefined,
+    };
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * Check if someone may decide a pending cancellation: whoever gave the final
+   * approval, or any manager above the requester
+   * @param requesterManagerChain - IDs above the requester, nearest manager first
+   */
+  canDecideCancellationBy(approver: StepApprover, requesterManagerChain: readonly string[]): boolean {
+    if (!this.isCancellationPending() || approver.id === this.userId) {
+      return false;
+    }
+
+    const finalApproverId = this.approvalSteps.filter((step) => step.isApproved()).pop()?.decidedById;
+    return (
+      approver.id === finalApproverId ||
+      (approver.isManager && requesterManagerChain.includes(approver.id))
+    );
+  }
+
+  /**
+   * Check if approved leave is waiting on a cancellation decision
+   */
+  isCancellationPending(): boolean {
+    return (
+      this.isApproved() &&
+      !this.isDeleted() &&
+      !!this.props.cancellation &&
+      !this.props.cancellation.decidedAt
+    );
+  }
+
   /**
    * Check if absence can be cancelled
    */
@@ -164,17 +431,27 @@ export class Absence {
   }
 
   /**
-   * Get duration in working days
+   * Get duration in working days (fractional for half-day and hourly absences)
+   * @param holidays - Holiday date keys observed by the absent user
+   */
+  getWorkingDays(holidays?: ReadonlySet<string>): number {
+    return this.props.dateRange.workingDays(holidays) * this.props.dayPart.fraction();
+  }
+
+  /**
+   * Get working days falling within a calendar year
+   * Used for yearly leave balances when an absence spans New Year
    */
-  getWorkingDays(): number {
-    return this.props.dateRange.workingDays();
+  getWorkingDaysInYear(year: number, holidays?: ReadonlySet<string>): number {
+    const days = this.props.dateRange.intersect(DateRange.forYear(year))?.workingDays(holidays) ?? 0;
+    return days * this.props.dayPart.fraction();
   }
 
   /**
-   * Get total duration in days
+   * Get total duration in days (fractional for half-day and hourly absences)
    */
   getTotalDays(): number {
-    return this.props.dateRange.durationInDays();
+    return this.props.dateRange.durationInDays() * this.props.dayPart.fraction();
   }
 
   /**
@@ -192,6 +469,10 @@ export class Absence {
     return this.props.status === AbsenceStatus.REJECTED;
   }
 
+  isCancelled(): boolean {
+    return this.props.status === AbsenceStatus.CANCELLED;
+  }
+
   isDeleted(): boolean {
     return this.props.deletedAt !== undefined;
   }
@@ -215,14 +496,30 @@ export class Absence {
     return this.props.dateRange;
   }
 
+  get dayPart(): DayPart {
+    return this.props.dayPart;
+  }
+
   get reason(): string {
     return this.props.reason;
   }
 
+  get absenceTypeId(): string | undefined {
+    return this.props.absenceTypeId;
+  }
+
   get status(): AbsenceStatus {
     return this.props.status;
   }
 
+  get approvalSteps(): ApprovalStep[] {
+    return [...(this.props.approvalSteps ?? [])];
+  }
+
+  get cancellation(): AbsenceCancellation | undefined {
+    return this.props.cancellation ? { ...this.props.cancellation } : undefined;
+  }
+
   get deletedAt(): Date | undefined {
     return this.props.deletedAt;
   }
@@ -239,6 +536,6 @@ export class Absence {
    * Get all properties (for persistence)
    */
   toObject(): AbsenceProps {
-    return { ...this.props };
+    return { ...this.props, approvalSteps: this.approvalSteps, cancellation: this.cancellation };
   }
 }
@@ -0,0 +1,231 @@
+import { ApprovalStepRule, ApprovalWorkflow } from '../value-objects/ApprovalWorkflow';
+
+export enum AbsenceCategory {
+  VACATION = 'VACATION',
+  SICK = 'SICK',
+  PARENTAL = 'PARENTAL',
+  UNPAID = 'UNPAID',
+  OTHER = 'OTHER',
+}
+
+export interface AbsenceTypeProps {
+  id: string;
+  organizationId: string;
+  name: string;
+  category: AbsenceCategory;
+  color: string;
+  requiresApproval: boolean;
+  countsAgainstAllowance: boolean;
+  approvalSteps?: ApprovalStepRule[]; // Overrides the organization's approval workflow
+  deletedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Default absence types provisioned for organizations that have not
+ * configured their own yet
+ */
+export const DEFAULT_ABSENCE_TYPES: ReadonlyArray<
+  Pick<AbsenceTypeProps, 'name' | 'category' | 'color' | 'requiresApproval' | 'countsAgainstAllowance'>
+> = [
+  {
+    name: 'Vacation',
+    category: AbsenceCategory.VACATION,
+    color: '#3b82f6',
+    requiresApproval: true,
+    countsAgainstAllowance: true,
+  },
+  {
+    name: 'Sick Leave',
+    category: AbsenceCategory.SICK,
+    color: '#ef4444',
+    requiresApproval: false,
+    countsAgainstAllowance: false,
+  },
+  {
+    name: 'Parental Leave',
+    category: AbsenceCategory.PARENTAL,
+    color: '#a855f7',
+    requiresApproval: true,
+    countsAgainstAllowance: false,
+  },
+  {
+    name: 'Unpaid Leave',
+    category: AbsenceCategory.UNPAID,
+    color: '#6b7280',
+    requiresApproval: true,
+    countsAgainstAllowance: false,
+  },
+];
+
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * AbsenceType Aggregate Root
+ * Organization-configurable category of absence (vacation, sick leave, ...)
+ */
+export class AbsenceType {
+  private props: AbsenceTypeProps;
+
+  private constructor(props: AbsenceTypeProps) {
+    this.props = props;
+    this.validate();
+  }
+
+  /**
+   * Factory method to create a new AbsenceType
+   */
+  static create(
+    props: Omit<AbsenceTypeProps, 'id' | 'createdAt' | 'updatedAt' | 'deletedAt'> & { id?: string }
+  ): AbsenceType {
+    return new AbsenceType({
+      ...props,
+      id: props.id || crypto.randomUUID(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Reconstitute from persistence
+   */
+  static reconstitute(props: AbsenceTypeProps): AbsenceType {
+    return new AbsenceType(props);
+  }
+
+  private validate(): void {
+    if (!this.props.name || this.props.name.trim().length === 0) {
+      throw new Error('Absence type name cannot be empty');
+    }
+
+    if (this.props.name.length > 50) {
+      throw new Error('Absence type name cannot exceed 50 characters');
+    }
+
+    if (!HEX_COLOR_PATTERN.test(this.props.color)) {
+      throw new Error('Absence type color must be a hex color like #3b82f6');
+    }
+
+    if (this.props.approvalSteps) {
+      ApprovalWorkflow.create(this.props.approvalSteps);
+    }
+  }
+
+  /**
+   * Business logic: Update configurable fields
+   */
+  update(updates: {
+    name?: string;
+    category?: AbsenceCategory;
+    color?: string;
+    requiresApproval?: boolean;
+    countsAgainstAllowance?: boolean;
+  }): void {
+    if (this.isDeleted()) {
+      throw new Error('Cannot update a deleted absence type');
+    }
+
+    if (updates.name !== undefined) this.props.name = updates.name.trim();
+    if (updates.category !== undefined) this.props.category = updates.category;
+    if (updates.color !== undefined) this.props.color = updates.color;
+    if (updates.requiresApproval !== undefined) this.props.requiresApproval = updates.requiresApproval;
+    if (updates.countsAgainstAllowance !== undefined) {
+      this.props.countsAgainstAllowance = updates.countsAgainstAllowance;
+    }
+
+    this.validate();
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * Business logic: Override the organization's approval workflow for this type
+   * Pass null to fall back to the organization default
+   */
+  setApprovalSteps(steps: ApprovalStepRule[] | null): void {
+    if (this.isDeleted()) {
+      throw new Error('Cannot update a deleted absence type');
+    }
+
+    this.props.approvalSteps = steps ? ApprovalWorkflow.create(steps).toObject() : undefined;
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * The approval workflow requests of this type follow
+   */
+  approvalWorkflow(organizationDefault?: ApprovalStepRule[] | null): ApprovalWorkflow {
+    return ApprovalWorkflow.fromSettings(this.props.approvalSteps ?? organizationDefault);
+  }
+
+  /**
+   * Business logic: Soft delete absence type
+   * Existing requests keep their reference for historical reporting
+   */
+  softDelete(): void {
+    if (this.props.deletedAt) {
+      throw new Error('Absence type is already deleted');
+    }
+
+    this.props.deletedAt = new Date();
+    this.props.updatedAt = new Date();
+  }
+
+  isDeleted(): boolean {
+    return this.props.deletedAt !== undefined;
+  }
+
+  /**
+   * Getters
+   */
+  get id(): string {
+    return this.props.id;
+  }
+
+  get organizationId(): string {
+    return this.props.organizationId;
+  }
+
+  get name(): string {
+    return this.props.name;
+  }
+
+  get category(): AbsenceCategory {
+    return this.props.category;
+  }
+
+  get color(): string {
+    return this.props.color;
+  }
+
+  get requiresApproval(): boolean {
+    return this.props.requiresApproval;
+  }
+
+  get countsAgainstAllowance(): boolean {
+    return this.props.countsAgainstAllowance;
+  }
+
+  get approvalSteps(): ApprovalStepRule[] | undefined {
+    return this.props.approvalSteps?.map((step) => ({ ...step }));
+  }
+
+  get deletedAt(): Date | undefined {
+    return this.props.deletedAt;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this.props.updatedAt;
+  }
+
+  /**
+   * Get all properties (for persistence)
+   */
+  toObject(): AbsenceTypeProps {
+    return { ...this.props };
+  }
+}
@@ -1,3 +1,69 @@
+import { FeedbackScreening, ScreeningCategory } from '../value-objects/FeedbackScreening';
+
+export enum FeedbackType {
+  PRAISE = 'PRAISE',
+  CONSTRUCTIVE = 'CONSTRUCTIVE',
+  REQUEST = 'REQUEST', // Asks the receiver to start or change something
+}
+
+/**
+ * Who can read the feedback besides its giver
+ */
+export enum FeedbackVisibility {
+  RECEIVER = 'RECEIVER', // Receiver and managers see the feedback and who gave it
+  MANAGER_ONLY = 'MANAGER_ONLY', // Private note for managers - hidden from the receiver
+  ANONYMOUS = 'ANONYMOUS', // Receiver and managers see the feedback but not who gave it
+}
+
+/**
+ * Where flagged feedback is in moderation (see FeedbackScreeningPolicy.MODERATE)
+ */
+export enum FeedbackModerationStatus {
+  PENDING = 'PENDING', // Held back from the receiver until a manager decides
+  APPROVED = 'APPROVED', // Released to the receiver
+  REJECTED = 'REJECTED', // Never shown to the receiver
+}
+
+/**
+ * A competency the feedback is about, optionally rated 1 (struggling) to 5 (excelling)
+ */
+export interface FeedbackCompetency {
+  competency: string; // Competency key from the organization's framework
+  rating?: number;
+}
+
+/**
+ * Earlier version of the feedback, kept when the feedback is edited
+ */
+export interface FeedbackRevision {
+  id: string;
+  content: string;
+  polishedContent?: string;
+  editedById: string; // Made the edit that replaced this version
+  editedAt: Date;
+}
+
+export enum FeedbackReplyKind {
+  REPLY = 'REPLY',
+  ACKNOWLEDGEMENT = 'ACKNOWLEDGEMENT', // Receiver marks the feedback as read and taken on board
+}
+
+/**
+ * Message in the thread under the feedback, between its giver and receiver
+ */
+export interface FeedbackReply {
+  id: string;
+  authorId: string;
+  kind: FeedbackReplyKind;
+  content?: string; // Acknowledgements need no text
+  createdAt: Date;
+}
+
+export const MIN_COMPETENCY_RATING = 1;
+export const MAX_COMPETENCY_RATING = 5;
+const MAX_FEEDBACK_COMPETENCIES = 10;
+const MAX_REPLY_LENGTH = 2000;
+
 export interface FeedbackProps {
   id: string;
   organizationId: string;
@@ -6,6 +72,16 @@ export interface FeedbackProps {
   content: string;
   polishedContent?: string;
   isPolished: boolean;
+  polishedBy?: string; // AI provider that produced polishedContent
+  type: FeedbackType;
+  competencies: FeedbackCompetency[];
+  visibility: FeedbackVisibility;
+  revisions: FeedbackRevision[]; // Oldest first
+  replies: FeedbackReply[]; // Oldest first
+  screeningFlags: ScreeningCategory[]; // What the current content was flagged for
+  moderationStatus?: FeedbackModerationStatus; // Unset unless held for moderation
+  moderatedById?: string;
+  moderatedAt?: Date;
   deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -31,6 +107,8 @@ export class Feedback {
     giverId: string,
     receiverId: string,
     content: string,
+    type: FeedbackType = FeedbackType.PRAISE,
+    competencies: FeedbackCompetency[] = [],
     id?: string
   ): Feedback {
     return new Feedback({
@@ -40,6 +118,12 @@ export class Feedback {
       receiverId,
       content,
       isPolished: false,
+      type,
+      competencies: competencies.map((c) => ({ ...c })),
+      visibility: FeedbackVisibility.RECEIVER,
+      revisions: [],
+      replies: [],
+      screeningFlags: [],
       createdAt: new Date(),
       updatedAt: new Date(),
     });
@@ -64,12 +148,50 @@ export class Feedback {
     if (this.props.content.length > 5000) {
       throw new Error('Feedback content cannot exceed 5000 characters');
     }
+
+    if (!Object.values(FeedbackType).includes(this.props.type)) {
+      throw new Error(`Invalid feedback type: ${this.props.type}`);
+    }
+
+    if (!Object.values(FeedbackVisibility).includes(this.props.visibility)) {
+      throw new Error(`Invalid feedback visibility: ${this.props.visibility}`);
+    }
+
+    this.validateCompetencies(this.props.competencies);
+  }
+
+  private validateCompetencies(competencies: FeedbackCompetency[]): void {
+    if (competencies.length > MAX_FEEDBACK_COMPETENCIES) {
+      throw new Error(`Feedback cannot be tagged with more than ${MAX_FEEDBACK_COMPETENCIES} competencies`);
+    }
+
+    const seen = new Set<string>();
+    for (const { competency, rating } of competencies) {
+      if (!competency) {
+        throw new Error('Competency is required');
+      }
+
+      if (seen.has(competency)) {
+        throw new Error(`Competency ${competency} is tagged more than once`);
+      }
+      seen.add(competency);
+
+      if (
+        rating !== undefined &&
+        (!Number.isInteger(rating) || rating < MIN_COMPETENCY_RATING || rating > MAX_COMPETENCY_RATING)
+      ) {
+        throw new Error(
+          `Competency ratings must be whole numbers from ${MIN_COMPETENCY_RATING} to ${MAX_COMPETENCY_RATING}`
+        );
+      }
+    }
   }
 
   /**
    * Business logic: Polish feedback content with AI
+   * Pass the provider that produced the polished content to keep track of it
    */
-  polishContent(polishedContent: string): void {
+  polishContent(polishedContent: string, polishedBy?: string): void {
     if (this.isDeleted()) {
       throw new Error('Cannot polish deleted feedback');
     }
@@ -80,6 +202,23 @@ export class Feedback {
 
     this.props.polishedContent = polishedContent;
     this.props.isPolished = true;
+    this.props.polishedBy = polishedBy;
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * Business logic: Choose who can read the feedback
+   */
+  changeVisibility(visibility: FeedbackVisibility): void {
+    if (this.isDeleted()) {
+      throw new Error('Cannot change visibility of deleted feedback');
+    }
+
+    if (!Object.values(FeedbackVisibility).includes(visibility)) {
+      throw new Error(`Invalid feedback visibility: ${visibility}`);
+    }
+
+    this.props.visibility = visibility;
     this.props.updatedAt = new Date();
   }
 
@@ -89,6 +228,7 @@ export class Feedback {
   resetPolish(): void {
     this.props.polishedContent = undefined;
     this.props.isPolished = false;
+    this.props.polishedBy = undefined;
     this.props.updatedAt = new Date();
   }
 
@@ -118,6 +258,133 @@ export class Feedback {
     this.props.updatedAt = new Date();
   }
 
+  /**
+   * Business logic: Edit the feedback, keeping the current version as a revision
+   * Pass polishedContent when the new content was polished before saving
+   */
+  edit(editedById: string, content: string, polishedContent?: string): void {
+    if (this.isDeleted()) {
+      throw new Error('Cannot edit deleted feedback');
+    }
+
+    if (this.props.moderationStatus === FeedbackModerationStatus.REJECTED) {
+      throw new Error('Rejected feedback cannot be edited');
+    }
+
+    if (content === this.props.content && polishedContent === this.props.polishedContent) {
+      throw new Error('Feedback is unchanged');
+    }
+
+    const revision: FeedbackRevision = {
+      id: crypto.randomUUID(),
+      content: this.props.content,
+      polishedContent: this.props.polishedContent,
+      editedById,
+      editedAt: new Date(),
+    };
+
+    this.updateContent(content);
+    if (polishedContent?.trim()) {
+      this.polishContent(polishedContent);
+    }
+
+    this.props.revisions.push(revision);
+  }
+
+  /**
+   * Business logic: Add a reply or acknowledgement to the thread
+   * Only the giver and receiver take part; only the receiver acknowledges, once
+   */
+  reply(authorId: string, kind: FeedbackReplyKind, content?: string): FeedbackReply {
+    if (this.isDeleted()) {
+      throw new Error('Cannot reply to deleted feedback');
+    }
+
+    if (this.props.visibility === FeedbackVisibility.MANAGER_ONLY) {
+      throw new Error('Manager-only notes cannot be replied to');
+    }
+
+    if (this.isHeldBack()) {
+      throw new Error('Feedback held back by moderation cannot be replied to');
+    }
+
+    if (!this.isFromUser(authorId) && !this.isForUser(authorId)) {
+      throw new Error('Only the giver and receiver can reply to feedback');
+    }
+
+    const text = content?.trim() || undefined;
+
+    if (kind === FeedbackReplyKind.ACKNOWLEDGEMENT) {
+      if (!this.isForUser(authorId)) {
+        throw new Error('Only the receiver can acknowledge feedback');
+      }
+      if (this.isAcknowledged()) {
+        throw new Error('Feedback is already acknowledged');
+      }
+    } else if (!text) {
+      throw new Error('Reply cannot be empty');
+    }
+
+    if (text && text.length > MAX_REPLY_LENGTH) {
+      throw new Error(`Reply cannot exceed ${MAX_REPLY_LENGTH} characters`);
+    }
+
+    const reply: FeedbackReply = {
+      id: crypto.randomUUID(),
+      authorId,
+      kind,
+      content: text,
+      createdAt: new Date(),
+    };
+    this.props.replies.push(reply);
+
+    return { ...reply };
+  }
+
+  /**
+   * Business logic: Record the screening of the feedback's current content
+   * Flagged feedback under a moderation policy is held back from the receiver;
+   * feedback held for earlier content is released once it screens clean
+   */
+  recordScreening(screening: FeedbackScreening): void {
+    this.props.screeningFlags = screening.categories;
+
+    if (screening.requiresModeration()) {
+      this.props.moderationStatus = FeedbackModerationStatus.PENDING;
+      this.props.moderatedById = undefined;
+      this.props.moderatedAt = undefined;
+    } else if (this.isAwaitingModeration() && !screening.isFlagged()) {
+      this.props.moderationStatus = undefined;
+    }
+
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * Business logic: Approve or reject feedback held for moderation
+   * Managers cannot moderate feedback they gave or received
+   */
+  moderate(moderatorId: string, approve: boolean): void {
+    if (this.isDeleted()) {
+      throw new Error('Cannot moderate deleted feedback');
+    }
+
+    if (!this.isAwaitingModeration()) {
+      throw new Error('Feedback is not awaiting moderation');
+    }
+
+    if (this.isFromUser(moderatorId) || this.isForUser(moderatorId)) {
+      throw new Error('You cannot moderate feedback you gave or received');
+    }
+
+    this.props.moderationStatus = approve
+      ? FeedbackModerationStatus.APPROVED
+      : FeedbackModerationStatus.REJECTED;
+    this.props.moderatedById = moderatorId;
+    this.props.moderatedAt = new Date();
+    this.props.updatedAt = new Date();
+  }
+
   /**
    * Business logic: Soft delete feedback
    */
@@ -130,6 +397,13 @@ export class Feedback {
     this.props.updatedAt = new Date();
   }
 
+  /**
+   * Rating given for a competency, if the feedback rates it
+   */
+  ratingFor(competency: string): number | undefined {
+    return this.props.competencies.find((c) => c.competency === competency)?.rating;
+  }
+
   /**
    * Get display content (polished if available, otherwise original)
    */
@@ -153,6 +427,40 @@ export class Feedback {
     return this.props.receiverId === userId;
   }
 
+  /**
+   * Check if a user may read the feedback
+   * Givers always can; receivers unless it is a manager-only note or held back
+   * by moderation; managers can read feedback about anyone but themselves, and
+   * manager-only notes only about their own reports
+   */
+  isVisibleTo(
+    userId: string,
+    isManager: boolean,
+    reportIds: ReadonlySet<string> = new Set()
+  ): boolean {
+    if (this.isFromUser(userId)) {
+      return true;
+    }
+
+    if (this.isForUser(userId)) {
+      return this.props.visibility !== FeedbackVisibility.MANAGER_ONLY && !this.isHeldBack();
+    }
+
+    if (this.props.visibility === FeedbackVisibility.MANAGER_ONLY) {
+      return isManager && reportIds.has(this.props.receiverId);
+    }
+
+    return isManager;
+  }
+
+  /**
+   * Check if the giver's identity must be hidden from a user
+   * Only the giver knows who wrote anonymous feedback
+   */
+  isGiverHiddenFrom(userId: string): boolean {
+    return this.props.visibility === FeedbackVisibility.ANONYMOUS && !this.isFromUser(userId);
+  }
+
   /**
    * Status checks
    */
@@ -160,6 +468,28 @@ export class Feedback {
     return this.props.deletedAt !== undefined;
   }
 
+  isEdited(): boolean {
+    return this.props.revisions.length > 0;
+  }
+
+  isAcknowledged(): boolean {
+    return this.props.replies.some((r) => r.kind === FeedbackReplyKind.ACKNOWLEDGEMENT);
+  }
+
+  isAwaitingModeration(): boolean {
+    return this.props.moderationStatus === FeedbackModerationStatus.PENDING;
+  }
+
+  /**
+   * Check if moderation keeps the feedback from its receiver (pending or rejected)
+   */
+  isHeldBack(): boolean {
+    return (
+      this.isAwaitingModeration() ||
+      this.props.moderationStatus === FeedbackModerationStatus.REJECTED
+    );
+  }
+
   /**
    * Getters
    */
@@ -191,6 +521,46 @@ export class Feedback {
     return this.props.isPolished;
   }
 
+  get polishedBy(): string | undefined {
+    return this.props.polishedBy;
+  }
+
+  get type(): FeedbackType {
+    return this.props.type;
+  }
+
+  get competencies(): FeedbackCompetency[] {
+    return this.props.competencies.map((c) => ({ ...c }));
+  }
+
+  get visibility(): FeedbackVisibility {
+    return this.props.visibility;
+  }
+
+  get revisions(): FeedbackRevision[] {
+    return this.props.revisions.map((r) => ({ ...r }));
+  }
+
+  get replies(): FeedbackReply[] {
+    return this.props.replies.map((r) => ({ ...r }));
+  }
+
+  get screeningFlags(): ScreeningCategory[] {
+    return [...this.props.screeningFlags];
+  }
+
+  get moderationStatus(): FeedbackModerationStatus | undefined {
+    return this.props.moderationStatus;
+  }
+
+  get moderatedById(): string | undefined {
+    return this.props.moderatedById;
+  }
+
+  get moderatedAt(): Date | undefined {
+    return this.props.moderatedAt;
+  }
+
   get deletedAt(): Date | undefined {
     return this.props.deletedAt;
   }
@@ -207,6 +577,12 @@ export class Feedback {
    * Get all properties (for persistence)
    */
   toObject(): FeedbackProps {
-    return { ...this.props };
+    return {
+      ...this.props,
+      competencies: this.competencies,
+      revisions: this.revisions,
+      replies: this.replies,
+      screeningFlags: this.screeningFlags,
+    };
   }
 }
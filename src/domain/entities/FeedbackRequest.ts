@@ -0,0 +1,189 @@
+export enum FeedbackRequestStatus {
+  PENDING = 'PENDING', // Waiting for the recipient's feedback
+  COMPLETED = 'COMPLETED', // Answered with feedback
+  DECLINED = 'DECLINED', // Recipient chose not to answer
+}
+
+export interface FeedbackRequestProps {
+  id: string;
+  organizationId: string;
+  requesterId: string; // Asks for feedback and receives it
+  recipientId: string; // Asked to give feedback
+  prompt?: string; // Optional question the feedback should answer
+  status: FeedbackRequestStatus;
+  dueDate: Date;
+  feedbackId?: string; // Feedback given in answer
+  respondedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const FEEDBACK_REQUEST_DEFAULT_DUE_DAYS = 14;
+const MAX_PROMPT_LENGTH = 500;
+
+/**
+ * FeedbackRequest Aggregate Root
+ * One colleague asked by a user for feedback, optionally on a specific question.
+ * The recipient answers with regular feedback to the requester, or declines.
+ */
+export class FeedbackRequest {
+  private props: FeedbackRequestProps;
+
+  private constructor(props: FeedbackRequestProps) {
+    this.props = props;
+    this.validate();
+  }
+
+  /**
+   * Factory method to create a new pending FeedbackRequest
+   */
+  static create(
+    props: Pick<FeedbackRequestProps, 'organizationId' | 'requesterId' | 'recipientId' | 'dueDate'> &
+      Partial<Pick<FeedbackRequestProps, 'prompt'>> & { id?: string }
+  ): FeedbackRequest {
+    return new FeedbackRequest({
+      id: props.id || crypto.randomUUID(),
+      organizationId: props.organizationId,
+      requesterId: props.requesterId,
+      recipientId: props.recipientId,
+      prompt: props.prompt?.trim() || undefined,
+      status: FeedbackRequestStatus.PENDING,
+      dueDate: props.dueDate,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Reconstitute from persistence
+   */
+  static reconstitute(props: FeedbackRequestProps): FeedbackRequest {
+    return new FeedbackRequest(props);
+  }
+
+  private validate(): void {
+    if (this.props.requesterId === this.props.recipientId) {
+      throw new Error('Cannot request feedback from yourself');
+    }
+
+    if (this.props.prompt && this.props.prompt.length > MAX_PROMPT_LENGTH) {
+      throw new Error(`Feedback request question cannot exceed ${MAX_PROMPT_LENGTH} characters`);
+    }
+
+    if (!Object.values(FeedbackRequestStatus).includes(this.props.status)) {
+      throw new Error(`Invalid feedback request status: ${this.props.status}`);
+    }
+
+    if (Number.isNaN(this.props.dueDate.getTime())) {
+      throw new Error('Feedback request due date is invalid');
+    }
+
+    if (this.props.status === FeedbackRequestStatus.COMPLETED && !this.props.feedbackId) {
+      throw new Error('A completed feedback request must link to its feedback');
+    }
+  }
+
+  /**
+   * Business logic: Answer the request with feedback given by the recipient
+   */
+  complete(feedbackId: string): void {
+    this.assertPending();
+
+    this.props.status = FeedbackRequestStatus.COMPLETED;
+    this.props.feedbackId = feedbackId;
+    this.props.respondedAt = new Date();
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * Business logic: Recipient declines to give feedback
+   */
+  decline(): void {
+    this.assertPending();
+
+    this.props.status = FeedbackRequestStatus.DECLINED;
+    this.props.respondedAt = new Date();
+    this.props.updatedAt = new Date();
+  }
+
+  private assertPending(): void {
+    if (this.props.status !== FeedbackRequestStatus.PENDING) {
+      throw new Error(`This feedback request is already ${this.props.status.toLowerCase()}`);
+    }
+  }
+
+  /**
+   * Check if the request is still waiting for feedback
+   */
+  isPending(): boolean {
+    return this.props.status === FeedbackRequestStatus.PENDING;
+  }
+
+  /**
+   * Check if the request is still pending past its due date
+   */
+  isOverdue(now: Date = new Date()): boolean {
+    return this.isPending() && this.props.dueDate < now;
+  }
+
+  /**
+   * Check if the request was sent to a specific user
+   */
+  isForRecipient(userId: string): boolean {
+    return this.props.recipientId === userId;
+  }
+
+  /**
+   * Getters
+   */
+  get id(): string {
+    return this.props.id;
+  }
+
+  get organizationId(): string {
+    return this.props.organizationId;
+  }
+
+  get requesterId(): string {
+    return this.props.requesterId;
+  }
+
+  get recipientId(): string {
+    return this.props.recipientId;
+  }
+
+  get prompt(): string | undefined {
+    return this.props.prompt;
+  }
+
+  get status(): FeedbackRequestStatus {
+    return this.props.status;
+  }
+
+  get dueDate(): Date {
+    return this.props.dueDate;
+  }
+
+  get feedbackId(): string | undefined {
+    return this.props.feedbackId;
+  }
+
+  get respondedAt(): Date | undefined {
+    return this.props.respondedAt;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this.props.updatedAt;
+  }
+
+  /**
+   * Get all properties (for persistence)
+   */
+  toObject(): FeedbackRequestProps {
+    return { ...this.props };
+  }
+}
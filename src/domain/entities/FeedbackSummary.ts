@@ -0,0 +1,211 @@
+/**
+ * One observation in a summary, citing the feedback it is drawn from
+ */
+export interface FeedbackSummaryPoint {
+  text: string;
+  feedbackIds: string[];
+}
+
+/**
+ * Feedback a summary was generated from - enough to tell whether it changed since
+ */
+export interface FeedbackSummarySource {
+  id: string;
+  updatedAt: Date;
+}
+
+export interface FeedbackSummaryProps {
+  id: string;
+  organizationId: string;
+  subjectId: string; // Whose received feedback is summarized
+  periodStart: Date;
+  periodEnd: Date;
+  themes: FeedbackSummaryPoint[];
+  strengths: FeedbackSummaryPoint[];
+  growthAreas: FeedbackSummaryPoint[];
+  feedbackIds: string[]; // Feedback the summary was generated from
+  sourceUpdatedAt: Date; // Latest update among that feedback
+  provider: string; // AI provider that wrote the summary
+  generatedById: string;
+  generatedAt: Date;
+}
+
+const MAX_POINTS_PER_SECTION = 5;
+
+const copyPoints = (points: FeedbackSummaryPoint[]) =>
+  points.map((point) => ({ ...point, feedbackIds: [...point.feedbackIds] }));
+
+/**
+ * FeedbackSummary Aggregate Root
+ * Themes, strengths and growth areas across the feedback a user received in a
+ * period. Summaries are cached until the feedback they were generated from changes.
+ */
+export class FeedbackSummary {
+  private props: FeedbackSummaryProps;
+
+  private constructor(props: FeedbackSummaryProps) {
+    this.props = props;
+    this.validate();
+  }
+
+  /**
+   * Factory method to create a summary of the given feedback
+   */
+  static create(
+    props: Pick<
+      FeedbackSummaryProps,
+      | 'organizationId'
+      | 'subjectId'
+      | 'periodStart'
+      | 'periodEnd'
+      | 'themes'
+      | 'strengths'
+      | 'growthAreas'
+      | 'provider'
+      | 'generatedById'
+    > & { sources: FeedbackSummarySource[]; id?: string }
+  ): FeedbackSummary {
+    if (props.sources.length === 0) {
+      throw new Error('Cannot summarize a period without feedback');
+    }
+
+    return new FeedbackSummary({
+      id: props.id || crypto.randomUUID(),
+      organizationId: props.organizationId,
+      subjectId: props.subjectId,
+      periodStart: props.periodStart,
+      periodEnd: props.periodEnd,
+      themes: props.themes,
+      strengths: props.strengths,
+      growthAreas: props.growthAreas,
+      feedbackIds: props.sources.map((source) => source.id),
+      sourceUpdatedAt: FeedbackSummary.latestUpdate(props.sources),
+      provider: props.provider,
+      generatedById: props.generatedById,
+      generatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Reconstitute from persistence
+   */
+  static reconstitute(props: FeedbackSummaryProps): FeedbackSummary {
+    return new FeedbackSummary(props);
+  }
+
+  private static latestUpdate(sources: FeedbackSummarySource[]): Date {
+    return new Date(Math.max(...sources.map((source) => source.updatedAt.getTime())));
+  }
+
+  private validate(): void {
+    if (this.props.periodEnd < this.props.periodStart) {
+      throw new Error('Summary period cannot end before it starts');
+    }
+
+    const sources = new Set(this.props.feedbackIds);
+    const points = [...this.props.themes, ...this.props.strengths, ...this.props.growthAreas];
+    for (const point of points) {
+      if (!point.text.trim()) {
+        throw new Error('Summary points need text');
+      }
+
+      if (point.feedbackIds.length === 0) {
+        throw new Error('Summary points must cite the feedback they are drawn from');
+      }
+
+      if (point.feedbackIds.some((id) => !sources.has(id))) {
+        throw new Error('Summary cites feedback it was not generated from');
+      }
+    }
+
+    for (const section of [this.props.themes, this.props.strengths, this.props.growthAreas]) {
+      if (section.length > MAX_POINTS_PER_SECTION) {
+        throw new Error(`A summary section cannot have more than ${MAX_POINTS_PER_SECTION} points`);
+      }
+    }
+  }
+
+  /**
+   * Check if the summary still reflects the feedback in its period
+   * New, removed or edited feedback makes it stale
+   */
+  isCurrentFor(sources: FeedbackSummarySource[]): boolean {
+    if (sources.length !== this.props.feedbackIds.length) {
+      return false;
+    }
+
+    const ids = new Set(this.props.feedbackIds);
+    return (
+      sources.every((source) => ids.has(source.id)) &&
+      FeedbackSummary.latestUpdate(sources).getTime() === this.props.sourceUpdatedAt.getTime()
+    );
+  }
+
+  /**
+   * Getters
+   */
+  get id(): string {
+    return this.props.id;
+  }
+
+  get organizationId(): string {
+    return this.props.organizationId;
+  }
+
+  get subjectId(): string {
+    return this.props.subjectId;
+  }
+
+  get periodStart(): Date {
+    return this.props.periodStart;
+  }
+
+  get periodEnd(): Date {
+    return this.props.periodEnd;
+  }
+
+  get themes(): FeedbackSummaryPoint[] {
+    return copyPoints(this.props.themes);
+  }
+
+  get strengths(): FeedbackSummaryPoint[] {
+    return copyPoints(this.props.strengths);
+  }
+
+  get growthAreas(): FeedbackSummaryPoint[] {
+    return copyPoints(this.props.growthAreas);
+  }
+
+  get feedbackIds(): string[] {
+    return [...this.props.feedbackIds];
+  }
+
+  get sourceUpdatedAt(): Date {
+    return this.props.sourceUpdatedAt;
+  }
+
+  get provider(): string {
+    return this.props.provider;
+  }
+
+  get generatedById(): string {
+    return this.props.generatedById;
+  }
+
+  get generatedAt(): Date {
+    return this.props.generatedAt;
+  }
+
+  /**
+   * Get all properties (for persistence)
+   */
+  toObject(): FeedbackSummaryProps {
+    return {
+      ...this.props,
+      themes: this.themes,
+      strengths: this.strengths,
+      growthAreas: this.growthAreas,
+      feedbackIds: this.feedbackIds,
+    };
+  }
+}
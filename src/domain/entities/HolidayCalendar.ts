@@ -0,0 +1,206 @@
+import { DateRange } from '../value-objects/DateRange';
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export interface HolidayCalendarProps {
+  id: string;
+  organizationId: string;
+  name: string;
+  holidays: Holiday[];
+  departments: string[];
+  userIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * HolidayCalendar Aggregate Root
+ * A named list of public holidays observed by the users and departments it is assigned to.
+ * Holidays are excluded from working-day counts.
+ */
+export class HolidayCalendar {
+  private props: HolidayCalendarProps;
+
+  private constructor(props: HolidayCalendarProps) {
+    this.props = props;
+    this.validate();
+  }
+
+  /**
+   * Factory method to create a new HolidayCalendar
+   */
+  static create(
+    props: Pick<HolidayCalendarProps, 'organizationId' | 'name'> &
+      Partial<Pick<HolidayCalendarProps, 'holidays' | 'departments' | 'userIds'>> & { id?: string }
+  ): HolidayCalendar {
+    return new HolidayCalendar({
+      id: props.id || crypto.randomUUID(),
+      organizationId: props.organizationId,
+      name: props.name.trim(),
+      holidays: HolidayCalendar.normalizeHolidays(props.holidays ?? []),
+      departments: HolidayCalendar.normalizeList(props.departments ?? []),
+      userIds: HolidayCalendar.normalizeList(props.userIds ?? []),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Reconstitute from persistence
+   */
+  static reconstitute(props: HolidayCalendarProps): HolidayCalendar {
+    return new HolidayCalendar(props);
+  }
+
+  /**
+   * Collect the holiday date keys of several calendars into one set
+   */
+  static dateKeysOf(calendars: HolidayCalendar[]): Set<string> {
+    return new Set(calendars.flatMap((calendar) => calendar.holidays.map((h) => h.date)));
+  }
+
+  private validate(): void {
+    if (!this.props.name || this.props.name.trim().length === 0) {
+      throw new Error('Holiday calendar name cannot be empty');
+    }
+
+    if (this.props.name.length > 100) {
+      throw new Error('Holiday calendar name cannot exceed 100 characters');
+    }
+
+    for (const holiday of this.props.holidays) {
+      if (!DATE_KEY_PATTERN.test(holiday.date) || Number.isNaN(Date.parse(holiday.date))) {
+        throw new Error(`Invalid holiday date: ${holiday.date}`);
+      }
+      if (!holiday.name || holiday.name.trim().length === 0) {
+        throw new Error('Holiday name cannot be empty');
+      }
+    }
+  }
+
+  /**
+   * Sort holidays by date and keep one entry per date (last one wins)
+   */
+  private static normalizeHolidays(holidays: Holiday[]): Holiday[] {
+    const byDate = new Map<string, Holiday>();
+    for (const holiday of holidays) {
+      byDate.set(holiday.date, { date: holiday.date, name: holiday.name.trim() });
+    }
+    return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private static normalizeList(values: string[]): string[] {
+    return Array.from(new Set(values.map((v) => v.trim()).filter(Boolean)));
+  }
+
+  /**
+   * Business logic: Rename calendar
+   */
+  rename(name: string): void {
+    this.props.name = name.trim();
+    this.validate();
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * Business logic: Add holidays, replacing any existing entry on the same date
+   */
+  addHolidays(holidays: Holiday[]): void {
+    this.props.holidays = HolidayCalendar.normalizeHolidays([...this.props.holidays, ...holidays]);
+    this.validate();
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * Business logic: Replace the full list of holidays
+   */
+  replaceHolidays(holidays: Holiday[]): void {
+    this.props.holidays = HolidayCalendar.normalizeHolidays(holidays);
+    this.validate();
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * Business logic: Assign calendar to departments and individual users
+   */
+  assign(assignment: { departments?: string[]; userIds?: string[] }): void {
+    if (assignment.departments !== undefined) {
+      this.props.departments = HolidayCalendar.normalizeList(assignment.departments);
+    }
+    if (assignment.userIds !== undefined) {
+      this.props.userIds = HolidayCalendar.normalizeList(assignment.userIds);
+    }
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * Check if the calendar applies to a user, directly or via their department
+   */
+  appliesTo(userId: string, department?: string | null): boolean {
+    return (
+      this.props.userIds.includes(userId) ||
+      (!!department && this.props.departments.includes(department))
+    );
+  }
+
+  /**
+   * Holidays falling within a date range
+   */
+  holidaysIn(range: DateRange): Holiday[] {
+    const from = DateRange.dateKey(range.start);
+    const to = DateRange.dateKey(range.end);
+    return this.props.holidays.filter((h) => h.date >= from && h.date <= to);
+  }
+
+  /**
+   * Getters
+   */
+  get id(): string {
+    return this.props.id;
+  }
+
+  get organizationId(): string {
+    return this.props.organizationId;
+  }
+
+  get name(): string {
+    return this.props.name;
+  }
+
+  get holidays(): Holiday[] {
+    return this.props.holidays.map((h) => ({ ...h }));
+  }
+
+  get departments(): string[] {
+    return [...this.props.departments];
+  }
+
+  get userIds(): string[] {
+    return [...this.props.userIds];
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this.props.updatedAt;
+  }
+
+  /**
+   * Convert to plain object (for serialization)
+   */
+  toObject(): HolidayCalendarProps {
+    return {
+      ...this.props,
+      holidays: this.holidays,
+      departments: this.departments,
+      userIds: this.userIds,
+    };
+  }
+}
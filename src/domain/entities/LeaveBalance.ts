@@ -0,0 +1,147 @@
+import { LeavePolicy } from '../value-objects/LeavePolicy';
+
+export interface LeaveBalanceProps {
+  id: string;
+  organizationId: string;
+  userId: string;
+  year: number;
+  annualAllowance: number;
+  carriedOverDays: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * LeaveBalance Aggregate Root
+ * Yearly leave allowance of a user. Used days are not stored here:
+ * they are derived from approved absence requests so that deleting or
+ * rejecting a request can never leave the balance out of sync.
+ */
+export class LeaveBalance {
+  private props: LeaveBalanceProps;
+
+  private constructor(props: LeaveBalanceProps) {
+    this.props = props;
+    this.validate();
+  }
+
+  /**
+   * Factory method to create a new LeaveBalance
+   */
+  static create(
+    organizationId: string,
+    userId: string,
+    year: number,
+    annualAllowance: number,
+    carriedOverDays = 0,
+    id?: string
+  ): LeaveBalance {
+    return new LeaveBalance({
+      id: id || crypto.randomUUID(),
+      organizationId,
+      userId,
+      year,
+      annualAllowance,
+      carriedOverDays,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Reconstitute from persistence
+   */
+  static reconstitute(props: LeaveBalanceProps): LeaveBalance {
+    return new LeaveBalance(props);
+  }
+
+  private validate(): void {
+    if (!Number.isInteger(this.props.year) || this.props.year < 2000 || this.props.year > 2100) {
+      throw new Error('Leave balance year is invalid');
+    }
+
+    if (this.props.annualAllowance < 0 || this.props.annualAllowance > 365) {
+      throw new Error('Annual allowance must be between 0 and 365 days');
+    }
+
+    if (this.props.carriedOverDays < 0) {
+      throw new Error('Carried over days cannot be negative');
+    }
+  }
+
+  /**
+   * Business logic: Change the yearly allowance (manager override)
+   */
+  updateAllowance(annualAllowance: number): void {
+    if (annualAllowance < 0 || annualAllowance > 365) {
+      throw new Error('Annual allowance must be between 0 and 365 days');
+    }
+    this.props.annualAllowance = annualAllowance;
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * Business logic: Days available so far (accrued allowance plus carryover)
+   */
+  availableDays(policy: LeavePolicy, asOf: Date): number {
+    return policy.accruedDays(this.props.annualAllowance, this.props.year, asOf) + this.props.carriedOverDays;
+  }
+
+  /**
+   * Business logic: Remaining days after deducting used days
+   */
+  remainingDays(policy: LeavePolicy, usedDays: number, asOf: Date): number {
+    return this.availableDays(policy, asOf) - usedDays;
+  }
+
+  /**
+   * Business logic: Can the user take `days` more days?
+   * Always true when the policy allows a negative balance
+   */
+  canTake(days: number, policy: LeavePolicy, usedDays: number, asOf: Date): boolean {
+    if (policy.allowNegativeBalance) return true;
+    return this.remainingDays(policy, usedDays, asOf) >= days;
+  }
+
+  /**
+   * Getters
+   */
+  get id(): string {
+    return this.props.id;
+  }
+
+  get organizationId(): string {
+    return this.props.organizationId;
+  }
+
+  get userId(): string {
+    return this.props.userId;
+  }
+
+  get year(): number {
+    return this.props.year;
+  }
+
+  get annualAllowance(): number {
+    return this.props.annualAllowance;
+  }
+
+  get carriedOverDays(): number {
+    return this.props.carriedOverDays;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this.props.updatedAt;
+  }
+
+  /**
+   * Get all properties (for persistence)
+   */
+  toObject(): LeaveBalanceProps {
+    return { ...this.props };
+  }
+}
@@ -1,10 +1,36 @@
 export type NotificationType =
   | 'FEEDBACK_RECEIVED'
+  | 'FEEDBACK_REQUESTED'
+  | 'FEEDBACK_REPLY'
+  | 'FEEDBACK_MODERATION'
   | 'ABSENCE_APPROVED'
   | 'ABSENCE_REJECTED'
   | 'ABSENCE_PENDING'
+  | 'ABSENCE_CANCELLATION_REQUESTED'
+  | 'ABSENCE_CANCELLED'
+  | 'ABSENCE_CANCELLATION_REJECTED'
+  | 'REVIEW_REQUESTED'
+  | 'REVIEW_REMINDER'
+  | 'REVIEW_COMPLETED'
   | 'SYSTEM';
 
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'FEEDBACK_RECEIVED',
+  'FEEDBACK_REQUESTED',
+  'FEEDBACK_REPLY',
+  'FEEDBACK_MODERATION',
+  'ABSENCE_APPROVED',
+  'ABSENCE_REJECTED',
+  'ABSENCE_PENDING',
+  'ABSENCE_CANCELLATION_REQUESTED',
+  'ABSENCE_CANCELLED',
+  'ABSENCE_CANCELLATION_REJECTED',
+  'REVIEW_REQUESTED',
+  'REVIEW_REMINDER',
+  'REVIEW_COMPLETED',
+  'SYSTEM',
+];
+
 export interface NotificationProps {
   id: string;
   organizationId: string;
@@ -14,6 +40,7 @@ export interface NotificationProps {
   read: boolean;
   data?: Record<string, unknown>;
   userId: string;
+  digestPending?: boolean; // Waiting to go out in the user's daily digest email
   createdAt: Date;
 }
 
@@ -93,6 +120,13 @@ export class Notification {
     this.props.read = false;
   }
 
+  /**
+   * Business logic: Include notification in the user's next daily digest email
+   */
+  queueForDigest(): void {
+    this.props.digestPending = true;
+  }
+
   /**
    * Check if notification is for a specific user
    */
@@ -135,6 +169,10 @@ export class Notification {
     return this.props.userId;
   }
 
+  get digestPending(): boolean {
+    return this.props.digestPending ?? false;
+  }
+
   get createdAt(): Date {
     return this.props.createdAt;
   }
@@ -1,3 +1,8 @@
+import { LeavePolicyProps } from '../value-objects/LeavePolicy';
+import { ApprovalStepRule } from '../value-objects/ApprovalWorkflow';
+import { StaffingRule } from '../value-objects/StaffingPolicy';
+import { Competency } from '../value-objects/CompetencyFramework';
+
 /**
  * Organization Settings interface
  * Represents configurable options for an organization
@@ -9,6 +14,14 @@ export interface OrganizationSettings {
   departments?: string[];
   defaultRole?: string;
   allowInvitations?: boolean;
+  leavePolicy?: Partial<LeavePolicyProps>;
+  approvalWorkflow?: ApprovalStepRule[];
+  staffingRules?: StaffingRule[];
+  competencyFramework?: Competency[];
+  aiProvider?: string; // AI provider polishing feedback - deployment default when unset
+  feedbackScreeningPolicy?: string; // FeedbackScreeningPolicy for flagged feedback - WARN when unset
+  requiredNotificationTypes?: string[]; // NotificationTypes users cannot turn off
+  requireManagerPasskeys?: boolean; // Managers must sign in with a passkey or SSO
   [key: string]: unknown;
 }
 
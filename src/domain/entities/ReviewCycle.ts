@@ -0,0 +1,564 @@
+export enum ReviewCycleStatus {
+  DRAFT = 'DRAFT', // Being set up - questionnaire and participants can still change
+  OPEN = 'OPEN', // Reviews are being written
+  CALIBRATION = 'CALIBRATION', // Managers compare and adjust final ratings
+  CLOSED = 'CLOSED', // Final ratings written back to profiles
+}
+
+export enum ReviewKind {
+  SELF = 'SELF',
+  PEER = 'PEER',
+  MANAGER = 'MANAGER',
+}
+
+export enum ReviewQuestionType {
+  TEXT = 'TEXT',
+  RATING = 'RATING',
+}
+
+export interface ReviewQuestion {
+  id: string;
+  prompt: string;
+  type: ReviewQuestionType;
+}
+
+export interface ReviewAnswer {
+  questionId: string;
+  text?: string; // TEXT questions
+  rating?: number; // RATING questions
+}
+
+export interface ReviewParticipant {
+  userId: string;
+  managerId: string; // Writes the manager review and proposes the rating
+  peerIds: string[]; // Nominated peer reviewers
+  calibratedRating?: number; // Set during calibration, overrides the manager's proposal
+}
+
+export interface Review {
+  id: string;
+  revieweeId: string;
+  reviewerId: string;
+  kind: ReviewKind;
+  answers: ReviewAnswer[];
+  rating?: number; // Overall rating (manager reviews only)
+  submittedAt?: Date;
+}
+
+export interface ReviewProgress {
+  total: number;
+  submitted: number;
+}
+
+export interface ReviewCycleProps {
+  id: string;
+  organizationId: string;
+  name: string;
+  status: ReviewCycleStatus;
+  questions: ReviewQuestion[];
+  deadline: Date;
+  participants: ReviewParticipant[];
+  reviews: Review[];
+  createdById: string;
+  openedAt?: Date;
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const MIN_REVIEW_RATING = 1;
+export const MAX_REVIEW_RATING = 5;
+const MAX_QUESTIONS = 30;
+const MAX_PEERS = 5;
+const MAX_ANSWER_LENGTH = 5000;
+
+/**
+ * ReviewCycle Aggregate Root
+ * A performance review round: each participant writes a self-review, nominated
+ * peers write peer reviews and their manager writes a final review with a rating.
+ * Ratings are calibrated before the cycle closes and written back to profiles.
+ */
+export class ReviewCycle {
+  private props: ReviewCycleProps;
+
+  private constructor(props: ReviewCycleProps) {
+    this.props = props;
+    this.validate();
+  }
+
+  /**
+   * Factory method to create a new draft ReviewCycle
+   */
+  static create(
+    props: Pick<ReviewCycleProps, 'organizationId' | 'name' | 'questions' | 'deadline' | 'createdById'> &
+      Partial<Pick<ReviewCycleProps, 'participants'>> & { id?: string }
+  ): ReviewCycle {
+    return new ReviewCycle({
+      id: props.id || crypto.randomUUID(),
+      organizationId: props.organizationId,
+      name: props.name.trim(),
+      status: ReviewCycleStatus.DRAFT,
+      questions: ReviewCycle.normalizeQuestions(props.questions),
+      deadline: props.deadline,
+      participants: ReviewCycle.normalizeParticipants(props.participants ?? []),
+      reviews: [],
+      createdById: props.createdById,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Reconstitute from persistence
+   */
+  static reconstitute(props: ReviewCycleProps): ReviewCycle {
+    return new ReviewCycle(props);
+  }
+
+  private validate(): void {
+    if (!this.props.name || this.props.name.trim().length === 0) {
+      throw new Error('Review cycle name cannot be empty');
+    }
+
+    if (this.props.name.length > 100) {
+      throw new Error('Review cycle name cannot exceed 100 characters');
+    }
+
+    if (!Object.values(ReviewCycleStatus).includes(this.props.status)) {
+      throw new Error(`Invalid review cycle status: ${this.props.status}`);
+    }
+
+    if (Number.isNaN(this.props.deadline.getTime())) {
+      throw new Error('Review cycle deadline is invalid');
+    }
+
+    this.validateQuestions();
+    this.validateParticipants();
+  }
+
+  private validateQuestions(): void {
+    if (this.props.questions.length === 0) {
+      throw new Error('A review questionnaire needs at least one question');
+    }
+
+    if (this.props.questions.length > MAX_QUESTIONS) {
+      throw new Error(`A review questionnaire cannot have more than ${MAX_QUESTIONS} questions`);
+    }
+
+    const ids = new Set<string>();
+    for (const question of this.props.questions) {
+      if (!question.prompt) {
+        throw new Error('Review questions cannot be empty');
+      }
+
+      if (!Object.values(ReviewQuestionType).includes(question.type)) {
+        throw new Error(`Invalid review question type: ${question.type}`);
+      }
+
+      if (ids.has(question.id)) {
+        throw new Error(`Review question ${question.id} appears more than once`);
+      }
+      ids.add(question.id);
+    }
+  }
+
+  private validateParticipants(): void {
+    const userIds = new Set<string>();
+    for (const participant of this.props.participants) {
+      if (userIds.has(participant.userId)) {
+        throw new Error('A user can only take part in a review cycle once');
+      }
+      userIds.add(participant.userId);
+
+      if (participant.managerId === participant.userId) {
+        throw new Error('Participants cannot write their own manager review');
+      }
+
+      if (participant.peerIds.includes(participant.userId)) {
+        throw new Error('Participants cannot nominate themselves as a peer');
+      }
+
+      if (participant.peerIds.length > MAX_PEERS) {
+        throw new Error(`Participants can nominate at most ${MAX_PEERS} peers`);
+      }
+
+      if (participant.calibratedRating !== undefined) {
+        ReviewCycle.validateRating(participant.calibratedRating);
+      }
+    }
+  }
+
+  private static validateRating(rating: number): void {
+    if (!Number.isInteger(rating) || rating < MIN_REVIEW_RATING || rating > MAX_REVIEW_RATING) {
+      throw new Error(
+        `Review ratings must be whole numbers from ${MIN_REVIEW_RATING} to ${MAX_REVIEW_RATING}`
+      );
+    }
+  }
+
+  private static normalizeQuestions(questions: ReviewQuestion[]): ReviewQuestion[] {
+    return questions.map((question) => ({ ...question, prompt: question.prompt.trim() }));
+  }
+
+  private static normalizeParticipants(participants: ReviewParticipant[]): ReviewParticipant[] {
+    return participants.map((participant) => ({
+      ...participant,
+      peerIds: Array.from(new Set(participant.peerIds)),
+    }));
+  }
+
+  private assertStatus(status: ReviewCycleStatus, action: string): void {
+    if (this.props.status !== status) {
+      throw new Error(`Cannot ${action} a review cycle that is ${this.props.status.toLowerCase()}`);
+    }
+  }
+
+  private findParticipant(userId: string): ReviewParticipant {
+    const participant = this.props.participants.find((p) => p.userId === userId);
+    if (!participant) {
+      throw new Error('User is not taking part in this review cycle');
+    }
+    return participant;
+  }
+
+  private pendingReview(revieweeId: string, reviewerId: string, kind: ReviewKind): Review {
+    return { id: crypto.randomUUID(), revieweeId, reviewerId, kind, answers: [] };
+  }
+
+  /**
+   * Business logic: Change the name or questionnaire of a draft cycle
+   */
+  update(updates: { name?: string; questions?: ReviewQuestion[] }): void {
+    this.assertStatus(ReviewCycleStatus.DRAFT, 'edit');
+
+    if (updates.name !== undefined) {
+      this.props.name = updates.name.trim();
+    }
+    if (updates.questions !== undefined) {
+      this.props.questions = ReviewCycle.normalizeQuestions(updates.questions);
+    }
+    this.validate();
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * Business logic: Replace the participants of a draft cycle
+   */
+  setParticipants(participants: ReviewParticipant[]): void {
+    this.assertStatus(ReviewCycleStatus.DRAFT, 'change participants of');
+
+    this.props.participants = ReviewCycle.normalizeParticipants(participants);
+    this.validate();
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * Business logic: Move the deadline (until reviews are closed for writing)
+   */
+  reschedule(deadline: Date): void {
+    if (this.props.status !== ReviewCycleStatus.DRAFT && this.props.status !== ReviewCycleStatus.OPEN) {
+      throw new Error('The deadline can only change before calibration starts');
+    }
+
+    this.props.deadline = deadline;
+    this.validate();
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * Business logic: Open the cycle and hand out self, manager and peer reviews
+   */
+  open(now: Date = new Date()): void {
+    this.assertStatus(ReviewCycleStatus.DRAFT, 'open');
+
+    if (this.props.participants.length === 0) {
+      throw new Error('A review cycle needs at least one participant');
+    }
+
+    if (this.props.deadline <= now) {
+      throw new Error('The review deadline must be in the future');
+    }
+
+    this.props.reviews = this.props.participants.flatMap((participant) => [
+      this.pendingReview(participant.userId, participant.userId, ReviewKind.SELF),
+      ...participant.peerIds.map((peerId) =>
+        this.pendingReview(participant.userId, peerId, ReviewKind.PEER)
+      ),
+      this.pendingReview(participant.userId, participant.managerId, ReviewKind.MANAGER),
+    ]);
+    this.props.status = ReviewCycleStatus.OPEN;
+    this.props.openedAt = now;
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * Business logic: Replace a participant's nominated peers
+   * Once open, new peers get a review to write and dropped peers lose theirs
+   * @returns IDs of newly nominated peers
+   */
+  nominatePeers(userId: string, peerIds: string[]): string[] {
+    if (this.props.status !== ReviewCycleStatus.DRAFT && this.props.status !== ReviewCycleStatus.OPEN) {
+      throw new Error('Peers can only be nominated before calibration starts');
+    }
+
+    const participant = this.findParticipant(userId);
+    const nominated = Array.from(new Set(peerIds));
+    if (nominated.includes(userId)) {
+      throw new Error('Participants cannot nominate themselves as a peer');
+    }
+    if (nominated.length > MAX_PEERS) {
+      throw new Error(`Participants can nominate at most ${MAX_PEERS} peers`);
+    }
+
+    const added = nominated.filter((peerId) => !participant.peerIds.includes(peerId));
+    const removed = participant.peerIds.filter((peerId) => !nominated.includes(peerId));
+
+    if (this.props.status === ReviewCycleStatus.OPEN) {
+      const isDropped = (review: Review) =>
+        review.kind === ReviewKind.PEER &&
+        review.revieweeId === userId &&
+        removed.includes(review.reviewerId);
+
+      if (this.props.reviews.some((review) => isDropped(review) && review.submittedAt)) {
+        throw new Error('Peers who already submitted their review cannot be removed');
+      }
+
+      this.props.reviews = [
+        ...this.props.reviews.filter((review) => !isDropped(review)),
+        ...added.map((peerId) => this.pendingReview(userId, peerId, ReviewKind.PEER)),
+      ];
+    }
+
+    participant.peerIds = nominated;
+    this.props.updatedAt = new Date();
+
+    return added;
+  }
+
+  /**
+   * Business logic: Submit a review
+   * Every question needs an answer; manager reviews also propose an overall rating.
+   */
+  submitReview(reviewId: string, reviewerId: string, answers: ReviewAnswer[], rating?: number): void {
+    this.assertStatus(ReviewCycleStatus.OPEN, 'submit reviews for');
+
+    const review = this.props.reviews.find((r) => r.id === reviewId);
+    if (!review) {
+      throw new Error('Review not found');
+    }
+
+    if (review.reviewerId !== reviewerId) {
+      throw new Error('You can only submit reviews assigned to you');
+    }
+
+    if (review.submittedAt) {
+      throw new Error('This review has already been submitted');
+    }
+
+    const byQuestion = new Map(answers.map((answer) => [answer.questionId, answer]));
+    const normalized = this.props.questions.map((question): ReviewAnswer => {
+      const answer = byQuestion.get(question.id);
+
+      if (question.type === ReviewQuestionType.RATING) {
+        if (answer?.rating === undefined) {
+          throw new Error(`Please rate: ${question.prompt}`);
+        }
+        ReviewCycle.validateRating(answer.rating);
+        return { questionId: question.id, rating: answer.rating };
+      }
+
+      const text = answer?.text?.trim();
+      if (!text) {
+        throw new Error(`Please answer: ${question.prompt}`);
+      }
+      if (text.length > MAX_ANSWER_LENGTH) {
+        throw new Error(`Answers cannot exceed ${MAX_ANSWER_LENGTH} characters`);
+      }
+      return { questionId: question.id, text };
+    });
+
+    if (review.kind === ReviewKind.MANAGER) {
+      if (rating === undefined) {
+        throw new Error('Manager reviews need an overall rating');
+      }
+      ReviewCycle.validateRating(rating);
+    } else if (rating !== undefined) {
+      throw new Error('Only manager reviews carry an overall rating');
+    }
+
+    review.answers = normalized;
+    review.rating = rating;
+    review.submittedAt = new Date();
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * Business logic: Stop collecting reviews and start calibrating ratings
+   * Outstanding self and peer reviews are left unsubmitted.
+   */
+  startCalibration(): void {
+    this.assertStatus(ReviewCycleStatus.OPEN, 'calibrate');
+
+    const missing = this.props.reviews.filter(
+      (review) => review.kind === ReviewKind.MANAGER && !review.submittedAt
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `${missing.length} manager review${missing.length === 1 ? ' is' : 's are'} still outstanding`
+      );
+    }
+
+    this.props.status = ReviewCycleStatus.CALIBRATION;
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * Business logic: Set a participant's calibrated rating
+   */
+  calibrate(userId: string, rating: number): void {
+    this.assertStatus(ReviewCycleStatus.CALIBRATION, 'calibrate ratings of');
+
+    ReviewCycle.validateRating(rating);
+    this.findParticipant(userId).calibratedRating = rating;
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * Business logic: Close the cycle, fixing the final ratings
+   */
+  close(now: Date = new Date()): void {
+    this.assertStatus(ReviewCycleStatus.CALIBRATION, 'close');
+
+    this.props.status = ReviewCycleStatus.CLOSED;
+    this.props.closedAt = now;
+    this.props.updatedAt = new Date();
+  }
+
+  /**
+   * A participant's final rating: the calibrated one, else the manager's proposal
+   */
+  finalRatingFor(userId: string): number | undefined {
+    const participant = this.findParticipant(userId);
+    if (participant.calibratedRating !== undefined) {
+      return participant.calibratedRating;
+    }
+
+    return this.props.reviews.find(
+      (review) => review.kind === ReviewKind.MANAGER && review.revieweeId === userId
+    )?.rating;
+  }
+
+  /**
+   * Check if a user takes part in the cycle as participant or reviewer
+   */
+  involves(userId: string): boolean {
+    return (
+      this.props.participants.some((p) => p.userId === userId || p.managerId === userId) ||
+      this.props.reviews.some((review) => review.reviewerId === userId)
+    );
+  }
+
+  /**
+   * Check if the deadline passed while reviews are still being written
+   */
+  isOverdue(now: Date = new Date()): boolean {
+    return this.props.status === ReviewCycleStatus.OPEN && this.props.deadline < now;
+  }
+
+  /**
+   * Submitted vs. total reviews, optionally restricted to one kind
+   */
+  progress(kind?: ReviewKind): ReviewProgress {
+    const reviews = this.props.reviews.filter((review) => !kind || review.kind === kind);
+    return {
+      total: reviews.length,
+      submitted: reviews.filter((review) => review.submittedAt).length,
+    };
+  }
+
+  /**
+   * Outstanding reviews grouped by who has to write them
+   */
+  pendingReviewsByReviewer(): Map<string, Review[]> {
+    const pending = new Map<string, Review[]>();
+    for (const review of this.reviews) {
+      if (!review.submittedAt) {
+        pending.set(review.reviewerId, [...(pending.get(review.reviewerId) ?? []), review]);
+      }
+    }
+    return pending;
+  }
+
+  /**
+   * Getters
+   */
+  get id(): string {
+    return this.props.id;
+  }
+
+  get organizationId(): string {
+    return this.props.organizationId;
+  }
+
+  get name(): string {
+    return this.props.name;
+  }
+
+  get status(): ReviewCycleStatus {
+    return this.props.status;
+  }
+
+  get questions(): ReviewQuestion[] {
+    return this.props.questions.map((question) => ({ ...question }));
+  }
+
+  get deadline(): Date {
+    return this.props.deadline;
+  }
+
+  get participants(): ReviewParticipant[] {
+    return this.props.participants.map((participant) => ({
+      ...participant,
+      peerIds: [...participant.peerIds],
+    }));
+  }
+
+  get reviews(): Review[] {
+    return this.props.reviews.map((review) => ({
+      ...review,
+      answers: review.answers.map((answer) => ({ ...answer })),
+    }));
+  }
+
+  get createdById(): string {
+    return this.props.createdById;
+  }
+
+  get openedAt(): Date | undefined {
+    return this.props.openedAt;
+  }
+
+  get closedAt(): Date | undefined {
+    return this.props.closedAt;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this.props.updatedAt;
+  }
+
+  /**
+   * Convert to plain object (for serialization)
+   */
+  toObject(): ReviewCycleProps {
+    return {
+      ...this.props,
+      questions: this.questions,
+      participants: this.participants,
+      reviews: this.reviews,
+    };
+  }
+}
@@ -1,4 +1,5 @@
 import { Email } from '../value-objects/Email';
+import { StepApprover } from '../value-objects/ApprovalStep';
 import { EncryptedField } from '../value-objects/EncryptedField';
 
 export enum Role {
@@ -31,6 +32,7 @@ export interface UserProps {
   emergencyContactName?: string;
   emergencyContactPhone?: string;
   performanceRating?: number;
+  managerId?: string; // Reports-to relation
   deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -80,8 +82,9 @@ export class User {
 
   /**
    * Business logic: Can this user view sensitive data of another user?
+   * @param reportIds - IDs of this user's direct and indirect reports
    */
-  canViewSensitiveDataOf(targetUser: User): boolean {
+  canViewSensitiveDataOf(targetUser: User, reportIds: ReadonlySet<string> = new Set()): boolean {
     // Must be in the same organization (critical security check)
     if (this.props.organizationId !== targetUser.props.organizationId) {
       return false;
@@ -92,15 +95,8 @@ export class User {
       return true;
     }
 
-    // Managers can view sensitive data of users in their department
-    if (this.isManager()) {
-      if (!this.props.department || !targetUser.props.department) {
-        return false;
-      }
-      return this.props.department === targetUser.props.department;
-    }
-
-    return false;
+    // Managers can view sensitive data of users in their reporting line
+    return this.isManager() && reportIds.has(targetUser.id);
   }
 
   /**
@@ -110,6 +106,26 @@ export class User {
     return this.isManager();
   }
 
+  /**
+   * Business logic: Can this user approve absence requests of another user?
+   * Managers approve for their direct and indirect reports only
+   * @param reportIds - IDs of this user's direct and indirect reports
+   */
+  canApproveAbsencesOf(owner: User, reportIds: ReadonlySet<string>): boolean {
+    if (this.props.organizationId !== owner.props.organizationId) {
+      return false;
+    }
+
+    return this.canApproveAbsences() && this.id !== owner.id && reportIds.has(owner.id);
+  }
+
+  /**
+   * This user as a candidate approver for absence approval steps
+   */
+  asStepApprover(): StepApprover {
+    return { id: this.props.id, isManager: this.isManager(), department: this.props.department };
+  }
+
   /**
    * Business logic: Can this user edit another user's profile?
    */
@@ -250,6 +266,18 @@ export class User {
     this.props.updatedAt = new Date();
   }
 
+  /**
+   * Business logic: Set (or clear) the manager this user reports to
+   * Cycle checks across the hierarchy are done by the caller
+   */
+  assignManager(managerId: string | undefined): void {
+    if (managerId === this.props.id) {
+      throw new Error('A user cannot report to themselves');
+    }
+    this.props.managerId = managerId;
+    this.props.updatedAt = new Date();
+  }
+
   /**
    * Role checks
    */
@@ -360,6 +388,10 @@ export class User {
     return this.props.emergencyContactPhone;
   }
 
+  get managerId(): string | undefined {
+    return this.props.managerId;
+  }
+
   get deletedAt(): Date | undefined {
     return this.props.deletedAt;
   }
@@ -32,6 +32,9 @@ export interface IAbsenceRepository {
     take?: number;
     includeUser?: boolean;
     department?: string;
+    userIds?: string[];
+    absenceTypeId?: string;
+    overlapping?: DateRange; // Only absences touching this range
   }): Promise<{ absences: Absence[]; total: number; users?: any[] }>;
 
   /**
@@ -60,11 +63,17 @@ export interface IAbsenceRepository {
 
   /**
    * Get absence statistics for a user
+   * Day totals are working days, skipping the given holiday date keys
    */
-  getStatistics(userId: string): Promise<{
+  getStatistics(userId: string, holidays?: ReadonlySet<string>): Promise<{
     totalDays: number;
     approvedDays: number;
     pendingRequests: number;
     rejectedRequests: number;
+    byType: Array<{
+      absenceTypeId: string | null;
+      requests: number;
+      approvedDays: number;
+    }>;
   }>;
 }
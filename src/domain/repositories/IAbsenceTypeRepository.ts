@@ -0,0 +1,27 @@
+import { AbsenceType } from '../entities/AbsenceType';
+
+/**
+ * AbsenceType Repository Interface
+ * Defines contract for absence type persistence without implementation details
+ */
+export interface IAbsenceTypeRepository {
+  /**
+   * Find absence type by ID
+   */
+  findById(id: string): Promise<AbsenceType | null>;
+
+  /**
+   * Find all absence types for the current organization
+   */
+  findAll(options?: { includeDeleted?: boolean }): Promise<AbsenceType[]>;
+
+  /**
+   * Check if a type with the given name exists
+   */
+  nameExists(name: string, excludeId?: string): Promise<boolean>;
+
+  /**
+   * Save absence type (create or update)
+   */
+  save(absenceType: AbsenceType): Promise<AbsenceType>;
+}
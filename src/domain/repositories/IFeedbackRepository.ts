@@ -1,5 +1,16 @@
 import { Feedback } from '../entities/Feedback';
 
+/**
+ * User reading feedback - queries only return feedback they may see
+ * (see Feedback.isVisibleTo)
+ */
+export interface FeedbackViewer {
+  userId: string;
+  isManager: boolean;
+  /** Direct and indirect reports of a manager; manager-only notes are limited to them */
+  reportIds?: ReadonlySet<string>;
+}
+
 /**
  * Feedback Repository Interface
  * Defines contract for feedback persistence without implementation details
@@ -17,6 +28,7 @@ export interface IFeedbackRepository {
     giverId: string,
     options?: {
       includeDeleted?: boolean;
+      visibleTo?: FeedbackViewer;
       skip?: number;
       take?: number;
     }
@@ -29,6 +41,8 @@ export interface IFeedbackRepository {
     receiverId: string,
     options?: {
       includeDeleted?: boolean;
+      visibleTo?: FeedbackViewer;
+      createdBetween?: { from: Date; to: Date }; // Inclusive
       skip?: number;
       take?: number;
     }
@@ -40,6 +54,8 @@ export interface IFeedbackRepository {
   findAll(options?: {
     includeDeleted?: boolean;
     isPolished?: boolean;
+    awaitingModeration?: boolean; // Only feedback held for moderation
+    visibleTo?: FeedbackViewer;
     skip?: number;
     take?: number;
   }): Promise<{ feedbacks: Feedback[]; total: number }>;
@@ -56,6 +72,7 @@ export interface IFeedbackRepository {
 
   /**
    * Get feedback statistics
+   * Manager-only notes and feedback held back by moderation do not count as received feedback
    */
   getStatistics(userId: string): Promise<{
     givenCount: number;
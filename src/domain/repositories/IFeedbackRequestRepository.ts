@@ -0,0 +1,32 @@
+import { FeedbackRequest } from '../entities/FeedbackRequest';
+
+/**
+ * FeedbackRequest Repository Interface
+ * Defines contract for feedback request persistence without implementation details
+ */
+export interface IFeedbackRequestRepository {
+  /**
+   * Find feedback request by ID
+   */
+  findById(id: string): Promise<FeedbackRequest | null>;
+
+  /**
+   * Find requests a user has sent, newest first
+   */
+  findByRequesterId(requesterId: string): Promise<FeedbackRequest[]>;
+
+  /**
+   * Find requests sent to a user, newest first
+   */
+  findByRecipientId(recipientId: string): Promise<FeedbackRequest[]>;
+
+  /**
+   * Find the pending request from a requester to a recipient, if any
+   */
+  findPending(requesterId: string, recipientId: string): Promise<FeedbackRequest | null>;
+
+  /**
+   * Save feedback request (create or update)
+   */
+  save(request: FeedbackRequest): Promise<FeedbackRequest>;
+}
@@ -0,0 +1,17 @@
+import { FeedbackSummary } from '../entities/FeedbackSummary';
+
+/**
+ * FeedbackSummary Repository Interface
+ * Defines contract for cached feedback summary persistence without implementation details
+ */
+export interface IFeedbackSummaryRepository {
+  /**
+   * Find the summary of a user's feedback for exactly this period, if any
+   */
+  findForPeriod(subjectId: string, periodStart: Date, periodEnd: Date): Promise<FeedbackSummary | null>;
+
+  /**
+   * Save a summary, replacing any earlier summary of the same user and period
+   */
+  save(summary: FeedbackSummary): Promise<FeedbackSummary>;
+}
@@ -0,0 +1,37 @@
+import { HolidayCalendar } from '../entities/HolidayCalendar';
+
+/**
+ * HolidayCalendar Repository Interface
+ * Defines contract for holiday calendar persistence without implementation details
+ */
+export interface IHolidayCalendarRepository {
+  /**
+   * Find holiday calendar by ID
+   */
+  findById(id: string): Promise<HolidayCalendar | null>;
+
+  /**
+   * Find all holiday calendars for the current organization
+   */
+  findAll(): Promise<HolidayCalendar[]>;
+
+  /**
+   * Find calendars assigned to a user directly or through their department
+   */
+  findForUser(userId: string, department?: string | null): Promise<HolidayCalendar[]>;
+
+  /**
+   * Check if a calendar with the given name exists
+   */
+  nameExists(name: string, excludeId?: string): Promise<boolean>;
+
+  /**
+   * Save holiday calendar with its holidays and assignments (create or update)
+   */
+  save(calendar: HolidayCalendar): Promise<HolidayCalendar>;
+
+  /**
+   * Permanently delete a holiday calendar
+   */
+  delete(id: string): Promise<void>;
+}
@@ -0,0 +1,17 @@
+import { LeaveBalance } from '../entities/LeaveBalance';
+
+/**
+ * LeaveBalance Repository Interface
+ * Defines contract for leave balance persistence without implementation details
+ */
+export interface ILeaveBalanceRepository {
+  /**
+   * Find a user's balance for a calendar year
+   */
+  findByUserAndYear(userId: string, year: number): Promise<LeaveBalance | null>;
+
+  /**
+   * Save leave balance (create or update)
+   */
+  save(balance: LeaveBalance): Promise<LeaveBalance>;
+}
@@ -0,0 +1,17 @@
+import { NotificationPreferences } from '../value-objects/NotificationPreferences';
+
+/**
+ * NotificationPreference Repository Interface
+ * Defines contract for notification preference persistence without implementation details
+ */
+export interface INotificationPreferenceRepository {
+  /**
+   * Find a user's notification preferences - the defaults if they never changed any
+   */
+  findByUserId(userId: string): Promise<NotificationPreferences>;
+
+  /**
+   * Save a user's notification preferences
+   */
+  save(userId: string, preferences: NotificationPreferences): Promise<NotificationPreferences>;
+}
@@ -22,11 +22,27 @@ export interface INotificationRepository {
     }
   ): Promise<{ notifications: Notification[]; total: number }>;
 
+  /**
+   * Find a user's notifications created after the given one, oldest first
+   * Returns none if the given notification is not one of the user's
+   */
+  findCreatedAfter(userId: string, notificationId: string, take: number): Promise<Notification[]>;
+
   /**
    * Get unread notification count for a user
    */
   getUnreadCount(userId: string): Promise<number>;
 
+  /**
+   * Find notifications waiting for the daily digest, across organizations, oldest first
+   */
+  findDigestPending(take: number): Promise<Notification[]>;
+
+  /**
+   * Take notifications out of the daily digest queue
+   */
+  clearDigestPending(ids: string[]): Promise<void>;
+
   /**
    * Save notification (create or update)
    */
@@ -0,0 +1,32 @@
+import { ReviewCycle } from '../entities/ReviewCycle';
+
+/**
+ * ReviewCycle Repository Interface
+ * Defines contract for review cycle persistence without implementation details
+ */
+export interface IReviewCycleRepository {
+  /**
+   * Find review cycle by ID
+   */
+  findById(id: string): Promise<ReviewCycle | null>;
+
+  /**
+   * Find all review cycles for the current organization, newest first
+   */
+  findAll(): Promise<ReviewCycle[]>;
+
+  /**
+   * Find cycles a user takes part in as participant, manager or reviewer
+   */
+  findInvolving(userId: string): Promise<ReviewCycle[]>;
+
+  /**
+   * Save review cycle with its participants and reviews (create or update)
+   */
+  save(cycle: ReviewCycle): Promise<ReviewCycle>;
+
+  /**
+   * Permanently delete a review cycle
+   */
+  delete(id: string): Promise<void>;
+}
@@ -27,6 +27,16 @@ export interface IUserRepository {
     take?: number;
   }): Promise<{ users: User[]; total: number }>;
 
+  /**
+   * Find IDs of a manager's direct and indirect reports
+   */
+  findReportIds(managerId: string): Promise<Set<string>>;
+
+  /**
+   * Find the managers above a user, nearest first
+   */
+  findManagerChain(userId: string): Promise<User[]>;
+
   /**
    * Get unique departments
    */
@@ -0,0 +1,172 @@
+import { ApprovalStepRule, ApproverType } from './ApprovalWorkflow';
+
+export enum ApprovalDecision {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  SKIPPED = 'SKIPPED',
+}
+
+export interface ApprovalStepProps {
+  position: number;
+  rule: ApprovalStepRule;
+  decision: ApprovalDecision;
+  decidedById?: string;
+  decidedByName?: string; // Display only, resolved on read
+  comment?: string;
+  decidedAt?: Date;
+}
+
+/**
+ * Who is trying to decide a step, and where they sit relative to the requester
+ */
+export interface StepApprover {
+  id: string;
+  isManager: boolean;
+  department?: string;
+}
+
+/**
+ * ApprovalStep Value Object
+ * One step of an absence request's approval chain with its decision.
+ * Steps are snapshotted from the workflow when the request is created, so later
+ * workflow changes do not affect requests already in flight.
+ */
+export class ApprovalStep {
+  private constructor(private readonly props: ApprovalStepProps) {
+    this.validate();
+  }
+
+  /**
+   * Create an undecided step from a workflow rule
+   */
+  static pending(position: number, rule: ApprovalStepRule): ApprovalStep {
+    return new ApprovalStep({ position, rule: { ...rule }, decision: ApprovalDecision.PENDING });
+  }
+
+  /**
+   * Reconstitute from persistence
+   */
+  static reconstitute(props: ApprovalStepProps): ApprovalStep {
+    return new ApprovalStep(props);
+  }
+
+  private validate(): void {
+    if (this.props.comment && this.props.comment.length > 500) {
+      throw new Error('Approval comment cannot exceed 500 characters');
+    }
+  }
+
+  /**
+   * Check if someone may decide this step
+   * @param requesterManagerChain - IDs above the requester, nearest manager first
+   */
+  canBeDecidedBy(approver: StepApprover, requesterManagerChain: readonly string[]): boolean {
+    const { rule } = this.props;
+
+    switch (rule.approverType) {
+      case ApproverType.REPORTING_MANAGER:
+        return approver.isManager && requesterManagerChain.includes(approver.id);
+      case ApproverType.SECOND_LEVEL_MANAGER:
+        return approver.isManager && requesterManagerChain.slice(1).includes(approver.id);
+      case ApproverType.DEPARTMENT_MANAGER:
+        return approver.isManager && !!rule.department && approver.department === rule.department;
+      case ApproverType.SPECIFIC_USER:
+        return approver.id === rule.userId;
+    }
+  }
+
+  /**
+   * Record a decision, returning the decided step
+   */
+  decide(
+    decision: ApprovalDecision.APPROVED | ApprovalDecision.REJECTED,
+    decidedById: string,
+    comment?: string
+  ): ApprovalStep {
+    if (!this.isPending()) {
+      throw new Error('This approval step has already been decided');
+    }
+
+    return new ApprovalStep({
+      ...this.props,
+      decision,
+      decidedById,
+      decidedByName: undefined,
+      comment: comment?.trim() || undefined,
+      decidedAt: new Date(),
+    });
+  }
+
+  /**
+   * Close an undecided step after the request was rejected earlier in the chain
+   */
+  skip(): ApprovalStep {
+    if (!this.isPending()) {
+      return this;
+    }
+    return new ApprovalStep({ ...this.props, decision: ApprovalDecision.SKIPPED });
+  }
+
+  isPending(): boolean {
+    return this.props.decision === ApprovalDecision.PENDING;
+  }
+
+  isApproved(): boolean {
+    return this.props.decision === ApprovalDecision.APPROVED;
+  }
+
+  /**
+   * Human-readable name of the step
+   */
+  describe(): string {
+    const { rule } = this.props;
+    if (rule.label) return rule.label;
+
+    switch (rule.approverType) {
+      case ApproverType.REPORTING_MANAGER:
+        return 'Manager';
+      case ApproverType.SECOND_LEVEL_MANAGER:
+        return 'Second-level manager';
+      case ApproverType.DEPARTMENT_MANAGER:
+        return `${rule.department} manager`;
+      case ApproverType.SPECIFIC_USER:
+        return 'Named approver';
+    }
+  }
+
+  /**
+   * Getters
+   */
+  get position(): number {
+    return this.props.position;
+  }
+
+  get rule(): ApprovalStepRule {
+    return { ...this.props.rule };
+  }
+
+  get decision(): ApprovalDecision {
+    return this.props.decision;
+  }
+
+  get decidedById(): string | undefined {
+    return this.props.decidedById;
+  }
+
+  get decidedByName(): string | undefined {
+    return this.props.decidedByName;
+  }
+
+  get comment(): string | undefined {
+    return this.props.comment;
+  }
+
+  get decidedAt(): Date | undefined {
+    return this.props.decidedAt;
+  }
+
+  toObject(): ApprovalStepProps {
+    return { ...this.props, rule: this.rule };
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Who may decide an approval step
+ * - REPORTING_MANAGER: anyone above the requester in their reporting line
+ * - SECOND_LEVEL_MANAGER: anyone above the requester's direct manager
+ * - DEPARTMENT_MANAGER: a manager of the named department (e.g. HR)
+ * - SPECIFIC_USER: one named approver
+ */
+export enum ApproverType {
+  REPORTING_MANAGER = 'REPORTING_MANAGER',
+  SECOND_LEVEL_MANAGER = 'SECOND_LEVEL_MANAGER',
+  DEPARTMENT_MANAGER = 'DEPARTMENT_MANAGER',
+  SPECIFIC_USER = 'SPECIFIC_USER',
+}
+
+export interface ApprovalStepRule {
+  approverType: ApproverType;
+  label?: string;
+  department?: string; // DEPARTMENT_MANAGER only
+  userId?: string; // SPECIFIC_USER only
+  /** Only include this step when the request is longer than this many working days */
+  whenDaysExceed?: number;
+}
+
+export const MAX_APPROVAL_STEPS = 5;
+
+export const DEFAULT_APPROVAL_STEPS: readonly ApprovalStepRule[] = [
+  { approverType: ApproverType.REPORTING_MANAGER },
+];
+
+/**
+ * ApprovalWorkflow Value Object
+ * Ordered chain of approval steps a request must pass. The organization default
+ * is stored under `approvalWorkflow` in OrganizationSettings; absence types can
+ * override it.
+ */
+export class ApprovalWorkflow {
+  private constructor(private readonly _steps: ApprovalStepRule[]) {
+    this.validate();
+  }
+
+  /**
+   * Factory method to create an ApprovalWorkflow
+   */
+  static create(steps: ApprovalStepRule[]): ApprovalWorkflow {
+    return new ApprovalWorkflow(steps.map((step) => ApprovalWorkflow.normalize(step)));
+  }
+
+  /**
+   * Build a workflow from stored settings, falling back to a single
+   * reporting-manager step when nothing is configured
+   */
+  static fromSettings(steps?: ApprovalStepRule[] | null): ApprovalWorkflow {
+    return ApprovalWorkflow.create(steps && steps.length > 0 ? steps : [...DEFAULT_APPROVAL_STEPS]);
+  }
+
+  private static normalize(step: ApprovalStepRule): ApprovalStepRule {
+    return {
+      approverType: step.approverType,
+      ...(step.label?.trim() && { label: step.label.trim() }),
+      ...(step.approverType === ApproverType.DEPARTMENT_MANAGER && {
+        department: step.department?.trim(),
+      }),
+      ...(step.approverType === ApproverType.SPECIFIC_USER && { userId: step.userId }),
+      ...(step.whenDaysExceed !== undefined && { whenDaysExceed: step.whenDaysExceed }),
+    };
+  }
+
+  private validate(): void {
+    if (this._steps.length === 0) {
+      throw new Error('An approval workflow needs at least one step');
+    }
+
+    if (this._steps.length > MAX_APPROVAL_STEPS) {
+      throw new Error(`An approval workflow cannot have more than ${MAX_APPROVAL_STEPS} steps`);
+    }
+
+    if (this._steps[0].whenDaysExceed !== undefined) {
+      throw new Error('The first approval step cannot be conditional');
+    }
+
+    for (const step of this._steps) {
+      if (!Object.values(ApproverType).includes(step.approverType)) {
+        throw new Error(`Unknown approver type: ${step.approverType}`);
+      }
+
+      if (step.approverType === ApproverType.DEPARTMENT_MANAGER && !step.department) {
+        throw new Error('Department approval steps need a department');
+      }
+
+      if (step.approverType === ApproverType.SPECIFIC_USER && !step.userId) {
+        throw new Error('Named approval steps need an approver');
+      }
+
+      if (step.whenDaysExceed !== undefined && step.whenDaysExceed < 0) {
+        throw new Error('Step day threshold cannot be negative');
+      }
+    }
+  }
+
+  /**
+   * Steps that apply to a request of the given length
+   */
+  stepsFor(workingDays: number): ApprovalStepRule[] {
+    return this._steps
+      .filter((step) => step.whenDaysExceed === undefined || workingDays > step.whenDaysExceed)
+      .map((step) => ({ ...step }));
+  }
+
+  get steps(): ApprovalStepRule[] {
+    return this._steps.map((step) => ({ ...step }));
+  }
+
+  toObject(): ApprovalStepRule[] {
+    return this.steps;
+  }
+}
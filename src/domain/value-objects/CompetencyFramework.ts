@@ -0,0 +1,97 @@
+export interface Competency {
+  /** Stable identifier stored on feedback (e.g. "communication") */
+  key: string;
+  name: string;
+  description?: string;
+}
+
+/**
+ * Competencies offered until an organization defines its own
+ */
+export const DEFAULT_COMPETENCIES: Competency[] = [
+  { key: 'communication', name: 'Communication' },
+  { key: 'ownership', name: 'Ownership' },
+  { key: 'collaboration', name: 'Collaboration' },
+  { key: 'technical-skills', name: 'Technical Skills' },
+  { key: 'problem-solving', name: 'Problem Solving' },
+  { key: 'leadership', name: 'Leadership' },
+];
+
+const MAX_COMPETENCIES = 20;
+const KEY_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * CompetencyFramework Value Object
+ * The competencies feedback can be tagged and rated against, stored under
+ * `competencyFramework` in OrganizationSettings.
+ */
+export class CompetencyFramework {
+  private constructor(private readonly _competencies: Competency[]) {
+    this.validate();
+  }
+
+  /**
+   * Factory method to create a CompetencyFramework
+   */
+  static create(competencies: Competency[]): CompetencyFramework {
+    return new CompetencyFramework(
+      competencies.map((competency) => ({
+        key: competency.key.trim(),
+        name: competency.name.trim(),
+        ...(competency.description?.trim() && { description: competency.description.trim() }),
+      }))
+    );
+  }
+
+  /**
+   * Build a framework from stored settings, falling back to the defaults
+   */
+  static fromSettings(competencies?: Competency[] | null): CompetencyFramework {
+    return CompetencyFramework.create(competencies ?? DEFAULT_COMPETENCIES);
+  }
+
+  private validate(): void {
+    if (this._competencies.length > MAX_COMPETENCIES) {
+      throw new Error(`A competency framework cannot have more than ${MAX_COMPETENCIES} competencies`);
+    }
+
+    const keys = new Set<string>();
+    for (const competency of this._competencies) {
+      if (!competency.name) {
+        throw new Error('Competencies need a name');
+      }
+
+      if (!KEY_PATTERN.test(competency.key)) {
+        throw new Error(`Invalid competency key: ${competency.key}`);
+      }
+
+      if (keys.has(competency.key)) {
+        throw new Error(`There is already a competency called ${competency.name}`);
+      }
+      keys.add(competency.key);
+    }
+  }
+
+  /**
+   * Check if feedback can be tagged with a competency
+   */
+  has(key: string): boolean {
+    return this._competencies.some((competency) => competency.key === key);
+  }
+
+  /**
+   * The competency with a key, if it is part of the framework
+   */
+  find(key: string): Competency | undefined {
+    const competency = this._competencies.find((c) => c.key === key);
+    return competency ? { ...competency } : undefined;
+  }
+
+  get competencies(): Competency[] {
+    return this._competencies.map((competency) => ({ ...competency }));
+  }
+
+  toObject(): Competency[] {
+    return this.competencies;
+  }
+}
@@ -5,9 +5,12 @@
 export class DateRange {
   private constructor(
     private readonly _start: Date,
-    private readonly _end: Date
+    private readonly _end: Date,
+    skipValidation = false
   ) {
-    this.validate();
+    if (!skipValidation) {
+      this.validate();
+    }
   }
 
   /**
@@ -31,6 +34,15 @@ export class DateRange {
     }
   }
 
+  /**
+   * Date range covering a full calendar year
+   * Not subject to the maximum absence duration (leap years and the
+   * end-of-day bound push it past 365 days)
+   */
+  static forYear(year: number): DateRange {
+    return new DateRange(new Date(year, 0, 1), new Date(year, 11, 31, 23, 59, 59, 999), true);
+  }
+
   /**
    * Check if this date range overlaps with another
    */
@@ -38,6 +50,16 @@ export class DateRange {
     return this._start <= other._end && this._end >= other._start;
   }
 
+  /**
+   * Part of this range that falls within another, or null if they don't overlap
+   */
+  intersect(other: DateRange): DateRange | null {
+    if (!this.overlaps(other)) return null;
+    const start = this._start > other._start ? this._start : other._start;
+    const end = this._end < other._end ? this._end : other._end;
+    return new DateRange(new Date(start), new Date(end));
+  }
+
   /**
    * Calculate duration in days (inclusive)
    */
@@ -47,16 +69,31 @@ export class DateRange {
   }
 
   /**
-   * Calculate working days (excluding weekends)
+   * Calendar date key (YYYY-MM-DD) used to match days against holiday lists
+   */
+  static dateKey(date: Date): string {
+    const y = date.getFullYear();
+    const m = String(date.getMonth() + 1).padStart(2, '0');
+    const d = String(date.getDate()).padStart(2, '0');
+    return `${y}-${m}-${d}`;
+  }
+
+  /**
+   * Calculate working days (excluding weekends and any given holidays)
+   * @param holidays - Date keys (see dateKey) of public holidays to skip
    */
-  workingDays(): number {
+  workingDays(holidays?: ReadonlySet<string>): number {
     let count = 0;
     const current = new Date(this._start);
 
     while (current <= this._end) {
       const dayOfWeek = current.getDay();
-      if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-        // Not Sunday (0) or Saturday (6)
+      if (
+        dayOfWeek !== 0 &&
+        dayOfWeek !== 6 &&
+        !holidays?.has(DateRange.dateKey(current))
+      ) {
+        // Not Sunday (0), Saturday (6) or a holiday
         count++;
       }
       current.setDate(current.getDate() + 1);
@@ -65,6 +102,13 @@ export class DateRange {
     return count;
   }
 
+  /**
+   * Check if the range starts and ends on the same calendar day
+   */
+  isSingleDay(): boolean {
+    return DateRange.dateKey(this._start) === DateRange.dateKey(this._end);
+  }
+
   /**
    * Check if date range is in the past
    */
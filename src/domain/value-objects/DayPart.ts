@@ -0,0 +1,163 @@
+export enum AbsenceDayPart {
+  FULL_DAY = 'FULL_DAY',
+  MORNING = 'MORNING',
+  AFTERNOON = 'AFTERNOON',
+  HOURS = 'HOURS',
+}
+
+/** Hours in a standard working day, used to turn hourly requests into day fractions */
+export const WORKDAY_HOURS = 8;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MIDDAY_MINUTES = 12 * 60;
+const END_OF_DAY_MINUTES = 24 * 60;
+
+/**
+ * DayPart Value Object
+ * Which part of each day an absence covers: the whole day, a half day
+ * (morning/afternoon split at noon) or an explicit window of hours
+ */
+export class DayPart {
+  private constructor(
+    private readonly _type: AbsenceDayPart,
+    private readonly _startTime?: string,
+    private readonly _endTime?: string
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Factory method to create a DayPart
+   * @param startTime - HH:mm, required for HOURS
+   * @param endTime - HH:mm, required for HOURS
+   */
+  static create(type: AbsenceDayPart, startTime?: string | null, endTime?: string | null): DayPart {
+    if (type !== AbsenceDayPart.HOURS) {
+      return new DayPart(type);
+    }
+    return new DayPart(type, startTime ?? undefined, endTime ?? undefined);
+  }
+
+  static fullDay(): DayPart {
+    return new DayPart(AbsenceDayPart.FULL_DAY);
+  }
+
+  private validate(): void {
+    if (this._type !== AbsenceDayPart.HOURS) return;
+
+    if (!this._startTime || !TIME_PATTERN.test(this._startTime)) {
+      throw new Error('Start time must be in HH:mm format');
+    }
+
+    if (!this._endTime || !TIME_PATTERN.test(this._endTime)) {
+      throw new Error('End time must be in HH:mm format');
+    }
+
+    const minutes = this.endMinutes() - this.startMinutes();
+    if (minutes <= 0) {
+      throw new Error('End time must be after start time');
+    }
+
+    if (minutes > WORKDAY_HOURS * 60) {
+      throw new Error(`Hourly absences cannot exceed ${WORKDAY_HOURS} hours; request a full day instead`);
+    }
+  }
+
+  private static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private startMinutes(): number {
+    switch (this._type) {
+      case AbsenceDayPart.AFTERNOON:
+        return MIDDAY_MINUTES;
+      case AbsenceDayPart.HOURS:
+        return DayPart.toMinutes(this._startTime!);
+      default:
+        return 0;
+    }
+  }
+
+  private endMinutes(): number {
+    switch (this._type) {
+      case AbsenceDayPart.MORNING:
+        return MIDDAY_MINUTES;
+      case AbsenceDayPart.HOURS:
+        return DayPart.toMinutes(this._endTime!);
+      default:
+        return END_OF_DAY_MINUTES;
+    }
+  }
+
+  /**
+   * Check if this covers less than a full day
+   */
+  isPartial(): boolean {
+    return this._type !== AbsenceDayPart.FULL_DAY;
+  }
+
+  /**
+   * Fraction of a working day covered (1 for full days)
+   */
+  fraction(): number {
+    switch (this._type) {
+      case AbsenceDayPart.FULL_DAY:
+        return 1;
+      case AbsenceDayPart.MORNING:
+      case AbsenceDayPart.AFTERNOON:
+        return 0.5;
+      case AbsenceDayPart.HOURS:
+        return (this.endMinutes() - this.startMinutes()) / (WORKDAY_HOURS * 60);
+    }
+  }
+
+  /**
+   * Check if two parts of the same day overlap in time
+   */
+  overlaps(other: DayPart): boolean {
+    return this.startMinutes() < other.endMinutes() && other.startMinutes() < this.endMinutes();
+  }
+
+  /**
+   * Getters
+   */
+  get type(): AbsenceDayPart {
+    return this._type;
+  }
+
+  get startTime(): string | undefined {
+    return this._startTime;
+  }
+
+  get endTime(): string | undefined {
+    return this._endTime;
+  }
+
+  /**
+   * Value object equality
+   */
+  equals(other: DayPart): boolean {
+    return (
+      this._type === other._type &&
+      this._startTime === other._startTime &&
+      this._endTime === other._endTime
+    );
+  }
+
+  /**
+   * String representation
+   */
+  toString(): string {
+    switch (this._type) {
+      case AbsenceDayPart.FULL_DAY:
+        return 'Full day';
+      case AbsenceDayPart.MORNING:
+        return 'Morning';
+      case AbsenceDayPart.AFTERNOON:
+        return 'Afternoon';
+      case AbsenceDayPart.HOURS:
+        return `${this._startTime}-${this._endTime}`;
+    }
+  }
+}
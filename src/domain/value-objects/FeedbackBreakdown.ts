@@ -0,0 +1,94 @@
+import { Feedback, FeedbackType } from '../entities/Feedback';
+import { CompetencyFramework } from './CompetencyFramework';
+
+export interface CompetencyScore {
+  competency: string; // Competency key
+  name: string;
+  /** Feedback tagged with the competency */
+  mentions: number;
+  /** Feedback that also rated it */
+  ratings: number;
+  averageRating?: number; // Rounded to one decimal; undefined until rated
+}
+
+/**
+ * FeedbackBreakdown Value Object
+ * What someone's feedback says, by feedback type and by competency, so
+ * strengths and areas to work on stand out.
+ */
+export class FeedbackBreakdown {
+  private constructor(
+    private readonly _byType: Record<FeedbackType, number>,
+    private readonly _competencies: CompetencyScore[]
+  ) {}
+
+  /**
+   * Tally feedback by type and competency
+   * Competencies no longer in the framework are kept, named after their key
+   */
+  static calculate(feedbacks: readonly Feedback[], framework: CompetencyFramework): FeedbackBreakdown {
+    const byType: Record<FeedbackType, number> = {
+      [FeedbackType.PRAISE]: 0,
+      [FeedbackType.CONSTRUCTIVE]: 0,
+      [FeedbackType.REQUEST]: 0,
+    };
+    const tallies = new Map<string, { mentions: number; ratings: number[] }>();
+
+    for (const feedback of feedbacks) {
+      if (feedback.isDeleted()) continue;
+
+      byType[feedback.type] += 1;
+      for (const { competency, rating } of feedback.competencies) {
+        const tally = tallies.get(competency) ?? { mentions: 0, ratings: [] };
+        tally.mentions += 1;
+        if (rating !== undefined) tally.ratings.push(rating);
+        tallies.set(competency, tally);
+      }
+    }
+
+    const competencies: CompetencyScore[] = Array.from(tallies, ([competency, tally]) => ({
+      competency,
+      name: framework.find(competency)?.name ?? competency,
+      mentions: tally.mentions,
+      ratings: tally.ratings.length,
+      averageRating:
+        tally.ratings.length > 0
+          ? Math.round((tally.ratings.reduce((sum, r) => sum + r, 0) / tally.ratings.length) * 10) / 10
+          : undefined,
+    }));
+
+    // Highest rated first, unrated last, then most mentioned
+    competencies.sort(
+      (a, b) =>
+        (b.averageRating ?? -1) - (a.averageRating ?? -1) ||
+        b.mentions - a.mentions ||
+        a.name.localeCompare(b.name)
+    );
+
+    return new FeedbackBreakdown(byType, competencies);
+  }
+
+  /**
+   * Rated competencies at or above the threshold, best first
+   */
+  strengths(threshold = 4): CompetencyScore[] {
+    return this.competencies.filter((c) => c.averageRating !== undefined && c.averageRating >= threshold);
+  }
+
+  /**
+   * Rated competencies at or below the threshold, weakest first
+   */
+  areasToImprove(threshold = 2.5): CompetencyScore[] {
+    return this.competencies
+      .filter((c) => c.averageRating !== undefined && c.averageRating <= threshold)
+      .reverse();
+  }
+
+  get byType(): Record<FeedbackType, number> {
+    return { ...this._byType };
+  }
+
+  get competencies(): CompetencyScore[] {
+    return this._competencies.map((c) => ({ ...c }));
+  }
+}
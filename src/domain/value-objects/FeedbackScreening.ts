@@ -0,0 +1,74 @@
+/**
+ * What feedback can be flagged for when it is screened before submission
+ */
+export enum ScreeningCategory {
+  PERSONAL_ATTACK = 'PERSONAL_ATTACK', // Insults aimed at the person rather than their work
+  PROTECTED_CHARACTERISTIC = 'PROTECTED_CHARACTERISTIC', // Age, gender, race, religion, disability, ...
+  PROFANITY = 'PROFANITY',
+}
+
+/**
+ * What happens to flagged feedback, stored under `feedbackScreeningPolicy` in
+ * OrganizationSettings
+ */
+export enum FeedbackScreeningPolicy {
+  WARN = 'WARN', // The giver is warned but may submit as written
+  REQUIRE_POLISH = 'REQUIRE_POLISH', // The giver must polish the feedback before submitting
+  MODERATE = 'MODERATE', // A manager approves the feedback before the receiver sees it
+}
+
+const CATEGORY_ORDER = Object.values(ScreeningCategory);
+
+/**
+ * FeedbackScreening Value Object
+ * The categories a piece of feedback was flagged for, and what the
+ * organization's screening policy makes of them
+ */
+export class FeedbackScreening {
+  private constructor(
+    private readonly _categories: ScreeningCategory[],
+    private readonly _policy: FeedbackScreeningPolicy
+  ) {}
+
+  /**
+   * Factory method to create a FeedbackScreening
+   * Categories are de-duplicated; an unknown or missing policy means WARN
+   */
+  static create(categories: ScreeningCategory[], policy?: string | null): FeedbackScreening {
+    return new FeedbackScreening(
+      CATEGORY_ORDER.filter((category) => categories.includes(category)),
+      Object.values(FeedbackScreeningPolicy).includes(policy as FeedbackScreeningPolicy)
+        ? (policy as FeedbackScreeningPolicy)
+        : FeedbackScreeningPolicy.WARN
+    );
+  }
+
+  /**
+   * Check if the feedback was flagged for anything
+   */
+  isFlagged(): boolean {
+    return this._categories.length > 0;
+  }
+
+  /**
+   * Check if the giver must polish the feedback before submitting it
+   */
+  requiresPolish(): boolean {
+    return this.isFlagged() && this._policy === FeedbackScreeningPolicy.REQUIRE_POLISH;
+  }
+
+  /**
+   * Check if the feedback must be approved by a manager before the receiver sees it
+   */
+  requiresModeration(): boolean {
+    return this.isFlagged() && this._policy === FeedbackScreeningPolicy.MODERATE;
+  }
+
+  get categories(): ScreeningCategory[] {
+    return [...this._categories];
+  }
+
+  get policy(): FeedbackScreeningPolicy {
+    return this._policy;
+  }
+}
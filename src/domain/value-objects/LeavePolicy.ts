@@ -0,0 +1,103 @@
+/**
+ * How the yearly allowance becomes available over the year
+ * - MONTHLY: one twelfth of the allowance at the start of each month
+ * - UPFRONT: the full allowance on January 1st
+ */
+export type AccrualMethod = 'MONTHLY' | 'UPFRONT';
+
+export interface LeavePolicyProps {
+  accrualMethod: AccrualMethod;
+  defaultAnnualAllowance: number;
+  maxCarryoverDays: number;
+  allowNegativeBalance: boolean;
+}
+
+export const DEFAULT_LEAVE_POLICY: LeavePolicyProps = {
+  accrualMethod: 'UPFRONT',
+  defaultAnnualAllowance: 25,
+  maxCarryoverDays: 5,
+  allowNegativeBalance: false,
+};
+
+/**
+ * LeavePolicy Value Object
+ * Organization-wide rules for leave accrual and carryover,
+ * stored under `leavePolicy` in OrganizationSettings
+ */
+export class LeavePolicy {
+  private constructor(private readonly props: LeavePolicyProps) {
+    this.validate();
+  }
+
+  /**
+   * Factory method to create a LeavePolicy
+   */
+  static create(props: LeavePolicyProps): LeavePolicy {
+    return new LeavePolicy({ ...props });
+  }
+
+  /**
+   * Build a policy from (possibly partial) organization settings,
+   * falling back to defaults for missing values
+   */
+  static fromSettings(settings?: Partial<LeavePolicyProps> | null): LeavePolicy {
+    return new LeavePolicy({ ...DEFAULT_LEAVE_POLICY, ...(settings ?? {}) });
+  }
+
+  private validate(): void {
+    if (this.props.accrualMethod !== 'MONTHLY' && this.props.accrualMethod !== 'UPFRONT') {
+      throw new Error('Accrual method must be MONTHLY or UPFRONT');
+    }
+
+    if (this.props.defaultAnnualAllowance < 0 || this.props.defaultAnnualAllowance > 365) {
+      throw new Error('Annual allowance must be between 0 and 365 days');
+    }
+
+    if (this.props.maxCarryoverDays < 0) {
+      throw new Error('Carryover cap cannot be negative');
+    }
+  }
+
+  /**
+   * Days of the given yearly allowance accrued for `year` as of `asOf`
+   */
+  accruedDays(annualAllowance: number, year: number, asOf: Date): number {
+    if (asOf.getFullYear() < year) return 0;
+    if (asOf.getFullYear() > year || this.props.accrualMethod === 'UPFRONT') {
+      return annualAllowance;
+    }
+
+    const monthsAccrued = asOf.getMonth() + 1;
+    return Math.round(((annualAllowance * monthsAccrued) / 12) * 100) / 100;
+  }
+
+  /**
+   * Days carried into the next year from an unused remainder
+   */
+  carryoverFrom(remainingDays: number): number {
+    return Math.max(0, Math.min(remainingDays, this.props.maxCarryoverDays));
+  }
+
+  /**
+   * Getters
+   */
+  get accrualMethod(): AccrualMethod {
+    return this.props.accrualMethod;
+  }
+
+  get defaultAnnualAllowance(): number {
+    return this.props.defaultAnnualAllowance;
+  }
+
+  get maxCarryoverDays(): number {
+    return this.props.maxCarryoverDays;
+  }
+
+  get allowNegativeBalance(): boolean {
+    return this.props.allowNegativeBalance;
+  }
+
+  toObject(): LeavePolicyProps {
+    return { ...this.props };
+  }
+}
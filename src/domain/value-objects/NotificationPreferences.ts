@@ -0,0 +1,98 @@
+import { NOTIFICATION_TYPES, NotificationType } from '../entities/Notification';
+
+/**
+ * How a user hears about a type of notification
+ * Every channel but OFF shows the notification in the app
+ */
+export enum NotificationChannel {
+  IN_APP = 'IN_APP', // In the app only
+  EMAIL = 'EMAIL', // In the app and by email right away
+  DIGEST = 'DIGEST', // In the app and in the daily digest email
+  OFF = 'OFF', // Not at all
+}
+
+/**
+ * Channels used until a user picks their own - the types that have always been
+ * emailed keep being emailed
+ */
+export const DEFAULT_NOTIFICATION_CHANNELS: Record<NotificationType, NotificationChannel> = {
+  FEEDBACK_RECEIVED: NotificationChannel.EMAIL,
+  FEEDBACK_REQUESTED: NotificationChannel.EMAIL,
+  FEEDBACK_REPLY: NotificationChannel.IN_APP,
+  FEEDBACK_MODERATION: NotificationChannel.IN_APP,
+  ABSENCE_APPROVED: NotificationChannel.EMAIL,
+  ABSENCE_REJECTED: NotificationChannel.EMAIL,
+  ABSENCE_PENDING: NotificationChannel.EMAIL,
+  ABSENCE_CANCELLATION_REQUESTED: NotificationChannel.EMAIL,
+  ABSENCE_CANCELLED: NotificationChannel.EMAIL,
+  ABSENCE_CANCELLATION_REJECTED: NotificationChannel.EMAIL,
+  REVIEW_REQUESTED: NotificationChannel.IN_APP,
+  REVIEW_REMINDER: NotificationChannel.IN_APP,
+  REVIEW_COMPLETED: NotificationChannel.IN_APP,
+  SYSTEM: NotificationChannel.IN_APP,
+};
+
+const isChannel = (value: unknown): value is NotificationChannel =>
+  Object.values(NotificationChannel).includes(value as NotificationChannel);
+
+const isType = (value: unknown): value is NotificationType =>
+  NOTIFICATION_TYPES.includes(value as NotificationType);
+
+/**
+ * NotificationPreferences Value Object
+ * The channel a user chose for each notification type. Types the organization
+ * requires cannot be turned off; they fall back to their default channel.
+ */
+export class NotificationPreferences {
+  private constructor(
+    private readonly _channels: Partial<Record<NotificationType, NotificationChannel>>
+  ) {}
+
+  /**
+   * Factory method to create NotificationPreferences
+   * Unknown types and channels are ignored
+   */
+  static create(channels?: Record<string, unknown> | null): NotificationPreferences {
+    const valid: Partial<Record<NotificationType, NotificationChannel>> = {};
+    for (const [type, channel] of Object.entries(channels ?? {})) {
+      if (isType(type) && isChannel(channel)) {
+        valid[type] = channel;
+      }
+    }
+    return new NotificationPreferences(valid);
+  }
+
+  /**
+   * Read the types an organization requires from its settings, ignoring unknown ones
+   */
+  static requiredTypesFromSettings(value: unknown): NotificationType[] {
+    return Array.isArray(value) ? NOTIFICATION_TYPES.filter((type) => value.includes(type)) : [];
+  }
+
+  /**
+   * Channel a notification of this type goes out on
+   *
+   * @param requiredTypes - Types the organization does not let users turn off
+   */
+  channelFor(type: NotificationType, requiredTypes: NotificationType[] = []): NotificationChannel {
+    const channel = this._channels[type] ?? DEFAULT_NOTIFICATION_CHANNELS[type];
+    if (channel === NotificationChannel.OFF && requiredTypes.includes(type)) {
+      return DEFAULT_NOTIFICATION_CHANNELS[type];
+    }
+    return channel;
+  }
+
+  /**
+   * Copy with the given channels changed
+   */
+  with(channels: Partial<Record<NotificationType, NotificationChannel>>): NotificationPreferences {
+    return NotificationPreferences.create({ ...this._channels, ...channels });
+  }
+
+  /**
+   * Channels the user picked themselves (for persistence)
+   */
+  toJSON(): Partial<Record<NotificationType, NotificationChannel>> {
+    return { ...this._channels };
+  }
+}
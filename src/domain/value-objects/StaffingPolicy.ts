@@ -0,0 +1,81 @@
+/**
+ * What happens when a request would leave a department short-staffed
+ * - WARN: the request goes through, the requester and approvers are warned
+ * - BLOCK: the request cannot be created or approved
+ */
+export type StaffingEnforcement = 'WARN' | 'BLOCK';
+
+export interface StaffingRule {
+  department: string;
+  /** Fewest people of the department that must be present on a working day */
+  minPresent: number;
+  enforcement: StaffingEnforcement;
+}
+
+/**
+ * StaffingPolicy Value Object
+ * Per-department minimum-staffing rules, stored under `staffingRules`
+ * in OrganizationSettings. Departments without a rule are not checked.
+ */
+export class StaffingPolicy {
+  private constructor(private readonly _rules: StaffingRule[]) {
+    this.validate();
+  }
+
+  /**
+   * Factory method to create a StaffingPolicy
+   */
+  static create(rules: StaffingRule[]): StaffingPolicy {
+    return new StaffingPolicy(rules.map((rule) => ({ ...rule, department: rule.department.trim() })));
+  }
+
+  /**
+   * Build a policy from stored settings; no rules when nothing is configured
+   */
+  static fromSettings(rules?: StaffingRule[] | null): StaffingPolicy {
+    return StaffingPolicy.create(rules ?? []);
+  }
+
+  private validate(): void {
+    const departments = new Set<string>();
+
+    for (const rule of this._rules) {
+      if (!rule.department) {
+        throw new Error('Staffing rules need a department');
+      }
+
+      const key = rule.department.toLowerCase();
+      if (departments.has(key)) {
+        throw new Error(`There is already a staffing rule for ${rule.department}`);
+      }
+      departments.add(key);
+
+      if (!Number.isInteger(rule.minPresent) || rule.minPresent < 1) {
+        throw new Error('Minimum staffing must be at least one person');
+      }
+
+      if (rule.enforcement !== 'WARN' && rule.enforcement !== 'BLOCK') {
+        throw new Error('Staffing enforcement must be WARN or BLOCK');
+      }
+    }
+  }
+
+  /**
+   * The rule for a department, if it has one
+   */
+  ruleFor(department?: string | null): StaffingRule | undefined {
+    if (!department) return undefined;
+
+    const key = department.trim().toLowerCase();
+    const rule = this._rules.find((r) => r.department.toLowerCase() === key);
+    return rule ? { ...rule } : undefined;
+  }
+
+  get rules(): StaffingRule[] {
+    return this._rules.map((rule) => ({ ...rule }));
+  }
+
+  toObject(): StaffingRule[] {
+    return this.rules;
+  }
+}
@@ -0,0 +1,122 @@
+import { Absence, AbsenceStatus } from '../entities/Absence';
+import { DateRange } from './DateRange';
+import { StaffingRule } from './StaffingPolicy';
+
+export interface CoverageDay {
+  date: string; // Date key (YYYY-MM-DD)
+  headcount: number;
+  /** People off on approved leave; half days and hours count as a fraction */
+  absent: number;
+  /** People with a pending request that would take them off too */
+  pending: number;
+  present: number;
+  belowMinimum: boolean;
+}
+
+/**
+ * TeamCoverage Value Object
+ * How many people of a department are present on each working day of a range,
+ * measured against the department's minimum-staffing rule (if any).
+ */
+export class TeamCoverage {
+  private constructor(
+    private readonly _days: CoverageDay[],
+    private readonly _rule?: StaffingRule
+  ) {}
+
+  /**
+   * Count presence per working day from the department's absences
+   * @param assumeAbsent - Request being checked; counted as absent even while pending
+   */
+  static calculate(params: {
+    range: DateRange;
+    headcount: number;
+    absences: readonly Absence[];
+    rule?: StaffingRule;
+    holidays?: ReadonlySet<string>;
+    assumeAbsent?: Absence;
+  }): TeamCoverage {
+    const { range, headcount, rule, holidays, assumeAbsent } = params;
+    const absences = params.absences.filter(
+      (absence) =>
+        !absence.isDeleted() &&
+        absence.id !== assumeAbsent?.id &&
+        (absence.status === AbsenceStatus.APPROVED || absence.status === AbsenceStatus.PENDING)
+    );
+
+    const days: CoverageDay[] = [];
+    const current = range.start;
+    current.setHours(0, 0, 0, 0);
+
+    while (current <= range.end) {
+      const date = DateRange.dateKey(current);
+      const dayOfWeek = current.getDay();
+
+      if (dayOfWeek !== 0 && dayOfWeek !== 6 && !holidays?.has(date)) {
+        // One entry per person - the largest part of the day they are off
+        const absentByUser = new Map<string, number>();
+        const pendingByUser = new Map<string, number>();
+
+        const onLeave = assumeAbsent ? [...absences, assumeAbsent] : absences;
+        for (const absence of onLeave) {
+          if (!TeamCoverage.covers(absence, date)) continue;
+
+          const counted =
+            absence === assumeAbsent || absence.isApproved() ? absentByUser : pendingByUser;
+          const fraction = absence.dayPart.fraction();
+          counted.set(absence.userId, Math.max(counted.get(absence.userId) ?? 0, fraction));
+        }
+
+        const absent = TeamCoverage.sum(absentByUser);
+        const present = Math.max(headcount - absent, 0);
+        days.push({
+          date,
+          headcount,
+          absent,
+          pending: TeamCoverage.sum(pendingByUser),
+          present,
+          belowMinimum: !!rule && present < rule.minPresent,
+        });
+      }
+
+      current.setDate(current.getDate() + 1);
+    }
+
+    return new TeamCoverage(days, rule);
+  }
+
+  private static covers(absence: Absence, date: string): boolean {
+    return (
+      DateRange.dateKey(absence.dateRange.start) <= date &&
+      DateRange.dateKey(absence.dateRange.end) >= date
+    );
+  }
+
+  private static sum(byUser: Map<string, number>): number {
+    let total = 0;
+    byUser.forEach((fraction) => (total += fraction));
+    return Math.round(total * 100) / 100;
+  }
+
+  /**
+   * Working days on which fewer people than the minimum would be present
+   */
+  shortfalls(): CoverageDay[] {
+    return this._days.filter((day) => day.belowMinimum);
+  }
+
+  /**
+   * Check if the shortfalls should stop the request
+   */
+  isBlocking(): boolean {
+    return this._rule?.enforcement === 'BLOCK' && this.shortfalls().length > 0;
+  }
+
+  get days(): CoverageDay[] {
+    return this._days.map((day) => ({ ...day }));
+  }
+
+  get rule(): StaffingRule | undefined {
+    return this._rule ? { ...this._rule } : undefined;
+  }
+}
@@ -7,6 +7,13 @@ import { IAbsenceRepository } from '../../domain/repositories/IAbsenceRepository
 import { IFeedbackRepository } from '../../domain/repositories/IFeedbackRepository';
 import { INotificationRepository } from '../../domain/repositories/INotificationRepository';
 import { IOrganizationRepository } from '../../domain/repositories/IOrganizationRepository';
+import { IAbsenceTypeRepository } from '../../domain/repositories/IAbsenceTypeRepository';
+import { ILeaveBalanceRepository } from '../../domain/repositories/ILeaveBalanceRepository';
+import { IHolidayCalendarRepository } from '../../domain/repositories/IHolidayCalendarRepository';
+import { IReviewCycleRepository } from '../../domain/repositories/IReviewCycleRepository';
+import { IFeedbackRequestRepository } from '../../domain/repositories/IFeedbackRequestRepository';
+import { IFeedbackSummaryRepository } from '../../domain/repositories/IFeedbackSummaryRepository';
+import { INotificationPreferenceRepository } from '../../domain/repositories/INotificationPreferenceRepository';
 
 // Infrastructure Repository Implementations
 import { PrismaUserRepository } from '../persistence/prisma/repositories/PrismaUserRepository';
@@ -14,16 +21,31 @@ import { PrismaAbsenceRepository } from '../persistence/prisma/repositories/Pris
 import { PrismaFeedbackRepository } from '../persistence/prisma/repositories/PrismaFeedbackRepository';
 import { PrismaNotificationRepository } from '../persistence/prisma/repositories/PrismaNotificationRepository';
 import { PrismaOrganizationRepository } from '../persistence/prisma/repositories/PrismaOrganizationRepository';
+import { PrismaAbsenceTypeRepository } from '../persistence/prisma/repositories/PrismaAbsenceTypeRepository';
+import { PrismaLeaveBalanceRepository } from '../persistence/prisma/repositories/PrismaLeaveBalanceRepository';
+import { PrismaHolidayCalendarRepository } from '../persistence/prisma/repositories/PrismaHolidayCalendarRepository';
+import { PrismaReviewCycleRepository } from '../persistence/prisma/repositories/PrismaReviewCycleRepository';
+import { PrismaFeedbackRequestRepository } from '../persistence/prisma/repositories/PrismaFeedbackRequestRepository';
+import { PrismaFeedbackSummaryRepository } from '../persistence/prisma/repositories/PrismaFeedbackSummaryRepository';
+import { PrismaNotificationPreferenceRepository } from '../persistence/prisma/repositories/PrismaNotificationPreferenceRepository';
 
 // Application Ports
 import { ILogger } from '../../application/ports/ILogger';
 import { IEncryption } from '../../application/ports/IEncryption';
-import { IAIService } from '../../application/ports/IAIService';
+import { IAIService, IAIProviderRegistry } from '../../application/ports/IAIService';
+import { INotificationBus } from '../../application/ports/INotificationBus';
+import { INotificationMailer } from '../../application/ports/INotificationMailer';
 
 // Infrastructure Service Implementations
 import { PinoLogger } from '../services/PinoLogger';
 import { CryptoEncryption } from '../services/CryptoEncryption';
 import { HuggingFaceAIService } from '../services/HuggingFaceAIService';
+import { OpenAICompatibleAIService } from '../services/OpenAICompatibleAIService';
+import { RuleBasedAIService } from '../services/RuleBasedAIService';
+import { AIProviderRegistry } from '../services/AIProviderRegistry';
+import { InProcessNotificationBus } from '../services/InProcessNotificationBus';
+import { ResendNotificationMailer } from '../services/ResendNotificationMailer';
+import { aiConfig } from '@/lib/config';
 
 // Use Cases - Absence
 import { CreateAbsenceUseCase } from '../../application/use-cases/absence/CreateAbsenceUseCase';
@@ -31,7 +53,25 @@ import { GetAbsencesUseCase } from '../../application/use-cases/absence/GetAbsen
 import { ApproveAbsenceUseCase } from '../../application/use-cases/absence/ApproveAbsenceUseCase';
 import { RejectAbsenceUseCase } from '../../application/use-cases/absence/RejectAbsenceUseCase';
 import { DeleteAbsenceUseCase } from '../../application/use-cases/absence/DeleteAbsenceUseCase';
+import { UpdateAbsenceUseCase } from '../../application/use-cases/absence/UpdateAbsenceUseCase';
+import { GetTeamCoverageUseCase } from '../../application/use-cases/absence/GetTeamCoverageUseCase';
+import { RequestAbsenceCancellationUseCase } from '../../application/use-cases/absence/RequestAbsenceCancellationUseCase';
+import { ReviewAbsenceCancellationUseCase } from '../../application/use-cases/absence/ReviewAbsenceCancellationUseCase';
 import { GetAbsenceStatisticsUseCase } from '../../application/use-cases/absence/GetAbsenceStatisticsUseCase';
+import { GetAbsenceTypesUseCase } from '../../application/use-cases/absence/GetAbsenceTypesUseCase';
+import { CreateAbsenceTypeUseCase } from '../../application/use-cases/absence/CreateAbsenceTypeUseCase';
+import { UpdateAbsenceTypeUseCase } from '../../application/use-cases/absence/UpdateAbsenceTypeUseCase';
+import { DeleteAbsenceTypeUseCase } from '../../application/use-cases/absence/DeleteAbsenceTypeUseCase';
+import { GetLeaveBalanceUseCase } from '../../application/use-cases/absence/GetLeaveBalanceUseCase';
+import { UpdateLeaveAllowanceUseCase } from '../../application/use-cases/absence/UpdateLeaveAllowanceUseCase';
+import { GetHolidayCalendarsUseCase } from '../../application/use-cases/absence/GetHolidayCalendarsUseCase';
+import { CreateHolidayCalendarUseCase } from '../../application/use-cases/absence/CreateHolidayCalendarUseCase';
+import { UpdateHolidayCalendarUseCase } from '../../application/use-cases/absence/UpdateHolidayCalendarUseCase';
+import { DeleteHolidayCalendarUseCase } from '../../application/use-cases/absence/DeleteHolidayCalendarUseCase';
+import { GetUserHolidaysUseCase } from '../../application/use-cases/absence/GetUserHolidaysUseCase';
+import { GetApprovalQueueUseCase } from '../../application/use-cases/absence/GetApprovalQueueUseCase';
+import { GetCurrentApproversUseCase } from '../../application/use-cases/absence/GetCurrentApproversUseCase';
+import { UpdateApprovalWorkflowUseCase } from '../../application/use-cases/absence/UpdateApprovalWorkflowUseCase';
 
 // Use Cases - User
 import { GetUserUseCase } from '../../application/use-cases/user/GetUserUseCase';
@@ -40,12 +80,36 @@ import { UpdateUserProfileUseCase } from '../../application/use-cases/user/Updat
 import { UpdateSensitiveFieldsUseCase } from '../../application/use-cases/user/UpdateSensitiveFieldsUseCase';
 import { DeleteUserUseCase } from '../../application/use-cases/user/DeleteUserUseCase';
 import { RestoreUserUseCase } from '../../application/use-cases/user/RestoreUserUseCase';
+import { AssignManagerUseCase } from '../../application/use-cases/user/AssignManagerUseCase';
 
 // Use Cases - Feedback
 import { CreateFeedbackUseCase } from '../../application/use-cases/feedback/CreateFeedbackUseCase';
 import { PolishFeedbackUseCase } from '../../application/use-cases/feedback/PolishFeedbackUseCase';
 import { GetFeedbackUseCase } from '../../application/use-cases/feedback/GetFeedbackUseCase';
 import { DeleteFeedbackUseCase } from '../../application/use-cases/feedback/DeleteFeedbackUseCase';
+import { GetFeedbackBreakdownUseCase } from '../../application/use-cases/feedback/GetFeedbackBreakdownUseCase';
+import { RequestFeedbackUseCase } from '../../application/use-cases/feedback/RequestFeedbackUseCase';
+import { GetFeedbackRequestsUseCase } from '../../application/use-cases/feedback/GetFeedbackRequestsUseCase';
+import { DeclineFeedbackRequestUseCase } from '../../application/use-cases/feedback/DeclineFeedbackRequestUseCase';
+import { EditFeedbackUseCase } from '../../application/use-cases/feedback/EditFeedbackUseCase';
+import { ReplyToFeedbackUseCase } from '../../application/use-cases/feedback/ReplyToFeedbackUseCase';
+import { ScreenFeedbackUseCase } from '../../application/use-cases/feedback/ScreenFeedbackUseCase';
+import { ModerateFeedbackUseCase } from '../../application/use-cases/feedback/ModerateFeedbackUseCase';
+import { SummarizeFeedbackUseCase } from '../../application/use-cases/feedback/SummarizeFeedbackUseCase';
+
+// Use Cases - Review
+import { CreateReviewCycleUseCase } from '../../application/use-cases/review/CreateReviewCycleUseCase';
+import { UpdateReviewCycleUseCase } from '../../application/use-cases/review/UpdateReviewCycleUseCase';
+import { DeleteReviewCycleUseCase } from '../../application/use-cases/review/DeleteReviewCycleUseCase';
+import { OpenReviewCycleUseCase } from '../../application/use-cases/review/OpenReviewCycleUseCase';
+import { NominateReviewPeersUseCase } from '../../application/use-cases/review/NominateReviewPeersUseCase';
+import { SubmitReviewUseCase } from '../../application/use-cases/review/SubmitReviewUseCase';
+import { StartReviewCalibrationUseCase } from '../../application/use-cases/review/StartReviewCalibrationUseCase';
+import { CalibrateReviewRatingUseCase } from '../../application/use-cases/review/CalibrateReviewRatingUseCase';
+import { CloseReviewCycleUseCase } from '../../application/use-cases/review/CloseReviewCycleUseCase';
+import { GetReviewCyclesUseCase } from '../../application/use-cases/review/GetReviewCyclesUseCase';
+import { GetReviewCycleUseCase } from '../../application/use-cases/review/GetReviewCycleUseCase';
+import { GetOutstandingReviewsUseCase } from '../../application/use-cases/review/GetOutstandingReviewsUseCase';
 
 // Use Cases - Dashboard
 import { GetDashboardMetricsUseCase } from '../../application/use-cases/dashboard/GetDashboardMetricsUseCase';
@@ -53,6 +117,11 @@ import { GetDashboardMetricsUseCase } from '../../application/use-cases/dashboar
 // Use Cases - Notification
 import { CreateNotificationUseCase } from '../../application/use-cases/notification/CreateNotificationUseCase';
 import { GetNotificationsUseCase } from '../../application/use-cases/notification/GetNotificationsUseCase';
+import { GetNotificationsSinceUseCase } from '../../application/use-cases/notification/GetNotificationsSinceUseCase';
+import { DispatchNotificationUseCase } from '../../application/use-cases/notification/DispatchNotificationUseCase';
+import { SendNotificationDigestsUseCase } from '../../application/use-cases/notification/SendNotificationDigestsUseCase';
+import { GetNotificationPreferencesUseCase } from '../../application/use-cases/notification/GetNotificationPreferencesUseCase';
+import { UpdateNotificationPreferencesUseCase } from '../../application/use-cases/notification/UpdateNotificationPreferencesUseCase';
 import { MarkNotificationReadUseCase } from '../../application/use-cases/notification/MarkNotificationReadUseCase';
 import { MarkAllNotificationsReadUseCase } from '../../application/use-cases/notification/MarkAllNotificationsReadUseCase';
 
@@ -96,7 +165,9 @@ export class Container {
   private _prisma: PrismaClient;
   private _logger: ILogger;
   private _encryption: IEncryption;
-  private _aiService: IAIService;
+  private _aiProviderRegistry: IAIProviderRegistry;
+  private _notificationBus: INotificationBus;
+  private _notificationMailer: INotificationMailer;
 
   // Repository Implementations
   private _userRepository: IUserRepository;
@@ -104,6 +175,13 @@ export class Container {
   private _feedbackRepository: IFeedbackRepository;
   private _notificationRepository: INotificationRepository;
   private _organizationRepository: IOrganizationRepository;
+  private _absenceTypeRepository: IAbsenceTypeRepository;
+  private _leaveBalanceRepository: ILeaveBalanceRepository;
+  private _holidayCalendarRepository: IHolidayCalendarRepository;
+  private _reviewCycleRepository: IReviewCycleRepository;
+  private _feedbackRequestRepository: IFeedbackRequestRepository;
+  private _feedbackSummaryRepository: IFeedbackSummaryRepository;
+  private _notificationPreferenceRepository: INotificationPreferenceRepository;
 
   // Use Cases - Absence
   private _createAbsenceUseCase: CreateAbsenceUseCase;
@@ -111,7 +189,25 @@ export class Container {
   private _approveAbsenceUseCase: ApproveAbsenceUseCase;
   private _rejectAbsenceUseCase: RejectAbsenceUseCase;
   private _deleteAbsenceUseCase: DeleteAbsenceUseCase;
+  private _updateAbsenceUseCase: UpdateAbsenceUseCase;
+  private _getTeamCoverageUseCase: GetTeamCoverageUseCase;
+  private _requestAbsenceCancellationUseCase: RequestAbsenceCancellationUseCase;
+  private _reviewAbsenceCancellationUseCase: ReviewAbsenceCancellationUseCase;
   private _getAbsenceStatisticsUseCase: GetAbsenceStatisticsUseCase;
+  private _getAbsenceTypesUseCase: GetAbsenceTypesUseCase;
+  private _createAbsenceTypeUseCase: CreateAbsenceTypeUseCase;
+  private _updateAbsenceTypeUseCase: UpdateAbsenceTypeUseCase;
+  private _deleteAbsenceTypeUseCase: DeleteAbsenceTypeUseCase;
+  private _getLeaveBalanceUseCase: GetLeaveBalanceUseCase;
+  private _updateLeaveAllowanceUseCase: UpdateLeaveAllowanceUseCase;
+  private _getHolidayCalendarsUseCase: GetHolidayCalendarsUseCase;
+  private _createHolidayCalendarUseCase: CreateHolidayCalendarUseCase;
+  private _updateHolidayCalendarUseCase: UpdateHolidayCalendarUseCase;
+  private _deleteHolidayCalendarUseCase: DeleteHolidayCalendarUseCase;
+  private _getUserHolidaysUseCase: GetUserHolidaysUseCase;
+  private _getApprovalQueueUseCase: GetApprovalQueueUseCase;
+  private _getCurrentApproversUseCase: GetCurrentApproversUseCase;
+  private _updateApprovalWorkflowUseCase: UpdateApprovalWorkflowUseCase;
 
   // Use Cases - User
   private _getUserUseCase: GetUserUseCase;
@@ -120,12 +216,36 @@ export class Container {
   private _updateSensitiveFieldsUseCase: UpdateSensitiveFieldsUseCase;
   private _deleteUserUseCase: DeleteUserUseCase;
   private _restoreUserUseCase: RestoreUserUseCase;
+  private _assignManagerUseCase: AssignManagerUseCase;
 
   // Use Cases - Feedback
   private _createFeedbackUseCase: CreateFeedbackUseCase;
   private _polishFeedbackUseCase: PolishFeedbackUseCase;
   private _getFeedbackUseCase: GetFeedbackUseCase;
   private _deleteFeedbackUseCase: DeleteFeedbackUseCase;
+  private _getFeedbackBreakdownUseCase: GetFeedbackBreakdownUseCase;
+  private _requestFeedbackUseCase: RequestFeedbackUseCase;
+  private _getFeedbackRequestsUseCase: GetFeedbackRequestsUseCase;
+  private _declineFeedbackRequestUseCase: DeclineFeedbackRequestUseCase;
+  private _editFeedbackUseCase: EditFeedbackUseCase;
+  private _replyToFeedbackUseCase: ReplyToFeedbackUseCase;
+  private _screenFeedbackUseCase: ScreenFeedbackUseCase;
+  private _moderateFeedbackUseCase: ModerateFeedbackUseCase;
+  private _summarizeFeedbackUseCase: SummarizeFeedbackUseCase;
+
+  // Use Cases - Review
+  private _createReviewCycleUseCase: CreateReviewCycleUseCase;
+  private _updateReviewCycleUseCase: UpdateReviewCycleUseCase;
+  private _deleteReviewCycleUseCase: DeleteReviewCycleUseCase;
+  private _openReviewCycleUseCase: OpenReviewCycleUseCase;
+  private _nominateReviewPeersUseCase: NominateReviewPeersUseCase;
+  private _submitReviewUseCase: SubmitReviewUseCase;
+  private _startReviewCalibrationUseCase: StartReviewCalibrationUseCase;
+  private _calibrateReviewRatingUseCase: CalibrateReviewRatingUseCase;
+  private _closeReviewCycleUseCase: CloseReviewCycleUseCase;
+  private _getReviewCyclesUseCase: GetReviewCyclesUseCase;
+  private _getReviewCycleUseCase: GetReviewCycleUseCase;
+  private _getOutstandingReviewsUseCase: GetOutstandingReviewsUseCase;
 
   // Use Cases - Dashboard
   private _getDashboardMetricsUseCase: GetDashboardMetricsUseCase;
@@ -133,6 +253,11 @@ export class Container {
   // Use Cases - Notification
   private _createNotificationUseCase: CreateNotificationUseCase;
   private _getNotificationsUseCase: GetNotificationsUseCase;
+  private _getNotificationsSinceUseCase: GetNotificationsSinceUseCase;
+  private _dispatchNotificationUseCase: DispatchNotificationUseCase;
+  private _sendNotificationDigestsUseCase: SendNotificationDigestsUseCase;
+  private _getNotificationPreferencesUseCase: GetNotificationPreferencesUseCase;
+  private _updateNotificationPreferencesUseCase: UpdateNotificationPreferencesUseCase;
   private _markNotificationReadUseCase: MarkNotificationReadUseCase;
   private _markAllNotificationsReadUseCase: MarkAllNotificationsReadUseCase;
 
@@ -147,7 +272,13 @@ export class Container {
     this._prisma = prisma;
     this._logger = new PinoLogger();
     this._encryption = new CryptoEncryption();
-    this._aiService = new HuggingFaceAIService();
+    // Registration order is the fallback order; the rule-based polisher always works offline
+    this._aiProviderRegistry = new AIProviderRegistry(
+      [new HuggingFaceAIService(), new OpenAICompatibleAIService(), new RuleBasedAIService()],
+      aiConfig.defaultProvider
+    );
+    this._notificationBus = new InProcessNotificationBus();
+    this._notificationMailer = new ResendNotificationMailer();
 
     // Initialize repositories with their dependencies
     this._userRepository = new PrismaUserRepository(this._prisma, this._encryption);
@@ -155,26 +286,76 @@ export class Container {
     this._feedbackRepository = new PrismaFeedbackRepository(this._prisma);
     this._notificationRepository = new PrismaNotificationRepository(this._prisma);
     this._organizationRepository = new PrismaOrganizationRepository(this._prisma);
+    this._absenceTypeRepository = new PrismaAbsenceTypeRepository(this._prisma);
+    this._leaveBalanceRepository = new PrismaLeaveBalanceRepository(this._prisma);
+    this._holidayCalendarRepository = new PrismaHolidayCalendarRepository(this._prisma);
+    this._reviewCycleRepository = new PrismaReviewCycleRepository(this._prisma);
+    this._feedbackRequestRepository = new PrismaFeedbackRequestRepository(this._prisma);
+    this._feedbackSummaryRepository = new PrismaFeedbackSummaryRepository(this._prisma);
+    this._notificationPreferenceRepository = new PrismaNotificationPreferenceRepository(this._prisma);
 
     // Initialize use cases with their dependencies
 
     // Absence Use Cases
+    this._getLeaveBalanceUseCase = new GetLeaveBalanceUseCase(
+      this._leaveBalanceRepository,
+      this._absenceRepository,
+      this._absenceTypeRepository,
+      this._organizationRepository,
+      this._userRepository,
+      this._holidayCalendarRepository,
+      this._logger
+    );
+    this._updateLeaveAllowanceUseCase = new UpdateLeaveAllowanceUseCase(
+      this._leaveBalanceRepository,
+      this._userRepository,
+      this._getLeaveBalanceUseCase,
+      this._logger
+    );
+    this._getTeamCoverageUseCase = new GetTeamCoverageUseCase(
+      this._absenceRepository,
+      this._userRepository,
+      this._organizationRepository,
+      this._holidayCalendarRepository,
+      this._logger
+    );
     this._createAbsenceUseCase = new CreateAbsenceUseCase(
       this._absenceRepository,
       this._userRepository,
+      this._absenceTypeRepository,
+      this._holidayCalendarRepository,
+      this._organizationRepository,
+      this._getLeaveBalanceUseCase,
+      this._getTeamCoverageUseCase,
       this._logger
     );
     this._getAbsencesUseCase = new GetAbsencesUseCase(
       this._absenceRepository,
       this._userRepository,
+      this._absenceTypeRepository,
+      this._holidayCalendarRepository,
       this._logger
     );
     this._approveAbsenceUseCase = new ApproveAbsenceUseCase(
       this._absenceRepository,
       this._userRepository,
+      this._holidayCalendarRepository,
+      this._getTeamCoverageUseCase,
       this._logger
     );
     this._rejectAbsenceUseCase = new RejectAbsenceUseCase(
+      this._absenceRepository,
+      this._userRepository,
+      this._holidayCalendarRepository,
+      this._logger
+    );
+    this._getApprovalQueueUseCase = new GetApprovalQueueUseCase(
+      this._absenceRepository,
+      this._userRepository,
+      this._getAbsencesUseCase,
+      this._logger
+    );
+    this._getCurrentApproversUseCase = new GetCurrentApproversUseCase(
       this._absenceRepository,
       this._userRepository,
       this._logger
@@ -184,9 +365,81 @@ export class Container {
       this._userRepository,
       this._logger
     );
+    this._updateAbsenceUseCase = new UpdateAbsenceUseCase(
+      this._absenceRepository,
+      this._userRepository,
+      this._absenceTypeRepository,
+      this._holidayCalendarRepository,
+      this._organizationRepository,
+      this._getLeaveBalanceUseCase,
+      this._logger
+    );
+    this._requestAbsenceCancellationUseCase = new RequestAbsenceCancellationUseCase(
+      this._absenceRepository,
+      this._userRepository,
+      this._holidayCalendarRepository,
+      this._logger
+    );
+    this._reviewAbsenceCancellationUseCase = new ReviewAbsenceCancellationUseCase(
+      this._absenceRepository,
+      this._userRepository,
+      this._holidayCalendarRepository,
+      this._logger
+    );
     this._getAbsenceStatisticsUseCase = new GetAbsenceStatisticsUseCase(
       this._absenceRepository,
       this._userRepository,
+      this._absenceTypeRepository,
+      this._holidayCalendarRepository,
+      this._logger
+    );
+    this._getAbsenceTypesUseCase = new GetAbsenceTypesUseCase(
+      this._absenceTypeRepository,
+      this._logger
+    );
+    this._createAbsenceTypeUseCase = new CreateAbsenceTypeUseCase(
+      this._absenceTypeRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._updateAbsenceTypeUseCase = new UpdateAbsenceTypeUseCase(
+      this._absenceTypeRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._deleteAbsenceTypeUseCase = new DeleteAbsenceTypeUseCase(
+      this._absenceTypeRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._updateApprovalWorkflowUseCase = new UpdateApprovalWorkflowUseCase(
+      this._absenceTypeRepository,
+      this._organizationRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._getHolidayCalendarsUseCase = new GetHolidayCalendarsUseCase(
+      this._holidayCalendarRepository,
+      this._logger
+    );
+    this._createHolidayCalendarUseCase = new CreateHolidayCalendarUseCase(
+      this._holidayCalendarRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._updateHolidayCalendarUseCase = new UpdateHolidayCalendarUseCase(
+      this._holidayCalendarRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._deleteHolidayCalendarUseCase = new DeleteHolidayCalendarUseCase(
+      this._holidayCalendarRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._getUserHolidaysUseCase = new GetUserHolidaysUseCase(
+      this._holidayCalendarRepository,
+      this._userRepository,
       this._logger
     );
 
@@ -216,16 +469,24 @@ export class Container {
       this._userRepository,
       this._logger
     );
+    this._assignManagerUseCase = new AssignManagerUseCase(
+      this._userRepository,
+      this._logger
+    );
 
     // Feedback Use Cases
     this._createFeedbackUseCase = new CreateFeedbackUseCase(
       this._feedbackRepository,
       this._userRepository,
+      this._organizationRepository,
+      this._feedbackRequestRepository,
+      this._aiProviderRegistry,
       this._logger
     );
     this._polishFeedbackUseCase = new PolishFeedbackUseCase(
       this._feedbackRepository,
-      this._aiService,
+      this._aiProviderRegistry,
+      this._organizationRepository,
       this._logger
     );
     this._getFeedbackUseCase = new GetFeedbackUseCase(
@@ -238,24 +499,163 @@ export class Container {
       this._userRepository,
       this._logger
     );
+    this._getFeedbackBreakdownUseCase = new GetFeedbackBreakdownUseCase(
+      this._feedbackRepository,
+      this._userRepository,
+      this._organizationRepository,
+      this._logger
+    );
+    this._requestFeedbackUseCase = new RequestFeedbackUseCase(
+      this._feedbackRequestRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._getFeedbackRequestsUseCase = new GetFeedbackRequestsUseCase(
+      this._feedbackRequestRepository,
+      this._logger
+    );
+    this._declineFeedbackRequestUseCase = new DeclineFeedbackRequestUseCase(
+      this._feedbackRequestRepository,
+      this._logger
+    );
+    this._editFeedbackUseCase = new EditFeedbackUseCase(
+      this._feedbackRepository,
+      this._userRepository,
+      this._organizationRepository,
+      this._aiProviderRegistry,
+      this._logger
+    );
+    this._replyToFeedbackUseCase = new ReplyToFeedbackUseCase(
+      this._feedbackRepository,
+      this._logger
+    );
+    this._screenFeedbackUseCase = new ScreenFeedbackUseCase(
+      this._aiProviderRegistry,
+      this._organizationRepository,
+      this._logger
+    );
+    this._moderateFeedbackUseCase = new ModerateFeedbackUseCase(
+      this._feedbackRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._summarizeFeedbackUseCase = new SummarizeFeedbackUseCase(
+      this._feedbackRepository,
+      this._feedbackSummaryRepository,
+      this._userRepository,
+      this._organizationRepository,
+      this._aiProviderRegistry,
+      this._logger
+    );
+
+    // Review Use Cases
+    this._createReviewCycleUseCase = new CreateReviewCycleUseCase(
+      this._reviewCycleRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._updateReviewCycleUseCase = new UpdateReviewCycleUseCase(
+      this._reviewCycleRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._deleteReviewCycleUseCase = new DeleteReviewCycleUseCase(
+      this._reviewCycleRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._openReviewCycleUseCase = new OpenReviewCycleUseCase(
+      this._reviewCycleRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._nominateReviewPeersUseCase = new NominateReviewPeersUseCase(
+      this._reviewCycleRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._submitReviewUseCase = new SubmitReviewUseCase(
+      this._reviewCycleRepository,
+      this._logger
+    );
+    this._startReviewCalibrationUseCase = new StartReviewCalibrationUseCase(
+      this._reviewCycleRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._calibrateReviewRatingUseCase = new CalibrateReviewRatingUseCase(
+      this._reviewCycleRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._closeReviewCycleUseCase = new CloseReviewCycleUseCase(
+      this._reviewCycleRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._getReviewCyclesUseCase = new GetReviewCyclesUseCase(
+      this._reviewCycleRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._getReviewCycleUseCase = new GetReviewCycleUseCase(
+      this._reviewCycleRepository,
+      this._userRepository,
+      this._logger
+    );
+    this._getOutstandingReviewsUseCase = new GetOutstandingReviewsUseCase(
+      this._reviewCycleRepository,
+      this._userRepository,
+      this._logger
+    );
 
     // Dashboard Use Cases
     this._getDashboardMetricsUseCase = new GetDashboardMetricsUseCase(
       this._absenceRepository,
       this._feedbackRepository,
       this._userRepository,
+      this._holidayCalendarRepository,
       this._logger
     );
 
     // Notification Use Cases
     this._createNotificationUseCase = new CreateNotificationUseCase(
       this._notificationRepository,
+      this._notificationBus,
       this._logger
     );
     this._getNotificationsUseCase = new GetNotificationsUseCase(
       this._notificationRepository,
       this._logger
     );
+    this._getNotificationsSinceUseCase = new GetNotificationsSinceUseCase(
+      this._notificationRepository,
+      this._logger
+    );
+    this._dispatchNotificationUseCase = new DispatchNotificationUseCase(
+      this._createNotificationUseCase,
+      this._notificationPreferenceRepository,
+      this._userRepository,
+      this._organizationRepository,
+      this._notificationMailer,
+      this._logger
+    );
+    this._sendNotificationDigestsUseCase = new SendNotificationDigestsUseCase(
+      this._notificationRepository,
+      this._userRepository,
+      this._notificationMailer,
+      this._logger
+    );
+    this._getNotificationPreferencesUseCase = new GetNotificationPreferencesUseCase(
+      this._notificationPreferenceRepository,
+      this._organizationRepository,
+      this._logger
+    );
+    this._updateNotificationPreferencesUseCase = new UpdateNotificationPreferencesUseCase(
+      this._notificationPreferenceRepository,
+      this._organizationRepository,
+      this._logger
+    );
     this._markNotificationReadUseCase = new MarkNotificationReadUseCase(
       this._notificationRepository,
       this._logger
@@ -326,11 +726,27 @@ export class Container {
   }
 
   /**
-   * Get the AI service
+   * Get the AI service of the deployment's default provider
    * For custom AI operations
    */
   get aiService(): IAIService {
-    return this._aiService;
+    return this._aiProviderRegistry.resolve();
+  }
+
+  /**
+   * Get the AI provider registry
+   * For picking the AI provider an organization chose
+   */
+  get aiProviderRegistry(): IAIProviderRegistry {
+    return this._aiProviderRegistry;
+  }
+
+  /**
+   * Get the notification bus
+   * For streaming notifications to open connections
+   */
+  get notificationBus(): INotificationBus {
+    return this._notificationBus;
   }
 
   // ==================== Repository Getters ====================
@@ -367,6 +783,14 @@ export class Container {
     return this._notificationRepository;
   }
 
+  /**
+   * Get the AbsenceType repository
+   * Useful for direct repository access in complex scenarios
+   */
+  get absenceTypeRepository(): IAbsenceTypeRepository {
+    return this._absenceTypeRepository;
+  }
+
   // ==================== Use Case Getters - Absence ====================
 
   get createAbsenceUseCase(): CreateAbsenceUseCase {
@@ -389,10 +813,82 @@ export class Container {
     return this._deleteAbsenceUseCase;
   }
 
+  get updateAbsenceUseCase(): UpdateAbsenceUseCase {
+    return this._updateAbsenceUseCase;
+  }
+
+  get getTeamCoverageUseCase(): GetTeamCoverageUseCase {
+    return this._getTeamCoverageUseCase;
+  }
+
+  get requestAbsenceCancellationUseCase(): RequestAbsenceCancellationUseCase {
+    return this._requestAbsenceCancellationUseCase;
+  }
+
+  get reviewAbsenceCancellationUseCase(): ReviewAbsenceCancellationUseCase {
+    return this._reviewAbsenceCancellationUseCase;
+  }
+
   get getAbsenceStatisticsUseCase(): GetAbsenceStatisticsUseCase {
     return this._getAbsenceStatisticsUseCase;
   }
 
+  get getAbsenceTypesUseCase(): GetAbsenceTypesUseCase {
+    return this._getAbsenceTypesUseCase;
+  }
+
+  get createAbsenceTypeUseCase(): CreateAbsenceTypeUseCase {
+    return this._createAbsenceTypeUseCase;
+  }
+
+  get updateAbsenceTypeUseCase(): UpdateAbsenceTypeUseCase {
+    return this._updateAbsenceTypeUseCase;
+  }
+
+  get deleteAbsenceTypeUseCase(): DeleteAbsenceTypeUseCase {
+    return this._deleteAbsenceTypeUseCase;
+  }
+
+  get getLeaveBalanceUseCase(): GetLeaveBalanceUseCase {
+    return this._getLeaveBalanceUseCase;
+  }
+
+  get updateLeaveAllowanceUseCase(): UpdateLeaveAllowanceUseCase {
+    return this._updateLeaveAllowanceUseCase;
+  }
+
+  get getApprovalQueueUseCase(): GetApprovalQueueUseCase {
+    return this._getApprovalQueueUseCase;
+  }
+
+  get getCurrentApproversUseCase(): GetCurrentApproversUseCase {
+    return this._getCurrentApproversUseCase;
+  }
+
+  get updateApprovalWorkflowUseCase(): UpdateApprovalWorkflowUseCase {
+    return this._updateApprovalWorkflowUseCase;
+  }
+
+  get getHolidayCalendarsUseCase(): GetHolidayCalendarsUseCase {
+    return this._getHolidayCalendarsUseCase;
+  }
+
+  get createHolidayCalendarUseCase(): CreateHolidayCalendarUseCase {
+    return this._createHolidayCalendarUseCase;
+  }
+
+  get updateHolidayCalendarUseCase(): UpdateHolidayCalendarUseCase {
+    return this._updateHolidayCalendarUseCase;
+  }
+
+  get deleteHolidayCalendarUseCase(): DeleteHolidayCalendarUseCase {
+    return this._deleteHolidayCalendarUseCase;
+  }
+
+  get getUserHolidaysUseCase(): GetUserHolidaysUseCase {
+    return this._getUserHolidaysUseCase;
+  }
+
   // ==================== Use Case Getters - User ====================
 
   get getUserUseCase(): GetUserUseCase {
@@ -425,6 +921,92 @@ export class Container {
     return this._deleteFeedbackUseCase;
   }
 
+  get getFeedbackBreakdownUseCase(): GetFeedbackBreakdownUseCase {
+    return this._getFeedbackBreakdownUseCase;
+  }
+
+  get requestFeedbackUseCase(): RequestFeedbackUseCase {
+    return this._requestFeedbackUseCase;
+  }
+
+  get getFeedbackRequestsUseCase(): GetFeedbackRequestsUseCase {
+    return this._getFeedbackRequestsUseCase;
+  }
+
+  get declineFeedbackRequestUseCase(): DeclineFeedbackRequestUseCase {
+    return this._declineFeedbackRequestUseCase;
+  }
+
+  get editFeedbackUseCase(): EditFeedbackUseCase {
+    return this._editFeedbackUseCase;
+  }
+
+  get replyToFeedbackUseCase(): ReplyToFeedbackUseCase {
+    return this._replyToFeedbackUseCase;
+  }
+
+  get screenFeedbackUseCase(): ScreenFeedbackUseCase {
+    return this._screenFeedbackUseCase;
+  }
+
+  get moderateFeedbackUseCase(): ModerateFeedbackUseCase {
+    return this._moderateFeedbackUseCase;
+  }
+
+  get summarizeFeedbackUseCase(): SummarizeFeedbackUseCase {
+    return this._summarizeFeedbackUseCase;
+  }
+
+  // ==================== Use Case Getters - Review ====================
+
+  get createReviewCycleUseCase(): CreateReviewCycleUseCase {
+    return this._createReviewCycleUseCase;
+  }
+
+  get updateReviewCycleUseCase(): UpdateReviewCycleUseCase {
+    return this._updateReviewCycleUseCase;
+  }
+
+  get deleteReviewCycleUseCase(): DeleteReviewCycleUseCase {
+    return this._deleteReviewCycleUseCase;
+  }
+
+  get openReviewCycleUseCase(): OpenReviewCycleUseCase {
+    return this._openReviewCycleUseCase;
+  }
+
+  get nominateReviewPeersUseCase(): NominateReviewPeersUseCase {
+    return this._nominateReviewPeersUseCase;
+  }
+
+  get submitReviewUseCase(): SubmitReviewUseCase {
+    return this._submitReviewUseCase;
+  }
+
+  get startReviewCalibrationUseCase(): StartReviewCalibrationUseCase {
+    return this._startReviewCalibrationUseCase;
+  }
+
+  get calibrateReviewRatingUseCase(): CalibrateReviewRatingUseCase {
+    return this._calibrateReviewRatingUseCase;
+  }
+
+  get closeReviewCycleUseCase(): CloseReviewCycleUseCase {
+    return this._closeReviewCycleUseCase;
+  }
+
+  get getReviewCyclesUseCase(): GetReviewCyclesUseCase {
+    return this._getReviewCyclesUseCase;
+  }
+
+  get getReviewCycleUseCase(): GetReviewCycleUseCase {
+    return this._getReviewCycleUseCase;
+  }
+
+  get getOutstandingReviewsUseCase(): GetOutstandingReviewsUseCase {
+    return this._getOutstandingReviewsUseCase;
+  }
+
   // ==================== Use Case Getters - Dashboard ====================
 
   get getDashboardMetricsUseCase(): GetDashboardMetricsUseCase {
@@ -445,6 +1027,10 @@ export class Container {
     return this._restoreUserUseCase;
   }
 
+  get assignManagerUseCase(): AssignManagerUseCase {
+    return this._assignManagerUseCase;
+  }
+
   // ==================== Use Case Getters - Notification ====================
 
   get createNotificationUseCase(): CreateNotificationUseCase {
@@ -455,6 +1041,26 @@ export class Container {
     return this._getNotificationsUseCase;
   }
 
+  get getNotificationsSinceUseCase(): GetNotificationsSinceUseCase {
+    return this._getNotificationsSinceUseCase;
+  }
+
+  get dispatchNotificationUseCase(): DispatchNotificationUseCase {
+    return this._dispatchNotificationUseCase;
+  }
+
+  get sendNotificationDigestsUseCase(): SendNotificationDigestsUseCase {
+    return this._sendNotificationDigestsUseCase;
+  }
+
+  get getNotificationPreferencesUseCase(): GetNotificationPreferencesUseCase {
+    return this._getNotificationPreferencesUseCase;
+  }
+
+  get updateNotificationPreferencesUseCase(): UpdateNotificationPreferencesUseCase {
+    return this._updateNotificationPreferencesUseCase;
+  }
+
   get markNotificationReadUseCase(): MarkNotificationReadUseCase {
     return this._markNotificationReadUseCase;
   }
@@ -1,6 +1,24 @@
-import { AbsenceRequest as PrismaAbsence, AbsenceStatus as PrismaStatus } from '@prisma/client';
+import {
+  AbsenceRequest as PrismaAbsence,
+  AbsenceApprovalStep as PrismaApprovalStep,
+  AbsenceStatus as PrismaStatus,
+} from '@prisma/client';
 import { Absence, AbsenceStatus } from '../../../../domain/entities/Absence';
 import { DateRange } from '../../../../domain/value-objects/DateRange';
+import { DayPart, AbsenceDayPart } from '../../../../domain/value-objects/DayPart';
+import { ApprovalStep, ApprovalDecision } from '../../../../domain/value-objects/ApprovalStep';
+import { ApproverType } from '../../../../domain/value-objects/ApprovalWorkflow';
+
+type PrismaApprovalStepWithDecider = PrismaApprovalStep & {
+  decidedBy?: { name: string } | null;
+};
+
+/**
+ * Prisma absence row, optionally with its approval chain loaded
+ */
+export type PrismaAbsenceWithSteps = PrismaAbsence & {
+  approvalSteps?: PrismaApprovalStepWithDecider[];
+};
 
 /**
  * AbsenceMapper
@@ -10,14 +28,33 @@ export class AbsenceMapper {
   /**
    * Convert Prisma model to domain entity
    */
-  static toDomain(prismaAbsence: PrismaAbsence): Absence {
+  static toDomain(prismaAbsence: PrismaAbsenceWithSteps): Absence {
     return Absence.reconstitute({
       id: prismaAbsence.id,
       organizationId: prismaAbsence.organizationId,
       userId: prismaAbsence.userId,
       dateRange: DateRange.create(prismaAbsence.startDate, prismaAbsence.endDate),
+      dayPart: DayPart.create(
+        prismaAbsence.dayPart as AbsenceDayPart,
+        prismaAbsence.startTime,
+        prismaAbsence.endTime
+      ),
       reason: prismaAbsence.reason,
+      absenceTypeId: prismaAbsence.absenceTypeId ?? undefined,
       status: this.mapStatus(prismaAbsence.status),
+      approvalSteps: [...(prismaAbsence.approvalSteps ?? [])]
+        .sort((a, b) => a.position - b.position)
+        .map((step) => this.stepToDomain(step)),
+      cancellation:
+        prismaAbsence.cancellationReason && prismaAbsence.cancellationRequestedAt
+          ? {
+              reason: prismaAbsence.cancellationReason,
+              requestedAt: prismaAbsence.cancellationRequestedAt,
+              decidedById: prismaAbsence.cancellationDecidedById ?? undefined,
+              decidedAt: prismaAbsence.cancellationDecidedAt ?? undefined,
+              comment: prismaAbsence.cancellationComment ?? undefined,
+            }
+          : undefined,
       deletedAt: prismaAbsence.deletedAt ?? undefined,
       createdAt: prismaAbsence.createdAt,
       updatedAt: prismaAbsence.updatedAt,
@@ -34,12 +71,60 @@ export class AbsenceMapper {
       userId: absence.userId,
       startDate: absence.dateRange.start,
       endDate: absence.dateRange.end,
+      dayPart: absence.dayPart.type,
+      startTime: absence.dayPart.startTime ?? null,
+      endTime: absence.dayPart.endTime ?? null,
       reason: absence.reason,
+      absenceTypeId: absence.absenceTypeId ?? null,
       status: this.mapToPrismaStatus(absence.status),
+      cancellationReason: absence.cancellation?.reason ?? null,
+      cancellationRequestedAt: absence.cancellation?.requestedAt ?? null,
+      cancellationDecidedById: absence.cancellation?.decidedById ?? null,
+      cancellationDecidedAt: absence.cancellation?.decidedAt ?? null,
+      cancellationComment: absence.cancellation?.comment ?? null,
       deletedAt: absence.deletedAt ?? null,
     };
   }
 
+  /**
+   * Convert a Prisma approval step row to a domain value object
+   */
+  private static stepToDomain(step: PrismaApprovalStepWithDecider): ApprovalStep {
+    return ApprovalStep.reconstitute({
+      position: step.position,
+      rule: {
+        approverType: step.approverType as ApproverType,
+        label: step.label ?? undefined,
+        department: step.department ?? undefined,
+        userId: step.approverUserId ?? undefined,
+      },
+      decision: step.decision as ApprovalDecision,
+      decidedById: step.decidedById ?? undefined,
+      decidedByName: step.decidedBy?.name ?? undefined,
+      comment: step.comment ?? undefined,
+      decidedAt: step.decidedAt ?? undefined,
+    });
+  }
+
+  /**
+   * Convert the approval chain to Prisma step rows (without ids)
+   */
+  static stepsToPrisma(
+    absence: Absence
+  ): Omit<PrismaApprovalStep, 'id' | 'absenceRequestId' | 'createdAt'>[] {
+    return absence.approvalSteps.map((step) => ({
+      position: step.position,
+      label: step.rule.label ?? null,
+      approverType: step.rule.approverType,
+      department: step.rule.department ?? null,
+      approverUserId: step.rule.userId ?? null,
+      decision: step.decision,
+      decidedById: step.decidedById ?? null,
+      comment: step.comment ?? null,
+      decidedAt: step.decidedAt ?? null,
+    }));
+  }
+
   /**
    * Map Prisma status to domain status
    */
@@ -51,6 +136,8 @@ export class AbsenceMapper {
         return AbsenceStatus.APPROVED;
       case 'REJECTED':
         return AbsenceStatus.REJECTED;
+      case 'CANCELLED':
+        return AbsenceStatus.CANCELLED;
       default:
         throw new Error(`Unknown status: ${prismaStatus}`);
     }
@@ -67,6 +154,8 @@ export class AbsenceMapper {
         return 'APPROVED';
       case AbsenceStatus.REJECTED:
         return 'REJECTED';
+      case AbsenceStatus.CANCELLED:
+        return 'CANCELLED';
       default:
         throw new Error(`Unknown status: ${status}`);
     }
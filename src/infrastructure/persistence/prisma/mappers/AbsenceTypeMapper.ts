@@ -0,0 +1,53 @@
+import {
+  AbsenceType as PrismaAbsenceType,
+  AbsenceCategory as PrismaAbsenceCategory,
+  Prisma,
+} from '@prisma/client';
+import { AbsenceType, AbsenceCategory } from '../../../../domain/entities/AbsenceType';
+import { ApprovalStepRule } from '../../../../domain/value-objects/ApprovalWorkflow';
+
+/**
+ * AbsenceTypeMapper
+ * Converts between Prisma models and domain entities
+ */
+export class AbsenceTypeMapper {
+  /**
+   * Convert Prisma model to domain entity
+   */
+  static toDomain(prismaType: PrismaAbsenceType): AbsenceType {
+    return AbsenceType.reconstitute({
+      id: prismaType.id,
+      organizationId: prismaType.organizationId,
+      name: prismaType.name,
+      category: prismaType.category as AbsenceCategory,
+      color: prismaType.color,
+      requiresApproval: prismaType.requiresApproval,
+      countsAgainstAllowance: prismaType.countsAgainstAllowance,
+      approvalSteps: (prismaType.approvalSteps as unknown as ApprovalStepRule[] | null) ?? undefined,
+      deletedAt: prismaType.deletedAt ?? undefined,
+      createdAt: prismaType.createdAt,
+      updatedAt: prismaType.updatedAt,
+    });
+  }
+
+  /**
+   * Convert domain entity to Prisma model data
+   */
+  static toPrisma(
+    absenceType: AbsenceType
+  ): Omit<PrismaAbsenceType, 'createdAt' | 'updatedAt' | 'approvalSteps'> & {
+    approvalSteps: Prisma.InputJsonValue | typeof Prisma.DbNull;
+  } {
+    return {
+      id: absenceType.id,
+      organizationId: absenceType.organizationId,
+      name: absenceType.name,
+      category: absenceType.category as PrismaAbsenceCategory,
+      color: absenceType.color,
+      requiresApproval: absenceType.requiresApproval,
+      countsAgainstAllowance: absenceType.countsAgainstAllowance,
+      approvalSteps: (absenceType.approvalSteps as unknown as Prisma.InputJsonValue) ?? Prisma.DbNull,
+      deletedAt: absenceType.deletedAt ?? null,
+    };
+  }
+}
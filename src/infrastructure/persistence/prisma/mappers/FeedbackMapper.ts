@@ -1,5 +1,30 @@
-import { Feedback as PrismaFeedback } from '@prisma/client';
-import { Feedback } from '../../../../domain/entities/Feedback';
+import {
+  Feedback as PrismaFeedback,
+  FeedbackRevision as PrismaFeedbackRevision,
+  FeedbackReply as PrismaFeedbackReply,
+  FeedbackType as PrismaFeedbackType,
+  FeedbackVisibility as PrismaFeedbackVisibility,
+  FeedbackReplyKind as PrismaFeedbackReplyKind,
+  FeedbackModerationStatus as PrismaFeedbackModerationStatus,
+  Prisma,
+} from '@prisma/client';
+import {
+  Feedback,
+  FeedbackCompetency,
+  FeedbackModerationStatus,
+  FeedbackReply,
+  FeedbackReplyKind,
+  FeedbackRevision,
+  FeedbackType,
+  FeedbackVisibility,
+} from '../../../../domain/entities/Feedback';
+import { ScreeningCategory } from '../../../../domain/value-objects/FeedbackScreening';
+
+// Revisions and replies are loaded oldest first
+export type PrismaFeedbackWithThread = PrismaFeedback & {
+  revisions: PrismaFeedbackRevision[];
+  replies: PrismaFeedbackReply[];
+};
 
 /**
  * FeedbackMapper
@@ -7,9 +32,9 @@ import { Feedback } from '../../../../domain/entities/Feedback';
  */
 export class FeedbackMapper {
   /**
-   * Convert Prisma model to domain entity
+   * Convert Prisma model (with revisions and replies) to domain entity
    */
-  static toDomain(prismaFeedback: PrismaFeedback): Feedback {
+  static toDomain(prismaFeedback: PrismaFeedbackWithThread): Feedback {
     return Feedback.reconstitute({
       id: prismaFeedback.id,
       organizationId: prismaFeedback.organizationId,
@@ -18,6 +43,29 @@ export class FeedbackMapper {
       content: prismaFeedback.content,
       polishedContent: prismaFeedback.polishedContent ?? undefined,
       isPolished: prismaFeedback.isPolished,
+      polishedBy: prismaFeedback.polishedBy ?? undefined,
+      type: prismaFeedback.type as FeedbackType,
+      competencies: (prismaFeedback.competencies as unknown as FeedbackCompetency[] | null) ?? [],
+      visibility: prismaFeedback.visibility as FeedbackVisibility,
+      revisions: prismaFeedback.revisions.map((r) => ({
+        id: r.id,
+        content: r.content,
+        polishedContent: r.polishedContent ?? undefined,
+        editedById: r.editedById,
+        editedAt: r.editedAt,
+      })),
+      replies: prismaFeedback.replies.map((r) => ({
+        id: r.id,
+        authorId: r.authorId,
+        kind: r.kind as FeedbackReplyKind,
+        content: r.content ?? undefined,
+        createdAt: r.createdAt,
+      })),
+      screeningFlags: prismaFeedback.screeningFlags as ScreeningCategory[],
+      moderationStatus:
+        (prismaFeedback.moderationStatus as FeedbackModerationStatus | null) ?? undefined,
+      moderatedById: prismaFeedback.moderatedById ?? undefined,
+      moderatedAt: prismaFeedback.moderatedAt ?? undefined,
       deletedAt: prismaFeedback.deletedAt ?? undefined,
       createdAt: prismaFeedback.createdAt,
       updatedAt: prismaFeedback.updatedAt,
@@ -27,7 +75,11 @@ export class FeedbackMapper {
   /**
    * Convert domain entity to Prisma model data
    */
-  static toPrisma(feedback: Feedback): Omit<PrismaFeedback, 'createdAt' | 'updatedAt'> {
+  static toPrisma(
+    feedback: Feedback
+  ): Omit<PrismaFeedback, 'createdAt' | 'updatedAt' | 'competencies'> & {
+    competencies: Prisma.InputJsonValue;
+  } {
     return {
       id: feedback.id,
       organizationId: feedback.organizationId,
@@ -36,7 +88,43 @@ export class FeedbackMapper {
       content: feedback.content,
       polishedContent: feedback.polishedContent ?? null,
       isPolished: feedback.isPolished,
+      polishedBy: feedback.polishedBy ?? null,
+      type: feedback.type as PrismaFeedbackType,
+      competencies: feedback.competencies as unknown as Prisma.InputJsonValue,
+      visibility: feedback.visibility as PrismaFeedbackVisibility,
+      screeningFlags: feedback.screeningFlags,
+      moderationStatus: (feedback.moderationStatus as PrismaFeedbackModerationStatus) ?? null,
+      moderatedById: feedback.moderatedById ?? null,
+      moderatedAt: feedback.moderatedAt ?? null,
       deletedAt: feedback.deletedAt ?? null,
     };
   }
+
+  /**
+   * Convert a revision to Prisma model data
+   */
+  static revisionToPrisma(feedbackId: string, revision: FeedbackRevision): PrismaFeedbackRevision {
+    return {
+      id: revision.id,
+      feedbackId,
+      content: revision.content,
+      polishedContent: revision.polishedContent ?? null,
+      editedById: revision.editedById,
+      editedAt: revision.editedAt,
+    };
+  }
+
+  /**
+   * Convert a reply to Prisma model data
+   */
+  static replyToPrisma(feedbackId: string, reply: FeedbackReply): PrismaFeedbackReply {
+    return {
+      id: reply.id,
+      feedbackId,
+      authorId: reply.authorId,
+      kind: reply.kind as PrismaFeedbackReplyKind,
+      content: reply.content ?? null,
+      createdAt: reply.createdAt,
+    };
+  }
 }
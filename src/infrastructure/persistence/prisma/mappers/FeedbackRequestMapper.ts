@@ -0,0 +1,52 @@
+import {
+  FeedbackRequest as PrismaFeedbackRequest,
+  FeedbackRequestStatus as PrismaFeedbackRequestStatus,
+} from '@prisma/client';
+import {
+  FeedbackRequest,
+  FeedbackRequestStatus,
+} from '../../../../domain/entities/FeedbackRequest';
+
+/**
+ * FeedbackRequestMapper
+ * Converts between Prisma models and domain entities
+ */
+export class FeedbackRequestMapper {
+  /**
+   * Convert Prisma model to domain entity
+   */
+  static toDomain(prismaRequest: PrismaFeedbackRequest): FeedbackRequest {
+    return FeedbackRequest.reconstitute({
+      id: prismaRequest.id,
+      organizationId: prismaRequest.organizationId,
+      requesterId: prismaRequest.requesterId,
+      recipientId: prismaRequest.recipientId,
+      prompt: prismaRequest.prompt ?? undefined,
+      status: prismaRequest.status as FeedbackRequestStatus,
+      dueDate: prismaRequest.dueDate,
+      feedbackId: prismaRequest.feedbackId ?? undefined,
+      respondedAt: prismaRequest.respondedAt ?? undefined,
+      createdAt: prismaRequest.createdAt,
+      updatedAt: prismaRequest.updatedAt,
+    });
+  }
+
+  /**
+   * Convert domain entity to Prisma model data
+   */
+  static toPrisma(
+    request: FeedbackRequest
+  ): Omit<PrismaFeedbackRequest, 'createdAt' | 'updatedAt'> {
+    return {
+      id: request.id,
+      organizationId: request.organizationId,
+      requesterId: request.requesterId,
+      recipientId: request.recipientId,
+      prompt: request.prompt ?? null,
+      status: request.status as PrismaFeedbackRequestStatus,
+      dueDate: request.dueDate,
+      feedbackId: request.feedbackId ?? null,
+      respondedAt: request.respondedAt ?? null,
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { Prisma, FeedbackSummary as PrismaFeedbackSummary } from '@prisma/client';
+import {
+  FeedbackSummary,
+  FeedbackSummaryPoint,
+} from '../../../../domain/entities/FeedbackSummary';
+
+type SummarySection = 'themes' | 'strengths' | 'growthAreas';
+
+/**
+ * FeedbackSummaryMapper
+ * Converts between Prisma models and domain entities
+ */
+export class FeedbackSummaryMapper {
+  /**
+   * Convert Prisma model to domain entity
+   */
+  static toDomain(prismaSummary: PrismaFeedbackSummary): FeedbackSummary {
+    return FeedbackSummary.reconstitute({
+      id: prismaSummary.id,
+      organizationId: prismaSummary.organizationId,
+      subjectId: prismaSummary.subjectId,
+      periodStart: prismaSummary.periodStart,
+      periodEnd: prismaSummary.periodEnd,
+      themes: prismaSummary.themes as unknown as FeedbackSummaryPoint[],
+      strengths: prismaSummary.strengths as unknown as FeedbackSummaryPoint[],
+      growthAreas: prismaSummary.growthAreas as unknown as FeedbackSummaryPoint[],
+      feedbackIds: prismaSummary.feedbackIds,
+      sourceUpdatedAt: prismaSummary.sourceUpdatedAt,
+      provider: prismaSummary.provider,
+      generatedById: prismaSummary.generatedById,
+      generatedAt: prismaSummary.generatedAt,
+    });
+  }
+
+  /**
+   * Convert domain entity to Prisma model data
+   */
+  static toPrisma(
+    summary: FeedbackSummary
+  ): Omit<PrismaFeedbackSummary, SummarySection> & Record<SummarySection, Prisma.InputJsonValue> {
+    return {
+      id: summary.id,
+      organizationId: summary.organizationId,
+      subjectId: summary.subjectId,
+      periodStart: summary.periodStart,
+      periodEnd: summary.periodEnd,
+      themes: summary.themes as unknown as Prisma.InputJsonValue,
+      strengths: summary.strengths as unknown as Prisma.InputJsonValue,
+      growthAreas: summary.growthAreas as unknown as Prisma.InputJsonValue,
+      feedbackIds: summary.feedbackIds,
+      sourceUpdatedAt: summary.sourceUpdatedAt,
+      provider: summary.provider,
+      generatedById: summary.generatedById,
+      generatedAt: summary.generatedAt,
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import {
+  HolidayCalendar as PrismaHolidayCalendar,
+  Holiday as PrismaHoliday,
+} from '@prisma/client';
+import { HolidayCalendar } from '../../../../domain/entities/HolidayCalendar';
+
+export type PrismaHolidayCalendarWithRelations = PrismaHolidayCalendar & {
+  holidays: PrismaHoliday[];
+  users: { id: string }[];
+};
+
+/**
+ * HolidayCalendarMapper
+ * Converts between Prisma models and domain entities
+ */
+export class HolidayCalendarMapper {
+  /**
+   * Convert Prisma model (with holidays and assigned users) to domain entity
+   */
+  static toDomain(prismaCalendar: PrismaHolidayCalendarWithRelations): HolidayCalendar {
+    return HolidayCalendar.reconstitute({
+      id: prismaCalendar.id,
+      organizationId: prismaCalendar.organizationId,
+      name: prismaCalendar.name,
+      // @db.Date columns come back as UTC midnight
+      holidays: prismaCalendar.holidays
+        .map((h) => ({ date: h.date.toISOString().slice(0, 10), name: h.name }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      departments: prismaCalendar.departments,
+      userIds: prismaCalendar.users.map((u) => u.id),
+      createdAt: prismaCalendar.createdAt,
+      updatedAt: prismaCalendar.updatedAt,
+    });
+  }
+
+  /**
+   * Convert domain entity to Prisma model data (calendar row only)
+   */
+  static toPrisma(calendar: HolidayCalendar): Omit<PrismaHolidayCalendar, 'createdAt' | 'updatedAt'> {
+    return {
+      id: calendar.id,
+      organizationId: calendar.organizationId,
+      name: calendar.name,
+      departments: calendar.departments,
+    };
+  }
+
+  /**
+   * Convert domain holidays to Prisma rows
+   */
+  static holidaysToPrisma(calendar: HolidayCalendar): Omit<PrismaHoliday, 'id'>[] {
+    return calendar.holidays.map((h) => ({
+      calendarId: calendar.id,
+      date: new Date(`${h.date}T00:00:00Z`),
+      name: h.name,
+    }));
+  }
+}
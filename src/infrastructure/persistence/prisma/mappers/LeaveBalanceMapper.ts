@@ -0,0 +1,38 @@
+import { LeaveBalance as PrismaLeaveBalance } from '@prisma/client';
+import { LeaveBalance } from '../../../../domain/entities/LeaveBalance';
+
+/**
+ * LeaveBalanceMapper
+ * Converts between Prisma models and domain entities
+ */
+export class LeaveBalanceMapper {
+  /**
+   * Convert Prisma model to domain entity
+   */
+  static toDomain(prismaBalance: PrismaLeaveBalance): LeaveBalance {
+    return LeaveBalance.reconstitute({
+      id: prismaBalance.id,
+      organizationId: prismaBalance.organizationId,
+      userId: prismaBalance.userId,
+      year: prismaBalance.year,
+      annualAllowance: prismaBalance.annualAllowance,
+      carriedOverDays: prismaBalance.carriedOverDays,
+      createdAt: prismaBalance.createdAt,
+      updatedAt: prismaBalance.updatedAt,
+    });
+  }
+
+  /**
+   * Convert domain entity to Prisma model data
+   */
+  static toPrisma(balance: LeaveBalance): Omit<PrismaLeaveBalance, 'createdAt' | 'updatedAt'> {
+    return {
+      id: balance.id,
+      organizationId: balance.organizationId,
+      userId: balance.userId,
+      year: balance.year,
+      annualAllowance: balance.annualAllowance,
+      carriedOverDays: balance.carriedOverDays,
+    };
+  }
+}
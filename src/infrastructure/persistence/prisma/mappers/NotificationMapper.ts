@@ -19,6 +19,7 @@ export class NotificationMapper {
       read: prismaNotification.read,
       data: prismaNotification.data as Record<string, unknown> | undefined,
       userId: prismaNotification.userId,
+      digestPending: prismaNotification.digestPending,
       createdAt: prismaNotification.createdAt,
     });
   }
@@ -35,6 +36,7 @@ export class NotificationMapper {
     read: boolean;
     data: Prisma.InputJsonValue;
     userId: string;
+    digestPending: boolean;
   } {
     return {
       id: notification.id,
@@ -45,6 +47,7 @@ export class NotificationMapper {
       read: notification.read,
       data: (notification.data ?? Prisma.JsonNull) as Prisma.InputJsonValue,
       userId: notification.userId,
+      digestPending: notification.digestPending,
     };
   }
 }
@@ -0,0 +1,112 @@
+import {
+  Prisma,
+  ReviewCycle as PrismaReviewCycle,
+  ReviewParticipant as PrismaReviewParticipant,
+  Review as PrismaReview,
+  ReviewCycleStatus as PrismaReviewCycleStatus,
+  ReviewKind as PrismaReviewKind,
+} from '@prisma/client';
+import {
+  ReviewCycle,
+  ReviewCycleStatus,
+  ReviewKind,
+  ReviewQuestion,
+  ReviewAnswer,
+} from '../../../../domain/entities/ReviewCycle';
+
+export type PrismaReviewCycleWithRelations = PrismaReviewCycle & {
+  participants: PrismaReviewParticipant[];
+  reviews: PrismaReview[];
+};
+
+/**
+ * ReviewCycleMapper
+ * Converts between Prisma models and domain entities
+ */
+export class ReviewCycleMapper {
+  /**
+   * Convert Prisma model (with participants and reviews) to domain entity
+   */
+  static toDomain(prismaCycle: PrismaReviewCycleWithRelations): ReviewCycle {
+    return ReviewCycle.reconstitute({
+      id: prismaCycle.id,
+      organizationId: prismaCycle.organizationId,
+      name: prismaCycle.name,
+      status: prismaCycle.status as ReviewCycleStatus,
+      questions: prismaCycle.questions as unknown as ReviewQuestion[],
+      deadline: prismaCycle.deadline,
+      participants: prismaCycle.participants.map((p) => ({
+        userId: p.userId,
+        managerId: p.managerId,
+        peerIds: p.peerIds,
+        calibratedRating: p.calibratedRating ?? undefined,
+      })),
+      reviews: prismaCycle.reviews.map((r) => ({
+        id: r.id,
+        revieweeId: r.revieweeId,
+        reviewerId: r.reviewerId,
+        kind: r.kind as ReviewKind,
+        answers: r.answers as unknown as ReviewAnswer[],
+        rating: r.rating ?? undefined,
+        submittedAt: r.submittedAt ?? undefined,
+      })),
+      createdById: prismaCycle.createdById,
+      openedAt: prismaCycle.openedAt ?? undefined,
+      closedAt: prismaCycle.closedAt ?? undefined,
+      createdAt: prismaCycle.createdAt,
+      updatedAt: prismaCycle.updatedAt,
+    });
+  }
+
+  /**
+   * Convert domain entity to Prisma model data (cycle row only)
+   */
+  static toPrisma(
+    cycle: ReviewCycle
+  ): Omit<PrismaReviewCycle, 'questions' | 'createdAt' | 'updatedAt'> & {
+    questions: Prisma.InputJsonValue;
+  } {
+    return {
+      id: cycle.id,
+      organizationId: cycle.organizationId,
+      name: cycle.name,
+      status: cycle.status as PrismaReviewCycleStatus,
+      questions: cycle.questions as unknown as Prisma.InputJsonValue,
+      deadline: cycle.deadline,
+      createdById: cycle.createdById,
+      openedAt: cycle.openedAt ?? null,
+      closedAt: cycle.closedAt ?? null,
+    };
+  }
+
+  /**
+   * Convert domain participants to Prisma rows
+   */
+  static participantsToPrisma(cycle: ReviewCycle): PrismaReviewParticipant[] {
+    return cycle.participants.map((p) => ({
+      cycleId: cycle.id,
+      userId: p.userId,
+      managerId: p.managerId,
+      peerIds: p.peerIds,
+      calibratedRating: p.calibratedRating ?? null,
+    }));
+  }
+
+  /**
+   * Convert domain reviews to Prisma rows
+   */
+  static reviewsToPrisma(
+    cycle: ReviewCycle
+  ): (Omit<PrismaReview, 'answers'> & { answers: Prisma.InputJsonValue })[] {
+    return cycle.reviews.map((r) => ({
+      id: r.id,
+      cycleId: cycle.id,
+      revieweeId: r.revieweeId,
+      reviewerId: r.reviewerId,
+      kind: r.kind as PrismaReviewKind,
+      answers: r.answers as unknown as Prisma.InputJsonValue,
+      rating: r.rating ?? null,
+      submittedAt: r.submittedAt ?? null,
+    }));
+  }
+}
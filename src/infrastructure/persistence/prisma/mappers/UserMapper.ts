@@ -36,6 +36,7 @@ export class UserMapper {
       emergencyContactName: prismaUser.emergencyContactName ?? undefined,
       emergencyContactPhone: prismaUser.emergencyContactPhone ?? undefined,
       performanceRating: prismaUser.performanceRating ?? undefined,
+      managerId: prismaUser.managerId ?? undefined,
       deletedAt: prismaUser.deletedAt ?? undefined,
       createdAt: prismaUser.createdAt,
       updatedAt: prismaUser.updatedAt,
@@ -44,8 +45,12 @@ export class UserMapper {
 
   /**
    * Convert domain entity to Prisma model data
+   * externalId and scimDeletedAt are left out - only SCIM provisioning sets them
    */
-  static toPrisma(user: User): Omit<PrismaUser, 'createdAt' | 'updatedAt'> {
+  static toPrisma(user: User): Omit<
+    PrismaUser,
+    'createdAt' | 'updatedAt' | 'externalId' | 'scimDeletedAt'
+  > {
     return {
       id: user.id,
       organizationId: user.organizationId,
@@ -78,6 +83,7 @@ export class UserMapper {
       emergencyContactName: user.emergencyContactName ?? null,
       emergencyContactPhone: user.emergencyContactPhone ?? null,
       performanceRating: user.performanceRating ?? null,
+      managerId: user.managerId ?? null,
       deletedAt: user.deletedAt ?? null,
     };
   }
@@ -1,10 +1,20 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { IAbsenceRepository } from '../../../../domain/repositories/IAbsenceRepository';
 import { Absence, AbsenceStatus } from '../../../../domain/entities/Absence';
 import { DateRange } from '../../../../domain/value-objects/DateRange';
 import { AbsenceMapper } from '../mappers/AbsenceMapper';
 import { getCurrentTenant, getTenantOrNull } from '@/lib/tenant-context';
 
+/**
+ * Approval chain with each decider's name, loaded with every absence
+ */
+const APPROVAL_STEPS_INCLUDE = {
+  approvalSteps: {
+    orderBy: { position: 'asc' },
+    include: { decidedBy: { select: { name: true } } },
+  },
+} as const satisfies Prisma.AbsenceRequestInclude;
+
 /**
  * Prisma implementation of IAbsenceRepository
  * Handles all database operations for absences
@@ -19,6 +29,7 @@ export class PrismaAbsenceRepository implements IAbsenceRepository {
         id,
         ...(tenant && { organizationId: tenant.organizationId }),
       },
+      include: APPROVAL_STEPS_INCLUDE,
     });
 
     return prismaAbsence ? AbsenceMapper.toDomain(prismaAbsence) : null;
@@ -49,6 +60,7 @@ export class PrismaAbsenceRepository implements IAbsenceRepository {
     const prismaAbsences = await this.prisma.absenceRequest.findMany({
       where,
       orderBy: { startDate: 'desc' },
+      include: APPROVAL_STEPS_INCLUDE,
     });
 
     return prismaAbsences.map((a) => AbsenceMapper.toDomain(a));
@@ -61,6 +73,9 @@ export class PrismaAbsenceRepository implements IAbsenceRepository {
     take?: number;
     includeUser?: boolean;
     department?: string;
+    userIds?: string[];
+    absenceTypeId?: string;
+    overlapping?: DateRange;
   }): Promise<{ absences: Absence[]; total: number; users?: any[] }> {
     const tenant = getTenantOrNull();
     const where: any = {};
@@ -82,8 +97,23 @@ export class PrismaAbsenceRepository implements IAbsenceRepository {
       where.user = { department: options.department };
     }
 
+    // Restrict to specific users (e.g. a manager's reporting line) if provided
+    if (options?.userIds) {
+      where.userId = { in: options.userIds };
+    }
+
+    if (options?.absenceTypeId) {
+      where.absenceTypeId = options.absenceTypeId;
+    }
+
+    if (options?.overlapping) {
+      where.startDate = { lte: options.overlapping.end };
+      where.endDate = { gte: options.overlapping.start };
+    }
+
     const include = options?.includeUser
       ? {
+          ...APPROVAL_STEPS_INCLUDE,
           user: {
             select: {
               id: true,
@@ -94,7 +124,7 @@ export class PrismaAbsenceRepository implements IAbsenceRepository {
             },
           },
         }
-      : undefined;
+      : APPROVAL_STEPS_INCLUDE;
 
     const [prismaAbsences, total] = await Promise.all([
       this.prisma.absenceRequest.findMany({
@@ -136,7 +166,10 @@ export class PrismaAbsenceRepository implements IAbsenceRepository {
       where.organizationId = tenant.organizationId;
     }
 
-    const prismaAbsences = await this.prisma.absenceRequest.findMany({ where });
+    const prismaAbsences = await this.prisma.absenceRequest.findMany({
+      where,
+      include: APPROVAL_STEPS_INCLUDE,
+    });
 
     return prismaAbsences.map((a) => AbsenceMapper.toDomain(a));
   }
@@ -160,6 +193,7 @@ export class PrismaAbsenceRepository implements IAbsenceRepository {
       where,
       orderBy: { startDate: 'asc' },
       take: limit,
+      include: APPROVAL_STEPS_INCLUDE,
     });
 
     return prismaAbsences.map((a) => AbsenceMapper.toDomain(a));
@@ -174,17 +208,38 @@ export class PrismaAbsenceRepository implements IAbsenceRepository {
       throw new Error('Absence organizationId must match current tenant');
     }
 
-    const saved = await this.prisma.absenceRequest.upsert({
-      where: { id: absence.id },
-      create: {
-        ...data,
-        createdAt: absence.createdAt,
-        updatedAt: absence.updatedAt,
-      },
-      update: {
-        ...data,
-        updatedAt: absence.updatedAt,
-      },
+    const steps = AbsenceMapper.stepsToPrisma(absence);
+
+    const saved = await this.prisma.$transaction(async (tx) => {
+      await tx.absenceRequest.upsert({
+        where: { id: absence.id },
+        create: {
+          ...data,
+          createdAt: absence.createdAt,
+          updatedAt: absence.updatedAt,
+        },
+        update: {
+          ...data,
+          updatedAt: absence.updatedAt,
+        },
+      });
+
+      // Persist the approval chain; steps are keyed by their position
+      await tx.absenceApprovalStep.deleteMany({
+        where: { absenceRequestId: absence.id, position: { gte: steps.length } },
+      });
+      for (const step of steps) {
+        await tx.absenceApprovalStep.upsert({
+          where: { absenceRequestId_position: { absenceRequestId: absence.id, position: step.position } },
+          create: { ...step, absenceRequestId: absence.id },
+          update: step,
+        });
+      }
+
+      return tx.absenceRequest.findUniqueOrThrow({
+        where: { id: absence.id },
+        include: APPROVAL_STEPS_INCLUDE,
+      });
     });
 
     return AbsenceMapper.toDomain(saved);
@@ -200,26 +255,41 @@ export class PrismaAbsenceRepository implements IAbsenceRepository {
     });
   }
 
-  async getStatistics(userId: string): Promise<{
+  async getStatistics(userId: string, holidays?: ReadonlySet<string>): Promise<{
     totalDays: number;
     approvedDays: number;
     pendingRequests: number;
     rejectedRequests: number;
+    byType: Array<{
+      absenceTypeId: string | null;
+      requests: number;
+      approvedDays: number;
+    }>;
   }> {
     const absences = await this.findByUserId(userId);
+    const byType = new Map<string | null, { requests: number; approvedDays: number }>();
 
     const stats = absences.reduce(
       (acc, absence) => {
-        acc.totalDays += absence.getTotalDays();
+        const days = absence.getWorkingDays(holidays);
+        acc.totalDays += days;
 
         if (absence.isApproved()) {
-          acc.approvedDays += absence.getTotalDays();
+          acc.approvedDays += days;
         } else if (absence.isPending()) {
           acc.pendingRequests++;
         } else if (absence.isRejected()) {
           acc.rejectedRequests++;
         }
 
+        const typeKey = absence.absenceTypeId ?? null;
+        const typeStats = byType.get(typeKey) ?? { requests: 0, approvedDays: 0 };
+        typeStats.requests++;
+        if (absence.isApproved()) {
+          typeStats.approvedDays += days;
+        }
+        byType.set(typeKey, typeStats);
+
         return acc;
       },
       {
@@ -230,13 +300,19 @@ export class PrismaAbsenceRepository implements IAbsenceRepository {
       }
     );
 
-    return stats;
+    return {
+      ...stats,
+      byType: Array.from(byType.entries()).map(([absenceTypeId, typeStats]) => ({
+        absenceTypeId,
+        ...typeStats,
+      })),
+    };
   }
 
   /**
    * Helper method to map domain status to Prisma enum
    */
-  private mapStatusToPrisma(status: AbsenceStatus): 'PENDING' | 'APPROVED' | 'REJECTED' {
+  private mapStatusToPrisma(status: AbsenceStatus): 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED' {
     switch (status) {
       case AbsenceStatus.PENDING:
         return 'PENDING';
@@ -244,6 +320,8 @@ export class PrismaAbsenceRepository implements IAbsenceRepository {
         return 'APPROVED';
       case AbsenceStatus.REJECTED:
         return 'REJECTED';
+      case AbsenceStatus.CANCELLED:
+        return 'CANCELLED';
       default:
         throw new Error(`Unknown status: ${status}`);
     }
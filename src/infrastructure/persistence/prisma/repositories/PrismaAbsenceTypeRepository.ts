@@ -0,0 +1,83 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { IAbsenceTypeRepository } from '../../../../domain/repositories/IAbsenceTypeRepository';
+import { AbsenceType } from '../../../../domain/entities/AbsenceType';
+import { AbsenceTypeMapper } from '../mappers/AbsenceTypeMapper';
+import { getCurrentTenant, getTenantOrNull } from '@/lib/tenant-context';
+
+/**
+ * Prisma implementation of IAbsenceTypeRepository
+ * Handles all database operations for absence types
+ */
+export class PrismaAbsenceTypeRepository implements IAbsenceTypeRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<AbsenceType | null> {
+    const tenant = getTenantOrNull();
+    const prismaType = await this.prisma.absenceType.findFirst({
+      where: {
+        id,
+        ...(tenant && { organizationId: tenant.organizationId }),
+      },
+    });
+
+    return prismaType ? AbsenceTypeMapper.toDomain(prismaType) : null;
+  }
+
+  async findAll(options?: { includeDeleted?: boolean }): Promise<AbsenceType[]> {
+    const tenant = getTenantOrNull();
+    const where: Prisma.AbsenceTypeWhereInput = {};
+
+    if (tenant) {
+      where.organizationId = tenant.organizationId;
+    }
+
+    if (!options?.includeDeleted) {
+      where.deletedAt = null;
+    }
+
+    const prismaTypes = await this.prisma.absenceType.findMany({
+      where,
+      orderBy: { name: 'asc' },
+    });
+
+    return prismaTypes.map((t) => AbsenceTypeMapper.toDomain(t));
+  }
+
+  async nameExists(name: string, excludeId?: string): Promise<boolean> {
+    const tenant = getCurrentTenant();
+    const count = await this.prisma.absenceType.count({
+      where: {
+        organizationId: tenant.organizationId,
+        name: { equals: name, mode: 'insensitive' },
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+    });
+
+    return count > 0;
+  }
+
+  async save(absenceType: AbsenceType): Promise<AbsenceType> {
+    const tenant = getCurrentTenant(); // Throws if no tenant for mutations
+    const data = AbsenceTypeMapper.toPrisma(absenceType);
+
+    // Ensure organizationId matches tenant
+    if (data.organizationId !== tenant.organizationId) {
+      throw new Error('Absence type organizationId must match current tenant');
+    }
+
+    const saved = await this.prisma.absenceType.upsert({
+      where: { id: absenceType.id },
+      create: {
+        ...data,
+        createdAt: absenceType.createdAt,
+        updatedAt: absenceType.updatedAt,
+      },
+      update: {
+        ...data,
+        updatedAt: absenceType.updatedAt,
+      },
+    });
+
+    return AbsenceTypeMapper.toDomain(saved);
+  }
+}
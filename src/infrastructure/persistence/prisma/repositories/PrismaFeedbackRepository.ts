@@ -1,9 +1,22 @@
-import { PrismaClient } from '@prisma/client';
-import { IFeedbackRepository } from '../../../../domain/repositories/IFeedbackRepository';
+import { PrismaClient, Prisma } from '@prisma/client';
+import {
+  IFeedbackRepository,
+  FeedbackViewer,
+} from '../../../../domain/repositories/IFeedbackRepository';
 import { Feedback } from '../../../../domain/entities/Feedback';
 import { FeedbackMapper } from '../mappers/FeedbackMapper';
 import { getCurrentTenant, getTenantOrNull } from '@/lib/tenant-context';
 
+const FEEDBACK_INCLUDE = {
+  revisions: { orderBy: { editedAt: 'asc' } },
+  replies: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.FeedbackInclude;
+
+// Feedback not held back from its receiver by moderation (mirrors Feedback.isHeldBack)
+const RELEASED_TO_RECEIVER = {
+  OR: [{ moderationStatus: null }, { moderationStatus: 'APPROVED' }],
+} satisfies Prisma.FeedbackWhereInput;
+
 /**
  * Prisma implementation of IFeedbackRepository
  * Handles persistence of Feedback aggregates using Prisma ORM
@@ -17,6 +30,24 @@ import { getCurrentTenant, getTenantOrNull } from '@/lib/tenant-context';
 export class PrismaFeedbackRepository implements IFeedbackRepository {
   constructor(private readonly prisma: PrismaClient) {}
 
+  /**
+   * Restrict a query to feedback the viewer may read (mirrors Feedback.isVisibleTo)
+   */
+  private visibleTo(viewer: FeedbackViewer): Prisma.FeedbackWhereInput {
+    return {
+      OR: [
+        { giverId: viewer.userId },
+        { receiverId: viewer.userId, visibility: { not: 'MANAGER_ONLY' }, ...RELEASED_TO_RECEIVER },
+        ...(viewer.isManager
+          ? [
+              { receiverId: { not: viewer.userId }, visibility: { not: 'MANAGER_ONLY' as const } },
+              { receiverId: { in: [...(viewer.reportIds ?? [])] }, visibility: 'MANAGER_ONLY' as const },
+            ]
+          : []),
+      ],
+    };
+  }
+
   /**
    * Find a feedback by ID
    */
@@ -27,6 +58,7 @@ export class PrismaFeedbackRepository implements IFeedbackRepository {
         id,
         ...(tenant && { organizationId: tenant.organizationId }),
       },
+      include: FEEDBACK_INCLUDE,
     });
 
     return prismaFeedback ? FeedbackMapper.toDomain(prismaFeedback) : null;
@@ -39,6 +71,7 @@ export class PrismaFeedbackRepository implements IFeedbackRepository {
     giverId: string,
     options?: {
       includeDeleted?: boolean;
+      visibleTo?: FeedbackViewer;
       skip?: number;
       take?: number;
     }
@@ -55,6 +88,10 @@ export class PrismaFeedbackRepository implements IFeedbackRepository {
       where.deletedAt = null;
     }
 
+    if (options?.visibleTo) {
+      Object.assign(where, this.visibleTo(options.visibleTo));
+    }
+
     // Execute queries in parallel for performance
     const [prismaFeedback, total] = await Promise.all([
       this.prisma.feedback.findMany({
@@ -62,6 +99,7 @@ export class PrismaFeedbackRepository implements IFeedbackRepository {
         skip: options?.skip,
         take: options?.take,
         orderBy: { createdAt: 'desc' },
+        include: FEEDBACK_INCLUDE,
       }),
       this.prisma.feedback.count({ where }),
     ]);
@@ -79,6 +117,8 @@ export class PrismaFeedbackRepository implements IFeedbackRepository {
     receiverId: string,
     options?: {
       includeDeleted?: boolean;
+      visibleTo?: FeedbackViewer;
+      createdBetween?: { from: Date; to: Date };
       skip?: number;
       take?: number;
     }
@@ -95,6 +135,14 @@ export class PrismaFeedbackRepository implements IFeedbackRepository {
       where.deletedAt = null;
     }
 
+    if (options?.createdBetween) {
+      where.createdAt = { gte: options.createdBetween.from, lte: options.createdBetween.to };
+    }
+
+    if (options?.visibleTo) {
+      Object.assign(where, this.visibleTo(options.visibleTo));
+    }
+
     // Execute queries in parallel for performance
     const [prismaFeedback, total] = await Promise.all([
       this.prisma.feedback.findMany({
@@ -102,6 +150,7 @@ export class PrismaFeedbackRepository implements IFeedbackRepository {
         skip: options?.skip,
         take: options?.take,
         orderBy: { createdAt: 'desc' },
+        include: FEEDBACK_INCLUDE,
       }),
       this.prisma.feedback.count({ where }),
     ]);
@@ -118,6 +167,8 @@ export class PrismaFeedbackRepository implements IFeedbackRepository {
   async findAll(options?: {
     includeDeleted?: boolean;
     isPolished?: boolean;
+    awaitingModeration?: boolean;
+    visibleTo?: FeedbackViewer;
     skip?: number;
     take?: number;
   }): Promise<{ feedbacks: Feedback[]; total: number }> {
@@ -133,11 +184,19 @@ export class PrismaFeedbackRepository implements IFeedbackRepository {
       where.deletedAt = null;
     }
 
+    if (options?.visibleTo) {
+      Object.assign(where, this.visibleTo(options.visibleTo));
+    }
+
     // Filter by polished status if specified
     if (options?.isPolished !== undefined) {
       where.isPolished = options.isPolished;
     }
 
+    if (options?.awaitingModeration) {
+      where.moderationStatus = 'PENDING';
+    }
+
     // Execute queries in parallel for performance
     const [prismaFeedback, total] = await Promise.all([
       this.prisma.feedback.findMany({
@@ -145,6 +204,7 @@ export class PrismaFeedbackRepository implements IFeedbackRepository {
         skip: options?.skip,
         take: options?.take,
         orderBy: { createdAt: 'desc' },
+        include: FEEDBACK_INCLUDE,
       }),
       this.prisma.feedback.count({ where }),
     ]);
@@ -170,6 +230,7 @@ export class PrismaFeedbackRepository implements IFeedbackRepository {
       where,
       orderBy: { createdAt: 'desc' },
       take: limit,
+      include: FEEDBACK_INCLUDE,
     });
 
     return prismaFeedback.map((f) => FeedbackMapper.toDomain(f));
@@ -188,17 +249,34 @@ export class PrismaFeedbackRepository implements IFeedbackRepository {
     }
 
     // Use upsert for idempotency (create if doesn't exist, update if it does)
-    const saved = await this.prisma.feedback.upsert({
-      where: { id: feedback.id },
-      create: {
-        ...data,
-        createdAt: feedback.createdAt,
-        updatedAt: feedback.updatedAt,
-      },
-      update: {
-        ...data,
-        updatedAt: feedback.updatedAt,
-      },
+    // Revisions and replies are append-only, so only new ones are written
+    const saved = await this.prisma.$transaction(async (tx) => {
+      await tx.feedback.upsert({
+        where: { id: feedback.id },
+        create: {
+          ...data,
+          createdAt: feedback.createdAt,
+          updatedAt: feedback.updatedAt,
+        },
+        update: {
+          ...data,
+          updatedAt: feedback.updatedAt,
+        },
+      });
+
+      await tx.feedbackRevision.createMany({
+        data: feedback.revisions.map((r) => FeedbackMapper.revisionToPrisma(feedback.id, r)),
+        skipDuplicates: true,
+      });
+      await tx.feedbackReply.createMany({
+        data: feedback.replies.map((r) => FeedbackMapper.replyToPrisma(feedback.id, r)),
+        skipDuplicates: true,
+      });
+
+      return tx.feedback.findUniqueOrThrow({
+        where: { id: feedback.id },
+        include: FEEDBACK_INCLUDE,
+      });
     });
 
     return FeedbackMapper.toDomain(saved);
@@ -235,6 +313,8 @@ export class PrismaFeedbackRepository implements IFeedbackRepository {
         where: {
           ...orgFilter,
           receiverId: userId,
+          visibility: { not: 'MANAGER_ONLY' },
+          ...RELEASED_TO_RECEIVER,
           deletedAt: null,
         },
       }),
@@ -250,6 +330,8 @@ export class PrismaFeedbackRepository implements IFeedbackRepository {
           ...orgFilter,
           receiverId: userId,
           isPolished: true,
+          visibility: { not: 'MANAGER_ONLY' },
+          ...RELEASED_TO_RECEIVER,
           deletedAt: null,
         },
       }),
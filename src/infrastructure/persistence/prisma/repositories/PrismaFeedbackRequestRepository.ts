@@ -0,0 +1,90 @@
+import { PrismaClient } from '@prisma/client';
+import { IFeedbackRequestRepository } from '../../../../domain/repositories/IFeedbackRequestRepository';
+import { FeedbackRequest } from '../../../../domain/entities/FeedbackRequest';
+import { FeedbackRequestMapper } from '../mappers/FeedbackRequestMapper';
+import { getCurrentTenant, getTenantOrNull } from '@/lib/tenant-context';
+
+/**
+ * Prisma implementation of IFeedbackRequestRepository
+ * Handles all database operations for feedback requests
+ */
+export class PrismaFeedbackRequestRepository implements IFeedbackRequestRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<FeedbackRequest | null> {
+    const tenant = getTenantOrNull();
+    const prismaRequest = await this.prisma.feedbackRequest.findFirst({
+      where: {
+        id,
+        ...(tenant && { organizationId: tenant.organizationId }),
+      },
+    });
+
+    return prismaRequest ? FeedbackRequestMapper.toDomain(prismaRequest) : null;
+  }
+
+  async findByRequesterId(requesterId: string): Promise<FeedbackRequest[]> {
+    const tenant = getTenantOrNull();
+    const prismaRequests = await this.prisma.feedbackRequest.findMany({
+      where: {
+        requesterId,
+        ...(tenant && { organizationId: tenant.organizationId }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return prismaRequests.map((r) => FeedbackRequestMapper.toDomain(r));
+  }
+
+  async findByRecipientId(recipientId: string): Promise<FeedbackRequest[]> {
+    const tenant = getTenantOrNull();
+    const prismaRequests = await this.prisma.feedbackRequest.findMany({
+      where: {
+        recipientId,
+        ...(tenant && { organizationId: tenant.organizationId }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return prismaRequests.map((r) => FeedbackRequestMapper.toDomain(r));
+  }
+
+  async findPending(requesterId: string, recipientId: string): Promise<FeedbackRequest | null> {
+    const tenant = getTenantOrNull();
+    const prismaRequest = await this.prisma.feedbackRequest.findFirst({
+      where: {
+        requesterId,
+        recipientId,
+        status: 'PENDING',
+        ...(tenant && { organizationId: tenant.organizationId }),
+      },
+    });
+
+    return prismaRequest ? FeedbackRequestMapper.toDomain(prismaRequest) : null;
+  }
+
+  async save(request: FeedbackRequest): Promise<FeedbackRequest> {
+    const tenant = getCurrentTenant(); // Throws if no tenant for mutations
+    const data = FeedbackRequestMapper.toPrisma(request);
+
+    // Ensure organizationId matches tenant
+    if (data.organizationId !== tenant.organizationId) {
+      throw new Error('Feedback request organizationId must match current tenant');
+    }
+
+    const saved = await this.prisma.feedbackRequest.upsert({
+      where: { id: request.id },
+      create: {
+        ...data,
+        createdAt: request.createdAt,
+        updatedAt: request.updatedAt,
+      },
+      update: {
+        ...data,
+        updatedAt: request.updatedAt,
+      },
+    });
+
+    return FeedbackRequestMapper.toDomain(saved);
+  }
+}
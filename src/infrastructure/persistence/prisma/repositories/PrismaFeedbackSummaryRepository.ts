@@ -0,0 +1,56 @@
+import { PrismaClient } from '@prisma/client';
+import { IFeedbackSummaryRepository } from '../../../../domain/repositories/IFeedbackSummaryRepository';
+import { FeedbackSummary } from '../../../../domain/entities/FeedbackSummary';
+import { FeedbackSummaryMapper } from '../mappers/FeedbackSummaryMapper';
+import { getCurrentTenant, getTenantOrNull } from '@/lib/tenant-context';
+
+/**
+ * Prisma implementation of IFeedbackSummaryRepository
+ * Handles all database operations for cached feedback summaries
+ */
+export class PrismaFeedbackSummaryRepository implements IFeedbackSummaryRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findForPeriod(
+    subjectId: string,
+    periodStart: Date,
+    periodEnd: Date
+  ): Promise<FeedbackSummary | null> {
+    const tenant = getTenantOrNull();
+    const prismaSummary = await this.prisma.feedbackSummary.findFirst({
+      where: {
+        subjectId,
+        periodStart,
+        periodEnd,
+        ...(tenant && { organizationId: tenant.organizationId }),
+      },
+    });
+
+    return prismaSummary ? FeedbackSummaryMapper.toDomain(prismaSummary) : null;
+  }
+
+  async save(summary: FeedbackSummary): Promise<FeedbackSummary> {
+    const tenant = getCurrentTenant(); // Throws if no tenant for mutations
+    const { id, ...data } = FeedbackSummaryMapper.toPrisma(summary);
+
+    // Ensure organizationId matches tenant
+    if (data.organizationId !== tenant.organizationId) {
+      throw new Error('Feedback summary organizationId must match current tenant');
+    }
+
+    // One summary per user and period - a new summary replaces the stale one
+    const saved = await this.prisma.feedbackSummary.upsert({
+      where: {
+        subjectId_periodStart_periodEnd: {
+          subjectId: summary.subjectId,
+          periodStart: summary.periodStart,
+          periodEnd: summary.periodEnd,
+        },
+      },
+      create: { id, ...data },
+      update: data,
+    });
+
+    return FeedbackSummaryMapper.toDomain(saved);
+  }
+}
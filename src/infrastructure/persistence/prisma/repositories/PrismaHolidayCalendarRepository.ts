@@ -0,0 +1,120 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { IHolidayCalendarRepository } from '../../../../domain/repositories/IHolidayCalendarRepository';
+import { HolidayCalendar } from '../../../../domain/entities/HolidayCalendar';
+import { HolidayCalendarMapper } from '../mappers/HolidayCalendarMapper';
+import { getCurrentTenant, getTenantOrNull } from '@/lib/tenant-context';
+
+const CALENDAR_INCLUDE = {
+  holidays: { orderBy: { date: 'asc' } },
+  users: { select: { id: true } },
+} satisfies Prisma.HolidayCalendarInclude;
+
+/**
+ * Prisma implementation of IHolidayCalendarRepository
+ * Handles all database operations for holiday calendars
+ */
+export class PrismaHolidayCalendarRepository implements IHolidayCalendarRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<HolidayCalendar | null> {
+    const tenant = getTenantOrNull();
+    const prismaCalendar = await this.prisma.holidayCalendar.findFirst({
+      where: {
+        id,
+        ...(tenant && { organizationId: tenant.organizationId }),
+      },
+      include: CALENDAR_INCLUDE,
+    });
+
+    return prismaCalendar ? HolidayCalendarMapper.toDomain(prismaCalendar) : null;
+  }
+
+  async findAll(): Promise<HolidayCalendar[]> {
+    const tenant = getTenantOrNull();
+    const prismaCalendars = await this.prisma.holidayCalendar.findMany({
+      where: tenant ? { organizationId: tenant.organizationId } : {},
+      include: CALENDAR_INCLUDE,
+      orderBy: { name: 'asc' },
+    });
+
+    return prismaCalendars.map((c) => HolidayCalendarMapper.toDomain(c));
+  }
+
+  async findForUser(userId: string, department?: string | null): Promise<HolidayCalendar[]> {
+    const tenant = getTenantOrNull();
+    const prismaCalendars = await this.prisma.holidayCalendar.findMany({
+      where: {
+        ...(tenant && { organizationId: tenant.organizationId }),
+        OR: [
+          { users: { some: { id: userId } } },
+          ...(department ? [{ departments: { has: department } }] : []),
+        ],
+      },
+      include: CALENDAR_INCLUDE,
+      orderBy: { name: 'asc' },
+    });
+
+    return prismaCalendars.map((c) => HolidayCalendarMapper.toDomain(c));
+  }
+
+  async nameExists(name: string, excludeId?: string): Promise<boolean> {
+    const tenant = getCurrentTenant();
+    const count = await this.prisma.holidayCalendar.count({
+      where: {
+        organizationId: tenant.organizationId,
+        name: { equals: name, mode: 'insensitive' },
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+    });
+
+    return count > 0;
+  }
+
+  async save(calendar: HolidayCalendar): Promise<HolidayCalendar> {
+    const tenant = getCurrentTenant(); // Throws if no tenant for mutations
+    const data = HolidayCalendarMapper.toPrisma(calendar);
+
+    // Ensure organizationId matches tenant
+    if (data.organizationId !== tenant.organizationId) {
+      throw new Error('Holiday calendar organizationId must match current tenant');
+    }
+
+    const users = calendar.userIds.map((id) => ({ id }));
+
+    // Holidays are owned by the calendar, so they are replaced as a whole
+    const saved = await this.prisma.$transaction(async (tx) => {
+      await tx.holidayCalendar.upsert({
+        where: { id: calendar.id },
+        create: {
+          ...data,
+          users: { connect: users },
+          createdAt: calendar.createdAt,
+          updatedAt: calendar.updatedAt,
+        },
+        update: {
+          name: data.name,
+          departments: data.departments,
+          users: { set: users },
+          updatedAt: calendar.updatedAt,
+        },
+      });
+
+      await tx.holiday.deleteMany({ where: { calendarId: calendar.id } });
+      await tx.holiday.createMany({ data: HolidayCalendarMapper.holidaysToPrisma(calendar) });
+
+      return tx.holidayCalendar.findUniqueOrThrow({
+        where: { id: calendar.id },
+        include: CALENDAR_INCLUDE,
+      });
+    });
+
+    return HolidayCalendarMapper.toDomain(saved);
+  }
+
+  async delete(id: string): Promise<void> {
+    const tenant = getCurrentTenant();
+    await this.prisma.holidayCalendar.deleteMany({
+      where: { id, organizationId: tenant.organizationId },
+    });
+  }
+}
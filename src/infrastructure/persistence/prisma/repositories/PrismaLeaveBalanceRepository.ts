@@ -0,0 +1,52 @@
+import { PrismaClient } from '@prisma/client';
+import { ILeaveBalanceRepository } from '../../../../domain/repositories/ILeaveBalanceRepository';
+import { LeaveBalance } from '../../../../domain/entities/LeaveBalance';
+import { LeaveBalanceMapper } from '../mappers/LeaveBalanceMapper';
+import { getCurrentTenant, getTenantOrNull } from '@/lib/tenant-context';
+
+/**
+ * Prisma implementation of ILeaveBalanceRepository
+ * Handles all database operations for yearly leave balances
+ */
+export class PrismaLeaveBalanceRepository implements ILeaveBalanceRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findByUserAndYear(userId: string, year: number): Promise<LeaveBalance | null> {
+    const tenant = getTenantOrNull();
+    const prismaBalance = await this.prisma.leaveBalance.findFirst({
+      where: {
+        userId,
+        year,
+        ...(tenant && { organizationId: tenant.organizationId }),
+      },
+    });
+
+    return prismaBalance ? LeaveBalanceMapper.toDomain(prismaBalance) : null;
+  }
+
+  async save(balance: LeaveBalance): Promise<LeaveBalance> {
+    const tenant = getCurrentTenant(); // Throws if no tenant for mutations
+    const data = LeaveBalanceMapper.toPrisma(balance);
+
+    // Ensure organizationId matches tenant
+    if (data.organizationId !== tenant.organizationId) {
+      throw new Error('Leave balance organizationId must match current tenant');
+    }
+
+    const saved = await this.prisma.leaveBalance.upsert({
+      where: { id: balance.id },
+      create: {
+        ...data,
+        createdAt: balance.createdAt,
+        updatedAt: balance.updatedAt,
+      },
+      update: {
+        annualAllowance: data.annualAllowance,
+        carriedOverDays: data.carriedOverDays,
+        updatedAt: balance.updatedAt,
+      },
+    });
+
+    return LeaveBalanceMapper.toDomain(saved);
+  }
+}
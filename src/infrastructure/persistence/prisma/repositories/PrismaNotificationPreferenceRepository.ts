@@ -0,0 +1,51 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { INotificationPreferenceRepository } from '../../../../domain/repositories/INotificationPreferenceRepository';
+import { NotificationPreferences } from '../../../../domain/value-objects/NotificationPreferences';
+import { getCurrentTenant, getTenantOrNull } from '@/lib/tenant-context';
+
+/**
+ * Prisma implementation of INotificationPreferenceRepository
+ * Stores the channels a user changed from the defaults, one row per user
+ */
+export class PrismaNotificationPreferenceRepository implements INotificationPreferenceRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findByUserId(userId: string): Promise<NotificationPreferences> {
+    const tenant = getTenantOrNull();
+    const prismaPreference = await this.prisma.notificationPreference.findFirst({
+      where: {
+        userId,
+        ...(tenant && { organizationId: tenant.organizationId }),
+      },
+    });
+
+    return NotificationPreferences.create(
+      prismaPreference?.channels as Record<string, unknown> | undefined
+    );
+  }
+
+  async save(
+    userId: string,
+    preferences: NotificationPreferences
+  ): Promise<NotificationPreferences> {
+    const tenant = getCurrentTenant(); // Throws if no tenant for mutations
+    const channels = preferences.toJSON() as unknown as Prisma.InputJsonValue;
+
+    // Ensure the user belongs to the current tenant
+    const user = await this.prisma.user.findFirst({
+      where: { id: userId, organizationId: tenant.organizationId },
+      select: { id: true },
+    });
+    if (!user) {
+      throw new Error('Notification preference user must belong to current tenant');
+    }
+
+    const saved = await this.prisma.notificationPreference.upsert({
+      where: { userId },
+      create: { organizationId: tenant.organizationId, userId, channels },
+      update: { channels },
+    });
+
+    return NotificationPreferences.create(saved.channels as Record<string, unknown>);
+  }
+}
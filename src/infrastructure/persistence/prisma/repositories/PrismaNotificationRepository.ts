@@ -64,6 +64,46 @@ export class PrismaNotificationRepository implements INotificationRepository {
     };
   }
 
+  /**
+   * Find a user's notifications created after the given one, oldest first
+   */
+  async findCreatedAfter(
+    userId: string,
+    notificationId: string,
+    take: number
+  ): Promise<Notification[]> {
+    const tenant = getTenantOrNull();
+    const where: any = { userId };
+
+    if (tenant) {
+      where.organizationId = tenant.organizationId;
+    }
+
+    const anchor = await this.prisma.notification.findFirst({
+      where: { ...where, id: notificationId },
+      select: { id: true, createdAt: true },
+    });
+
+    if (!anchor) {
+      return [];
+    }
+
+    // Notifications created in the same millisecond are told apart by id
+    const prismaNotifications = await this.prisma.notification.findMany({
+      where: {
+        ...where,
+        OR: [
+          { createdAt: { gt: anchor.createdAt } },
+          { createdAt: anchor.createdAt, id: { gt: anchor.id } },
+        ],
+      },
+      take,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    return prismaNotifications.map((n) => NotificationMapper.toDomain(n));
+  }
+
   /**
    * Get unread notification count for a user
    */
@@ -81,6 +121,38 @@ export class PrismaNotificationRepository implements INotificationRepository {
     return this.prisma.notification.count({ where });
   }
 
+  /**
+   * Find notifications waiting for the daily digest, oldest first
+   * Runs without a tenant for the scheduled digest job
+   */
+  async findDigestPending(take: number): Promise<Notification[]> {
+    const tenant = getTenantOrNull();
+    const prismaNotifications = await this.prisma.notification.findMany({
+      where: {
+        digestPending: true,
+        ...(tenant && { organizationId: tenant.organizationId }),
+      },
+      take,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return prismaNotifications.map((n) => NotificationMapper.toDomain(n));
+  }
+
+  /**
+   * Take notifications out of the daily digest queue
+   */
+  async clearDigestPending(ids: string[]): Promise<void> {
+    const tenant = getTenantOrNull();
+    await this.prisma.notification.updateMany({
+      where: {
+        id: { in: ids },
+        ...(tenant && { organizationId: tenant.organizationId }),
+      },
+      data: { digestPending: false },
+    });
+  }
+
   /**
    * Save (create or update) a notification
    */
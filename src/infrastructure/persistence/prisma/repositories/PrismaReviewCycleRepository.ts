@@ -0,0 +1,110 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { IReviewCycleRepository } from '../../../../domain/repositories/IReviewCycleRepository';
+import { ReviewCycle } from '../../../../domain/entities/ReviewCycle';
+import { ReviewCycleMapper } from '../mappers/ReviewCycleMapper';
+import { getCurrentTenant, getTenantOrNull } from '@/lib/tenant-context';
+
+const CYCLE_INCLUDE = {
+  participants: true,
+  reviews: true,
+} satisfies Prisma.ReviewCycleInclude;
+
+/**
+ * Prisma implementation of IReviewCycleRepository
+ * Handles all database operations for review cycles
+ */
+export class PrismaReviewCycleRepository implements IReviewCycleRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<ReviewCycle | null> {
+    const tenant = getTenantOrNull();
+    const prismaCycle = await this.prisma.reviewCycle.findFirst({
+      where: {
+        id,
+        ...(tenant && { organizationId: tenant.organizationId }),
+      },
+      include: CYCLE_INCLUDE,
+    });
+
+    return prismaCycle ? ReviewCycleMapper.toDomain(prismaCycle) : null;
+  }
+
+  async findAll(): Promise<ReviewCycle[]> {
+    const tenant = getTenantOrNull();
+    const prismaCycles = await this.prisma.reviewCycle.findMany({
+      where: tenant ? { organizationId: tenant.organizationId } : {},
+      include: CYCLE_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return prismaCycles.map((c) => ReviewCycleMapper.toDomain(c));
+  }
+
+  async findInvolving(userId: string): Promise<ReviewCycle[]> {
+    const tenant = getTenantOrNull();
+    const prismaCycles = await this.prisma.reviewCycle.findMany({
+      where: {
+        ...(tenant && { organizationId: tenant.organizationId }),
+        OR: [
+          { participants: { some: { OR: [{ userId }, { managerId: userId }] } } },
+          { reviews: { some: { reviewerId: userId } } },
+        ],
+      },
+      include: CYCLE_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return prismaCycles.map((c) => ReviewCycleMapper.toDomain(c));
+  }
+
+  async save(cycle: ReviewCycle): Promise<ReviewCycle> {
+    const tenant = getCurrentTenant(); // Throws if no tenant for mutations
+    const data = ReviewCycleMapper.toPrisma(cycle);
+
+    // Ensure organizationId matches tenant
+    if (data.organizationId !== tenant.organizationId) {
+      throw new Error('Review cycle organizationId must match current tenant');
+    }
+
+    // Participants and reviews are owned by the cycle, so they are replaced as a whole
+    const saved = await this.prisma.$transaction(async (tx) => {
+      await tx.reviewCycle.upsert({
+        where: { id: cycle.id },
+        create: {
+          ...data,
+          createdAt: cycle.createdAt,
+          updatedAt: cycle.updatedAt,
+        },
+        update: {
+          name: data.name,
+          status: data.status,
+          questions: data.questions,
+          deadline: data.deadline,
+          openedAt: data.openedAt,
+          closedAt: data.closedAt,
+          updatedAt: cycle.updatedAt,
+        },
+      });
+
+      await tx.reviewParticipant.deleteMany({ where: { cycleId: cycle.id } });
+      await tx.reviewParticipant.createMany({ data: ReviewCycleMapper.participantsToPrisma(cycle) });
+
+      await tx.review.deleteMany({ where: { cycleId: cycle.id } });
+      await tx.review.createMany({ data: ReviewCycleMapper.reviewsToPrisma(cycle) });
+
+      return tx.reviewCycle.findUniqueOrThrow({
+        where: { id: cycle.id },
+        include: CYCLE_INCLUDE,
+      });
+    });
+
+    return ReviewCycleMapper.toDomain(saved);
+  }
+
+  async delete(id: string): Promise<void> {
+    const tenant = getCurrentTenant();
+    await this.prisma.reviewCycle.deleteMany({
+      where: { id, organizationId: tenant.organizationId },
+    });
+  }
+}
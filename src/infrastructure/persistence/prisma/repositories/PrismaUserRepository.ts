@@ -155,6 +155,55 @@ export class PrismaUserRepository implements IUserRepository {
     return { users, total };
   }
 
+  /**
+   * Walk the reporting line down from a manager, one level per query
+   * Visited IDs are tracked so a malformed (cyclic) hierarchy cannot loop
+   */
+  async findReportIds(managerId: string): Promise<Set<string>> {
+    const tenant = getTenantOrNull();
+    const reportIds = new Set<string>();
+    let frontier = [managerId];
+
+    while (frontier.length > 0) {
+      const reports = await this.prisma.user.findMany({
+        where: {
+          managerId: { in: frontier },
+          ...(tenant && { organizationId: tenant.organizationId }),
+        },
+        select: { id: true },
+      });
+
+      frontier = [];
+      for (const { id } of reports) {
+        if (id !== managerId && !reportIds.has(id)) {
+          reportIds.add(id);
+          frontier.push(id);
+        }
+      }
+    }
+
+    return reportIds;
+  }
+
+  /**
+   * Walk the reporting line up from a user to the top of the hierarchy
+   */
+  async findManagerChain(userId: string): Promise<User[]> {
+    const chain: User[] = [];
+    const visited = new Set<string>([userId]);
+    let current = await this.findById(userId);
+
+    while (current?.managerId && !visited.has(current.managerId)) {
+      visited.add(current.managerId);
+      current = await this.findById(current.managerId);
+      if (current) {
+        chain.push(current);
+      }
+    }
+
+    return chain;
+  }
+
   /**
    * Get all unique departments from active users
    */
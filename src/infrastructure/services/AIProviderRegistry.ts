@@ -0,0 +1,48 @@
+import {
+  AIProviderName,
+  IAIProviderRegistry,
+  IAIService,
+} from '../../application/ports/IAIService';
+
+/**
+ * AI provider registry
+ * Holds the AI services of a deployment and picks one per request
+ *
+ * Resolution order:
+ * 1. The preferred provider (usually the organization's setting), if configured
+ * 2. The deployment default (AI_PROVIDER), if configured
+ * 3. The first configured provider in registration order
+ */
+export class AIProviderRegistry implements IAIProviderRegistry {
+  private readonly services: Map<AIProviderName, IAIService>;
+
+  constructor(
+    services: IAIService[],
+    private readonly defaultProvider: string
+  ) {
+    if (services.length === 0) {
+      throw new Error('At least one AI provider must be registered');
+    }
+    this.services = new Map(services.map((service) => [service.provider, service]));
+  }
+
+  resolve(preferred?: string): IAIService {
+    for (const name of [preferred, this.defaultProvider]) {
+      const service = name ? this.services.get(name as AIProviderName) : undefined;
+      if (service?.isAvailable()) {
+        return service;
+      }
+    }
+
+    const available = Array.from(this.services.values()).find((service) => service.isAvailable());
+    return available ?? this.services.values().next().value!;
+  }
+
+  list(): Array<{ provider: AIProviderName; available: boolean; isDefault: boolean }> {
+    return Array.from(this.services.values()).map((service) => ({
+      provider: service.provider,
+      available: service.isAvailable(),
+      isDefault: service.provider === this.defaultProvider,
+    }));
+  }
+}
@@ -1,5 +1,16 @@
-import { IAIService } from '../../application/ports/IAIService';
-import { polishFeedback, isHuggingFaceConfigured, isValidForAIPolishing } from '../../../lib/ai/huggingface';
+import {
+  FeedbackForSummary,
+  FeedbackSummaryContent,
+  IAIService,
+} from '../../application/ports/IAIService';
+import { ScreeningCategory } from '../../domain/value-objects/FeedbackScreening';
+import {
+  polishFeedback,
+  screenFeedback,
+  summarizeFeedback,
+  isHuggingFaceConfigured,
+  isValidForAIPolishing,
+} from '../../../lib/ai/huggingface';
 
 /**
  * HuggingFace implementation of IAIService interface
@@ -10,11 +21,14 @@ import { polishFeedback, isHuggingFaceConfigured, isValidForAIPolishing } from '
  *
  * Features:
  * - Feedback text polishing and improvement
+ * - Feedback summaries citing the feedback they are drawn from
  * - Graceful degradation (returns original content if AI fails)
  * - Retry logic with exponential backoff
  * - Input validation for content length
  */
 export class HuggingFaceAIService implements IAIService {
+  readonly provider = 'huggingface' as const;
+
   /**
    * Polishes feedback text using HuggingFace AI
    * Makes the feedback more constructive, professional, and actionable
@@ -37,6 +51,29 @@ export class HuggingFaceAIService implements IAIService {
     return polishFeedback(content, maxRetries);
   }
 
+  /**
+   * Screens feedback text for personal attacks, protected characteristics and profanity
+   * Uses the local lexicon when the API key is missing or the model fails
+   *
+   * @param content - Feedback text to screen
+   * @returns Categories the text was flagged for
+   */
+  async screenFeedback(content: string): Promise<ScreeningCategory[]> {
+    const categories = await screenFeedback(content);
+    return categories.map((category) => ScreeningCategory[category]);
+  }
+
+  /**
+   * Summarizes feedback into themes, strengths and growth areas
+   * Uses the rule-based summary when the API key is missing or the model fails
+   *
+   * @param feedback - Feedback to summarize
+   * @returns Summary citing the feedback each point is drawn from
+   */
+  async summarizeFeedback(feedback: FeedbackForSummary[]): Promise<FeedbackSummaryContent> {
+    return summarizeFeedback(feedback);
+  }
+
   /**
    * Checks if HuggingFace AI service is configured and available
    *
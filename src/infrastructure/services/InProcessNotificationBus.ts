@@ -0,0 +1,28 @@
+import { EventEmitter } from 'events';
+import { INotificationBus } from '../../application/ports/INotificationBus';
+import { NotificationDTO } from '../../application/dtos/NotificationDTO';
+
+/**
+ * In-process implementation of INotificationBus
+ * Fans notifications out to the connections open on this server instance.
+ * Connections on other instances catch up through backfill when they reconnect.
+ */
+export class InProcessNotificationBus implements INotificationBus {
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open tab - there is no meaningful upper bound
+    this.emitter.setMaxListeners(0);
+  }
+
+  async publish(notification: NotificationDTO): Promise<void> {
+    this.emitter.emit(notification.userId, notification);
+  }
+
+  subscribe(userId: string, listener: (notification: NotificationDTO) => void): () => void {
+    this.emitter.on(userId, listener);
+    return () => {
+      this.emitter.off(userId, listener);
+    };
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  FeedbackForSummary,
+  FeedbackSummaryContent,
+  IAIService,
+} from '../../application/ports/IAIService';
+import { ScreeningCategory } from '../../domain/value-objects/FeedbackScreening';
+import {
+  polishFeedbackWithOpenAICompatible,
+  screenFeedbackWithOpenAICompatible,
+  summarizeFeedbackWithOpenAICompatible,
+  isOpenAICompatibleConfigured,
+} from '../../../lib/ai/openai-compatible';
+import { isValidForAIPolishing } from '../../../lib/ai/huggingface';
+
+/**
+ * OpenAI-compatible implementation of IAIService interface
+ * Talks to any /chat/completions endpoint configured with AI_OPENAI_BASE_URL,
+ * such as a local inference server for deployments without outbound network
+ *
+ * Features:
+ * - Same prompt and output cleanup as the HuggingFace provider
+ * - Graceful degradation (returns original content if the endpoint fails)
+ * - Retry logic with exponential backoff and a per-request timeout
+ */
+export class OpenAICompatibleAIService implements IAIService {
+  readonly provider = 'openai-compatible' as const;
+
+  /**
+   * Polishes feedback text using the configured endpoint
+   *
+   * @param content - Original feedback text to polish
+   * @param maxRetries - Maximum number of retry attempts (default: 3)
+   * @returns Polished feedback text, or original content if the endpoint fails
+   */
+  async polishFeedback(content: string, maxRetries?: number): Promise<string> {
+    if (!isValidForAIPolishing(content)) {
+      return content;
+    }
+
+    return polishFeedbackWithOpenAICompatible(content, maxRetries);
+  }
+
+  /**
+   * Screens feedback text for personal attacks, protected characteristics and profanity
+   * Uses the local lexicon when the endpoint fails
+   *
+   * @param content - Feedback text to screen
+   * @returns Categories the text was flagged for
+   */
+  async screenFeedback(content: string): Promise<ScreeningCategory[]> {
+    const categories = await screenFeedbackWithOpenAICompatible(content);
+    return categories.map((category) => ScreeningCategory[category]);
+  }
+
+  /**
+   * Summarizes feedback into themes, strengths and growth areas
+   * Uses the rule-based summary when the endpoint fails
+   *
+   * @param feedback - Feedback to summarize
+   * @returns Summary citing the feedback each point is drawn from
+   */
+  async summarizeFeedback(feedback: FeedbackForSummary[]): Promise<FeedbackSummaryContent> {
+    return summarizeFeedbackWithOpenAICompatible(feedback);
+  }
+
+  /**
+   * Checks if an endpoint is configured
+   *
+   * @returns true if AI_OPENAI_BASE_URL is set, false otherwise
+   */
+  isAvailable(): boolean {
+    return isOpenAICompatibleConfigured();
+  }
+}
@@ -0,0 +1,59 @@
+import {
+  INotificationMailer,
+  NotificationEmail,
+  NotificationRecipient,
+} from '../../application/ports/INotificationMailer';
+import { NotificationDTO } from '../../application/dtos/NotificationDTO';
+import { sendEmail, SendEmailResult } from '../../../lib/email';
+import { sendNotificationDigestEmail, sendNotificationEmail } from '../../../lib/email/send-emails';
+
+/**
+ * Page a notification type links to
+ */
+function pathFor(type: string): string {
+  if (type.startsWith('FEEDBACK_')) return '/dashboard/feedback';
+  if (type.startsWith('ABSENCE_')) return '/dashboard/absences';
+  if (type.startsWith('REVIEW_')) return '/dashboard/reviews';
+  return '/dashboard';
+}
+
+function assertSent(result: SendEmailResult): void {
+  if (!result.success) {
+    throw new Error(result.error ?? 'Failed to send email');
+  }
+}
+
+/**
+ * Resend implementation of INotificationMailer
+ * Wraps the email helpers in lib/email; notifications without an email of their
+ * own get the generic notification template
+ */
+export class ResendNotificationMailer implements INotificationMailer {
+  async sendNotification(
+    recipient: NotificationRecipient,
+    notification: NotificationDTO,
+    email?: NotificationEmail
+  ): Promise<void> {
+    assertSent(
+      email
+        ? await sendEmail({ to: recipient.email, ...email })
+        : await sendNotificationEmail(
+            recipient.email,
+            recipient.name,
+            notification.title,
+            notification.message,
+            pathFor(notification.type)
+          )
+    );
+  }
+
+  async sendDigest(
+    recipient: NotificationRecipient,
+    notifications: NotificationDTO[],
+    moreCount: number
+  ): Promise<void> {
+    assertSent(
+      await sendNotificationDigestEmail(recipient.email, recipient.name, notifications, moreCount)
+    );
+  }
+}
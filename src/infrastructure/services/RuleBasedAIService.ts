@@ -0,0 +1,56 @@
+import {
+  FeedbackForSummary,
+  FeedbackSummaryContent,
+  IAIService,
+} from '../../application/ports/IAIService';
+import { ScreeningCategory } from '../../domain/value-objects/FeedbackScreening';
+import { polishFeedbackWithRules } from '../../../lib/ai/rule-based';
+import { screenWithLexicon } from '../../../lib/ai/screening';
+import { summarizeWithRules } from '../../../lib/ai/summary';
+
+/**
+ * Rule-based implementation of IAIService interface
+ * Deterministic offline fallback: softens harsh wording, tidies up the text,
+ * screens it against a fixed lexicon and summarizes feedback from its types,
+ * competencies and ratings without calling any model, so it is always available
+ */
+export class RuleBasedAIService implements IAIService {
+  readonly provider = 'rule-based' as const;
+
+  /**
+   * Polishes feedback text with fixed rewrite rules
+   *
+   * @param content - Original feedback text to polish
+   * @returns Polished feedback text
+   */
+  async polishFeedback(content: string): Promise<string> {
+    return polishFeedbackWithRules(content);
+  }
+
+  /**
+   * Screens feedback text against the local lexicon
+   *
+   * @param content - Feedback text to screen
+   * @returns Categories the text was flagged for
+   */
+  async screenFeedback(content: string): Promise<ScreeningCategory[]> {
+    return screenWithLexicon(content).map((category) => ScreeningCategory[category]);
+  }
+
+  /**
+   * Summarizes feedback from its types, competency tags and ratings
+   *
+   * @param feedback - Feedback to summarize
+   * @returns Summary citing the feedback each point is drawn from
+   */
+  async summarizeFeedback(feedback: FeedbackForSummary[]): Promise<FeedbackSummaryContent> {
+    return summarizeWithRules(feedback);
+  }
+
+  /**
+   * Always available - needs no configuration or network
+   */
+  isAvailable(): boolean {
+    return true;
+  }
+}
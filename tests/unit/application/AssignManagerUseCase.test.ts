@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AssignManagerUseCase } from '@/src/application/use-cases/user/AssignManagerUseCase';
+import { User, Role } from '@/src/domain/entities/User';
+import { Email } from '@/src/domain/value-objects/Email';
+import type { IUserRepository } from '@/src/domain/repositories/IUserRepository';
+import type { ILogger } from '@/src/application/ports/ILogger';
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as ILogger;
+
+function user(id: string, role: Role, managerId?: string, organizationId = 'org-1'): User {
+  return User.create({
+    id,
+    organizationId,
+    email: Email.create(`${id}@example.com`),
+    name: id,
+    role,
+    managerId,
+  });
+}
+
+/**
+ * Org chart used by every test:
+ *
+ *   ceo
+ *   ├── alice (manager) ── dev
+ *   └── bob (manager) ──── ops
+ *   newcomer (unassigned)
+ */
+function setup() {
+  const users = new Map(
+    [
+      user('ceo', Role.MANAGER),
+      user('alice', Role.MANAGER, 'ceo'),
+      user('dev', Role.EMPLOYEE, 'alice'),
+      user('bob', Role.MANAGER, 'ceo'),
+      user('ops', Role.EMPLOYEE, 'bob'),
+      user('newcomer', Role.EMPLOYEE),
+      user('outsider', Role.EMPLOYEE, undefined, 'org-2'),
+    ].map((u) => [u.id, u])
+  );
+
+  const findReportIds = async (managerId: string): Promise<Set<string>> => {
+    const ids = new Set<string>();
+    const queue = [managerId];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const candidate of users.values()) {
+        if (candidate.managerId === current && !ids.has(candidate.id)) {
+          ids.add(candidate.id);
+          queue.push(candidate.id);
+        }
+      }
+    }
+    return ids;
+  };
+
+  const userRepository = {
+    findById: vi.fn(async (id: string) => users.get(id) ?? null),
+    findReportIds: vi.fn(findReportIds),
+    save: vi.fn(async (u: User) => u),
+  } as unknown as IUserRepository;
+
+  return { useCase: new AssignManagerUseCase(userRepository, logger), userRepository };
+}
+
+describe('AssignManagerUseCase', () => {
+  it('should let a manager move a report under another of their reports', async () => {
+    const { useCase } = setup();
+
+    const result = await useCase.execute({ requesterId: 'ceo', userId: 'ops', managerId: 'alice' });
+
+    expect(result.managerId).toBe('alice');
+  });
+
+  it('should let a manager take on an unassigned user', async () => {
+    const { useCase } = setup();
+
+    const result = await useCase.execute({
+      requesterId: 'alice',
+      userId: 'newcomer',
+      managerId: 'alice',
+    });
+
+    expect(result.managerId).toBe('alice');
+  });
+
+  it('should reject re-parenting someone outside the requester’s reporting line', async () => {
+    const { useCase, userRepository } = setup();
+
+    await expect(
+      useCase.execute({ requesterId: 'alice', userId: 'ops', managerId: 'alice' })
+    ).rejects.toThrow('You can only change the reporting line of people who report to you');
+    expect(userRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should reject taking over a peer, or an unassigned manager with their own reports', async () => {
+    const { useCase } = setup();
+
+    await expect(
+      useCase.execute({ requesterId: 'alice', userId: 'bob', managerId: 'alice' })
+    ).rejects.toThrow('You can only change the reporting line of people who report to you');
+    await expect(
+      useCase.execute({ requesterId: 'alice', userId: 'ceo', managerId: 'alice' })
+    ).rejects.toThrow('You can only change the reporting line of people who report to you');
+  });
+
+  it('should reject clearing the manager of someone outside the reporting line', async () => {
+    const { useCase } = setup();
+
+    await expect(
+      useCase.execute({ requesterId: 'alice', userId: 'ops', managerId: null })
+    ).rejects.toThrow('You can only change the reporting line of people who report to you');
+  });
+
+  it('should reject a new manager outside the requester’s reporting line', async () => {
+    const { useCase, userRepository } = setup();
+
+    await expect(
+      useCase.execute({ requesterId: 'alice', userId: 'dev', managerId: 'bob' })
+    ).rejects.toThrow('The new manager must be you or someone who reports to you');
+    await expect(
+      useCase.execute({ requesterId: 'alice', userId: 'newcomer', managerId: 'bob' })
+    ).rejects.toThrow('The new manager must be you or someone who reports to you');
+    expect(userRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should reject users from another organization', async () => {
+    const { useCase } = setup();
+
+    await expect(
+      useCase.execute({ requesterId: 'alice', userId: 'outsider', managerId: 'alice' })
+    ).rejects.toThrow('User not found');
+  });
+
+  it('should reject employees', async () => {
+    const { useCase } = setup();
+
+    await expect(
+      useCase.execute({ requesterId: 'dev', userId: 'newcomer', managerId: 'dev' })
+    ).rejects.toThrow('Only managers can change reporting lines');
+  });
+
+  it('should still prevent reporting line cycles', async () => {
+    const { useCase } = setup();
+
+    await expect(
+      useCase.execute({ requesterId: 'ceo', userId: 'alice', managerId: 'dev' })
+    ).rejects.toThrow('dev already reports to alice');
+  });
+});
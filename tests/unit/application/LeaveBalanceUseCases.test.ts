@@ -0,0 +1,219 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GetLeaveBalanceUseCase } from '@/src/application/use-cases/absence/GetLeaveBalanceUseCase';
+import { CreateAbsenceUseCase } from '@/src/application/use-cases/absence/CreateAbsenceUseCase';
+import type { GetTeamCoverageUseCase } from '@/src/application/use-cases/absence/GetTeamCoverageUseCase';
+import { Absence, AbsenceStatus } from '@/src/domain/entities/Absence';
+import { AbsenceType, AbsenceCategory } from '@/src/domain/entities/AbsenceType';
+import { HolidayCalendar } from '@/src/domain/entities/HolidayCalendar';
+import { LeaveBalance } from '@/src/domain/entities/LeaveBalance';
+import type { User } from '@/src/domain/entities/User';
+import { DateRange } from '@/src/domain/value-objects/DateRange';
+import { DayPart } from '@/src/domain/value-objects/DayPart';
+import type { LeavePolicyProps } from '@/src/domain/value-objects/LeavePolicy';
+import type { IAbsenceRepository } from '@/src/domain/repositories/IAbsenceRepository';
+import type { IAbsenceTypeRepository } from '@/src/domain/repositories/IAbsenceTypeRepository';
+import type { IHolidayCalendarRepository } from '@/src/domain/repositories/IHolidayCalendarRepository';
+import type { ILeaveBalanceRepository } from '@/src/domain/repositories/ILeaveBalanceRepository';
+import type { IOrganizationRepository } from '@/src/domain/repositories/IOrganizationRepository';
+import type { IUserRepository } from '@/src/domain/repositories/IUserRepository';
+import type { ILogger } from '@/src/application/ports/ILogger';
+import { withTenantAsync } from '@/lib/tenant-context';
+
+const TENANT = { organizationId: 'org-1', organizationSlug: 'acme', organizationName: 'Acme' };
+const USER_ID = 'user-1';
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as ILogger;
+
+const day = (key: string) => new Date(`${key}T00:00:00`);
+
+function absence(
+  start: string,
+  end: string,
+  status: AbsenceStatus,
+  absenceTypeId?: string
+): Absence {
+  return Absence.reconstitute({
+    id: crypto.randomUUID(),
+    organizationId: TENANT.organizationId,
+    userId: USER_ID,
+    dateRange: DateRange.create(day(start), day(end)),
+    dayPart: DayPart.fullDay(),
+    reason: 'Family trip abroad',
+    absenceTypeId,
+    status,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+}
+
+function setup(options: {
+  absences?: Absence[];
+  types?: AbsenceType[];
+  holidays?: string[];
+  balances?: LeaveBalance[];
+  leavePolicy?: Partial<LeavePolicyProps>;
+}) {
+  const balances = [...(options.balances ?? [])];
+  const user = {
+    id: USER_ID,
+    organizationId: TENANT.organizationId,
+    department: 'Engineering',
+    isDeleted: () => false,
+  } as unknown as User;
+
+  const leaveBalanceRepository = {
+    findByUserAndYear: vi.fn(async (userId: string, year: number) =>
+      balances.find((b) => b.userId === userId && b.year === year) ?? null
+    ),
+    save: vi.fn(async (balance: LeaveBalance) => {
+      balances.push(balance);
+      return balance;
+    }),
+  } as unknown as ILeaveBalanceRepository;
+  const absenceRepository = {
+    findByUserId: vi.fn(async () => options.absences ?? []),
+    findOverlapping: vi.fn(async () => []),
+    save: vi.fn(async (a: Absence) => a),
+  } as unknown as IAbsenceRepository;
+  const absenceTypeRepository = {
+    findAll: vi.fn(async () => options.types ?? []),
+    findById: vi.fn(async (id: string) => options.types?.find((t) => t.id === id) ?? null),
+  } as unknown as IAbsenceTypeRepository;
+  const organizationRepository = {
+    findById: vi.fn(async () => ({ settings: { leavePolicy: options.leavePolicy } })),
+  } as unknown as IOrganizationRepository;
+  const userRepository = {
+    findById: vi.fn(async () => user),
+  } as unknown as IUserRepository;
+  const holidayCalendarRepository = {
+    findForUser: vi.fn(async () => [
+      HolidayCalendar.create({
+        organizationId: TENANT.organizationId,
+        name: 'Public holidays',
+        holidays: (options.holidays ?? []).map((date) => ({ date, name: 'Holiday' })),
+      }),
+    ]),
+  } as unknown as IHolidayCalendarRepository;
+
+  const getLeaveBalance = new GetLeaveBalanceUseCase(
+    leaveBalanceRepository,
+    absenceRepository,
+    absenceTypeRepository,
+    organizationRepository,
+    userRepository,
+    holidayCalendarRepository,
+    logger
+  );
+  const createAbsence = new CreateAbsenceUseCase(
+    absenceRepository,
+    userRepository,
+    absenceTypeRepository,
+    holidayCalendarRepository,
+    organizationRepository,
+    getLeaveBalance,
+    { checkRequest: vi.fn(async () => undefined) } as unknown as GetTeamCoverageUseCase,
+    logger
+  );
+
+  return { getLeaveBalance, createAbsence, leaveBalanceRepository };
+}
+
+describe('GetLeaveBalanceUseCase', () => {
+  it('should deduct approved working days and report pending ones separately', async () => {
+    const { getLeaveBalance } = setup({
+      absences: [
+        absence('2030-01-07', '2030-01-11', AbsenceStatus.APPROVED), // 5 working days
+        absence('2030-02-04', '2030-02-05', AbsenceStatus.PENDING), // 2 working days
+        absence('2030-03-04', '2030-03-04', AbsenceStatus.REJECTED),
+      ],
+    });
+
+    const balance = await withTenantAsync(TENANT, () =>
+      getLeaveBalance.execute({ userId: USER_ID, year: 2030, asOf: day('2030-06-01') })
+    );
+
+    expect(balance.usedDays).toBe(5);
+    expect(balance.pendingDays).toBe(2);
+    expect(balance.remainingDays).toBe(20);
+  });
+
+  it('should skip holidays the user observes', async () => {
+    const { getLeaveBalance } = setup({
+      absences: [absence('2030-01-07', '2030-01-11', AbsenceStatus.APPROVED)],
+      holidays: ['2030-01-09'],
+    });
+
+    const balance = await withTenantAsync(TENANT, () =>
+      getLeaveBalance.execute({ userId: USER_ID, year: 2030 })
+    );
+
+    expect(balance.usedDays).toBe(4);
+  });
+
+  it('should ignore absence types that do not count against the allowance', async () => {
+    const sick = AbsenceType.create({
+      organizationId: TENANT.organizationId,
+      name: 'Sick Leave',
+      category: AbsenceCategory.SICK,
+      color: '#ef4444',
+      requiresApproval: false,
+      countsAgainstAllowance: false,
+    });
+    const { getLeaveBalance } = setup({
+      absences: [absence('2030-01-07', '2030-01-11', AbsenceStatus.APPROVED, sick.id)],
+      types: [sick],
+    });
+
+    const balance = await withTenantAsync(TENANT, () =>
+      getLeaveBalance.execute({ userId: USER_ID, year: 2030 })
+    );
+
+    expect(balance.usedDays).toBe(0);
+  });
+
+  it('should open a new year with capped carryover from the previous one', async () => {
+    const { getLeaveBalance, leaveBalanceRepository } = setup({
+      balances: [LeaveBalance.create(TENANT.organizationId, USER_ID, 2029, 20)],
+      absences: [absence('2029-01-07', '2029-01-11', AbsenceStatus.APPROVED)],
+      leavePolicy: { maxCarryoverDays: 5 },
+    });
+
+    const balance = await withTenantAsync(TENANT, () =>
+      getLeaveBalance.execute({ userId: USER_ID, year: 2030 })
+    );
+
+    expect(balance.annualAllowance).toBe(20);
+    expect(balance.carriedOverDays).toBe(5);
+    expect(leaveBalanceRepository.save).toHaveBeenCalledOnce();
+  });
+});
+
+describe('CreateAbsenceUseCase leave balance check', () => {
+  const request = {
+    userId: USER_ID,
+    startDate: day('2030-01-07'),
+    endDate: day('2030-01-11'),
+    reason: 'Family trip abroad',
+  };
+
+  it('should reject requests beyond the remaining balance, reserving pending days', async () => {
+    const { createAbsence } = setup({
+      absences: [absence('2030-02-04', '2030-02-08', AbsenceStatus.PENDING)],
+      leavePolicy: { defaultAnnualAllowance: 8 },
+    });
+
+    await expect(withTenantAsync(TENANT, () => createAbsence.execute(request))).rejects.toThrow(
+      'Insufficient leave balance: 5 working days requested, 3 available for 2030'
+    );
+  });
+
+  it('should allow going negative when the policy permits it', async () => {
+    const { createAbsence } = setup({
+      leavePolicy: { defaultAnnualAllowance: 2, allowNegativeBalance: true },
+    });
+
+    const created = await withTenantAsync(TENANT, () => createAbsence.execute(request));
+
+    expect(created.status).toBe(AbsenceStatus.PENDING);
+  });
+});
@@ -0,0 +1,374 @@
+import { describe, it, expect } from 'vitest';
+import { Absence } from '@/src/domain/entities/Absence';
+import { DateRange } from '@/src/domain/value-objects/DateRange';
+import { DayPart, AbsenceDayPart } from '@/src/domain/value-objects/DayPart';
+import { ApproverType } from '@/src/domain/value-objects/ApprovalWorkflow';
+import { ApprovalDecision } from '@/src/domain/value-objects/ApprovalStep';
+
+describe('DayPart Value Object', () => {
+  it('should count half days as half a working day', () => {
+    expect(DayPart.fullDay().fraction()).toBe(1);
+    expect(DayPart.create(AbsenceDayPart.MORNING).fraction()).toBe(0.5);
+    expect(DayPart.create(AbsenceDayPart.AFTERNOON).fraction()).toBe(0.5);
+  });
+
+  it('should count hours against an eight-hour working day', () => {
+    expect(DayPart.create(AbsenceDayPart.HOURS, '09:00', '11:00').fraction()).toBe(0.25);
+  });
+
+  it('should ignore times for non-hourly parts', () => {
+    const morning = DayPart.create(AbsenceDayPart.MORNING, '09:00', '11:00');
+
+    expect(morning.startTime).toBeUndefined();
+    expect(morning.endTime).toBeUndefined();
+  });
+
+  it('should require valid hours for hourly absences', () => {
+    expect(() => DayPart.create(AbsenceDayPart.HOURS)).toThrow('Start time must be in HH:mm format');
+    expect(() => DayPart.create(AbsenceDayPart.HOURS, '09:00', '9pm')).toThrow(
+      'End time must be in HH:mm format'
+    );
+    expect(() => DayPart.create(AbsenceDayPart.HOURS, '11:00', '09:00')).toThrow(
+      'End time must be after start time'
+    );
+    expect(() => DayPart.create(AbsenceDayPart.HOURS, '08:00', '17:30')).toThrow(
+      'Hourly absences cannot exceed 8 hours'
+    );
+  });
+
+  it('should not overlap a morning with an afternoon', () => {
+    const morning = DayPart.create(AbsenceDayPart.MORNING);
+    const afternoon = DayPart.create(AbsenceDayPart.AFTERNOON);
+
+    expect(morning.overlaps(afternoon)).toBe(false);
+    expect(afternoon.overlaps(morning)).toBe(false);
+  });
+
+  it('should overlap hours that fall within a half day', () => {
+    const morning = DayPart.create(AbsenceDayPart.MORNING);
+
+    expect(morning.overlaps(DayPart.create(AbsenceDayPart.HOURS, '11:00', '13:00'))).toBe(true);
+    expect(morning.overlaps(DayPart.create(AbsenceDayPart.HOURS, '12:00', '14:00'))).toBe(false);
+  });
+});
+
+describe('Absence Entity', () => {
+  const orgId = 'org-1';
+  // Monday 14 April 2025
+  const day = DateRange.create(new Date(2025, 3, 14), new Date(2025, 3, 14));
+
+  const createAbsence = (dayPart: DayPart, range: DateRange = day, userId = 'user-1') =>
+    Absence.create(orgId, userId, range, 'Doctor appointment in town', undefined, dayPart);
+
+  describe('partial days', () => {
+    it('should require half days to start and end on the same day', () => {
+      const twoDays = DateRange.create(new Date(2025, 3, 14), new Date(2025, 3, 15));
+
+      expect(() => createAbsence(DayPart.create(AbsenceDayPart.MORNING), twoDays)).toThrow(
+        'Half-day and hourly absences must start and end on the same day'
+      );
+    });
+
+    it('should count fractional working days', () => {
+      expect(createAbsence(DayPart.create(AbsenceDayPart.AFTERNOON)).getWorkingDays()).toBe(0.5);
+      expect(
+        createAbsence(DayPart.create(AbsenceDayPart.HOURS, '13:00', '15:00')).getWorkingDaysInYear(2025)
+      ).toBe(0.25);
+    });
+
+    it('should not count a half day on a holiday', () => {
+      const absence = createAbsence(DayPart.create(AbsenceDayPart.MORNING));
+
+      expect(absence.getWorkingDays(new Set(['2025-04-14']))).toBe(0);
+    });
+  });
+
+  describe('overlapsWith', () => {
+    it('should not conflict for a morning and an afternoon on the same day', () => {
+      const morning = createAbsence(DayPart.create(AbsenceDayPart.MORNING));
+      const afternoon = createAbsence(DayPart.create(AbsenceDayPart.AFTERNOON));
+
+      expect(morning.overlapsWith(afternoon)).toBe(false);
+    });
+
+    it('should conflict for two mornings on the same day', () => {
+      const first = createAbsence(DayPart.create(AbsenceDayPart.MORNING));
+      const second = createAbsence(DayPart.create(AbsenceDayPart.MORNING));
+
+      expect(first.overlapsWith(second)).toBe(true);
+    });
+
+    it('should conflict for a half day within a full-day absence', () => {
+      const week = DateRange.create(new Date(2025, 3, 14), new Date(2025, 3, 18));
+      const vacation = createAbsence(DayPart.fullDay(), week);
+      const morning = createAbsence(DayPart.create(AbsenceDayPart.MORNING));
+
+      expect(morning.overlapsWith(vacation)).toBe(true);
+      expect(vacation.overlapsWith(morning)).toBe(true);
+    });
+
+    it('should not conflict for partial days of different users', () => {
+      const mine = createAbsence(DayPart.create(AbsenceDayPart.MORNING));
+      const theirs = createAbsence(DayPart.create(AbsenceDayPart.MORNING), day, 'user-2');
+
+      expect(mine.overlapsWith(theirs)).toBe(false);
+    });
+  });
+
+  describe('approval chain', () => {
+    const chain = ['manager-1', 'director-1'];
+    const manager = { id: 'manager-1', isManager: true, department: 'Engineering' };
+    const hrManager = { id: 'hr-1', isManager: true, department: 'HR' };
+
+    const createChained = () => {
+      const absence = createAbsence(DayPart.fullDay());
+      absence.startApprovalChain([
+        { approverType: ApproverType.REPORTING_MANAGER },
+        { approverType: ApproverType.DEPARTMENT_MANAGER, department: 'HR' },
+      ]);
+      return absence;
+    };
+
+    it('should stay pending until the last step is approved', () => {
+      const absence = createChained();
+
+      absence.approve('manager-1', 'Fine by me');
+
+      expect(absence.isPending()).toBe(true);
+      expect(absence.isPartiallyApproved()).toBe(true);
+      expect(absence.currentApprovalStep()?.position).toBe(1);
+
+      absence.approve('hr-1');
+
+      expect(absence.isApproved()).toBe(true);
+      expect(absence.approvalSteps.map((s) => s.decision)).toEqual([
+        ApprovalDecision.APPROVED,
+        ApprovalDecision.APPROVED,
+      ]);
+      expect(absence.approvalSteps[0].comment).toBe('Fine by me');
+    });
+
+    it('should only let the current step approver decide', () => {
+      const absence = createChained();
+
+      expect(absence.canBeDecidedBy(manager, chain)).toBe(true);
+      expect(absence.canBeDecidedBy(hrManager, chain)).toBe(false);
+
+      absence.approve('manager-1');
+
+      expect(absence.canBeDecidedBy(manager, chain)).toBe(false);
+      expect(absence.canBeDecidedBy(hrManager, chain)).toBe(true);
+    });
+
+    it('should not let the requester decide their own request', () => {
+      const absence = createChained();
+
+      expect(absence.canBeDecidedBy({ ...manager, id: 'user-1' }, ['user-1'])).toBe(false);
+    });
+
+    it('should not let one person approve two steps', () => {
+      const absence = createAbsence(DayPart.fullDay());
+      absence.startApprovalChain([
+        { approverType: ApproverType.REPORTING_MANAGER },
+        { approverType: ApproverType.REPORTING_MANAGER },
+      ]);
+
+      absence.approve('manager-1');
+
+      expect(() => absence.approve('manager-1')).toThrow(
+        'You have already approved an earlier step of this request'
+      );
+      expect(absence.canBeDecidedBy(manager, chain)).toBe(false);
+    });
+
+    it('should skip the remaining steps on rejection', () => {
+      const absence = createChained();
+
+      absence.reject('manager-1', 'Team is short that week');
+
+      expect(absence.isRejected()).toBe(true);
+      expect(absence.approvalSteps.map((s) => s.decision)).toEqual([
+        ApprovalDecision.REJECTED,
+        ApprovalDecision.SKIPPED,
+      ]);
+    });
+
+    it('should require a reason to reject', () => {
+      const absence = createChained();
+
+      expect(() => absence.reject('manager-1', '   ')).toThrow(
+        'A reason is required to reject an absence request'
+      );
+      expect(absence.isPending()).toBe(true);
+    });
+
+    it('should record the decision of requests without a chain as a step', () => {
+      const absence = createAbsence(DayPart.fullDay());
+
+      absence.reject('manager-1', 'Overlaps the release');
+
+      expect(absence.isRejected()).toBe(true);
+      expect(absence.approvalSteps).toHaveLength(1);
+      expect(absence.approvalSteps[0].decidedById).toBe('manager-1');
+      expect(absence.approvalSteps[0].comment).toBe('Overlaps the release');
+    });
+
+    it('should require an approver once a chain has started', () => {
+      const absence = createChained();
+
+      expect(() => absence.approve()).toThrow(
+        'An approver is required for requests with an approval chain'
+      );
+    });
+  });
+
+  describe('editing', () => {
+    const nextYear = new Date().getFullYear() + 1;
+    const upcoming = DateRange.create(new Date(nextYear, 3, 14), new Date(nextYear, 3, 15));
+
+    it('should change dates and reason of a pending request', () => {
+      const absence = createAbsence(DayPart.fullDay(), upcoming);
+
+      absence.update({
+        dateRange: DateRange.create(new Date(nextYear, 3, 16), new Date(nextYear, 3, 16)),
+        dayPart: DayPart.create(AbsenceDayPart.MORNING),
+        reason: 'Moved the appointment to Wednesday',
+      });
+
+      expect(absence.dateRange.start).toEqual(new Date(nextYear, 3, 16));
+      expect(absence.dayPart.type).toBe(AbsenceDayPart.MORNING);
+      expect(absence.reason).toBe('Moved the appointment to Wednesday');
+    });
+
+    it('should reset approvals already given', () => {
+      const absence = createAbsence(DayPart.fullDay(), upcoming);
+      absence.startApprovalChain([
+        { approverType: ApproverType.REPORTING_MANAGER },
+        { approverType: ApproverType.DEPARTMENT_MANAGER, department: 'HR' },
+      ]);
+      absence.approve('manager-1');
+
+      absence.update({ reason: 'Extended for the school holidays' });
+
+      expect(absence.approvalSteps).toHaveLength(0);
+      expect(absence.isPartiallyApproved()).toBe(false);
+    });
+
+    it('should only edit pending requests', () => {
+      const absence = createAbsence(DayPart.fullDay(), upcoming);
+      absence.approve();
+
+      expect(() => absence.update({ reason: 'Changed my plans entirely' })).toThrow(
+        'Can only edit pending absence requests'
+      );
+    });
+
+    it('should not move a request into the past', () => {
+      const absence = createAbsence(DayPart.fullDay(), upcoming);
+
+      expect(() => absence.update({ dateRange: day })).toThrow(
+        'Cannot move an absence to past dates'
+      );
+    });
+
+    it('should validate the edited request', () => {
+      const absence = createAbsence(DayPart.fullDay(), upcoming);
+
+      expect(() => absence.update({ dayPart: DayPart.create(AbsenceDayPart.MORNING) })).toThrow();
+      expect(absence.dayPart.type).toBe(AbsenceDayPart.FULL_DAY);
+    });
+  });
+
+  describe('cancellation', () => {
+    const nextYear = new Date().getFullYear() + 1;
+    const upcoming = DateRange.create(new Date(nextYear, 6, 7), new Date(nextYear, 6, 11));
+    const chain = ['manager-1', 'director-1'];
+    const manager = { id: 'manager-1', isManager: true, department: 'Engineering' };
+    const hrManager = { id: 'hr-1', isManager: true, department: 'HR' };
+
+    const createApproved = () => {
+      const absence = createAbsence(DayPart.fullDay(), upcoming);
+      absence.startApprovalChain([
+        { approverType: ApproverType.DEPARTMENT_MANAGER, department: 'HR' },
+      ]);
+      absence.approve('hr-1');
+      return absence;
+    };
+
+    it('should keep the leave approved until the cancellation is accepted', () => {
+      const absence = createApproved();
+
+      absence.requestCancellation('Trip was called off');
+
+      expect(absence.isApproved()).toBe(true);
+      expect(absence.isCancellationPending()).toBe(true);
+
+      absence.approveCancellation('hr-1', 'Enjoy the week in the office');
+
+      expect(absence.isCancelled()).toBe(true);
+      expect(absence.isCancellationPending()).toBe(false);
+      expect(absence.cancellation?.decidedById).toBe('hr-1');
+    });
+
+    it('should keep the leave when the cancellation is declined', () => {
+      const absence = createApproved();
+      absence.requestCancellation('Trip was called off');
+
+      absence.rejectCancellation('manager-1', 'Cover is already booked');
+
+      expect(absence.isApproved()).toBe(true);
+      expect(absence.isCancellationPending()).toBe(false);
+      expect(absence.cancellation?.comment).toBe('Cover is already booked');
+    });
+
+    it('should require a reason to request or decline a cancellation', () => {
+      const absence = createApproved();
+
+      expect(() => absence.requestCancellation('  ')).toThrow(
+        'A reason is required to cancel approved leave'
+      );
+
+      absence.requestCancellation('Trip was called off');
+
+      expect(() => absence.rejectCancellation('manager-1', '')).toThrow(
+        'A reason is required to decline a cancellation'
+      );
+    });
+
+    it('should only cancel approved leave that has not started', () => {
+      expect(() => createAbsence(DayPart.fullDay(), upcoming).requestCancellation('No longer needed')).toThrow(
+        'Only approved absences can be cancelled'
+      );
+
+      const started = createAbsence(DayPart.fullDay());
+      started.approve();
+
+      expect(() => started.requestCancellation('No longer needed')).toThrow(
+        'Leave that has already started cannot be cancelled'
+      );
+    });
+
+    it('should let the final approver or the reporting line decide', () => {
+      const absence = createApproved();
+
+      expect(absence.canDecideCancellationBy(hrManager, chain)).toBe(false);
+
+      absence.requestCancellation('Trip was called off');
+
+      expect(absence.canDecideCancellationBy(hrManager, chain)).toBe(true);
+      expect(absence.canDecideCancellationBy(manager, chain)).toBe(true);
+      expect(absence.canDecideCancellationBy({ ...manager, id: 'peer-1' }, chain)).toBe(false);
+      expect(() => absence.approveCancellation('user-1')).toThrow(
+        'Cannot decide the cancellation of your own absence'
+      );
+    });
+
+    it('should not count cancelled leave as an overlap', () => {
+      const absence = createApproved();
+      absence.requestCancellation('Trip was called off');
+      absence.approveCancellation('hr-1');
+
+      expect(createAbsence(DayPart.fullDay(), upcoming).overlapsWith(absence)).toBe(false);
+    });
+  });
+});
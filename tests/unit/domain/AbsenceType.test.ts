@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { AbsenceType, AbsenceCategory, DEFAULT_ABSENCE_TYPES } from '@/src/domain/entities/AbsenceType';
+
+describe('AbsenceType Entity', () => {
+  const orgId = 'org-123';
+  const validProps = {
+    organizationId: orgId,
+    name: 'Vacation',
+    category: AbsenceCategory.VACATION,
+    color: '#3b82f6',
+    requiresApproval: true,
+    countsAgainstAllowance: true,
+  };
+
+  describe('create', () => {
+    it('should create absence type with valid properties', () => {
+      const type = AbsenceType.create(validProps);
+
+      expect(type.organizationId).toBe(orgId);
+      expect(type.name).toBe('Vacation');
+      expect(type.category).toBe(AbsenceCategory.VACATION);
+      expect(type.color).toBe('#3b82f6');
+      expect(type.requiresApproval).toBe(true);
+      expect(type.countsAgainstAllowance).toBe(true);
+      expect(type.isDeleted()).toBe(false);
+      expect(type.id).toBeDefined();
+    });
+
+    it('should use provided id if given', () => {
+      const type = AbsenceType.create({ ...validProps, id: 'custom-id' });
+      expect(type.id).toBe('custom-id');
+    });
+
+    it('should throw for empty name', () => {
+      expect(() => AbsenceType.create({ ...validProps, name: '   ' })).toThrow(
+        'Absence type name cannot be empty'
+      );
+    });
+
+    it('should throw for name exceeding 50 characters', () => {
+      expect(() => AbsenceType.create({ ...validProps, name: 'a'.repeat(51) })).toThrow(
+        'Absence type name cannot exceed 50 characters'
+      );
+    });
+
+    it('should throw for invalid color', () => {
+      expect(() => AbsenceType.create({ ...validProps, color: 'blue' })).toThrow(
+        'Absence type color must be a hex color'
+      );
+    });
+
+    it('should accept every default type', () => {
+      for (const defaults of DEFAULT_ABSENCE_TYPES) {
+        expect(() => AbsenceType.create({ ...defaults, organizationId: orgId })).not.toThrow();
+      }
+    });
+  });
+
+  describe('update', () => {
+    it('should update configurable fields', () => {
+      const type = AbsenceType.create(validProps);
+
+      type.update({ name: '  Holiday  ', requiresApproval: false, countsAgainstAllowance: false });
+
+      expect(type.name).toBe('Holiday');
+      expect(type.requiresApproval).toBe(false);
+      expect(type.countsAgainstAllowance).toBe(false);
+      expect(type.color).toBe('#3b82f6');
+    });
+
+    it('should validate updated values', () => {
+      const type = AbsenceType.create(validProps);
+      expect(() => type.update({ color: '#zzzzzz' })).toThrow('Absence type color must be a hex color');
+    });
+
+    it('should throw when updating a deleted type', () => {
+      const type = AbsenceType.create(validProps);
+      type.softDelete();
+      expect(() => type.update({ name: 'Other' })).toThrow('Cannot update a deleted absence type');
+    });
+  });
+
+  describe('softDelete', () => {
+    it('should mark the type as deleted', () => {
+      const type = AbsenceType.create(validProps);
+      type.softDelete();
+
+      expect(type.isDeleted()).toBe(true);
+      expect(type.deletedAt).toBeInstanceOf(Date);
+    });
+
+    it('should throw when already deleted', () => {
+      const type = AbsenceType.create(validProps);
+      type.softDelete();
+      expect(() => type.softDelete()).toThrow('Absence type is already deleted');
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { ApprovalWorkflow, ApproverType } from '@/src/domain/value-objects/ApprovalWorkflow';
+import { ApprovalDecision, ApprovalStep } from '@/src/domain/value-objects/ApprovalStep';
+
+describe('ApprovalWorkflow Value Object', () => {
+  it('should fall back to a single reporting-manager step', () => {
+    expect(ApprovalWorkflow.fromSettings(undefined).steps).toEqual([
+      { approverType: ApproverType.REPORTING_MANAGER },
+    ]);
+    expect(ApprovalWorkflow.fromSettings([]).steps).toHaveLength(1);
+  });
+
+  it('should only include conditional steps for longer requests', () => {
+    const workflow = ApprovalWorkflow.create([
+      { approverType: ApproverType.REPORTING_MANAGER },
+      { approverType: ApproverType.DEPARTMENT_MANAGER, department: 'HR', whenDaysExceed: 10 },
+    ]);
+
+    expect(workflow.stepsFor(10)).toHaveLength(1);
+    expect(workflow.stepsFor(11).map((s) => s.approverType)).toEqual([
+      ApproverType.REPORTING_MANAGER,
+      ApproverType.DEPARTMENT_MANAGER,
+    ]);
+  });
+
+  it('should drop fields that do not apply to the approver type', () => {
+    const workflow = ApprovalWorkflow.create([
+      { approverType: ApproverType.REPORTING_MANAGER, department: 'HR', userId: 'user-9', label: '  ' },
+    ]);
+
+    expect(workflow.steps).toEqual([{ approverType: ApproverType.REPORTING_MANAGER }]);
+  });
+
+  it('should reject invalid chains', () => {
+    expect(() => ApprovalWorkflow.create([])).toThrow('An approval workflow needs at least one step');
+    expect(() =>
+      ApprovalWorkflow.create([{ approverType: ApproverType.REPORTING_MANAGER, whenDaysExceed: 5 }])
+    ).toThrow('The first approval step cannot be conditional');
+    expect(() =>
+      ApprovalWorkflow.create([{ approverType: ApproverType.DEPARTMENT_MANAGER }])
+    ).toThrow('Department approval steps need a department');
+    expect(() => ApprovalWorkflow.create([{ approverType: ApproverType.SPECIFIC_USER }])).toThrow(
+      'Named approval steps need an approver'
+    );
+    expect(() =>
+      ApprovalWorkflow.create(Array(6).fill({ approverType: ApproverType.REPORTING_MANAGER }))
+    ).toThrow('An approval workflow cannot have more than 5 steps');
+  });
+});
+
+describe('ApprovalStep Value Object', () => {
+  const chain = ['manager-1', 'director-1'];
+  const manager = { id: 'manager-1', isManager: true, department: 'Engineering' };
+  const director = { id: 'director-1', isManager: true, department: 'Engineering' };
+  const hrManager = { id: 'hr-1', isManager: true, department: 'HR' };
+
+  it('should let anyone up the reporting line decide a reporting-manager step', () => {
+    const step = ApprovalStep.pending(0, { approverType: ApproverType.REPORTING_MANAGER });
+
+    expect(step.canBeDecidedBy(manager, chain)).toBe(true);
+    expect(step.canBeDecidedBy(director, chain)).toBe(true);
+    expect(step.canBeDecidedBy(hrManager, chain)).toBe(false);
+  });
+
+  it('should skip the direct manager for second-level steps', () => {
+    const step = ApprovalStep.pending(1, { approverType: ApproverType.SECOND_LEVEL_MANAGER });
+
+    expect(step.canBeDecidedBy(manager, chain)).toBe(false);
+    expect(step.canBeDecidedBy(director, chain)).toBe(true);
+  });
+
+  it('should match department managers outside the reporting line', () => {
+    const step = ApprovalStep.pending(1, {
+      approverType: ApproverType.DEPARTMENT_MANAGER,
+      department: 'HR',
+    });
+
+    expect(step.canBeDecidedBy(hrManager, chain)).toBe(true);
+    expect(step.canBeDecidedBy({ ...hrManager, isManager: false }, chain)).toBe(false);
+    expect(step.describe()).toBe('HR manager');
+  });
+
+  it('should record a decision once', () => {
+    const step = ApprovalStep.pending(0, { approverType: ApproverType.REPORTING_MANAGER });
+    const decided = step.decide(ApprovalDecision.APPROVED, 'manager-1', '  Enjoy  ');
+
+    expect(step.isPending()).toBe(true);
+    expect(decided.isApproved()).toBe(true);
+    expect(decided.decidedById).toBe('manager-1');
+    expect(decided.comment).toBe('Enjoy');
+    expect(decided.decidedAt).toBeInstanceOf(Date);
+    expect(() => decided.decide(ApprovalDecision.REJECTED, 'director-1')).toThrow(
+      'This approval step has already been decided'
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { Feedback, FeedbackType } from '@/src/domain/entities/Feedback';
+import {
+  CompetencyFramework,
+  DEFAULT_COMPETENCIES,
+} from '@/src/domain/value-objects/CompetencyFramework';
+import { FeedbackBreakdown } from '@/src/domain/value-objects/FeedbackBreakdown';
+
+const content = 'Clear updates on the migration kept everyone aligned.';
+
+const feedback = (
+  type: FeedbackType,
+  competencies: { competency: string; rating?: number }[] = []
+) => Feedback.create('org-1', 'giver', 'receiver', content, type, competencies);
+
+describe('CompetencyFramework Value Object', () => {
+  it('should fall back to the default competencies', () => {
+    expect(CompetencyFramework.fromSettings(undefined).competencies).toEqual(DEFAULT_COMPETENCIES);
+  });
+
+  it('should keep an explicitly empty framework', () => {
+    expect(CompetencyFramework.fromSettings([]).competencies).toEqual([]);
+  });
+
+  it('should find competencies by key', () => {
+    const framework = CompetencyFramework.create([{ key: 'ownership', name: ' Ownership ' }]);
+
+    expect(framework.has('ownership')).toBe(true);
+    expect(framework.has('leadership')).toBe(false);
+    expect(framework.find('ownership')).toEqual({ key: 'ownership', name: 'Ownership' });
+  });
+
+  it('should reject invalid and duplicate keys', () => {
+    expect(() => CompetencyFramework.create([{ key: 'Technical Skills', name: 'Technical Skills' }])).toThrow(
+      'Invalid competency key: Technical Skills'
+    );
+    expect(() =>
+      CompetencyFramework.create([
+        { key: 'ownership', name: 'Ownership' },
+        { key: 'ownership', name: 'Owning it' },
+      ])
+    ).toThrow('There is already a competency called Owning it');
+  });
+
+  it('should require a name', () => {
+    expect(() => CompetencyFramework.create([{ key: 'ownership', name: ' ' }])).toThrow(
+      'Competencies need a name'
+    );
+  });
+});
+
+describe('FeedbackBreakdown Value Object', () => {
+  const framework = CompetencyFramework.fromSettings(undefined);
+
+  it('should count feedback by type', () => {
+    const breakdown = FeedbackBreakdown.calculate(
+      [feedback(FeedbackType.PRAISE), feedback(FeedbackType.PRAISE), feedback(FeedbackType.REQUEST)],
+      framework
+    );
+
+    expect(breakdown.byType).toEqual({ PRAISE: 2, CONSTRUCTIVE: 0, REQUEST: 1 });
+  });
+
+  it('should average ratings per competency, best first', () => {
+    const breakdown = FeedbackBreakdown.calculate(
+      [
+        feedback(FeedbackType.PRAISE, [
+          { competency: 'communication', rating: 5 },
+          { competency: 'ownership', rating: 2 },
+        ]),
+        feedback(FeedbackType.CONSTRUCTIVE, [
+          { competency: 'communication', rating: 4 },
+          { competency: 'ownership', rating: 1 },
+          { competency: 'leadership' },
+        ]),
+      ],
+      framework
+    );
+
+    expect(breakdown.competencies).toEqual([
+      { competency: 'communication', name: 'Communication', mentions: 2, ratings: 2, averageRating: 4.5 },
+      { competency: 'ownership', name: 'Ownership', mentions: 2, ratings: 2, averageRating: 1.5 },
+      { competency: 'leadership', name: 'Leadership', mentions: 1, ratings: 0, averageRating: undefined },
+    ]);
+    expect(breakdown.strengths().map((c) => c.competency)).toEqual(['communication']);
+    expect(breakdown.areasToImprove().map((c) => c.competency)).toEqual(['ownership']);
+  });
+
+  it('should keep competencies removed from the framework', () => {
+    const breakdown = FeedbackBreakdown.calculate(
+      [feedback(FeedbackType.PRAISE, [{ competency: 'mentoring', rating: 3 }])],
+      framework
+    );
+
+    expect(breakdown.competencies[0]).toMatchObject({ competency: 'mentoring', name: 'mentoring' });
+  });
+
+  it('should skip deleted feedback', () => {
+    const deleted = feedback(FeedbackType.PRAISE, [{ competency: 'communication', rating: 5 }]);
+    deleted.softDelete();
+
+    const breakdown = FeedbackBreakdown.calculate([deleted], framework);
+
+    expect(breakdown.byType.PRAISE).toBe(0);
+    expect(breakdown.competencies).toEqual([]);
+  });
+});
@@ -1,5 +1,16 @@
 import { describe, it, expect } from 'vitest';
-import { Feedback } from '@/src/domain/entities/Feedback';
+import {
+  Feedback,
+  FeedbackModerationStatus,
+  FeedbackReplyKind,
+  FeedbackType,
+  FeedbackVisibility,
+} from '@/src/domain/entities/Feedback';
+import {
+  FeedbackScreening,
+  FeedbackScreeningPolicy,
+  ScreeningCategory,
+} from '@/src/domain/value-objects/FeedbackScreening';
 
 describe('Feedback Entity', () => {
   const validContent = 'This is valid feedback content that is at least 10 characters.';
@@ -20,7 +31,15 @@ describe('Feedback Entity', () => {
     });
 
     it('should use provided id if given', () => {
-      const feedback = Feedback.create(orgId, 'giver-id', 'receiver-id', validContent, 'custom-id');
+      const feedback = Feedback.create(
+        orgId,
+        'giver-id',
+        'receiver-id',
+        validContent,
+        FeedbackType.PRAISE,
+        [],
+        'custom-id'
+      );
       expect(feedback.id).toBe('custom-id');
     });
 
@@ -72,6 +91,12 @@ describe('Feedback Entity', () => {
         content: validContent,
         polishedContent: 'Polished version',
         isPolished: true,
+        type: FeedbackType.PRAISE,
+        competencies: [],
+        visibility: FeedbackVisibility.RECEIVER,
+        revisions: [],
+        replies: [],
+        screeningFlags: [],
         createdAt: now,
         updatedAt: now,
       });
@@ -204,6 +229,51 @@ describe('Feedback Entity', () => {
     });
   });
 
+  describe('type and competencies', () => {
+    it('should default to untagged praise', () => {
+      const feedback = Feedback.create(orgId, 'giver', 'receiver', validContent);
+
+      expect(feedback.type).toBe(FeedbackType.PRAISE);
+      expect(feedback.competencies).toEqual([]);
+    });
+
+    it('should keep the competencies and their ratings', () => {
+      const feedback = Feedback.create(orgId, 'giver', 'receiver', validContent, FeedbackType.CONSTRUCTIVE, [
+        { competency: 'communication', rating: 2 },
+        { competency: 'ownership' },
+      ]);
+
+      expect(feedback.type).toBe(FeedbackType.CONSTRUCTIVE);
+      expect(feedback.ratingFor('communication')).toBe(2);
+      expect(feedback.ratingFor('ownership')).toBeUndefined();
+    });
+
+    it('should only accept whole ratings from 1 to 5', () => {
+      for (const rating of [0, 6, 3.5]) {
+        expect(() =>
+          Feedback.create(orgId, 'giver', 'receiver', validContent, FeedbackType.PRAISE, [
+            { competency: 'communication', rating },
+          ])
+        ).toThrow('Competency ratings must be whole numbers from 1 to 5');
+      }
+    });
+
+    it('should not tag the same competency twice', () => {
+      expect(() =>
+        Feedback.create(orgId, 'giver', 'receiver', validContent, FeedbackType.PRAISE, [
+          { competency: 'communication', rating: 4 },
+          { competency: 'communication', rating: 2 },
+        ])
+      ).toThrow('Competency communication is tagged more than once');
+    });
+
+    it('should reject unknown feedback types', () => {
+      expect(() =>
+        Feedback.create(orgId, 'giver', 'receiver', validContent, 'GOSSIP' as FeedbackType)
+      ).toThrow('Invalid feedback type: GOSSIP');
+    });
+  });
+
   describe('isFromUser / isForUser', () => {
     it('should correctly identify feedback giver', () => {
       const feedback = Feedback.create(orgId, 'giver-id', 'receiver-id', validContent);
@@ -222,9 +292,212 @@ describe('Feedback Entity', () => {
     });
   });
 
+  describe('visibility', () => {
+    it('should be visible to the receiver by default', () => {
+      const feedback = Feedback.create(orgId, 'giver-id', 'receiver-id', validContent);
+
+      expect(feedback.visibility).toBe(FeedbackVisibility.RECEIVER);
+      expect(feedback.isVisibleTo('receiver-id', false)).toBe(true);
+      expect(feedback.isVisibleTo('manager-id', true)).toBe(true);
+      expect(feedback.isVisibleTo('other-id', false)).toBe(false);
+      expect(feedback.isGiverHiddenFrom('receiver-id')).toBe(false);
+    });
+
+    it('should hide manager-only notes from the receiver, even a manager', () => {
+      const feedback = Feedback.create(orgId, 'giver-id', 'receiver-id', validContent);
+      feedback.changeVisibility(FeedbackVisibility.MANAGER_ONLY);
+
+      expect(feedback.isVisibleTo('giver-id', false)).toBe(true);
+      expect(feedback.isVisibleTo('manager-id', true, new Set(['receiver-id']))).toBe(true);
+      expect(feedback.isVisibleTo('receiver-id', true)).toBe(false);
+    });
+
+    it("should limit manager-only notes to managers in the receiver's reporting line", () => {
+      const feedback = Feedback.create(orgId, 'giver-id', 'receiver-id', validContent);
+      feedback.changeVisibility(FeedbackVisibility.MANAGER_ONLY);
+
+      expect(feedback.isVisibleTo('other-manager-id', true, new Set(['someone-else']))).toBe(false);
+      expect(feedback.isVisibleTo('other-manager-id', true)).toBe(false);
+    });
+
+    it('should hide the giver of anonymous feedback from everyone else', () => {
+      const feedback = Feedback.create(orgId, 'giver-id', 'receiver-id', validContent);
+      feedback.changeVisibility(FeedbackVisibility.ANONYMOUS);
+
+      expect(feedback.isVisibleTo('receiver-id', false)).toBe(true);
+      expect(feedback.isGiverHiddenFrom('receiver-id')).toBe(true);
+      expect(feedback.isGiverHiddenFrom('manager-id')).toBe(true);
+      expect(feedback.isGiverHiddenFrom('giver-id')).toBe(false);
+    });
+
+    it('should reject unknown visibilities', () => {
+      const feedback = Feedback.create(orgId, 'giver-id', 'receiver-id', validContent);
+
+      expect(() => feedback.changeVisibility('PUBLIC' as FeedbackVisibility)).toThrow(
+        'Invalid feedback visibility: PUBLIC'
+      );
+    });
+  });
+
+  describe('edit', () => {
+    it('should keep the previous version as a revision', () => {
+      const feedback = Feedback.create(orgId, 'giver-id', 'receiver-id', validContent);
+      feedback.polishContent('This is the polished version of the feedback.');
+
+      feedback.edit('giver-id', 'This is the edited feedback content, now clearer.');
+
+      expect(feedback.content).toBe('This is the edited feedback content, now clearer.');
+      expect(feedback.isPolished).toBe(false);
+      expect(feedback.isEdited()).toBe(true);
+      expect(feedback.revisions).toHaveLength(1);
+      expect(feedback.revisions[0]).toMatchObject({
+        content: validContent,
+        polishedContent: 'This is the polished version of the feedback.',
+        editedById: 'giver-id',
+      });
+    });
+
+    it('should keep polished content passed with the edit', () => {
+      const feedback = Feedback.create(orgId, 'giver-id', 'receiver-id', validContent);
+
+      feedback.edit('giver-id', 'Edited feedback content here.', 'Polished edited feedback.');
+
+      expect(feedback.isPolished).toBe(true);
+      expect(feedback.getDisplayContent()).toBe('Polished edited feedback.');
+    });
+
+    it('should reject edits that change nothing or invalid content', () => {
+      const feedback = Feedback.create(orgId, 'giver-id', 'receiver-id', validContent);
+
+      expect(() => feedback.edit('giver-id', validContent)).toThrow('Feedback is unchanged');
+      expect(() => feedback.edit('giver-id', 'Too short')).toThrow(
+        'Feedback content must be at least 10 characters'
+      );
+      expect(feedback.revisions).toHaveLength(0);
+    });
+  });
+
+  describe('reply', () => {
+    it('should let the giver and receiver reply', () => {
+      const feedback = Feedback.create(orgId, 'giver-id', 'receiver-id', validContent);
+
+      feedback.reply('receiver-id', FeedbackReplyKind.REPLY, ' Thanks, what should I change? ');
+      feedback.reply('giver-id', FeedbackReplyKind.REPLY, 'Start with the weekly update.');
+
+      expect(feedback.replies.map((r) => [r.authorId, r.content])).toEqual([
+        ['receiver-id', 'Thanks, what should I change?'],
+        ['giver-id', 'Start with the weekly update.'],
+      ]);
+      expect(() => feedback.reply('manager-id', FeedbackReplyKind.REPLY, 'Agreed')).toThrow(
+        'Only the giver and receiver can reply to feedback'
+      );
+      expect(() => feedback.reply('giver-id', FeedbackReplyKind.REPLY, '  ')).toThrow(
+        'Reply cannot be empty'
+      );
+    });
+
+    it('should let only the receiver acknowledge, once', () => {
+      const feedback = Feedback.create(orgId, 'giver-id', 'receiver-id', validContent);
+
+      expect(() => feedback.reply('giver-id', FeedbackReplyKind.ACKNOWLEDGEMENT)).toThrow(
+        'Only the receiver can acknowledge feedback'
+      );
+
+      feedback.reply('receiver-id', FeedbackReplyKind.ACKNOWLEDGEMENT);
+
+      expect(feedback.isAcknowledged()).toBe(true);
+      expect(() => feedback.reply('receiver-id', FeedbackReplyKind.ACKNOWLEDGEMENT)).toThrow(
+        'Feedback is already acknowledged'
+      );
+    });
+
+    it('should not thread manager-only notes', () => {
+      const feedback = Feedback.create(orgId, 'giver-id', 'receiver-id', validContent);
+      feedback.changeVisibility(FeedbackVisibility.MANAGER_ONLY);
+
+      expect(() => feedback.reply('giver-id', FeedbackReplyKind.REPLY, 'Follow-up')).toThrow(
+        'Manager-only notes cannot be replied to'
+      );
+    });
+  });
+
+  describe('moderation', () => {
+    const flagged = (policy: FeedbackScreeningPolicy) =>
+      FeedbackScreening.create([ScreeningCategory.PROFANITY], policy);
+
+    it('should hold flagged feedback back from the receiver under a moderation policy', () => {
+      const feedback = Feedback.create(orgId, 'giver-id', 'receiver-id', validContent);
+      feedback.recordScreening(flagged(FeedbackScreeningPolicy.MODERATE));
+
+      expect(feedback.screeningFlags).toEqual([ScreeningCategory.PROFANITY]);
+      expect(feedback.isAwaitingModeration()).toBe(true);
+      expect(feedback.isVisibleTo('receiver-id', false)).toBe(false);
+      expect(feedback.isVisibleTo('giver-id', false)).toBe(true);
+      expect(() => feedback.reply('giver-id', FeedbackReplyKind.REPLY, 'Follow-up')).toThrow(
+        'Feedback held back by moderation cannot be replied to'
+      );
+    });
+
+    it('should only record flags under a warning policy', () => {
+      const feedback = Feedback.create(orgId, 'giver-id', 'receiver-id', validContent);
+      feedback.recordScreening(flagged(FeedbackScreeningPolicy.WARN));
+
+      expect(feedback.screeningFlags).toEqual([ScreeningCategory.PROFANITY]);
+      expect(feedback.moderationStatus).toBeUndefined();
+      expect(feedback.isVisibleTo('receiver-id', false)).toBe(true);
+    });
+
+    it('should release feedback to the receiver once approved', () => {
+      const feedback = Feedback.create(orgId, 'giver-id', 'receiver-id', validContent);
+      feedback.recordScreening(flagged(FeedbackScreeningPolicy.MODERATE));
+
+      feedback.moderate('manager-id', true);
+
+      expect(feedback.moderationStatus).toBe(FeedbackModerationStatus.APPROVED);
+      expect(feedback.moderatedById).toBe('manager-id');
+      expect(feedback.isVisibleTo('receiver-id', false)).toBe(true);
+      expect(() => feedback.moderate('manager-id', false)).toThrow(
+        'Feedback is not awaiting moderation'
+      );
+    });
+
+    it('should keep rejected feedback from the receiver and from edits', () => {
+      const feedback = Feedback.create(orgId, 'giver-id', 'receiver-id', validContent);
+      feedback.recordScreening(flagged(FeedbackScreeningPolicy.MODERATE));
+
+      expect(() => feedback.moderate('receiver-id', false)).toThrow(
+        'You cannot moderate feedback you gave or received'
+      );
+      feedback.moderate('manager-id', false);
+
+      expect(feedback.isVisibleTo('receiver-id', false)).toBe(false);
+      expect(() => feedback.edit('giver-id', 'Rewritten feedback content here.')).toThrow(
+        'Rejected feedback cannot be edited'
+      );
+    });
+
+    it('should release pending feedback once its content screens clean', () => {
+      const feedback = Feedback.create(orgId, 'giver-id', 'receiver-id', validContent);
+      feedback.recordScreening(flagged(FeedbackScreeningPolicy.MODERATE));
+
+      feedback.recordScreening(FeedbackScreening.create([], FeedbackScreeningPolicy.MODERATE));
+
+      expect(feedback.moderationStatus).toBeUndefined();
+      expect(feedback.screeningFlags).toEqual([]);
+    });
+  });
+
   describe('toObject', () => {
     it('should return all properties', () => {
-      const feedback = Feedback.create(orgId, 'giver', 'receiver', validContent, 'test-id');
+      const feedback = Feedback.create(
+        orgId,
+        'giver',
+        'receiver',
+        validContent,
+        FeedbackType.PRAISE,
+        [],
+        'test-id'
+      );
 
       const obj = feedback.toObject();
 
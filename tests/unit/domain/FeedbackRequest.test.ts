@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { FeedbackRequest, FeedbackRequestStatus } from '@/src/domain/entities/FeedbackRequest';
+
+const nextWeek = () => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+const createRequest = (prompt?: string) =>
+  FeedbackRequest.create({
+    organizationId: 'org-1',
+    requesterId: 'alice',
+    recipientId: 'bob',
+    prompt,
+    dueDate: nextWeek(),
+  });
+
+describe('FeedbackRequest Entity', () => {
+  describe('create', () => {
+    it('should create a pending request with a trimmed question', () => {
+      const request = createRequest('  How did my demo go?  ');
+
+      expect(request.status).toBe(FeedbackRequestStatus.PENDING);
+      expect(request.prompt).toBe('How did my demo go?');
+      expect(request.isPending()).toBe(true);
+      expect(request.isForRecipient('bob')).toBe(true);
+    });
+
+    it('should treat a blank question as no question', () => {
+      expect(createRequest('   ').prompt).toBeUndefined();
+    });
+
+    it('should not allow asking yourself', () => {
+      expect(() =>
+        FeedbackRequest.create({
+          organizationId: 'org-1',
+          requesterId: 'alice',
+          recipientId: 'alice',
+          dueDate: nextWeek(),
+        })
+      ).toThrow('Cannot request feedback from yourself');
+    });
+
+    it('should limit the question length', () => {
+      expect(() => createRequest('a'.repeat(501))).toThrow(
+        'Feedback request question cannot exceed 500 characters'
+      );
+    });
+  });
+
+  describe('complete', () => {
+    it('should link the feedback given in answer', () => {
+      const request = createRequest();
+
+      request.complete('feedback-1');
+
+      expect(request.status).toBe(FeedbackRequestStatus.COMPLETED);
+      expect(request.feedbackId).toBe('feedback-1');
+      expect(request.respondedAt).toBeInstanceOf(Date);
+    });
+
+    it('should only be answered once', () => {
+      const request = createRequest();
+      request.complete('feedback-1');
+
+      expect(() => request.complete('feedback-2')).toThrow('This feedback request is already completed');
+      expect(() => request.decline()).toThrow('This feedback request is already completed');
+    });
+  });
+
+  describe('decline', () => {
+    it('should close the request without feedback', () => {
+      const request = createRequest();
+
+      request.decline();
+
+      expect(request.status).toBe(FeedbackRequestStatus.DECLINED);
+      expect(request.feedbackId).toBeUndefined();
+      expect(() => request.complete('feedback-1')).toThrow('This feedback request is already declined');
+    });
+  });
+
+  describe('isOverdue', () => {
+    it('should be overdue once pending past its due date', () => {
+      const request = createRequest();
+      const later = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000);
+
+      expect(request.isOverdue()).toBe(false);
+      expect(request.isOverdue(later)).toBe(true);
+
+      request.decline();
+      expect(request.isOverdue(later)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FeedbackScreening,
+  FeedbackScreeningPolicy,
+  ScreeningCategory,
+} from '@/src/domain/value-objects/FeedbackScreening';
+
+describe('FeedbackScreening Value Object', () => {
+  it('should de-duplicate categories in a stable order', () => {
+    const screening = FeedbackScreening.create([
+      ScreeningCategory.PROFANITY,
+      ScreeningCategory.PERSONAL_ATTACK,
+      ScreeningCategory.PROFANITY,
+    ]);
+
+    expect(screening.categories).toEqual([
+      ScreeningCategory.PERSONAL_ATTACK,
+      ScreeningCategory.PROFANITY,
+    ]);
+    expect(screening.isFlagged()).toBe(true);
+  });
+
+  it('should default to warning when the policy is unset or unknown', () => {
+    expect(FeedbackScreening.create([]).policy).toBe(FeedbackScreeningPolicy.WARN);
+    expect(FeedbackScreening.create([], 'BLOCK').policy).toBe(FeedbackScreeningPolicy.WARN);
+  });
+
+  it('should only require polishing or moderation for flagged feedback', () => {
+    const clean = FeedbackScreening.create([], FeedbackScreeningPolicy.MODERATE);
+    const flagged = FeedbackScreening.create(
+      [ScreeningCategory.PROTECTED_CHARACTERISTIC],
+      FeedbackScreeningPolicy.REQUIRE_POLISH
+    );
+
+    expect(clean.requiresModeration()).toBe(false);
+    expect(flagged.requiresPolish()).toBe(true);
+    expect(flagged.requiresModeration()).toBe(false);
+  });
+});
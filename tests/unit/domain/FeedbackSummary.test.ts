@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { FeedbackSummary } from '@/src/domain/entities/FeedbackSummary';
+
+const sources = [
+  { id: 'f1', updatedAt: new Date('2026-03-01T10:00:00Z') },
+  { id: 'f2', updatedAt: new Date('2026-03-05T10:00:00Z') },
+];
+
+const createSummary = (overrides: Partial<Parameters<typeof FeedbackSummary.create>[0]> = {}) =>
+  FeedbackSummary.create({
+    organizationId: 'org-1',
+    subjectId: 'bob',
+    periodStart: new Date('2026-03-01T00:00:00Z'),
+    periodEnd: new Date('2026-03-31T23:59:59.999Z'),
+    themes: [{ text: 'Planning', feedbackIds: ['f1', 'f2'] }],
+    strengths: [{ text: 'Clear demos', feedbackIds: ['f1'] }],
+    growthAreas: [],
+    provider: 'rule-based',
+    generatedById: 'alice',
+    sources,
+    ...overrides,
+  });
+
+describe('FeedbackSummary Entity', () => {
+  describe('create', () => {
+    it('should record the feedback it was generated from', () => {
+      const summary = createSummary();
+
+      expect(summary.feedbackIds).toEqual(['f1', 'f2']);
+      expect(summary.sourceUpdatedAt).toEqual(new Date('2026-03-05T10:00:00Z'));
+    });
+
+    it('should only cite feedback it was generated from', () => {
+      expect(() =>
+        createSummary({ growthAreas: [{ text: 'Deadlines', feedbackIds: ['f3'] }] })
+      ).toThrow('Summary cites feedback it was not generated from');
+      expect(() => createSummary({ growthAreas: [{ text: 'Deadlines', feedbackIds: [] }] })).toThrow(
+        'Summary points must cite the feedback they are drawn from'
+      );
+    });
+
+    it('should not summarize a period without feedback', () => {
+      expect(() => createSummary({ sources: [] })).toThrow('Cannot summarize a period without feedback');
+    });
+  });
+
+  describe('isCurrentFor', () => {
+    it('should stay current while the feedback is unchanged', () => {
+      expect(createSummary().isCurrentFor([...sources].reverse())).toBe(true);
+    });
+
+    it('should go stale when feedback is added, removed or edited', () => {
+      const summary = createSummary();
+
+      expect(
+        summary.isCurrentFor([...sources, { id: 'f3', updatedAt: new Date('2026-03-02T10:00:00Z') }])
+      ).toBe(false);
+      expect(summary.isCurrentFor([sources[0]])).toBe(false);
+      expect(
+        summary.isCurrentFor([sources[0], { id: 'f2', updatedAt: new Date('2026-03-20T10:00:00Z') }])
+      ).toBe(false);
+    });
+  });
+});
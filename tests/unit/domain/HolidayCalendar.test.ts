@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { HolidayCalendar } from '@/src/domain/entities/HolidayCalendar';
+import { DateRange } from '@/src/domain/value-objects/DateRange';
+import { Absence } from '@/src/domain/entities/Absence';
+
+describe('HolidayCalendar Entity', () => {
+  const orgId = 'org-123';
+
+  describe('create', () => {
+    it('should create a calendar with sorted, de-duplicated holidays', () => {
+      const calendar = HolidayCalendar.create({
+        organizationId: orgId,
+        name: ' UK Bank Holidays ',
+        holidays: [
+          { date: '2025-12-25', name: 'Christmas Day' },
+          { date: '2025-01-01', name: "New Year's Day" },
+          { date: '2025-12-25', name: 'Christmas' },
+        ],
+      });
+
+      expect(calendar.name).toBe('UK Bank Holidays');
+      expect(calendar.holidays).toEqual([
+        { date: '2025-01-01', name: "New Year's Day" },
+        { date: '2025-12-25', name: 'Christmas' },
+      ]);
+      expect(calendar.departments).toEqual([]);
+      expect(calendar.userIds).toEqual([]);
+    });
+
+    it('should reject an empty name', () => {
+      expect(() => HolidayCalendar.create({ organizationId: orgId, name: '  ' })).toThrow(
+        'Holiday calendar name cannot be empty'
+      );
+    });
+
+    it('should reject malformed holiday dates', () => {
+      expect(() =>
+        HolidayCalendar.create({
+          organizationId: orgId,
+          name: 'Bad',
+          holidays: [{ date: '25/12/2025', name: 'Christmas' }],
+        })
+      ).toThrow('Invalid holiday date: 25/12/2025');
+    });
+  });
+
+  describe('holidays', () => {
+    it('should merge added holidays, replacing entries on the same date', () => {
+      const calendar = HolidayCalendar.create({
+        organizationId: orgId,
+        name: 'Company',
+        holidays: [{ date: '2025-05-01', name: 'Labour Day' }],
+      });
+
+      calendar.addHolidays([
+        { date: '2025-05-01', name: 'May Day' },
+        { date: '2025-05-26', name: 'Spring Bank Holiday' },
+      ]);
+
+      expect(calendar.holidays).toEqual([
+        { date: '2025-05-01', name: 'May Day' },
+        { date: '2025-05-26', name: 'Spring Bank Holiday' },
+      ]);
+    });
+
+    it('should list holidays within a date range', () => {
+      const calendar = HolidayCalendar.create({
+        organizationId: orgId,
+        name: 'Company',
+        holidays: [
+          { date: '2025-01-01', name: "New Year's Day" },
+          { date: '2025-04-18', name: 'Good Friday' },
+        ],
+      });
+
+      const range = DateRange.create(new Date(2025, 3, 1), new Date(2025, 3, 30));
+      expect(calendar.holidaysIn(range)).toEqual([{ date: '2025-04-18', name: 'Good Friday' }]);
+    });
+  });
+
+  describe('appliesTo', () => {
+    const calendar = HolidayCalendar.create({
+      organizationId: orgId,
+      name: 'Engineering',
+      departments: ['Engineering'],
+      userIds: ['user-1'],
+    });
+
+    it('should apply to directly assigned users', () => {
+      expect(calendar.appliesTo('user-1', 'Sales')).toBe(true);
+    });
+
+    it('should apply to members of assigned departments', () => {
+      expect(calendar.appliesTo('user-2', 'Engineering')).toBe(true);
+    });
+
+    it('should not apply to anyone else', () => {
+      expect(calendar.appliesTo('user-2', 'Sales')).toBe(false);
+      expect(calendar.appliesTo('user-2', null)).toBe(false);
+    });
+  });
+
+  describe('working days', () => {
+    it('should exclude holidays from an absence', () => {
+      const calendar = HolidayCalendar.create({
+        organizationId: orgId,
+        name: 'Company',
+        holidays: [{ date: '2025-04-18', name: 'Good Friday' }],
+      });
+      // Monday 14 April to Friday 18 April 2025
+      const absence = Absence.create(
+        orgId,
+        'user-1',
+        DateRange.create(new Date(2025, 3, 14), new Date(2025, 3, 18)),
+        'Easter break with family'
+      );
+
+      expect(absence.getWorkingDays()).toBe(5);
+      expect(absence.getWorkingDays(HolidayCalendar.dateKeysOf([calendar]))).toBe(4);
+    });
+
+    it('should ignore holidays that fall on weekends', () => {
+      // Saturday 27 December 2025
+      const holidays = new Set(['2025-12-27']);
+      const range = DateRange.create(new Date(2025, 11, 22), new Date(2025, 11, 28));
+
+      expect(range.workingDays(holidays)).toBe(range.workingDays());
+    });
+  });
+});
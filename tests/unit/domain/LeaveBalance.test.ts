@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { LeaveBalance } from '@/src/domain/entities/LeaveBalance';
+import { LeavePolicy, DEFAULT_LEAVE_POLICY } from '@/src/domain/value-objects/LeavePolicy';
+
+describe('LeavePolicy Value Object', () => {
+  describe('fromSettings', () => {
+    it('should fall back to defaults when settings are missing', () => {
+      const policy = LeavePolicy.fromSettings(undefined);
+
+      expect(policy.toObject()).toEqual(DEFAULT_LEAVE_POLICY);
+    });
+
+    it('should merge partial settings over defaults', () => {
+      const policy = LeavePolicy.fromSettings({ accrualMethod: 'MONTHLY', maxCarryoverDays: 10 });
+
+      expect(policy.accrualMethod).toBe('MONTHLY');
+      expect(policy.maxCarryoverDays).toBe(10);
+      expect(policy.defaultAnnualAllowance).toBe(DEFAULT_LEAVE_POLICY.defaultAnnualAllowance);
+    });
+
+    it('should reject a negative carryover cap', () => {
+      expect(() => LeavePolicy.fromSettings({ maxCarryoverDays: -1 })).toThrow(
+        'Carryover cap cannot be negative'
+      );
+    });
+  });
+
+  describe('accruedDays', () => {
+    it('should grant the full allowance upfront', () => {
+      const policy = LeavePolicy.fromSettings({ accrualMethod: 'UPFRONT' });
+
+      expect(policy.accruedDays(24, 2025, new Date(2025, 0, 15))).toBe(24);
+    });
+
+    it('should accrue one twelfth per started month', () => {
+      const policy = LeavePolicy.fromSettings({ accrualMethod: 'MONTHLY' });
+
+      expect(policy.accruedDays(24, 2025, new Date(2025, 0, 15))).toBe(2);
+      expect(policy.accruedDays(24, 2025, new Date(2025, 5, 1))).toBe(12);
+      expect(policy.accruedDays(25, 2025, new Date(2025, 2, 10))).toBe(6.25);
+    });
+
+    it('should return nothing before the year starts and everything after it ends', () => {
+      const policy = LeavePolicy.fromSettings({ accrualMethod: 'MONTHLY' });
+
+      expect(policy.accruedDays(24, 2025, new Date(2024, 11, 31))).toBe(0);
+      expect(policy.accruedDays(24, 2025, new Date(2026, 0, 1))).toBe(24);
+    });
+  });
+
+  describe('carryoverFrom', () => {
+    it('should cap carryover at the policy limit', () => {
+      const policy = LeavePolicy.fromSettings({ maxCarryoverDays: 5 });
+
+      expect(policy.carryoverFrom(8)).toBe(5);
+      expect(policy.carryoverFrom(3)).toBe(3);
+    });
+
+    it('should never carry over a negative remainder', () => {
+      const policy = LeavePolicy.fromSettings({ maxCarryoverDays: 5 });
+
+      expect(policy.carryoverFrom(-2)).toBe(0);
+    });
+  });
+});
+
+describe('LeaveBalance Entity', () => {
+  const upfront = LeavePolicy.fromSettings({ accrualMethod: 'UPFRONT' });
+  const asOf = new Date(2025, 5, 1);
+
+  describe('create', () => {
+    it('should create a balance with valid properties', () => {
+      const balance = LeaveBalance.create('org-123', 'user-123', 2025, 25, 3);
+
+      expect(balance.organizationId).toBe('org-123');
+      expect(balance.userId).toBe('user-123');
+      expect(balance.year).toBe(2025);
+      expect(balance.annualAllowance).toBe(25);
+      expect(balance.carriedOverDays).toBe(3);
+      expect(balance.id).toBeDefined();
+    });
+
+    it('should reject an allowance above 365 days', () => {
+      expect(() => LeaveBalance.create('org-123', 'user-123', 2025, 400)).toThrow(
+        'Annual allowance must be between 0 and 365 days'
+      );
+    });
+
+    it('should reject negative carryover', () => {
+      expect(() => LeaveBalance.create('org-123', 'user-123', 2025, 25, -1)).toThrow(
+        'Carried over days cannot be negative'
+      );
+    });
+  });
+
+  describe('remainingDays', () => {
+    it('should add carryover and subtract used days', () => {
+      const balance = LeaveBalance.create('org-123', 'user-123', 2025, 20, 5);
+
+      expect(balance.availableDays(upfront, asOf)).toBe(25);
+      expect(balance.remainingDays(upfront, 7, asOf)).toBe(18);
+    });
+
+    it('should reflect an updated allowance', () => {
+      const balance = LeaveBalance.create('org-123', 'user-123', 2025, 20);
+      balance.updateAllowance(30);
+
+      expect(balance.remainingDays(upfront, 0, asOf)).toBe(30);
+    });
+  });
+
+  describe('canTake', () => {
+    it('should refuse requests beyond the remaining balance', () => {
+      const balance = LeaveBalance.create('org-123', 'user-123', 2025, 10);
+
+      expect(balance.canTake(5, upfront, 5, asOf)).toBe(true);
+      expect(balance.canTake(6, upfront, 5, asOf)).toBe(false);
+    });
+
+    it('should allow any request when negative balances are permitted', () => {
+      const lenient = LeavePolicy.fromSettings({ allowNegativeBalance: true });
+      const balance = LeaveBalance.create('org-123', 'user-123', 2025, 10);
+
+      expect(balance.canTake(20, lenient, 5, asOf)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  NotificationChannel,
+  NotificationPreferences,
+} from '@/src/domain/value-objects/NotificationPreferences';
+
+describe('NotificationPreferences', () => {
+  it('uses the default channel for types the user never changed', () => {
+    const preferences = NotificationPreferences.create();
+
+    expect(preferences.channelFor('ABSENCE_APPROVED')).toBe(NotificationChannel.EMAIL);
+    expect(preferences.channelFor('FEEDBACK_REPLY')).toBe(NotificationChannel.IN_APP);
+  });
+
+  it('uses the channel the user picked', () => {
+    const preferences = NotificationPreferences.create({ FEEDBACK_RECEIVED: 'DIGEST' });
+
+    expect(preferences.channelFor('FEEDBACK_RECEIVED')).toBe(NotificationChannel.DIGEST);
+  });
+
+  it('ignores unknown types and channels', () => {
+    const preferences = NotificationPreferences.create({
+      BIRTHDAY: 'EMAIL',
+      FEEDBACK_REPLY: 'CARRIER_PIGEON',
+    });
+
+    expect(preferences.toJSON()).toEqual({});
+  });
+
+  it('does not let users turn off types the organization requires', () => {
+    const preferences = NotificationPreferences.create({
+      ABSENCE_REJECTED: 'OFF',
+      REVIEW_REMINDER: 'OFF',
+    });
+
+    expect(preferences.channelFor('ABSENCE_REJECTED', ['ABSENCE_REJECTED'])).toBe(
+      NotificationChannel.EMAIL
+    );
+    expect(preferences.channelFor('REVIEW_REMINDER', ['ABSENCE_REJECTED'])).toBe(
+      NotificationChannel.OFF
+    );
+  });
+
+  it('keeps earlier choices when changing others', () => {
+    const preferences = NotificationPreferences.create({ FEEDBACK_RECEIVED: 'DIGEST' }).with({
+      REVIEW_REMINDER: NotificationChannel.OFF,
+    });
+
+    expect(preferences.toJSON()).toEqual({ FEEDBACK_RECEIVED: 'DIGEST', REVIEW_REMINDER: 'OFF' });
+  });
+
+  it('reads required types from organization settings', () => {
+    expect(
+      NotificationPreferences.requiredTypesFromSettings(['ABSENCE_APPROVED', 'BIRTHDAY'])
+    ).toEqual(['ABSENCE_APPROVED']);
+    expect(NotificationPreferences.requiredTypesFromSettings('ABSENCE_APPROVED')).toEqual([]);
+  });
+});
@@ -0,0 +1,270 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ReviewCycle,
+  ReviewCycleStatus,
+  ReviewKind,
+  ReviewQuestionType,
+} from '@/src/domain/entities/ReviewCycle';
+
+const questions = [
+  { id: 'achievements', prompt: ' What went well? ', type: ReviewQuestionType.TEXT },
+  { id: 'overall', prompt: 'Overall performance', type: ReviewQuestionType.RATING },
+];
+
+const answers = [
+  { questionId: 'achievements', text: 'Shipped the billing migration.' },
+  { questionId: 'overall', rating: 4 },
+];
+
+const nextMonth = () => new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+
+const createCycle = () =>
+  ReviewCycle.create({
+    organizationId: 'org-1',
+    name: ' H1 Review ',
+    questions,
+    deadline: nextMonth(),
+    participants: [
+      { userId: 'alice', managerId: 'mona', peerIds: ['bob'] },
+      { userId: 'bob', managerId: 'mona', peerIds: [] },
+    ],
+    createdById: 'mona',
+  });
+
+const reviewOf = (cycle: ReviewCycle, revieweeId: string, kind: ReviewKind) =>
+  cycle.reviews.find((r) => r.revieweeId === revieweeId && r.kind === kind)!;
+
+/**
+ * Submit every manager review so the cycle can move to calibration
+ */
+const submitManagerReviews = (cycle: ReviewCycle, rating = 3) => {
+  for (const review of cycle.reviews.filter((r) => r.kind === ReviewKind.MANAGER)) {
+    cycle.submitReview(review.id, review.reviewerId, answers, rating);
+  }
+};
+
+describe('ReviewCycle Entity', () => {
+  describe('create', () => {
+    it('should create a draft with a trimmed name and questionnaire', () => {
+      const cycle = createCycle();
+
+      expect(cycle.status).toBe(ReviewCycleStatus.DRAFT);
+      expect(cycle.name).toBe('H1 Review');
+      expect(cycle.questions[0].prompt).toBe('What went well?');
+      expect(cycle.reviews).toEqual([]);
+    });
+
+    it('should require at least one question', () => {
+      expect(() =>
+        ReviewCycle.create({
+          organizationId: 'org-1',
+          name: 'H1 Review',
+          questions: [],
+          deadline: nextMonth(),
+          createdById: 'mona',
+        })
+      ).toThrow('A review questionnaire needs at least one question');
+    });
+
+    it('should not let participants review themselves as manager or peer', () => {
+      const create = (participant: { userId: string; managerId: string; peerIds: string[] }) =>
+        ReviewCycle.create({
+          organizationId: 'org-1',
+          name: 'H1 Review',
+          questions,
+          deadline: nextMonth(),
+          participants: [participant],
+          createdById: 'mona',
+        });
+
+      expect(() => create({ userId: 'mona', managerId: 'mona', peerIds: [] })).toThrow(
+        'Participants cannot write their own manager review'
+      );
+      expect(() => create({ userId: 'alice', managerId: 'mona', peerIds: ['alice'] })).toThrow(
+        'Participants cannot nominate themselves as a peer'
+      );
+    });
+  });
+
+  describe('open', () => {
+    it('should hand out self, peer and manager reviews', () => {
+      const cycle = createCycle();
+      cycle.open();
+
+      expect(cycle.status).toBe(ReviewCycleStatus.OPEN);
+      expect(cycle.openedAt).toBeInstanceOf(Date);
+      expect(cycle.reviews.map((r) => [r.revieweeId, r.reviewerId, r.kind])).toEqual([
+        ['alice', 'alice', ReviewKind.SELF],
+        ['alice', 'bob', ReviewKind.PEER],
+        ['alice', 'mona', ReviewKind.MANAGER],
+        ['bob', 'bob', ReviewKind.SELF],
+        ['bob', 'mona', ReviewKind.MANAGER],
+      ]);
+      expect(cycle.progress()).toEqual({ total: 5, submitted: 0 });
+    });
+
+    it('should need participants and a future deadline', () => {
+      const empty = ReviewCycle.create({
+        organizationId: 'org-1',
+        name: 'H1 Review',
+        questions,
+        deadline: nextMonth(),
+        createdById: 'mona',
+      });
+      expect(() => empty.open()).toThrow('A review cycle needs at least one participant');
+
+      const late = createCycle();
+      expect(() => late.open(new Date(Date.now() + 60 * 24 * 60 * 60 * 1000))).toThrow(
+        'The review deadline must be in the future'
+      );
+    });
+
+    it('should fix the questionnaire once open', () => {
+      const cycle = createCycle();
+      cycle.open();
+
+      expect(() => cycle.update({ name: 'Renamed' })).toThrow('Cannot edit a review cycle that is open');
+    });
+  });
+
+  describe('nominatePeers', () => {
+    it('should hand out reviews to new peers and withdraw those of dropped peers', () => {
+      const cycle = createCycle();
+      cycle.open();
+
+      const added = cycle.nominatePeers('alice', ['carol']);
+
+      expect(added).toEqual(['carol']);
+      expect(cycle.participants[0].peerIds).toEqual(['carol']);
+      expect(
+        cycle.reviews.filter((r) => r.kind === ReviewKind.PEER).map((r) => r.reviewerId)
+      ).toEqual(['carol']);
+    });
+
+    it('should keep peers who already submitted', () => {
+      const cycle = createCycle();
+      cycle.open();
+      const peerReview = reviewOf(cycle, 'alice', ReviewKind.PEER);
+      cycle.submitReview(peerReview.id, 'bob', answers);
+
+      expect(() => cycle.nominatePeers('alice', [])).toThrow(
+        'Peers who already submitted their review cannot be removed'
+      );
+    });
+
+    it('should limit nominations to five peers', () => {
+      const cycle = createCycle();
+
+      expect(() => cycle.nominatePeers('alice', ['p1', 'p2', 'p3', 'p4', 'p5', 'p6'])).toThrow(
+        'Participants can nominate at most 5 peers'
+      );
+    });
+  });
+
+  describe('submitReview', () => {
+    it('should record answers once', () => {
+      const cycle = createCycle();
+      cycle.open();
+      const selfReview = reviewOf(cycle, 'alice', ReviewKind.SELF);
+
+      cycle.submitReview(selfReview.id, 'alice', answers);
+
+      expect(reviewOf(cycle, 'alice', ReviewKind.SELF).submittedAt).toBeInstanceOf(Date);
+      expect(cycle.progress(ReviewKind.SELF)).toEqual({ total: 2, submitted: 1 });
+      expect(() => cycle.submitReview(selfReview.id, 'alice', answers)).toThrow(
+        'This review has already been submitted'
+      );
+    });
+
+    it('should only accept reviews from their reviewer', () => {
+      const cycle = createCycle();
+      cycle.open();
+
+      expect(() =>
+        cycle.submitReview(reviewOf(cycle, 'alice', ReviewKind.SELF).id, 'bob', answers)
+      ).toThrow('You can only submit reviews assigned to you');
+    });
+
+    it('should require every question to be answered', () => {
+      const cycle = createCycle();
+      cycle.open();
+
+      expect(() =>
+        cycle.submitReview(reviewOf(cycle, 'alice', ReviewKind.SELF).id, 'alice', [answers[0]])
+      ).toThrow('Please rate: Overall performance');
+    });
+
+    it('should require an overall rating on manager reviews only', () => {
+      const cycle = createCycle();
+      cycle.open();
+
+      expect(() =>
+        cycle.submitReview(reviewOf(cycle, 'alice', ReviewKind.MANAGER).id, 'mona', answers)
+      ).toThrow('Manager reviews need an overall rating');
+      expect(() =>
+        cycle.submitReview(reviewOf(cycle, 'alice', ReviewKind.SELF).id, 'alice', answers, 5)
+      ).toThrow('Only manager reviews carry an overall rating');
+    });
+  });
+
+  describe('calibration and closing', () => {
+    it('should wait for every manager review', () => {
+      const cycle = createCycle();
+      cycle.open();
+
+      expect(() => cycle.startCalibration()).toThrow('2 manager reviews are still outstanding');
+    });
+
+    it('should prefer the calibrated rating over the manager proposal', () => {
+      const cycle = createCycle();
+      cycle.open();
+      submitManagerReviews(cycle, 3);
+      cycle.startCalibration();
+
+      cycle.calibrate('alice', 4);
+      cycle.close();
+
+      expect(cycle.status).toBe(ReviewCycleStatus.CLOSED);
+      expect(cycle.closedAt).toBeInstanceOf(Date);
+      expect(cycle.finalRatingFor('alice')).toBe(4);
+      expect(cycle.finalRatingFor('bob')).toBe(3);
+    });
+
+    it('should only calibrate during calibration', () => {
+      const cycle = createCycle();
+      cycle.open();
+
+      expect(() => cycle.calibrate('alice', 4)).toThrow(
+        'Cannot calibrate ratings of a review cycle that is open'
+      );
+    });
+
+    it('should only close after calibration', () => {
+      const cycle = createCycle();
+
+      expect(() => cycle.close()).toThrow('Cannot close a review cycle that is draft');
+    });
+  });
+
+  describe('reminders', () => {
+    it('should group outstanding reviews by reviewer', () => {
+      const cycle = createCycle();
+      cycle.open();
+      cycle.submitReview(reviewOf(cycle, 'bob', ReviewKind.SELF).id, 'bob', answers);
+
+      const pending = cycle.pendingReviewsByReviewer();
+
+      expect(pending.get('alice')).toHaveLength(1);
+      expect(pending.get('bob')).toHaveLength(1);
+      expect(pending.get('mona')).toHaveLength(2);
+    });
+
+    it('should be overdue once an open cycle passes its deadline', () => {
+      const cycle = createCycle();
+      cycle.open();
+
+      expect(cycle.isOverdue()).toBe(false);
+      expect(cycle.isOverdue(new Date(Date.now() + 60 * 24 * 60 * 60 * 1000))).toBe(true);
+    });
+  });
+});
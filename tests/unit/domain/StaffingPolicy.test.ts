@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { Absence } from '@/src/domain/entities/Absence';
+import { DateRange } from '@/src/domain/value-objects/DateRange';
+import { DayPart, AbsenceDayPart } from '@/src/domain/value-objects/DayPart';
+import { StaffingPolicy, StaffingRule } from '@/src/domain/value-objects/StaffingPolicy';
+import { TeamCoverage } from '@/src/domain/value-objects/TeamCoverage';
+
+// Monday 2 - Friday 6 March 2026
+const week = DateRange.create(new Date(2026, 2, 2), new Date(2026, 2, 6));
+
+const absence = (
+  userId: string,
+  start: Date,
+  end: Date = start,
+  dayPart: DayPart = DayPart.fullDay()
+) => Absence.create('org-1', userId, DateRange.create(start, end), 'Family holiday away', undefined, dayPart);
+
+const approved = (...args: Parameters<typeof absence>) => {
+  const leave = absence(...args);
+  leave.approve();
+  return leave;
+};
+
+const rule: StaffingRule = { department: 'Support', minPresent: 2, enforcement: 'BLOCK' };
+
+describe('StaffingPolicy Value Object', () => {
+  it('should have no rules when nothing is configured', () => {
+    expect(StaffingPolicy.fromSettings(undefined).rules).toEqual([]);
+    expect(StaffingPolicy.fromSettings(null).ruleFor('Support')).toBeUndefined();
+  });
+
+  it('should find a department rule regardless of case', () => {
+    const policy = StaffingPolicy.create([{ ...rule, department: ' Support ' }]);
+
+    expect(policy.ruleFor('support')).toEqual(rule);
+    expect(policy.ruleFor('Sales')).toBeUndefined();
+    expect(policy.ruleFor(undefined)).toBeUndefined();
+  });
+
+  it('should allow one rule per department', () => {
+    expect(() => StaffingPolicy.create([rule, { ...rule, department: 'SUPPORT' }])).toThrow(
+      'There is already a staffing rule for SUPPORT'
+    );
+  });
+
+  it('should reject invalid rules', () => {
+    expect(() => StaffingPolicy.create([{ ...rule, department: '  ' }])).toThrow(
+      'Staffing rules need a department'
+    );
+    expect(() => StaffingPolicy.create([{ ...rule, minPresent: 0 }])).toThrow(
+      'Minimum staffing must be at least one person'
+    );
+    expect(() => StaffingPolicy.create([{ ...rule, minPresent: 1.5 }])).toThrow(
+      'Minimum staffing must be at least one person'
+    );
+  });
+});
+
+describe('TeamCoverage Value Object', () => {
+  it('should count who is present on each working day', () => {
+    const coverage = TeamCoverage.calculate({
+      range: DateRange.create(new Date(2026, 2, 2), new Date(2026, 2, 8)),
+      headcount: 4,
+      absences: [approved('user-1', new Date(2026, 2, 2), new Date(2026, 2, 3))],
+      rule,
+    });
+
+    // Weekend of 7-8 March is skipped
+    expect(coverage.days.map((day) => day.date)).toEqual([
+      '2026-03-02',
+      '2026-03-03',
+      '2026-03-04',
+      '2026-03-05',
+      '2026-03-06',
+    ]);
+    expect(coverage.days[0]).toMatchObject({ absent: 1, present: 3, belowMinimum: false });
+    expect(coverage.days[2]).toMatchObject({ absent: 0, present: 4 });
+  });
+
+  it('should report pending requests separately from approved leave', () => {
+    const coverage = TeamCoverage.calculate({
+      range: week,
+      headcount: 3,
+      absences: [absence('user-1', new Date(2026, 2, 2))],
+    });
+
+    expect(coverage.days[0]).toMatchObject({ absent: 0, pending: 1, present: 3 });
+  });
+
+  it('should ignore rejected, cancelled and deleted requests', () => {
+    const rejected = absence('user-1', new Date(2026, 2, 2));
+    rejected.reject('manager-1', 'Team offsite that week');
+    const deleted = approved('user-2', new Date(2026, 2, 2));
+    deleted.softDelete();
+
+    const coverage = TeamCoverage.calculate({
+      range: week,
+      headcount: 3,
+      absences: [rejected, deleted],
+    });
+
+    expect(coverage.days[0]).toMatchObject({ absent: 0, pending: 0, present: 3 });
+  });
+
+  it('should count half days once per person', () => {
+    const coverage = TeamCoverage.calculate({
+      range: week,
+      headcount: 3,
+      absences: [
+        approved('user-1', new Date(2026, 2, 2), undefined, DayPart.create(AbsenceDayPart.MORNING)),
+        approved('user-1', new Date(2026, 2, 2), undefined, DayPart.create(AbsenceDayPart.AFTERNOON)),
+        approved('user-2', new Date(2026, 2, 2), undefined, DayPart.create(AbsenceDayPart.MORNING)),
+      ],
+    });
+
+    expect(coverage.days[0]).toMatchObject({ absent: 1, present: 2 });
+  });
+
+  it('should skip holidays', () => {
+    const coverage = TeamCoverage.calculate({
+      range: week,
+      headcount: 3,
+      absences: [],
+      holidays: new Set(['2026-03-03']),
+    });
+
+    expect(coverage.days.map((day) => day.date)).not.toContain('2026-03-03');
+  });
+
+  it('should flag the days a new request would leave the department short', () => {
+    const existing = approved('user-1', new Date(2026, 2, 2), new Date(2026, 2, 4));
+    const request = absence('user-2', new Date(2026, 2, 4), new Date(2026, 2, 5));
+
+    const coverage = TeamCoverage.calculate({
+      range: request.dateRange,
+      headcount: 3,
+      absences: [existing, request],
+      rule,
+      assumeAbsent: request,
+    });
+
+    expect(coverage.shortfalls()).toEqual([
+      { date: '2026-03-04', headcount: 3, absent: 2, pending: 0, present: 1, belowMinimum: true },
+    ]);
+    expect(coverage.isBlocking()).toBe(true);
+  });
+
+  it('should only block under a BLOCK rule', () => {
+    const request = absence('user-2', new Date(2026, 2, 4));
+
+    const coverage = TeamCoverage.calculate({
+      range: request.dateRange,
+      headcount: 2,
+      absences: [],
+      rule: { ...rule, enforcement: 'WARN' },
+      assumeAbsent: request,
+    });
+
+    expect(coverage.shortfalls()).toHaveLength(1);
+    expect(coverage.isBlocking()).toBe(false);
+  });
+});
@@ -98,7 +98,7 @@ describe('User Entity', () => {
       expect(user.canViewSensitiveDataOf(user)).toBe(true);
     });
 
-    it('should allow manager to view sensitive data of same department', () => {
+    it('should allow manager to view sensitive data of their reports', () => {
       const manager = createTestUser({
         id: 'manager-id',
         role: Role.MANAGER,
@@ -107,13 +107,14 @@ describe('User Entity', () => {
       const employee = createTestUser({
         id: 'employee-id',
         role: Role.EMPLOYEE,
-        department: 'Engineering',
+        department: 'Sales',
+        managerId: 'manager-id',
       });
 
-      expect(manager.canViewSensitiveDataOf(employee)).toBe(true);
+      expect(manager.canViewSensitiveDataOf(employee, new Set(['employee-id']))).toBe(true);
     });
 
-    it('should not allow manager to view sensitive data of different department', () => {
+    it('should not allow manager to view sensitive data of same department outside their reports', () => {
       const manager = createTestUser({
         id: 'manager-id',
         role: Role.MANAGER,
@@ -122,10 +123,10 @@ describe('User Entity', () => {
       const employee = createTestUser({
         id: 'employee-id',
         role: Role.EMPLOYEE,
-        department: 'Sales',
+        department: 'Engineering',
       });
 
-      expect(manager.canViewSensitiveDataOf(employee)).toBe(false);
+      expect(manager.canViewSensitiveDataOf(employee, new Set(['someone-else']))).toBe(false);
     });
 
     it('should not allow employee to view other user sensitive data', () => {
@@ -138,14 +139,13 @@ describe('User Entity', () => {
         department: 'Engineering',
       });
 
-      expect(employee1.canViewSensitiveDataOf(employee2)).toBe(false);
+      expect(employee1.canViewSensitiveDataOf(employee2, new Set(['employee-2']))).toBe(false);
     });
 
-    it('should not allow manager without department to view sensitive data', () => {
+    it('should not allow manager without reports to view sensitive data', () => {
       const manager = createTestUser({
         id: 'manager-id',
         role: Role.MANAGER,
-        department: undefined,
       });
       const employee = createTestUser({
         id: 'employee-id',
@@ -156,6 +156,43 @@ describe('User Entity', () => {
     });
   });
 
+  describe('canApproveAbsencesOf', () => {
+    const manager = () => createTestUser({ id: 'manager-id', role: Role.MANAGER });
+    const employee = () => createTestUser({ id: 'employee-id', managerId: 'manager-id' });
+
+    it('should allow manager to approve absences of their reports', () => {
+      expect(manager().canApproveAbsencesOf(employee(), new Set(['employee-id']))).toBe(true);
+    });
+
+    it('should not allow manager to approve absences outside their reports', () => {
+      expect(manager().canApproveAbsencesOf(employee(), new Set())).toBe(false);
+    });
+
+    it('should not allow manager to approve their own absences', () => {
+      const self = manager();
+      expect(self.canApproveAbsencesOf(self, new Set(['manager-id']))).toBe(false);
+    });
+  });
+
+  describe('assignManager', () => {
+    it('should set and clear the manager', () => {
+      const user = createTestUser();
+
+      user.assignManager('manager-id');
+      expect(user.managerId).toBe('manager-id');
+
+      user.assignManager(undefined);
+      expect(user.managerId).toBeUndefined();
+    });
+
+    it('should not allow a user to report to themselves', () => {
+      const user = createTestUser();
+      expect(() => user.assignManager('test-user-id')).toThrow(
+        'A user cannot report to themselves'
+      );
+    });
+  });
+
   describe('canApproveAbsences', () => {
     it('should allow manager to approve absences', () => {
       const manager = createTestUser({ role: Role.MANAGER });
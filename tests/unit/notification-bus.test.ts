@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InProcessNotificationBus } from '@/src/infrastructure/services/InProcessNotificationBus';
+import { NotificationDTO } from '@/src/application/dtos/NotificationDTO';
+
+const notification = (id: string, userId: string): NotificationDTO => ({
+  id,
+  type: 'SYSTEM',
+  title: 'Title',
+  message: 'Message',
+  read: false,
+  userId,
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+});
+
+describe('InProcessNotificationBus', () => {
+  it('should deliver notifications to every subscriber of their user only', async () => {
+    const bus = new InProcessNotificationBus();
+    const firstTab = vi.fn();
+    const secondTab = vi.fn();
+    const otherUser = vi.fn();
+    bus.subscribe('user-1', firstTab);
+    bus.subscribe('user-1', secondTab);
+    bus.subscribe('user-2', otherUser);
+
+    await bus.publish(notification('n1', 'user-1'));
+
+    expect(firstTab).toHaveBeenCalledWith(expect.objectContaining({ id: 'n1' }));
+    expect(secondTab).toHaveBeenCalledTimes(1);
+    expect(otherUser).not.toHaveBeenCalled();
+  });
+
+  it('should stop delivering once unsubscribed', async () => {
+    const bus = new InProcessNotificationBus();
+    const listener = vi.fn();
+    const unsubscribe = bus.subscribe('user-1', listener);
+
+    unsubscribe();
+    await bus.publish(notification('n1', 'user-1'));
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -8,10 +8,10 @@ describe('Permissions.user.viewSensitive', () => {
   const anotherEmployee: PermissionUser = { id: '3', role: 'EMPLOYEE' as Role, email: 'other@test.com' };
 
   // Note: Frontend permission checks only allow self-access for viewSensitive.
-  // Server-side validates manager permissions with department checks.
+  // Server-side resolves the reporting line and passes it as managerChain.
   describe('Manager permissions (frontend only allows self)', () => {
     it('denies managers viewing other employees sensitive data (server validates)', () => {
-      // Frontend returns false; server handles manager access with department validation
+      // Frontend returns false; server handles manager access via the reporting line
       expect(Permissions.user.viewSensitive(manager, employee)).toBe(false);
       expect(Permissions.user.viewSensitive(manager, anotherEmployee)).toBe(false);
     });
@@ -22,11 +22,26 @@ describe('Permissions.user.viewSensitive', () => {
 
     it('denies managers viewing other managers sensitive data (server validates)', () => {
       const anotherManager: PermissionUser = { id: '4', role: 'MANAGER' as Role, email: 'manager2@test.com' };
-      // Frontend returns false; server handles manager access with department validation
+      // Frontend returns false; server handles manager access via the reporting line
       expect(Permissions.user.viewSensitive(manager, anotherManager)).toBe(false);
     });
   });
 
+  describe('Reporting line (managerChain resolved server-side)', () => {
+    it('allows managers to view sensitive data of direct and indirect reports', () => {
+      expect(Permissions.user.viewSensitive(manager, { id: '2', managerChain: ['1'] })).toBe(true);
+      expect(Permissions.user.viewSensitive(manager, { id: '3', managerChain: ['4', '1'] })).toBe(true);
+    });
+
+    it('denies managers outside the reporting line', () => {
+      expect(Permissions.user.viewSensitive(manager, { id: '2', managerChain: ['4'] })).toBe(false);
+    });
+
+    it('denies employees even when they appear in the chain', () => {
+      expect(Permissions.user.viewSensitive(employee, { id: '3', managerChain: ['2'] })).toBe(false);
+    });
+  });
+
   describe('Employee permissions', () => {
     it('allows employees to view their own sensitive data', () => {
       expect(Permissions.user.viewSensitive(employee, employee)).toBe(true);
@@ -48,7 +63,7 @@ describe('Permissions.user.edit', () => {
   const anotherEmployee: PermissionUser = { id: '3', role: 'EMPLOYEE' as Role, email: 'other@test.com' };
 
   // Note: Frontend permission checks only allow self-edit.
-  // Server-side validates manager permissions with department checks.
+  // Server-side resolves the reporting line and passes it as managerChain.
   it('denies managers editing other user profiles on frontend (server validates)', () => {
     // Frontend returns false; server handles manager access with department validation
     expect(Permissions.user.edit(manager, employee)).toBe(false);
@@ -112,6 +127,12 @@ describe('Permissions.user.updateSensitive', () => {
   it('denies employees updating sensitive fields', () => {
     expect(Permissions.user.updateSensitive(employee)).toBe(false);
   });
+
+  it('limits managers to their reports when a target is given', () => {
+    expect(Permissions.user.updateSensitive(manager, { id: '3', managerChain: ['1'] })).toBe(true);
+    expect(Permissions.user.updateSensitive(manager, { id: '3', managerChain: [] })).toBe(false);
+    expect(Permissions.user.updateSensitive(manager, { id: '1', managerChain: ['1'] })).toBe(false);
+  });
 });
 
 describe('Permissions.feedback.give', () => {
@@ -150,6 +171,55 @@ describe('Permissions.feedback.view', () => {
   it('denies unrelated users viewing feedback', () => {
     expect(Permissions.feedback.view(other, feedback)).toBe(false);
   });
+
+  it('hides manager-only notes from their receiver, even a manager', () => {
+    const note = { ...feedback, visibility: 'MANAGER_ONLY', receiverManagerChain: [manager.id] };
+    const noteAboutManager = { giverId: giver.id, receiverId: manager.id, visibility: 'MANAGER_ONLY' };
+
+    expect(Permissions.feedback.view(receiver, note)).toBe(false);
+    expect(Permissions.feedback.view(manager, note)).toBe(true);
+    expect(Permissions.feedback.view(giver, note)).toBe(true);
+    expect(Permissions.feedback.view(manager, noteAboutManager)).toBe(false);
+  });
+
+  it("limits manager-only notes to managers in the receiver's reporting line", () => {
+    const note = { ...feedback, visibility: 'MANAGER_ONLY' };
+
+    expect(Permissions.feedback.view(manager, { ...note, receiverManagerChain: ['5', manager.id] })).toBe(true);
+    expect(Permissions.feedback.view(manager, { ...note, receiverManagerChain: ['5'] })).toBe(false);
+    expect(Permissions.feedback.view(manager, note)).toBe(false);
+  });
+
+  it('hides feedback held back by moderation from its receiver only', () => {
+    const held = { ...feedback, moderationStatus: 'PENDING' };
+
+    expect(Permissions.feedback.view(receiver, held)).toBe(false);
+    expect(Permissions.feedback.view(receiver, { ...feedback, moderationStatus: 'REJECTED' })).toBe(false);
+    expect(Permissions.feedback.view(receiver, { ...feedback, moderationStatus: 'APPROVED' })).toBe(true);
+    expect(Permissions.feedback.view(giver, held)).toBe(true);
+    expect(Permissions.feedback.view(manager, held)).toBe(true);
+  });
+});
+
+describe('Permissions.feedback.viewGiver', () => {
+  const manager: PermissionUser = { id: '1', role: 'MANAGER' as Role, email: 'manager@test.com' };
+  const giver: PermissionUser = { id: '2', role: 'EMPLOYEE' as Role, email: 'giver@test.com' };
+  const receiver: PermissionUser = { id: '3', role: 'EMPLOYEE' as Role, email: 'receiver@test.com' };
+
+  it('shows the giver to everyone who can view the feedback', () => {
+    const feedback = { giverId: giver.id, receiverId: receiver.id, visibility: 'RECEIVER' };
+
+    expect(Permissions.feedback.viewGiver(receiver, feedback)).toBe(true);
+    expect(Permissions.feedback.viewGiver(manager, feedback)).toBe(true);
+  });
+
+  it('only shows the giver of anonymous feedback to the giver', () => {
+    const feedback = { giverId: giver.id, receiverId: receiver.id, visibility: 'ANONYMOUS' };
+
+    expect(Permissions.feedback.viewGiver(giver, feedback)).toBe(true);
+    expect(Permissions.feedback.viewGiver(receiver, feedback)).toBe(false);
+    expect(Permissions.feedback.viewGiver(manager, feedback)).toBe(false);
+  });
 });
 
 describe('Permissions.feedback.edit', () => {
@@ -172,6 +242,26 @@ describe('Permissions.feedback.edit', () => {
   });
 });
 
+describe('Permissions.feedback.summarize', () => {
+  const manager: PermissionUser = { id: '1', role: 'MANAGER' as Role, email: 'manager@test.com' };
+  const employee: PermissionUser = { id: '2', role: 'EMPLOYEE' as Role, email: 'employee@test.com' };
+
+  it("allows managers to summarize their reports' feedback", () => {
+    expect(Permissions.feedback.summarize(manager, { id: employee.id, managerChain: ['1'] })).toBe(true);
+    expect(Permissions.feedback.summarize(manager, { id: '3', managerChain: ['2', '1'] })).toBe(true);
+  });
+
+  it('denies summarizing feedback outside the reporting line', () => {
+    expect(Permissions.feedback.summarize(manager, { id: '3', managerChain: ['4'] })).toBe(false);
+    expect(Permissions.feedback.summarize(manager, { id: '3' })).toBe(false);
+  });
+
+  it('denies summarizing your own feedback or as an employee', () => {
+    expect(Permissions.feedback.summarize(manager, { id: manager.id, managerChain: ['1'] })).toBe(false);
+    expect(Permissions.feedback.summarize(employee, { id: '3', managerChain: ['2'] })).toBe(false);
+  });
+});
+
 describe('Permissions.absence.create', () => {
   const employee: PermissionUser = { id: '1', role: 'EMPLOYEE' as Role, email: 'employee@test.com' };
   const manager: PermissionUser = { id: '2', role: 'MANAGER' as Role, email: 'manager@test.com' };
@@ -213,6 +303,25 @@ describe('Permissions.absence.approve', () => {
   it('denies employees approving/rejecting absence requests', () => {
     expect(Permissions.absence.approve(employee)).toBe(false);
   });
+
+  it('limits managers to requests from their reports when the owner is given', () => {
+    expect(Permissions.absence.approve(manager, { id: '3', managerChain: ['5', '1'] })).toBe(true);
+    expect(Permissions.absence.approve(manager, { id: '3', managerChain: ['5'] })).toBe(false);
+  });
+
+  it('denies managers approving their own requests', () => {
+    expect(Permissions.absence.approve(manager, { id: '1', managerChain: ['1'] })).toBe(false);
+  });
+});
+
+describe('Permissions.absence.manageAllowance', () => {
+  const manager: PermissionUser = { id: '1', role: 'MANAGER' as Role, email: 'manager@test.com' };
+  const employee: PermissionUser = { id: '2', role: 'EMPLOYEE' as Role, email: 'employee@test.com' };
+
+  it('allows only managers to change leave allowances', () => {
+    expect(Permissions.absence.manageAllowance(manager)).toBe(true);
+    expect(Permissions.absence.manageAllowance(employee)).toBe(false);
+  });
 });
 
 describe('Permissions.absence.edit', () => {
@@ -246,6 +355,26 @@ describe('Permissions.absence.edit', () => {
   });
 });
 
+describe('Permissions.absence.requestCancellation', () => {
+  const manager: PermissionUser = { id: '1', role: 'MANAGER' as Role, email: 'manager@test.com' };
+  const employee: PermissionUser = { id: '2', role: 'EMPLOYEE' as Role, email: 'employee@test.com' };
+
+  it('allows employees to cancel their own approved leave', () => {
+    const approvedAbsence = { userId: employee.id, status: 'APPROVED' as const };
+    expect(Permissions.absence.requestCancellation(employee, approvedAbsence)).toBe(true);
+  });
+
+  it('denies cancelling pending requests (they can be edited or deleted instead)', () => {
+    const pendingAbsence = { userId: employee.id, status: 'PENDING' as const };
+    expect(Permissions.absence.requestCancellation(employee, pendingAbsence)).toBe(false);
+  });
+
+  it('denies managers requesting cancellation of other users leave', () => {
+    const approvedAbsence = { userId: employee.id, status: 'APPROVED' as const };
+    expect(Permissions.absence.requestCancellation(manager, approvedAbsence)).toBe(false);
+  });
+});
+
 describe('Permissions.absence.delete', () => {
   const manager: PermissionUser = { id: '1', role: 'MANAGER' as Role, email: 'manager@test.com' };
   const employee: PermissionUser = { id: '2', role: 'EMPLOYEE' as Role, email: 'employee@test.com' };
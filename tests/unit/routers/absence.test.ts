@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AbsenceStatus } from '@/src/domain/entities/Absence';
+import type { ILogger } from '@/src/application/ports/ILogger';
+import type { Context } from '@/server/trpc';
+
+const { container } = vi.hoisted(() => ({ container: {} as Record<string, unknown> }));
+
+vi.mock('@/src/infrastructure/di/container', () => ({ container }));
+vi.mock('@/server/db', () => ({ prisma: {} }));
+vi.mock('@/lib/audit', () => ({ auditAbsenceOperation: vi.fn() }));
+vi.mock('@/lib/auth/sessions', () => ({
+  validateSessionRecord: vi.fn(async () => true),
+  createSessionRecord: vi.fn(),
+  revokeSessionByToken: vi.fn(),
+}));
+vi.mock('@/lib/auth/passkeys', () => ({
+  isPasskeyRequiredForManagers: vi.fn(async () => false),
+  isPhishingResistantSession: vi.fn(() => true),
+}));
+vi.mock('@/lib/csrf', () => ({ validateCsrfFromRequest: vi.fn(async () => true) }));
+vi.mock('@/lib/rate-limit', () => ({
+  checkRateLimit: vi.fn(async () => ({ success: true, remaining: 100, reset: Date.now() })),
+  RATE_LIMITS: {},
+}));
+
+const { absenceRouter } = await import('@/server/routers/absence');
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as ILogger;
+
+const employeeId = 'cemployee000000000000000';
+const managerId = 'cmanager0000000000000000';
+const absenceId = 'cabsence0000000000000000';
+
+const callerFor = (userId: string, role: 'EMPLOYEE' | 'MANAGER') => {
+  const ctx: Context = {
+    prisma: {} as Context['prisma'],
+    session: {
+      userId,
+      id: userId,
+      email: `${userId}@example.com`,
+      role,
+      organizationId: 'org-1',
+      organizationSlug: 'acme',
+    },
+    req: new Request('http://localhost/api/trpc'),
+    logger: logger as unknown as Context['logger'],
+    requestId: 'test-request',
+  };
+  return absenceRouter.createCaller(ctx);
+};
+
+const dispatch = vi.fn();
+const reviewCancellation = vi.fn();
+
+describe('absence router - cancellation notifications', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    Object.assign(container, {
+      requestAbsenceCancellationUseCase: {
+        execute: vi.fn(async () => ({
+          absence: { id: absenceId, userId: employeeId, status: AbsenceStatus.APPROVED },
+          approvers: [{ id: managerId }],
+        })),
+      },
+      reviewAbsenceCancellationUseCase: { execute: reviewCancellation },
+      userRepository: { findById: vi.fn(async () => ({ id: employeeId, name: 'Erin' })) },
+      dispatchNotificationUseCase: { execute: dispatch },
+    });
+  });
+
+  it('tells the approvers about a cancellation request', async () => {
+    await callerFor(employeeId, 'EMPLOYEE').requestCancellation({
+      id: absenceId,
+      reason: 'Trip called off',
+    });
+
+    expect(dispatch).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: managerId, type: 'ABSENCE_CANCELLATION_REQUESTED' })
+    );
+  });
+
+  it('tells the employee their leave was cancelled', async () => {
+    reviewCancellation.mockResolvedValue({
+      id: absenceId,
+      userId: employeeId,
+      status: AbsenceStatus.CANCELLED,
+    });
+
+    await callerFor(managerId, 'MANAGER').reviewCancellation({
+      id: absenceId,
+      decision: 'APPROVED',
+    });
+
+    expect(dispatch).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: employeeId, type: 'ABSENCE_CANCELLED' })
+    );
+  });
+
+  it('tells the employee their cancellation was declined', async () => {
+    reviewCancellation.mockResolvedValue({
+      id: absenceId,
+      userId: employeeId,
+      status: AbsenceStatus.APPROVED,
+    });
+
+    await callerFor(managerId, 'MANAGER').reviewCancellation({
+      id: absenceId,
+      decision: 'REJECTED',
+      comment: 'Release week',
+    });
+
+    expect(dispatch).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: employeeId, type: 'ABSENCE_CANCELLATION_REJECTED' })
+    );
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { TRPCError } from '@trpc/server';
+import type { IAIProviderRegistry, IAIService } from '@/src/application/ports/IAIService';
+import type { IFeedbackRepository } from '@/src/domain/repositories/IFeedbackRepository';
+import type { IOrganizationRepository } from '@/src/domain/repositories/IOrganizationRepository';
+import type { IFeedbackSummaryRepository } from '@/src/domain/repositories/IFeedbackSummaryRepository';
+import type { IUserRepository } from '@/src/domain/repositories/IUserRepository';
+import type { ILogger } from '@/src/application/ports/ILogger';
+import { PolishFeedbackUseCase } from '@/src/application/use-cases/feedback/PolishFeedbackUseCase';
+import { SummarizeFeedbackUseCase } from '@/src/application/use-cases/feedback/SummarizeFeedbackUseCase';
+import { FeedbackVisibility } from '@/src/domain/entities/Feedback';
+import { User, Role } from '@/src/domain/entities/User';
+import { Email } from '@/src/domain/value-objects/Email';
+import type { Context } from '@/server/trpc';
+
+const { container } = vi.hoisted(() => ({ container: {} as Record<string, unknown> }));
+
+vi.mock('@/src/infrastructure/di/container', () => ({ container }));
+vi.mock('@/server/db', () => ({ prisma: {} }));
+vi.mock('@/lib/auth/sessions', () => ({
+  validateSessionRecord: vi.fn(async () => true),
+  createSessionRecord: vi.fn(),
+  revokeSessionByToken: vi.fn(),
+}));
+vi.mock('@/lib/auth/passkeys', () => ({
+  isPasskeyRequiredForManagers: vi.fn(async () => false),
+  isPhishingResistantSession: vi.fn(() => true),
+}));
+vi.mock('@/lib/csrf', () => ({ validateCsrfFromRequest: vi.fn(async () => true) }));
+vi.mock('@/lib/rate-limit', () => ({
+  checkRateLimit: vi.fn(async () => ({ success: true, remaining: 100, reset: Date.now() })),
+  RATE_LIMITS: {},
+}));
+
+const { feedbackRouter } = await import('@/server/routers/feedback');
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as ILogger;
+
+const giverId = 'cgiver000000000000000000';
+const receiverId = 'creceiver000000000000000';
+const content = 'Your release notes were late and missed half the changes again.';
+const polished = 'Sending release notes earlier, with every change listed, would help the team.';
+
+const callerFor = (userId: string, role: 'EMPLOYEE' | 'MANAGER' = 'EMPLOYEE') => {
+  const ctx: Context = {
+    prisma: {} as Context['prisma'],
+    session: {
+      userId,
+      id: userId,
+      email: `${userId}@example.com`,
+      role,
+      organizationId: 'org-1',
+      organizationSlug: 'acme',
+    },
+    req: new Request('http://localhost/api/trpc'),
+    logger: logger as unknown as Context['logger'],
+    requestId: 'test-request',
+  };
+  return feedbackRouter.createCaller(ctx);
+};
+
+const aiService = {
+  provider: 'huggingface',
+  isAvailable: () => true,
+  polishFeedback: vi.fn(async () => polished),
+} as unknown as IAIService & { polishFeedback: ReturnType<typeof vi.fn> };
+
+const createFeedback = vi.fn(async (input: { polishedBy?: string }) => ({
+  id: 'feedback-1',
+  giverId,
+  receiverId,
+  content,
+  polishedBy: input.polishedBy,
+  visibility: FeedbackVisibility.MANAGER_ONLY, // Not announced, so nothing else to fake
+}));
+
+const submit = (polishToken?: string) =>
+  callerFor(giverId).create({
+    receiverId,
+    content,
+    polishedContent: polished,
+    isPolished: true,
+    polishToken,
+  });
+
+describe('feedback router - polishing provider', () => {
+  beforeAll(() => {
+    process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    aiService.polishFeedback.mockResolvedValue(polished);
+
+    Object.assign(container, {
+      polishFeedbackUseCase: new PolishFeedbackUseCase(
+        {} as IFeedbackRepository,
+        { resolve: () => aiService } as unknown as IAIProviderRegistry,
+        { findById: vi.fn(async () => null) } as unknown as IOrganizationRepository,
+        logger
+      ),
+      createFeedbackUseCase: { execute: createFeedback },
+    });
+  });
+
+  it('records the provider that polished the text', async () => {
+    const result = await callerFor(giverId).polishWithAI({ content });
+    expect(result).toMatchObject({ polishedContent: polished, provider: 'huggingface' });
+
+    await submit((result as { polishToken: string }).polishToken);
+
+    expect(createFeedback).toHaveBeenCalledWith(
+      expect.objectContaining({ polishedBy: 'huggingface' })
+    );
+  });
+
+  it('records nothing without a token from the server', async () => {
+    await submit();
+    await submit('forged');
+
+    for (const [input] of createFeedback.mock.calls) {
+      expect(input.polishedBy).toBeUndefined();
+    }
+  });
+
+  it('records nothing for a token issued to another user', async () => {
+    const result = await callerFor(receiverId).polishWithAI({ content });
+    await submit((result as { polishToken: string }).polishToken);
+
+    expect(createFeedback).toHaveBeenCalledWith(
+      expect.objectContaining({ polishedBy: undefined })
+    );
+  });
+
+  it('records nothing when the provider fell back to the original text', async () => {
+    aiService.polishFeedback.mockResolvedValue(content);
+
+    const result = await callerFor(giverId).polishWithAI({ content });
+
+    expect(result).toEqual({ polishedContent: content, provider: undefined });
+  });
+});
+
+describe('feedback router - summaries', () => {
+  const user = (id: string, role: Role, managerId?: string) =>
+    User.create({
+      id,
+      organizationId: 'org-1',
+      email: Email.create(`${id}@example.com`),
+      name: id,
+      role,
+      managerId,
+    });
+
+  // ceo -> alice -> dev, ceo -> bob -> ops
+  const ids = {
+    ceo: 'cceo00000000000000000000',
+    alice: 'calice000000000000000000',
+    dev: 'cdev00000000000000000000',
+    bob: 'cbob00000000000000000000',
+    ops: 'cops00000000000000000000',
+  };
+  const users = new Map(
+    [
+      user(ids.ceo, Role.MANAGER),
+      user(ids.alice, Role.MANAGER, ids.ceo),
+      user(ids.dev, Role.EMPLOYEE, ids.alice),
+      user(ids.bob, Role.MANAGER, ids.ceo),
+      user(ids.ops, Role.EMPLOYEE, ids.bob),
+    ].map((u) => [u.id, u])
+  );
+
+  const userRepository = {
+    findById: vi.fn(async (id: string) => users.get(id) ?? null),
+    findManagerChain: vi.fn(async (id: string) => {
+      const chain: User[] = [];
+      let current = users.get(id);
+      while (current?.managerId) {
+        current = users.get(current.managerId);
+        if (current) chain.push(current);
+      }
+      return chain;
+    }),
+  } as unknown as IUserRepository;
+
+  const findByReceiverId = vi.fn(async () => ({ feedbacks: [], total: 0 }));
+  const period = { from: new Date('2026-07-01'), to: new Date('2026-09-30') };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    Object.assign(container, {
+      summarizeFeedbackUseCase: new SummarizeFeedbackUseCase(
+        { findByReceiverId } as unknown as IFeedbackRepository,
+        { findForPeriod: vi.fn(async () => null) } as unknown as IFeedbackSummaryRepository,
+        userRepository,
+        { findById: vi.fn(async () => null) } as unknown as IOrganizationRepository,
+        { resolve: () => aiService } as unknown as IAIProviderRegistry,
+        logger
+      ),
+    });
+  });
+
+  it('lets managers look up summaries of their reports', async () => {
+    await expect(
+      callerFor(ids.alice, 'MANAGER').getSummary({ userId: ids.dev, ...period })
+    ).resolves.toBeNull();
+    await expect(
+      callerFor(ids.ceo, 'MANAGER').getSummary({ userId: ids.dev, ...period })
+    ).resolves.toBeNull();
+  });
+
+  it('rejects summarizing feedback of another team', async () => {
+    for (const request of [
+      callerFor(ids.alice, 'MANAGER').getSummary({ userId: ids.ops, ...period }),
+      callerFor(ids.alice, 'MANAGER').summarize({ userId: ids.ops, ...period }),
+      callerFor(ids.alice, 'MANAGER').summarize({ userId: ids.ceo, ...period }),
+    ]) {
+      await expect(request).rejects.toBeInstanceOf(TRPCError);
+      await expect(request).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    }
+    expect(findByReceiverId).not.toHaveBeenCalled();
+  });
+});
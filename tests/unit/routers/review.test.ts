@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TRPCError } from '@trpc/server';
+import { User, Role } from '@/src/domain/entities/User';
+import { Email } from '@/src/domain/value-objects/Email';
+import {
+  ReviewCycle,
+  ReviewKind,
+  ReviewQuestionType,
+} from '@/src/domain/entities/ReviewCycle';
+import type { IUserRepository } from '@/src/domain/repositories/IUserRepository';
+import type { IReviewCycleRepository } from '@/src/domain/repositories/IReviewCycleRepository';
+import type { ILogger } from '@/src/application/ports/ILogger';
+import { CreateReviewCycleUseCase } from '@/src/application/use-cases/review/CreateReviewCycleUseCase';
+import { CalibrateReviewRatingUseCase } from '@/src/application/use-cases/review/CalibrateReviewRatingUseCase';
+import { CloseReviewCycleUseCase } from '@/src/application/use-cases/review/CloseReviewCycleUseCase';
+import { GetReviewCycleUseCase } from '@/src/application/use-cases/review/GetReviewCycleUseCase';
+import type { Context } from '@/server/trpc';
+
+const { container } = vi.hoisted(() => ({ container: {} as Record<string, unknown> }));
+
+vi.mock('@/src/infrastructure/di/container', () => ({ container }));
+vi.mock('@/server/db', () => ({ prisma: {} }));
+vi.mock('@/lib/auth/sessions', () => ({
+  validateSessionRecord: vi.fn(async () => true),
+  createSessionRecord: vi.fn(),
+  revokeSessionByToken: vi.fn(),
+}));
+vi.mock('@/lib/auth/passkeys', () => ({
+  isPasskeyRequiredForManagers: vi.fn(async () => false),
+  isPhishingResistantSession: vi.fn(() => true),
+}));
+vi.mock('@/lib/csrf', () => ({ validateCsrfFromRequest: vi.fn(async () => true) }));
+vi.mock('@/lib/rate-limit', () => ({
+  checkRateLimit: vi.fn(async () => ({ success: true, remaining: 100, reset: Date.now() })),
+  RATE_LIMITS: {},
+}));
+
+const { reviewRouter } = await import('@/server/routers/review');
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as ILogger;
+
+/**
+ * Org chart used by every test:
+ *
+ *   ceo
+ *   ├── alice (manager) ── dev
+ *   └── bob (manager) ──── ops
+ */
+const ids = {
+  ceo: 'cceo00000000000000000000',
+  alice: 'calice000000000000000000',
+  dev: 'cdev00000000000000000000',
+  bob: 'cbob00000000000000000000',
+  ops: 'cops00000000000000000000',
+};
+
+function user(id: string, role: Role, managerId?: string): User {
+  return User.create({
+    id,
+    organizationId: 'org-1',
+    email: Email.create(`${id}@example.com`),
+    name: id,
+    role,
+    managerId,
+  });
+}
+
+const users = new Map<string, User>();
+
+function resetUsers() {
+  users.clear();
+  for (const u of [
+    user(ids.ceo, Role.MANAGER),
+    user(ids.alice, Role.MANAGER, ids.ceo),
+    user(ids.dev, Role.EMPLOYEE, ids.alice),
+    user(ids.bob, Role.MANAGER, ids.ceo),
+    user(ids.ops, Role.EMPLOYEE, ids.bob),
+  ]) {
+    users.set(u.id, u);
+  }
+}
+
+const userRepository = {
+  findById: vi.fn(async (id: string) => users.get(id) ?? null),
+  findManagerChain: vi.fn(async (id: string) => {
+    const chain: User[] = [];
+    let current = users.get(id);
+    while (current?.managerId) {
+      current = users.get(current.managerId);
+      if (current) chain.push(current);
+    }
+    return chain;
+  }),
+  save: vi.fn(async (u: User) => {
+    users.set(u.id, u);
+    return u;
+  }),
+} as unknown as IUserRepository;
+
+const cycles = new Map<string, ReviewCycle>();
+const reviewCycleRepository = {
+  findById: vi.fn(async (id: string) => cycles.get(id) ?? null),
+  save: vi.fn(async (cycle: ReviewCycle) => {
+    cycles.set(cycle.id, cycle);
+    return cycle;
+  }),
+} as unknown as IReviewCycleRepository;
+
+/**
+ * Bob's cycle for ops, in calibration with a proposed rating of 3
+ */
+function calibratingCycle(): ReviewCycle {
+  const cycle = ReviewCycle.create({
+    id: 'cycle-1',
+    organizationId: 'org-1',
+    name: 'H1 Review',
+    questions: [{ id: 'overall', prompt: 'Overall performance', type: ReviewQuestionType.RATING }],
+    deadline: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+    participants: [{ userId: ids.ops, managerId: ids.bob, peerIds: [] }],
+    createdById: ids.bob,
+  });
+  cycle.open();
+  const managerReview = cycle.reviews.find((r) => r.kind === ReviewKind.MANAGER)!;
+  cycle.submitReview(managerReview.id, ids.bob, [{ questionId: 'overall', rating: 3 }], 3);
+  cycle.startCalibration();
+  return cycle;
+}
+
+const callerFor = (userId: string) => {
+  const ctx: Context = {
+    prisma: {} as Context['prisma'],
+    session: {
+      userId,
+      id: userId,
+      email: `${userId}@example.com`,
+      role: users.get(userId)!.role as 'EMPLOYEE' | 'MANAGER',
+      organizationId: 'org-1',
+      organizationSlug: 'acme',
+    },
+    req: new Request('http://localhost/api/trpc'),
+    logger: logger as unknown as Context['logger'],
+    requestId: 'test-request',
+  };
+  return reviewRouter.createCaller(ctx);
+};
+
+const newCycle = (participantIds: string[]) => ({
+  name: 'H2 Review',
+  questions: [{ id: 'overall', prompt: 'Overall performance', type: 'RATING' as const }],
+  deadline: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+  participantIds,
+});
+
+async function expectCode(promise: Promise<unknown>, code: TRPCError['code']) {
+  await expect(promise).rejects.toBeInstanceOf(TRPCError);
+  await expect(promise).rejects.toMatchObject({ code });
+}
+
+describe('review router - reporting lines', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetUsers();
+    cycles.clear();
+    cycles.set('cycle-1', calibratingCycle());
+
+    Object.assign(container, {
+      createReviewCycleUseCase: new CreateReviewCycleUseCase(
+        reviewCycleRepository,
+        userRepository,
+        logger
+      ),
+      calibrateReviewRatingUseCase: new CalibrateReviewRatingUseCase(
+        reviewCycleRepository,
+        userRepository,
+        logger
+      ),
+      closeReviewCycleUseCase: new CloseReviewCycleUseCase(
+        reviewCycleRepository,
+        userRepository,
+        logger
+      ),
+      getReviewCycleUseCase: new GetReviewCycleUseCase(
+        reviewCycleRepository,
+        userRepository,
+        logger
+      ),
+      dispatchNotificationUseCase: { execute: vi.fn() },
+    });
+  });
+
+  it('lets a manager review the people who report to them', async () => {
+    const cycle = await callerFor(ids.bob).create(newCycle([ids.ops]));
+
+    expect(cycle.participants).toEqual([
+      expect.objectContaining({ userId: ids.ops, managerId: ids.bob }),
+    ]);
+  });
+
+  it('records the nearest manager when a skip-level manager adds someone', async () => {
+    const cycle = await callerFor(ids.ceo).create(newCycle([ids.ops]));
+
+    expect(cycle.participants).toEqual([
+      expect.objectContaining({ userId: ids.ops, managerId: ids.bob }),
+    ]);
+  });
+
+  it('rejects adding people outside the reporting line', async () => {
+    await expectCode(callerFor(ids.alice).create(newCycle([ids.ops])), 'FORBIDDEN');
+    await expectCode(callerFor(ids.alice).create(newCycle([ids.ceo])), 'FORBIDDEN');
+    expect(reviewCycleRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('rejects calibrating someone outside the reporting line', async () => {
+    await expectCode(
+      callerFor(ids.alice).calibrate({ cycleId: 'cycle-1', userId: ids.ops, rating: 5 }),
+      'FORBIDDEN'
+    );
+    expect(reviewCycleRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('rejects closing a cycle for people outside the reporting line', async () => {
+    await expectCode(callerFor(ids.alice).close({ id: 'cycle-1' }), 'FORBIDDEN');
+    expect(userRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('lets managers above the participants calibrate and close', async () => {
+    await callerFor(ids.ceo).calibrate({ cycleId: 'cycle-1', userId: ids.ops, rating: 4 });
+    await callerFor(ids.ceo).close({ id: 'cycle-1' });
+
+    expect(users.get(ids.ops)!.performanceRating).toBe(4);
+  });
+
+  it('only shows the full cycle to managers above every participant', async () => {
+    const full = await callerFor(ids.bob).getById({ id: 'cycle-1' });
+    expect(full.participants[0]).toHaveProperty('proposedRating', 3);
+
+    await expect(callerFor(ids.alice).getById({ id: 'cycle-1' })).rejects.toThrow(
+      'Review cycle not found'
+    );
+  });
+});
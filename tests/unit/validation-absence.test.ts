@@ -1,5 +1,19 @@
 import { describe, it, expect } from 'vitest';
-import { absenceRequestSchema } from '@/lib/validations/absence';
+import {
+  absenceRequestSchema,
+  absenceTypeSchema,
+  leavePolicySchema,
+  updateLeaveAllowanceSchema,
+  approvalWorkflowSchema,
+  updateAbsenceStatusSchema,
+  updateAbsenceSchema,
+  requestAbsenceCancellationSchema,
+  reviewAbsenceCancellationSchema,
+  holidayCalendarSchema,
+  importHolidayCalendarSchema,
+  staffingRulesSchema,
+  teamCoverageSchema,
+} from '@/lib/validations/absence';
 
 describe('absenceRequestSchema', () => {
   // Helper to create future dates (to avoid "past date" validation errors)
@@ -161,4 +175,326 @@ describe('absenceRequestSchema', () => {
     const result = absenceRequestSchema.safeParse(invalidData);
     expect(result.success).toBe(false);
   });
+
+  it('defaults to a full-day absence', () => {
+    const result = absenceRequestSchema.safeParse({
+      startDate: getFutureDate(1),
+      endDate: getFutureDate(2),
+      reason: 'Family vacation',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.dayPart).toBe('FULL_DAY');
+  });
+
+  it('accepts a half day on a single day', () => {
+    const day = getFutureDate(3);
+    const result = absenceRequestSchema.safeParse({
+      startDate: day,
+      endDate: day,
+      dayPart: 'MORNING',
+      reason: 'Dentist appointment',
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects a half day spanning several days', () => {
+    const result = absenceRequestSchema.safeParse({
+      startDate: getFutureDate(3),
+      endDate: getFutureDate(4),
+      dayPart: 'AFTERNOON',
+      reason: 'Dentist appointment',
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toContain('same day');
+    }
+  });
+
+  it('requires start and end time for hourly absences', () => {
+    const day = getFutureDate(3);
+    const missing = absenceRequestSchema.safeParse({
+      startDate: day,
+      endDate: day,
+      dayPart: 'HOURS',
+      reason: 'Dentist appointment',
+    });
+    const reversed = absenceRequestSchema.safeParse({
+      startDate: day,
+      endDate: day,
+      dayPart: 'HOURS',
+      startTime: '14:00',
+      endTime: '10:00',
+      reason: 'Dentist appointment',
+    });
+    const valid = absenceRequestSchema.safeParse({
+      startDate: day,
+      endDate: day,
+      dayPart: 'HOURS',
+      startTime: '10:00',
+      endTime: '12:30',
+      reason: 'Dentist appointment',
+    });
+
+    expect(missing.success).toBe(false);
+    expect(reversed.success).toBe(false);
+    expect(valid.success).toBe(true);
+  });
+});
+
+describe('absenceTypeSchema', () => {
+  const validData = {
+    name: 'Bereavement',
+    category: 'OTHER',
+    color: '#6b7280',
+    requiresApproval: true,
+    countsAgainstAllowance: false,
+  };
+
+  it('validates correct absence type data', () => {
+    const result = absenceTypeSchema.safeParse(validData);
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects non-hex colors', () => {
+    const result = absenceTypeSchema.safeParse({ ...validData, color: 'gray' });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects unknown categories', () => {
+    const result = absenceTypeSchema.safeParse({ ...validData, category: 'SABBATICAL' });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('leavePolicySchema', () => {
+  const validData = {
+    accrualMethod: 'MONTHLY',
+    defaultAnnualAllowance: 25,
+    maxCarryoverDays: 5,
+    allowNegativeBalance: false,
+  };
+
+  it('validates correct leave policy data', () => {
+    const result = leavePolicySchema.safeParse(validData);
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects unknown accrual methods', () => {
+    const result = leavePolicySchema.safeParse({ ...validData, accrualMethod: 'WEEKLY' });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects negative carryover caps', () => {
+    const result = leavePolicySchema.safeParse({ ...validData, maxCarryoverDays: -1 });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('updateLeaveAllowanceSchema', () => {
+  it('rejects allowances above 365 days', () => {
+    const result = updateLeaveAllowanceSchema.safeParse({
+      userId: 'clh3sa9z10000qzrmn831i7rn',
+      year: 2025,
+      annualAllowance: 400,
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('approvalWorkflowSchema', () => {
+  it('validates a manager then HR chain for long requests', () => {
+    const result = approvalWorkflowSchema.safeParse([
+      { approverType: 'REPORTING_MANAGER' },
+      { approverType: 'DEPARTMENT_MANAGER', department: 'HR', whenDaysExceed: 10 },
+    ]);
+    expect(result.success).toBe(true);
+  });
+
+  it('requires a department for department steps', () => {
+    const result = approvalWorkflowSchema.safeParse([{ approverType: 'DEPARTMENT_MANAGER' }]);
+    expect(result.success).toBe(false);
+  });
+
+  it('requires an approver for named steps', () => {
+    const result = approvalWorkflowSchema.safeParse([{ approverType: 'SPECIFIC_USER' }]);
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects a conditional first step', () => {
+    const result = approvalWorkflowSchema.safeParse([
+      { approverType: 'REPORTING_MANAGER', whenDaysExceed: 3 },
+    ]);
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects empty and overly long chains', () => {
+    expect(approvalWorkflowSchema.safeParse([]).success).toBe(false);
+    expect(
+      approvalWorkflowSchema.safeParse(Array(6).fill({ approverType: 'REPORTING_MANAGER' })).success
+    ).toBe(false);
+  });
+});
+
+describe('staffingRulesSchema', () => {
+  const rule = { department: 'Support', minPresent: 2, enforcement: 'WARN' };
+
+  it('accepts one rule per department', () => {
+    const result = staffingRulesSchema.safeParse([rule, { ...rule, department: 'Sales' }]);
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects two rules for the same department', () => {
+    const result = staffingRulesSchema.safeParse([rule, { ...rule, department: 'support' }]);
+    expect(result.success).toBe(false);
+  });
+
+  it('requires at least one person present', () => {
+    const result = staffingRulesSchema.safeParse([{ ...rule, minPresent: 0 }]);
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects unknown enforcement', () => {
+    const result = staffingRulesSchema.safeParse([{ ...rule, enforcement: 'IGNORE' }]);
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('teamCoverageSchema', () => {
+  it('accepts a month', () => {
+    const result = teamCoverageSchema.safeParse({ startDate: '2026-03-01', endDate: '2026-03-31' });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects ranges longer than 62 days', () => {
+    const result = teamCoverageSchema.safeParse({ startDate: '2026-01-01', endDate: '2026-06-30' });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('updateAbsenceStatusSchema', () => {
+  it('accepts an optional decision comment', () => {
+    const result = updateAbsenceStatusSchema.safeParse({
+      id: 'clh3sa9z10000qzrmn831i7rn',
+      status: 'APPROVED',
+      comment: 'Enjoy the break',
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('requires a reason when rejecting', () => {
+    const result = updateAbsenceStatusSchema.safeParse({
+      id: 'clh3sa9z10000qzrmn831i7rn',
+      status: 'REJECTED',
+      comment: '   ',
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects comments over 500 characters', () => {
+    const result = updateAbsenceStatusSchema.safeParse({
+      id: 'clh3sa9z10000qzrmn831i7rn',
+      status: 'REJECTED',
+      comment: 'a'.repeat(501),
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('updateAbsenceSchema', () => {
+  const getFutureDate = (daysFromNow: number): Date => {
+    const date = new Date();
+    date.setDate(date.getDate() + daysFromNow);
+    return date;
+  };
+
+  it('accepts new dates and reason for a request', () => {
+    const result = updateAbsenceSchema.safeParse({
+      id: 'clh3sa9z10000qzrmn831i7rn',
+      startDate: getFutureDate(3),
+      endDate: getFutureDate(4),
+      reason: 'Moved to later in the week',
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('applies the same date rules as a new request', () => {
+    const result = updateAbsenceSchema.safeParse({
+      id: 'clh3sa9z10000qzrmn831i7rn',
+      startDate: getFutureDate(3),
+      endDate: getFutureDate(4),
+      dayPart: 'MORNING',
+      reason: 'Moved to later in the week',
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('requestAbsenceCancellationSchema', () => {
+  it('requires a reason', () => {
+    expect(
+      requestAbsenceCancellationSchema.safeParse({ id: 'clh3sa9z10000qzrmn831i7rn', reason: '  ' })
+        .success
+    ).toBe(false);
+    expect(
+      requestAbsenceCancellationSchema.safeParse({
+        id: 'clh3sa9z10000qzrmn831i7rn',
+        reason: 'Trip was called off',
+      }).success
+    ).toBe(true);
+  });
+});
+
+describe('reviewAbsenceCancellationSchema', () => {
+  it('accepts a cancellation without a comment', () => {
+    const result = reviewAbsenceCancellationSchema.safeParse({
+      id: 'clh3sa9z10000qzrmn831i7rn',
+      decision: 'APPROVED',
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('requires a reason when declining', () => {
+    const result = reviewAbsenceCancellationSchema.safeParse({
+      id: 'clh3sa9z10000qzrmn831i7rn',
+      decision: 'REJECTED',
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('holidayCalendarSchema', () => {
+  it('validates a calendar with holidays', () => {
+    const result = holidayCalendarSchema.safeParse({
+      name: 'UK Bank Holidays',
+      holidays: [{ date: '2025-12-25', name: 'Christmas Day' }],
+      departments: ['Engineering'],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects holiday dates that are not YYYY-MM-DD', () => {
+    const result = holidayCalendarSchema.safeParse({
+      name: 'UK Bank Holidays',
+      holidays: [{ date: '25/12/2025', name: 'Christmas Day' }],
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('importHolidayCalendarSchema', () => {
+  it('requires a target calendar or a new calendar name', () => {
+    const result = importHolidayCalendarSchema.safeParse({ content: 'BEGIN:VCALENDAR' });
+    expect(result.success).toBe(false);
+  });
+
+  it('accepts an import into a new calendar', () => {
+    const result = importHolidayCalendarSchema.safeParse({
+      name: 'Imported',
+      content: 'BEGIN:VCALENDAR',
+    });
+    expect(result.success).toBe(true);
+  });
 });
@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { feedbackSchema } from '@/lib/validations/feedback';
+import {
+  feedbackSchema,
+  feedbackCompetenciesSchema,
+  competencyFrameworkSchema,
+  requestFeedbackSchema,
+  feedbackReplySchema,
+  summarizeFeedbackSchema,
+} from '@/lib/validations/feedback';
 
 describe('feedbackSchema', () => {
   it('validates correct feedback data', () => {
@@ -187,3 +194,110 @@ describe('feedbackSchema', () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe('feedbackCompetenciesSchema', () => {
+  it('accepts tagged competencies with or without a rating', () => {
+    const result = feedbackCompetenciesSchema.safeParse([
+      { competency: 'communication', rating: 4 },
+      { competency: 'ownership' },
+    ]);
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects ratings outside 1-5', () => {
+    expect(feedbackCompetenciesSchema.safeParse([{ competency: 'communication', rating: 0 }]).success).toBe(false);
+    expect(feedbackCompetenciesSchema.safeParse([{ competency: 'communication', rating: 6 }]).success).toBe(false);
+    expect(feedbackCompetenciesSchema.safeParse([{ competency: 'communication', rating: 2.5 }]).success).toBe(false);
+  });
+
+  it('rejects the same competency tagged twice', () => {
+    const result = feedbackCompetenciesSchema.safeParse([
+      { competency: 'communication', rating: 4 },
+      { competency: 'communication' },
+    ]);
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('competencyFrameworkSchema', () => {
+  it('accepts slug keys with names', () => {
+    const result = competencyFrameworkSchema.safeParse([
+      { key: 'technical-skills', name: 'Technical Skills', description: 'Writes solid code' },
+    ]);
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects keys that are not slugs', () => {
+    const result = competencyFrameworkSchema.safeParse([{ key: 'Technical Skills', name: 'Technical Skills' }]);
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects duplicate keys', () => {
+    const result = competencyFrameworkSchema.safeParse([
+      { key: 'ownership', name: 'Ownership' },
+      { key: 'ownership', name: 'Owning it' },
+    ]);
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('requestFeedbackSchema', () => {
+  it('accepts colleagues with an optional question and due date', () => {
+    const result = requestFeedbackSchema.safeParse({
+      recipientIds: ['clx1234567890abcdef12345'],
+      prompt: '  How did the demo go?  ',
+      dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+    });
+    expect(result.success).toBe(true);
+    expect(result.data?.prompt).toBe('How did the demo go?');
+    expect(result.data?.dueDate).toBeInstanceOf(Date);
+  });
+
+  it('requires at least one colleague, each asked once', () => {
+    expect(requestFeedbackSchema.safeParse({ recipientIds: [] }).success).toBe(false);
+    expect(
+      requestFeedbackSchema.safeParse({
+        recipientIds: ['clx1234567890abcdef12345', 'clx1234567890abcdef12345'],
+      }).success
+    ).toBe(false);
+  });
+
+  it('rejects due dates in the past', () => {
+    const result = requestFeedbackSchema.safeParse({
+      recipientIds: ['clx1234567890abcdef12345'],
+      dueDate: '2020-01-01',
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('feedbackReplySchema', () => {
+  it('requires text for replies but not for acknowledgements', () => {
+    const feedbackId = 'clx1234567890abcdef12345';
+
+    expect(feedbackReplySchema.safeParse({ feedbackId, content: 'Thanks!' }).data?.kind).toBe('REPLY');
+    expect(feedbackReplySchema.safeParse({ feedbackId, content: '   ' }).success).toBe(false);
+    expect(feedbackReplySchema.safeParse({ feedbackId, kind: 'ACKNOWLEDGEMENT' }).success).toBe(true);
+  });
+});
+
+describe('summarizeFeedbackSchema', () => {
+  const userId = 'clx1234567890abcdef12345';
+
+  it('accepts a period of up to a year', () => {
+    const result = summarizeFeedbackSchema.safeParse({
+      userId,
+      from: '2026-01-01',
+      to: '2026-12-31',
+    });
+    expect(result.success).toBe(true);
+    expect(result.data?.from).toBeInstanceOf(Date);
+  });
+
+  it('rejects periods ending before they start or longer than a year', () => {
+    const parse = (from: string, to: string) => summarizeFeedbackSchema.safeParse({ userId, from, to });
+
+    expect(parse('2026-03-01', '2026-02-01').success).toBe(false);
+    expect(parse('2024-01-01', '2026-01-01').success).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import {
+  requiredNotificationTypesSchema,
+  updateNotificationPreferencesSchema,
+} from '@/lib/validations/notification';
+
+describe('updateNotificationPreferencesSchema', () => {
+  it('accepts a channel per notification type', () => {
+    const result = updateNotificationPreferencesSchema.safeParse({
+      channels: { FEEDBACK_RECEIVED: 'DIGEST', REVIEW_REMINDER: 'OFF' },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects unknown channels', () => {
+    const result = updateNotificationPreferencesSchema.safeParse({
+      channels: { FEEDBACK_RECEIVED: 'SMS' },
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('requires at least one change', () => {
+    const result = updateNotificationPreferencesSchema.safeParse({ channels: {} });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.message).toBe('Choose at least one channel');
+  });
+});
+
+describe('requiredNotificationTypesSchema', () => {
+  it('removes duplicate types', () => {
+    const result = requiredNotificationTypesSchema.parse({
+      types: ['ABSENCE_APPROVED', 'ABSENCE_REJECTED', 'ABSENCE_APPROVED'],
+    });
+
+    expect(result.types).toEqual(['ABSENCE_APPROVED', 'ABSENCE_REJECTED']);
+  });
+
+  it('rejects unknown types', () => {
+    expect(requiredNotificationTypesSchema.safeParse({ types: ['BIRTHDAY'] }).success).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  passkeyAuthenticationResponseSchema,
+  registerPasskeySchema,
+} from '@/lib/validations/passkey';
+
+const registrationResponse = {
+  id: 'Y3JlZGVudGlhbA',
+  rawId: 'Y3JlZGVudGlhbA',
+  type: 'public-key',
+  clientExtensionResults: {},
+  response: {
+    clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIn0',
+    attestationObject: 'o2NmbXRkbm9uZQ',
+    transports: ['internal', 'hybrid'],
+  },
+};
+
+describe('registerPasskeySchema', () => {
+  it('accepts a named registration response', () => {
+    const result = registerPasskeySchema.safeParse({
+      name: '  Work laptop ',
+      response: registrationResponse,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.name).toBe('Work laptop');
+  });
+
+  it('requires a name', () => {
+    expect(
+      registerPasskeySchema.safeParse({ name: '   ', response: registrationResponse }).success
+    ).toBe(false);
+  });
+
+  it('rejects values that are not base64url', () => {
+    const result = registerPasskeySchema.safeParse({
+      name: 'Work laptop',
+      response: { ...registrationResponse, id: 'not base64url!' },
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('passkeyAuthenticationResponseSchema', () => {
+  const authenticationResponse = {
+    id: 'Y3JlZGVudGlhbA',
+    rawId: 'Y3JlZGVudGlhbA',
+    type: 'public-key',
+    clientExtensionResults: {},
+    response: {
+      clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0In0',
+      authenticatorData: 'SZYN5YgOjGh0NBcP',
+      signature: 'MEUCIQ',
+      userHandle: 'dXNlci0x',
+    },
+  };
+
+  it('accepts an authentication response', () => {
+    expect(passkeyAuthenticationResponseSchema.safeParse(authenticationResponse).success).toBe(
+      true
+    );
+  });
+
+  it('requires a signature', () => {
+    const result = passkeyAuthenticationResponseSchema.safeParse({
+      ...authenticationResponse,
+      response: { ...authenticationResponse.response, signature: undefined },
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects credentials of another type', () => {
+    const result = passkeyAuthenticationResponseSchema.safeParse({
+      ...authenticationResponse,
+      type: 'password',
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  reviewCycleSchema,
+  submitReviewSchema,
+  calibrateReviewRatingSchema,
+} from '@/lib/validations/review';
+
+const questions = [
+  { id: 'achievements', prompt: 'What went well?', type: 'TEXT' as const },
+  { id: 'overall', prompt: 'Overall performance', type: 'RATING' as const },
+];
+
+describe('reviewCycleSchema', () => {
+  it('validates a review cycle and coerces the deadline', () => {
+    const result = reviewCycleSchema.safeParse({
+      name: 'H1 Review',
+      questions,
+      deadline: '2026-06-30',
+      participantIds: ['clx1234567890abcdef12345'],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.deadline).toBeInstanceOf(Date);
+  });
+
+  it('requires at least one question', () => {
+    const result = reviewCycleSchema.safeParse({ name: 'H1 Review', questions: [], deadline: '2026-06-30' });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.message).toBe('Add at least one question');
+  });
+
+  it('rejects duplicate question IDs', () => {
+    const result = reviewCycleSchema.safeParse({
+      name: 'H1 Review',
+      questions: [questions[0], { ...questions[0], prompt: 'Again?' }],
+      deadline: '2026-06-30',
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('submitReviewSchema', () => {
+  it('accepts written and rated answers with an overall rating', () => {
+    const result = submitReviewSchema.safeParse({
+      cycleId: 'cycle-1',
+      reviewId: 'review-1',
+      answers: [
+        { questionId: 'achievements', text: 'Shipped the billing migration.' },
+        { questionId: 'overall', rating: 4 },
+      ],
+      rating: 4,
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects ratings outside 1 to 5', () => {
+    const result = submitReviewSchema.safeParse({
+      cycleId: 'cycle-1',
+      reviewId: 'review-1',
+      answers: [{ questionId: 'overall', rating: 6 }],
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('calibrateReviewRatingSchema', () => {
+  it('requires a whole-number rating', () => {
+    const result = calibrateReviewRatingSchema.safeParse({
+      cycleId: 'cycle-1',
+      userId: 'clx1234567890abcdef12345',
+      rating: 3.5,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.message).toBe('Ratings must be whole numbers');
+  });
+});
@@ -59,10 +59,11 @@ describe('Absence validation schemas', () => {
       expect(result.success).toBe(true);
     });
 
-    it('validates REJECTED status update', () => {
+    it('validates REJECTED status update with a reason', () => {
       const validData = {
         id: 'clx1234567890abcdef12345',
         status: 'REJECTED' as const,
+        comment: 'Too many people are out that week',
       };
 
       const result = updateAbsenceStatusSchema.safeParse(validData);
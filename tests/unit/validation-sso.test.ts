@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { ssoConnectionSchema } from '@/lib/validations/sso';
+
+const settings = {
+  enabled: true,
+  enforced: false,
+  jitProvisioning: true,
+  defaultRole: 'EMPLOYEE',
+  groupsAttribute: 'groups',
+  groupRoleMappings: [{ group: 'Managers', role: 'MANAGER' }],
+};
+
+describe('ssoConnectionSchema', () => {
+  it('accepts an OIDC connection without a new client secret', () => {
+    const result = ssoConnectionSchema.safeParse({
+      ...settings,
+      protocol: 'OIDC',
+      issuerUrl: 'https://login.example.com',
+      clientId: 'client',
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('requires an issuer URL and client ID for OIDC', () => {
+    const result = ssoConnectionSchema.safeParse({
+      ...settings,
+      protocol: 'OIDC',
+      issuerUrl: 'not a url',
+      clientId: '',
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('requires metadata for SAML', () => {
+    const result = ssoConnectionSchema.safeParse({
+      ...settings,
+      protocol: 'SAML',
+      samlMetadata: '   ',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.message).toBe('Identity provider metadata is required');
+  });
+
+  it('rejects group mappings to unknown roles', () => {
+    const result = ssoConnectionSchema.safeParse({
+      ...settings,
+      protocol: 'SAML',
+      samlMetadata: '<xml/>',
+      groupRoleMappings: [{ group: 'Admins', role: 'ADMIN' }],
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('only enforces SSO once it is enabled', () => {
+    const result = ssoConnectionSchema.safeParse({
+      ...settings,
+      enabled: false,
+      enforced: true,
+      protocol: 'SAML',
+      samlMetadata: '<xml/>',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.message).toBe('Enable SSO before enforcing it');
+  });
+});